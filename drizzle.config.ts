@@ -0,0 +1,11 @@
+import { defineConfig } from 'drizzle-kit';
+
+export default defineConfig({
+  out: './drizzle',
+  schema: './src/db/schema.ts',
+  dialect: 'turso',
+  dbCredentials: {
+    url: process.env.TURSO_CONNECTION_URL || 'file:local.db',
+    authToken: process.env.TURSO_AUTH_TOKEN
+  }
+});
@@ -0,0 +1,63 @@
+CREATE TABLE `candle_data` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`candle_index` integer NOT NULL,
+	`open` real NOT NULL,
+	`high` real NOT NULL,
+	`low` real NOT NULL,
+	`close` real NOT NULL,
+	`volume` real DEFAULT 0 NOT NULL,
+	`candle_datetime` text NOT NULL,
+	`prediction_direction` text,
+	`prediction_probability` real,
+	`prediction_confidence` real,
+	`prediction_interval` integer,
+	`prediction_factors` text,
+	`prediction_outcome` integer,
+	`indicators` text,
+	`source` text DEFAULT 'manual' NOT NULL,
+	`validated` integer DEFAULT true NOT NULL,
+	`quality` text DEFAULT 'medium' NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `trading_sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `candle_data_session_candle_index_unique` ON `candle_data` (`session_id`,`candle_index`);--> statement-breakpoint
+CREATE TABLE `predictions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`candle_index` integer NOT NULL,
+	`direction` text NOT NULL,
+	`probability` real NOT NULL,
+	`confidence` real NOT NULL,
+	`interval_minutes` integer NOT NULL,
+	`factors` text NOT NULL,
+	`outcome` text,
+	`model_version` text NOT NULL,
+	`algorithm` text NOT NULL,
+	`parameters` text NOT NULL,
+	`confidence_level` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_predictions_session_id` ON `predictions` (`session_id`);--> statement-breakpoint
+CREATE TABLE `trading_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_name` text NOT NULL,
+	`pair` text NOT NULL,
+	`timeframe` text NOT NULL,
+	`start_date` text NOT NULL,
+	`start_time` text NOT NULL,
+	`end_date` text,
+	`current_candle_index` integer DEFAULT 0 NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`description` text,
+	`tags` text DEFAULT '[]' NOT NULL,
+	`stats` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_trading_sessions_pair` ON `trading_sessions` (`pair`);--> statement-breakpoint
+CREATE INDEX `idx_trading_sessions_created_at` ON `trading_sessions` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `prediction_ledger` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`candle_index` integer NOT NULL,
+	`model_id` text NOT NULL,
+	`model_version` text NOT NULL,
+	`feature_hash` text NOT NULL,
+	`direction` text NOT NULL,
+	`probability` real NOT NULL,
+	`raw_probability` real,
+	`confidence` real NOT NULL,
+	`interval_minutes` integer NOT NULL,
+	`entry_price` real NOT NULL,
+	`inputs` text DEFAULT '{}' NOT NULL,
+	`created_at` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`expiry_candle_index` integer,
+	`actual_price` real,
+	`actual_direction` text,
+	`correct` integer,
+	`resolved_at` text,
+	FOREIGN KEY (`session_id`) REFERENCES `trading_sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_prediction_ledger_session` ON `prediction_ledger` (`session_id`,`candle_index`);--> statement-breakpoint
+CREATE INDEX `idx_prediction_ledger_model` ON `prediction_ledger` (`model_id`,`model_version`);
\ No newline at end of file
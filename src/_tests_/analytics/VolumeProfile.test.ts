@@ -0,0 +1,95 @@
+import { VolumeProfileService, tpoPeriodForTimeframe } from '@/services/analytics/VolumeProfileService';
+import { CandleData } from '@/types/session';
+
+describe('VolumeProfileService', () => {
+  const service = new VolumeProfileService({ bucketCount: 10 });
+
+  function candle(low: number, high: number, volume: number, index: number): CandleData {
+    return {
+      session_id: 'test',
+      candle_index: index,
+      open: low,
+      high,
+      low,
+      close: high,
+      volume,
+      candle_datetime: new Date(1700000000000 + index * 300000).toISOString()
+    };
+  }
+
+  function series(ranges: Array<[number, number, number]>): CandleData[] {
+    return ranges.map(([low, high, volume], i) => candle(low, high, volume, i));
+  }
+
+  it('should spread candle volume over price buckets and find POC and value area', () => {
+    const profile = service.buildProfile(series([
+      [100, 110, 1000],
+      [104, 105, 500],
+      [104, 106, 400]
+    ]))!;
+
+    expect(profile.buckets).toHaveLength(10);
+    expect(profile.bucketSize).toBe(1);
+    expect(profile.totalVolume).toBeCloseTo(1900, 10);
+    expect(profile.buckets[4].volume).toBeCloseTo(800, 10);
+    expect(profile.buckets[5].volume).toBeCloseTo(300, 10);
+    expect(profile.buckets[0].percentage).toBeCloseTo(100 / 19, 10);
+
+    expect(profile.poc).toBe(104.5);
+    // 800 + 300 + 100 + 100 + 100 >= 70% от 1900, при равенстве расширяемся вверх
+    expect(profile.valueAreaLow).toBe(104);
+    expect(profile.valueAreaHigh).toBe(109);
+    expect(profile.buckets.filter(b => b.inValueArea)).toHaveLength(5);
+  });
+
+  it('should find high volume nodes and the low volume node between them', () => {
+    const profile = service.buildProfile(series([
+      [100, 110, 100],
+      [101, 102, 1000],
+      [108, 109, 1000]
+    ]))!;
+
+    expect(profile.highVolumeNodes).toEqual([101.5, 108.5]);
+    expect(profile.lowVolumeNodes).toEqual([106.5]);
+  });
+
+  it('should build TPO letters per period with initial balance', () => {
+    const profile = service.buildProfile(series([
+      [100, 102, 10],
+      [101, 103, 10],
+      [104, 106, 10],
+      [108, 110, 10],
+      [100, 101, 10]
+    ]), { tpoPeriod: 2 })!;
+
+    expect(profile.tpo.periods).toBe(3);
+    expect(profile.buckets[0].tpoLetters).toBe('AC');
+    expect(profile.buckets[1].tpoLetters).toBe('AC');
+    expect(profile.buckets[2].tpoLetters).toBe('A');
+    expect(profile.buckets[5].tpoLetters).toBe('B');
+    expect(profile.buckets[9].tpoCount).toBe(1);
+    // Равные счетчики TPO: побеждает корзина ближе к середине диапазона
+    expect(profile.tpo.poc).toBe(101.5);
+    expect(profile.tpo.initialBalanceLow).toBe(100);
+    expect(profile.tpo.initialBalanceHigh).toBe(110);
+  });
+
+  it('should profile rolling windows and derive lookahead-free features', () => {
+    const candles = series(Array.from({ length: 30 }, (_, i): [number, number, number] => [100 + i, 101 + i, 100]));
+    const window = service.rollingProfile(candles, 10, 19)!;
+
+    expect(window.startIndex).toBe(10);
+    expect(window.endIndex).toBe(19);
+
+    const features = service.getFeatures(candles, 19, 10);
+    expect(features).toHaveLength(4);
+    expect(service.getFeatures(candles.slice(0, 20), 19, 10)).toEqual(features);
+    expect(service.buildProfile([])).toBeNull();
+  });
+
+  it('should derive 30-minute TPO periods from the timeframe', () => {
+    expect(tpoPeriodForTimeframe('5m')).toBe(6);
+    expect(tpoPeriodForTimeframe('1h')).toBe(1);
+    expect(tpoPeriodForTimeframe('unknown')).toBe(1);
+  });
+});
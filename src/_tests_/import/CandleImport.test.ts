@@ -0,0 +1,134 @@
+import { candleImportService, parseImportDateTime } from '@/services/import/CandleImportService';
+import { detectImportFormat, parseCandleFile } from '@/services/import/candleImportParsers';
+import { calculateCandleDateTime } from '@/utils/dateTimeUtils';
+import { CandleData, TradingSession } from '@/types/session';
+
+describe('Candle import', () => {
+  const session: TradingSession = {
+    id: 'session-1',
+    session_name: 'EUR/USD import',
+    pair: 'EUR/USD',
+    timeframe: '5m',
+    start_date: '2024-01-02',
+    start_time: '10:00',
+    current_candle_index: 1,
+    created_at: '2024-01-02T10:00:00.000Z',
+    updated_at: '2024-01-02T10:00:00.000Z'
+  };
+
+  const at = (index: number) => calculateCandleDateTime(session.start_date, session.start_time, session.timeframe, index);
+  // Время свечи по часам UTC без смещения, как в выгрузках
+  const wall = (index: number) => at(index).slice(0, 16);
+
+  const stored = (index: number, close: number): CandleData => ({
+    session_id: session.id,
+    candle_index: index,
+    open: 1.1,
+    high: 1.1050,
+    low: 1.0950,
+    close,
+    volume: 5000,
+    candle_datetime: at(index)
+  });
+
+  it('should detect and parse MetaTrader 4/5, TradingView and mapped CSV exports', () => {
+    const mt4 = '2024.01.02,10:00,1.10000,1.10100,1.09900,1.10050,1234\n2024.01.02,10:05,1.10050,1.10200,1.10000,1.10150,1500';
+    const mt5 = '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>\n2024.01.02\t10:00:00\t1.1\t1.101\t1.099\t1.1005\t321\t0\t12';
+    const tradingView = 'time,open,high,low,close,Volume,Volume MA\n1704189600,1.1,1.101,1.099,1.1005,2500,2400';
+    const csv = 'Дата;Open;High;Low;Close;Объем\n02.01.2024 10:00;1,1;1,101;1,099;1,1005;700';
+
+    expect([mt4, mt5, tradingView, csv].map(detectImportFormat)).toEqual(['mt4', 'mt5', 'tradingview', 'csv']);
+
+    expect(parseCandleFile(mt4).rows[1]).toEqual({
+      line: 2, datetime: '2024.01.02 10:05', open: '1.10050', high: '1.10200', low: '1.10000', close: '1.10150', volume: '1500'
+    });
+    // Без биржевого объема берется тиковый
+    expect(parseCandleFile(mt5).rows[0]).toMatchObject({ datetime: '2024.01.02 10:00:00', volume: '321' });
+    expect(parseCandleFile(tradingView).rows[0]).toMatchObject({ datetime: '1704189600', close: '1.1005', volume: '2500' });
+
+    const parsedCsv = parseCandleFile(csv);
+    expect(parsedCsv.mapping).toMatchObject({ date: 'Дата', open: 'Open', volume: 'Объем' });
+    expect(parsedCsv.rows[0]).toMatchObject({ datetime: '02.01.2024 10:00', open: '1.1', close: '1.1005', volume: '700' });
+
+    const unmapped = parseCandleFile('a,b,c,d,e\nx,1,2,3,4');
+    expect(unmapped.rows).toHaveLength(0);
+    expect(unmapped.errors[0].message).toBe('Не удалось определить колонки: укажите сопоставление вручную');
+
+    const mapped = parseCandleFile('a,b,c,d,e\n2024-01-02 10:00,1,2,0.5,1.5', {
+      mapping: { datetime: 'a', open: 'b', high: 'c', low: 'd', close: 'e' }
+    });
+    expect(mapped.rows[0]).toMatchObject({ open: '1', high: '2', low: '0.5', close: '1.5', volume: '0' });
+  });
+
+  it('should normalize timestamps from the file time zone to UTC', () => {
+    // Время сервера брокера: EET зимой (+2) и EEST летом (+3)
+    expect(parseImportDateTime('2024.01.02 12:00', 'Europe/Helsinki')).toBe(Date.UTC(2024, 0, 2, 10));
+    expect(parseImportDateTime('2024.07.01 12:00', 'Europe/Helsinki')).toBe(Date.UTC(2024, 6, 1, 9));
+    expect(parseImportDateTime('2024-01-02 12:00', 'UTC+3')).toBe(Date.UTC(2024, 0, 2, 9));
+    expect(parseImportDateTime('02.01.2024 12:00', '-05:00')).toBe(Date.UTC(2024, 0, 2, 17));
+    expect(parseImportDateTime('20240102 120000', 'UTC')).toBe(Date.UTC(2024, 0, 2, 12));
+
+    // Unix-время и ISO со смещением от пояса файла не зависят
+    expect(parseImportDateTime('1704196800', 'Europe/Helsinki')).toBe(Date.UTC(2024, 0, 2, 12));
+    expect(parseImportDateTime('2024-01-02T12:00:00Z', '+03:00')).toBe(Date.UTC(2024, 0, 2, 12));
+    expect(parseImportDateTime('2024-01-02T12:00:00+02:00', 'UTC')).toBe(Date.UTC(2024, 0, 2, 10));
+    expect(parseImportDateTime('2024-13-02 12:00', 'UTC')).toBeNull();
+
+    const preview = candleImportService.preview('2024.01.02,10:00,1.1,1.101,1.099,1.1005,1234', session, [], { timeZone: 'Mars/Olympus' });
+    expect(preview.errors).toEqual(['Неизвестный часовой пояс: Mars/Olympus']);
+    expect(candleImportService.getCandlesToImport(preview)).toHaveLength(0);
+  });
+
+  it('should validate rows and report duplicates, conflicts and gaps in the preview', () => {
+    const existing = [stored(0, 1.1), stored(1, 1.1020)];
+    const csv = [
+      'datetime,open,high,low,close,volume',
+      `${wall(1)},1.1,1.1050,1.0950,1.1020,5000`,
+      `${wall(2)},1.1,1.1050,1.0950,1.1030,5000`,
+      `${wall(2)},1.1,1.1050,1.0950,1.1040,5000`,
+      `${wall(3)},1.1,1.0900,1.0950,1.1000,5000`,
+      `${wall(0)},1.1,1.1050,1.0950,1.0990,5000`,
+      `${wall(6)},1.1,1.1050,1.0950,1.1010,5000`,
+      `${wall(7).slice(0, 14)}37,1.1,1.1050,1.0950,1.1010,5000`,
+      'not a date,1.1,1.1050,1.0950,1.1010,5000'
+    ].join('\n');
+
+    const preview = candleImportService.preview(csv, session, existing, { timeZone: 'UTC' });
+
+    expect(preview.rows.map(r => r.status)).toEqual([
+      'unchanged', 'new', 'duplicate', 'invalid', 'overwrite', 'new', 'invalid', 'invalid'
+    ]);
+    expect(preview.summary).toMatchObject({ total: 8, new: 2, overwrite: 1, unchanged: 1, duplicate: 1, invalid: 3 });
+    expect(preview.rows[2].warnings).toEqual(['Повтор свечи из строки 3 с другими ценами']);
+    expect(preview.rows[3].errors).toContain('Максимальная цена не может быть меньше минимальной');
+    expect(preview.rows[6].errors).toEqual([
+      `Время ${new Date(new Date(at(7)).getTime() + 120000).toISOString()} не совпадает с сеткой таймфрейма 5m`
+    ]);
+    expect(preview.rows[7].errors).toEqual(['Не удалось разобрать дату: "not a date"']);
+    expect(preview.rows[1].candle).toMatchObject({ candle_index: 2, candle_datetime: at(2), close: 1.1030, source: 'import' });
+
+    expect(preview.gaps).toEqual([{ fromIndex: 2, toIndex: 6, missing: 3, from: at(2), to: at(6) }]);
+    expect(preview.range).toEqual({ from: at(0), to: at(6) });
+
+    expect(candleImportService.getCandlesToImport(preview).map(c => c.candle_index)).toEqual([2, 6]);
+    expect(candleImportService.getCandlesToImport(preview, true).map(c => [c.candle_index, c.close])).toEqual([
+      [0, 1.0990], [2, 1.1030], [6, 1.1010]
+    ]);
+  });
+
+  it('should reject candles before the session start and flag a timeframe mismatch', () => {
+    const tradingView = [
+      'time,open,high,low,close',
+      ...[-1, 3, 6, 9].map(i => `${new Date(at(0)).getTime() / 1000 + i * 300},1.1,1.101,1.099,1.1005`)
+    ].join('\n');
+
+    const preview = candleImportService.preview(tradingView, session, []);
+
+    expect(preview.format).toBe('tradingview');
+    expect(preview.rows[0].errors).toEqual(['Свеча раньше начала сессии']);
+    expect(preview.detectedTimeframe).toBe(15);
+    expect(preview.warnings).toEqual(['Интервал свечей в файле (15 мин) не совпадает с таймфреймом сессии (5m)']);
+    expect(preview.rows.slice(1).map(r => r.candle?.candle_index)).toEqual([3, 6, 9]);
+    expect(preview.rows[1].warnings).toContain('Объем равен нулю - возможно отсутствие торговой активности');
+  });
+});
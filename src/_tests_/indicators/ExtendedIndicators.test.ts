@@ -0,0 +1,133 @@
+import { IndicatorFactory } from '@/services/indicators/indicator-factory';
+import { MarketDataPoint } from '@/services/indicators/core/types';
+
+describe('Extended Indicators', () => {
+  const factory = new IndicatorFactory();
+
+  function trendingData(count: number, step: number = 1): MarketDataPoint[] {
+    return Array.from({ length: count }, (_, i) => {
+      const close = 100 + i * step;
+      return {
+        timestamp: Date.now() - (count - i) * 60000,
+        open: close - step / 2,
+        high: close + 1,
+        low: close - 1,
+        close,
+        volume: 1000
+      };
+    });
+  }
+
+  describe('ATR', () => {
+    it('should equal the bar range when bars do not gap', async () => {
+      const data = trendingData(30, 0.5);
+      const result = await factory.createATR({ period: 14 }).calculate(data);
+
+      expect(result.error).toBeUndefined();
+      expect(result.values[12]).toBeNaN();
+      expect(result.validity[13]).toBe(true);
+      expect(result.values[29]).toBeCloseTo(2, 6);
+    });
+  });
+
+  describe('ADX', () => {
+    it('should report a strong trend with +DI above -DI in a steady uptrend', async () => {
+      const data = trendingData(60, 2);
+      const result = await factory.createADX({ period: 14 }).calculate(data);
+      const last = result.values[result.values.length - 1];
+
+      expect(result.validity[26]).toBe(false);
+      expect(result.validity[27]).toBe(true);
+      expect(last.adx).toBeGreaterThan(25);
+      expect(last.plusDI).toBeGreaterThan(last.minusDI);
+    });
+  });
+
+  describe('Ichimoku', () => {
+    it('should only produce cloud spans once the displacement window is available', async () => {
+      const data = trendingData(100);
+      const result = await factory.createIchimoku().calculate(data);
+
+      expect(result.validity[76]).toBe(false);
+      expect(result.validity[77]).toBe(true);
+      // Span B at bar 77 comes from the 52-bar window ending at bar 51
+      expect(result.values[77].senkouSpanB).toBeCloseTo((data[51].high + data[0].low) / 2, 6);
+    });
+  });
+
+  describe('VWAP', () => {
+    it('should equal the mean typical price when volume is constant', async () => {
+      const data = trendingData(10);
+      const result = await factory.createVWAP().calculate(data);
+      const meanTypical = data.reduce((sum, d) => sum + (d.high + d.low + d.close) / 3, 0) / data.length;
+
+      expect(result.values[9]).toBeCloseTo(meanTypical, 6);
+      expect(result.bands).toHaveLength(10);
+      expect(result.bands[9].upper).toBeGreaterThan(result.values[9]);
+    });
+
+    it('should support a rolling window', async () => {
+      const data = trendingData(30);
+      const result = await factory.createVWAP({ anchor: 'rolling', period: 5 }).calculate(data);
+
+      expect(result.values[3]).toBeNaN();
+      expect(result.values[29]).toBeCloseTo(data[27].close, 6);
+    });
+  });
+
+  describe('OBV', () => {
+    it('should accumulate volume in the direction of the close', async () => {
+      const data = trendingData(5).map(d => ({ ...d, high: d.high + 5, low: d.low - 5 }));
+      data[3].close = data[2].close - 1;
+      data[4].close = data[3].close;
+      const result = await factory.createOBV().calculate(data);
+
+      expect(result.values).toEqual([0, 1000, 2000, 1000, 1000]);
+    });
+  });
+
+  describe('MFI', () => {
+    it('should reach 100 when every typical price rises', async () => {
+      const result = await factory.createMFI({ period: 14 }).calculate(trendingData(20));
+
+      expect(result.values[13]).toBeNaN();
+      expect(result.values[19]).toBe(100);
+    });
+  });
+
+  describe('CCI', () => {
+    it('should be zero for a flat series', async () => {
+      const result = await factory.createCCI({ period: 20 }).calculate(trendingData(25, 0));
+
+      expect(result.values[24]).toBe(0);
+    });
+  });
+
+  describe('Williams %R', () => {
+    it('should be near 0 at the top of the range', async () => {
+      const result = await factory.createWilliamsR({ period: 14 }).calculate(trendingData(20));
+
+      expect(result.values[19]).toBeGreaterThan(-20);
+      expect(result.values[19]).toBeLessThanOrEqual(0);
+    });
+  });
+
+  describe('Batch calculation', () => {
+    it('should calculate the new indicator types through calculateBatch', async () => {
+      const batch = await factory.calculateBatch({
+        indicators: [
+          { type: 'atr', config: { period: 14 } },
+          { type: 'adx', config: { period: 14 } },
+          { type: 'obv', config: { period: 20 } },
+          { type: 'mfi', config: { period: 14 } },
+          { type: 'cci', config: { period: 20 } },
+          { type: 'williamsR', config: { period: 14 } }
+        ],
+        data: trendingData(60)
+      });
+
+      expect(batch.errors).toHaveLength(0);
+      expect(batch.results.size).toBe(6);
+    });
+  });
+});
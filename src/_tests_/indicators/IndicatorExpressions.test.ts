@@ -0,0 +1,144 @@
+import { parseExpression } from '@/services/indicators/expression/expression-parser';
+import { compileExpression } from '@/services/indicators/expression/expression-evaluator';
+import { ExpressionError } from '@/services/indicators/expression/expression-types';
+import { ExpressionSignalSource } from '@/services/indicators/expression/signal-source';
+import { MarketDataPoint } from '@/services/indicators/core/types';
+import { CandleData } from '@/types/session';
+
+describe('Indicator Expression Language', () => {
+  function series(closes: number[]): MarketDataPoint[] {
+    return closes.map((close, i) => ({
+      timestamp: 1700000000000 + i * 60000,
+      open: close,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000
+    }));
+  }
+
+  describe('Parser', () => {
+    it('should respect operator precedence', () => {
+      const ast = parseExpression('RSI(14) < 30 AND close > 1 + 2 * 3 OR NOT volume > 0');
+
+      expect(ast.kind).toBe('logical');
+      expect((ast as any).operator).toBe('OR');
+      expect((ast as any).left.operator).toBe('AND');
+      expect((ast as any).left.right.right.right.operator).toBe('*');
+      expect((ast as any).right.operator).toBe('NOT');
+    });
+
+    it('should parse crosses, fields and lookbacks', () => {
+      const ast = parseExpression('MACD(12, 26, 9).histogram crosses above 0 and close[2] < close') as any;
+
+      expect(ast.left.operator).toBe('CROSSES_ABOVE');
+      expect(ast.left.left).toEqual({ kind: 'indicator', name: 'MACD', args: [12, 26, 9], field: 'HISTOGRAM' });
+      expect(ast.right.left).toEqual({ kind: 'lookback', operand: { kind: 'price', field: 'close' }, bars: 2 });
+    });
+
+    it('should report the position of syntax errors', () => {
+      expect(() => parseExpression('RSI(14) < ')).toThrow('Unexpected end of expression');
+      expect(() => parseExpression('close crosses 30')).toThrow("Expected 'above' or 'below'");
+      expect(() => parseExpression('close # 3')).toThrow('position 6');
+    });
+  });
+
+  describe('Evaluator', () => {
+    it('should evaluate arithmetic on price fields', () => {
+      const values = compileExpression('(high - low) * 2 + close / 100').evaluate(series([100, 200]));
+
+      expect(values).toEqual([3, 4]);
+    });
+
+    it('should return values from earlier bars with lookback', () => {
+      const values = compileExpression('close - close[1]').evaluate(series([100, 103, 101]));
+
+      expect(values[0]).toBeNaN();
+      expect(values[1]).toBe(3);
+      expect(values[2]).toBe(-2);
+    });
+
+    it('should detect crosses only on the crossing bar', () => {
+      const values = compileExpression('close crosses above 100').evaluate(series([99, 100, 101, 102, 99, 101]));
+
+      expect(values).toEqual([false, false, true, false, false, true]);
+    });
+
+    it('should match indicator values computed by the factory', () => {
+      const data = series(Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 3) * 4));
+      const values = compileExpression('RSI(14)').evaluate(data);
+      const rsi = compileExpression('RSI(14) >= 0').evaluate(data);
+
+      expect(values[13]).toBeNaN();
+      expect(values[14]).toBeGreaterThan(0);
+      expect(rsi[13]).toBe(false);
+      expect(rsi[14]).toBe(true);
+    });
+
+    it('should reject unknown indicators, fields and argument counts', () => {
+      expect(() => compileExpression('FOO(3) > 1')).toThrow("Unknown indicator 'FOO'");
+      expect(() => compileExpression('MACD().foo > 1')).toThrow("has no field 'foo'");
+      expect(() => compileExpression('RSI(14, 2) > 1')).toThrow('at most 1 argument');
+      expect(() => compileExpression('RSI(')).toThrow(ExpressionError);
+    });
+
+    it('should flag conditions', () => {
+      expect(compileExpression('RSI(14) < 30').isCondition()).toBe(true);
+      expect(compileExpression('BB(20, 2).upper - BB(20, 2).lower').isCondition()).toBe(false);
+    });
+  });
+
+  describe('Signal source', () => {
+    function candles(closes: number[]): CandleData[] {
+      return series(closes).map((point, i) => ({
+        session_id: 'test_session',
+        candle_index: i,
+        open: point.open,
+        high: point.high,
+        low: point.low,
+        close: point.close,
+        volume: point.volume,
+        candle_datetime: new Date(point.timestamp).toISOString()
+      }));
+    }
+
+    it('should fire rules on the latest candle and process candles incrementally', () => {
+      const source = new ExpressionSignalSource([
+        { id: 'breakout', name: 'Breakout', condition: 'close crosses above 100', direction: 'CALL', expiry: 5 }
+      ]);
+      const history = candles([98, 99, 101, 102]);
+
+      expect(source.update(history.slice(0, 2))).toHaveLength(0);
+      const matches = source.update(history.slice(0, 3));
+      expect(matches).toHaveLength(1);
+      expect(matches[0].candleIndex).toBe(2);
+      expect(source.update(history)).toHaveLength(0);
+    });
+
+    it('should skip an invalid candle once and keep evaluating later candles', () => {
+      const source = new ExpressionSignalSource([
+        { id: 'breakout', name: 'Breakout', condition: 'close crosses above 100', direction: 'CALL', expiry: 5 }
+      ]);
+      const history = candles([98, 99, 99.5, 101]);
+      // Свеча с high ниже close отвергается индикаторами
+      history[2] = { ...history[2], high: history[2].close - 1 };
+
+      expect(() => source.update(history.slice(0, 3))).not.toThrow();
+      expect(source.update(history.slice(0, 3))).toHaveLength(0);
+      const matches = source.update(history);
+      expect(matches).toHaveLength(1);
+      expect(matches[0].candleIndex).toBe(3);
+    });
+
+    it('should replay when the last candle is edited at the same timestamp', () => {
+      const source = new ExpressionSignalSource([
+        { id: 'breakout', name: 'Breakout', condition: 'close crosses above 100', direction: 'CALL', expiry: 5 }
+      ]);
+      const history = candles([98, 99, 99.5]);
+
+      expect(source.update(history)).toHaveLength(0);
+      const edited = [...history.slice(0, 2), { ...history[2], close: 101, high: 101.5 }];
+      expect(source.update(edited)).toHaveLength(1);
+    });
+  });
+});
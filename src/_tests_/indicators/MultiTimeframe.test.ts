@@ -0,0 +1,121 @@
+import { IndicatorFactory } from '@/services/indicators/indicator-factory';
+import {
+  resampleCandles,
+  getBucketStart,
+  TimeframeResampler
+} from '@/services/indicators/timeframe/timeframe-resampler';
+import { computeAlignedIndicator } from '@/services/indicators/timeframe/aligned-indicator';
+import { candleToMarketDataPoint } from '@/services/indicators/core/market-data';
+import { CandleData } from '@/types/session';
+
+describe('Multi-Timeframe', () => {
+  const factory = new IndicatorFactory();
+  const start = Date.UTC(2024, 0, 1, 0, 0);
+  const FIVE_MINUTES = 300000;
+
+  function candles(count: number, offset = 0): CandleData[] {
+    return Array.from({ length: count }, (_, i) => {
+      const close = 100 + Math.sin(i * 0.2) * 3 + i * 0.02;
+      const open = close - Math.cos(i * 0.5) * 0.4;
+      return {
+        session_id: 'test_session',
+        candle_index: i,
+        open,
+        high: Math.max(open, close) + 0.3,
+        low: Math.min(open, close) - 0.3,
+        close,
+        volume: 100 + (i % 4) * 10,
+        candle_datetime: new Date(start + (i + offset) * FIVE_MINUTES).toISOString()
+      };
+    });
+  }
+
+  describe('Resampler', () => {
+    it('should aggregate OHLCV into aligned buckets', () => {
+      const base = candles(7);
+      const bars = resampleCandles(base, '5m', '15m');
+
+      expect(bars).toHaveLength(3);
+      expect(bars[0].open).toBe(base[0].open);
+      expect(bars[0].close).toBe(base[2].close);
+      expect(bars[0].high).toBe(Math.max(base[0].high, base[1].high, base[2].high));
+      expect(bars[0].low).toBe(Math.min(base[0].low, base[1].low, base[2].low));
+      expect(bars[0].volume).toBe(base[0].volume + base[1].volume + base[2].volume);
+      expect(bars[0].candle_datetime).toBe(new Date(start).toISOString());
+      expect(bars[1].isComplete).toBe(true);
+      expect(bars[2].isComplete).toBe(false);
+      expect(bars[2].sourceCount).toBe(1);
+    });
+
+    it('should drop the forming bar on request and close buckets across gaps', () => {
+      const base = candles(6).filter(c => c.candle_index !== 2);
+      const bars = resampleCandles(base, '5m', '15m', { includePartial: false });
+
+      expect(bars).toHaveLength(2);
+      expect(bars[0].sourceCount).toBe(2);
+      expect(bars[0].isComplete).toBe(true);
+    });
+
+    it('should chain resampled series into higher timeframes', () => {
+      const base = candles(48);
+      const direct = resampleCandles(base, '5m', '1h');
+      const chained = resampleCandles(resampleCandles(base, '5m', '15m'), '15m', '1h');
+
+      expect(chained.map(bar => [bar.open, bar.high, bar.low, bar.close, bar.volume]))
+        .toEqual(direct.map(bar => [bar.open, bar.high, bar.low, bar.close, bar.volume]));
+    });
+
+    it('should start weekly buckets on Monday', () => {
+      const wednesday = Date.UTC(2024, 0, 3, 12);
+      expect(new Date(getBucketStart(wednesday, '1w')).getUTCDay()).toBe(1);
+    });
+
+    it('should reject invalid timeframe combinations and out-of-order candles', () => {
+      expect(() => new TimeframeResampler('1h', '15m')).toThrow('must be higher');
+      expect(() => resampleCandles(candles(3).reverse(), '5m', '15m')).toThrow('chronological order');
+    });
+  });
+
+  describe('Aligned indicators', () => {
+    it('should only expose higher-timeframe values after the bar closes', () => {
+      const base = candles(240);
+      const aligned = computeAlignedIndicator(base, factory.createRSI({ period: 5 }), {
+        baseTimeframe: '5m',
+        targetTimeframe: '1h'
+      });
+
+      aligned.forEach((value, i) => {
+        if (value.bar) {
+          expect(value.bar.isComplete).toBe(true);
+          expect(value.bar.lastSourceIndex).toBeLessThanOrEqual(i);
+        }
+      });
+      expect(aligned[10].bar).toBeNull();
+      expect(aligned[11].bar!.startTime).toBe(start);
+    });
+
+    it('should not change past values when future candles are appended', () => {
+      const base = candles(240);
+      const options = { baseTimeframe: '5m' as const, targetTimeframe: '1h' as const, includeFormingBar: true };
+      const partial = computeAlignedIndicator(base.slice(0, 150), factory.createRSI({ period: 5 }), options);
+      const full = computeAlignedIndicator(base, factory.createRSI({ period: 5 }), options);
+
+      partial.forEach((value, i) => {
+        expect(full[i].value).toEqual(value.value);
+      });
+    });
+
+    it('should match the indicator computed on the resampled series', async () => {
+      const base = candles(240);
+      const hourly = resampleCandles(base, '5m', '1h');
+      const batch = await factory.createRSI({ period: 5 }).calculate(hourly.map(candleToMarketDataPoint));
+      const aligned = computeAlignedIndicator(base, factory.createRSI({ period: 5 }), {
+        baseTimeframe: '5m',
+        targetTimeframe: '1h'
+      });
+
+      expect(aligned[239].value).toBeCloseTo(batch.values[19], 8);
+      expect(aligned[238].value).toBeCloseTo(batch.values[18], 8);
+    });
+  });
+});
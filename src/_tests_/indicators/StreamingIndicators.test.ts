@@ -0,0 +1,120 @@
+import { IndicatorFactory } from '@/services/indicators/indicator-factory';
+import { MarketDataPoint } from '@/services/indicators/core/types';
+
+describe('Streaming Indicator Updates', () => {
+  const factory = new IndicatorFactory();
+
+  function waveData(count: number): MarketDataPoint[] {
+    return Array.from({ length: count }, (_, i) => {
+      const close = 100 + Math.sin(i * 0.3) * 5 + i * 0.05;
+      const open = close + Math.cos(i * 0.7);
+      return {
+        timestamp: 1700000000000 + i * 60000,
+        open,
+        high: Math.max(open, close) + 0.5 + (i % 3) * 0.2,
+        low: Math.min(open, close) - 0.5 - (i % 2) * 0.3,
+        close,
+        volume: 1000 + (i % 7) * 150
+      };
+    });
+  }
+
+  function expectSameValue(streamed: any, batch: any) {
+    if (typeof batch === 'number') {
+      if (isNaN(batch)) {
+        expect(streamed).toBeNaN();
+      } else {
+        expect(streamed).toBeCloseTo(batch, 6);
+      }
+      return;
+    }
+    for (const key of Object.keys(batch)) {
+      expectSameValue(streamed[key], batch[key]);
+    }
+  }
+
+  const cases: Array<[string, () => any]> = [
+    ['RSI (wilder)', () => factory.createRSI({ period: 14 })],
+    ['RSI (sma)', () => factory.createRSI({ period: 14, smoothingMethod: 'sma' })],
+    ['MACD', () => factory.createMACD()],
+    ['Bollinger Bands', () => factory.createBollingerBands()],
+    ['Stochastic', () => factory.createStochastic()],
+    ['ATR', () => factory.createATR()],
+    ['ADX', () => factory.createADX()],
+    ['Ichimoku', () => factory.createIchimoku()],
+    ['VWAP', () => factory.createVWAP()],
+    ['OBV', () => factory.createOBV()],
+    ['MFI', () => factory.createMFI()],
+    ['CCI', () => factory.createCCI()],
+    ['Williams %R', () => factory.createWilliamsR()]
+  ];
+
+  cases.forEach(([name, create]) => {
+    it(`${name}: streamed values should match the batch calculation`, async () => {
+      const data = waveData(120);
+      const batch = await create().calculate(data);
+      const indicator = create();
+
+      expect(batch.error).toBeUndefined();
+      data.forEach((point, i) => {
+        const update = indicator.update(point);
+        expectSameValue(update.value.value, batch.values[i]);
+        expect(update.value.isValid).toBe(batch.validity[i]);
+      });
+    });
+  });
+
+  it('should restore a snapshot and continue identically', () => {
+    const data = waveData(80);
+    const original = factory.createRSI({ period: 14 });
+    original.initializeStreaming(data.slice(0, 50));
+
+    const snapshot = original.getStreamingState();
+    const restored = factory.createRSI({ period: 14 });
+    restored.restoreStreamingState(snapshot);
+
+    for (const point of data.slice(50)) {
+      expect(restored.update(point).value.value).toBe(original.update(point).value.value);
+    }
+    expect(snapshot.count).toBe(50);
+  });
+
+  it('should reject snapshots from a different indicator or configuration', () => {
+    const rsi = factory.createRSI({ period: 14 });
+    rsi.initializeStreaming(waveData(20));
+    const snapshot = rsi.getStreamingState();
+
+    expect(() => factory.createRSI({ period: 21 }).restoreStreamingState(snapshot)).toThrow();
+    expect(() => factory.createCCI().restoreStreamingState(snapshot as any)).toThrow();
+  });
+
+  it('should report RSI level crossings', () => {
+    const rsi = factory.createRSI({ period: 5 });
+    const rising = waveData(10).map((point, i) => ({
+      ...point,
+      open: 100 + i,
+      close: 100 + i,
+      high: 101 + i,
+      low: 99 + i
+    }));
+    rsi.initializeStreaming(rising);
+
+    const drop = rsi.update({
+      ...rising[9],
+      timestamp: rising[9].timestamp + 60000,
+      open: 109,
+      close: 100,
+      high: 109.5,
+      low: 99.5
+    });
+    expect(drop.levelCross).toEqual({ level: 70, direction: 'down' });
+  });
+
+  it('should reject out-of-order points', () => {
+    const obv = factory.createOBV();
+    const data = waveData(3);
+    obv.update(data[1]);
+
+    expect(() => obv.update(data[0])).toThrow('Data validation failed');
+  });
+});
@@ -0,0 +1,221 @@
+import { BacktestEngine, BacktestStrategy, StrategyContext } from '@/services/backtesting/core/BacktestEngine';
+import { BacktestBar, EntryOrder } from '@/services/backtesting/core/types';
+import { positionQuantity } from '@/services/backtesting/core/sizing';
+import { BacktestingService, Strategy } from '@/services/backtesting/BacktestingService';
+import { AdvancedBacktestingService, AdvancedStrategy } from '@/services/backtesting/AdvancedBacktestingService';
+import { CandleData } from '@/types/session';
+
+describe('BacktestEngine', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  function bar(index: number, open: number, high: number, low: number, close: number): BacktestBar {
+    return { index, time: Date.UTC(2024, 0, 1) + index * DAY, open, high, low, close, volume: 100 };
+  }
+
+  function flatBars(closes: number[]): BacktestBar[] {
+    return closes.map((close, i) => bar(i, close, close, close, close));
+  }
+
+  // Стратегия по расписанию: входы и выходы на заданных барах
+  function scripted(entries: Record<number, EntryOrder>, exits: number[] = []): BacktestStrategy {
+    return {
+      name: 'scripted',
+      onBar: (context: StrategyContext) => {
+        if (exits.includes(context.index)) context.exit();
+        const order = entries[context.index];
+        if (order) context.enter(order);
+      }
+    };
+  }
+
+  it('should fill market orders at the signal close and charge commission on both sides', () => {
+    const engine = new BacktestEngine({
+      initialCapital: 1000,
+      commission: { type: 'percent', rate: 0.01 }
+    });
+    const result = engine.run(flatBars([100, 100, 110, 120]), scripted({ 1: { side: 'long', quantity: 2 } }, [2]));
+
+    expect(result.trades).toHaveLength(1);
+    const [trade] = result.trades;
+    expect(trade.entryPrice).toBe(100);
+    expect(trade.exitPrice).toBe(110);
+    expect(trade.exitReason).toBe('signal');
+    expect(trade.grossPnl).toBeCloseTo(20, 10);
+    expect(trade.commission).toBeCloseTo(2 + 2.2, 10);
+    expect(trade.pnl).toBeCloseTo(15.8, 10);
+    expect(result.metrics.finalEquity).toBeCloseTo(1015.8, 10);
+    expect(result.equityCurve).toHaveLength(4);
+  });
+
+  it('should fill at the next open with the next_open model and apply slippage against the trader', () => {
+    const engine = new BacktestEngine({
+      fillModel: 'next_open',
+      slippage: { type: 'percent', rate: 0.01 }
+    });
+    const bars = [bar(0, 100, 100, 100, 100), bar(1, 105, 106, 104, 105), bar(2, 108, 108, 108, 108)];
+    const result = engine.run(bars, scripted({ 0: { side: 'long', quantity: 1 } }));
+
+    const [trade] = result.trades;
+    expect(trade.entryIndex).toBe(1);
+    expect(trade.entryPrice).toBeCloseTo(105 * 1.01, 10);
+    expect(trade.exitReason).toBe('end_of_data');
+    expect(trade.exitPrice).toBeCloseTo(108 * 0.99, 10);
+    expect(trade.slippage).toBeCloseTo(1.05 + 1.08, 10);
+  });
+
+  it('should take the stop first when one bar touches both stop and target', () => {
+    const engine = new BacktestEngine({ fillModel: 'intrabar' });
+    const bars = [bar(0, 100, 100, 100, 100), bar(1, 100, 110, 90, 100)];
+    const result = engine.run(bars, scripted({ 0: { side: 'long', quantity: 1, stopLoss: 95, takeProfit: 105 } }));
+
+    expect(result.trades[0].exitReason).toBe('stop_loss');
+    expect(result.trades[0].exitPrice).toBe(95);
+  });
+
+  it('should fill stops at the open when the bar gaps through them', () => {
+    const engine = new BacktestEngine({ fillModel: 'intrabar' });
+    const bars = [bar(0, 100, 100, 100, 100), bar(1, 90, 92, 88, 91)];
+    const result = engine.run(bars, scripted({ 0: { side: 'long', quantity: 1, stopLoss: 95 } }));
+
+    expect(result.trades[0].exitReason).toBe('stop_loss');
+    expect(result.trades[0].exitPrice).toBe(90);
+  });
+
+  it('should size positions from the risk to the stop', () => {
+    const sizing = { type: 'risk_percent' as const, fraction: 0.01, fallbackFraction: 0.1 };
+    expect(positionQuantity(sizing, { equity: 10000, price: 100, stopLoss: 98 })).toBeCloseTo(50, 10);
+    expect(positionQuantity(sizing, { equity: 10000, price: 100 })).toBeCloseTo(10, 10);
+
+    const engine = new BacktestEngine({ sizing, leverage: 10 });
+    const result = engine.run(flatBars([100, 100]), scripted({ 0: { side: 'short', stopLoss: 102 } }));
+    expect(result.trades[0].quantity).toBeCloseTo(50, 10);
+  });
+
+  it('should reject entries beyond the position limit and leverage', () => {
+    const engine = new BacktestEngine({ initialCapital: 1000, maxOpenPositions: 2, leverage: 1 });
+    const orders: Record<number, EntryOrder> = {
+      0: { side: 'long', notional: 600 },
+      1: { side: 'long', notional: 600 },
+      2: { side: 'long', notional: 300 },
+      3: { side: 'long', notional: 100 }
+    };
+    const result = engine.run(flatBars([100, 100, 100, 100, 100]), scripted(orders));
+
+    expect(result.trades.map(t => t.entryIndex)).toEqual([0, 2]);
+  });
+
+  it('should halt trading and close positions once drawdown exceeds the limit', () => {
+    const engine = new BacktestEngine({ initialCapital: 1000, maxDrawdownHalt: 0.1 });
+    const events: string[] = [];
+    const result = engine.run(
+      flatBars([100, 95, 80, 70, 120]),
+      scripted({ 0: { side: 'long', quantity: 10 }, 3: { side: 'long', quantity: 1 } }),
+      event => events.push(event.type)
+    );
+
+    expect(result.haltedAt).toBe(2);
+    expect(events).toContain('halt');
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('max_drawdown');
+    expect(result.metrics.finalEquity).toBeCloseTo(800, 10);
+  });
+
+  it('should compute trade and equity metrics', () => {
+    const engine = new BacktestEngine({ initialCapital: 1000 });
+    const result = engine.run(
+      flatBars([100, 110, 100, 90, 100, 120]),
+      scripted({ 0: { side: 'long', quantity: 1 }, 2: { side: 'long', quantity: 1 }, 4: { side: 'long', quantity: 1 } }, [1, 3, 5])
+    );
+
+    const { metrics } = result;
+    expect(result.trades.map(t => t.pnl)).toEqual([10, -10, 20]);
+    expect(metrics.winRate).toBeCloseTo(2 / 3, 10);
+    expect(metrics.profitFactor).toBeCloseTo(3, 10);
+    expect(metrics.expectancy).toBeCloseTo(20 / 3, 10);
+    expect(metrics.averageLoss).toBe(10);
+    expect(metrics.maxConsecutiveWins).toBe(1);
+    expect(metrics.maxDrawdownAmount).toBeCloseTo(10, 10);
+    expect(metrics.totalReturn).toBeCloseTo(0.02, 10);
+    expect(result.returns).toHaveLength(5);
+    expect(result.monthlyReturns.map(({ year, month }) => ({ year, month }))).toEqual([{ year: 2024, month: 1 }]);
+    expect(result.monthlyReturns[0].return).toBeCloseTo(0.02, 10);
+  });
+
+  describe('adapters', () => {
+    const candles: CandleData[] = [100, 101, 103, 102, 106, 104, 108, 107, 111, 110].map((close, i) => ({
+      session_id: 'test',
+      candle_index: i,
+      open: close,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 100,
+      candle_datetime: new Date(Date.UTC(2024, 0, 1) + i * DAY).toISOString()
+    }));
+
+    it('should report BacktestingService results from the shared engine', async () => {
+      const strategy: Strategy = {
+        name: 'buy-every-third',
+        generate: (_data, index) => (index % 3 === 1 ? { type: 'buy', strength: 1, confidence: 1 } : null)
+      };
+      const result = await BacktestingService.getInstance().runBacktest(strategy, candles, {
+        startDate: new Date(0),
+        endDate: new Date(Date.UTC(2030, 0, 1)),
+        initialCapital: 10000,
+        commission: 0.001,
+        slippage: 0,
+        maxPositions: 1,
+        riskPerTrade: 0.01
+      });
+
+      expect(result.report).toBeDefined();
+      expect(result.totalTrades).toBe(result.report!.trades.length);
+      expect(result.totalReturn).toBeCloseTo(result.report!.metrics.totalReturn, 10);
+      expect(result.sharpeRatio).toBe(result.report!.metrics.sharpeRatio);
+    });
+
+    it('should run advanced strategies through the shared engine', async () => {
+      const traded: string[] = [];
+      const strategy: AdvancedStrategy = {
+        name: 'advanced-test',
+        description: '',
+        parameters: {},
+        initialize: () => undefined,
+        generateSignal: (_candles, index, portfolio) =>
+          index === 1 && portfolio.positions.length === 0
+            ? { type: 'buy', strength: 1, confidence: 1, reason: 'entry', indicators: {}, riskLevel: 'low' }
+            : null,
+        onTrade: trade => traded.push(trade.exitReason),
+        onMarketClose: () => undefined,
+        calculatePositionSize: (_signal, portfolio) => portfolio.totalValue * 0.5,
+        shouldExit: (position, price) => price >= position.entryPrice * 1.05
+      };
+      const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(strategy, candles, {
+        startDate: new Date(0),
+        endDate: new Date(Date.UTC(2030, 0, 1)),
+        initialCapital: 10000,
+        commission: 0,
+        slippage: 0,
+        maxPositions: 1,
+        riskPerTrade: 0.02,
+        leverage: 1,
+        marginRequirement: 1,
+        reinvestProfits: true,
+        compoundReturns: true,
+        dynamicPositionSizing: false,
+        stopLossPercent: 0.02,
+        takeProfitPercent: 0.04,
+        trailingStop: false,
+        riskFreeRate: 0
+      });
+
+      expect(traded).toEqual(['Strategy exit']);
+      expect(result.trades[0].entryPrice).toBe(101);
+      // 106 < 101 * 1.05, выход на следующем баре выше цели
+      expect(result.trades[0].exitPrice).toBe(108);
+      expect(result.trades[0].entryReason).toBe('entry');
+      expect(result.totalReturn).toBeCloseTo((0.5 * 7) / 101, 10);
+      expect(result.equityCurve).toHaveLength(candles.length);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { BinaryOptionBacktestService, breakEvenWinRate } from '@/services/backtesting/BinaryOptionBacktestService';
+import { Strategy } from '@/services/backtesting/BacktestingService';
+import { CandleData } from '@/types/session';
+
+describe('BinaryOptionBacktestService', () => {
+  const service = new BinaryOptionBacktestService({ stakeMode: 'fixed', stake: 100, initialCapital: 1000 });
+
+  // Пятиминутные свечи с заданными ценами закрытия
+  function candles(closes: number[]): CandleData[] {
+    return closes.map((close, i) => ({
+      session_id: 'test',
+      candle_index: i,
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 100,
+      candle_datetime: new Date(1700000000000 + i * 5 * 60000).toISOString()
+    }));
+  }
+
+  it('should settle options at expiry with payout and refund on tie', () => {
+    const data = candles([100, 101, 101, 99, 99, 98]);
+    const result = service.runBacktest(data, [
+      { index: 0, direction: 'UP', interval: 5 },
+      { index: 1, direction: 'UP', interval: 5 },
+      { index: 2, direction: 'UP', interval: 5 },
+      { index: 3, direction: 'DOWN', interval: 10 }
+    ]);
+
+    expect(result.trades.map(t => t.outcome)).toEqual(['won', 'expired', 'lost', 'won']);
+    expect(result.trades.map(t => t.expiryIndex)).toEqual([1, 2, 3, 5]);
+    expect(result.trades.map(t => t.pnl)).toEqual([80, 0, -100, 80]);
+
+    expect(result.metrics.ties).toBe(1);
+    expect(result.metrics.winRate).toBeCloseTo(2 / 3, 10);
+    expect(result.metrics.expectancy).toBeCloseTo(15, 10);
+    expect(result.metrics.callAccuracy).toBeCloseTo(0.5, 10);
+    expect(result.metrics.putAccuracy).toBe(1);
+    expect(result.metrics.finalEquity).toBe(1060);
+    expect(result.equityCurve.map(p => p.equity)).toEqual([1000, 1080, 1080, 980, 1060]);
+    expect(result.metrics.maxDrawdown).toBeCloseTo(100 / 1080, 10);
+  });
+
+  it('should count ties as losses when refunds are disabled', () => {
+    const result = service.runBacktest(candles([100, 100]), [{ index: 0, direction: 'UP', interval: 5 }], { tieRule: 'loss' });
+
+    expect(result.trades[0].outcome).toBe('lost');
+    expect(result.metrics.totalPnl).toBe(-100);
+  });
+
+  it('should report the break-even win rate for the payout', () => {
+    expect(breakEvenWinRate(0.8)).toBeCloseTo(0.5556, 4);
+    expect(breakEvenWinRate(1)).toBe(0.5);
+
+    const result = service.runBacktest(candles([100, 101]), [{ index: 0, direction: 'UP', interval: 5 }], { payoutRatio: 0.9 });
+    expect(result.metrics.breakEvenWinRate).toBeCloseTo(1 / 1.9, 10);
+    expect(result.metrics.expectancyPerStake).toBeCloseTo(0.9, 10);
+  });
+
+  it('should skip signals without expiry candle, low confidence or free slots', () => {
+    const data = candles([100, 101, 102, 103]);
+    const result = service.runBacktest(data, [
+      { index: 0, direction: 'UP', interval: 10 },
+      { index: 1, direction: 'UP', interval: 5 },
+      { index: 2, direction: 'UP', interval: 5, confidence: 40 },
+      { index: 3, direction: 'UP', interval: 5 }
+    ], { minConfidence: 50 });
+
+    expect(result.trades.map(t => t.signalIndex)).toEqual([0]);
+    expect(result.metrics.skippedSignals).toBe(3);
+  });
+
+  it('should size percent stakes from equity after earlier settlements', () => {
+    const percent = new BinaryOptionBacktestService({ initialCapital: 1000, stakeMode: 'percent', stake: 0.1 });
+    const result = percent.runBacktest(candles([100, 101, 102]), [
+      { index: 0, direction: 'UP', interval: 5 },
+      { index: 1, direction: 'UP', interval: 5 }
+    ]);
+
+    expect(result.trades.map(t => t.stake)).toEqual([100, 108]);
+  });
+
+  it('should run spot strategies as CALL/PUT options', () => {
+    const alternate: Strategy = {
+      name: 'alternate',
+      generate: (_, index) => (index === 1 ? { type: 'buy', strength: 1, confidence: 0.7 } : index === 3 ? { type: 'sell', strength: 1, confidence: 0.7 } : null)
+    };
+
+    const result = service.runStrategy(alternate, candles([100, 101, 102, 103, 102]), 5);
+    expect(result.trades.map(t => [t.direction, t.outcome])).toEqual([['UP', 'won'], ['DOWN', 'won']]);
+    expect(result.trades[0].confidence).toBeCloseTo(70, 10);
+  });
+});
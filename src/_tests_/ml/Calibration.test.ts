@@ -0,0 +1,136 @@
+import {
+  ALL_PAIRS,
+  CalibrationError,
+  CalibrationService,
+  HEURISTIC_MODEL,
+  ModelPrediction,
+  REAL_ML_MODEL,
+  ResolvedPrediction
+} from '@/services/ml/CalibrationService';
+import { applyCalibrator, fitIsotonic, fitPlatt } from '@/services/ml/calibration/calibrators';
+import { createSeededRandom } from '@/services/backtesting/core/random';
+import { PredictionResult } from '@/types/trading';
+
+describe('CalibrationService', () => {
+  // Самоуверенная модель: заявленные 55-95% сбываются в 50% + четверть превышения
+  function overconfident(count: number, seed = 1): ResolvedPrediction[] {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: count }, () => {
+      const probability = 55 + random() * 40;
+      const trueRate = 0.5 + (probability / 100 - 0.5) / 4;
+      return { probability, correct: random() < trueRate };
+    });
+  }
+
+  it('should score a reliability diagram', () => {
+    const service = new CalibrationService({ bins: 2 });
+    const report = service.evaluate([
+      { probability: 20, correct: false },
+      { probability: 40, correct: true },
+      { probability: 80, correct: true },
+      { probability: 80, correct: true }
+    ]);
+
+    expect(report.bins.map(b => b.count)).toEqual([2, 2]);
+    expect(report.bins[0].meanPredicted).toBeCloseTo(0.3, 10);
+    expect(report.bins[0].observedRate).toBe(0.5);
+    expect(report.brierScore).toBeCloseTo((0.04 + 0.36 + 0.04 + 0.04) / 4, 10);
+    expect(report.expectedCalibrationError).toBeCloseTo(0.5 * 0.2 + 0.5 * 0.2, 10);
+    expect(report.maxCalibrationError).toBeCloseTo(0.2, 10);
+  });
+
+  it('should fit a monotonic isotonic map by pooling violators', () => {
+    const calibrator = fitIsotonic([
+      { probability: 0.6, outcome: true },
+      { probability: 0.7, outcome: false },
+      { probability: 0.8, outcome: true },
+      { probability: 0.9, outcome: true }
+    ]);
+
+    if (calibrator.method !== 'isotonic') throw new Error('expected isotonic');
+    expect(calibrator.values).toEqual([0.5, 1, 1]);
+    [0.65, 0.8, 0.9].forEach((threshold, i) => expect(calibrator.thresholds[i]).toBeCloseTo(threshold, 10));
+    expect(applyCalibrator(calibrator, 0.5)).toBe(0.5);
+    expect(applyCalibrator(calibrator, 0.725)).toBeCloseTo(0.75, 10);
+  });
+
+  it('should shrink overconfident probabilities with both methods', () => {
+    const service = new CalibrationService();
+    const train = overconfident(2000);
+
+    for (const method of ['platt', 'isotonic'] as const) {
+      const fitted = service.fit('model', 'EUR/USD', train, method);
+      expect(fitted.after.expectedCalibrationError).toBeLessThan(fitted.before.expectedCalibrationError);
+      expect(fitted.after.brierScore).toBeLessThan(fitted.before.brierScore);
+
+      // 90% заявлено, около 60% на деле
+      expect(service.calibrate('model', 'EUR/USD', 90)).toBeGreaterThan(52);
+      expect(service.calibrate('model', 'EUR/USD', 90)).toBeLessThan(70);
+    }
+  });
+
+  it('should keep a perfectly calibrated model close to identity with Platt scaling', () => {
+    const random = createSeededRandom(3);
+    const samples = Array.from({ length: 5000 }, () => {
+      const probability = 0.05 + random() * 0.9;
+      return { probability, outcome: random() < probability };
+    });
+    const calibrator = fitPlatt(samples);
+
+    expect(applyCalibrator(calibrator, 0.7)).toBeCloseTo(0.7, 1);
+    expect(applyCalibrator(calibrator, 0.3)).toBeCloseTo(0.3, 1);
+  });
+
+  it('should recalibrate predictions per pair and fall back to all pairs', () => {
+    const service = new CalibrationService();
+    const prediction = { direction: 'UP', probability: 90, confidence: 80, interval: 5 } as PredictionResult;
+
+    expect(service.calibratePrediction('model', 'EUR/USD', prediction)).toBe(prediction);
+
+    service.fit('model', ALL_PAIRS, overconfident(500));
+    const calibrated = service.calibratePrediction('model', 'GBP/USD', prediction);
+    expect(calibrated.probability).toBeLessThan(90);
+    expect(calibrated.calibration).toEqual({ method: 'isotonic', rawProbability: 90 });
+    expect(service.getCalibration('other', 'GBP/USD')).toBeUndefined();
+  });
+
+  it('should flip the direction when the calibrated probability falls below 50', () => {
+    const service = new CalibrationService();
+    // Заявленные 60% сбываются в 40% случаев: калибратор переводит 60 в 40
+    service.fit('model', 'EUR/USD', Array.from({ length: 100 }, (_, i) => ({ probability: 60, correct: i % 5 < 2 })));
+    const prediction = { direction: 'UP', probability: 60, confidence: 70, interval: 5 } as PredictionResult;
+
+    expect(service.calibrate('model', 'EUR/USD', 60)).toBeCloseTo(40);
+    const calibrated = service.calibratePrediction('model', 'EUR/USD', prediction);
+    expect(calibrated.direction).toBe('DOWN');
+    expect(calibrated.probability).toBeCloseTo(60);
+    expect(calibrated.calibration).toEqual({ method: 'isotonic', rawProbability: 40 });
+  });
+
+  it('should fit resolved predictions per model and pair', async () => {
+    const service = new CalibrationService({ minSamples: 3 });
+    const resolved = (model: string, pair: string, count: number): ModelPrediction[] =>
+      Array.from({ length: count }, (_, i) => ({ model, pair, probability: 70, correct: i % 2 === 0 }));
+
+    const fitted = await service.ensureFitted({
+      loadResolvedPredictions: async () => [
+        ...resolved(REAL_ML_MODEL, 'EUR/USD', 4),
+        ...resolved(REAL_ML_MODEL, 'GBP/USD', 1),
+        ...resolved(HEURISTIC_MODEL, 'GBP/USD', 3)
+      ]
+    });
+    await service.whenFitted();
+
+    // real_ml на GBP/USD: один прогноз, ниже minSamples
+    expect(fitted).toBe(4);
+    expect(service.getCalibration(REAL_ML_MODEL, 'EUR/USD')?.pair).toBe('EUR/USD');
+    expect(service.getCalibration(REAL_ML_MODEL, 'GBP/USD')?.pair).toBe(ALL_PAIRS);
+    expect(service.getCalibration(REAL_ML_MODEL, ALL_PAIRS)?.before.sampleSize).toBe(5);
+    expect(service.getCalibration(HEURISTIC_MODEL, 'GBP/USD')?.pair).toBe('GBP/USD');
+    expect(service.getCalibration(HEURISTIC_MODEL, 'EUR/USD')?.before.sampleSize).toBe(3);
+  });
+
+  it('should refuse to fit too few predictions', () => {
+    expect(() => new CalibrationService().fit('model', 'EUR/USD', overconfident(10))).toThrow(CalibrationError);
+  });
+});
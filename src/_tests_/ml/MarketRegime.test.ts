@@ -0,0 +1,148 @@
+import { MarketRegimeService, MarketRegime, RegimeError, summarizeByRegime } from '@/services/ml/MarketRegimeService';
+import { BacktestingService, Strategy } from '@/services/backtesting/BacktestingService';
+import { SessionCandleSource } from '@/services/patterns/PatternStatisticsService';
+import { CandleData, TradingSession } from '@/types/session';
+
+describe('MarketRegimeService', () => {
+  // Детерминированный шум в диапазоне [-1, 1]
+  const noise = (i: number) => {
+    const x = Math.sin(i * 12.9898) * 43758.5453;
+    return (x - Math.floor(x)) * 2 - 1;
+  };
+
+  const SEGMENTS: Array<{ regime: MarketRegime; drift: number; volatility: number }> = [
+    { regime: 'trending_up', drift: 0.003, volatility: 0.001 },
+    { regime: 'ranging', drift: 0, volatility: 0.0005 },
+    { regime: 'trending_down', drift: -0.003, volatility: 0.001 },
+    { regime: 'high_volatility', drift: 0, volatility: 0.01 }
+  ];
+  const SEGMENT_LENGTH = 60;
+
+  function session(offset: number, rounds: number): { candles: CandleData[]; truth: MarketRegime[] } {
+    const candles: CandleData[] = [];
+    const truth: MarketRegime[] = [];
+    let price = 100;
+
+    for (let i = 0; i < rounds * SEGMENTS.length * SEGMENT_LENGTH; i++) {
+      const segment = SEGMENTS[Math.floor(i / SEGMENT_LENGTH) % SEGMENTS.length];
+      const open = price;
+      price = open * Math.exp(segment.drift + segment.volatility * noise(i + offset));
+      candles.push({
+        session_id: `s${offset}`,
+        candle_index: i,
+        open,
+        high: Math.max(open, price) * 1.0002,
+        low: Math.min(open, price) * 0.9998,
+        close: price,
+        volume: 1000,
+        candle_datetime: new Date(1700000000000 + i * 60000).toISOString(),
+        created_at: new Date(1700000000000 + i * 60000).toISOString()
+      });
+      truth.push(segment.regime);
+    }
+
+    return { candles, truth };
+  }
+
+  const training = [session(0, 2), session(10000, 2)];
+  const service = new MarketRegimeService();
+  service.fit(training.map(s => s.candles));
+
+  it('should label candles with the regime they were generated in', () => {
+    const { candles, truth } = session(50000, 1);
+    const labels = service.classify(candles);
+
+    expect(labels[0].index).toBe(10);
+    expect(labels).toHaveLength(candles.length - 10);
+
+    // Пропускаем начало каждого сегмента, пока окно захватывает предыдущий режим
+    const settled = labels.filter(label => label.index % SEGMENT_LENGTH >= 20);
+    const correct = settled.filter(label => label.regime === truth[label.index]).length;
+    expect(correct / settled.length).toBeGreaterThan(0.85);
+
+    labels.forEach(label => {
+      const total = Object.values(label.probabilities).reduce((sum, p) => sum + p, 0);
+      const next = Object.values(label.nextProbabilities).reduce((sum, p) => sum + p, 0);
+      expect(total).toBeCloseTo(1, 8);
+      expect(next).toBeCloseTo(1, 8);
+    });
+  });
+
+  it('should not let later candles change earlier labels', () => {
+    const { candles } = session(70000, 1);
+    const full = service.classify(candles);
+    const prefix = service.classify(candles.slice(0, 100));
+
+    expect(prefix).toEqual(full.slice(0, prefix.length));
+    expect(service.currentRegime(candles.slice(0, 100))).toEqual(prefix[prefix.length - 1]);
+    expect(service.currentRegime(candles.slice(0, 5))).toBeNull();
+  });
+
+  it('should learn persistent regimes in the transition matrix', () => {
+    const matrix = service.getTransitionMatrix();
+
+    (Object.keys(matrix) as MarketRegime[]).forEach(from => {
+      const row = matrix[from];
+      expect(Object.values(row).reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 8);
+      expect(row[from]).toBeGreaterThan(0.8);
+    });
+  });
+
+  it('should restore a model and reject use before fitting', () => {
+    const restored = new MarketRegimeService();
+    expect(() => restored.classify(training[0].candles)).toThrow(RegimeError);
+    expect(() => new MarketRegimeService().fit([training[0].candles.slice(0, 15)])).toThrow(RegimeError);
+
+    restored.setModel(service.getModel()!);
+    expect(restored.classify(training[0].candles)).toEqual(service.classify(training[0].candles));
+  });
+
+  it('should fit stored sessions once for concurrent callers', async () => {
+    const stored = (id: string) => ({ id, session_name: id, pair: 'EUR/USD', timeframe: '1m' }) as TradingSession;
+    const loadSessions = jest.fn(async () => [stored('s0'), stored('s10000')]);
+    const source: SessionCandleSource = {
+      loadSessions,
+      loadSessionWithCandles: async (id: string) => ({
+        session: stored(id),
+        candles: training[id === 's0' ? 0 : 1].candles
+      })
+    };
+    const fresh = new MarketRegimeService();
+
+    const [first, second] = await Promise.all([fresh.ensureFitted(source), fresh.ensureFitted(source)]);
+    expect(first).toBe(2);
+    expect(second).toBe(2);
+    expect(loadSessions).toHaveBeenCalledTimes(1);
+    expect(fresh.isFitted()).toBe(true);
+  });
+
+  it('should report backtest performance by regime at entry', async () => {
+    expect(summarizeByRegime([
+      { regime: 'ranging', pnl: 10, pnlPercent: 0.02 },
+      { regime: 'ranging', pnl: -5, pnlPercent: -0.01 },
+      { pnl: 3, pnlPercent: 0.01 }
+    ])).toEqual([{ regime: 'ranging', trades: 2, winRate: 0.5, totalPnl: 5, avgReturn: 0.005 }]);
+
+    const { candles } = session(90000, 1);
+    const regimeLabels = service.classify(candles);
+    const everyTenth: Strategy = {
+      name: 'every tenth',
+      generate: (_, index) => (index % 10 === 0 ? { type: index % 20 === 0 ? 'buy' : 'sell', strength: 1, confidence: 1 } : null)
+    };
+
+    const result = await BacktestingService.getInstance().runBacktest(everyTenth, candles, {
+      startDate: new Date(0),
+      endDate: new Date(1800000000000),
+      initialCapital: 10000,
+      commission: 0,
+      slippage: 0,
+      maxPositions: 1,
+      riskPerTrade: 0.01,
+      regimeLabels
+    });
+
+    const labelled = result.trades.filter(t => t.regime);
+    expect(labelled.length).toBeGreaterThan(0);
+    expect(result.regimePerformance!.reduce((sum, p) => sum + p.trades, 0)).toBe(labelled.length);
+  });
+});
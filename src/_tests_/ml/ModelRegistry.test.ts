@@ -0,0 +1,141 @@
+import { ModelRegistryService } from '@/services/ml/ModelRegistryService';
+import {
+  bumpVersion,
+  compareVersions,
+  createNetworkArtifactInput,
+  fitZScoreScaler,
+  ModelArtifactInput,
+  ModelRegistryError
+} from '@/services/ml/registry/ModelArtifact';
+import { InMemoryModelRegistryStore } from '@/services/ml/registry/ModelRegistryStore';
+import { PREDICTION_ENGINE_INPUT_SIZE, predictionEngineService } from '@/services/ml/PredictionEngineService';
+import { NetworkWeights, TrainingExample, TrainingMetrics } from '@/services/ml/NetworkTrainingService';
+
+describe('ModelRegistryService', () => {
+  const weights = (inputSize: number, hiddenSize = 4): NetworkWeights => ({
+    input_hidden: Array.from({ length: inputSize }, (_, i) => Array.from({ length: hiddenSize }, (_, j) => ((i + j) % 5) / 10 - 0.2)),
+    hidden_output: Array.from({ length: hiddenSize }, (_, j) => (j % 2 === 0 ? 0.3 : -0.3)),
+    hidden_bias: Array(hiddenSize).fill(0),
+    output_bias: 0
+  });
+
+  const metrics: TrainingMetrics = {
+    accuracy: 0.64,
+    loss: 0.61,
+    validationAccuracy: 0.58,
+    validationLoss: 0.66,
+    precision: 0.6,
+    recall: 0.55,
+    f1Score: 0.57,
+    trainTime: 1200,
+    epoch: 40
+  };
+
+  const examples: TrainingExample[] = Array.from({ length: 20 }, (_, i) => ({
+    features: Array.from({ length: PREDICTION_ENGINE_INPUT_SIZE }, (_, k) => Math.sin(i + k)),
+    target: i % 2,
+    timestamp: Date.UTC(2024, 0, 1, 10, i * 5)
+  }));
+
+  const networkInput = (): ModelArtifactInput =>
+    createNetworkArtifactInput('direction-mlp', weights(PREDICTION_ENGINE_INPUT_SIZE), examples, metrics, {
+      scaler: fitZScoreScaler(examples.map(example => example.features)),
+      sessionIds: ['session-1']
+    });
+
+  it('should order, bump and validate semantic versions', () => {
+    expect(['1.10.0', '1.2.3', '2.0.0', '1.2.10'].sort(compareVersions)).toEqual(['1.2.3', '1.2.10', '1.10.0', '2.0.0']);
+    expect([bumpVersion(null, 'patch'), bumpVersion('1.4.2', 'major'), bumpVersion('1.4.2', 'minor'), bumpVersion('1.4.2', 'patch')])
+      .toEqual(['1.0.0', '2.0.0', '1.5.0', '1.4.3']);
+    expect(() => compareVersions('1.0', '1.0.0')).toThrow('Версия должна быть в формате MAJOR.MINOR.PATCH: 1.0');
+
+    const input = networkInput();
+    expect(input.trainingRange).toEqual({
+      from: '2024-01-01T10:00:00.000Z', to: '2024-01-01T11:35:00.000Z', samples: 20, sessionIds: ['session-1']
+    });
+    expect(input.featureSchema).toEqual({ source: 'FeatureExtractionService.flattenFeatures', inputSize: PREDICTION_ENGINE_INPUT_SIZE });
+  });
+
+  it('should version, promote and roll back models and keep them across reloads', async () => {
+    const store = new InMemoryModelRegistryStore();
+    const registry = new ModelRegistryService(store);
+
+    const first = await registry.register(networkInput());
+    const second = await registry.register(networkInput());
+    const hotfix = await registry.register(networkInput(), 'patch');
+    expect([first.version, second.version, hotfix.version]).toEqual(['1.0.0', '1.1.0', '1.1.1']);
+    await expect(registry.register({ ...networkInput(), version: '1.1.0' })).rejects.toThrow('Версия 1.1.0 модели direction-mlp уже зарегистрирована');
+    await expect(registry.register({ ...networkInput(), weights: weights(12) })).rejects.toThrow('Веса сети не соответствуют размеру входа');
+
+    await registry.promote('direction-mlp', '1.0.0');
+    await registry.promote('direction-mlp', '1.1.0');
+    await registry.promote('direction-mlp', '1.1.1');
+    await expect(registry.remove('direction-mlp', '1.1.1')).rejects.toThrow(ModelRegistryError);
+
+    expect((await registry.rollback('direction-mlp')).version).toBe('1.1.0');
+    expect((await registry.rollback('direction-mlp')).version).toBe('1.0.0');
+    await expect(registry.rollback('direction-mlp')).rejects.toThrow('Нет версии модели direction-mlp для отката');
+
+    const reloaded = new ModelRegistryService(store);
+    const statuses = (await reloaded.list('direction-mlp')).map(a => [a.version, a.status]);
+    expect(statuses).toEqual([['1.1.1', 'archived'], ['1.1.0', 'archived'], ['1.0.0', 'production']]);
+    expect((await reloaded.get('direction-mlp'))!.version).toBe('1.0.0');
+    expect((await reloaded.get('direction-mlp', '1.1.1'))!.weights).toEqual(weights(PREDICTION_ENGINE_INPUT_SIZE));
+  });
+
+  it('should mirror to the server copy and merge it on load', async () => {
+    const local = new InMemoryModelRegistryStore();
+    const remote = new InMemoryModelRegistryStore();
+    const registry = new ModelRegistryService(local, remote);
+    await registry.register(networkInput());
+
+    // Другое устройство продвинуло версию на сервере
+    const [serverCopy] = await remote.getAll();
+    await remote.put({ ...serverCopy, status: 'production', promotedAt: '2030-01-01T00:00:00.000Z', updatedAt: '2030-01-01T00:00:00.000Z' });
+    await remote.put({ ...serverCopy, id: 'direction-mlp@2.0.0', version: '2.0.0' });
+
+    const otherSession = new ModelRegistryService(local, remote);
+    expect((await otherSession.getProduction('direction-mlp'))!.version).toBe('1.0.0');
+    expect((await local.getAll()).map(a => a.id).sort()).toEqual(['direction-mlp@1.0.0', 'direction-mlp@2.0.0']);
+
+    // Недоступный сервер не мешает локальной работе
+    const offline = new ModelRegistryService(local, {
+      getAll: async () => { throw new Error('Failed to fetch'); },
+      put: async () => { throw new Error('Failed to fetch'); },
+      delete: async () => { throw new Error('Failed to fetch'); }
+    });
+    expect((await offline.register(networkInput(), 'major')).version).toBe('3.0.0');
+    expect(await local.getAll()).toHaveLength(3);
+  });
+
+  it('should load a version into the prediction engine and ONNX runtime', async () => {
+    const registry = new ModelRegistryService(new InMemoryModelRegistryStore());
+    const artifact = await registry.register(networkInput());
+
+    await registry.loadIntoPredictionEngine('direction-mlp', '1.0.0');
+    const loaded = predictionEngineService.getEnsembleInfo().models.find(m => m.id === artifact.id);
+    expect(loaded).toMatchObject({ version: '1.0.0', accuracy: 0.58 });
+    expect(predictionEngineService.removeModel(artifact.id)).toBe(true);
+
+    await registry.register({ ...networkInput(), name: 'wide-mlp', weights: weights(40), featureSchema: { source: 'custom', inputSize: 40 }, scaler: undefined });
+    await expect(registry.loadIntoPredictionEngine('wide-mlp')).rejects.toThrow(`Модель ожидает 40 признаков, ансамбль подает ${PREDICTION_ENGINE_INPUT_SIZE}`);
+
+    const onnxInput: ModelArtifactInput = {
+      name: 'python-gbm',
+      format: 'onnx',
+      onnx: { modelBase64: btoa('ONNX'), inputShape: [1, 30], outputShape: [1, 2] },
+      scaler: { method: 'minmax', min: Array(30).fill(0), max: Array(30).fill(1) },
+      featureSchema: { source: 'FeatureExtractionService.flattenFeatures', inputSize: 30 },
+      trainingRange: { from: '2024-01-01T00:00:00.000Z', to: '2024-06-01T00:00:00.000Z', samples: 50000 },
+      metrics: { accuracy: 0.61 }
+    };
+    await registry.register(onnxInput);
+    const target = { loadModel: jest.fn(async () => undefined) };
+    await registry.loadIntoOnnx('python-gbm', undefined, target);
+
+    const [config] = target.loadModel.mock.calls[0] as unknown as [Record<string, unknown>];
+    expect(config).toMatchObject({ name: 'python-gbm@1.0.0', version: '1.0.0', inputShape: [1, 30], scalerParams: { min: Array(30).fill(0) } });
+    expect(Array.from(config.modelData as Uint8Array)).toEqual([79, 78, 78, 88]);
+    await expect(registry.loadIntoPredictionEngine('python-gbm')).rejects.toThrow('В ансамбль загружаются только веса сетей NetworkTrainingService');
+  });
+});
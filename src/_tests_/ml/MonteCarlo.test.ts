@@ -0,0 +1,61 @@
+import { MonteCarloError, MonteCarloService, MonteCarloTrade } from '@/services/backtesting/MonteCarloService';
+
+describe('MonteCarloService', () => {
+  const service = new MonteCarloService({ simulations: 300, initialCapital: 1000 });
+
+  // 60% выигрышей по +100, 40% проигрышей по -80
+  const trades: MonteCarloTrade[] = Array.from({ length: 20 }, (_, i) =>
+    i % 5 < 3 ? { pnl: 100, pnlPercent: 0.8 } : { pnl: -80, pnlPercent: -1 }
+  );
+
+  it('should reproduce results with the same seed', () => {
+    const first = service.analyze(trades, { seed: 7 });
+    const second = service.analyze(trades, { seed: 7 });
+    const other = service.analyze(trades, { seed: 8 });
+
+    expect(first.methods).toEqual(second.methods);
+    expect(first.methods[1].finalEquity).not.toEqual(other.methods[1].finalEquity);
+  });
+
+  it('should keep final equity fixed when reshuffling fixed-size trades', () => {
+    const result = service.analyze(trades, { methods: ['reshuffle'] });
+    const [reshuffle] = result.methods;
+
+    expect(result.original.finalEquity).toBe(1000 + 12 * 100 - 8 * 80);
+    expect(reshuffle.finalEquity.lower).toBeCloseTo(result.original.finalEquity, 10);
+    expect(reshuffle.finalEquity.upper).toBeCloseTo(result.original.finalEquity, 10);
+    // Порядок меняет просадку и серии убытков
+    expect(reshuffle.maxLosingStreak.upper).toBeGreaterThan(reshuffle.maxLosingStreak.lower);
+    expect(reshuffle.maxDrawdown.upper).toBeGreaterThan(reshuffle.maxDrawdown.lower);
+  });
+
+  it('should spread final equity with bootstrap and skip methods', () => {
+    const result = service.analyze(trades, { methods: ['bootstrap', 'skip'], skipProbability: 0.3 });
+
+    for (const method of result.methods) {
+      expect(method.finalEquity.upper).toBeGreaterThan(method.finalEquity.lower);
+      expect(method.equityBands).toHaveLength(trades.length + 1);
+      expect(method.equityBands[0].median).toBe(1000);
+      method.equityBands.forEach(point => {
+        expect(point.lower).toBeLessThanOrEqual(point.lowerQuartile);
+        expect(point.lowerQuartile).toBeLessThanOrEqual(point.median);
+        expect(point.median).toBeLessThanOrEqual(point.upperQuartile);
+        expect(point.upperQuartile).toBeLessThanOrEqual(point.upper);
+      });
+    }
+  });
+
+  it('should raise risk of ruin with the stake size', () => {
+    const allWins = trades.map(() => ({ pnl: 10, pnlPercent: 0.8 }));
+    expect(service.riskOfRuin(allWins, [1])[0].riskOfRuin).toBe(0);
+
+    const [small, large] = service.riskOfRuin(trades, [0.01, 0.5]);
+    expect(small.riskOfRuin).toBe(0);
+    expect(large.riskOfRuin).toBeGreaterThan(0.5);
+  });
+
+  it('should reject empty trade lists and stakes without returns', () => {
+    expect(() => service.analyze([])).toThrow(MonteCarloError);
+    expect(() => service.analyze([{ pnl: 5 }], { stake: 0.1 })).toThrow('pnlPercent');
+  });
+});
@@ -0,0 +1,143 @@
+import { featureExtractionService, FeatureSet } from '@/services/ml/FeatureExtractionService';
+import { ModelRegistryService } from '@/services/ml/ModelRegistryService';
+import { NetworkWeights } from '@/services/ml/NetworkTrainingService';
+import {
+  checkFeatureSchema,
+  checkManifestAgainstModel,
+  FeatureSchemaManifest,
+  readFeatureManifest
+} from '@/services/ml/onnx/feature-manifest';
+import { exportNetworkToOnnx } from '@/services/ml/onnx/onnx-export';
+import { OnnxModelError, readOnnxModelInfo } from '@/services/ml/onnx/onnx-model';
+import { ProtoWriter } from '@/services/ml/onnx/protobuf';
+import { createNetworkArtifactInput } from '@/services/ml/registry/ModelArtifact';
+import { InMemoryModelRegistryStore } from '@/services/ml/registry/ModelRegistryStore';
+
+describe('ONNX export and feature-schema manifest', () => {
+  const featureSet = (overrides: Partial<FeatureSet> = {}): FeatureSet => ({
+    technical: Array(9).fill(0.1),
+    pattern: Array(6).fill(0.2),
+    volume: Array(4).fill(0.3),
+    price: Array(6).fill(0.4),
+    momentum: Array(6).fill(0.5),
+    crossTimeframe: [],
+    volumeProfile: [],
+    timestamp: 0,
+    candleIndex: 0,
+    ...overrides
+  });
+
+  const weights = (inputSize: number, hiddenSize = 3): NetworkWeights => ({
+    input_hidden: Array.from({ length: inputSize }, (_, i) => Array.from({ length: hiddenSize }, (_, j) => Math.sin(i * 3 + j))),
+    hidden_output: Array.from({ length: hiddenSize }, (_, j) => (j % 2 === 0 ? 0.5 : -0.7)),
+    hidden_bias: Array.from({ length: hiddenSize }, (_, j) => j / 10),
+    output_bias: -0.1
+  });
+
+  const manifestFor = (features: string[]): FeatureSchemaManifest => ({
+    version: 1,
+    source: 'FeatureExtractionService.flattenFeatures',
+    features
+  });
+
+  it('should name every slot of flattenFeatures in the same order', () => {
+    const names = featureExtractionService.flattenFeatureNames(featureSet(), 30);
+    expect(names).toHaveLength(30);
+    expect(names.slice(0, 3)).toEqual(['rsi', 'macd_line', 'macd_signal']);
+    expect(names.slice(8, 10)).toEqual(['bb_position', 'pattern_strength']);
+    // 31 признак обрезается до 30 — mean_reversion не попадает во вход
+    expect(names.slice(28)).toEqual(['momentum_10', 'acceleration']);
+
+    const noPatterns = featureSet({ pattern: [], crossTimeframe: Array(8).fill(0), volumeProfile: Array(4).fill(0) });
+    const wide = featureExtractionService.flattenFeatureNames(noPatterns, 40);
+    expect(wide.slice(9, 10)).toEqual(['volume_ratio']);
+    expect(wide.slice(25, 33)).toEqual([
+      'htf1_rsi', 'htf1_adx', 'htf1_di_spread', 'htf1_bar_position', 'htf2_rsi', 'htf2_adx', 'htf2_di_spread', 'htf2_bar_position'
+    ]);
+    expect(wide.slice(33)).toEqual([
+      'vp_value_area_position', 'vp_poc_distance', 'vp_value_area_width', 'vp_in_value_area', 'padding_0', 'padding_1', 'padding_2'
+    ]);
+    expect(featureExtractionService.flattenFeatures(noPatterns, 40)).toHaveLength(wide.length);
+  });
+
+  it('should export an MLP as an ONNX graph with the weights and manifest embedded', () => {
+    const names = featureExtractionService.flattenFeatureNames(featureSet(), 30);
+    const network = weights(30);
+    const bytes = exportNetworkToOnnx(network, {
+      ...manifestFor(names),
+      scaler: { method: 'zscore', mean: Array(30).fill(0), std: Array(30).fill(2) }
+    });
+
+    const info = readOnnxModelInfo(bytes);
+    expect([info.irVersion, info.opsetVersion, info.producerName]).toEqual([7, 13, 'NetworkTrainingService']);
+    expect(info.inputs).toEqual([{ name: 'input', shape: ['batch', 30] }]);
+    expect(info.outputs).toEqual([{ name: 'output', shape: ['batch', 2] }]);
+    expect(info.nodes.map(node => node.opType)).toEqual(['Gemm', 'Relu', 'Gemm', 'Sigmoid', 'Sub', 'Concat']);
+    expect(info.nodes[5]).toMatchObject({ inputs: ['probability_up', 'probability_down'], attributes: { axis: 1 } });
+
+    const inputHidden = info.initializers.find(initializer => initializer.name === 'input_hidden')!;
+    expect(inputHidden.dims).toEqual([30, 3]);
+    expect(inputHidden.values![3 * 7 + 2]).toBeCloseTo(network.input_hidden[7][2], 6);
+    const hiddenOutput = info.initializers.find(initializer => initializer.name === 'hidden_output')!;
+    expect(hiddenOutput.dims).toEqual([3, 1]);
+    expect(hiddenOutput.values![1]).toBeCloseTo(-0.7, 6);
+
+    const manifest = readFeatureManifest(info)!;
+    expect(manifest.features).toEqual(names);
+    expect(manifest.scaler).toMatchObject({ method: 'zscore', std: Array(30).fill(2) });
+    expect(checkManifestAgainstModel(manifest, info).name).toBe('input');
+
+    expect(() => exportNetworkToOnnx(weights(12), manifestFor(names))).toThrow('Манифест описывает 30 признаков, сеть принимает 12');
+  });
+
+  it('should reject models whose manifest does not match the extractor or the graph', () => {
+    const names = featureExtractionService.flattenFeatureNames(featureSet(), 30);
+    const swapped = [...names];
+    [swapped[1], swapped[2]] = [swapped[2], swapped[1]];
+
+    expect(() => checkFeatureSchema(manifestFor(names), names)).not.toThrow();
+    expect(() => checkFeatureSchema(manifestFor(swapped), names)).toThrow('Признак в позиции 1: модель ожидает macd_signal, получен macd_line');
+    expect(() => checkFeatureSchema(manifestFor(names.slice(0, 20)), names)).toThrow(OnnxModelError);
+
+    // Граф со входом на 20 признаков и манифест на 30
+    const mismatched = readOnnxModelInfo(exportNetworkToOnnx(weights(20), manifestFor(names.slice(0, 20))));
+    expect(() => checkManifestAgainstModel(manifestFor(names), mismatched))
+      .toThrow('Вход input формы [batch, 20] не соответствует 30 признакам манифеста');
+
+    const withoutManifest = new ProtoWriter()
+      .varint(1, 7)
+      .message(7, graph => graph.string(2, 'python_model'))
+      .finish();
+    expect(readFeatureManifest(readOnnxModelInfo(withoutManifest))).toBeNull();
+    expect(() => readOnnxModelInfo(new TextEncoder().encode('not a model'))).toThrow(OnnxModelError);
+  });
+
+  it('should export registry versions and pass their manifest to the ONNX runtime', async () => {
+    const names = featureExtractionService.flattenFeatureNames(featureSet(), 30);
+    const registry = new ModelRegistryService(new InMemoryModelRegistryStore());
+    const examples = [0, 1].map(i => ({ features: Array(30).fill(i), target: i, timestamp: Date.UTC(2024, 0, 1, i) }));
+    const metrics = { accuracy: 0.6, loss: 0.6, validationAccuracy: 0.55, validationLoss: 0.7, precision: 0.6, recall: 0.5, f1Score: 0.55, trainTime: 10, epoch: 5 };
+
+    await registry.register(createNetworkArtifactInput('direction-mlp', weights(30), examples, metrics));
+    await expect(registry.exportToOnnx('direction-mlp')).rejects.toThrow('У модели direction-mlp@1.0.0 нет имен признаков для манифеста');
+
+    await registry.register(createNetworkArtifactInput('direction-mlp', weights(30), examples, metrics, { featureSchema: { names } }));
+    const info = readOnnxModelInfo(await registry.exportToOnnx('direction-mlp', '1.1.0'));
+    expect(info.metadata).toMatchObject({ model_name: 'direction-mlp', model_version: '1.1.0' });
+    expect(readFeatureManifest(info)!.features).toEqual(names);
+
+    const target = { loadModel: jest.fn(async () => undefined) };
+    await registry.register({
+      name: 'python-gbm',
+      format: 'onnx',
+      onnx: { modelPath: '/models/gbm.onnx', inputShape: [1, 30], outputShape: [1, 2] },
+      featureSchema: { source: 'FeatureExtractionService.flattenFeatures', inputSize: 30, names },
+      trainingRange: { from: '2024-01-01T00:00:00.000Z', to: '2024-06-01T00:00:00.000Z', samples: 50000 },
+      metrics: { accuracy: 0.61 }
+    });
+    await registry.loadIntoOnnx('python-gbm', undefined, target);
+
+    const [config] = target.loadModel.mock.calls[0] as unknown as [Record<string, unknown>];
+    expect(config.featureManifest).toEqual(manifestFor(names));
+  });
+});
@@ -0,0 +1,150 @@
+import { hashFeatures, PredictionLedger } from '@/domains/prediction/infrastructure/PredictionLedger';
+import { PredictionLedgerRepository } from '@/domains/prediction/infrastructure/PredictionLedgerRepository';
+import { predictionLedgerMapper } from '@/domains/prediction/infrastructure/predictionLedgerMapper';
+import { InMemoryStorageAdapter } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { SupabaseStorageAdapter } from '@/shared/infrastructure/persistence/SupabaseStorageAdapter';
+import { durablePersistenceConfig } from '@/shared/infrastructure/persistence/StorageFactory';
+import { DomainEvent, EventPublisher } from '@/shared/types/common';
+import { CandleData } from '@/types/session';
+import { PredictionResult } from '@/types/trading';
+
+describe('PredictionLedger', () => {
+  const weights = { technical: 0.3, volume: 0.15, momentum: 0.25, volatility: 0.15, pattern: 0.1, trend: 0.05 };
+
+  function candle(index: number, close: number): CandleData {
+    return {
+      session_id: 'session-1',
+      candle_index: index,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 100,
+      candle_datetime: new Date(Date.UTC(2024, 0, 1) + index * 5 * 60000).toISOString()
+    };
+  }
+
+  function prediction(direction: 'UP' | 'DOWN', interval = 5): PredictionResult {
+    return {
+      direction,
+      probability: 70,
+      confidence: 65,
+      interval,
+      factors: { technical: 60, volume: 50, momentum: 55, volatility: 40, pattern: 50, trend: 60 },
+      recommendation: ''
+    };
+  }
+
+  function setup() {
+    const events: DomainEvent[] = [];
+    const publisher: EventPublisher = {
+      publish: async event => {
+        events.push(event);
+      },
+      subscribe: () => undefined
+    };
+    const repository = new PredictionLedgerRepository(new InMemoryStorageAdapter(predictionLedgerMapper));
+    return { ledger: new PredictionLedger(repository, publisher), repository, events };
+  }
+
+  const context = (c: CandleData) => ({ sessionId: 'session-1', candle: c, modelId: 'model', modelVersion: '1.0.0' });
+
+  it('should keep the ledger in durable storage when domain repositories default to memory', () => {
+    expect(durablePersistenceConfig({ backend: 'memory' }).backend).toBe('supabase');
+    expect(durablePersistenceConfig({ backend: 'libsql' }).backend).toBe('libsql');
+
+    const store = new PredictionLedgerRepository()['store'];
+    expect(store).not.toBeInstanceOf(InMemoryStorageAdapter);
+    expect(store).toBeInstanceOf(SupabaseStorageAdapter);
+  });
+
+  it('should record every prediction with its expiry and feature hash', async () => {
+    const { ledger, repository } = setup();
+    const first = await ledger.record(prediction('UP'), context(candle(0, 100)));
+    const second = await ledger.record(prediction('DOWN', 15), context(candle(0, 100)));
+
+    expect((await repository.findBySession('session-1')).map(e => e.direction)).toEqual(['UP', 'DOWN']);
+    expect(first.entryPrice).toBe(100);
+    expect(first.expiresAt.getTime()).toBe(Date.UTC(2024, 0, 1) + 5 * 60000);
+    expect(second.expiresAt.getTime()).toBe(Date.UTC(2024, 0, 1) + 15 * 60000);
+    expect(first.featureHash).not.toBe(second.featureHash);
+    expect(hashFeatures({ a: 1, b: [2, 3] })).toBe(hashFeatures({ b: [2, 3], a: 1 }));
+  });
+
+  it('should hash the feature vector the model scored', async () => {
+    const { ledger, repository } = setup();
+    const features = [0.4, -1.2, 0.7];
+    const first = await ledger.record({ ...prediction('UP'), features }, context(candle(0, 100)));
+    const sameInput = await ledger.record({ ...prediction('DOWN', 15), features }, context(candle(1, 101)));
+    const otherInput = await ledger.record({ ...prediction('UP'), features: [0.4, -1.2, 0.8] }, context(candle(2, 100)));
+
+    expect(first.featureHash).toBe(hashFeatures({ features }));
+    expect(sameInput.featureHash).toBe(first.featureHash);
+    expect(otherInput.featureHash).not.toBe(first.featureHash);
+    expect((await repository.findById(first.id))?.inputs).toEqual({ features });
+  });
+
+  it('should keep the probability before recalibration for refitting calibrators', async () => {
+    const { ledger } = setup();
+    const raw = await ledger.record(prediction('UP'), context(candle(0, 100)));
+    const calibrated = await ledger.record(
+      { ...prediction('UP'), probability: 62, calibration: { method: 'isotonic', rawProbability: 70 } },
+      context(candle(1, 100))
+    );
+    await ledger.resolve('session-1', [candle(0, 100), candle(1, 100), candle(2, 101)]);
+
+    expect([raw.rawProbability, calibrated.rawProbability]).toEqual([70, 70]);
+    expect(calibrated.probability).toBe(62);
+    expect((await ledger.loadResolved()).map(e => e.id)).toEqual([raw.id, calibrated.id]);
+  });
+
+  it('should resolve predictions once their expiry candle arrives and publish validation events', async () => {
+    const { ledger, repository, events } = setup();
+    const up = await ledger.record(prediction('UP'), context(candle(0, 100)));
+    const down = await ledger.record(prediction('DOWN', 15), context(candle(0, 100)));
+
+    const early = await ledger.resolve('session-1', [candle(0, 100), candle(1, 102)]);
+    expect(early.map(e => e.id)).toEqual([up.id]);
+    expect(early[0].outcome).toMatchObject({ expiryCandleIndex: 1, actualPrice: 102, actual: 'UP', correct: true });
+
+    const late = await ledger.resolve('session-1', [candle(0, 100), candle(1, 102), candle(2, 101), candle(3, 103)]);
+    expect(late.map(e => e.id)).toEqual([down.id]);
+    expect(late[0].outcome).toMatchObject({ expiryCandleIndex: 3, correct: false });
+    expect(await repository.findPending('session-1')).toEqual([]);
+
+    expect(events.map(e => e.type)).toEqual(['prediction.validated', 'prediction.validated']);
+    expect(events[1].payload).toEqual({ predictionId: down.id, correct: false, actualPrice: 103, targetPrice: 100 });
+  });
+
+  it('should compute model statistics from resolved ledger entries', async () => {
+    const { ledger } = setup();
+    await ledger.record(prediction('UP'), context(candle(0, 100)));
+    await ledger.record(prediction('UP'), context(candle(1, 99)));
+    await ledger.record(prediction('DOWN'), context(candle(2, 101)));
+    await ledger.record(prediction('DOWN'), context(candle(3, 101)));
+    await ledger.resolve('session-1', [100, 99, 101, 101].map((close, i) => candle(i, close)));
+
+    // Последний прогноз ещё не разрешен
+    const stats = ledger.getModelStatistics(weights);
+    expect(stats.totalPredictions).toBe(3);
+    expect(stats.accurateCount).toBe(1);
+    expect(stats.callAccuracy).toBe(50);
+    expect(stats.putAccuracy).toBe(0);
+    expect(stats.currentWeights).toBe(weights);
+    expect(ledger.getModelStatistics(weights, { modelVersion: '2.0.0' }).totalPredictions).toBe(0);
+  });
+
+  it('should load stored entries and notify subscribers', async () => {
+    const { ledger, repository } = setup();
+    await ledger.record(prediction('UP'), context(candle(0, 100)));
+
+    const reloaded = new PredictionLedger(repository, { publish: async () => undefined, subscribe: () => undefined });
+    const notified: number[] = [];
+    const unsubscribe = reloaded.subscribe(entries => notified.push(entries.length));
+    await reloaded.loadSession('session-1');
+    unsubscribe();
+
+    expect(notified).toEqual([1]);
+    expect(reloaded.getEntries({ sessionId: 'session-1' })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  buildSequenceWindows,
+  RecurrentEpochMetrics,
+  RecurrentModelError,
+  RecurrentNetwork,
+  SequenceWindow
+} from '@/services/ml/recurrent/recurrent-network';
+import { professionalMLService } from '@/services/ml/ProfessionalMLService';
+import { createSeededRandom } from '@/services/backtesting/core/random';
+import { CandleData } from '@/types/session';
+import { PredictionConfig } from '@/types/trading';
+
+describe('Recurrent model', () => {
+  // Цель — знак первого признака за три шага до конца окна: без памяти не решается
+  function memoryTask(count: number, seed: number): SequenceWindow[] {
+    const random = createSeededRandom(seed);
+    const rows = Array.from({ length: count + 7 }, () => [random() * 2 - 1, random() * 2 - 1]);
+    const targets = rows.map((_, i) => (i >= 3 ? (rows[i - 3][0] > 0 ? 1 : 0) : null));
+    return buildSequenceWindows(rows, targets, 8);
+  }
+
+  const accuracy = (network: RecurrentNetwork, windows: SequenceWindow[]) =>
+    windows.filter(w => (network.predictProba(w.sequence) > 0.5 ? 1 : 0) === w.target).length / windows.length;
+
+  const train = memoryTask(300, 1);
+  const test = memoryTask(100, 2);
+
+  it('should cut sliding windows ending at labelled rows', () => {
+    const rows = [[1], [2], [3], [4], [5]];
+    expect(buildSequenceWindows(rows, [0, 1, 0, 1, null], 3)).toEqual([
+      { sequence: [[1], [2], [3]], target: 0 },
+      { sequence: [[2], [3], [4]], target: 1 }
+    ]);
+  });
+
+  it('should learn a delayed target with LSTM and GRU cells', () => {
+    (['lstm', 'gru'] as const).forEach(cell => {
+      const epochs: RecurrentEpochMetrics[] = [];
+      const network = RecurrentNetwork.fit(train, {
+        cell,
+        hiddenSize: 8,
+        sequenceLength: 8,
+        bpttSteps: 5,
+        epochs: 25,
+        batchSize: 16,
+        learningRate: 0.03,
+        dropout: 0.1,
+        validation: test,
+        onEpoch: metrics => epochs.push(metrics)
+      });
+
+      expect(epochs).toHaveLength(25);
+      expect(epochs[24].trainLoss < epochs[0].trainLoss / 2).toBe(true);
+      expect(accuracy(network, test) > 0.85).toBe(true);
+      expect(network.isCalibrated).toBe(true);
+    });
+  });
+
+  it('should round-trip through JSON and reject broken models', () => {
+    const options = { hiddenSize: 4, sequenceLength: 8, epochs: 2, validation: test };
+    const network = RecurrentNetwork.fit(train, options);
+    expect(RecurrentNetwork.fit(train, options).toJSON()).toEqual(network.toJSON());
+
+    const reloaded = RecurrentNetwork.fromJSON(JSON.parse(JSON.stringify(network)));
+    test.slice(0, 10).forEach(w => expect(reloaded.predictProba(w.sequence)).toBe(network.predictProba(w.sequence)));
+
+    const broken = JSON.parse(JSON.stringify(network));
+    broken.recurrentWeights.pop();
+    expect(() => RecurrentNetwork.fromJSON(broken)).toThrow('Размеры весов не соответствуют архитектуре сети');
+    expect(() => network.predictProba([[1, 2, 3]])).toThrow('Ожидалось 2 признаков, получено 3');
+    expect(() => RecurrentNetwork.fit(train.slice(0, 5), { sequenceLength: 20 })).toThrow(RecurrentModelError);
+  });
+
+  it('should train the recurrent member of the ensemble', async () => {
+    const random = createSeededRandom(5);
+    let price = 1.1;
+    const candles: CandleData[] = Array.from({ length: 120 }, (_, i) => {
+      const open = price;
+      price = Math.max(0.5, price + (random() - 0.48) * 0.004);
+      return {
+        session_id: 'session-1',
+        candle_index: i,
+        open,
+        high: Math.max(open, price) + random() * 0.001,
+        low: Math.min(open, price) - random() * 0.001,
+        close: price,
+        volume: 1000 + Math.round(random() * 500),
+        candle_datetime: new Date(Date.UTC(2024, 0, 1, 0, i * 5)).toISOString()
+      };
+    });
+    const config: PredictionConfig = { predictionInterval: 5, analysisMode: 'session' };
+    const network = { hiddenSize: 4, sequenceLength: 10, epochs: 3 };
+
+    await expect(professionalMLService.trainRecurrentModel([candles.slice(0, 50)], { network })).rejects.toThrow(
+      'Недостаточно данных для обучения рекуррентной сети: 16 окон, нужно не меньше 30'
+    );
+
+    const progress: number[] = [];
+    const result = await professionalMLService.trainRecurrentModel([candles], { network }, (metrics, epochs) =>
+      progress.push(metrics.epoch / epochs));
+    expect(result).toMatchObject({ trainWindows: 72, validationWindows: 19, cell: 'lstm', calibrated: true });
+    expect(progress).toEqual([1 / 3, 2 / 3, 1]);
+
+    const prediction = await professionalMLService.generateEnsemblePrediction(candles, 110, config);
+    expect(prediction!.metadata!.modelBreakdown.map((m: { model: string }) => m.model)).toEqual(['LSTM', 'NeuralNetwork']);
+
+    // Единственный активный член ансамбля — его откалиброванная вероятность без повторного сжатия
+    const neuralNetwork = jest.spyOn(professionalMLService as any, 'predictNeuralNetwork').mockResolvedValue(null);
+    const solo = await professionalMLService.generateEnsemblePrediction(candles, 110, config);
+    neuralNetwork.mockRestore();
+    const recurrent = RecurrentNetwork.fromJSON(professionalMLService.exportRecurrentModel()!);
+    const window = Array.from({ length: 10 }, (_, i) => professionalMLService.extractAdvancedFeatures(candles, 101 + i)
+      .map(value => (Number.isFinite(value) ? value : 0)));
+    const calibrated = recurrent.predictProba(window) * 100;
+    expect(solo!.metadata!.modelBreakdown.map((m: { model: string }) => m.model)).toEqual(['LSTM']);
+    expect(solo!.probability).toBeCloseTo(calibrated > 50 ? calibrated : 100 - calibrated, 0);
+    expect(solo!.direction).toBe(calibrated > 50 ? 'UP' : 'DOWN');
+
+    const saved = JSON.parse(JSON.stringify(professionalMLService.exportRecurrentModel()));
+    professionalMLService.importRecurrentModel(null);
+    expect(professionalMLService.isRecurrentModelTrained()).toBe(false);
+    professionalMLService.importRecurrentModel(saved);
+    expect(professionalMLService.exportRecurrentModel()).toEqual(saved);
+  });
+});
@@ -0,0 +1,103 @@
+import { SessionReplayError, SessionReplayService } from '@/services/backtesting/SessionReplayService';
+import { CandleData, TradingSession } from '@/types/session';
+
+describe('SessionReplayService', () => {
+  const service = new SessionReplayService();
+
+  const session: TradingSession = {
+    id: 'replay-session',
+    session_name: 'Replay',
+    pair: 'EUR/USD',
+    timeframe: '5m',
+    start_date: '2024-01-01',
+    start_time: '00:00',
+    current_candle_index: 5,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  };
+
+  type StoredPrediction = Pick<CandleData, 'prediction_direction' | 'prediction_confidence' | 'prediction_interval'>;
+
+  function candles(closes: number[], predictions: Record<number, StoredPrediction>): CandleData[] {
+    return closes.map((close, i) => ({
+      session_id: session.id,
+      candle_index: i,
+      open: close,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 100,
+      candle_datetime: new Date(Date.UTC(2024, 0, 1) + i * 5 * 60000).toISOString(),
+      ...predictions[i]
+    }));
+  }
+
+  // Прогнозы: 0 верный, 1 неверный, 2 верный (шорт), 4 без следующей свечи
+  const data = candles([100, 102, 101, 99, 100], {
+    0: { prediction_direction: 'UP', prediction_confidence: 85 },
+    1: { prediction_direction: 'UP', prediction_confidence: 55 },
+    2: { prediction_direction: 'DOWN', prediction_confidence: 100 },
+    4: { prediction_direction: 'DOWN', prediction_confidence: 70 }
+  });
+
+  it('should judge stored predictions against the following candle', () => {
+    const result = service.replay(session, [...data].reverse());
+
+    expect(result.predictions.map(p => [p.candleIndex, p.correct])).toEqual([[0, true], [1, false], [2, true]]);
+    expect(result.predictions[2].move).toBeCloseTo(2 / 101, 10);
+    expect(result.accuracy).toBeCloseTo(2 / 3, 10);
+    expect(result.pending).toBe(1);
+  });
+
+  it('should group accuracy by confidence bucket', () => {
+    const { confidenceBuckets, unbucketed } = service.replay(session, data, { confidenceBuckets: [50, 70, 90, 100] });
+
+    expect(confidenceBuckets.map(b => [b.min, b.count, b.correct])).toEqual([[50, 1, 0], [70, 1, 1], [90, 1, 1]]);
+    expect(unbucketed).toBe(0);
+  });
+
+  it('should backtest every judged prediction as a trade over the horizon', () => {
+    const { report } = service.replay(session, data);
+
+    expect(report.trades.map(t => [t.side, t.entryIndex, t.exitIndex])).toEqual([
+      ['long', 0, 1],
+      ['long', 1, 2],
+      ['short', 2, 3]
+    ]);
+    expect(report.trades.map(t => t.tag)).toEqual(['0', '1', '2']);
+    expect(report.metrics.winRate).toBeCloseTo(2 / 3, 10);
+  });
+
+  it('should judge each prediction at the expiry of its stored interval', () => {
+    // M5: 10-минутный прогноз судится через две свечи, 3-минутный - на следующей
+    const withIntervals = candles([100, 102, 101, 99, 100], {
+      0: { prediction_direction: 'UP', prediction_confidence: 85, prediction_interval: 10 },
+      1: { prediction_direction: 'UP', prediction_confidence: 55, prediction_interval: 3 },
+      2: { prediction_direction: 'DOWN', prediction_confidence: 100, prediction_interval: 15 }
+    });
+    const result = service.replay(session, withIntervals);
+
+    expect(result.predictions.map(p => [p.candleIndex, p.exitPrice, p.correct])).toEqual([[0, 101, true], [1, 101, false]]);
+    expect(result.pending).toBe(1);
+    expect(result.report.trades.map(t => [t.entryIndex, t.exitIndex])).toEqual([[0, 2], [1, 2]]);
+  });
+
+  it('should load the session through the loader', async () => {
+    const loaded: string[] = [];
+    const result = await service.replaySession({
+      loadSessionWithCandles: async (sessionId: string) => {
+        loaded.push(sessionId);
+        return { session, candles: data };
+      }
+    }, session.id, { horizon: 2 });
+
+    expect(loaded).toEqual([session.id]);
+    // Горизонт 2: прогноз 1 сравнивается со свечой 3
+    expect(result.predictions.map(p => [p.exitPrice, p.correct])).toEqual([[101, true], [99, false], [100, true]]);
+    expect(result.pending).toBe(1);
+  });
+
+  it('should reject sessions without stored predictions', () => {
+    expect(() => service.replay(session, candles([100, 101], {}))).toThrow(SessionReplayError);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  classificationMetrics,
+  createTimeSeriesFolds,
+  crossValidate,
+  CrossValidationError,
+  forwardLabelSpans,
+  LabelSpan
+} from '@/services/ml/validation/time-series-cv';
+import { AdvancedMLTrainingService, FeatureVector, ModelConfig } from '@/services/ml/AdvancedMLTrainingService';
+import { ModelTrainingService } from '@/services/ml/ModelTrainingService';
+import { NetworkTrainingService, TrainingExample } from '@/services/ml/NetworkTrainingService';
+import { createSeededRandom } from '@/services/backtesting/core/random';
+
+describe('Time-series cross-validation', () => {
+  const indexSpans = (n: number, horizon = 1): LabelSpan[] => forwardLabelSpans(Array.from({ length: n }, (_, i) => i), horizon);
+  const overlaps = (a: LabelSpan, b: LabelSpan) => a.start <= b.end && a.end >= b.start;
+
+  it('should build expanding, sliding and purged k-fold splits without label overlap', () => {
+    const spans = indexSpans(100);
+
+    const expanding = createTimeSeriesFolds(spans, { scheme: 'expanding', folds: 4 });
+    expect(expanding.map(fold => [fold.train.length, fold.test[0], fold.test.length, fold.purged]))
+      .toEqual([[19, 20, 20, 1], [39, 40, 20, 1], [59, 60, 20, 1], [79, 80, 20, 1]]);
+
+    const sliding = createTimeSeriesFolds(spans, { scheme: 'sliding', folds: 4, windowSize: 15 });
+    expect(sliding[3].train).toEqual(Array.from({ length: 14 }, (_, i) => 65 + i));
+
+    const purged = createTimeSeriesFolds(spans, { scheme: 'purged-kfold', folds: 5, embargo: 3 });
+    expect(purged).toHaveLength(5);
+    // Пример 40 уже вычищен по пересечению меток, эмбарго снимает 41 и 42
+    expect(purged[1]).toMatchObject({ purged: 2, embargoed: 2 });
+    expect(purged[1].train.filter(i => i > 39)[0]).toBe(43);
+    expect(purged[1].train.filter(i => i < 20)).toHaveLength(19);
+
+    // Ни один обучающий пример не пересекается по метке с тестовым блоком
+    const longLabels = indexSpans(200, 5);
+    const longFolds = createTimeSeriesFolds(longLabels, { folds: 4, embargo: 2 });
+    longFolds.forEach(fold => {
+      const testSpan = { start: longLabels[fold.test[0]].start, end: longLabels[fold.test[fold.test.length - 1]].end };
+      expect(fold.train.some(i => overlaps(longLabels[i], testSpan))).toBe(false);
+    });
+    expect(longFolds.map(fold => fold.purged)).toEqual([5, 10, 10, 5]);
+  });
+
+  it('should derive label spans and reject invalid input', () => {
+    expect(forwardLabelSpans([0, 60, 120, 180], 2)).toEqual([
+      { start: 0, end: 120 }, { start: 60, end: 180 }, { start: 120, end: 240 }, { start: 180, end: 300 }
+    ]);
+
+    expect(() => createTimeSeriesFolds([{ start: 5, end: 6 }, { start: 1, end: 2 }], { folds: 2 }))
+      .toThrow('Примеры должны быть упорядочены по времени');
+    expect(() => createTimeSeriesFolds(indexSpans(7), { scheme: 'expanding', folds: 4 })).toThrow(CrossValidationError);
+    expect(() => createTimeSeriesFolds(indexSpans(100), { folds: 5, embargo: -1 })).toThrow('Эмбарго задается неотрицательным числом примеров');
+  });
+
+  it('should score every fold and summarize the metrics', async () => {
+    expect(classificationMetrics([0.9, 0.2, 0.6, 0.4], [1, 0, 0, 1])).toMatchObject({
+      accuracy: 0.5, precision: 0.5, recall: 0.5, f1Score: 0.5, brierScore: (0.01 + 0.04 + 0.36 + 0.36) / 4
+    });
+
+    const random = createSeededRandom(7);
+    const samples = Array.from({ length: 120 }, () => random() * 2 - 1);
+    const folds: number[] = [];
+    const result = await crossValidate(samples, indexSpans(samples.length), {
+      fit: train => train.length,
+      predict: (_, x) => 1 / (1 + Math.exp(-20 * x)),
+      label: x => (x > 0 ? 1 : 0)
+    }, { scheme: 'expanding', folds: 3 }, metrics => folds.push(metrics.fold));
+
+    expect(folds).toEqual([0, 1, 2]);
+    expect(result.folds.map(fold => [fold.trainSize, fold.testSize])).toEqual([[29, 30], [59, 30], [89, 30]]);
+    expect(result.mean.accuracy).toBe(1);
+    expect(result.std.accuracy).toBe(0);
+    expect(result.mean.logLoss).toBeLessThan(0.2);
+  });
+
+  it('should be available in the training services', async () => {
+    const random = createSeededRandom(11);
+    const rows = Array.from({ length: 80 }, () => [random() * 2 - 1, random() * 2 - 1]);
+    const labels = rows.map(([a, b]) => (a + b > 0 ? 1 : 0));
+
+    // ModelTrainingService: фолды из TrainingData и кросс-валидация произвольной модели
+    const modelTraining = new ModelTrainingService();
+    const folds = modelTraining.createFolds({ features: rows, labels, weights: labels.map(() => 1) }, { scheme: 'sliding', folds: 3, windowSize: 30 });
+    expect(folds.map(fold => [fold.train.features.length, fold.test.labels.length, fold.train.weights!.length]))
+      .toEqual([[19, 20, 19], [29, 20, 29], [29, 20, 29]]);
+    const summed = await modelTraining.crossValidate({ features: rows, labels }, {
+      fit: () => 10,
+      predict: (scale, [a, b]) => 1 / (1 + Math.exp(-scale * (a + b)))
+    }, { folds: 4 });
+    expect(summed.folds).toHaveLength(4);
+    expect(summed.mean.accuracy).toBe(1);
+
+    // AdvancedMLTrainingService: граница между блоками вычищается
+    const vectors: FeatureVector[] = rows.map((features, i) => ({ timestamp: i * 60000, features, label: labels[i] }));
+    const config: ModelConfig = { modelType: 'regression', lookbackPeriod: 20, features: [], trainingRatio: 0.5, validationRatio: 0.25, embargo: 0 };
+    const advanced = new AdvancedMLTrainingService();
+    const split = advanced.splitTimeSeriesData(vectors, config);
+    expect([split.train.length, split.validation.length, split.test.length]).toEqual([39, 19, 20]);
+    expect(split.train[split.train.length - 1].timestamp).toBe(38 * 60000);
+    const advancedResult = await advanced.crossValidate(vectors, config, { scheme: 'expanding', folds: 3 });
+    expect(advancedResult.folds.map(fold => fold.testSize)).toEqual([20, 20, 20]);
+    expect(advancedResult.mean.accuracy).toBeGreaterThan(0.8);
+
+    // NetworkTrainingService: сеть обучается заново в каждом фолде
+    const examples: TrainingExample[] = rows.map((features, i) => ({ features, target: labels[i], timestamp: i * 60000 }));
+    const network = await NetworkTrainingService.getInstance().crossValidateNetwork(examples, 4, {
+      learningRate: 0.05, momentum: 0.9, batchSize: 8, epochs: 30, validationSplit: 0.2,
+      earlyStoppingPatience: 30, dropoutRate: 0, l2Regularization: 0, labelHorizon: 60000
+    }, { folds: 4, embargo: 2 });
+    expect(network.folds.map(fold => [fold.testSize, fold.purged, fold.embargoed])).toEqual([[20, 1, 1], [20, 2, 1], [20, 2, 1], [20, 1, 0]]);
+    expect(network.mean.accuracy).toBeGreaterThan(0.7);
+
+    // Без labelHorizon метка разрешается на следующем примере, и граница холдаута все равно вычищается
+    const holdout = (NetworkTrainingService.getInstance() as any).splitData(examples, { validationSplit: 0.2 });
+    expect([holdout.trainSet.length, holdout.validationSet.length]).toEqual([63, 16]);
+    expect(holdout.trainSet[62].timestamp).toBe(62 * 60000);
+  });
+});
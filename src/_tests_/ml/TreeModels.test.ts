@@ -0,0 +1,154 @@
+import { TreeModelError, fitCart, predictCart } from '@/services/ml/trees/cart';
+import { RandomForestClassifier } from '@/services/ml/trees/random-forest';
+import { GradientBoostingClassifier } from '@/services/ml/trees/gradient-boosting';
+import { professionalMLService, TreeModelsJSON } from '@/services/ml/ProfessionalMLService';
+import { createSeededRandom } from '@/services/backtesting/core/random';
+import { CandleData } from '@/types/session';
+import { PredictionConfig } from '@/types/trading';
+
+describe('Tree models', () => {
+  // XOR по знакам двух первых признаков плюс три шумовых признака — одним разбиением не решается
+  function xorDataset(count: number, seed: number): { X: number[][]; y: number[] } {
+    const random = createSeededRandom(seed);
+    const X = Array.from({ length: count }, () => Array.from({ length: 5 }, () => random() * 2 - 1));
+    return { X, y: X.map(row => (row[0] * row[1] > 0 ? 1 : 0)) };
+  }
+
+  const accuracy = (predict: (x: number[]) => number, X: number[][], y: number[]) =>
+    X.filter((row, i) => (predict(row) > 0.5 ? 1 : 0) === y[i]).length / X.length;
+
+  const train = xorDataset(400, 1);
+  const test = xorDataset(200, 2);
+
+  it('should grow CART splits that minimize variance', () => {
+    const X = [[1], [2], [3], [10], [11], [12]];
+    const y = [0, 0, 0, 1, 1, 1];
+    const tree = fitCart(X, y, [0, 1, 2, 3, 4, 5], { maxDepth: 3, minSamplesSplit: 2, minSamplesLeaf: 1 }, { random: Math.random });
+
+    expect(tree).toMatchObject({ feature: 0, threshold: 6.5, samples: 6, impurity: 0.25 });
+    expect(tree.left).toEqual({ value: 0, samples: 3, impurity: 0 });
+    expect([predictCart(tree, [0]), predictCart(tree, [7])]).toEqual([0, 1]);
+  });
+
+  it('should fit a random forest with out-of-bag accuracy and feature importance', () => {
+    const forest = RandomForestClassifier.fit(train.X, train.y, { nTrees: 30, maxFeatures: 'all', seed: 7 });
+
+    expect(accuracy(x => forest.predictProba(x), test.X, test.y) > 0.9).toBe(true);
+    expect(forest.oobAccuracy! > 0.85).toBe(true);
+    // Информативны только первые два признака
+    expect(forest.featureImportance[0] + forest.featureImportance[1] > 0.8).toBe(true);
+
+    const again = RandomForestClassifier.fit(train.X, train.y, { nTrees: 30, maxFeatures: 'all', seed: 7 });
+    expect(again.toJSON()).toEqual(forest.toJSON());
+  });
+
+  it('should boost trees on logistic loss with subsampling', () => {
+    const booster = GradientBoostingClassifier.fit(train.X, train.y, {
+      nEstimators: 60,
+      learningRate: 0.3,
+      maxDepth: 3,
+      subsample: 0.7,
+      colsampleByTree: 0.8
+    });
+
+    expect(accuracy(x => booster.predictProba(x), test.X, test.y) > 0.9).toBe(true);
+    const losses = booster.lossHistory;
+    expect(losses).toHaveLength(60);
+    expect(losses[59] < losses[0] / 2).toBe(true);
+    expect(booster.predictRaw([0.5, 0.5, 0, 0, 0]) > 0).toBe(true);
+  });
+
+  it('should round-trip models through JSON and reject broken ones', () => {
+    const forest = RandomForestClassifier.fit(train.X, train.y, { nTrees: 5 });
+    const booster = GradientBoostingClassifier.fit(train.X, train.y, { nEstimators: 10 });
+
+    const reloadedForest = RandomForestClassifier.fromJSON(JSON.parse(JSON.stringify(forest)));
+    const reloadedBooster = GradientBoostingClassifier.fromJSON(JSON.parse(JSON.stringify(booster)));
+    test.X.slice(0, 20).forEach(x => {
+      expect(reloadedForest.predictProba(x)).toBe(forest.predictProba(x));
+      expect(reloadedBooster.predictProba(x)).toBe(booster.predictProba(x));
+    });
+
+    const broken = JSON.parse(JSON.stringify(forest));
+    broken.trees[0] = { feature: 9, threshold: 0, left: { value: 0 }, right: { value: 1 }, value: 0.5, samples: 2, impurity: 0.25 };
+    expect(() => RandomForestClassifier.fromJSON(broken)).toThrow('Некорректное разбиение в дереве');
+    expect(() => forest.predictProba([1, 2])).toThrow('Ожидалось 5 признаков, получено 2');
+    expect(() => GradientBoostingClassifier.fit([[1], [2]], [0, 2])).toThrow('Метки должны быть 0 или 1');
+  });
+
+  it('should train, export and reload the tree models of the ensemble', async () => {
+    const random = createSeededRandom(11);
+    let price = 1.1;
+    const candles: CandleData[] = Array.from({ length: 160 }, (_, i) => {
+      const open = price;
+      price = Math.max(0.5, price + (random() - 0.48) * 0.004);
+      return {
+        session_id: 'session-1',
+        candle_index: i,
+        open,
+        high: Math.max(open, price) + random() * 0.001,
+        low: Math.min(open, price) - random() * 0.001,
+        close: price,
+        volume: 1000 + Math.round(random() * 500),
+        candle_datetime: new Date(Date.UTC(2024, 0, 1, 0, i * 5)).toISOString()
+      };
+    });
+    const config: PredictionConfig = { predictionInterval: 5, analysisMode: 'session' };
+
+    const untrained = await professionalMLService.generateEnsemblePrediction(candles, 150, config);
+    expect(untrained!.metadata!.modelBreakdown.map((m: { model: string }) => m.model)).toEqual(['NeuralNetwork']);
+
+    await expect(professionalMLService.trainTreeModels([candles.slice(0, 40)])).rejects.toThrow(
+      'Недостаточно данных для обучения деревьев: 16 примеров, нужно не меньше 30'
+    );
+
+    const result = await professionalMLService.trainTreeModels([candles], {
+      randomForest: { nTrees: 10 },
+      gradientBoosting: { nEstimators: 10 }
+    });
+    expect(result).toMatchObject({ trainSamples: 112, validationSamples: 28 });
+    expect(professionalMLService.isTreeModelsTrained()).toBe(true);
+
+    const trained = await professionalMLService.generateEnsemblePrediction(candles, 150, config);
+    const breakdown = trained!.metadata!.modelBreakdown as Array<{ model: string; weight: number }>;
+    expect(breakdown.map(m => m.model)).toEqual(['RandomForest', 'XGBoost', 'NeuralNetwork']);
+    expect(breakdown.reduce((sum, m) => sum + m.weight, 0)).toBeCloseTo(1, 10);
+
+    const saved: TreeModelsJSON = JSON.parse(JSON.stringify(professionalMLService.exportTreeModels()));
+    professionalMLService.importTreeModels({ ...saved, randomForest: null, gradientBoosting: null });
+    expect(professionalMLService.isTreeModelsTrained()).toBe(false);
+
+    professionalMLService.importTreeModels(saved);
+    expect(professionalMLService.exportTreeModels()).toEqual(saved);
+    expect(() => professionalMLService.importTreeModels({ ...saved, version: 2 } as any)).toThrow(TreeModelError);
+  });
+
+  it('should call DOWN once the trees are trained on a falling series', async () => {
+    const random = createSeededRandom(3);
+    let price = 1.2;
+    const candles: CandleData[] = Array.from({ length: 160 }, (_, i) => {
+      const open = price;
+      price = Math.max(0.5, price + (random() - 0.85) * 0.004);
+      return {
+        session_id: 'session-2',
+        candle_index: i,
+        open,
+        high: Math.max(open, price) + random() * 0.001,
+        low: Math.min(open, price) - random() * 0.001,
+        close: price,
+        volume: 1000 + Math.round(random() * 500),
+        candle_datetime: new Date(Date.UTC(2024, 0, 2, 0, i * 5)).toISOString()
+      };
+    });
+    const config: PredictionConfig = { predictionInterval: 5, analysisMode: 'session' };
+
+    await professionalMLService.trainTreeModels([candles], {
+      randomForest: { nTrees: 10 },
+      gradientBoosting: { nEstimators: 10 }
+    });
+    const prediction = await professionalMLService.generateEnsemblePrediction(candles, 150, config);
+
+    expect(prediction!.direction).toBe('DOWN');
+    expect(prediction!.probability > 50).toBe(true);
+  });
+});
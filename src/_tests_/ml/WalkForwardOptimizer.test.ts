@@ -0,0 +1,96 @@
+import { WalkForwardError, WalkForwardOptimizer } from '@/services/backtesting/WalkForwardOptimizer';
+import { CandleData } from '@/types/session';
+
+describe('WalkForwardOptimizer', () => {
+  const optimizer = new WalkForwardOptimizer();
+
+  // Синусоида с трендом: пересечения средних происходят регулярно
+  function candles(count: number): CandleData[] {
+    return Array.from({ length: count }, (_, i) => {
+      const close = 100 + i * 0.05 + 5 * Math.sin(i / 6);
+      return {
+        session_id: 'test',
+        candle_index: i,
+        open: close - 0.2,
+        high: close + 0.5,
+        low: close - 0.5,
+        close,
+        volume: 100,
+        candle_datetime: new Date(1700000000000 + i * 5 * 60000).toISOString()
+      };
+    });
+  }
+
+  const data = candles(300);
+  const base = {
+    strategy: 'moving_average' as const,
+    parameterSpace: {
+      fastPeriod: { type: 'int' as const, min: 3, max: 6, step: 3 },
+      slowPeriod: { type: 'int' as const, min: 12, max: 24, step: 12 }
+    },
+    inSampleBars: 120,
+    outOfSampleBars: 60,
+    warmupBars: 30,
+    minTrades: 1
+  };
+
+  it('should build rolling windows and stitch out-of-sample equity', async () => {
+    const progress: number[] = [];
+    const result = await optimizer.run(data, base, p => progress.push(p));
+
+    expect(result.windows.map(w => w.inSample)).toEqual([
+      { start: 0, end: 120 },
+      { start: 60, end: 180 },
+      { start: 120, end: 240 }
+    ]);
+    expect(result.windows.map(w => w.outOfSample.start)).toEqual([120, 180, 240]);
+    expect(result.windows.every(w => w.candidatesEvaluated === 4)).toBe(true);
+    // Одна доходность на каждый бар вне выборки
+    expect(result.stitchedEquity).toHaveLength(180);
+    expect(result.outOfSample.trades).toBe(result.windows.reduce((sum, w) => sum + w.outOfSampleTrades, 0));
+    expect(progress[progress.length - 1]).toBeCloseTo(100, 10);
+  });
+
+  it('should anchor in-sample windows at the first bar', async () => {
+    const result = await optimizer.run(data, { ...base, windowMode: 'anchored' });
+    expect(result.windows.map(w => w.inSample)).toEqual([
+      { start: 0, end: 120 },
+      { start: 0, end: 180 },
+      { start: 0, end: 240 }
+    ]);
+  });
+
+  it('should reproduce random search with the same seed', async () => {
+    const options = { ...base, search: 'random' as const, randomSamples: 3, seed: 7, objective: 'profit_factor' as const };
+    const first = await optimizer.run(data, options);
+    const second = await optimizer.run(data, options);
+
+    expect(first.windows.map(w => w.bestParameters)).toEqual(second.windows.map(w => w.bestParameters));
+    expect(first.windows.every(w => w.candidatesEvaluated <= 3)).toBe(true);
+    expect(first.outOfSample.score).toBe(second.outOfSample.score);
+  });
+
+  it('should score the binary win rate objective', async () => {
+    const result = await optimizer.run(data, { ...base, objective: 'binary_win_rate', binaryInterval: 10 });
+    expect(result.outOfSample.score).toBeGreaterThanOrEqual(0);
+    expect(result.outOfSample.score).toBeLessThanOrEqual(1);
+  });
+
+  it('should report full stability when one parameter set is searched', async () => {
+    const result = await optimizer.run(data, {
+      ...base,
+      parameterSpace: {
+        fastPeriod: { type: 'choice', values: [5] },
+        slowPeriod: { type: 'choice', values: [20] }
+      }
+    });
+
+    expect(result.parameterStability.map(p => p.values)).toEqual([[5, 5, 5], [20, 20, 20]]);
+    expect(result.stabilityScore).toBe(1);
+  });
+
+  it('should reject too little data and oversized grids', async () => {
+    await expect(optimizer.run(candles(100), base)).rejects.toThrow(WalkForwardError);
+    await expect(optimizer.run(data, { ...base, maxGridSize: 2 })).rejects.toThrow('use random search');
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  CandlestickPatternRegistry,
+  candlestickPatternRegistry
+} from '@/services/patterns/CandlestickPatternRegistry';
+import { PatternAnalysisService } from '@/services/patterns/PatternAnalysis';
+import { CandleData } from '@/types/session';
+
+describe('CandlestickPatternRegistry', () => {
+  function candles(bars: Array<[number, number, number, number]>, volume = 1000): CandleData[] {
+    return bars.map(([open, high, low, close], i) => ({
+      session_id: 'test_session',
+      candle_index: i,
+      open,
+      high,
+      low,
+      close,
+      volume,
+      candle_datetime: new Date(1700000000000 + i * 60000).toISOString()
+    }));
+  }
+
+  // Нисходящий тренд, затем утренняя звезда, последняя свеча которой — бычье поглощение
+  const reversal = candles([
+    [121, 122, 118, 119],
+    [119, 120, 116, 117],
+    [117, 118, 113, 114],
+    [114, 115, 111, 112],
+    [112, 112.5, 109.5, 110],
+    [110, 110.5, 99.5, 100],
+    [100, 100.6, 99.2, 99.5],
+    [99.4, 106.5, 99.3, 106]
+  ]);
+
+  it('should return every pattern that completes on a candle', () => {
+    const ids = candlestickPatternRegistry.detectAt(reversal, 7).map(match => match.id);
+
+    expect(ids).toContain('bullish_engulfing');
+    expect(ids).toContain('morning_star');
+  });
+
+  it('should describe matches with direction, signal and strength', () => {
+    const engulfing = candlestickPatternRegistry
+      .detectAt(reversal, 7)
+      .find(match => match.id === 'bullish_engulfing')!;
+
+    expect(engulfing.direction).toBe('BULLISH');
+    expect(engulfing.isReversal).toBe(true);
+    expect(engulfing.isContinuation).toBe(false);
+    expect(engulfing.startIndex).toBe(6);
+    expect(engulfing.candleIndex).toBe(7);
+    expect(engulfing.strength).toBeGreaterThanOrEqual(0.8);
+    expect(engulfing.confidence).toBe(Math.round(engulfing.strength * 100));
+  });
+
+  it('should require a hammer to form at a local low', () => {
+    const hammerShape: [number, number, number, number] = [100, 100.6, 96, 100.5];
+    const atLow = candles([[104, 104.5, 101, 102], [102, 102.5, 100, 100.2], hammerShape]);
+    const atHigh = candles([[90, 92, 89.5, 91], [91, 95, 90.5, 94], hammerShape]);
+
+    expect(candlestickPatternRegistry.detectAt(atLow, 2).map(m => m.id)).toContain('hammer');
+    expect(candlestickPatternRegistry.detectAt(atHigh, 2).map(m => m.id)).not.toContain('hammer');
+  });
+
+  it('should scan ranges and filter by confidence and pattern id', () => {
+    const all = candlestickPatternRegistry.detectRange(reversal);
+    const onlyStars = candlestickPatternRegistry.detectRange(reversal, { patternIds: ['morning_star'] });
+
+    expect(all.length).toBeGreaterThanOrEqual(2);
+    expect(onlyStars).toHaveLength(1);
+    expect(candlestickPatternRegistry.detectRange(reversal, { minConfidence: 101 })).toHaveLength(0);
+  });
+
+  it('should support custom patterns and reject duplicate ids', () => {
+    const registry = new CandlestickPatternRegistry([]);
+    registry.register({
+      id: 'big_candle',
+      name: 'Big Candle',
+      displayName: 'Большая свеча',
+      description: 'Test pattern',
+      direction: 'NEUTRAL',
+      signal: 'indecision',
+      requiredCandles: 1,
+      baseStrength: 0.6,
+      featureCode: 0.5,
+      matches: (data, index) => data[index].high - data[index].low > 10
+    });
+
+    expect(registry.detectAt(reversal, 5).map(m => m.id)).toEqual(['big_candle']);
+    expect(() => registry.register(registry.getDefinition('big_candle')!)).toThrow('already registered');
+  });
+
+  it('should keep the ML feature codes of existing patterns', () => {
+    expect(candlestickPatternRegistry.encode('Doji')).toBe(0.1);
+    expect(candlestickPatternRegistry.encode('Bearish Engulfing')).toBe(0.5);
+    expect(candlestickPatternRegistry.encode('three_black_crows')).toBe(0.7);
+    expect(candlestickPatternRegistry.encode(null)).toBe(0);
+  });
+
+  it('should back PatternAnalysisService with the strongest match', () => {
+    const signals = PatternAnalysisService.analyzePatterns(reversal, 7);
+
+    expect(signals.matches.length).toBeGreaterThanOrEqual(2);
+    expect(signals.candlestickPattern).toBe(signals.matches[0].name);
+    expect(signals.strength).toBe(signals.matches[0].strength);
+  });
+});
@@ -0,0 +1,100 @@
+import { ChartPatternService, extractSwingPoints } from '@/services/patterns/ChartPatternService';
+import { CandleData } from '@/types/session';
+
+describe('ChartPatternService', () => {
+  const service = new ChartPatternService();
+
+  // Цена идет по опорным точкам с шагом 1 за свечу
+  function path(waypoints: number[]): CandleData[] {
+    const closes = [waypoints[0]];
+    for (let w = 1; w < waypoints.length; w++) {
+      const from = waypoints[w - 1];
+      const to = waypoints[w];
+      const step = Math.sign(to - from);
+      for (let price = from + step; step !== 0 && price !== to + step; price += step) closes.push(price);
+    }
+
+    return closes.map((close, i) => {
+      const open = i > 0 ? closes[i - 1] : close;
+      return {
+        session_id: 'test',
+        candle_index: i,
+        open,
+        high: Math.max(open, close) + 0.1,
+        low: Math.min(open, close) - 0.1,
+        close,
+        volume: 1000,
+        candle_datetime: new Date(1700000000000 + i * 300000).toISOString()
+      };
+    });
+  }
+
+  it('should extract alternating swings without using later candles', () => {
+    const candles = path([100, 120, 110, 125, 105, 115, 100]);
+    const { swings, pending } = extractSwingPoints(candles);
+
+    expect(swings.map(s => s.type)).toEqual(['low', 'high', 'low', 'high', 'low', 'high']);
+    expect(swings.map(s => Math.round(s.price))).toEqual([100, 120, 110, 125, 105, 115]);
+    expect(pending!.type).toBe('low');
+
+    // Свинги, подтвержденные на префиксе, не меняются при добавлении свечей
+    const prefix = extractSwingPoints(candles.slice(0, 40)).swings;
+    expect(prefix.length).toBeGreaterThan(0);
+    expect(swings.slice(0, prefix.length)).toEqual(prefix);
+  });
+
+  it('should confirm a double top on a close below the neckline', () => {
+    const candles = path([100, 120, 110, 120, 95]);
+    const pattern = service.analyze(candles).patterns.find(p => p.id === 'double_top')!;
+
+    expect(pattern.direction).toBe('BEARISH');
+    expect(pattern.status).toBe('confirmed');
+    expect(pattern.breakoutLevel).toBeCloseTo(109.9, 10);
+    expect(pattern.height).toBeCloseTo(10.2, 10);
+    expect(pattern.target).toBeCloseTo(109.9 - 10.2, 10);
+    expect(candles[pattern.statusIndex!].close).toBeLessThan(pattern.breakoutLevel);
+  });
+
+  it('should detect head and shoulders with the neckline as breakout level', () => {
+    const { patterns } = service.analyze(path([80, 100, 90, 110, 90, 100, 85]));
+    const pattern = patterns.find(p => p.id === 'head_and_shoulders')!;
+
+    expect(pattern.points).toHaveLength(5);
+    expect(pattern.status).toBe('confirmed');
+    expect(pattern.breakoutLevel).toBeCloseTo(89.9, 10);
+    expect(pattern.target).toBeCloseTo(89.9 - 20.2, 10);
+    expect(patterns.some(p => p.id === 'inverse_head_and_shoulders')).toBe(false);
+  });
+
+  it('should detect a forming ascending triangle and expose it as resistance', () => {
+    const analysis = service.analyze(path([90, 110, 96, 110, 102, 110, 106]));
+    const triangle = analysis.patterns.find(p => p.id === 'ascending_triangle')!;
+
+    expect(triangle.direction).toBe('BULLISH');
+    expect(triangle.status).toBe('forming');
+    expect(triangle.breakoutLevel).toBeCloseTo(110.1, 10);
+    expect(triangle.target).toBeGreaterThan(triangle.breakoutLevel);
+    expect(analysis.patterns.some(p => p.id === 'descending_triangle' || p.id === 'symmetric_triangle')).toBe(false);
+    expect(analysis.levels).toContainEqual({ level: triangle.breakoutLevel, strength: triangle.confidence, type: 'resistance' });
+  });
+
+  it('should measure a bull flag target from the pole height', () => {
+    const forming = service.analyze(path([100, 130, 122, 128, 124])).patterns.find(p => p.id === 'bull_flag')!;
+    expect(forming.status).toBe('forming');
+    expect(forming.height).toBeCloseTo(30.2, 10);
+
+    const broken = service.analyze(path([100, 130, 122, 128, 124, 140])).patterns.find(p => p.id === 'bull_flag')!;
+    expect(broken.status).toBe('confirmed');
+    expect(broken.target).toBeCloseTo(broken.breakoutLevel + 30.2, 10);
+  });
+
+  it('should derive market structure from the swing sequence', () => {
+    const up = service.analyze(path([100, 110, 105, 115, 110, 120, 115, 125, 120])).marketStructure;
+    const down = service.analyze(path([125, 115, 120, 110, 115, 105, 110, 100, 105])).marketStructure;
+
+    expect(up.trend).toBe('UPTREND');
+    expect(up.strength).toBe(1);
+    expect(down.trend).toBe('DOWNTREND');
+    expect(service.analyze([]).marketStructure.trend).toBe('SIDEWAYS');
+  });
+});
@@ -0,0 +1,127 @@
+import { PatternStatisticsService, SessionCandleSource } from '@/services/patterns/PatternStatisticsService';
+import { CandlestickPatternRegistry } from '@/services/patterns/CandlestickPatternRegistry';
+import { PatternAnalysisService } from '@/services/patterns/PatternAnalysis';
+import { CandleData, TradingSession } from '@/types/session';
+
+describe('PatternStatisticsService', () => {
+  // Паттерн "большая бычья свеча": удобно контролировать исход
+  const registry = new CandlestickPatternRegistry([
+    {
+      id: 'big_bull',
+      name: 'Big Bull',
+      displayName: 'Большая бычья свеча',
+      description: 'Test pattern',
+      direction: 'BULLISH',
+      signal: 'continuation',
+      requiredCandles: 1,
+      baseStrength: 0.7,
+      featureCode: 0.5,
+      matches: (data, index) => data[index].close - data[index].open >= 5
+    }
+  ]);
+
+  function session(id: string, pair = 'EUR/USD', timeframe = '5m'): TradingSession {
+    return {
+      id,
+      session_name: id,
+      pair,
+      timeframe,
+      start_date: '2024-01-01',
+      start_time: '00:00',
+      current_candle_index: 0,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z'
+    };
+  }
+
+  function candles(closes: number[], sessionId = 's1'): CandleData[] {
+    return closes.map((close, i) => {
+      const open = i > 0 ? closes[i - 1] : close;
+      return {
+        session_id: sessionId,
+        candle_index: i,
+        open,
+        high: Math.max(open, close) + 0.5,
+        low: Math.min(open, close) - 0.5,
+        close,
+        volume: 1000,
+        candle_datetime: new Date(1700000000000 + i * 300000).toISOString()
+      };
+    });
+  }
+
+  // Две большие бычьи свечи: после первой рост, после второй падение
+  const history = [100, 100, 106, 107, 108, 109, 110, 111, 120, 118, 116, 114, 112, 110];
+
+  it('should measure the move after each pattern', () => {
+    const service = new PatternStatisticsService(registry, { horizon: 3 });
+    const outcomes = service.evaluateOutcomes(candles(history), 'EUR/USD', '5m');
+
+    expect(outcomes).toHaveLength(2);
+    expect(outcomes[0].candleIndex).toBe(2);
+    expect(outcomes[0].hit).toBe(true);
+    expect(outcomes[0].move).toBeCloseTo((109 - 106) / 106, 10);
+    expect(outcomes[1].hit).toBe(false);
+  });
+
+  it('should aggregate hit rate, average move and sample size per pair and timeframe', () => {
+    const service = new PatternStatisticsService(registry, { horizon: 3, minSampleSize: 2 });
+    service.recordSession(session('s1'), candles(history));
+    service.recordSession(session('s2', 'GBP/USD'), candles(history.slice(0, 8), 's2'));
+
+    const eur = service.getStats('EUR/USD', '5m', 'big_bull')!;
+    expect(eur.sampleSize).toBe(2);
+    expect(eur.hitRate).toBe(0.5);
+    expect(eur.isSignificant).toBe(true);
+    expect(eur.averageMove).toBeCloseTo(((109 - 106) / 106 + (114 - 120) / 120) / 2, 10);
+
+    expect(service.getStats('GBP/USD', '5m', 'big_bull')!.hitRate).toBe(1);
+    expect(service.getAllStats({ pair: 'EUR/USD' })).toHaveLength(1);
+  });
+
+  it('should replace outcomes when a session is recorded again', () => {
+    const service = new PatternStatisticsService(registry, { horizon: 3 });
+    service.recordSession(session('s1'), candles(history));
+    service.recordSession(session('s1'), candles(history));
+
+    expect(service.getStats('EUR/USD', '5m', 'big_bull')!.sampleSize).toBe(2);
+  });
+
+  it('should blend heuristic strength with the empirical hit rate', () => {
+    const service = new PatternStatisticsService(registry, { horizon: 3, priorWeight: 2 });
+    service.recordSession(session('s1'), candles(history.slice(0, 8)));
+
+    const data = candles(history);
+    const [match] = service.applyReliability(registry.detectAt(data, 2), 'EUR/USD', '5m');
+    const [unknown] = service.applyReliability(registry.detectAt(data, 2), 'USD/JPY', '5m');
+
+    expect(match.heuristicStrength).toBe(registry.detectAt(data, 2)[0].strength);
+    expect(match.strength).toBeCloseTo((match.heuristicStrength * 2 + 1) / 3, 10);
+    expect(match.confidence).toBe(Math.round(match.strength * 100));
+    expect(unknown.strength).toBe(unknown.heuristicStrength);
+    expect(unknown.reliability).toBeUndefined();
+  });
+
+  it('should scan stored sessions and skip the ones that fail to load', async () => {
+    const service = new PatternStatisticsService(registry, { horizon: 3 });
+    const source: SessionCandleSource = {
+      loadSessions: async () => [session('s1'), session('broken')],
+      loadSessionWithCandles: async (sessionId: string) => {
+        if (sessionId === 'broken') throw new Error('Session not found');
+        return { session: session(sessionId), candles: candles(history) };
+      }
+    };
+
+    expect(await service.scanSessions(source)).toBe(1);
+    expect(service.getStats('EUR/USD', '5m', 'big_bull')!.sampleSize).toBe(2);
+  });
+
+  it('should leave PatternSignals unchanged without market context', () => {
+    const data = candles(history);
+    const signals = PatternAnalysisService.analyzePatterns(data, 8);
+    const withMarket = PatternAnalysisService.analyzePatterns(data, 8, { pair: 'XXX/YYY', timeframe: '5m' });
+
+    expect(withMarket.strength).toBe(signals.strength);
+    expect(withMarket.candlestickPattern).toBe(signals.candlestickPattern);
+  });
+});
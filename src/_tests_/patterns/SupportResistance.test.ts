@@ -0,0 +1,98 @@
+import { SupportResistanceService, LevelEvent } from '@/services/patterns/SupportResistanceService';
+import { CandleData } from '@/types/session';
+
+describe('SupportResistanceService', () => {
+  // Цена идет по опорным точкам с шагом 1 за свечу
+  function path(waypoints: number[], volumeAt: (close: number) => number = () => 1000): CandleData[] {
+    const closes = [waypoints[0]];
+    for (let w = 1; w < waypoints.length; w++) {
+      const step = Math.sign(waypoints[w] - waypoints[w - 1]);
+      for (let price = waypoints[w - 1] + step; step !== 0 && price !== waypoints[w] + step; price += step) closes.push(price);
+    }
+
+    return closes.map((close, i) => {
+      const open = i > 0 ? closes[i - 1] : close;
+      return {
+        session_id: 'test',
+        candle_index: i,
+        open,
+        high: Math.max(open, close) + 0.1,
+        low: Math.min(open, close) - 0.1,
+        close,
+        volume: volumeAt(close),
+        candle_datetime: new Date(1700000000000 + i * 300000).toISOString()
+      };
+    });
+  }
+
+  // Диапазон 100-110, пробой вверх, возврат к 110 и продолжение роста
+  const breakout = [100, 110, 100, 110, 100, 110, 120, 110, 118];
+
+  it('should cluster swing highs and lows into levels and count touches', () => {
+    const service = new SupportResistanceService();
+    const { levels, nearestSupport, nearestResistance } = service.analyze(path(breakout));
+
+    expect(levels).toHaveLength(2);
+    const [upper, lower] = levels;
+    expect(upper.level).toBeCloseTo((110.1 * 2 + 109.9) / 3, 10);
+    expect(upper.touches).toBe(3);
+    expect(lower.level).toBeCloseTo(99.9, 10);
+    expect(lower.touches).toBe(3);
+
+    expect(upper.type).toBe('support');
+    expect(nearestSupport).toBe(upper);
+    expect(nearestResistance).toBeNull();
+  });
+
+  it('should flip a broken resistance into support and report the retest', () => {
+    const candles = path(breakout);
+    const { levels, events } = new SupportResistanceService().analyze(candles);
+    const upper = levels[0];
+
+    expect(upper.flips).toBe(1);
+    expect(levels[1].flips).toBe(0);
+    expect(events.map(e => [e.type, e.direction, e.role])).toEqual([
+      ['break', 'up', 'support'],
+      ['retest', 'up', 'support']
+    ]);
+    expect(candles[events[0].index].close).toBeGreaterThan(upper.zoneHigh);
+    expect(events[1].index).toBeGreaterThan(events[0].index);
+  });
+
+  it('should weight touches by volume and recency', () => {
+    const waypoints = [100, 110, 100, 110, 100, 105];
+    const flat = new SupportResistanceService().analyze(path(waypoints)).levels;
+    // Объем на минимумах в десять раз выше
+    const heavyLows = new SupportResistanceService().analyze(path(waypoints, close => (close === 100 ? 10000 : 1000))).levels;
+    const strength = (levels: typeof flat, price: number) => levels.find(l => Math.abs(l.level - price) < 1)!.strength;
+
+    expect(strength(flat, 110)).toBeGreaterThan(0);
+    expect(strength(heavyLows, 100)).toBeGreaterThan(strength(flat, 100));
+
+    const shortMemory = new SupportResistanceService({ recencyHalfLife: 5 }).analyze(path(waypoints)).levels;
+    expect(strength(shortMemory, 110)).toBeLessThan(strength(flat, 110));
+  });
+
+  it('should notify subscribers only about events on new candles', () => {
+    const service = new SupportResistanceService();
+    const candles = path(breakout);
+    const received: LevelEvent[] = [];
+    const unsubscribe = service.subscribe(event => received.push(event));
+
+    const breakIndex = service.analyze(candles).events[0].index;
+    service.process('EUR/USD', candles.slice(0, breakIndex));
+    expect(received).toHaveLength(0);
+
+    service.process('EUR/USD', candles);
+    expect(received.map(e => e.type)).toEqual(['break', 'retest']);
+
+    service.process('EUR/USD', candles);
+    expect(received).toHaveLength(2);
+
+    unsubscribe();
+    service.reset();
+    service.process('EUR/USD', candles.slice(0, breakIndex));
+    service.process('EUR/USD', candles);
+    expect(received).toHaveLength(2);
+  });
+});
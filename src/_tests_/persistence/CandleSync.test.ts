@@ -0,0 +1,191 @@
+import {
+  CandleSyncRemote,
+  CandleSyncService,
+  mergeOperations
+} from '@/services/offline/CandleSyncService';
+import { InMemoryQueueStore, QueuedCandleOperation } from '@/services/offline/OfflineQueueStore';
+import { CandleData } from '@/types/session';
+
+describe('CandleSyncService', () => {
+  const candle = (index: number, close: number, updatedAt?: string): CandleData => ({
+    session_id: 'session-1',
+    candle_index: index,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+    candle_datetime: new Date(Date.UTC(2024, 0, 1, 10, index * 5)).toISOString(),
+    updated_at: updatedAt
+  });
+
+  class FakeRemote implements CandleSyncRemote {
+    rows = new Map<number, CandleData>();
+    offline = false;
+    calls: string[] = [];
+
+    async fetch(sessionId: string, candleIndex: number) {
+      if (this.offline) throw new Error('TypeError: Failed to fetch');
+      return this.rows.get(candleIndex) ?? null;
+    }
+
+    async upsert(data: Omit<CandleData, 'id'>) {
+      this.calls.push(`upsert:${data.candle_index}`);
+      const saved = { ...data, updated_at: new Date().toISOString() };
+      this.rows.set(data.candle_index, saved);
+      return saved;
+    }
+
+    async update(sessionId: string, candleIndex: number, data: Partial<CandleData>) {
+      this.calls.push(`update:${candleIndex}`);
+      const saved = { ...this.rows.get(candleIndex)!, ...data, updated_at: new Date().toISOString() };
+      this.rows.set(candleIndex, saved);
+      return saved;
+    }
+
+    async remove(sessionId: string, candleIndex: number) {
+      this.calls.push(`delete:${candleIndex}`);
+      this.rows.delete(candleIndex);
+    }
+  }
+
+  const setup = (remote = new FakeRemote(), store = new InMemoryQueueStore(), strategy?: 'server-wins' | 'client-wins') => ({
+    remote,
+    store,
+    sync: new CandleSyncService(store, remote, { autoSync: false, ...(strategy ? { conflictStrategy: strategy } : {}) })
+  });
+
+  it('should coalesce operations on the same session and candle index', () => {
+    const op = (type: QueuedCandleOperation['type'], data?: Partial<CandleData>, baseVersion: string | null = null): QueuedCandleOperation => ({
+      id: 'session-1:0', type, sessionId: 'session-1', candleIndex: 0, data, baseVersion, createdAt: 1, updatedAt: 1, attempts: 0
+    });
+
+    expect(mergeOperations(op('insert', { close: 1 }), op('update', { close: 2 }))).toMatchObject({ type: 'insert', data: { close: 2 } });
+    expect(mergeOperations(op('update', { open: 1 }, 'v1'), op('update', { close: 2 }))).toMatchObject({
+      type: 'update',
+      data: { open: 1, close: 2 },
+      baseVersion: 'v1'
+    });
+    expect(mergeOperations(op('insert', { close: 1 }), op('delete'))).toBeNull();
+    expect(mergeOperations(op('update', { close: 1 }, 'v1'), op('delete'))).toMatchObject({ type: 'delete', data: undefined });
+  });
+
+  it('should keep queued operations across restarts and overlay them on loaded candles', async () => {
+    const { store, sync } = setup();
+    await sync.enqueue({ type: 'insert', sessionId: 'session-1', candleIndex: 2, data: candle(2, 102), baseVersion: null });
+    await sync.enqueue({ type: 'update', sessionId: 'session-1', candleIndex: 0, data: { close: 99 }, baseVersion: 'v1' });
+    await sync.enqueue({ type: 'delete', sessionId: 'session-1', candleIndex: 1, baseVersion: 'v1' });
+
+    // Новый экземпляр с тем же хранилищем — как после перезагрузки страницы
+    const { sync: restarted } = setup(new FakeRemote(), store);
+    await restarted.start();
+
+    expect(restarted.getState()).toMatchObject({ pending: 3, status: 'pending' });
+    expect(restarted.hasPending('session-1', 2)).toBe(true);
+    const merged = restarted.applyPending('session-1', [candle(0, 100), candle(1, 101)]);
+    expect(merged.map(c => [c.candle_index, c.close])).toEqual([[0, 99], [2, 102]]);
+  });
+
+  it('should replay the queue in order once the server is reachable', async () => {
+    const { remote, sync } = setup();
+    remote.rows.set(0, candle(0, 100, '2024-01-01T10:00:00.000Z'));
+    remote.offline = true;
+
+    await sync.enqueue({ type: 'insert', sessionId: 'session-1', candleIndex: 1, data: candle(1, 101), baseVersion: null });
+    await sync.enqueue({ type: 'update', sessionId: 'session-1', candleIndex: 0, data: { close: 100.5 }, baseVersion: '2024-01-01T10:00:00.000Z' });
+    await sync.sync();
+    expect(sync.getState()).toMatchObject({ status: 'offline', pending: 2 });
+
+    const synced: string[] = [];
+    sync.onSessionSynced(sessionId => synced.push(sessionId));
+    remote.offline = false;
+    await sync.sync();
+
+    expect(remote.calls).toEqual(['upsert:1', 'update:0']);
+    expect(remote.rows.get(0)?.close).toBe(100.5);
+    expect(sync.getState()).toMatchObject({ status: 'synced', pending: 0, conflicts: [] });
+    expect(synced).toEqual(['session-1']);
+  });
+
+  it('should resolve conflicts on (session_id, candle_index) by the configured strategy', async () => {
+    const later = new Date(Date.now() + 60000).toISOString();
+    const earlier = '2024-01-01T10:00:00.000Z';
+
+    // Сервер изменил свечу позже офлайн-правки — побеждает сервер
+    const lww = setup();
+    lww.remote.rows.set(0, candle(0, 105, later));
+    await lww.sync.enqueue({ type: 'update', sessionId: 'session-1', candleIndex: 0, data: { close: 99 }, baseVersion: earlier });
+    await lww.sync.sync();
+    expect(lww.remote.rows.get(0)?.close).toBe(105);
+    expect(lww.sync.getState().conflicts).toMatchObject([{ candleIndex: 0, operation: 'update', resolution: 'server' }]);
+    expect(lww.sync.getState().pending).toBe(0);
+
+    // Строка уже существует, хотя офлайн ее не было; правка новее — побеждает клиент
+    const insert = setup();
+    insert.remote.rows.set(1, candle(1, 200, earlier));
+    await insert.sync.enqueue({ type: 'insert', sessionId: 'session-1', candleIndex: 1, data: candle(1, 101), baseVersion: null });
+    await insert.sync.sync();
+    expect(insert.remote.rows.get(1)?.close).toBe(101);
+    expect(insert.sync.getState().conflicts[0].resolution).toBe('local');
+
+    const serverWins = setup(new FakeRemote(), new InMemoryQueueStore(), 'server-wins');
+    serverWins.remote.rows.set(2, candle(2, 300, earlier));
+    await serverWins.sync.enqueue({ type: 'delete', sessionId: 'session-1', candleIndex: 2, baseVersion: null });
+    await serverWins.sync.sync();
+    expect(serverWins.remote.rows.has(2)).toBe(true);
+
+    const clientWins = setup(new FakeRemote(), new InMemoryQueueStore(), 'client-wins');
+    clientWins.remote.rows.set(2, candle(2, 300, later));
+    await clientWins.sync.enqueue({ type: 'delete', sessionId: 'session-1', candleIndex: 2, baseVersion: earlier });
+    await clientWins.sync.sync();
+    expect(clientWins.remote.rows.has(2)).toBe(false);
+  });
+
+  it('should rebase an edit merged during its replay on the version just written', async () => {
+    const { remote, sync } = setup(new FakeRemote(), new InMemoryQueueStore(), 'server-wins');
+    await sync.enqueue({ type: 'insert', sessionId: 'session-1', candleIndex: 3, data: candle(3, 103), baseVersion: null });
+
+    // Правка приходит, пока вставка еще в пути
+    const upsert = remote.upsert.bind(remote);
+    remote.upsert = async data => {
+      const saved = await upsert(data);
+      if (data.close === 103) {
+        await sync.enqueue({ type: 'update', sessionId: 'session-1', candleIndex: 3, data: { close: 104 } });
+      }
+      return saved;
+    };
+
+    await sync.sync();
+    expect(sync.getPending()[0].baseVersion).toBe(remote.rows.get(3)?.updated_at);
+
+    await sync.sync();
+    expect(remote.rows.get(3)?.close).toBe(104);
+    expect(sync.getState()).toMatchObject({ status: 'synced', pending: 0, conflicts: [] });
+  });
+
+  it('should back off and stop retrying failures that are not network errors', async () => {
+    const remote = new FakeRemote();
+    remote.rows.set(0, candle(0, 100, 'v1'));
+    remote.update = async (sessionId, candleIndex) => {
+      remote.calls.push(`update:${candleIndex}`);
+      throw new Error('permission denied for table candle_data');
+    };
+
+    const backoff = new CandleSyncService(new InMemoryQueueStore(), remote, { autoSync: false, retryDelay: 60000 });
+    await backoff.enqueue({ type: 'update', sessionId: 'session-1', candleIndex: 0, data: { close: 101 }, baseVersion: 'v1' });
+    await backoff.sync();
+    await backoff.sync();
+    expect(remote.calls).toEqual(['update:0']);
+    expect(backoff.getPending()[0]).toMatchObject({ attempts: 1, lastError: 'permission denied for table candle_data' });
+
+    remote.calls = [];
+    const capped = new CandleSyncService(new InMemoryQueueStore(), remote, { autoSync: false, retryDelay: 0, maxAttempts: 2 });
+    await capped.enqueue({ type: 'update', sessionId: 'session-1', candleIndex: 0, data: { close: 101 }, baseVersion: 'v1' });
+    for (let i = 0; i < 4; i++) await capped.sync();
+    expect(remote.calls).toEqual(['update:0', 'update:0']);
+    expect(capped.getState()).toMatchObject({ status: 'error', pending: 1, lastError: 'permission denied for table candle_data' });
+
+    await capped.retryFailed();
+    expect(remote.calls).toHaveLength(3);
+  });
+});
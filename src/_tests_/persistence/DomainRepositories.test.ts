@@ -0,0 +1,124 @@
+import { createClient } from '@libsql/client';
+import { drizzle } from 'drizzle-orm/libsql';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+import * as schema from '@/db/schema';
+import { Database } from '@/db';
+import { CandleRepository } from '@/domains/candle/infrastructure/CandleRepository';
+import { candleMapper } from '@/domains/candle/infrastructure/candleMapper';
+import { SessionRepository } from '@/domains/session/infrastructure/SessionRepository';
+import { sessionMapper } from '@/domains/session/infrastructure/sessionMapper';
+import { PredictionRepository } from '@/domains/prediction/infrastructure/PredictionRepository';
+import { predictionMapper } from '@/domains/prediction/infrastructure/predictionMapper';
+import { InMemoryStorageAdapter } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { DrizzleStorageAdapter } from '@/shared/infrastructure/persistence/DrizzleStorageAdapter';
+import { SupabaseStorageAdapter } from '@/shared/infrastructure/persistence/SupabaseStorageAdapter';
+import {
+  createStorageAdapter,
+  resolvePersistenceConfig
+} from '@/shared/infrastructure/persistence/StorageFactory';
+import { CandleEntity } from '@/domains/candle/types';
+import { InfrastructureError } from '@/shared/infrastructure/ErrorHandler';
+
+describe('Domain repositories', () => {
+  const candleInput = (index: number, close: number) => ({
+    session_id: 'session-1',
+    candle_index: index,
+    timestamp: Date.UTC(2024, 0, 1, 10, index * 5),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100
+  });
+
+  const sessionInput = {
+    session_name: 'Morning',
+    pair: 'EUR/USD',
+    timeframe: '5m',
+    start_date: '2024-01-01',
+    start_time: '10:00'
+  };
+
+  it('should keep candles in the configured storage adapter', async () => {
+    const repository = new CandleRepository(new InMemoryStorageAdapter(candleMapper));
+    await repository.create(candleInput(1, 101));
+    const first = await repository.create(candleInput(0, 100));
+    await repository.create({ ...candleInput(0, 200), session_id: 'session-2' });
+
+    expect((await repository.findBySessionId('session-1')).map(c => c.index.value)).toEqual([0, 1]);
+    await expect(repository.create(candleInput(0, 105))).rejects.toThrow('already exists');
+
+    const updated = await repository.update(first.id.value, { close: 100.5, prediction_direction: 'DOWN' });
+    expect((await repository.findById(first.id.value))?.ohlcv.close.value).toBe(100.5);
+    expect(updated.prediction?.direction).toBe('DOWN');
+
+    await repository.deleteBySessionId('session-1');
+    expect(await repository.findBySessionId('session-1')).toEqual([]);
+    expect(await repository.findAll()).toHaveLength(1);
+  });
+
+  it('should round-trip entities through their table rows', async () => {
+    const sessions = new SessionRepository(new InMemoryStorageAdapter(sessionMapper));
+    const session = await sessions.create({ ...sessionInput, tags: ['scalping'] });
+    await sessions.updateSessionStats(session.id.value, { totalCandles: 3, lastPrice: 1.1 });
+
+    const stored = await sessions.findById(session.id.value);
+    expect(stored?.startDate.getTime()).toBe(new Date('2024-01-01T10:00').getTime());
+    expect(stored?.metadata.tags).toEqual(['scalping']);
+    expect(stored?.stats.lastPrice).toBe(1.1);
+    expect((await sessions.findByPair('EUR/USD')).map(s => s.id.value)).toEqual([session.id.value]);
+    await expect(sessions.create(sessionInput)).rejects.toThrow('already exists');
+
+    const candles = new CandleRepository(new InMemoryStorageAdapter(candleMapper));
+    const candle = await candles.create(candleInput(0, 100));
+    const row = candleMapper.toRow(candle);
+    expect(row.candle_datetime).toBe('2024-01-01T10:00:00.000Z');
+    expect(candleMapper.fromRow(row)).toEqual(candle);
+  });
+
+  it('should select the backend from configuration', () => {
+    expect(resolvePersistenceConfig(undefined).backend).toBe('memory');
+    expect(resolvePersistenceConfig('libsql').backend).toBe('libsql');
+    expect(resolvePersistenceConfig('mongodb').backend).toBe('memory');
+    expect(() => resolvePersistenceConfig('libsql', true)).toThrow(InfrastructureError);
+
+    expect(createStorageAdapter(candleMapper, schema.candleData, { backend: 'memory' })).toBeInstanceOf(InMemoryStorageAdapter);
+    expect(createStorageAdapter(candleMapper, schema.candleData, { backend: 'supabase' })).toBeInstanceOf(SupabaseStorageAdapter);
+    expect(createStorageAdapter(candleMapper, schema.candleData, { backend: 'libsql' })).toBeInstanceOf(DrizzleStorageAdapter);
+  });
+
+  it('should persist entities in libsql through drizzle', async () => {
+    const db: Database = drizzle(createClient({ url: ':memory:' }), { schema });
+    await migrate(db, { migrationsFolder: 'drizzle' });
+
+    const sessions = new SessionRepository(new DrizzleStorageAdapter(schema.tradingSessions, sessionMapper, () => db));
+    const candles = new CandleRepository(new DrizzleStorageAdapter(schema.candleData, candleMapper, () => db));
+    const predictions = new PredictionRepository(new DrizzleStorageAdapter(schema.predictions, predictionMapper, () => db));
+
+    const session = await sessions.create(sessionInput);
+    const input = { ...candleInput(0, 100), session_id: session.id.value };
+    const candle: CandleEntity = await candles.create(input);
+    await candles.create({ ...input, candle_index: 1 });
+    await candles.update(candle.id.value, { high: 102, prediction_direction: 'UP' });
+
+    const stored = await candles.findBySessionId(session.id.value);
+    expect(stored.map(c => c.index.value)).toEqual([0, 1]);
+    expect(stored[0].ohlcv.high.value).toBe(102);
+    expect(stored[0].prediction?.factors.trend).toBe(50);
+    expect(stored[0].metadata.validated).toBe(true);
+
+    const prediction = await predictions.generate(stored, {
+      predictionInterval: 5,
+      confidence_threshold: 0.6,
+      use_ml: false,
+      risk_level: 'low'
+    });
+    const validated = await predictions.validate(prediction.id.value, true);
+    expect(await predictions.findById(prediction.id.value)).toEqual(validated);
+
+    // Удаление сессии каскадно удаляет свечи
+    await sessions.delete(session.id.value);
+    expect(await candles.findAll()).toEqual([]);
+    expect(await sessions.findById(session.id.value)).toBeNull();
+  });
+});
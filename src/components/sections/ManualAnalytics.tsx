@@ -1,6 +1,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PieChart, TrendingUp, BarChart3, Activity } from "lucide-react";
 import { useStateManager } from "@/hooks/useStateManager";
+import VolumeProfilePanel from "@/components/ui/analytics/VolumeProfilePanel";
+import MonteCarloPanel from "@/components/ui/analytics/MonteCarloPanel";
+import CalibrationPanel from "@/components/ui/analytics/CalibrationPanel";
 
 interface ManualAnalyticsProps {
   pair: string;
@@ -225,6 +228,15 @@ export function ManualAnalytics({ pair, timeframe }: ManualAnalyticsProps) {
                 </CardContent>
               </Card>
 
+              {/* Профиль объема и TPO */}
+              <VolumeProfilePanel candles={candles} timeframe={currentSession.timeframe} />
+
+              {/* Монте-Карло устойчивость прогнозов */}
+              <MonteCarloPanel candles={candles} timeframe={currentSession.timeframe} />
+
+              {/* Калибровка вероятностей прогнозов */}
+              <CalibrationPanel pair={currentSession.pair} />
+
               {/* Анализ прогнозов */}
               {analytics && analytics.predictionsCount > 0 && (
                 <Card className="trading-card">
@@ -1,7 +1,12 @@
+import { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Target, TrendingUp, TrendingDown, AlertTriangle } from "lucide-react";
 import { useStateManager } from "@/hooks/useStateManager";
+import { usePatternStatistics } from "@/hooks/usePatternStatistics";
+import { candlestickPatternRegistry } from "@/services/patterns/CandlestickPatternRegistry";
+import { patternStatisticsService } from "@/services/patterns/PatternStatisticsService";
+import AdvancedTechnicalAnalysis from "@/components/ui/AdvancedTechnicalAnalysis";
 
 interface ManualPatternsProps {
   pair: string;
@@ -11,86 +16,31 @@ interface ManualPatternsProps {
 export function ManualPatterns({ pair, timeframe }: ManualPatternsProps) {
   const { currentSession, candles } = useStateManager();
 
-  // Простое определение паттернов на основе данных свечей
-  const detectPatterns = () => {
-    if (candles.length < 3) return [];
+  const { version: statisticsVersion } = usePatternStatistics(currentSession?.pair, currentSession?.timeframe);
 
-    const patterns = [];
-    const recentCandles = candles.slice(-10); // Последние 10 свечей
+  // Паттерны последних 10 свечей из общего реестра с учетом исторической надежности
+  const detectedPatterns = useMemo(() => {
+    if (candles.length < 3 || !currentSession) return [];
 
-    // Паттерн "Молот"
-    for (let i = 0; i < recentCandles.length; i++) {
-      const candle = recentCandles[i];
-      const bodySize = Math.abs(candle.close - candle.open);
-      const lowerShadow = Math.min(candle.open, candle.close) - candle.low;
-      const upperShadow = candle.high - Math.max(candle.open, candle.close);
-      
-      if (lowerShadow > bodySize * 2 && upperShadow < bodySize * 0.5) {
-        patterns.push({
-          name: "Молот",
-          type: "reversal",
-          reliability: 72,
-          direction: "bullish",
-          candleIndex: candle.candle_index,
-          description: "Потенциальный разворот вверх"
-        });
-      }
-    }
-
-    // Паттерн "Поглощение"
-    for (let i = 1; i < recentCandles.length; i++) {
-      const prev = recentCandles[i - 1];
-      const curr = recentCandles[i];
-      
-      if (prev.close < prev.open && curr.close > curr.open && 
-          curr.open < prev.close && curr.close > prev.open) {
-        patterns.push({
-          name: "Бычье поглощение",
-          type: "reversal", 
-          reliability: 78,
-          direction: "bullish",
-          candleIndex: curr.candle_index,
-          description: "Сильный сигнал разворота вверх"
-        });
-      }
-    }
-
-    // Паттерн "Доджи"
-    for (let i = 0; i < recentCandles.length; i++) {
-      const candle = recentCandles[i];
-      const bodySize = Math.abs(candle.close - candle.open);
-      const totalRange = candle.high - candle.low;
-      
-      if (bodySize < totalRange * 0.1) {
-        patterns.push({
-          name: "Доджи",
-          type: "indecision",
-          reliability: 65,
-          direction: "neutral",
-          candleIndex: candle.candle_index,
-          description: "Неопределенность на рынке"
-        });
-      }
-    }
-
-    return patterns;
-  };
-
-  const detectedPatterns = candles.length >= 3 ? detectPatterns() : [];
+    const matches = candlestickPatternRegistry.detectRange(candles, { startIndex: candles.length - 10 });
+    return patternStatisticsService
+      .applyReliability(matches, currentSession.pair, currentSession.timeframe)
+      .sort((a, b) => a.index - b.index);
+  }, [candles, currentSession, statisticsVersion]);
 
   const getDirectionColor = (direction: string) => {
     switch (direction) {
-      case "bullish": return "text-trading-success";
-      case "bearish": return "text-trading-danger"; 
-      case "neutral": return "text-muted-foreground";
+      case "BULLISH": return "text-trading-success";
+      case "BEARISH": return "text-trading-danger"; 
+      case "NEUTRAL": return "text-muted-foreground";
       default: return "text-foreground";
     }
   };
 
   const getDirectionIcon = (direction: string) => {
     switch (direction) {
-      case "bullish": return <TrendingUp className="h-4 w-4" />;
-      case "bearish": return <TrendingDown className="h-4 w-4" />;
+      case "BULLISH": return <TrendingUp className="h-4 w-4" />;
+      case "BEARISH": return <TrendingDown className="h-4 w-4" />;
       default: return <AlertTriangle className="h-4 w-4" />;
     }
   };
@@ -154,10 +104,10 @@ export function ManualPatterns({ pair, timeframe }: ManualPatternsProps) {
                 </div>
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {detectedPatterns.map((pattern, index) => (
-                    <div key={index} className="p-4 border border-border/50 rounded-lg space-y-3">
+                  {detectedPatterns.map((pattern) => (
+                    <div key={`${pattern.id}-${pattern.index}`} className="p-4 border border-border/50 rounded-lg space-y-3">
                       <div className="flex items-center justify-between">
-                        <h4 className="font-medium">{pattern.name}</h4>
+                        <h4 className="font-medium">{pattern.displayName}</h4>
                         <Badge variant="secondary" className="text-xs">
                           Свеча #{pattern.candleIndex}
                         </Badge>
@@ -167,24 +117,35 @@ export function ManualPatterns({ pair, timeframe }: ManualPatternsProps) {
                         <div>
                           <span className="text-muted-foreground">Тип:</span>
                           <div className="font-medium">
-                            {pattern.type === "reversal" ? "Разворот" : 
-                             pattern.type === "continuation" ? "Продолжение" : "Неопределенность"}
+                            {pattern.signal === "reversal" ? "Разворот" : 
+                             pattern.signal === "continuation" ? "Продолжение" : "Неопределенность"}
                           </div>
                         </div>
                         <div>
                           <span className="text-muted-foreground">Надежность:</span>
-                          <div className="font-medium">{pattern.reliability}%</div>
+                          <div className="font-medium">{pattern.confidence}%</div>
                         </div>
                       </div>
 
+                      {pattern.reliability && (
+                        <div className="text-xs text-muted-foreground">
+                          История {pattern.reliability.pair} {pattern.reliability.timeframe}:{" "}
+                          {pattern.reliability.hitRate !== null
+                            ? `${(pattern.reliability.hitRate * 100).toFixed(0)}% отработок`
+                            : "ненаправленный паттерн"}
+                          , ср. движение {(pattern.reliability.averageMove * 100).toFixed(3)}%
+                          , выборка {pattern.reliability.sampleSize}
+                        </div>
+                      )}
+
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
                           <span className="text-sm text-muted-foreground">Направление:</span>
                           <div className={`flex items-center gap-1 ${getDirectionColor(pattern.direction)}`}>
                             {getDirectionIcon(pattern.direction)}
                             <span className="font-medium">
-                              {pattern.direction === "bullish" ? "Восходящий" : 
-                               pattern.direction === "bearish" ? "Нисходящий" : "Нейтральный"}
+                              {pattern.direction === "BULLISH" ? "Восходящий" : 
+                               pattern.direction === "BEARISH" ? "Нисходящий" : "Нейтральный"}
                             </span>
                           </div>
                         </div>
@@ -300,6 +261,9 @@ export function ManualPatterns({ pair, timeframe }: ManualPatternsProps) {
               </div>
             </CardContent>
           </Card>
+
+          {/* Уровни, графические паттерны и события пробоя и ретеста уровней */}
+          <AdvancedTechnicalAnalysis candles={candles} pair={pair} timeframe={timeframe} />
         </>
       )}
     </div>
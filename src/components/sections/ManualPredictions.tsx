@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Brain, TrendingUp, Target, Zap } from "lucide-react";
 import { useStateManager } from "@/hooks/useStateManager";
+import SessionBasedTradingSignals from "@/components/ui/SessionBasedTradingSignals";
 
 interface ManualPredictionsProps {
   pair: string;
@@ -139,6 +140,9 @@ export function ManualPredictions({ pair, timeframe }: ManualPredictionsProps) {
             </Card>
           )}
 
+          {/* Торговые сигналы, в том числе по правилам-выражениям */}
+          <SessionBasedTradingSignals pair={pair} timeframe={timeframe} />
+
           {/* Статистика прогнозов */}
           {analytics && analytics.predictionsCount > 0 && (
             <Card className="trading-card">
@@ -2,6 +2,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PieChart, TrendingUp, BarChart3, Activity } from "lucide-react";
 import AdvancedAnalytics from "@/components/ui/AdvancedAnalytics";
 import ErrorBoundary from "@/components/ui/ErrorBoundary";
+import VolumeProfilePanel from "@/components/ui/analytics/VolumeProfilePanel";
+import { useLatestSessionCandles } from "@/hooks/useLatestSessionCandles";
 
 interface OnlineAnalyticsProps {
   pair: string;
@@ -9,6 +11,8 @@ interface OnlineAnalyticsProps {
 }
 
 export function OnlineAnalytics({ pair, timeframe }: OnlineAnalyticsProps) {
+  const { session, candles, isLoading } = useLatestSessionCandles(pair, timeframe);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -38,6 +42,19 @@ export function OnlineAnalytics({ pair, timeframe }: OnlineAnalyticsProps) {
         </CardContent>
       </Card>
 
+      {/* Профиль объема по последней сессии пары */}
+      {session ? (
+        <ErrorBoundary>
+          <VolumeProfilePanel candles={candles} timeframe={timeframe} />
+        </ErrorBoundary>
+      ) : !isLoading && (
+        <Card className="trading-card">
+          <CardContent className="p-6 text-sm text-muted-foreground text-center">
+            Нет сохраненных сессий {pair} {timeframe} для построения профиля объема
+          </CardContent>
+        </Card>
+      )}
+
       {/* Аналитические панели */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <Card className="trading-card">
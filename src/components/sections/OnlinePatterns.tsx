@@ -1,6 +1,9 @@
+import { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Target, TrendingUp, TrendingDown, AlertTriangle } from "lucide-react";
+import { usePatternStatistics } from "@/hooks/usePatternStatistics";
+import { candlestickPatternRegistry } from "@/services/patterns/CandlestickPatternRegistry";
 
 interface OnlinePatternsProps {
   pair: string;
@@ -43,12 +46,47 @@ export function OnlinePatterns({ pair, timeframe }: OnlinePatternsProps) {
     }
   ];
 
-  const candlestickPatterns = [
-    { name: "Молот", reliability: 76, direction: "bullish", candles: 1 },
-    { name: "Доджи", reliability: 65, direction: "neutral", candles: 1 },
-    { name: "Поглощение медвежье", reliability: 82, direction: "bearish", candles: 2 },
-    { name: "Утренняя звезда", reliability: 88, direction: "bullish", candles: 3 }
-  ];
+  const { stats, isLoading } = usePatternStatistics(pair, timeframe);
+
+  // Историческая надежность свечных паттернов по сохраненным сессиям
+  const candlestickPatterns = useMemo(() => {
+    const statsById = new Map(stats.map(item => [item.patternId, item]));
+
+    return candlestickPatternRegistry.getDefinitions().map(definition => {
+      const item = statsById.get(definition.id);
+      return {
+        id: definition.id,
+        name: definition.displayName,
+        signal: definition.signal,
+        direction: definition.direction.toLowerCase(),
+        candles: definition.requiredCandles,
+        reliability: item?.hitRate != null ? Math.round(item.hitRate * 100) : null,
+        sampleSize: item?.sampleSize ?? 0,
+        hits: item?.hits ?? 0,
+        averageMove: item?.averageMove ?? 0,
+        isSignificant: item?.isSignificant ?? false
+      };
+    });
+  }, [stats]);
+
+  const summarize = (signal: string) => {
+    const group = candlestickPatterns.filter(p => p.signal === signal);
+    return {
+      total: group.reduce((sum, p) => sum + p.sampleSize, 0),
+      bullish: group.filter(p => p.direction === "bullish").reduce((sum, p) => sum + p.sampleSize, 0),
+      bearish: group.filter(p => p.direction === "bearish").reduce((sum, p) => sum + p.sampleSize, 0)
+    };
+  };
+
+  const reversalSummary = summarize("reversal");
+  const continuationSummary = summarize("continuation");
+  const directional = candlestickPatterns.filter(p => p.reliability !== null);
+  const directionalSamples = directional.reduce((sum, p) => sum + p.sampleSize, 0);
+  const totalSamples = candlestickPatterns.reduce((sum, p) => sum + p.sampleSize, 0);
+  const averageReliability = directionalSamples > 0
+    ? Math.round(directional.reduce((sum, p) => sum + p.hits, 0) / directionalSamples * 100)
+    : null;
+  const strongPatterns = directional.filter(p => p.isSignificant && p.reliability! >= 60).length;
 
   const getDirectionColor = (direction: string) => {
     switch (direction) {
@@ -145,12 +183,15 @@ export function OnlinePatterns({ pair, timeframe }: OnlinePatternsProps) {
           <CardTitle className="flex items-center gap-2">
             <Target className="h-5 w-5 text-primary" />
             Свечные паттерны
+            <span className="text-sm font-normal text-muted-foreground">
+              {isLoading ? "загрузка истории..." : `история ${pair} ${timeframe}, ${totalSamples} сигналов`}
+            </span>
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {candlestickPatterns.map((pattern, index) => (
-              <div key={index} className="p-4 border border-border/50 rounded-lg space-y-2">
+            {candlestickPatterns.map((pattern) => (
+              <div key={pattern.id} className="p-4 border border-border/50 rounded-lg space-y-2">
                 <h4 className="font-medium">{pattern.name}</h4>
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">Свечей:</span>
@@ -158,7 +199,19 @@ export function OnlinePatterns({ pair, timeframe }: OnlinePatternsProps) {
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">Надежность:</span>
-                  <span className="font-bold">{pattern.reliability}%</span>
+                  <span className="font-bold">
+                    {pattern.reliability !== null ? `${pattern.reliability}%` : "—"}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Выборка:</span>
+                  <span className={`font-medium ${pattern.isSignificant ? "" : "text-muted-foreground"}`}>
+                    {pattern.sampleSize}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Ср. движение:</span>
+                  <span className="font-medium">{(pattern.averageMove * 100).toFixed(3)}%</span>
                 </div>
                 <div className={`flex items-center gap-1 ${getDirectionColor(pattern.direction)}`}>
                   {getDirectionIcon(pattern.direction)}
@@ -183,15 +236,15 @@ export function OnlinePatterns({ pair, timeframe }: OnlinePatternsProps) {
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span>Обнаружено:</span>
-                <span className="font-medium">7</span>
+                <span className="font-medium">{reversalSummary.total}</span>
               </div>
               <div className="flex justify-between">
                 <span>Восходящие:</span>
-                <span className="text-trading-success font-medium">4</span>
+                <span className="text-trading-success font-medium">{reversalSummary.bullish}</span>
               </div>
               <div className="flex justify-between">
                 <span>Нисходящие:</span>
-                <span className="text-trading-danger font-medium">3</span>
+                <span className="text-trading-danger font-medium">{reversalSummary.bearish}</span>
               </div>
             </div>
           </CardContent>
@@ -205,15 +258,15 @@ export function OnlinePatterns({ pair, timeframe }: OnlinePatternsProps) {
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span>Обнаружено:</span>
-                <span className="font-medium">5</span>
+                <span className="font-medium">{continuationSummary.total}</span>
               </div>
               <div className="flex justify-between">
                 <span>Восходящие:</span>
-                <span className="text-trading-success font-medium">3</span>
+                <span className="text-trading-success font-medium">{continuationSummary.bullish}</span>
               </div>
               <div className="flex justify-between">
                 <span>Нисходящие:</span>
-                <span className="text-trading-danger font-medium">2</span>
+                <span className="text-trading-danger font-medium">{continuationSummary.bearish}</span>
               </div>
             </div>
           </CardContent>
@@ -227,15 +280,15 @@ export function OnlinePatterns({ pair, timeframe }: OnlinePatternsProps) {
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span>Всего паттернов:</span>
-                <span className="font-medium">16</span>
+                <span className="font-medium">{totalSamples}</span>
               </div>
               <div className="flex justify-between">
                 <span>Средняя надежность:</span>
-                <span className="font-medium">78%</span>
+                <span className="font-medium">{averageReliability !== null ? `${averageReliability}%` : "—"}</span>
               </div>
               <div className="flex justify-between">
                 <span>Сильные сигналы:</span>
-                <span className="text-primary font-medium">6</span>
+                <span className="text-primary font-medium">{strongPatterns}</span>
               </div>
             </div>
           </CardContent>
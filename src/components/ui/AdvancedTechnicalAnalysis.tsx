@@ -13,6 +13,8 @@ import {
   VolumeProfile,
   MarketStructure
 } from '@/types/trading';
+import { chartPatternService, ChartPattern } from '@/services/patterns/ChartPatternService';
+import { LevelEvent, supportResistanceService } from '@/services/patterns/SupportResistanceService';
 
 interface AdvancedTechnicalAnalysisProps {
   candles: CandleData[];
@@ -258,7 +260,12 @@ const AdvancedTechnicalAnalysis = ({ candles, pair, timeframe }: AdvancedTechnic
   const [indicators, setIndicators] = useState<TechnicalIndicator[]>([]);
   const [patterns, setPatterns] = useState<PatternDetection[]>([]);
   const [supportResistance, setSupportResistance] = useState<SupportResistanceLevel[]>([]);
+  const [chartPatterns, setChartPatterns] = useState<ChartPattern[]>([]);
+  const [marketStructure, setMarketStructure] = useState<MarketStructure | null>(null);
+  const [levelEvents, setLevelEvents] = useState<LevelEvent[]>([]);
   const [chartData, setChartData] = useState<any[]>([]);
+  // Пробои и ретесты уровней отслеживаются отдельно для каждой сессии
+  const levelKey = candles[0]?.session_id || `${pair}:${timeframe}`;
 
   // Вычисление всех технических индикаторов
   const technicalData = useMemo(() => {
@@ -340,6 +347,32 @@ const AdvancedTechnicalAnalysis = ({ candles, pair, timeframe }: AdvancedTechnic
     setPatterns(detectedPatterns.slice(-10)); // Последние 10 паттернов
   }, [candles]);
 
+  // События уровней приходят из process() на новых свечах
+  useEffect(() => {
+    setLevelEvents([]);
+    return supportResistanceService.subscribe((event, key) => {
+      if (key === levelKey) {
+        setLevelEvents(prev => [event, ...prev].slice(0, 5));
+      }
+    });
+  }, [levelKey]);
+
+  // Графические паттерны по точкам разворота
+  useEffect(() => {
+    if (candles.length < 50) return;
+
+    const analysis = chartPatternService.analyze(candles);
+    setChartPatterns(analysis.patterns.slice(-5).reverse());
+    setMarketStructure(analysis.marketStructure);
+    // Четыре самых сильных уровня, сверху вниз по цене
+    setSupportResistance(
+      [...supportResistanceService.process(levelKey, candles).levels]
+        .sort((a, b) => b.strength - a.strength)
+        .slice(0, 4)
+        .sort((a, b) => b.level - a.level)
+    );
+  }, [candles, levelKey]);
+
   // Создание технических индикаторов для отображения
   useEffect(() => {
     if (!technicalData) return;
@@ -400,6 +433,22 @@ const AdvancedTechnicalAnalysis = ({ candles, pair, timeframe }: AdvancedTechnic
     }
   };
 
+  const getTrendColor = (trend: MarketStructure['trend']) => {
+    switch (trend) {
+      case 'UPTREND': return 'text-green-400';
+      case 'DOWNTREND': return 'text-red-400';
+      default: return 'text-yellow-400';
+    }
+  };
+
+  const getStatusColor = (status: ChartPattern['status']) => {
+    switch (status) {
+      case 'confirmed': return 'bg-green-600';
+      case 'invalidated': return 'bg-red-600';
+      default: return 'bg-slate-600';
+    }
+  };
+
   if (candles.length < 50) {
     return (
       <Card className="p-6 bg-slate-800/50 border-slate-700">
@@ -681,6 +730,99 @@ const AdvancedTechnicalAnalysis = ({ candles, pair, timeframe }: AdvancedTechnic
               </div>
             )}
           </Card>
+
+          <Card className="p-6 mt-6 bg-slate-800/50 border-slate-700">
+            <h3 className="text-lg font-semibold text-white mb-4">Chart Patterns</h3>
+
+            {marketStructure && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="border border-slate-600 rounded-lg p-4 bg-slate-700/30">
+                  <div className="text-slate-400 text-sm">Market Structure</div>
+                  <div className={`text-lg font-medium ${getTrendColor(marketStructure.trend)}`}>
+                    {marketStructure.trend}
+                  </div>
+                  <div className="text-slate-300 text-xs">
+                    Strength {(marketStructure.strength * 100).toFixed(0)}%
+                  </div>
+                </div>
+                <div className="border border-slate-600 rounded-lg p-4 bg-slate-700/30">
+                  <div className="text-slate-400 text-sm">Breakout Level</div>
+                  <div className="text-lg font-medium text-white">
+                    {marketStructure.breakoutLevel?.toFixed(5) ?? '—'}
+                  </div>
+                  <div className="text-slate-300 text-xs">
+                    Target {marketStructure.target?.toFixed(5) ?? '—'}
+                  </div>
+                </div>
+                <div className="border border-slate-600 rounded-lg p-4 bg-slate-700/30">
+                  <div className="text-slate-400 text-sm mb-1">Key Levels</div>
+                  {supportResistance.length > 0 ? (
+                    supportResistance.map((level, index) => (
+                      <div key={index} className="flex items-center justify-between text-xs">
+                        <span className={level.type === 'resistance' ? 'text-red-400' : 'text-green-400'}>
+                          {level.type}
+                        </span>
+                        <span className="text-white">{level.level.toFixed(5)}</span>
+                        <span className="text-slate-400">{(level.strength * 100).toFixed(0)}%</span>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-slate-300 text-xs">—</div>
+                  )}
+                  {levelEvents.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-slate-600 space-y-1">
+                      {levelEvents.map(event => (
+                        <div key={`${event.levelId}-${event.type}-${event.candleIndex}`} className="flex items-center justify-between text-xs">
+                          <span className={event.direction === 'up' ? 'text-green-400' : 'text-red-400'}>
+                            {event.type} {event.direction}
+                          </span>
+                          <span className="text-white">{event.level.toFixed(5)}</span>
+                          <span className="text-slate-400">#{event.candleIndex}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {chartPatterns.length > 0 ? (
+              <div className="space-y-4">
+                {chartPatterns.map((pattern, index) => (
+                  <div key={index} className="border border-slate-600 rounded-lg p-4 bg-slate-700/30">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center space-x-3">
+                        <TrendingUp className="h-4 w-4 text-blue-400" />
+                        <span className="text-white font-medium">{pattern.name}</span>
+                        <Badge className={`${getPatternColor(pattern.signal)} text-white`}>
+                          {pattern.signal}
+                        </Badge>
+                        <Badge className={`${getStatusColor(pattern.status)} text-white`}>
+                          {pattern.status}
+                        </Badge>
+                      </div>
+
+                      <div className="text-right text-slate-400 text-sm">
+                        Candles #{candles[pattern.startIndex]?.candle_index}–#{candles[pattern.endIndex]?.candle_index}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between text-sm">
+                      <span className={pattern.direction === 'BULLISH' ? 'text-green-400' : 'text-red-400'}>
+                        {pattern.direction}
+                      </span>
+                      <span className="text-slate-300">
+                        Breakout {pattern.breakoutLevel.toFixed(5)} → Target {pattern.target.toFixed(5)}
+                      </span>
+                      <span className="text-white">{(pattern.confidence * 100).toFixed(0)}%</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-slate-400 text-center py-4">No chart patterns formed on the swing points.</p>
+            )}
+          </Card>
         </TabsContent>
 
         <TabsContent value="volume">
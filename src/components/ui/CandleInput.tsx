@@ -12,6 +12,7 @@ import CandleInputValidation from './candle-input/CandleInputValidation';
 import { CandleInputActions } from './candle-input/CandleInputActions';
 import { CandleInputStats } from './candle-input/CandleInputStats';
 import { useCandleInputLogic } from '@/hooks/candle/useCandleInputLogic';
+import { useCandleSync } from '@/hooks/useCandleSync';
 
 interface CandleInputProps {
   currentSession: TradingSession;
@@ -29,6 +30,7 @@ const CandleInput = memo(({
   const { saveCandle, deleteLastCandle } = useStateManager();
   const { startMeasurement, endMeasurement } = usePerformance('CandleInput');
   const { safeExecute } = useErrorHandler();
+  const { syncNow, clearConflicts, ...syncState } = useCandleSync();
   
   const nextCandleIndex = useMemo(
     () => Math.max(currentSession.current_candle_index + 1, candles.length),
@@ -82,6 +84,9 @@ const CandleInput = memo(({
         nextCandleIndex={nextCandleIndex}
         pair={pair}
         nextCandleTime={nextCandleTime}
+        syncState={syncState}
+        onSync={syncNow}
+        onClearConflicts={clearConflicts}
       />
 
       <CandleInputForm
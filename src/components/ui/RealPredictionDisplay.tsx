@@ -28,7 +28,8 @@ const RealPredictionDisplay = ({ pair, timeframe }: RealPredictionDisplayProps)
 
     const predictionConfig = {
       predictionInterval: parseInt(timeframe.replace(/[^0-9]/g, '')) || 5,
-      analysisMode: 'session' as const
+      analysisMode: 'session' as const,
+      pair: state.currentSession.pair
     };
 
     const allCandles = [...state.candles].sort((a, b) => a.candle_index - b.candle_index);
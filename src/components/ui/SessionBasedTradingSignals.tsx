@@ -6,6 +6,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { TrendingUp, TrendingDown, AlertTriangle, Clock, Activity, BarChart3 } from "lucide-react";
 import { useNewApplicationState } from "@/hooks/useNewApplicationState";
 import { useSignalGeneration } from "@/hooks/useSignalGeneration";
+import { useSignalRules } from "@/hooks/useSignalRules";
+import SignalRulesEditor from "@/components/ui/SignalRulesEditor";
 
 interface SessionBasedTradingSignalsProps {
   pair: string;
@@ -14,7 +16,8 @@ interface SessionBasedTradingSignalsProps {
 
 const SessionBasedTradingSignals = ({ pair, timeframe }: SessionBasedTradingSignalsProps) => {
   const { currentSession, candles } = useNewApplicationState();
-  const { signals, overallSentiment, confidence } = useSignalGeneration(pair, timeframe);
+  const { rules, addRule, removeRule } = useSignalRules();
+  const { signals, overallSentiment, confidence } = useSignalGeneration(pair, timeframe, rules);
 
   if (!currentSession) {
     return (
@@ -189,6 +192,9 @@ const SessionBasedTradingSignals = ({ pair, timeframe }: SessionBasedTradingSign
         )}
       </Card>
 
+      {/* Expression Signal Rules */}
+      <SignalRulesEditor rules={rules} onAdd={addRule} onRemove={removeRule} />
+
       {/* Session-Based Trading Tips */}
       <Card className="p-6 bg-slate-800/50 border-slate-700">
         <h3 className="text-lg font-semibold text-white mb-4">
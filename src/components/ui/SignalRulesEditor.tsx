@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { ExpressionSignalRule } from "@/services/indicators/expression/signal-source";
+
+interface SignalRulesEditorProps {
+  rules: ExpressionSignalRule[];
+  onAdd: (rule: Omit<ExpressionSignalRule, 'id'>) => string | null;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Editor of the user's expression rules for live CALL/PUT signals
+ */
+const SignalRulesEditor = ({ rules, onAdd, onRemove }: SignalRulesEditorProps) => {
+  const [name, setName] = useState("");
+  const [condition, setCondition] = useState("");
+  const [direction, setDirection] = useState<'CALL' | 'PUT'>('CALL');
+  const [expiry, setExpiry] = useState(5);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!condition.trim()) return;
+    const message = onAdd({ name: name.trim() || condition.trim(), condition: condition.trim(), direction, expiry });
+    setError(message);
+    if (!message) {
+      setName("");
+      setCondition("");
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800/50 border-slate-700">
+      <h3 className="text-lg font-semibold text-white mb-4">Правила сигналов</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2 mb-2">
+        <Input
+          className="md:col-span-1"
+          placeholder="Название"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          className="md:col-span-3"
+          placeholder="RSI(14) crosses above 30"
+          value={condition}
+          onChange={(e) => setCondition(e.target.value)}
+        />
+        <Select value={direction} onValueChange={(value) => setDirection(value as 'CALL' | 'PUT')}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="CALL">CALL</SelectItem>
+            <SelectItem value="PUT">PUT</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex space-x-2">
+          <Input
+            type="number"
+            min={1}
+            value={expiry}
+            onChange={(e) => setExpiry(Math.max(1, Number(e.target.value) || 1))}
+            title="Экспирация, мин"
+          />
+          <Button size="icon" onClick={handleAdd} disabled={!condition.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+      {rules.length === 0 ? (
+        <p className="text-slate-400 text-sm">
+          Добавьте условие на языке выражений индикаторов, чтобы получать сигнал, когда оно выполняется.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between border border-slate-600 rounded-lg p-3">
+              <div className="flex items-center space-x-3">
+                <Badge className={`${rule.direction === 'CALL' ? 'bg-green-600' : 'bg-red-600'} text-white`}>
+                  {rule.direction}
+                </Badge>
+                <div>
+                  <p className="text-white text-sm font-medium">{rule.name}</p>
+                  <p className="text-slate-400 text-xs font-mono">{rule.condition}</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-slate-400 text-sm">{rule.expiry} мин</span>
+                <Button size="icon" variant="ghost" onClick={() => onRemove(rule.id)}>
+                  <Trash2 className="h-4 w-4 text-slate-400" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SignalRulesEditor;
@@ -0,0 +1,109 @@
+import { memo, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Target, RefreshCw } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { usePredictionCalibration } from '@/hooks/usePredictionCalibration';
+
+interface CalibrationPanelProps {
+  pair: string;
+}
+
+/**
+ * Reliability diagram of stored predictions before and after recalibration
+ */
+const CalibrationPanel = memo(({ pair }: CalibrationPanelProps) => {
+  const { calibration, isLoading, error, refresh } = usePredictionCalibration(pair);
+
+  const diagram = useMemo(() => {
+    if (!calibration) return [];
+    return calibration.before.bins.map((bin, i) => {
+      const after = calibration.after.bins[i];
+      return {
+        bin: `${Math.round(bin.lower * 100)}–${Math.round(bin.upper * 100)}%`,
+        ideal: ((bin.lower + bin.upper) / 2) * 100,
+        before: bin.count > 0 ? bin.observedRate * 100 : null,
+        after: after.count > 0 ? after.observedRate * 100 : null
+      };
+    });
+  }, [calibration]);
+
+  return (
+    <Card className="trading-card">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            Калибровка вероятностей
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {calibration && (
+              <Badge variant="outline">
+                {calibration.calibrator.method === 'platt' ? 'Platt' : 'Isotonic'}
+                {calibration.pair !== pair && ' • все пары'}
+              </Badge>
+            )}
+            <Button size="sm" variant="outline" onClick={refresh} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-500 text-center py-6">{error}</p>
+        ) : !calibration ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {isLoading ? 'Загрузка прогнозов...' : 'Недостаточно завершенных прогнозов для калибровки'}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Прогнозов</div>
+                <div className="font-medium">{calibration.before.sampleSize}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Brier score</div>
+                <div className="font-medium">
+                  {calibration.before.brierScore.toFixed(4)} → {calibration.after.brierScore.toFixed(4)}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">ECE</div>
+                <div className="font-medium">
+                  {(calibration.before.expectedCalibrationError * 100).toFixed(1)}% → {(calibration.after.expectedCalibrationError * 100).toFixed(1)}%
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Макс. отклонение</div>
+                <div className="font-medium">
+                  {(calibration.before.maxCalibrationError * 100).toFixed(1)}% → {(calibration.after.maxCalibrationError * 100).toFixed(1)}%
+                </div>
+              </div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={diagram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="bin" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} domain={[0, 100]} unit="%" />
+                  <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                  <Line type="linear" dataKey="ideal" name="Идеально" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" dot={false} />
+                  <Line type="linear" dataKey="before" name="До калибровки" stroke="hsl(var(--chart-3))" connectNulls />
+                  <Line type="linear" dataKey="after" name="После калибровки" stroke="hsl(var(--chart-1))" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+CalibrationPanel.displayName = 'CalibrationPanel';
+
+export default CalibrationPanel;
@@ -0,0 +1,159 @@
+import { memo, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dices } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { CandleData } from '@/types/session';
+import { parseTimeframe } from '@/utils/dateTimeUtils';
+import { binaryOptionBacktestService, BinaryOptionSignal } from '@/services/backtesting/BinaryOptionBacktestService';
+import { monteCarloService, MonteCarloMethod } from '@/services/backtesting/MonteCarloService';
+
+interface MonteCarloPanelProps {
+  candles: CandleData[];
+  timeframe: string;
+  initialCapital?: number;
+}
+
+const METHODS: Array<{ id: MonteCarloMethod; label: string }> = [
+  { id: 'reshuffle', label: 'Перестановка' },
+  { id: 'bootstrap', label: 'Бутстрэп' },
+  { id: 'skip', label: 'Пропуск сделок' }
+];
+
+const STAKES = [0.01, 0.02, 0.05, 0.1];
+
+const SIMULATIONS = 500;
+
+/**
+ * Monte Carlo robustness of the session's stored predictions, settled as binary options
+ */
+const MonteCarloPanel = memo(({ candles, timeframe, initialCapital = 10000 }: MonteCarloPanelProps) => {
+  const [method, setMethod] = useState<MonteCarloMethod>('reshuffle');
+  const [stake, setStake] = useState(STAKES[1]);
+
+  const trades = useMemo(() => {
+    const sorted = [...candles].sort((a, b) => a.candle_index - b.candle_index);
+    const interval = parseTimeframe(timeframe);
+    const signals: BinaryOptionSignal[] = sorted.flatMap((candle, index) =>
+      candle.prediction_direction === 'UP' || candle.prediction_direction === 'DOWN'
+        ? [{ index, direction: candle.prediction_direction, interval, probability: candle.prediction_probability, confidence: candle.prediction_confidence }]
+        : []
+    );
+    return binaryOptionBacktestService
+      .runBacktest(sorted, signals, { initialCapital })
+      .trades.map(trade => ({ pnl: trade.pnl, pnlPercent: trade.pnl / trade.stake }));
+  }, [candles, timeframe, initialCapital]);
+
+  const result = useMemo(
+    () => (trades.length > 0
+      ? monteCarloService.analyze(trades, { methods: [method], stake, initialCapital, simulations: SIMULATIONS })
+      : null),
+    [trades, method, stake, initialCapital]
+  );
+
+  const ruinByStake = useMemo(
+    () => (trades.length > 0 ? monteCarloService.riskOfRuin(trades, STAKES, { initialCapital, simulations: SIMULATIONS }) : []),
+    [trades, initialCapital]
+  );
+
+  const summary = result?.methods[0];
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <Card className="trading-card">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Dices className="h-5 w-5 text-primary" />
+            Монте-Карло устойчивость
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            {METHODS.map(({ id, label }) => (
+              <Button key={id} size="sm" variant={method === id ? 'default' : 'outline'} onClick={() => setMethod(id)}>
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          Ставка:
+          {STAKES.map(size => (
+            <Button key={size} size="sm" variant={stake === size ? 'default' : 'outline'} onClick={() => setStake(size)}>
+              {percent(size)}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!result || !summary ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Нет завершенных прогнозов для моделирования</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Итоговый капитал (90%)</div>
+                <div className="font-medium">
+                  {summary.finalEquity.lower.toFixed(0)} – {summary.finalEquity.upper.toFixed(0)}
+                </div>
+                <div className="text-xs text-muted-foreground">медиана {summary.finalEquity.median.toFixed(0)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Макс. просадка (90%)</div>
+                <div className="font-medium">
+                  {percent(summary.maxDrawdown.lower)} – {percent(summary.maxDrawdown.upper)}
+                </div>
+                <div className="text-xs text-muted-foreground">история {percent(result.original.maxDrawdown)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Серия убытков (90%)</div>
+                <div className="font-medium">
+                  {summary.maxLosingStreak.lower.toFixed(0)} – {summary.maxLosingStreak.upper.toFixed(0)}
+                </div>
+                <div className="text-xs text-muted-foreground">история {result.original.maxLosingStreak}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Риск разорения</div>
+                <div className={`font-medium ${summary.riskOfRuin > 0.05 ? 'text-red-500' : 'text-green-500'}`}>
+                  {percent(summary.riskOfRuin)}
+                </div>
+                <div className="text-xs text-muted-foreground">{trades.length} сделок, {SIMULATIONS} симуляций</div>
+              </div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={summary.equityBands}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="trade" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} domain={['auto', 'auto']} />
+                  <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                  <Line type="monotone" dataKey="upper" name="Верхняя граница" stroke="hsl(var(--chart-2))" strokeDasharray="4 4" dot={false} />
+                  <Line type="monotone" dataKey="upperQuartile" name="75%" stroke="hsl(var(--chart-2))" dot={false} />
+                  <Line type="monotone" dataKey="median" name="Медиана" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="lowerQuartile" name="25%" stroke="hsl(var(--chart-3))" dot={false} />
+                  <Line type="monotone" dataKey="lower" name="Нижняя граница" stroke="hsl(var(--chart-3))" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="text-muted-foreground">Риск разорения по размеру ставки</div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {ruinByStake.map(row => (
+                  <div key={row.stake} className="flex justify-between rounded border border-border px-2 py-1">
+                    <span>{percent(row.stake)}</span>
+                    <span className="font-medium">{percent(row.riskOfRuin)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+MonteCarloPanel.displayName = 'MonteCarloPanel';
+
+export default MonteCarloPanel;
@@ -0,0 +1,134 @@
+import { memo, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BarChart3 } from 'lucide-react';
+import { CandleData } from '@/types/session';
+import { volumeProfileService, tpoPeriodForTimeframe } from '@/services/analytics/VolumeProfileService';
+
+interface VolumeProfilePanelProps {
+  candles: CandleData[];
+  timeframe: string;
+}
+
+type ProfileMode = 'session' | 'rolling';
+
+const ROLLING_WINDOWS = [50, 100, 200];
+
+/**
+ * Volume profile and TPO profile of a session or of its last N candles
+ */
+const VolumeProfilePanel = memo(({ candles, timeframe }: VolumeProfilePanelProps) => {
+  const [mode, setMode] = useState<ProfileMode>('session');
+  const [window, setWindow] = useState(ROLLING_WINDOWS[1]);
+
+  const profile = useMemo(() => {
+    const sorted = [...candles].sort((a, b) => a.candle_index - b.candle_index);
+    const config = { tpoPeriod: tpoPeriodForTimeframe(timeframe) };
+    return mode === 'session'
+      ? volumeProfileService.buildProfile(sorted, config)
+      : volumeProfileService.rollingProfile(sorted, window, sorted.length - 1, config);
+  }, [candles, timeframe, mode, window]);
+
+  const maxVolume = profile ? Math.max(...profile.buckets.map(b => b.volume)) : 0;
+  const isNode = (nodes: number[], price: number) => nodes.some(node => Math.abs(node - price) < 1e-12);
+
+  return (
+    <Card className="trading-card">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-primary" />
+            Профиль объема
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant={mode === 'session' ? 'default' : 'outline'} onClick={() => setMode('session')}>
+              Сессия
+            </Button>
+            {ROLLING_WINDOWS.map(size => (
+              <Button
+                key={size}
+                size="sm"
+                variant={mode === 'rolling' && window === size ? 'default' : 'outline'}
+                onClick={() => {
+                  setMode('rolling');
+                  setWindow(size);
+                }}
+              >
+                {size} свечей
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!profile ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Нет свечей для построения профиля</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">POC</div>
+                <div className="font-medium">{profile.poc.toFixed(5)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">VAH</div>
+                <div className="font-medium">{profile.valueAreaHigh.toFixed(5)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">VAL</div>
+                <div className="font-medium">{profile.valueAreaLow.toFixed(5)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">TPO POC</div>
+                <div className="font-medium">{profile.tpo.poc.toFixed(5)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Initial Balance</div>
+                <div className="font-medium">
+                  {profile.tpo.initialBalanceLow.toFixed(5)} – {profile.tpo.initialBalanceHigh.toFixed(5)}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {[...profile.buckets].reverse().map(bucket => {
+                const isPoc = Math.abs(bucket.price - profile.poc) < 1e-12;
+                return (
+                  <div key={bucket.price} className="flex items-center gap-2 text-xs">
+                    <span className="w-20 text-right text-muted-foreground">{bucket.price.toFixed(5)}</span>
+                    <div className="flex-1 h-3 bg-muted/20 rounded">
+                      <div
+                        className={`h-3 rounded ${
+                          isPoc ? 'bg-trading-warning' : bucket.inValueArea ? 'bg-primary' : 'bg-muted-foreground/40'
+                        }`}
+                        style={{ width: `${maxVolume > 0 ? (bucket.volume / maxVolume) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="w-12 text-right">{bucket.percentage.toFixed(1)}%</span>
+                    <span className="w-10">
+                      {isNode(profile.highVolumeNodes, bucket.price) && <Badge variant="outline">HVN</Badge>}
+                      {isNode(profile.lowVolumeNodes, bucket.price) && <Badge variant="outline">LVN</Badge>}
+                    </span>
+                    <span className="w-40 font-mono truncate text-muted-foreground" title={bucket.tpoLetters}>
+                      {bucket.tpoLetters}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Свечи #{profile.startIndex}–#{profile.endIndex} • {profile.tpo.periods} TPO-периодов •
+              Value Area {Math.round(((profile.valueAreaHigh - profile.valueAreaLow) / (profile.bucketSize * profile.buckets.length || 1)) * 100)}% диапазона
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+VolumeProfilePanel.displayName = 'VolumeProfilePanel';
+
+export default VolumeProfilePanel;
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { TradingSession, CandleData } from '@/types/session';
+import { ImportRowStatus } from '@/services/import/CandleImportService';
+import { CandleImportFormat, ColumnMapping } from '@/services/import/candleImportParsers';
+import { useCandleImport } from '@/hooks/candle/useCandleImport';
+import { formatCandleDateTime } from '@/utils/dateTimeUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface CandleImportDialogProps {
+  session: TradingSession | null;
+  candles: CandleData[];
+  children: React.ReactNode;
+}
+
+const FORMAT_LABELS: Record<CandleImportFormat | 'auto', string> = {
+  auto: 'Определить автоматически',
+  csv: 'CSV',
+  mt4: 'MetaTrader 4',
+  mt5: 'MetaTrader 5',
+  tradingview: 'TradingView'
+};
+
+const STATUS_VIEW: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'Новая', className: 'bg-emerald-600/20 text-emerald-300 border-emerald-600/50' },
+  overwrite: { label: 'Перезапись', className: 'bg-amber-600/20 text-amber-300 border-amber-600/50' },
+  unchanged: { label: 'Без изменений', className: 'bg-slate-600/30 text-slate-300 border-slate-500/50' },
+  duplicate: { label: 'Дубликат', className: 'bg-slate-600/30 text-slate-300 border-slate-500/50' },
+  invalid: { label: 'Ошибка', className: 'bg-red-600/20 text-red-300 border-red-600/50' }
+};
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: 'datetime', label: 'Дата и время' },
+  { key: 'date', label: 'Дата' },
+  { key: 'time', label: 'Время' },
+  { key: 'open', label: 'Open' },
+  { key: 'high', label: 'High' },
+  { key: 'low', label: 'Low' },
+  { key: 'close', label: 'Close' },
+  { key: 'volume', label: 'Объем' }
+];
+
+const PREVIEW_ROWS = 100;
+const PREVIEW_GAPS = 10;
+const NONE = '__none__';
+
+export const CandleImportDialog = ({ session, candles, children }: CandleImportDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+  const {
+    fileName,
+    preview,
+    settings,
+    candlesToImport,
+    isImporting,
+    loadFile,
+    updateSettings,
+    confirmImport,
+    reset
+  } = useCandleImport(session, candles);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) await loadFile(file);
+    event.target.value = '';
+  };
+
+  const handleMappingChange = (key: keyof ColumnMapping, column: string) => {
+    if (!preview) return;
+    updateSettings({
+      mapping: { ...preview.mapping, [key]: column === NONE ? undefined : column }
+    });
+  };
+
+  const handleConfirm = async () => {
+    try {
+      const saved = await confirmImport();
+      toast({
+        title: "Успех",
+        description: `Импортировано свечей: ${saved.length}`
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось импортировать свечи",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Импорт свечей
+          </DialogTitle>
+          <DialogDescription>
+            CSV, история MetaTrader 4/5 или выгрузка графика TradingView. Перед записью проверьте предпросмотр
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="candle-import-file">Файл</Label>
+              <Input
+                id="candle-import-file"
+                type="file"
+                accept=".csv,.txt,.tsv"
+                onChange={handleFile}
+                className="cursor-pointer"
+              />
+              {fileName && <div className="text-xs text-muted-foreground truncate">{fileName}</div>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Формат</Label>
+              <Select
+                value={settings.format ?? 'auto'}
+                onValueChange={value => updateSettings({
+                  format: value === 'auto' ? undefined : value as CandleImportFormat,
+                  mapping: undefined
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="candle-import-timezone">Часовой пояс файла</Label>
+              <Input
+                id="candle-import-timezone"
+                value={settings.timeZone}
+                onChange={event => updateSettings({ timeZone: event.target.value })}
+                placeholder="UTC, +03:00, Europe/Moscow"
+              />
+              <div className="text-xs text-muted-foreground">
+                MetaTrader пишет время сервера брокера; unix-время и ISO со смещением пояс не учитывают
+              </div>
+            </div>
+          </div>
+
+          {preview?.format === 'csv' && preview.headers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Сопоставление колонок</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {MAPPING_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <div className="text-xs text-muted-foreground">{label}</div>
+                    <Select
+                      value={preview.mapping[key] ?? NONE}
+                      onValueChange={value => handleMappingChange(key, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>—</SelectItem>
+                        {preview.headers.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <>
+              {[...preview.errors, ...preview.warnings].length > 0 && (
+                <div className="space-y-1">
+                  {preview.errors.map(message => (
+                    <div key={message} className="flex items-center gap-2 text-sm text-red-400">
+                      <AlertTriangle className="h-4 w-4" />
+                      {message}
+                    </div>
+                  ))}
+                  {preview.warnings.map(message => (
+                    <div key={message} className="flex items-center gap-2 text-sm text-amber-400">
+                      <AlertTriangle className="h-4 w-4" />
+                      {message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">{FORMAT_LABELS[preview.format]}</Badge>
+                <Badge variant="outline">Строк: {preview.summary.total}</Badge>
+                {(['new', 'overwrite', 'unchanged', 'duplicate', 'invalid'] as const).map(status =>
+                  preview.summary[status] > 0 && (
+                    <Badge key={status} variant="outline" className={STATUS_VIEW[status].className}>
+                      {STATUS_VIEW[status].label}: {preview.summary[status]}
+                    </Badge>
+                  )
+                )}
+                {preview.summary.withWarnings > 0 && (
+                  <Badge variant="outline" className="bg-amber-600/20 text-amber-300 border-amber-600/50">
+                    С предупреждениями: {preview.summary.withWarnings}
+                  </Badge>
+                )}
+                {preview.range && (
+                  <span className="text-xs text-muted-foreground">
+                    {formatCandleDateTime(preview.range.from)} — {formatCandleDateTime(preview.range.to)} UTC
+                  </span>
+                )}
+              </div>
+
+              {preview.gaps.length > 0 && (
+                <div className="text-sm text-muted-foreground p-3 bg-muted/30 rounded-md space-y-1">
+                  <div className="font-medium">Пропуски: {preview.gaps.length}</div>
+                  {preview.gaps.slice(0, PREVIEW_GAPS).map(gap => (
+                    <div key={gap.fromIndex} className="text-xs">
+                      После #{gap.fromIndex} ({formatCandleDateTime(gap.from)}) не хватает свечей: {gap.missing}
+                    </div>
+                  ))}
+                  {preview.gaps.length > PREVIEW_GAPS && (
+                    <div className="text-xs">и еще {preview.gaps.length - PREVIEW_GAPS}</div>
+                  )}
+                </div>
+              )}
+
+              <div className="border rounded-md max-h-[320px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Строка</TableHead>
+                      <TableHead>#</TableHead>
+                      <TableHead>Время (UTC)</TableHead>
+                      <TableHead>O / H / L / C</TableHead>
+                      <TableHead>Объем</TableHead>
+                      <TableHead>Статус</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map(row => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-xs">{row.line}</TableCell>
+                        <TableCell className="text-xs">{row.candle?.candle_index ?? '—'}</TableCell>
+                        <TableCell className="text-xs font-mono">
+                          {row.candle ? formatCandleDateTime(row.candle.candle_datetime) : '—'}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono">
+                          {row.candle ? `${row.candle.open} / ${row.candle.high} / ${row.candle.low} / ${row.candle.close}` : '—'}
+                        </TableCell>
+                        <TableCell className="text-xs">{row.candle?.volume ?? '—'}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={STATUS_VIEW[row.status].className}
+                            title={[...row.errors, ...row.warnings].join('\n') || undefined}
+                          >
+                            {STATUS_VIEW[row.status].label}
+                            {row.warnings.length > 0 && <AlertTriangle className="h-3 w-3 ml-1" />}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.rows.length > PREVIEW_ROWS && (
+                <div className="text-xs text-muted-foreground">
+                  Показаны первые {PREVIEW_ROWS} строк из {preview.rows.length}
+                </div>
+              )}
+
+              {preview.summary.overwrite > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="candle-import-overwrite"
+                    checked={settings.overwriteExisting}
+                    onCheckedChange={checked => updateSettings({ overwriteExisting: checked === true })}
+                  />
+                  <Label htmlFor="candle-import-overwrite" className="text-sm">
+                    Перезаписать сохраненные свечи с другими ценами ({preview.summary.overwrite})
+                  </Label>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!session || candlesToImport.length === 0 || isImporting}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {isImporting ? 'Импорт...' : `Импортировать ${candlesToImport.length}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
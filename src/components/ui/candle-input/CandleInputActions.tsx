@@ -23,6 +23,7 @@ import {
 import { useTradingStore } from '@/store/TradingStore';
 import { useCandleActions } from '@/hooks/store/useCandleActions';
 import { useToast } from '@/hooks/use-toast';
+import { CandleImportDialog } from './CandleImportDialog';
 
 export const CandleInputActions: React.FC = () => {
   const { state } = useTradingStore();
@@ -193,6 +194,19 @@ export const CandleInputActions: React.FC = () => {
         Экспорт
       </Button>
 
+      {/* Импорт из CSV, MetaTrader и TradingView */}
+      <CandleImportDialog session={state.currentSession} candles={state.candles}>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!state.currentSession}
+          className="bg-background/50"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          Импорт
+        </Button>
+      </CandleImportDialog>
+
       {/* История изменений */}
       <Button
         variant="outline"
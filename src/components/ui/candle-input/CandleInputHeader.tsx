@@ -1,20 +1,75 @@
 
 import { Badge } from '@/components/ui/badge';
-import { Calendar } from 'lucide-react';
+import { AlertTriangle, Calendar, Cloud, CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
 import { TradingSession } from '@/types/session';
+import { CandleSyncState } from '@/services/offline/CandleSyncService';
 
 interface CandleInputHeaderProps {
   currentSession: TradingSession;
   nextCandleIndex: number;
   pair: string;
   nextCandleTime?: string;
+  syncState?: CandleSyncState;
+  onSync?: () => void;
+  onClearConflicts?: () => void;
 }
 
+interface SyncBadgeProps {
+  syncState: CandleSyncState;
+  onSync?: () => void;
+  onClearConflicts?: () => void;
+}
+
+const SyncBadge = ({ syncState, onSync, onClearConflicts }: SyncBadgeProps) => {
+  const { status, pending, conflicts, lastError } = syncState;
+
+  const view = {
+    synced: { icon: Cloud, label: 'Синхронизировано', className: 'bg-emerald-600/20 text-emerald-300 border-emerald-600/50' },
+    pending: { icon: CloudUpload, label: `В очереди: ${pending}`, className: 'bg-amber-600/20 text-amber-300 border-amber-600/50' },
+    syncing: { icon: RefreshCw, label: `Синхронизация: ${pending}`, className: 'bg-blue-600/20 text-blue-300 border-blue-600/50' },
+    offline: {
+      icon: CloudOff,
+      label: pending > 0 ? `Офлайн, в очереди: ${pending}` : 'Офлайн',
+      className: 'bg-slate-600/30 text-slate-300 border-slate-500/50'
+    },
+    error: { icon: AlertTriangle, label: `Ошибка синхронизации: ${pending}`, className: 'bg-red-600/20 text-red-300 border-red-600/50' }
+  }[status];
+  const Icon = view.icon;
+  const canSync = pending > 0 && status !== 'syncing' && !!onSync;
+
+  return (
+    <div className="flex items-center space-x-2">
+      {conflicts.length > 0 && (
+        <Badge
+          variant="outline"
+          className={`bg-orange-600/20 text-orange-300 border-orange-600/50 ${onClearConflicts ? 'cursor-pointer' : ''}`}
+          title="Правки, расходившиеся с сервером, разрешены по времени изменения. Нажмите, чтобы скрыть"
+          onClick={onClearConflicts}
+        >
+          Конфликты: {conflicts.length}
+        </Badge>
+      )}
+      <Badge
+        variant="outline"
+        className={`${view.className} ${canSync ? 'cursor-pointer' : ''}`}
+        title={lastError ?? (canSync ? 'Отправить очередь сейчас' : undefined)}
+        onClick={canSync ? onSync : undefined}
+      >
+        <Icon className={`h-3 w-3 mr-1 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+        {view.label}
+      </Badge>
+    </div>
+  );
+};
+
 const CandleInputHeader = ({ 
   currentSession, 
   nextCandleIndex, 
   pair, 
-  nextCandleTime 
+  nextCandleTime,
+  syncState,
+  onSync,
+  onClearConflicts
 }: CandleInputHeaderProps) => {
   return (
     <>
@@ -26,6 +81,7 @@ const CandleInputHeader = ({
           <Badge className="bg-blue-600 text-white">{currentSession.timeframe}</Badge>
           <Badge className="bg-green-600 text-white">{pair}</Badge>
         </div>
+        {syncState && <SyncBadge syncState={syncState} onSync={onSync} onClearConflicts={onClearConflicts} />}
       </div>
 
       {nextCandleTime && (
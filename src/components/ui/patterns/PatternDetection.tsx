@@ -4,6 +4,13 @@ import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown, Activity, AlertTriangle } from 'lucide-react';
 import { CandleData } from '@/types/session';
 import { usePatternDetection } from '@/hooks/usePatternDetection';
+import { PatternSignalType } from '@/services/patterns/CandlestickPatternRegistry';
+
+const SIGNAL_LABELS: Record<PatternSignalType, string> = {
+  reversal: 'Разворот',
+  continuation: 'Продолжение',
+  indecision: 'Неопределенность'
+};
 
 interface PatternDetectionProps {
   candles: CandleData[];
@@ -64,17 +71,17 @@ const PatternDetection = ({ candles }: PatternDetectionProps) => {
             {detectedPatterns.map((pattern, index) => (
               <div key={index} className="flex items-center justify-between p-4 bg-slate-700/50 rounded-lg border border-slate-600">
                 <div className="flex items-center space-x-4">
-                  {getPatternIcon(pattern.type)}
+                  {getPatternIcon(pattern.direction)}
                   
                   <div className="flex-1">
                     <div className="flex items-center space-x-2">
-                      <span className="text-white font-medium">{pattern.name}</span>
+                      <span className="text-white font-medium">{pattern.displayName}</span>
                       {pattern.confidence >= 80 && (
                         <AlertTriangle className="h-3 w-3 text-amber-400" />
                       )}
                     </div>
                     <p className="text-sm text-slate-400">
-                      Тип: {pattern.type}
+                      Тип: {SIGNAL_LABELS[pattern.signal]}
                     </p>
                     {pattern.description && (
                       <p className="text-xs text-slate-500 mt-1 max-w-md">
@@ -90,12 +97,12 @@ const PatternDetection = ({ candles }: PatternDetectionProps) => {
                       {pattern.confidence.toFixed(1)}%
                     </div>
                     <div className="text-xs text-slate-400">
-                      Индекс: {pattern.index}
+                      Индекс: {pattern.candleIndex}
                     </div>
                   </div>
                   
-                  <Badge className={getPatternColor(pattern.type)}>
-                    {pattern.type}
+                  <Badge className={getPatternColor(pattern.direction)}>
+                    {pattern.direction}
                   </Badge>
                 </div>
               </div>
@@ -127,14 +134,14 @@ const PatternDetection = ({ candles }: PatternDetectionProps) => {
           
           <div className="text-center">
             <div className="text-2xl font-bold text-green-400">
-              {detectedPatterns.filter(p => p.type === 'BULLISH').length}
+              {detectedPatterns.filter(p => p.direction === 'BULLISH').length}
             </div>
             <div className="text-sm text-slate-400">Бычьих сигналов</div>
           </div>
           
           <div className="text-center">
             <div className="text-2xl font-bold text-red-400">
-              {detectedPatterns.filter(p => p.type === 'BEARISH').length}
+              {detectedPatterns.filter(p => p.direction === 'BEARISH').length}
             </div>
             <div className="text-sm text-slate-400">Медвежьих сигналов</div>
           </div>
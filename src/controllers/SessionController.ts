@@ -1,5 +1,6 @@
 import { sessionService } from '@/services/sessionService';
 import { candleService } from '@/services/candleService';
+import { candleSyncService } from '@/services/offline/CandleSyncService';
 import { TradingSession, CandleData } from '@/types/session';
 import { validateSessionData } from '@/utils/candleValidation';
 
@@ -177,8 +178,13 @@ export class SessionController {
         cached.timestamp = Date.now();
       }
 
-      // Обновляем индекс сессии
-      await this.updateSessionCandleIndex(this.currentSession.id, savedCandle.candle_index);
+      // Обновляем индекс сессии; свеча в офлайн-очереди еще не на сервере
+      if (candleSyncService.hasPending(this.currentSession.id, savedCandle.candle_index)) {
+        this.currentSession.current_candle_index = Math.max(this.currentSession.current_candle_index, savedCandle.candle_index);
+        this.emit('session.index.updated', { sessionId: this.currentSession.id, candleIndex: savedCandle.candle_index });
+      } else {
+        await this.updateSessionCandleIndex(this.currentSession.id, savedCandle.candle_index);
+      }
 
       this.emit('candle.saved', savedCandle);
       return savedCandle;
@@ -247,13 +253,20 @@ export class SessionController {
       this.emit('candles.batch.saving', candles);
       const savedCandles = await candleService.saveCandleBatch(candles);
       
-      // Обновляем кэш
+      // Обновляем кэш; сохраненные свечи заменяют прежние с тем же индексом
       const cached = this.sessionCache.get(this.currentSession.id);
       if (cached) {
-        cached.candles = [...cached.candles, ...savedCandles].sort((a, b) => a.candle_index - b.candle_index);
+        const savedIndexes = new Set(savedCandles.map(c => c.candle_index));
+        cached.candles = [...cached.candles.filter(c => !savedIndexes.has(c.candle_index)), ...savedCandles]
+          .sort((a, b) => a.candle_index - b.candle_index);
         cached.timestamp = Date.now();
       }
 
+      const lastIndex = savedCandles.reduce((max, c) => Math.max(max, c.candle_index), -1);
+      if (lastIndex > this.currentSession.current_candle_index) {
+        await this.updateSessionCandleIndex(this.currentSession.id, lastIndex);
+      }
+
       this.emit('candles.batch.saved', savedCandles);
       return savedCandles;
     } catch (error) {
@@ -0,0 +1,33 @@
+import { drizzle, LibSQLDatabase } from 'drizzle-orm/libsql';
+import { createClient } from '@libsql/client';
+import { InfrastructureError } from '@/shared/infrastructure/ErrorHandler';
+import * as schema from './schema';
+
+export type Database = LibSQLDatabase<typeof schema>;
+
+let instance: Database | null = null;
+
+// Клиент создается лениво: модуль импортируется и там, где libsql не настроен.
+// libsql доступен только на сервере: токен с правом записи нельзя отдавать в браузерную сборку
+export const getDb = (): Database => {
+  if (!instance) {
+    if (typeof window !== 'undefined') {
+      throw new InfrastructureError(
+        'libsql storage is server-only; use VITE_PERSISTENCE_BACKEND=supabase in the browser',
+        'LIBSQL_IN_BROWSER',
+        'libsql'
+      );
+    }
+    const url = process.env.TURSO_CONNECTION_URL;
+    if (!url) {
+      throw new InfrastructureError(
+        'TURSO_CONNECTION_URL is not set; use file:local.db for a local database',
+        'LIBSQL_NOT_CONFIGURED',
+        'libsql'
+      );
+    }
+    const client = createClient({ url, authToken: process.env.TURSO_AUTH_TOKEN || undefined });
+    instance = drizzle(client, { schema });
+  }
+  return instance;
+};
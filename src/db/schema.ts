@@ -0,0 +1,101 @@
+import { sqliteTable, integer, real, text, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+
+export const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  email: text('email').notNull().unique(),
+  name: text('name'),
+  created_at: text('created_at').notNull()
+});
+
+// Колонки совпадают с таблицами Supabase, чтобы доменные мапперы работали с обоими хранилищами
+
+export const tradingSessions = sqliteTable('trading_sessions', {
+  id: text('id').primaryKey(),
+  session_name: text('session_name').notNull(),
+  pair: text('pair').notNull(),
+  timeframe: text('timeframe').notNull(),
+  start_date: text('start_date').notNull(),
+  start_time: text('start_time').notNull(),
+  end_date: text('end_date'),
+  current_candle_index: integer('current_candle_index').notNull().default(0),
+  status: text('status').notNull().default('active'),
+  description: text('description'),
+  tags: text('tags', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  stats: text('stats', { mode: 'json' }).$type<Record<string, number | null>>(),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull()
+}, table => [
+  index('idx_trading_sessions_pair').on(table.pair),
+  index('idx_trading_sessions_created_at').on(table.created_at)
+]);
+
+export const candleData = sqliteTable('candle_data', {
+  id: text('id').primaryKey(),
+  session_id: text('session_id').notNull().references(() => tradingSessions.id, { onDelete: 'cascade' }),
+  candle_index: integer('candle_index').notNull(),
+  open: real('open').notNull(),
+  high: real('high').notNull(),
+  low: real('low').notNull(),
+  close: real('close').notNull(),
+  volume: real('volume').notNull().default(0),
+  candle_datetime: text('candle_datetime').notNull(),
+  prediction_direction: text('prediction_direction'),
+  prediction_probability: real('prediction_probability'),
+  prediction_confidence: real('prediction_confidence'),
+  prediction_interval: integer('prediction_interval'),
+  prediction_factors: text('prediction_factors', { mode: 'json' }).$type<Record<string, number>>(),
+  prediction_outcome: integer('prediction_outcome', { mode: 'boolean' }),
+  indicators: text('indicators', { mode: 'json' }).$type<Record<string, unknown>>(),
+  source: text('source').notNull().default('manual'),
+  validated: integer('validated', { mode: 'boolean' }).notNull().default(true),
+  quality: text('quality').notNull().default('medium'),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull()
+}, table => [
+  uniqueIndex('candle_data_session_candle_index_unique').on(table.session_id, table.candle_index)
+]);
+
+export const predictions = sqliteTable('predictions', {
+  id: text('id').primaryKey(),
+  session_id: text('session_id').notNull(),
+  candle_index: integer('candle_index').notNull(),
+  direction: text('direction').notNull(),
+  probability: real('probability').notNull(),
+  confidence: real('confidence').notNull(),
+  interval_minutes: integer('interval_minutes').notNull(),
+  factors: text('factors', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  outcome: text('outcome', { mode: 'json' }).$type<Record<string, unknown>>(),
+  model_version: text('model_version').notNull(),
+  algorithm: text('algorithm').notNull(),
+  parameters: text('parameters', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  confidence_level: text('confidence_level').notNull(),
+  created_at: text('created_at').notNull()
+}, table => [
+  index('idx_predictions_session_id').on(table.session_id)
+]);
+
+export const predictionLedger = sqliteTable('prediction_ledger', {
+  id: text('id').primaryKey(),
+  session_id: text('session_id').notNull().references(() => tradingSessions.id, { onDelete: 'cascade' }),
+  candle_index: integer('candle_index').notNull(),
+  model_id: text('model_id').notNull(),
+  model_version: text('model_version').notNull(),
+  feature_hash: text('feature_hash').notNull(),
+  direction: text('direction').notNull(),
+  probability: real('probability').notNull(),
+  raw_probability: real('raw_probability'),
+  confidence: real('confidence').notNull(),
+  interval_minutes: integer('interval_minutes').notNull(),
+  entry_price: real('entry_price').notNull(),
+  inputs: text('inputs', { mode: 'json' }).$type<Record<string, unknown>>().notNull().default({}),
+  created_at: text('created_at').notNull(),
+  expires_at: text('expires_at').notNull(),
+  expiry_candle_index: integer('expiry_candle_index'),
+  actual_price: real('actual_price'),
+  actual_direction: text('actual_direction'),
+  correct: integer('correct', { mode: 'boolean' }),
+  resolved_at: text('resolved_at')
+}, table => [
+  index('idx_prediction_ledger_session').on(table.session_id, table.candle_index),
+  index('idx_prediction_ledger_model').on(table.model_id, table.model_version)
+]);
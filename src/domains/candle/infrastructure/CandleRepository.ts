@@ -5,10 +5,14 @@
 
 import { Repository, Result } from '@/shared/types/common';
 import { CandleEntity, CandleValueObjects } from '@/domains/candle/types';
-import { ValidationError } from '@/shared/infrastructure/ErrorHandler';
+import { InfrastructureError, ValidationError } from '@/shared/infrastructure/ErrorHandler';
+import { StorageAdapter } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { createStorageAdapter } from '@/shared/infrastructure/persistence/StorageFactory';
 import { InputValidator } from '@/utils/validation/secureValidation';
 import { secureLogger } from '@/utils/secureLogger';
 import { SecureRandom } from '@/utils/secureCrypto';
+import { candleData } from '@/db/schema';
+import { candleMapper } from './candleMapper';
 
 export interface CreateCandleData {
   session_id: string;
@@ -31,16 +35,17 @@ export interface UpdateCandleData {
   prediction_direction?: 'UP' | 'DOWN';
   prediction_probability?: number;
   prediction_confidence?: number;
+  prediction_interval?: number;
 }
 
 export class CandleRepository implements Repository<CandleEntity, string> {
-  private candles = new Map<string, CandleEntity>();
-  private indexBySession = new Map<string, Set<string>>();
+  constructor(
+    private readonly store: StorageAdapter<CandleEntity> = createStorageAdapter(candleMapper, candleData)
+  ) {}
 
   async findById(id: string): Promise<CandleEntity | null> {
     try {
-      const candle = this.candles.get(id);
-      return candle || null;
+      return await this.store.findById(id);
     } catch (error) {
       secureLogger.error('Failed to find candle by ID', {
         candleId: id,
@@ -52,7 +57,7 @@ export class CandleRepository implements Repository<CandleEntity, string> {
 
   async findAll(): Promise<CandleEntity[]> {
     try {
-      return Array.from(this.candles.values()).sort(
+      return (await this.store.findAll()).sort(
         (a, b) => a.index.value - b.index.value
       );
     } catch (error) {
@@ -65,13 +70,8 @@ export class CandleRepository implements Repository<CandleEntity, string> {
 
   async findBySessionId(sessionId: string): Promise<CandleEntity[]> {
     try {
-      const candleIds = this.indexBySession.get(sessionId) || new Set();
-      const candles = Array.from(candleIds)
-        .map(id => this.candles.get(id))
-        .filter((candle): candle is CandleEntity => candle !== undefined)
-        .sort((a, b) => a.index.value - b.index.value);
-
-      return candles;
+      const candles = await this.store.findBy('session_id', sessionId);
+      return candles.sort((a, b) => a.index.value - b.index.value);
     } catch (error) {
       secureLogger.error('Failed to find candles by session ID', {
         sessionId,
@@ -158,13 +158,14 @@ export class CandleRepository implements Repository<CandleEntity, string> {
       };
 
       // Store candle
-      this.candles.set(id.value, candle);
-      
-      // Update session index
-      if (!this.indexBySession.has(data.session_id)) {
-        this.indexBySession.set(data.session_id, new Set());
+      const stored = await this.store.save(candle);
+      if (stored.success === false) {
+        throw new InfrastructureError(
+          `Failed to store candle: ${stored.error.message}`,
+          'CANDLE_WRITE_FAILED',
+          'candle_repository'
+        );
       }
-      this.indexBySession.get(data.session_id)!.add(id.value);
 
       secureLogger.info('Candle created successfully', {
         candleId: id.value,
@@ -173,7 +174,7 @@ export class CandleRepository implements Repository<CandleEntity, string> {
         price: validatedData.close
       });
 
-      return candle;
+      return stored.data;
     } catch (error) {
       secureLogger.error('Failed to create candle', {
         data,
@@ -193,13 +194,16 @@ export class CandleRepository implements Repository<CandleEntity, string> {
         }
       };
 
-      this.candles.set(entity.id.value, updatedEntity);
+      const result = await this.store.save(updatedEntity);
+      if (result.success === false) {
+        throw result.error;
+      }
 
       secureLogger.debug('Candle saved successfully', {
         candleId: entity.id.value
       });
 
-      return { success: true, data: updatedEntity };
+      return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       secureLogger.error('Failed to save candle', {
@@ -212,7 +216,7 @@ export class CandleRepository implements Repository<CandleEntity, string> {
 
   async update(id: string, updates: UpdateCandleData): Promise<CandleEntity> {
     try {
-      const existingCandle = this.candles.get(id);
+      const existingCandle = await this.store.findById(id);
       if (!existingCandle) {
         throw new ValidationError('Candle not found', 'candle_id', 'CANDLE_NOT_FOUND');
       }
@@ -236,7 +240,7 @@ export class CandleRepository implements Repository<CandleEntity, string> {
           direction: updates.prediction_direction || existingCandle.prediction?.direction || 'UP',
           probability: updates.prediction_probability || existingCandle.prediction?.probability || 50,
           confidence: updates.prediction_confidence || existingCandle.prediction?.confidence || 50,
-          interval: existingCandle.prediction?.interval || 5,
+          interval: updates.prediction_interval || existingCandle.prediction?.interval || 5,
           factors: existingCandle.prediction?.factors || {
             technical: 50,
             volume: 50,
@@ -260,14 +264,21 @@ export class CandleRepository implements Repository<CandleEntity, string> {
         }
       };
 
-      this.candles.set(id, updatedCandle);
+      const stored = await this.store.save(updatedCandle);
+      if (stored.success === false) {
+        throw new InfrastructureError(
+          `Failed to store candle: ${stored.error.message}`,
+          'CANDLE_WRITE_FAILED',
+          'candle_repository'
+        );
+      }
 
       secureLogger.info('Candle updated successfully', {
         candleId: id,
         updates: Object.keys(updates)
       });
 
-      return updatedCandle;
+      return stored.data;
     } catch (error) {
       secureLogger.error('Failed to update candle', {
         candleId: id,
@@ -280,22 +291,16 @@ export class CandleRepository implements Repository<CandleEntity, string> {
 
   async delete(id: string): Promise<Result<void>> {
     try {
-      const existingCandle = this.candles.get(id);
+      const existingCandle = await this.store.findById(id);
       if (!existingCandle) {
         throw new ValidationError('Candle not found', 'candle_id', 'CANDLE_NOT_FOUND');
       }
 
-      // Remove from session index
-      const sessionCandles = this.indexBySession.get(existingCandle.sessionId);
-      if (sessionCandles) {
-        sessionCandles.delete(id);
-        if (sessionCandles.size === 0) {
-          this.indexBySession.delete(existingCandle.sessionId);
-        }
+      const result = await this.store.delete(id);
+      if (result.success === false) {
+        throw result.error;
       }
 
-      this.candles.delete(id);
-
       secureLogger.info('Candle deleted successfully', {
         candleId: id,
         sessionId: existingCandle.sessionId
@@ -314,17 +319,15 @@ export class CandleRepository implements Repository<CandleEntity, string> {
 
   async deleteBySessionId(sessionId: string): Promise<Result<void>> {
     try {
-      const candleIds = this.indexBySession.get(sessionId) || new Set();
-      
-      for (const candleId of candleIds) {
-        this.candles.delete(candleId);
+      const candles = await this.findBySessionId(sessionId);
+      const result = await this.store.deleteBy('session_id', sessionId);
+      if (result.success === false) {
+        throw result.error;
       }
-      
-      this.indexBySession.delete(sessionId);
 
       secureLogger.info('Session candles deleted successfully', {
         sessionId,
-        deletedCount: candleIds.size
+        deletedCount: candles.length
       });
 
       return { success: true, data: undefined };
@@ -441,8 +444,8 @@ export class CandleRepository implements Repository<CandleEntity, string> {
   // Clear all candles (for testing/reset)
   async clear(): Promise<void> {
     try {
-      this.candles.clear();
-      this.indexBySession.clear();
+      const candles = await this.store.findAll();
+      await Promise.all(candles.map(candle => this.store.delete(candle.id.value)));
       secureLogger.info('All candles cleared');
     } catch (error) {
       secureLogger.error('Failed to clear candles', {
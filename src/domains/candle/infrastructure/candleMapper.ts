@@ -0,0 +1,107 @@
+/**
+ * DOMAIN: Candle Row Mapper
+ * CandleEntity <-> строка candle_data
+ */
+
+import { EntityMapper } from '@/shared/infrastructure/persistence/StorageAdapter';
+import {
+  CandleEntity,
+  CandleMetadata,
+  CandleValueObjects,
+  IndicatorData,
+  PredictionFactors
+} from '@/domains/candle/types';
+
+export interface CandleRow {
+  id: string;
+  session_id: string;
+  candle_index: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  candle_datetime: string;
+  prediction_direction: 'UP' | 'DOWN' | null;
+  prediction_probability: number | null;
+  prediction_confidence: number | null;
+  prediction_interval: number | null;
+  prediction_factors: PredictionFactors | null;
+  prediction_outcome: boolean | null;
+  indicators: IndicatorData | null;
+  source: CandleMetadata['source'];
+  validated: boolean;
+  quality: CandleMetadata['quality'];
+  created_at: string;
+  updated_at: string;
+}
+
+export const candleMapper: EntityMapper<CandleEntity, CandleRow> = {
+  table: 'candle_data',
+
+  getId: candle => candle.id.value,
+
+  toRow: candle => ({
+    id: candle.id.value,
+    session_id: candle.sessionId,
+    candle_index: candle.index.value,
+    open: candle.ohlcv.open.value,
+    high: candle.ohlcv.high.value,
+    low: candle.ohlcv.low.value,
+    close: candle.ohlcv.close.value,
+    volume: candle.ohlcv.volume.value,
+    candle_datetime: candle.timestamp.toISOString(),
+    prediction_direction: candle.prediction?.direction ?? null,
+    prediction_probability: candle.prediction?.probability ?? null,
+    prediction_confidence: candle.prediction?.confidence ?? null,
+    prediction_interval: candle.prediction?.interval ?? null,
+    prediction_factors: candle.prediction?.factors ?? null,
+    prediction_outcome: candle.prediction?.actualOutcome ?? null,
+    indicators: candle.indicators ?? null,
+    source: candle.metadata.source,
+    validated: candle.metadata.validated,
+    quality: candle.metadata.quality,
+    created_at: candle.metadata.createdAt.toISOString(),
+    updated_at: candle.metadata.updatedAt.toISOString()
+  }),
+
+  fromRow: row => ({
+    id: CandleValueObjects.candleId(row.id),
+    index: CandleValueObjects.candleIndex(row.candle_index),
+    sessionId: row.session_id,
+    timestamp: new Date(row.candle_datetime),
+    // numeric из Supabase может прийти строкой
+    ohlcv: CandleValueObjects.ohlcv(
+      Number(row.open),
+      Number(row.high),
+      Number(row.low),
+      Number(row.close),
+      Number(row.volume ?? 0)
+    ),
+    prediction: row.prediction_direction
+      ? {
+          direction: row.prediction_direction,
+          probability: Number(row.prediction_probability ?? 50),
+          confidence: Number(row.prediction_confidence ?? 50),
+          interval: row.prediction_interval ?? 5,
+          actualOutcome: row.prediction_outcome ?? undefined,
+          factors: row.prediction_factors ?? {
+            technical: 50,
+            volume: 50,
+            momentum: 50,
+            volatility: 50,
+            pattern: 50,
+            trend: 50
+          }
+        }
+      : undefined,
+    indicators: row.indicators ?? undefined,
+    metadata: {
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at ?? row.created_at),
+      source: row.source ?? 'manual',
+      validated: row.validated ?? true,
+      quality: row.quality ?? 'medium'
+    }
+  })
+};
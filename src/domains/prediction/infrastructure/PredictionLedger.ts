@@ -0,0 +1,229 @@
+/**
+ * DOMAIN: Prediction Ledger
+ * Записывает каждый показанный прогноз и определяет его исход,
+ * когда появляется свеча экспирации
+ */
+
+import { EventPublisher } from '@/shared/types/common';
+import { eventBus, EventFactory } from '@/shared/infrastructure/EventBus';
+import { InfrastructureError } from '@/shared/infrastructure/ErrorHandler';
+import { PredictionLedgerEntry } from '@/domains/prediction/types';
+import { CandleData } from '@/types/session';
+import { ModelStatistics, PredictionResult } from '@/types/trading';
+import { SecureRandom } from '@/utils/secureCrypto';
+import { PredictionLedgerRepository } from './PredictionLedgerRepository';
+
+export interface RecordPredictionContext {
+  sessionId: string;
+  /** Candle the prediction was made on */
+  candle: CandleData;
+  modelId: string;
+  modelVersion: string;
+  /** Inputs the model saw; hashed into the entry's feature hash. Defaults to the prediction's feature vector */
+  inputs?: Record<string, unknown>;
+}
+
+export interface LedgerStatisticsFilter {
+  sessionId?: string;
+  modelId?: string;
+  modelVersion?: string;
+}
+
+type LedgerListener = (entries: PredictionLedgerEntry[]) => void;
+
+const candleTime = (candle: CandleData): number => new Date(candle.candle_datetime).getTime();
+
+/**
+ * Canonical JSON: object keys sorted, so equal inputs always hash the same
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * FNV-1a, 32 bit
+ */
+export const hashFeatures = (inputs: Record<string, unknown>): string => {
+  const text = canonicalJson(inputs);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+export class PredictionLedger {
+  /** Entries recorded, resolved or loaded during this app run, by id */
+  private cache = new Map<string, PredictionLedgerEntry>();
+  private listeners = new Set<LedgerListener>();
+
+  constructor(
+    private readonly repository: PredictionLedgerRepository,
+    private readonly publisher: EventPublisher
+  ) {}
+
+  /**
+   * Append a prediction to the ledger
+   */
+  async record(prediction: PredictionResult, context: RecordPredictionContext): Promise<PredictionLedgerEntry> {
+    const { candle } = context;
+    const inputs = context.inputs ?? this.modelInputs(prediction, candle);
+
+    const entry: PredictionLedgerEntry = {
+      id: SecureRandom.uuid(),
+      sessionId: context.sessionId,
+      candleIndex: candle.candle_index,
+      modelId: context.modelId,
+      modelVersion: context.modelVersion,
+      featureHash: hashFeatures(inputs),
+      direction: prediction.direction,
+      probability: prediction.probability,
+      rawProbability: prediction.calibration?.rawProbability ?? prediction.probability,
+      confidence: prediction.confidence,
+      intervalMinutes: prediction.interval,
+      entryPrice: candle.close,
+      inputs,
+      createdAt: new Date(),
+      expiresAt: new Date(candleTime(candle) + prediction.interval * 60 * 1000)
+    };
+
+    return this.store(entry);
+  }
+
+  /**
+   * Settle every pending prediction of a session whose expiry candle has arrived
+   * and publish a PredictionValidatedEvent for each
+   * @returns Entries resolved by this call
+   */
+  async resolve(sessionId: string, candles: CandleData[]): Promise<PredictionLedgerEntry[]> {
+    const pending = await this.repository.findPending(sessionId);
+    if (pending.length === 0) return [];
+
+    const sorted = [...candles].sort((a, b) => a.candle_index - b.candle_index);
+    const resolved: PredictionLedgerEntry[] = [];
+
+    for (const entry of pending) {
+      const expiry = sorted.find(candle =>
+        candle.candle_index > entry.candleIndex && candleTime(candle) >= entry.expiresAt.getTime()
+      );
+      if (!expiry) continue;
+
+      const move = expiry.close - entry.entryPrice;
+      const actual = move > 0 ? 'UP' : move < 0 ? 'DOWN' : 'FLAT';
+      const settled = await this.store({
+        ...entry,
+        outcome: {
+          expiryCandleIndex: expiry.candle_index,
+          actualPrice: expiry.close,
+          actual,
+          correct: actual === entry.direction,
+          resolvedAt: new Date()
+        }
+      }, false);
+
+      resolved.push(settled);
+      await this.publisher.publish(
+        EventFactory.predictionValidated(settled.id, settled.outcome!.correct, expiry.close, entry.entryPrice)
+      );
+    }
+
+    if (resolved.length > 0) this.notify();
+    return resolved;
+  }
+
+  /**
+   * Load a session's entries into the statistics cache
+   */
+  async loadSession(sessionId: string): Promise<PredictionLedgerEntry[]> {
+    const entries = await this.repository.findBySession(sessionId);
+    entries.forEach(entry => this.cache.set(entry.id, entry));
+    this.notify();
+    return entries;
+  }
+
+  /**
+   * Every resolved entry in the repository, across sessions
+   */
+  async loadResolved(): Promise<PredictionLedgerEntry[]> {
+    return (await this.repository.findAll()).filter(entry => entry.outcome);
+  }
+
+  getEntries(filter: LedgerStatisticsFilter = {}): PredictionLedgerEntry[] {
+    return [...this.cache.values()]
+      .filter(entry =>
+        (!filter.sessionId || entry.sessionId === filter.sessionId) &&
+        (!filter.modelId || entry.modelId === filter.modelId) &&
+        (!filter.modelVersion || entry.modelVersion === filter.modelVersion)
+      )
+      .sort((a, b) => a.candleIndex - b.candleIndex);
+  }
+
+  /**
+   * Accuracy of resolved predictions in the cache
+   */
+  getModelStatistics(
+    currentWeights: ModelStatistics['currentWeights'],
+    filter: LedgerStatisticsFilter = {}
+  ): ModelStatistics {
+    const resolved = this.getEntries(filter).filter(entry => entry.outcome);
+    const accuracy = (entries: PredictionLedgerEntry[]) =>
+      entries.length > 0 ? (entries.filter(entry => entry.outcome!.correct).length / entries.length) * 100 : 0;
+
+    return {
+      totalPredictions: resolved.length,
+      accurateCount: resolved.filter(entry => entry.outcome!.correct).length,
+      overallAccuracy: accuracy(resolved),
+      callAccuracy: accuracy(resolved.filter(entry => entry.direction === 'UP')),
+      putAccuracy: accuracy(resolved.filter(entry => entry.direction === 'DOWN')),
+      currentWeights
+    };
+  }
+
+  subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The vector the model scored; predictions without one fall back to the candle and factors
+   */
+  private modelInputs(prediction: PredictionResult, candle: CandleData): Record<string, unknown> {
+    if (prediction.features) {
+      return { features: prediction.features };
+    }
+    return {
+      candle: { open: candle.open, high: candle.high, low: candle.low, close: candle.close, volume: candle.volume },
+      interval: prediction.interval,
+      factors: prediction.factors
+    };
+  }
+
+  private async store(entry: PredictionLedgerEntry, notify = true): Promise<PredictionLedgerEntry> {
+    const result = await this.repository.save(entry);
+    if (result.success === false) {
+      throw new InfrastructureError(`Failed to store prediction: ${result.error.message}`, 'LEDGER_WRITE_FAILED', 'prediction_ledger');
+    }
+
+    this.cache.set(result.data.id, result.data);
+    if (notify) this.notify();
+    return result.data;
+  }
+
+  private notify(): void {
+    const entries = [...this.cache.values()];
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+export const predictionLedger = new PredictionLedger(new PredictionLedgerRepository(), eventBus);
@@ -0,0 +1,50 @@
+/**
+ * DOMAIN: Prediction Ledger Repository
+ * Хранилище журнала прогнозов поверх StorageAdapter: Supabase или libsql.
+ * Журнал питает калибровку и статистику моделей, поэтому по умолчанию не хранится в памяти
+ */
+
+import { Repository, Result } from '@/shared/types/common';
+import { PredictionLedgerEntry } from '@/domains/prediction/types';
+import { StorageAdapter } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { createStorageAdapter, durablePersistenceConfig } from '@/shared/infrastructure/persistence/StorageFactory';
+import { predictionLedger } from '@/db/schema';
+import { predictionLedgerMapper } from './predictionLedgerMapper';
+
+const byCandleIndex = (a: PredictionLedgerEntry, b: PredictionLedgerEntry) =>
+  a.candleIndex - b.candleIndex || a.createdAt.getTime() - b.createdAt.getTime();
+
+export class PredictionLedgerRepository implements Repository<PredictionLedgerEntry, string> {
+  constructor(
+    private readonly store: StorageAdapter<PredictionLedgerEntry> = createStorageAdapter(
+      predictionLedgerMapper,
+      predictionLedger,
+      durablePersistenceConfig()
+    )
+  ) {}
+
+  async findById(id: string): Promise<PredictionLedgerEntry | null> {
+    return this.store.findById(id);
+  }
+
+  async findAll(): Promise<PredictionLedgerEntry[]> {
+    return (await this.store.findAll()).sort(byCandleIndex);
+  }
+
+  async findBySession(sessionId: string): Promise<PredictionLedgerEntry[]> {
+    return (await this.store.findBy('session_id', sessionId)).sort(byCandleIndex);
+  }
+
+  /** Entries of a session without an outcome yet */
+  async findPending(sessionId: string): Promise<PredictionLedgerEntry[]> {
+    return (await this.findBySession(sessionId)).filter(entry => !entry.outcome);
+  }
+
+  async save(entity: PredictionLedgerEntry): Promise<Result<PredictionLedgerEntry>> {
+    return this.store.save(entity);
+  }
+
+  async delete(id: string): Promise<Result<void>> {
+    return this.store.delete(id);
+  }
+}
@@ -6,9 +6,13 @@
 import { Repository, Result } from '@/shared/types/common';
 import { PredictionEntity, PredictionValueObjects } from '@/domains/prediction/types';
 import { CandleEntity } from '@/domains/candle/types';
-import { ValidationError } from '@/shared/infrastructure/ErrorHandler';
+import { InfrastructureError, ValidationError } from '@/shared/infrastructure/ErrorHandler';
+import { StorageAdapter } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { createStorageAdapter } from '@/shared/infrastructure/persistence/StorageFactory';
 import { secureLogger } from '@/utils/secureLogger';
 import { SecureRandom } from '@/utils/secureCrypto';
+import { predictions } from '@/db/schema';
+import { predictionMapper } from './predictionMapper';
 
 export interface PredictionConfig {
   predictionInterval: number;
@@ -18,34 +22,32 @@ export interface PredictionConfig {
 }
 
 export class PredictionRepository implements Repository<PredictionEntity, string> {
-  private predictions = new Map<string, PredictionEntity>();
+  constructor(
+    private readonly store: StorageAdapter<PredictionEntity> = createStorageAdapter(predictionMapper, predictions)
+  ) {}
 
   async findById(id: string): Promise<PredictionEntity | null> {
-    return this.predictions.get(id) || null;
+    return this.store.findById(id);
   }
 
   async findAll(): Promise<PredictionEntity[]> {
-    return Array.from(this.predictions.values()).sort(
+    return (await this.store.findAll()).sort(
       (a, b) => b.metadata.createdAt.getTime() - a.metadata.createdAt.getTime()
     );
   }
 
+  async findBySessionId(sessionId: string): Promise<PredictionEntity[]> {
+    return (await this.store.findBy('session_id', sessionId)).sort(
+      (a, b) => a.candleIndex - b.candleIndex
+    );
+  }
+
   async save(entity: PredictionEntity): Promise<Result<PredictionEntity>> {
-    try {
-      this.predictions.set(entity.id.value, entity);
-      return { success: true, data: entity };
-    } catch (error) {
-      return { success: false, error: error as Error };
-    }
+    return this.store.save(entity);
   }
 
   async delete(id: string): Promise<Result<void>> {
-    try {
-      this.predictions.delete(id);
-      return { success: true, data: undefined };
-    } catch (error) {
-      return { success: false, error: error as Error };
-    }
+    return this.store.delete(id);
   }
 
   async generate(candleData: CandleEntity[], config: PredictionConfig): Promise<PredictionEntity> {
@@ -81,12 +83,11 @@ export class PredictionRepository implements Repository<PredictionEntity, string
       }
     };
 
-    this.predictions.set(id.value, prediction);
-    return prediction;
+    return this.persist(prediction);
   }
 
   async validate(predictionId: string, outcome: boolean): Promise<PredictionEntity> {
-    const prediction = this.predictions.get(predictionId);
+    const prediction = await this.store.findById(predictionId);
     if (!prediction) {
       throw new ValidationError('Prediction not found', 'prediction_id', 'PREDICTION_NOT_FOUND');
     }
@@ -102,8 +103,23 @@ export class PredictionRepository implements Repository<PredictionEntity, string
       }
     };
 
-    this.predictions.set(predictionId, updatedPrediction);
-    return updatedPrediction;
+    return this.persist(updatedPrediction);
+  }
+
+  private async persist(prediction: PredictionEntity): Promise<PredictionEntity> {
+    const result = await this.store.save(prediction);
+    if (result.success === false) {
+      secureLogger.error('Failed to store prediction', {
+        predictionId: prediction.id.value,
+        error: result.error.message
+      });
+      throw new InfrastructureError(
+        `Failed to store prediction: ${result.error.message}`,
+        'PREDICTION_WRITE_FAILED',
+        'prediction_repository'
+      );
+    }
+    return result.data;
   }
 }
 
@@ -0,0 +1,88 @@
+/**
+ * DOMAIN: Prediction Ledger Row Mapper
+ * PredictionLedgerEntry <-> строка prediction_ledger
+ */
+
+import { EntityMapper } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { PredictionLedgerEntry } from '@/domains/prediction/types';
+
+export interface PredictionLedgerRow {
+  id: string;
+  session_id: string;
+  candle_index: number;
+  model_id: string;
+  model_version: string;
+  feature_hash: string;
+  direction: 'UP' | 'DOWN';
+  probability: number;
+  raw_probability: number | null;
+  confidence: number;
+  interval_minutes: number;
+  entry_price: number;
+  inputs: Record<string, unknown>;
+  created_at: string;
+  expires_at: string;
+  expiry_candle_index: number | null;
+  actual_price: number | null;
+  actual_direction: 'UP' | 'DOWN' | 'FLAT' | null;
+  correct: boolean | null;
+  resolved_at: string | null;
+}
+
+export const predictionLedgerMapper: EntityMapper<PredictionLedgerEntry, PredictionLedgerRow> = {
+  table: 'prediction_ledger',
+
+  getId: entry => entry.id,
+
+  toRow: entry => ({
+    id: entry.id,
+    session_id: entry.sessionId,
+    candle_index: entry.candleIndex,
+    model_id: entry.modelId,
+    model_version: entry.modelVersion,
+    feature_hash: entry.featureHash,
+    direction: entry.direction,
+    probability: entry.probability,
+    raw_probability: entry.rawProbability,
+    confidence: entry.confidence,
+    interval_minutes: entry.intervalMinutes,
+    entry_price: entry.entryPrice,
+    inputs: entry.inputs,
+    created_at: entry.createdAt.toISOString(),
+    expires_at: entry.expiresAt.toISOString(),
+    expiry_candle_index: entry.outcome?.expiryCandleIndex ?? null,
+    actual_price: entry.outcome?.actualPrice ?? null,
+    actual_direction: entry.outcome?.actual ?? null,
+    correct: entry.outcome?.correct ?? null,
+    resolved_at: entry.outcome?.resolvedAt.toISOString() ?? null
+  }),
+
+  fromRow: row => ({
+    id: row.id,
+    sessionId: row.session_id,
+    candleIndex: row.candle_index,
+    modelId: row.model_id,
+    modelVersion: row.model_version,
+    featureHash: row.feature_hash,
+    direction: row.direction,
+    // numeric из Supabase может прийти строкой
+    probability: Number(row.probability),
+    // Записи до появления колонки не калибровались
+    rawProbability: Number(row.raw_probability ?? row.probability),
+    confidence: Number(row.confidence),
+    intervalMinutes: row.interval_minutes,
+    entryPrice: Number(row.entry_price),
+    inputs: row.inputs ?? {},
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+    outcome: row.resolved_at && row.actual_direction && row.expiry_candle_index !== null
+      ? {
+          expiryCandleIndex: row.expiry_candle_index,
+          actualPrice: Number(row.actual_price),
+          actual: row.actual_direction,
+          correct: Boolean(row.correct),
+          resolvedAt: new Date(row.resolved_at)
+        }
+      : undefined
+  })
+};
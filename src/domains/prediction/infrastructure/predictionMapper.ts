@@ -0,0 +1,96 @@
+/**
+ * DOMAIN: Prediction Row Mapper
+ * PredictionEntity <-> строка predictions
+ */
+
+import { EntityMapper } from '@/shared/infrastructure/persistence/StorageAdapter';
+import {
+  FactorAnalysis,
+  PredictionEntity,
+  PredictionMetadata,
+  PredictionValueObjects
+} from '@/domains/prediction/types';
+
+interface PredictionOutcomeRow {
+  actual: 'UP' | 'DOWN';
+  correct: boolean;
+  actualPrice: number;
+  targetPrice: number;
+  timestamp: string;
+}
+
+export interface PredictionRow {
+  id: string;
+  session_id: string;
+  candle_index: number;
+  direction: 'UP' | 'DOWN';
+  probability: number;
+  confidence: number;
+  interval_minutes: number;
+  factors: FactorAnalysis;
+  outcome: PredictionOutcomeRow | null;
+  model_version: string;
+  algorithm: string;
+  parameters: Record<string, unknown>;
+  confidence_level: PredictionMetadata['confidence_level'];
+  created_at: string;
+}
+
+export const predictionMapper: EntityMapper<PredictionEntity, PredictionRow> = {
+  table: 'predictions',
+
+  getId: prediction => prediction.id.value,
+
+  toRow: prediction => ({
+    id: prediction.id.value,
+    session_id: prediction.sessionId,
+    candle_index: prediction.candleIndex,
+    direction: prediction.direction.value,
+    probability: prediction.probability.value,
+    confidence: prediction.confidence.value,
+    interval_minutes: prediction.interval.minutes,
+    factors: prediction.factors,
+    outcome: prediction.outcome
+      ? {
+          actual: prediction.outcome.actual.value,
+          correct: prediction.outcome.correct,
+          actualPrice: prediction.outcome.actualPrice,
+          targetPrice: prediction.outcome.targetPrice,
+          timestamp: prediction.outcome.timestamp.toISOString()
+        }
+      : null,
+    model_version: prediction.metadata.modelVersion,
+    algorithm: prediction.metadata.algorithm,
+    parameters: prediction.metadata.parameters,
+    confidence_level: prediction.metadata.confidence_level,
+    created_at: prediction.metadata.createdAt.toISOString()
+  }),
+
+  fromRow: row => ({
+    id: PredictionValueObjects.predictionId(row.id),
+    sessionId: row.session_id,
+    candleIndex: row.candle_index,
+    direction: PredictionValueObjects.predictionDirection(row.direction),
+    // numeric из Supabase может прийти строкой
+    probability: PredictionValueObjects.probability(Number(row.probability)),
+    confidence: PredictionValueObjects.confidence(Number(row.confidence)),
+    interval: PredictionValueObjects.predictionInterval(row.interval_minutes),
+    factors: row.factors,
+    outcome: row.outcome
+      ? {
+          actual: PredictionValueObjects.predictionDirection(row.outcome.actual),
+          correct: row.outcome.correct,
+          actualPrice: row.outcome.actualPrice,
+          targetPrice: row.outcome.targetPrice,
+          timestamp: new Date(row.outcome.timestamp)
+        }
+      : undefined,
+    metadata: {
+      createdAt: new Date(row.created_at),
+      modelVersion: row.model_version,
+      algorithm: row.algorithm,
+      parameters: row.parameters ?? {},
+      confidence_level: row.confidence_level
+    }
+  })
+};
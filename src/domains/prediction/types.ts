@@ -90,6 +90,43 @@ export interface ModelPerformance {
   readonly maxDrawdown: number;
 }
 
+/**
+ * One row of the prediction ledger: every prediction as it was shown,
+ * never overwritten by later predictions for the same candle
+ */
+export interface PredictionLedgerEntry {
+  readonly id: string;
+  readonly sessionId: string;
+  readonly candleIndex: number;
+  readonly modelId: string;
+  readonly modelVersion: string;
+  /** Hash of `inputs`, equal for predictions made from identical features */
+  readonly featureHash: string;
+  readonly direction: 'UP' | 'DOWN';
+  readonly probability: number; // 0-100
+  /** Probability before recalibration; calibrators are fitted on it */
+  readonly rawProbability: number; // 0-100
+  readonly confidence: number; // 0-100
+  readonly intervalMinutes: number;
+  /** Close of the prediction candle */
+  readonly entryPrice: number;
+  readonly inputs: Record<string, unknown>;
+  readonly createdAt: Date;
+  /** Open time of the prediction candle plus the interval */
+  readonly expiresAt: Date;
+  readonly outcome?: PredictionLedgerOutcome;
+}
+
+export interface PredictionLedgerOutcome {
+  /** First candle opening at or after the expiry */
+  readonly expiryCandleIndex: number;
+  /** Close of the expiry candle */
+  readonly actualPrice: number;
+  readonly actual: 'UP' | 'DOWN' | 'FLAT';
+  readonly correct: boolean;
+  readonly resolvedAt: Date;
+}
+
 // Value Objects Factory
 export const PredictionValueObjects = {
   predictionId: (value: string): PredictionId => ({ value }),
@@ -5,10 +5,14 @@
 
 import { Repository, Result } from '@/shared/types/common';
 import { SessionEntity, SessionValueObjects } from '@/domains/session/types';
-import { ValidationError } from '@/shared/infrastructure/ErrorHandler';
+import { InfrastructureError, ValidationError } from '@/shared/infrastructure/ErrorHandler';
+import { StorageAdapter } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { createStorageAdapter } from '@/shared/infrastructure/persistence/StorageFactory';
 import { InputValidator } from '@/utils/validation/secureValidation';
 import { secureLogger } from '@/utils/secureLogger';
 import { SecureRandom } from '@/utils/secureCrypto';
+import { tradingSessions } from '@/db/schema';
+import { sessionMapper } from './sessionMapper';
 
 export interface CreateSessionData {
   session_name: string;
@@ -28,12 +32,13 @@ export interface UpdateSessionData {
 }
 
 export class SessionRepository implements Repository<SessionEntity, string> {
-  private sessions = new Map<string, SessionEntity>();
+  constructor(
+    private readonly store: StorageAdapter<SessionEntity> = createStorageAdapter(sessionMapper, tradingSessions)
+  ) {}
 
   async findById(id: string): Promise<SessionEntity | null> {
     try {
-      const session = this.sessions.get(id);
-      return session || null;
+      return await this.store.findById(id);
     } catch (error) {
       secureLogger.error('Failed to find session by ID', {
         sessionId: id,
@@ -45,7 +50,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async findAll(): Promise<SessionEntity[]> {
     try {
-      return Array.from(this.sessions.values()).sort(
+      return (await this.store.findAll()).sort(
         (a, b) => b.metadata.createdAt.getTime() - a.metadata.createdAt.getTime()
       );
     } catch (error) {
@@ -58,8 +63,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async findByPair(pair: string): Promise<SessionEntity[]> {
     try {
-      return Array.from(this.sessions.values())
-        .filter(session => session.pair.symbol === pair)
+      return (await this.store.findBy('pair', pair))
         .sort((a, b) => b.metadata.createdAt.getTime() - a.metadata.createdAt.getTime());
     } catch (error) {
       secureLogger.error('Failed to find sessions by pair', {
@@ -79,8 +83,8 @@ export class SessionRepository implements Repository<SessionEntity, string> {
       }
 
       // Check for duplicate names
-      const existingSession = Array.from(this.sessions.values())
-        .find(s => s.name.value === validatedData.session_name && s.pair.symbol === validatedData.pair);
+      const existingSession = (await this.store.findBy('pair', validatedData.pair))
+        .find(s => s.name.value === validatedData.session_name);
       
       if (existingSession) {
         throw new ValidationError(
@@ -124,7 +128,14 @@ export class SessionRepository implements Repository<SessionEntity, string> {
       };
 
       // Store session
-      this.sessions.set(id.value, session);
+      const stored = await this.store.save(session);
+      if (stored.success === false) {
+        throw new InfrastructureError(
+          `Failed to store session: ${stored.error.message}`,
+          'SESSION_WRITE_FAILED',
+          'session_repository'
+        );
+      }
 
       secureLogger.info('Session created successfully', {
         sessionId: id.value,
@@ -133,7 +144,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
         timeframe: timeframe.value
       });
 
-      return session;
+      return stored.data;
     } catch (error) {
       secureLogger.error('Failed to create session', {
         data,
@@ -153,13 +164,16 @@ export class SessionRepository implements Repository<SessionEntity, string> {
         }
       };
 
-      this.sessions.set(entity.id.value, updatedEntity);
+      const result = await this.store.save(updatedEntity);
+      if (result.success === false) {
+        throw result.error;
+      }
 
       secureLogger.info('Session saved successfully', {
         sessionId: entity.id.value
       });
 
-      return { success: true, data: updatedEntity };
+      return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       secureLogger.error('Failed to save session', {
@@ -172,7 +186,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async update(id: string, updates: UpdateSessionData): Promise<SessionEntity> {
     try {
-      const existingSession = this.sessions.get(id);
+      const existingSession = await this.store.findById(id);
       if (!existingSession) {
         throw new ValidationError('Session not found', 'session_id', 'SESSION_NOT_FOUND');
       }
@@ -207,14 +221,21 @@ export class SessionRepository implements Repository<SessionEntity, string> {
         }
       };
 
-      this.sessions.set(id, updatedSession);
+      const stored = await this.store.save(updatedSession);
+      if (stored.success === false) {
+        throw new InfrastructureError(
+          `Failed to store session: ${stored.error.message}`,
+          'SESSION_WRITE_FAILED',
+          'session_repository'
+        );
+      }
 
       secureLogger.info('Session updated successfully', {
         sessionId: id,
         updates: Object.keys(updates)
       });
 
-      return updatedSession;
+      return stored.data;
     } catch (error) {
       secureLogger.error('Failed to update session', {
         sessionId: id,
@@ -227,12 +248,15 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async delete(id: string): Promise<Result<void>> {
     try {
-      const existingSession = this.sessions.get(id);
+      const existingSession = await this.store.findById(id);
       if (!existingSession) {
         throw new ValidationError('Session not found', 'session_id', 'SESSION_NOT_FOUND');
       }
 
-      this.sessions.delete(id);
+      const result = await this.store.delete(id);
+      if (result.success === false) {
+        throw result.error;
+      }
 
       secureLogger.info('Session deleted successfully', {
         sessionId: id
@@ -251,8 +275,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async findByStatus(status: string): Promise<SessionEntity[]> {
     try {
-      return Array.from(this.sessions.values())
-        .filter(session => session.status.value === status)
+      return (await this.store.findBy('status', status))
         .sort((a, b) => b.metadata.updatedAt.getTime() - a.metadata.updatedAt.getTime());
     } catch (error) {
       secureLogger.error('Failed to find sessions by status', {
@@ -265,7 +288,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async getSessionStats(id: string): Promise<SessionEntity['stats'] | null> {
     try {
-      const session = this.sessions.get(id);
+      const session = await this.store.findById(id);
       return session?.stats || null;
     } catch (error) {
       secureLogger.error('Failed to get session stats', {
@@ -278,7 +301,7 @@ export class SessionRepository implements Repository<SessionEntity, string> {
 
   async updateSessionStats(id: string, stats: Partial<SessionEntity['stats']>): Promise<void> {
     try {
-      const session = this.sessions.get(id);
+      const session = await this.store.findById(id);
       if (!session) {
         throw new ValidationError('Session not found', 'session_id', 'SESSION_NOT_FOUND');
       }
@@ -292,7 +315,14 @@ export class SessionRepository implements Repository<SessionEntity, string> {
         }
       };
 
-      this.sessions.set(id, updatedSession);
+      const stored = await this.store.save(updatedSession);
+      if (stored.success === false) {
+        throw new InfrastructureError(
+          `Failed to store session: ${stored.error.message}`,
+          'SESSION_WRITE_FAILED',
+          'session_repository'
+        );
+      }
 
       secureLogger.debug('Session stats updated', {
         sessionId: id,
@@ -352,7 +382,8 @@ export class SessionRepository implements Repository<SessionEntity, string> {
   // Clear all sessions (for testing/reset)
   async clear(): Promise<void> {
     try {
-      this.sessions.clear();
+      const sessions = await this.store.findAll();
+      await Promise.all(sessions.map(session => this.store.delete(session.id.value)));
       secureLogger.info('All sessions cleared');
     } catch (error) {
       secureLogger.error('Failed to clear sessions', {
@@ -0,0 +1,85 @@
+/**
+ * DOMAIN: Session Row Mapper
+ * SessionEntity <-> строка trading_sessions
+ */
+
+import { EntityMapper } from '@/shared/infrastructure/persistence/StorageAdapter';
+import { SessionEntity, SessionStats, SessionValueObjects } from '@/domains/session/types';
+
+export interface SessionRow {
+  id: string;
+  session_name: string;
+  pair: string;
+  timeframe: string;
+  start_date: string;
+  start_time: string;
+  end_date: string | null;
+  current_candle_index: number;
+  status: SessionEntity['status']['value'];
+  description: string | null;
+  tags: string[];
+  stats: SessionStats | null;
+  created_at: string;
+  updated_at: string;
+  /** Только Supabase; по умолчанию auth.uid() */
+  user_id?: string;
+}
+
+const EMPTY_STATS: SessionStats = {
+  totalCandles: 0,
+  totalPredictions: 0,
+  accuratePredictions: 0,
+  accuracy: 0,
+  lastPrice: null,
+  priceChange: 0,
+  volume: 0,
+  volatility: 0
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// start_date/start_time хранятся в локальном времени, как их вводит пользователь
+const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const localTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+export const sessionMapper: EntityMapper<SessionEntity, SessionRow> = {
+  table: 'trading_sessions',
+
+  getId: session => session.id.value,
+
+  toRow: session => ({
+    id: session.id.value,
+    session_name: session.name.value,
+    pair: session.pair.symbol,
+    timeframe: session.timeframe.value,
+    start_date: localDate(session.startDate),
+    start_time: localTime(session.startDate),
+    end_date: session.endDate?.toISOString() ?? null,
+    current_candle_index: session.stats.totalCandles,
+    status: session.status.value,
+    description: session.metadata.description ?? null,
+    tags: [...session.metadata.tags],
+    stats: session.stats,
+    created_at: session.metadata.createdAt.toISOString(),
+    updated_at: session.metadata.updatedAt.toISOString(),
+    ...(session.metadata.createdBy ? { user_id: session.metadata.createdBy } : {})
+  }),
+
+  fromRow: row => ({
+    id: SessionValueObjects.sessionId(row.id),
+    name: SessionValueObjects.sessionName(row.session_name),
+    pair: SessionValueObjects.tradingPair(row.pair),
+    timeframe: SessionValueObjects.timeFrame(row.timeframe),
+    status: SessionValueObjects.sessionStatus(row.status ?? 'active'),
+    startDate: new Date(`${row.start_date}T${row.start_time}`),
+    endDate: row.end_date ? new Date(row.end_date) : undefined,
+    metadata: {
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      createdBy: row.user_id,
+      description: row.description ?? undefined,
+      tags: row.tags ?? []
+    },
+    stats: { ...EMPTY_STATS, totalCandles: row.current_candle_index ?? 0, ...row.stats }
+  })
+};
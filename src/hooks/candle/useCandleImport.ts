@@ -0,0 +1,83 @@
+import { useState, useMemo, useCallback } from 'react';
+import { TradingSession, CandleData } from '@/types/session';
+import { candleImportService, CandleImportPreview } from '@/services/import/CandleImportService';
+import { CandleImportFormat, ColumnMapping } from '@/services/import/candleImportParsers';
+import { useCandleActions } from '@/hooks/store/useCandleActions';
+
+export interface CandleImportSettings {
+  /** undefined — определить по файлу */
+  format?: CandleImportFormat;
+  timeZone: string;
+  mapping?: ColumnMapping;
+  overwriteExisting: boolean;
+}
+
+const DEFAULT_SETTINGS: CandleImportSettings = {
+  timeZone: 'UTC',
+  overwriteExisting: false
+};
+
+/**
+ * Импорт свечей из файла: чтение, предпросмотр и запись в сессию после подтверждения
+ */
+export const useCandleImport = (session: TradingSession | null, candles: CandleData[]) => {
+  const { saveCandlesBatch } = useCandleActions();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [settings, setSettings] = useState<CandleImportSettings>(DEFAULT_SETTINGS);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const preview = useMemo<CandleImportPreview | null>(() => {
+    if (!session || text === null) return null;
+    return candleImportService.preview(text, session, candles, {
+      format: settings.format,
+      timeZone: settings.timeZone,
+      mapping: settings.mapping
+    });
+  }, [session, candles, text, settings.format, settings.timeZone, settings.mapping]);
+
+  const candlesToImport = useMemo(
+    () => (preview ? candleImportService.getCandlesToImport(preview, settings.overwriteExisting) : []),
+    [preview, settings.overwriteExisting]
+  );
+
+  const loadFile = useCallback(async (file: File) => {
+    setFileName(file.name);
+    setText(await file.text());
+    // Сопоставление колонок относится к прежнему файлу
+    setSettings(prev => ({ ...prev, mapping: undefined }));
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<CandleImportSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const reset = useCallback(() => {
+    setFileName(null);
+    setText(null);
+    setSettings(DEFAULT_SETTINGS);
+  }, []);
+
+  const confirmImport = useCallback(async (): Promise<CandleData[]> => {
+    if (candlesToImport.length === 0) return [];
+
+    setIsImporting(true);
+    try {
+      return await saveCandlesBatch(candlesToImport);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [candlesToImport, saveCandlesBatch]);
+
+  return {
+    fileName,
+    preview,
+    settings,
+    candlesToImport,
+    isImporting,
+    loadFile,
+    updateSettings,
+    confirmImport,
+    reset
+  };
+};
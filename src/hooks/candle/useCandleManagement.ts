@@ -1,6 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
 import { CandleData, TradingSession } from '@/types/session';
 import { candleService } from '@/services/candleService';
+import { candleSyncService } from '@/services/offline/CandleSyncService';
 import { sessionService } from '@/services/sessionService';
 import { calculateCandleDateTime } from '@/utils/dateTimeUtils';
 import { validateCandleData } from '@/utils/candleValidation';
@@ -164,6 +165,17 @@ export const useCandleManagement = (
         candleData.candle_index
       );
       
+      // Свеча в офлайн-очереди: сервер недоступен, обновляем сессию локально
+      if (candleSyncService.hasPending(currentSession.id, candleData.candle_index)) {
+        console.log('📴 Свеча сохранена в офлайн-очередь');
+        setCurrentSession({
+          ...currentSession,
+          current_candle_index: newCandleIndex,
+          updated_at: new Date().toISOString()
+        });
+        return savedCandle;
+      }
+
       console.log(`📈 Обновляем индекс сессии: ${currentSession.current_candle_index} -> ${newCandleIndex}`);
       
       await sessionService.updateSessionCandleIndex(currentSession.id, newCandleIndex);
@@ -1,13 +0,0 @@
-export interface PatternResult {
-  name: string;
-  type: string;
-  confidence: number;
-  index: number;
-  strength: number;
-  description?: string;
-}
-
-export interface PatternDetectionConfig {
-  maxPatterns: number;
-  minConfidence: number;
-}
\ No newline at end of file
@@ -4,7 +4,7 @@ import { sessionController } from '@/controllers/SessionController';
 import { CandleData } from '@/types/session';
 
 export const useCandleActions = () => {
-  const { dispatch } = useTradingStore();
+  const { state, dispatch } = useTradingStore();
 
   // Save single candle
   const saveCandle = useCallback(async (candleData: CandleData) => {
@@ -70,10 +70,21 @@ export const useCandleActions = () => {
       
       const savedCandles = await sessionController.saveCandlesBatch(candles);
       
-      // Добавляем все свечи в состояние
-      savedCandles.forEach(candle => {
-        dispatch({ type: 'ADD_CANDLE', payload: candle });
+      // Заменяем свечи с теми же индексами и добавляем новые одним обновлением состояния
+      const savedIndexes = new Set(savedCandles.map(c => c.candle_index));
+      dispatch({
+        type: 'SET_CANDLES',
+        payload: [...state.candles.filter(c => !savedIndexes.has(c.candle_index)), ...savedCandles]
+          .sort((a, b) => a.candle_index - b.candle_index)
       });
+
+      const session = sessionController.getCurrentSession();
+      if (session) {
+        dispatch({
+          type: 'UPDATE_SESSION',
+          payload: { id: session.id, updates: { current_candle_index: session.current_candle_index } }
+        });
+      }
       
       return savedCandles;
     } catch (error) {
@@ -83,7 +94,7 @@ export const useCandleActions = () => {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [dispatch]);
+  }, [state.candles, dispatch]);
 
   // Delete last candle (convenience method)
   const deleteLastCandle = useCallback(async () => {
@@ -2,6 +2,8 @@ import { useCallback } from 'react';
 import { useTradingStore } from '@/store/TradingStore';
 import { sessionController } from '@/controllers/SessionController';
 import { TradingSession, CandleData } from '@/types/session';
+import { marketRegimeService } from '@/services/ml/MarketRegimeService';
+import { startMarketRegimeFit } from '@/services/ml/regime/sessionRegimeFit';
 
 export const useSessionActions = () => {
   const { dispatch } = useTradingStore();
@@ -61,6 +63,11 @@ export const useSessionActions = () => {
       const result = await sessionController.loadSession(sessionId);
       dispatch({ type: 'SET_CURRENT_SESSION', payload: result.session });
       dispatch({ type: 'SET_CANDLES', payload: result.candles });
+
+      // При старте сессий для модели режимов могло не хватить: пробуем снова
+      if (!marketRegimeService.isFitted()) {
+        startMarketRegimeFit();
+      }
       
       return result;
     } catch (error) {
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { candleSyncService, CandleSyncState } from '@/services/offline/CandleSyncService';
+
+/**
+ * State of the offline candle queue. Mounting the hook loads the queue
+ * from IndexedDB and replays it once the connection is back.
+ */
+export const useCandleSync = () => {
+  const [state, setState] = useState<CandleSyncState>(() => candleSyncService.getState());
+
+  useEffect(() => {
+    const unsubscribe = candleSyncService.subscribe(setState);
+    candleSyncService.start();
+    return unsubscribe;
+  }, []);
+
+  // Ручная синхронизация повторяет и операции, исчерпавшие попытки
+  const syncNow = useCallback(() => candleSyncService.retryFailed(), []);
+  const clearConflicts = useCallback(() => candleSyncService.clearConflicts(), []);
+
+  return {
+    ...state,
+    syncNow,
+    clearConflicts
+  };
+};
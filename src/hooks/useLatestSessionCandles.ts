@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { sessionService } from '@/services/sessionService';
+import { CandleData, TradingSession } from '@/types/session';
+
+/**
+ * Candles of the most recently updated stored session for a pair and timeframe
+ */
+export const useLatestSessionCandles = (pair: string, timeframe: string) => {
+  const [session, setSession] = useState<TradingSession | null>(null);
+  const [candles, setCandles] = useState<CandleData[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const sessions = await sessionService.loadSessions();
+        const latest = sessions
+          .filter(s => s.pair === pair && s.timeframe === timeframe)
+          .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())[0];
+
+        const loaded = latest ? await sessionService.loadSessionWithCandles(latest.id) : null;
+        if (cancelled) return;
+        setSession(loaded?.session ?? null);
+        setCandles(loaded?.candles ?? []);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Не удалось загрузить свечи сессии');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [pair, timeframe]);
+
+  return { session, candles, isLoading, error };
+};
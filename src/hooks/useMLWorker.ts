@@ -7,10 +7,15 @@ import { useRef, useCallback, useEffect, useState } from 'react';
 import { errorHandler, ErrorCategory } from '@/utils/errorHandler';
 import { logger } from '@/utils/logger';
 import { isPreviewEnvironment } from '@/utils/previewOptimization';
+import type { WalkForwardOptions, WalkForwardResult } from '@/services/backtesting/WalkForwardOptimizer';
+import type { CandleData } from '@/types/session';
+import { professionalMLService } from '@/services/ml/ProfessionalMLService';
+import type { RecurrentTrainingOptions, RecurrentTrainingResult } from '@/services/ml/ProfessionalMLService';
+import type { RecurrentNetworkJSON } from '@/services/ml/recurrent/recurrent-network';
 
 interface MLWorkerMessage {
   id: string;
-  type: 'FEATURE_EXTRACTION' | 'PREDICTION' | 'TRAINING' | 'CANCEL';
+  type: 'FEATURE_EXTRACTION' | 'PREDICTION' | 'TRAINING' | 'RECURRENT_TRAINING' | 'WALK_FORWARD' | 'CANCEL';
   payload: any;
 }
 
@@ -199,6 +204,37 @@ export const useMLWorker = () => {
     [sendMessage]
   );
 
+  // Train the recurrent ensemble member and load it into the main-thread service
+  const trainRecurrentModel = useCallback(
+    async (
+      series: CandleData[][],
+      options?: Partial<RecurrentTrainingOptions>,
+      onProgress?: (progress: number, status: string) => void
+    ): Promise<RecurrentTrainingResult> => {
+      const { result, model } = await sendMessage<{ result: RecurrentTrainingResult; model: RecurrentNetworkJSON | null }>(
+        'RECURRENT_TRAINING',
+        { series, options },
+        onProgress
+      );
+      professionalMLService.importRecurrentModel(model);
+      return result;
+    },
+    [sendMessage]
+  );
+
+  // Walk-forward parameter optimization
+  const runWalkForward = useCallback(
+    async (
+      candleData: CandleData[],
+      config: WalkForwardOptions,
+      onProgress?: (progress: number, status: string) => void
+    ): Promise<WalkForwardResult> => {
+      const { result } = await sendMessage<{ result: WalkForwardResult }>('WALK_FORWARD', { candleData, config }, onProgress);
+      return result;
+    },
+    [sendMessage]
+  );
+
   // Cancel computation
   const cancelComputation = useCallback(
     (requestId: string) => {
@@ -223,6 +259,8 @@ export const useMLWorker = () => {
     extractFeatures,
     generatePrediction,
     trainModel,
+    trainRecurrentModel,
+    runWalkForward,
     cancelComputation,
     cancelAllComputations,
     pendingRequestsCount: pendingRequests.current.size
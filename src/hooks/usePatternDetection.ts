@@ -1,77 +1,52 @@
 
 import { useMemo } from 'react';
 import { CandleData } from '@/types/session';
-import { PatternResult, PatternDetectionConfig } from './patterns/types';
-import { detectDoji, detectHammer } from './patterns/singleCandleDetectors';
-import { detectEngulfing } from './patterns/twoCandleDetectors';
-import { 
-  detectThreeWhiteSoldiers, 
-  detectThreeBlackCrows, 
-  detectMorningStar, 
-  detectEveningStar 
-} from './patterns/threeCandleDetectors';
-import { 
-  detectDoubleTop, 
-  detectHeadAndShoulders, 
-  detectFlagPattern 
-} from './patterns/complexPatternDetectors';
-import { 
-  isDuplicatePattern, 
-  sortPatternsByConfidence, 
-  filterPatternsByConfidence,
-  executeDetectorSafely 
-} from './patterns/patternUtils';
+import {
+  candlestickPatternRegistry,
+  CandlestickPatternMatch
+} from '@/services/patterns/CandlestickPatternRegistry';
+
+export interface PatternDetectionConfig {
+  maxPatterns: number;
+  minConfidence: number;
+}
 
 const DEFAULT_CONFIG: PatternDetectionConfig = {
   maxPatterns: 10,
   minConfidence: 60
 };
 
-// Мемоизируем массив детекторов для предотвращения пересоздания
-const PATTERN_DETECTORS = [
-  { fn: detectDoji, name: 'detectDoji' },
-  { fn: detectHammer, name: 'detectHammer' },
-  { fn: detectEngulfing, name: 'detectEngulfing' },
-  { fn: detectThreeWhiteSoldiers, name: 'detectThreeWhiteSoldiers' },
-  { fn: detectThreeBlackCrows, name: 'detectThreeBlackCrows' },
-  { fn: detectMorningStar, name: 'detectMorningStar' },
-  { fn: detectEveningStar, name: 'detectEveningStar' },
-  { fn: detectDoubleTop, name: 'detectDoubleTop' },
-  { fn: detectHeadAndShoulders, name: 'detectHeadAndShoulders' },
-  { fn: detectFlagPattern, name: 'detectFlagPattern' }
-];
+// Один и тот же паттерн на пересекающихся свечах считаем одним сигналом
+const removeOverlapping = (matches: CandlestickPatternMatch[]): CandlestickPatternMatch[] => {
+  const lastIndexById = new Map<string, number>();
+
+  return matches.filter(match => {
+    const lastIndex = lastIndexById.get(match.id);
+    if (lastIndex !== undefined && match.startIndex <= lastIndex) return false;
+    lastIndexById.set(match.id, match.index);
+    return true;
+  });
+};
 
 export const usePatternDetection = (
-  candles: CandleData[], 
+  candles: CandleData[],
   config: Partial<PatternDetectionConfig> = {}
 ) => {
   const finalConfig = useMemo(() => ({ ...DEFAULT_CONFIG, ...config }), [config]);
 
   const detectedPatterns = useMemo(() => {
     if (candles.length < 5) return [];
-    
-    const patterns: PatternResult[] = [];
-    
+
     // Оптимизация: обрабатываем только последние N свечей для лучшей производительности
     const maxCandlesToAnalyze = Math.min(candles.length, 100);
-    const startIndex = Math.max(0, candles.length - maxCandlesToAnalyze);
-    
-    // Проходим по свечам и ищем паттерны
-    for (let i = startIndex; i < candles.length; i++) {
-      for (const detector of PATTERN_DETECTORS) {
-        const pattern = executeDetectorSafely(detector.fn, candles, i, detector.name);
-        
-        if (pattern && !isDuplicatePattern(patterns, pattern, i)) {
-          patterns.push(pattern);
-        }
-      }
-    }
-    
-    // Фильтруем и сортируем
-    const filteredPatterns = filterPatternsByConfidence(patterns, finalConfig.minConfidence);
-    const sortedPatterns = sortPatternsByConfidence(filteredPatterns);
-    
-    return sortedPatterns.slice(0, finalConfig.maxPatterns);
+    const matches = candlestickPatternRegistry.detectRange(candles, {
+      startIndex: candles.length - maxCandlesToAnalyze,
+      minConfidence: finalConfig.minConfidence
+    });
+
+    return removeOverlapping(matches)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, finalConfig.maxPatterns);
   }, [candles, finalConfig.maxPatterns, finalConfig.minConfidence]);
 
   const hasPatterns = detectedPatterns.length > 0;
@@ -83,4 +58,4 @@ export const usePatternDetection = (
 };
 
 // Экспортируем типы для использования в других файлах
-export type { PatternResult } from './patterns/types';
+export type { CandlestickPatternMatch as PatternResult } from '@/services/patterns/CandlestickPatternRegistry';
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { sessionService } from '@/services/sessionService';
+import {
+  patternStatisticsService,
+  PatternReliabilityStats
+} from '@/services/patterns/PatternStatisticsService';
+
+/**
+ * Historical pattern reliability for a pair and timeframe.
+ * Stored sessions are scanned once per app run and shared between views.
+ */
+export const usePatternStatistics = (pair?: string, timeframe?: string) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const load = useCallback(async (force: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (force) patternStatisticsService.clear();
+      await patternStatisticsService.ensureScanned(sessionService);
+      setVersion(v => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось загрузить статистику паттернов');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const stats = useMemo<PatternReliabilityStats[]>(
+    () => (pair && timeframe ? patternStatisticsService.getAllStats({ pair, timeframe }) : []),
+    // version меняется после каждого сканирования
+    [pair, timeframe, version]
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    stats,
+    isLoading,
+    error,
+    refresh,
+    version
+  };
+};
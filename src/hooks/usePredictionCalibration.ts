@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  calibrationService,
+  FittedCalibration,
+  REAL_ML_MODEL
+} from '@/services/ml/CalibrationService';
+import { ledgerCalibrationSource } from '@/services/ml/calibration/ledgerCalibrationSource';
+
+/**
+ * Probability calibration of a model's ledger predictions for a pair.
+ * The ledger is fitted once per app run, at start; refreshing refits it.
+ */
+export const usePredictionCalibration = (pair?: string, model: string = REAL_ML_MODEL) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const load = useCallback(async (force: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (force) calibrationService.clear();
+      await calibrationService.ensureFitted(ledgerCalibrationSource);
+      setVersion(v => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось откалибровать прогнозы');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const calibration = useMemo<FittedCalibration | undefined>(
+    () => calibrationService.getCalibration(model, pair),
+    // version меняется после каждой подгонки
+    [model, pair, version]
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    calibration,
+    isLoading,
+    error,
+    refresh
+  };
+};
@@ -1,8 +1,12 @@
 
 import { useState, useCallback } from 'react';
-import { PredictionResult, PredictionConfig } from '@/types/trading';
+import { PredictionResult, PredictionConfig, ModelStatistics } from '@/types/trading';
 import { CandleData } from '@/types/session';
 import { predictionService } from '@/services/predictionService';
+import { predictionLedger } from '@/domains/prediction/infrastructure/PredictionLedger';
+
+/** Model id of the single-candle fallback, kept apart from the calibrated models in the ledger */
+const SINGLE_CANDLE_MODEL = 'single_candle';
 
 // Хранилище результатов для обучения модели
 const predictionHistory: Array<{ 
@@ -179,6 +183,7 @@ export const usePredictionGeneration = () => {
       interval: predictionConfig.predictionInterval,
       factors,
       recommendation,
+      modelId: SINGLE_CANDLE_MODEL,
       metadata: {
         modelAgreement: probability,
         riskScore: 100 - confidence,
@@ -342,27 +347,9 @@ export const usePredictionGeneration = () => {
     }
   }, []);
 
-  // Получение статистики модели
-  const getModelStats = useCallback(() => {
-    const completedPredictions = predictionHistory.filter(p => p.actualOutcome);
-    const accurateCount = completedPredictions.filter(p => p.result).length;
-    
-    const callPredictions = completedPredictions.filter(p => p.prediction.direction === 'UP');
-    const putPredictions = completedPredictions.filter(p => p.prediction.direction === 'DOWN');
-    
-    const callAccuracy = callPredictions.length > 0 ? 
-      (callPredictions.filter(p => p.result).length / callPredictions.length) * 100 : 0;
-    const putAccuracy = putPredictions.length > 0 ? 
-      (putPredictions.filter(p => p.result).length / putPredictions.length) * 100 : 0;
-    
-    return {
-      totalPredictions: completedPredictions.length,
-      accurateCount,
-      overallAccuracy: completedPredictions.length > 0 ? (accurateCount / completedPredictions.length) * 100 : 0,
-      callAccuracy,
-      putAccuracy,
-      currentWeights: predictionService.getModelWeights()
-    };
+  // Получение статистики модели по разрешенным прогнозам журнала
+  const getModelStats = useCallback((): ModelStatistics => {
+    return predictionLedger.getModelStatistics(predictionService.getModelWeights());
   }, []);
 
   // Batch генерация прогнозов
@@ -3,6 +3,9 @@ import { useCallback } from 'react';
 import { TradingSession, CandleData } from '@/types/session';
 import { usePredictionGeneration } from './usePredictionGeneration';
 import { useNewApplicationState } from './useNewApplicationState';
+import { predictionLedger } from '@/domains/prediction/infrastructure/PredictionLedger';
+import { PREDICTION_SERVICE_VERSION } from '@/services/predictionService';
+import { HEURISTIC_MODEL } from '@/services/ml/CalibrationService';
 
 interface UsePredictionLogicProps {
   currentSession: TradingSession | null;
@@ -26,12 +29,18 @@ export const usePredictionLogic = ({
       
       const predictionConfig = {
         predictionInterval: 5,
-        analysisMode: 'session' as const
+        analysisMode: 'session' as const,
+        pair
       };
 
       // Получаем исторические данные из состояния приложения
       const allCandles = [...candles, candleData].sort((a, b) => a.candle_index - b.candle_index);
 
+      // Новая свеча может быть свечой экспирации прежних прогнозов
+      await predictionLedger.resolve(currentSession.id, allCandles).catch(error =>
+        console.error('PredictionLogic: Failed to resolve ledger predictions:', error)
+      );
+
       // Используем продвинутую модель с историческими данными
       const prediction = await generatePrediction(candleData, predictionConfig, allCandles);
       
@@ -40,16 +49,23 @@ export const usePredictionLogic = ({
           ...candleData,
           prediction_direction: prediction.direction,
           prediction_probability: prediction.probability,
-          prediction_confidence: prediction.confidence
+          prediction_confidence: prediction.confidence,
+          prediction_interval: prediction.interval
         };
 
         await updateCandle(candleData.candle_index, updatedCandle);
+        await predictionLedger.record(prediction, {
+          sessionId: currentSession.id,
+          candle: candleData,
+          modelId: prediction.modelId ?? HEURISTIC_MODEL,
+          modelVersion: PREDICTION_SERVICE_VERSION
+        }).catch(error => console.error('PredictionLogic: Failed to record prediction in ledger:', error));
         console.log('PredictionLogic: Advanced prediction saved to candle');
       }
     } catch (error) {
       console.error('PredictionLogic: Error generating prediction:', error);
     }
-  }, [currentSession, generatePrediction, updateCandle, candles]);
+  }, [currentSession, pair, generatePrediction, updateCandle, candles]);
 
   return {
     handleCandleSaved
@@ -0,0 +1,38 @@
+import { useState, useCallback } from 'react';
+import { sessionService } from '@/services/sessionService';
+import {
+  sessionReplayService,
+  SessionReplayConfig,
+  SessionReplayResult
+} from '@/services/backtesting/SessionReplayService';
+
+/**
+ * Replay backtest of the predictions stored in a saved session
+ */
+export const useSessionReplay = () => {
+  const [result, setResult] = useState<SessionReplayResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const replay = useCallback(async (sessionId: string, config: Partial<SessionReplayConfig> = {}) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const replayed = await sessionReplayService.replaySession(sessionService, sessionId, config);
+      setResult(replayed);
+      return replayed;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось воспроизвести сессию');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    result,
+    isLoading,
+    error,
+    replay
+  };
+};
@@ -1,6 +1,9 @@
 
-import { useMemo } from 'react';
+import { useMemo, useEffect, useState } from 'react';
 import { TradingSession, CandleData, SessionStats } from '@/types/session';
+import { ModelStatistics } from '@/types/trading';
+import { predictionLedger } from '@/domains/prediction/infrastructure/PredictionLedger';
+import { predictionService } from '@/services/predictionService';
 
 export const useSessionStats = (currentSession: TradingSession | null, candles: CandleData[]) => {
   const sessionStats = useMemo((): SessionStats => {
@@ -44,10 +47,27 @@ export const useSessionStats = (currentSession: TradingSession | null, candles:
     };
   }, [currentSession?.id, candles]);
 
+  // Точность прогнозов сессии по журналу; обновляется при каждом разрешении
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+
+  useEffect(() => {
+    if (!currentSession) return;
+    const unsubscribe = predictionLedger.subscribe(() => setLedgerVersion(v => v + 1));
+    predictionLedger.loadSession(currentSession.id).catch(error =>
+      console.error('SessionStats: Failed to load prediction ledger:', error)
+    );
+    return unsubscribe;
+  }, [currentSession?.id]);
+
+  const predictionStats = useMemo((): ModelStatistics | null => {
+    if (!currentSession) return null;
+    return predictionLedger.getModelStatistics(predictionService.getModelWeights(), { sessionId: currentSession.id });
+  }, [currentSession?.id, ledgerVersion]);
+
   const nextCandleIndex = useMemo(() => {
     if (!currentSession) return 0;
     return Math.max(currentSession.current_candle_index + 1, candles.length);
   }, [currentSession?.current_candle_index, candles.length]);
 
-  return { sessionStats, nextCandleIndex };
+  return { sessionStats, nextCandleIndex, predictionStats };
 };
@@ -1,8 +1,9 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNewApplicationState } from "./useNewApplicationState";
 import { predictionService } from "@/services/predictionService";
 import { TechnicalIndicatorService } from "@/services/indicators/TechnicalIndicators";
+import { ExpressionSignalMatch, ExpressionSignalRule, ExpressionSignalSource } from "@/services/indicators/expression/signal-source";
 
 interface Signal {
   id: string;
@@ -15,8 +16,18 @@ interface Signal {
   technicalBasis: string;
 }
 
-export const useSignalGeneration = (pair: string, timeframe: string) => {
+export const useSignalGeneration = (pair: string, timeframe: string, rules: ExpressionSignalRule[] = []) => {
   const { currentSession, candles } = useNewApplicationState();
+  const rulesKey = JSON.stringify(rules);
+  // Источник сигналов по пользовательским выражениям (инкрементальный)
+  const expressionSource = useMemo(() => {
+    try {
+      return rules.length > 0 ? new ExpressionSignalSource(rules) : null;
+    } catch (error) {
+      console.error('Invalid signal rule expression:', error);
+      return null;
+    }
+  }, [rulesKey]);
   const [signals, setSignals] = useState<Signal[]>([]);
   const [overallSentiment, setOverallSentiment] = useState<'BULLISH' | 'BEARISH' | 'NEUTRAL'>('NEUTRAL');
   const [confidence, setConfidence] = useState(0);
@@ -43,7 +54,7 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
           const prediction = await predictionService.generateAdvancedPrediction(
             recentCandles,
             recentCandles.length - 1,
-            { predictionInterval: interval, analysisMode: 'session' as const }
+            { predictionInterval: interval, analysisMode: 'session' as const, pair: currentSession.pair }
           );
           
           if (prediction && prediction.probability > 65) {
@@ -74,6 +85,11 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
         const additionalSignals = generateIndicatorBasedSignals(recentCandles, technicalIndicators, currentCandle);
         newSignals.push(...additionalSignals);
 
+        // Сигналы по правилам-выражениям идут первыми, чтобы не терялись при фильтрации
+        if (expressionSource) {
+          newSignals.unshift(...generateExpressionSignals(expressionSource.update(candles)));
+        }
+
         // Фильтруем дублирующиеся сигналы
         const uniqueSignals = filterDuplicateSignals(newSignals);
         
@@ -95,7 +111,7 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
     generateRealSignals();
     const interval = setInterval(generateRealSignals, 30000); // Обновляем каждые 30 секунд
     return () => clearInterval(interval);
-  }, [currentSession, candles, pair, timeframe]);
+  }, [currentSession, candles, pair, timeframe, expressionSource]);
 
   const generateTechnicalReason = (prediction: any, indicators: any): string => {
     const reasons = [];
@@ -158,6 +174,19 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
     return signals;
   };
 
+  const generateExpressionSignals = (matches: ExpressionSignalMatch[]): Signal[] => {
+    return matches.map(match => ({
+      id: `rule-${match.rule.id}-${match.candleIndex}`,
+      type: match.rule.direction,
+      strength: match.rule.strength ?? 70,
+      timeLeft: match.rule.expiry,
+      reason: match.rule.name,
+      probability: match.rule.probability ?? 65,
+      entry: match.price,
+      technicalBasis: match.rule.condition
+    }));
+  };
+
   const filterDuplicateSignals = (signals: Signal[]): Signal[] => {
     const seen = new Set();
     return signals.filter(signal => {
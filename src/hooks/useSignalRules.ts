@@ -0,0 +1,52 @@
+import { useState, useCallback } from 'react';
+import { ExpressionSignalRule } from '@/services/indicators/expression/signal-source';
+import { compileExpression } from '@/services/indicators/expression/expression-evaluator';
+
+const STORAGE_KEY = 'signal_rules';
+
+const loadRules = (): ExpressionSignalRule[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (error) {
+    console.error('Ошибка загрузки правил сигналов:', error);
+    return [];
+  }
+};
+
+/**
+ * User expression rules for live signals, kept in localStorage.
+ * A rule is compiled before it is saved, so only valid conditions reach the signal source.
+ */
+export const useSignalRules = () => {
+  const [rules, setRules] = useState<ExpressionSignalRule[]>(loadRules);
+
+  const saveRules = useCallback((next: ExpressionSignalRule[]) => {
+    setRules(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Ошибка сохранения правил сигналов:', error);
+    }
+  }, []);
+
+  /**
+   * @returns Error message when the condition does not compile to a condition
+   */
+  const addRule = useCallback((rule: Omit<ExpressionSignalRule, 'id'>): string | null => {
+    try {
+      if (!compileExpression(rule.condition).isCondition()) {
+        return 'Выражение должно быть условием, например "RSI(14) crosses above 30"';
+      }
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Некорректное выражение';
+    }
+    saveRules([...rules, { ...rule, id: `rule-${Date.now()}` }]);
+    return null;
+  }, [rules, saveRules]);
+
+  const removeRule = useCallback((id: string) => {
+    saveRules(rules.filter(rule => rule.id !== id));
+  }, [rules, saveRules]);
+
+  return { rules, addRule, removeRule };
+};
@@ -1,6 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { startPredictionCalibration } from '@/services/ml/calibration/ledgerCalibrationSource'
+import { startMarketRegimeFit } from '@/services/ml/regime/sessionRegimeFit'
 
 console.log('Main.tsx executing...');
 
@@ -37,6 +39,11 @@ if (!rootElement) {
     const root = createRoot(rootElement);
     root.render(<App />);
     console.log('React app rendered successfully');
+
+    // Калибраторы прогнозов подгоняются по журналу до первых прогнозов
+    startPredictionCalibration();
+    // Модель рыночных режимов обучается на сохраненных сессиях
+    startMarketRegimeFit();
   } catch (error) {
     console.error('Render error:', error);
     // Показываем ошибку рендеринга на странице
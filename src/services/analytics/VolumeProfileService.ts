@@ -0,0 +1,283 @@
+/**
+ * Volume Profile Service
+ * Price-bucket volume histograms with point of control, value area and
+ * high/low volume nodes, plus TPO (market profile) letter profiles.
+ */
+
+import { CandleData } from '@/types/session';
+import { VolumeProfile } from '@/types/trading';
+import { getTimeframeMilliseconds, TimeframeValue } from '../indicators/timeframe/timeframe-resampler';
+
+export interface VolumeProfileBucket extends VolumeProfile {
+  /** Bucket bounds; `price` is the bucket midpoint */
+  low: number;
+  high: number;
+  /** TPO periods that traded in the bucket */
+  tpoCount: number;
+  /** Letters of those periods, in time order */
+  tpoLetters: string;
+  inValueArea: boolean;
+}
+
+export interface TPOProfile {
+  periods: number;
+  poc: number;
+  valueAreaHigh: number;
+  valueAreaLow: number;
+  /** Range of the first two periods */
+  initialBalanceHigh: number;
+  initialBalanceLow: number;
+}
+
+export interface VolumeProfileResult {
+  /** Buckets from the lowest price up */
+  buckets: VolumeProfileBucket[];
+  bucketSize: number;
+  totalVolume: number;
+  /** Point of control: midpoint of the highest-volume bucket */
+  poc: number;
+  valueAreaHigh: number;
+  valueAreaLow: number;
+  /** Midpoints of local volume peaks and troughs */
+  highVolumeNodes: number[];
+  lowVolumeNodes: number[];
+  tpo: TPOProfile;
+  /** candle_index range of the profiled candles */
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface VolumeProfileConfig {
+  bucketCount: number;
+  /** Share of volume (or TPOs) inside the value area */
+  valueAreaPercent: number;
+  /** Candles per TPO letter */
+  tpoPeriod: number;
+  /** Minimum peak volume of a high volume node, relative to the mean bucket */
+  highVolumeNodeRatio: number;
+  /** Maximum trough volume of a low volume node, relative to the mean bucket */
+  lowVolumeNodeRatio: number;
+}
+
+const DEFAULT_CONFIG: VolumeProfileConfig = {
+  bucketCount: 24,
+  valueAreaPercent: 0.7,
+  tpoPeriod: 1,
+  highVolumeNodeRatio: 1.2,
+  lowVolumeNodeRatio: 0.6
+};
+
+const TPO_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/** Length of one market profile period */
+const TPO_PERIOD_MS = 30 * 60 * 1000;
+
+/**
+ * Candles per 30-minute TPO period for a timeframe; 1 for unknown or long timeframes
+ */
+export function tpoPeriodForTimeframe(timeframe: string): number {
+  try {
+    return Math.max(1, Math.round(TPO_PERIOD_MS / getTimeframeMilliseconds(timeframe as TimeframeValue)));
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Expand from the peak to the larger neighbour until the share is reached
+ * @returns Inclusive bucket index range
+ */
+const expandValueArea = (values: number[], peak: number, percent: number): [number, number] => {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  let low = peak;
+  let high = peak;
+  let covered = values[peak];
+
+  while (covered < total * percent && (low > 0 || high < values.length - 1)) {
+    const above = high < values.length - 1 ? values[high + 1] : -1;
+    const below = low > 0 ? values[low - 1] : -1;
+    if (above >= below) covered += values[++high];
+    else covered += values[--low];
+  }
+
+  return [low, high];
+};
+
+/**
+ * Index of the largest value; ties go to the bucket nearest the middle
+ */
+const peakIndex = (values: number[]): number => {
+  const middle = (values.length - 1) / 2;
+  return values.reduce((best, value, i) =>
+    value > values[best] || (value === values[best] && Math.abs(i - middle) < Math.abs(best - middle)) ? i : best,
+  0);
+};
+
+export class VolumeProfileService {
+  private readonly config: VolumeProfileConfig;
+
+  constructor(config: Partial<VolumeProfileConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Profile of a whole candle series, e.g. one trading session.
+   * Each candle's volume is spread evenly over its high-low range.
+   */
+  buildProfile(candles: CandleData[], config: Partial<VolumeProfileConfig> = {}): VolumeProfileResult | null {
+    if (candles.length === 0) return null;
+    const settings = { ...this.config, ...config };
+    const { bucketCount, valueAreaPercent, tpoPeriod } = settings;
+
+    const rangeLow = Math.min(...candles.map(c => c.low));
+    const rangeHigh = Math.max(...candles.map(c => c.high));
+    const count = rangeHigh > rangeLow ? Math.max(1, bucketCount) : 1;
+    const bucketSize = count > 1 ? (rangeHigh - rangeLow) / count : Math.max(rangeHigh - rangeLow, 0);
+    const bucketOf = (price: number) =>
+      bucketSize > 0 ? Math.min(count - 1, Math.max(0, Math.floor((price - rangeLow) / bucketSize))) : 0;
+
+    const volumes = new Array<number>(count).fill(0);
+    const tpoCounts = new Array<number>(count).fill(0);
+    const tpoLetters = new Array<string>(count).fill('');
+
+    candles.forEach(candle => {
+      const first = bucketOf(candle.low);
+      const last = bucketOf(candle.high);
+      const range = candle.high - candle.low;
+
+      if (range <= 0 || first === last) {
+        volumes[bucketOf(candle.close)] += candle.volume;
+        return;
+      }
+      for (let b = first; b <= last; b++) {
+        const overlap = Math.min(candle.high, rangeLow + (b + 1) * bucketSize) - Math.max(candle.low, rangeLow + b * bucketSize);
+        volumes[b] += candle.volume * Math.max(overlap, 0) / range;
+      }
+    });
+
+    const period = Math.max(1, Math.floor(tpoPeriod));
+    const periods = Math.ceil(candles.length / period);
+    const periodRanges: Array<[number, number]> = [];
+
+    for (let p = 0; p < periods; p++) {
+      const slice = candles.slice(p * period, (p + 1) * period);
+      const low = Math.min(...slice.map(c => c.low));
+      const high = Math.max(...slice.map(c => c.high));
+      periodRanges.push([low, high]);
+      for (let b = bucketOf(low); b <= bucketOf(high); b++) {
+        tpoCounts[b]++;
+        tpoLetters[b] += TPO_LETTERS[p % TPO_LETTERS.length];
+      }
+    }
+
+    const totalVolume = volumes.reduce((sum, v) => sum + v, 0);
+    const midpoint = (b: number) => rangeLow + (b + 0.5) * bucketSize;
+
+    const pocBucket = peakIndex(volumes);
+    const [valueLow, valueHigh] = totalVolume > 0
+      ? expandValueArea(volumes, pocBucket, valueAreaPercent)
+      : [0, count - 1];
+
+    const tpoPocBucket = peakIndex(tpoCounts);
+    const [tpoLow, tpoHigh] = expandValueArea(tpoCounts, tpoPocBucket, valueAreaPercent);
+    const initialBalance = periodRanges.slice(0, 2);
+
+    const buckets: VolumeProfileBucket[] = volumes.map((volume, b) => ({
+      price: midpoint(b),
+      volume,
+      percentage: totalVolume > 0 ? (volume / totalVolume) * 100 : 0,
+      low: rangeLow + b * bucketSize,
+      high: rangeLow + (b + 1) * bucketSize,
+      tpoCount: tpoCounts[b],
+      tpoLetters: tpoLetters[b],
+      inValueArea: b >= valueLow && b <= valueHigh
+    }));
+
+    const { highVolumeNodes, lowVolumeNodes } = this.findNodes(volumes, settings);
+
+    return {
+      buckets,
+      bucketSize,
+      totalVolume,
+      poc: midpoint(pocBucket),
+      valueAreaHigh: rangeLow + (valueHigh + 1) * bucketSize,
+      valueAreaLow: rangeLow + valueLow * bucketSize,
+      highVolumeNodes: highVolumeNodes.map(midpoint),
+      lowVolumeNodes: lowVolumeNodes.map(midpoint),
+      tpo: {
+        periods,
+        poc: midpoint(tpoPocBucket),
+        valueAreaHigh: rangeLow + (tpoHigh + 1) * bucketSize,
+        valueAreaLow: rangeLow + tpoLow * bucketSize,
+        initialBalanceHigh: Math.max(...initialBalance.map(([, high]) => high)),
+        initialBalanceLow: Math.min(...initialBalance.map(([low]) => low))
+      },
+      startIndex: candles[0].candle_index,
+      endIndex: candles[candles.length - 1].candle_index
+    };
+  }
+
+  /**
+   * Profile of the `window` candles ending at `endIndex` (inclusive)
+   */
+  rollingProfile(
+    candles: CandleData[],
+    window: number,
+    endIndex: number = candles.length - 1,
+    config: Partial<VolumeProfileConfig> = {}
+  ): VolumeProfileResult | null {
+    return this.buildProfile(candles.slice(Math.max(0, endIndex - window + 1), endIndex + 1), config);
+  }
+
+  /**
+   * ML features for a candle from the rolling profile of the candles up to it:
+   * position in the value area, distance to POC, value area width relative
+   * to the range, and whether the close is inside the value area
+   */
+  getFeatures(candles: CandleData[], currentIndex: number, window: number): number[] {
+    const profile = this.rollingProfile(candles, window, currentIndex);
+    const close = candles[currentIndex]?.close;
+    if (!profile || !close || profile.bucketSize === 0) return [0, 0, 0, 0];
+
+    const valueWidth = profile.valueAreaHigh - profile.valueAreaLow;
+    const range = profile.bucketSize * profile.buckets.length;
+
+    return [
+      Math.tanh((close - (profile.valueAreaLow + valueWidth / 2)) / (valueWidth || range)),
+      Math.tanh((close - profile.poc) / range),
+      valueWidth / range,
+      close >= profile.valueAreaLow && close <= profile.valueAreaHigh ? 1 : 0
+    ];
+  }
+
+  /**
+   * Local peaks and troughs of the histogram smoothed with a 1-2-1 kernel
+   */
+  private findNodes(volumes: number[], config: VolumeProfileConfig): { highVolumeNodes: number[]; lowVolumeNodes: number[] } {
+    const at = (i: number) => volumes[Math.min(volumes.length - 1, Math.max(0, i))];
+    const smoothed = volumes.map((volume, i) => (at(i - 1) + 2 * volume + at(i + 1)) / 4);
+    const mean = volumes.reduce((sum, v) => sum + v, 0) / Math.max(volumes.length, 1);
+    const highVolumeNodes: number[] = [];
+    const lowVolumeNodes: number[] = [];
+
+    for (let i = 0; i < smoothed.length; i++) {
+      const left = i > 0 ? smoothed[i - 1] : -Infinity;
+      const right = i < smoothed.length - 1 ? smoothed[i + 1] : -Infinity;
+      if (smoothed[i] >= left && smoothed[i] > right && smoothed[i] >= mean * config.highVolumeNodeRatio) {
+        highVolumeNodes.push(i);
+      }
+    }
+
+    // Провалы учитываются только между двумя пиками
+    for (let i = 1; i < smoothed.length - 1; i++) {
+      const between = highVolumeNodes.some(h => h < i) && highVolumeNodes.some(h => h > i);
+      if (between && smoothed[i] <= smoothed[i - 1] && smoothed[i] < smoothed[i + 1] && smoothed[i] <= mean * config.lowVolumeNodeRatio) {
+        lowVolumeNodes.push(i);
+      }
+    }
+
+    return { highVolumeNodes, lowVolumeNodes };
+  }
+}
+
+export const volumeProfileService = new VolumeProfileService();
@@ -1,4 +1,10 @@
 import { CandleData } from '@/types/session';
+import { compileExpression, ExpressionStream } from '@/services/indicators/expression/expression-evaluator';
+import { candleToMarketDataPoint } from '@/services/indicators/core/market-data';
+import { BacktestEngine, StrategyContext } from './core/BacktestEngine';
+import { toBacktestBars, sessionCandleTime } from './core/bars';
+import { FillModelName } from './core/fill-models';
+import { BacktestResult as EngineBacktestResult, BacktestTrade, ExitReason } from './core/types';
 
 export interface AdvancedBacktestConfig {
   startDate: Date;
@@ -22,6 +28,9 @@ export interface AdvancedBacktestConfig {
   // Бенчмарки
   benchmarkSymbol?: string;
   riskFreeRate: number;
+
+  // Исполнение ордеров, по умолчанию по цене закрытия бара сигнала
+  fillModel?: FillModelName;
 }
 
 export interface AdvancedBacktestResult {
@@ -71,6 +80,9 @@ export interface AdvancedBacktestResult {
   drawdownPeriods: DrawdownPeriod[];
   performanceAttribution: PerformanceAttribution;
   riskDecomposition: RiskDecomposition;
+
+  // Полный отчет общего движка бэктестов
+  report?: EngineBacktestResult;
 }
 
 export interface AdvancedTrade {
@@ -222,6 +234,14 @@ export interface Position {
   maxAdverseExcursion: number;
 }
 
+const EXIT_REASONS: Record<ExitReason, string> = {
+  signal: 'Strategy exit',
+  stop_loss: 'Stop loss hit',
+  take_profit: 'Take profit hit',
+  end_of_data: 'End of backtest',
+  max_drawdown: 'Max drawdown halt'
+};
+
 export class AdvancedBacktestingService {
   private static instance: AdvancedBacktestingService;
   
@@ -257,71 +277,93 @@ export class AdvancedBacktestingService {
       throw new Error('No historical data available for the specified date range');
     }
 
-    const equityCurve: AdvancedEquityPoint[] = [];
-    const trades: AdvancedTrade[] = [];
-    let peak = config.initialCapital;
-    let maxDrawdown = 0;
-
-    // Основной цикл бэктестинга
-    for (let i = 1; i < filteredData.length; i++) {
-      const currentCandle = filteredData[i];
-      const currentPrice = currentCandle.close;
-      const currentDate = new Date(currentCandle.candle_datetime);
-
-      // Обновляем P&L открытых позиций
-      this.updatePositions(portfolio, currentPrice);
+    const engine = new BacktestEngine({
+      initialCapital: config.initialCapital,
+      fillModel: config.fillModel ?? 'close',
+      commission: { type: 'percent', rate: config.commission },
+      slippage: { type: 'percent', rate: config.slippage },
+      maxOpenPositions: config.maxPositions,
+      leverage: config.leverage,
+      riskFreeRate: config.riskFreeRate
+    });
 
-      // Проверяем stop-loss и take-profit
-      this.checkExitConditions(portfolio, currentPrice, config, trades);
+    // Состав позиций на закрытии каждого бара, для кривой доходности
+    const exposure: Array<{ longPositions: number; shortPositions: number; leverage: number }> = [];
+    let peak = config.initialCapital;
 
-      // Генерируем торговый сигнал
-      const signal = strategy.generateSignal(filteredData.slice(0, i + 1), i, portfolio);
-      
-      if (signal && signal.type !== 'hold') {
-        const trade = this.executeSignal(signal, currentCandle, portfolio, config, strategy);
-        if (trade) {
-          trades.push(trade);
-          strategy.onTrade(trade);
+    const report = engine.run(toBacktestBars(filteredData, sessionCandleTime), {
+      name: strategy.name,
+      onBar: context => {
+        this.syncPortfolio(portfolio, context, config);
+        if (context.index === 0) return;
+
+        // Выход по правилам стратегии; stop-loss и take-profit проверяет движок
+        portfolio.positions.forEach(position => {
+          if (strategy.shouldExit(position, context.bar.close, portfolio)) {
+            context.exit(position.id);
+          }
+        });
+
+        const signal = strategy.generateSignal(filteredData.slice(0, context.index + 1), context.index, portfolio);
+        if (signal && signal.type !== 'hold') {
+          context.enter({
+            side: signal.type === 'buy' ? 'long' : 'short',
+            notional: strategy.calculatePositionSize(signal, portfolio),
+            stopLoss: signal.stopLoss,
+            takeProfit: signal.takeProfit,
+            tag: signal.reason
+          });
+        }
+      },
+      onTrade: trade => {
+        const advancedTrade = this.toAdvancedTrade(trade, filteredData);
+        portfolio.trades.push(advancedTrade);
+        strategy.onTrade(advancedTrade);
+      },
+      onBarClose: context => {
+        const previous = portfolio.equity;
+        this.syncPortfolio(portfolio, context, config);
+        peak = Math.max(peak, context.equity);
+        if (context.index > 0 && previous > 0) {
+          portfolio.returns.push((context.equity - previous) / previous);
         }
+        portfolio.drawdowns.push((peak - context.equity) / peak);
+        exposure[context.index] = {
+          longPositions: portfolio.positions.filter(p => p.side === 'long').length,
+          shortPositions: portfolio.positions.filter(p => p.side === 'short').length,
+          leverage: portfolio.leverage
+        };
+        strategy.onMarketClose(new Date(context.bar.time), portfolio);
       }
+    });
 
-      // Обновляем метрики портфеля
-      portfolio.totalValue = portfolio.cash + this.calculatePositionsValue(portfolio, currentPrice);
-      portfolio.leverage = this.calculateLeverage(portfolio);
-
-      // Записываем точку equity curve
-      peak = Math.max(peak, portfolio.totalValue);
-      const currentDrawdown = (peak - portfolio.totalValue) / peak;
-      maxDrawdown = Math.max(maxDrawdown, currentDrawdown);
-
-      const equityPoint: AdvancedEquityPoint = {
-        date: currentDate,
-        equity: portfolio.totalValue,
-        drawdown: peak - portfolio.totalValue,
-        drawdownPercent: currentDrawdown,
+    const equityCurve: AdvancedEquityPoint[] = [];
+    report.equityCurve.forEach(point => {
+      // Последняя точка пересчитана после закрытия позиций в конце данных
+      const positions = point.openPositions > 0
+        ? exposure[point.index]
+        : { longPositions: 0, shortPositions: 0, leverage: 0 };
+      const pointPeak = point.drawdown < 1 ? point.equity / (1 - point.drawdown) : point.equity;
+
+      equityCurve.push({
+        date: new Date(point.time),
+        equity: point.equity,
+        drawdown: pointPeak - point.equity,
+        drawdownPercent: point.drawdown,
         rollingReturn: this.calculateRollingReturn(equityCurve, 20),
         rollingVolatility: this.calculateRollingVolatility(equityCurve, 20),
         rollingSharp: this.calculateRollingSharpe(equityCurve, 20),
-        longPositions: portfolio.positions.filter(p => p.side === 'long').length,
-        shortPositions: portfolio.positions.filter(p => p.side === 'short').length,
-        cash: portfolio.cash,
-        leverage: portfolio.leverage
-      };
-
-      equityCurve.push(equityPoint);
-
-      // Вызываем hook конца дня
-      strategy.onMarketClose(currentDate, portfolio);
-    }
-
-    // Закрываем все открытые позиции
-    this.closeAllPositions(portfolio, filteredData[filteredData.length - 1], config, trades);
+        ...positions,
+        cash: point.cash
+      });
+    });
 
     // Вычисляем результаты
     return this.calculateAdvancedResults(
-      trades, 
-      equityCurve, 
-      config, 
+      portfolio.trades,
+      equityCurve,
+      report,
+      config,
       benchmarkData ? this.filterDataByDateRange(benchmarkData, config.startDate, config.endDate) : undefined
     );
   }
@@ -505,6 +547,114 @@ export class AdvancedBacktestingService {
     };
   }
 
+  /**
+   * Создает стратегию из выражений индикаторов, например
+   * "RSI(14) < 30 AND close > BB(20, 2).lower AND MACD().histogram crosses above 0"
+   */
+  createExpressionStrategy(params: {
+    name: string;
+    buyWhen: string;
+    sellWhen?: string;
+    exitWhen?: string;
+    stopLoss?: number; // доля от цены входа
+    takeProfit?: number; // доля от цены входа
+    positionSize?: number; // доля от стоимости портфеля
+  }): AdvancedStrategy {
+    const stopLoss = params.stopLoss ?? 0.02;
+    const takeProfit = params.takeProfit ?? 0.04;
+    const positionSize = params.positionSize ?? 0.02;
+
+    // Компиляция сразу, чтобы ошибки в выражениях всплывали до запуска бэктеста
+    const rules = {
+      buy: compileExpression(params.buyWhen),
+      sell: params.sellWhen ? compileExpression(params.sellWhen) : null,
+      exit: params.exitWhen ? compileExpression(params.exitWhen) : null
+    };
+
+    let streams: { buy: ExpressionStream; sell: ExpressionStream | null; exit: ExpressionStream | null };
+    let processed = 0;
+    let exitTriggered = false;
+
+    const resetStreams = () => {
+      streams = {
+        buy: rules.buy.createStream(),
+        sell: rules.sell ? rules.sell.createStream() : null,
+        exit: rules.exit ? rules.exit.createStream() : null
+      };
+      processed = 0;
+      exitTriggered = false;
+    };
+    resetStreams();
+
+    return {
+      name: params.name,
+      description: `Expression strategy: buy when ${params.buyWhen}` +
+        (params.sellWhen ? `; sell when ${params.sellWhen}` : ''),
+      parameters: params,
+
+      initialize: (config: AdvancedBacktestConfig) => {
+        resetStreams();
+      },
+
+      generateSignal: (candles: CandleData[], index: number, portfolio: Portfolio): AdvancedSignal | null => {
+        if (index < processed - 1) {
+          resetStreams();
+        }
+
+        // Подаем в потоки только новые свечи - O(1) на бар
+        let buy = false;
+        let sell = false;
+        for (let i = processed; i <= index; i++) {
+          const point = candleToMarketDataPoint(candles[i]);
+          buy = streams.buy.push(point) === true;
+          sell = streams.sell ? streams.sell.push(point) === true : false;
+          exitTriggered = streams.exit ? streams.exit.push(point) === true : false;
+        }
+        processed = Math.max(processed, index + 1);
+
+        const current = candles[index];
+        if (buy && !sell) {
+          return {
+            type: 'buy',
+            strength: 1,
+            confidence: 1,
+            reason: params.buyWhen,
+            indicators: {},
+            riskLevel: 'medium',
+            stopLoss: current.close * (1 - stopLoss),
+            takeProfit: current.close * (1 + takeProfit)
+          };
+        }
+
+        if (sell && !buy) {
+          return {
+            type: 'sell',
+            strength: 1,
+            confidence: 1,
+            reason: params.sellWhen,
+            indicators: {},
+            riskLevel: 'medium',
+            stopLoss: current.close * (1 + stopLoss),
+            takeProfit: current.close * (1 - takeProfit)
+          };
+        }
+
+        return null;
+      },
+
+      calculatePositionSize: (signal: AdvancedSignal, portfolio: Portfolio): number => {
+        return portfolio.totalValue * positionSize * signal.confidence;
+      },
+
+      shouldExit: (position: Position, currentPrice: number, portfolio: Portfolio): boolean => {
+        return exitTriggered;
+      },
+
+      onTrade: (trade: AdvancedTrade) => {},
+      onMarketClose: (date: Date, portfolio: Portfolio) => {}
+    };
+  }
+
   // === ВСПОМОГАТЕЛЬНЫЕ МЕТОДЫ ===
 
   private initializePortfolio(config: AdvancedBacktestConfig): Portfolio {
@@ -529,212 +679,82 @@ export class AdvancedBacktestingService {
     });
   }
 
-  private updatePositions(portfolio: Portfolio, currentPrice: number): void {
-    portfolio.positions.forEach(position => {
-      const priceDiff = currentPrice - position.entryPrice;
-      position.unrealizedPnL = position.side === 'long' ? 
-        priceDiff * position.quantity : 
-        -priceDiff * position.quantity;
-      
-      // Update MAE и MFE
-      if (position.side === 'long') {
-        position.maxFavorableExcursion = Math.max(position.maxFavorableExcursion, priceDiff);
-        position.maxAdverseExcursion = Math.min(position.maxAdverseExcursion, priceDiff);
-      } else {
-        position.maxFavorableExcursion = Math.max(position.maxFavorableExcursion, -priceDiff);
-        position.maxAdverseExcursion = Math.min(position.maxAdverseExcursion, -priceDiff);
-      }
-    });
-  }
-
-  private checkExitConditions(
-    portfolio: Portfolio, 
-    currentPrice: number, 
-    config: AdvancedBacktestConfig, 
-    trades: AdvancedTrade[]
-  ): void {
-    const positionsToClose = portfolio.positions.filter(position => {
-      // Stop Loss
-      if (position.stopLoss) {
-        if ((position.side === 'long' && currentPrice <= position.stopLoss) ||
-            (position.side === 'short' && currentPrice >= position.stopLoss)) {
-          return true;
-        }
-      }
-      
-      // Take Profit
-      if (position.takeProfit) {
-        if ((position.side === 'long' && currentPrice >= position.takeProfit) ||
-            (position.side === 'short' && currentPrice <= position.takeProfit)) {
-          return true;
-        }
-      }
-      
-      return false;
-    });
-
-    positionsToClose.forEach(position => {
-      const trade = this.closePosition(position, currentPrice, config, 'Stop/Target hit');
-      trades.push(trade);
-      portfolio.positions = portfolio.positions.filter(p => p.id !== position.id);
-      portfolio.cash += trade.netPnL;
-    });
-  }
-
-  private executeSignal(
-    signal: AdvancedSignal,
-    candle: CandleData,
-    portfolio: Portfolio,
-    config: AdvancedBacktestConfig,
-    strategy: AdvancedStrategy
-  ): AdvancedTrade | null {
-    
-    const positionSize = strategy.calculatePositionSize(signal, portfolio);
-    const price = candle.close * (1 + (signal.type === 'buy' ? config.slippage : -config.slippage));
-    const quantity = positionSize / price;
-    const commission = positionSize * config.commission;
-    
-    // Проверяем достаточность средств
-    if (portfolio.cash < positionSize + commission) {
-      return null;
-    }
-
-    // Создаем позицию
-    const position: Position = {
-      id: `pos-${Date.now()}-${Math.random()}`,
+  /**
+   * Приводит состояние движка к портфелю, который видят стратегии
+   */
+  private syncPortfolio(portfolio: Portfolio, context: StrategyContext, config: AdvancedBacktestConfig): void {
+    const notional = context.positions.reduce((sum, p) => sum + Math.abs(p.quantity * p.entryPrice), 0);
+
+    portfolio.cash = context.cash;
+    portfolio.equity = context.equity;
+    portfolio.totalValue = context.equity;
+    portfolio.positions = context.positions.map(position => ({
+      id: position.id,
       symbol: 'SYMBOL',
-      quantity,
-      entryPrice: price,
-      entryDate: new Date(candle.candle_datetime),
-      side: signal.type === 'buy' ? 'long' : 'short',
-      stopLoss: signal.stopLoss,
-      takeProfit: signal.takeProfit,
-      unrealizedPnL: 0,
-      maxFavorableExcursion: 0,
-      maxAdverseExcursion: 0
-    };
-
-    portfolio.positions.push(position);
-    portfolio.cash -= positionSize + commission;
-
-    // Если это краткосрочная стратегия, сразу планируем выход
-    // (для демонстрации, в реальности определяется стратегией)
-    return null; // Trade создается при закрытии позиции
-  }
-
-  private closePosition(
-    position: Position, 
-    currentPrice: number, 
-    config: AdvancedBacktestConfig, 
-    exitReason: string
-  ): AdvancedTrade {
-    
-    const exitPrice = currentPrice * (1 + (position.side === 'long' ? -config.slippage : config.slippage));
-    const commission = position.quantity * exitPrice * config.commission;
-    
-    let grossPnL: number;
-    if (position.side === 'long') {
-      grossPnL = (exitPrice - position.entryPrice) * position.quantity;
-    } else {
-      grossPnL = (position.entryPrice - exitPrice) * position.quantity;
-    }
-    
-    const netPnL = grossPnL - commission;
-    const pnlPercent = netPnL / (position.entryPrice * position.quantity);
-    
-    return {
-      id: `trade-${Date.now()}`,
-      entryDate: position.entryDate,
-      exitDate: new Date(),
-      entryPrice: position.entryPrice,
-      exitPrice,
       quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      entryDate: new Date(position.entryTime),
       side: position.side,
-      grossPnL,
-      netPnL,
-      pnlPercent,
-      commission,
-      slippage: Math.abs(exitPrice - currentPrice),
-      holdingPeriod: (new Date().getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24),
-      maxFavorableExcursion: position.maxFavorableExcursion,
-      maxAdverseExcursion: position.maxAdverseExcursion,
-      entryReason: 'Strategy signal',
-      exitReason,
-      riskRewardRatio: position.maxFavorableExcursion / Math.abs(position.maxAdverseExcursion || 1),
-      volatilityDuringTrade: 0.02 // Placeholder
-    };
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      unrealizedPnL: position.unrealizedPnl,
+      // В портфеле MFE/MAE в единицах цены
+      maxFavorableExcursion: position.maxFavorableExcursion * position.entryPrice,
+      maxAdverseExcursion: position.maxAdverseExcursion * position.entryPrice
+    }));
+    portfolio.leverage = context.equity > 0 ? notional / context.equity : 0;
+    portfolio.marginUsed = config.leverage > 0 ? notional / config.leverage : notional;
+    portfolio.freeMargin = context.equity - portfolio.marginUsed;
   }
 
-  private closeAllPositions(
-    portfolio: Portfolio, 
-    lastCandle: CandleData, 
-    config: AdvancedBacktestConfig, 
-    trades: AdvancedTrade[]
-  ): void {
-    portfolio.positions.forEach(position => {
-      const trade = this.closePosition(position, lastCandle.close, config, 'End of backtest');
-      trades.push(trade);
-      portfolio.cash += trade.netPnL;
-    });
-    portfolio.positions = [];
-  }
-
-  private calculatePositionsValue(portfolio: Portfolio, currentPrice: number): number {
-    return portfolio.positions.reduce((total, position) => {
-      return total + (position.quantity * currentPrice);
-    }, 0);
-  }
+  private toAdvancedTrade(trade: BacktestTrade, candles: CandleData[]): AdvancedTrade {
+    const maxFavorableExcursion = trade.maxFavorableExcursion * trade.entryPrice;
+    const maxAdverseExcursion = trade.maxAdverseExcursion * trade.entryPrice;
+    const barsHeld = trade.exitIndex - trade.entryIndex;
 
-  private calculateLeverage(portfolio: Portfolio): number {
-    const positionValue = portfolio.positions.reduce((total, position) => {
-      return total + Math.abs(position.quantity * position.entryPrice);
-    }, 0);
-    
-    return portfolio.totalValue > 0 ? positionValue / portfolio.totalValue : 1;
+    return {
+      id: trade.id,
+      entryDate: new Date(trade.entryTime),
+      exitDate: new Date(trade.exitTime),
+      entryPrice: trade.entryPrice,
+      exitPrice: trade.exitPrice,
+      quantity: trade.quantity,
+      side: trade.side,
+      grossPnL: trade.grossPnl,
+      netPnL: trade.pnl,
+      pnlPercent: trade.pnlPercent,
+      commission: trade.commission,
+      slippage: trade.slippage,
+      holdingPeriod: (trade.exitTime - trade.entryTime) / (1000 * 60 * 60 * 24),
+      maxFavorableExcursion,
+      maxAdverseExcursion,
+      entryReason: trade.tag ?? 'Strategy signal',
+      exitReason: EXIT_REASONS[trade.exitReason],
+      riskRewardRatio: maxFavorableExcursion / Math.abs(maxAdverseExcursion || 1),
+      volatilityDuringTrade: barsHeld > 0 ? this.calculateVolatility(candles, trade.exitIndex, barsHeld) : 0
+    };
   }
 
   private calculateAdvancedResults(
     trades: AdvancedTrade[], 
     equityCurve: AdvancedEquityPoint[], 
+    report: EngineBacktestResult,
     config: AdvancedBacktestConfig,
     benchmarkData?: CandleData[]
   ): AdvancedBacktestResult {
     
     if (trades.length === 0 || equityCurve.length === 0) {
-      return this.getEmptyAdvancedResults();
+      return { ...this.getEmptyAdvancedResults(), report };
     }
 
-    // Основные расчеты
-    const totalReturn = (equityCurve[equityCurve.length - 1].equity - config.initialCapital) / config.initialCapital;
-    const daysInPeriod = equityCurve.length;
-    const annualizedReturn = Math.pow(1 + totalReturn, 365 / daysInPeriod) - 1;
-    
-    const returns = equityCurve.map((point, i) => 
-      i === 0 ? 0 : (point.equity - equityCurve[i - 1].equity) / equityCurve[i - 1].equity
-    ).slice(1);
-    
-    // Risk metrics
-    const maxDrawdown = Math.max(...equityCurve.map(point => point.drawdownPercent));
-    const sharpeRatio = this.calculateSharpeRatio(returns, config.riskFreeRate);
-    const sortinoRatio = this.calculateSortinoRatio(returns, config.riskFreeRate);
-    const calmarRatio = maxDrawdown === 0 ? 0 : annualizedReturn / maxDrawdown;
-    
-    // Trade analysis
-    const winningTrades = trades.filter(t => t.netPnL > 0);
-    const losingTrades = trades.filter(t => t.netPnL < 0);
-    const winRate = winningTrades.length / trades.length;
-    
-    const grossProfit = winningTrades.reduce((sum, t) => sum + t.netPnL, 0);
-    const grossLoss = Math.abs(losingTrades.reduce((sum, t) => sum + t.netPnL, 0));
-    const profitFactor = grossLoss === 0 ? (grossProfit > 0 ? Infinity : 0) : grossProfit / grossLoss;
-    
-    // Advanced metrics
-    const valueAtRisk95 = this.calculateVaR(returns, 0.05);
-    const expectedShortfall = this.calculateExpectedShortfall(returns, 0.05);
+    // Общие метрики считает движок
+    const { metrics, returns } = report;
+    const { totalReturn, maxDrawdown } = metrics;
+    const annualizedReturn = Math.pow(1 + totalReturn, 365 / equityCurve.length) - 1;
     const ulcerIndex = this.calculateUlcerIndex(equityCurve);
     
     // Monthly analysis
-    const monthlyReturns = this.calculateMonthlyPerformance(equityCurve);
+    const monthlyReturns = this.calculateMonthlyPerformance(equityCurve, trades);
     const drawdownPeriods = this.identifyDrawdownPeriods(equityCurve);
     
     // Benchmark comparison
@@ -756,17 +776,17 @@ export class AdvancedBacktestingService {
       totalReturn,
       annualizedReturn,
       maxDrawdown,
-      sharpeRatio,
-      sortinoRatio,
-      calmarRatio,
+      sharpeRatio: metrics.sharpeRatio,
+      sortinoRatio: metrics.sortinoRatio,
+      calmarRatio: maxDrawdown === 0 ? 0 : annualizedReturn / maxDrawdown,
       
       // Trading metrics
-      winRate,
-      profitFactor,
-      totalTrades: trades.length,
-      avgTradeReturn: trades.reduce((sum, t) => sum + t.netPnL, 0) / trades.length,
-      avgWinningTrade: winningTrades.length > 0 ? grossProfit / winningTrades.length : 0,
-      avgLosingTrade: losingTrades.length > 0 ? -grossLoss / losingTrades.length : 0,
+      winRate: metrics.winRate,
+      profitFactor: metrics.profitFactor,
+      totalTrades: metrics.totalTrades,
+      avgTradeReturn: metrics.expectancy,
+      avgWinningTrade: metrics.averageWin,
+      avgLosingTrade: -metrics.averageLoss,
       largestWin: Math.max(...trades.map(t => t.netPnL)),
       largestLoss: Math.min(...trades.map(t => t.netPnL)),
       
@@ -778,8 +798,9 @@ export class AdvancedBacktestingService {
       trackingError,
       
       // Advanced analytics
-      valueAtRisk95,
-      expectedShortfall,
+      // Доходности хвоста со знаком, как в отчетах этого сервиса
+      valueAtRisk95: -metrics.valueAtRisk95,
+      expectedShortfall: -metrics.expectedShortfall95,
       ulcerIndex,
       recoverFactor: maxDrawdown !== 0 ? totalReturn / maxDrawdown : 0,
       
@@ -788,8 +809,8 @@ export class AdvancedBacktestingService {
       worstMonth: monthlyReturns.length > 0 ? Math.min(...monthlyReturns.map(m => m.return)) : 0,
       avgMonthlyReturn: monthlyReturns.reduce((sum, m) => sum + m.return, 0) / monthlyReturns.length,
       monthlyWinRate: monthlyReturns.filter(m => m.return > 0).length / monthlyReturns.length,
-      maxConsecutiveWins: this.calculateMaxConsecutive(trades, true),
-      maxConsecutiveLosses: this.calculateMaxConsecutive(trades, false),
+      maxConsecutiveWins: metrics.maxConsecutiveWins,
+      maxConsecutiveLosses: metrics.maxConsecutiveLosses,
       
       // Details
       trades,
@@ -808,51 +829,13 @@ export class AdvancedBacktestingService {
         specificRisk: 0.3,   // Placeholder
         concentrationRisk: 0.1, // Placeholder
         liquidityRisk: 0.05     // Placeholder
-      }
+      },
+      report
     };
   }
 
   // === РАСЧЕТНЫЕ МЕТОДЫ ===
 
-  private calculateSharpeRatio(returns: number[], riskFreeRate: number): number {
-    if (returns.length === 0) return 0;
-    
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const annualizedReturn = avgReturn * 252;
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
-    const volatility = Math.sqrt(variance * 252);
-    
-    return volatility === 0 ? 0 : (annualizedReturn - riskFreeRate) / volatility;
-  }
-
-  private calculateSortinoRatio(returns: number[], riskFreeRate: number): number {
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const annualizedReturn = avgReturn * 252;
-    
-    const negativeReturns = returns.filter(r => r < 0);
-    if (negativeReturns.length === 0) return Infinity;
-    
-    const downwardDeviation = Math.sqrt(
-      negativeReturns.reduce((sum, r) => sum + Math.pow(r, 2), 0) / negativeReturns.length * 252
-    );
-    
-    return downwardDeviation === 0 ? 0 : (annualizedReturn - riskFreeRate) / downwardDeviation;
-  }
-
-  private calculateVaR(returns: number[], confidenceLevel: number): number {
-    const sortedReturns = [...returns].sort((a, b) => a - b);
-    const index = Math.floor(confidenceLevel * sortedReturns.length);
-    return sortedReturns[index] || 0;
-  }
-
-  private calculateExpectedShortfall(returns: number[], confidenceLevel: number): number {
-    const var95 = this.calculateVaR(returns, confidenceLevel);
-    const tailReturns = returns.filter(r => r <= var95);
-    return tailReturns.length > 0 
-      ? tailReturns.reduce((sum, r) => sum + r, 0) / tailReturns.length 
-      : 0;
-  }
-
   private calculateUlcerIndex(equityCurve: AdvancedEquityPoint[]): number {
     const drawdowns = equityCurve.map(point => Math.pow(point.drawdownPercent, 2));
     const avgSquaredDrawdown = drawdowns.reduce((sum, dd) => sum + dd, 0) / drawdowns.length;
@@ -985,7 +968,7 @@ export class AdvancedBacktestingService {
     return rollingVol === 0 ? 0 : rollingReturn / rollingVol;
   }
 
-  private calculateMonthlyPerformance(equityCurve: AdvancedEquityPoint[]): MonthlyPerformance[] {
+  private calculateMonthlyPerformance(equityCurve: AdvancedEquityPoint[], trades: AdvancedTrade[]): MonthlyPerformance[] {
     const monthlyData = new Map<string, AdvancedEquityPoint[]>();
     
     equityCurve.forEach(point => {
@@ -1023,7 +1006,8 @@ export class AdvancedBacktestingService {
         year,
         month: month + 1,
         return: monthReturn,
-        trades: 0, // Placeholder - нужна привязка к сделкам
+        // Сделка относится к месяцу закрытия
+        trades: trades.filter(t => t.exitDate.getFullYear() === year && t.exitDate.getMonth() === month).length,
         winRate,
         volatility,
         maxDrawdown
@@ -1065,24 +1049,6 @@ export class AdvancedBacktestingService {
     
     return periods;
   }
-
-  private calculateMaxConsecutive(trades: AdvancedTrade[], wins: boolean): number {
-    let maxConsecutive = 0;
-    let currentConsecutive = 0;
-    
-    trades.forEach(trade => {
-      const isWin = trade.netPnL > 0;
-      if (isWin === wins) {
-        currentConsecutive++;
-        maxConsecutive = Math.max(maxConsecutive, currentConsecutive);
-      } else {
-        currentConsecutive = 0;
-      }
-    });
-    
-    return maxConsecutive;
-  }
-
   private calculateBenchmarkReturns(benchmarkData: CandleData[]): number[] {
     const returns: number[] = [];
     for (let i = 1; i < benchmarkData.length; i++) {
@@ -1,4 +1,9 @@
 import { CandleData } from '@/types/session';
+import { MarketRegime, RegimeLabel, RegimePerformance, summarizeByRegime } from '../ml/MarketRegimeService';
+import { BacktestEngine } from './core/BacktestEngine';
+import { toBacktestBars, sessionCandleTime } from './core/bars';
+import { FillModelName } from './core/fill-models';
+import { BacktestResult as EngineBacktestResult } from './core/types';
 
 export interface BacktestConfig {
   startDate: Date;
@@ -8,6 +13,10 @@ export interface BacktestConfig {
   slippage: number;
   maxPositions: number;
   riskPerTrade: number;
+  // Метки режимов рынка по candle_index, для разбивки результатов по режимам
+  regimeLabels?: RegimeLabel[];
+  // Исполнение ордеров и стопов, по умолчанию стопы по high/low
+  fillModel?: FillModelName;
 }
 
 export interface BacktestResult {
@@ -26,6 +35,9 @@ export interface BacktestResult {
   trades: Trade[];
   equityCurve: EquityPoint[];
   monthlyReturns: MonthlyReturn[];
+  regimePerformance?: RegimePerformance[];
+  // Полный отчет общего движка бэктестов
+  report?: EngineBacktestResult;
 }
 
 export interface Trade {
@@ -40,6 +52,7 @@ export interface Trade {
   holdingPeriod: number;
   commission: number;
   slippage: number;
+  regime?: MarketRegime; // Режим рынка на момент входа
 }
 
 export interface EquityPoint {
@@ -80,20 +93,13 @@ export class BacktestingService {
   }
 
   /**
-   * Запускает бэктест стратегии
+   * Запускает бэктест стратегии на общем движке бэктестов
    */
   async runBacktest(
     strategy: Strategy,
     historicalData: CandleData[],
     config: BacktestConfig
   ): Promise<BacktestResult> {
-    const trades: Trade[] = [];
-    const equityCurve: EquityPoint[] = [];
-    let currentEquity = config.initialCapital;
-    let peak = config.initialCapital;
-    let maxDrawdown = 0;
-    let openPosition: any = null;
-
     // Фильтруем данные по датам
     const filteredData = this.filterDataByDateRange(historicalData, config.startDate, config.endDate);
     
@@ -103,48 +109,57 @@ export class BacktestingService {
 
     console.log(`Запуск бэктеста ${strategy.name}: ${filteredData.length} свечей`);
 
-    for (let i = 1; i < filteredData.length; i++) {
-      const currentCandle = filteredData[i];
-      const signal = strategy.generate(filteredData.slice(0, i + 1), i);
-
-      // Закрытие позиции
-      if (openPosition) {
-        const shouldClose = this.shouldClosePosition(openPosition, currentCandle, signal);
-        
-        if (shouldClose) {
-          const trade = this.closePosition(openPosition, currentCandle, config);
-          trades.push(trade);
-          currentEquity += trade.pnl;
-          openPosition = null;
-        }
-      }
+    const engine = new BacktestEngine({
+      initialCapital: config.initialCapital,
+      fillModel: config.fillModel ?? 'intrabar',
+      commission: { type: 'percent', rate: config.commission },
+      slippage: { type: 'percent', rate: config.slippage },
+      sizing: { type: 'risk_percent', fraction: config.riskPerTrade, fallbackFraction: config.riskPerTrade },
+      maxOpenPositions: 1,
+      // Размер позиции ограничен только риском на сделку
+      leverage: Number.POSITIVE_INFINITY,
+      riskFreeRate: 0.02
+    });
 
-      // Открытие новой позиции
-      if (!openPosition && signal && trades.length < config.maxPositions * 100) {
-        openPosition = this.openPosition(signal, currentCandle, currentEquity, config);
+    const report = engine.run(toBacktestBars(filteredData, sessionCandleTime), {
+      name: strategy.name,
+      onBar: context => {
+        if (context.index === 0) return;
+        const signal = strategy.generate(filteredData.slice(0, context.index + 1), context.index);
+        if (!signal) return;
+
+        const side = signal.type === 'buy' ? 'long' : 'short';
+        const open = context.positions[0];
+        if (open && open.side === side) return;
+        // Противоположный сигнал закрывает позицию и открывает новую
+        if (open) context.exit(open.id);
+
+        const price = context.bar.close;
+        context.enter({
+          side,
+          stopLoss: signal.stopLoss || price * (side === 'long' ? 0.98 : 1.02),
+          takeProfit: signal.takeProfit || price * (side === 'long' ? 1.04 : 0.96)
+        });
       }
+    });
 
-      // Обновление кривой доходности
-      peak = Math.max(peak, currentEquity);
-      const drawdown = (peak - currentEquity) / peak;
-      maxDrawdown = Math.max(maxDrawdown, drawdown);
-
-      equityCurve.push({
-        date: new Date(currentCandle.created_at),
-        equity: currentEquity,
-        drawdown: drawdown
-      });
-    }
-
-    // Закрываем открытую позицию в конце
-    if (openPosition) {
-      const lastCandle = filteredData[filteredData.length - 1];
-      const trade = this.closePosition(openPosition, lastCandle, config);
-      trades.push(trade);
-      currentEquity += trade.pnl;
-    }
-
-    return this.calculateResults(trades, equityCurve, config);
+    const regimeByCandle = new Map(config.regimeLabels?.map(label => [label.candleIndex, label.regime]));
+    const trades: Trade[] = report.trades.map(trade => ({
+      entryDate: new Date(trade.entryTime),
+      exitDate: new Date(trade.exitTime),
+      entryPrice: trade.entryPrice,
+      exitPrice: trade.exitPrice,
+      quantity: trade.quantity,
+      side: trade.side,
+      pnl: trade.pnl,
+      pnlPercent: trade.pnlPercent,
+      holdingPeriod: (trade.exitTime - trade.entryTime) / (1000 * 60 * 60 * 24),
+      commission: trade.commission,
+      slippage: trade.slippage,
+      regime: regimeByCandle.get(filteredData[trade.entryIndex].candle_index)
+    }));
+
+    return this.toResult(report, trades, config);
   }
 
   /**
@@ -252,131 +267,41 @@ export class BacktestingService {
 
   private filterDataByDateRange(data: CandleData[], startDate: Date, endDate: Date): CandleData[] {
     return data.filter(candle => {
-      const candleDate = new Date(candle.created_at);
+      const candleDate = new Date(candle.candle_datetime);
       return candleDate >= startDate && candleDate <= endDate;
     });
   }
 
-  private shouldClosePosition(position: any, candle: CandleData, signal: Signal | null): boolean {
-    // Стоп-лосс или тейк-профит
-    if (position.side === 'long') {
-      if (candle.low <= position.stopLoss || candle.high >= position.takeProfit) {
-        return true;
-      }
-    } else {
-      if (candle.high >= position.stopLoss || candle.low <= position.takeProfit) {
-        return true;
-      }
-    }
-
-    // Противоположный сигнал
-    if (signal && signal.type !== position.side.replace('long', 'buy').replace('short', 'sell')) {
-      return true;
-    }
-
-    return false;
-  }
-
-  private openPosition(signal: Signal, candle: CandleData, equity: number, config: BacktestConfig): any {
-    const riskAmount = equity * config.riskPerTrade;
-    const entryPrice = candle.close * (1 + (signal.type === 'buy' ? config.slippage : -config.slippage));
-    
-    let stopLoss = signal.stopLoss || entryPrice * (signal.type === 'buy' ? 0.98 : 1.02);
-    let takeProfit = signal.takeProfit || entryPrice * (signal.type === 'buy' ? 1.04 : 0.96);
-    
-    const riskPerShare = Math.abs(entryPrice - stopLoss);
-    const quantity = riskAmount / riskPerShare;
-
-    return {
-      entryDate: new Date(candle.created_at),
-      entryPrice,
-      quantity,
-      side: signal.type === 'buy' ? 'long' : 'short',
-      stopLoss,
-      takeProfit,
-      signal
-    };
-  }
-
-  private closePosition(position: any, candle: CandleData, config: BacktestConfig): Trade {
-    const exitPrice = candle.close * (1 + (position.side === 'long' ? -config.slippage : config.slippage));
-    const commission = position.quantity * exitPrice * config.commission;
-    
-    let pnl: number;
-    if (position.side === 'long') {
-      pnl = (exitPrice - position.entryPrice) * position.quantity - commission;
-    } else {
-      pnl = (position.entryPrice - exitPrice) * position.quantity - commission;
-    }
-
-    const pnlPercent = pnl / (position.entryPrice * position.quantity);
-    const holdingPeriod = (new Date(candle.created_at).getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24);
-
-    return {
-      entryDate: position.entryDate,
-      exitDate: new Date(candle.created_at),
-      entryPrice: position.entryPrice,
-      exitPrice,
-      quantity: position.quantity,
-      side: position.side,
-      pnl,
-      pnlPercent,
-      holdingPeriod,
-      commission,
-      slippage: Math.abs(exitPrice - candle.close)
-    };
-  }
-
-  private calculateResults(trades: Trade[], equityCurve: EquityPoint[], config: BacktestConfig): BacktestResult {
+  private toResult(report: EngineBacktestResult, trades: Trade[], config: BacktestConfig): BacktestResult {
     if (trades.length === 0) {
-      return this.getEmptyResults();
+      return { ...this.getEmptyResults(), report };
     }
 
-    const totalPnL = trades.reduce((sum, trade) => sum + trade.pnl, 0);
-    const totalReturn = totalPnL / config.initialCapital;
-    
-    const daysInPeriod = equityCurve.length;
-    const annualizedReturn = Math.pow(1 + totalReturn, 365 / daysInPeriod) - 1;
-    
-    const maxDrawdown = Math.max(...equityCurve.map(point => point.drawdown));
-    
-    const returns = equityCurve.map((point, i) => 
-      i === 0 ? 0 : (point.equity - equityCurve[i-1].equity) / equityCurve[i-1].equity
-    ).slice(1);
-    
-    const sharpeRatio = this.calculateSharpeRatio(returns);
-    const winningTrades = trades.filter(t => t.pnl > 0);
-    const winRate = winningTrades.length / trades.length;
-    
-    const grossProfit = winningTrades.reduce((sum, t) => sum + t.pnl, 0);
-    const grossLoss = Math.abs(trades.filter(t => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0));
-    const profitFactor = grossLoss === 0 ? (grossProfit > 0 ? Infinity : 0) : grossProfit / grossLoss;
-    
-    const avgTradeReturn = totalPnL / trades.length;
-    const bestTrade = Math.max(...trades.map(t => t.pnl));
-    const worstTrade = Math.min(...trades.map(t => t.pnl));
-    
-    const calmarRatio = maxDrawdown === 0 ? 0 : annualizedReturn / maxDrawdown;
-    const recoveryFactor = maxDrawdown === 0 ? 0 : totalReturn / maxDrawdown;
-    
-    const monthlyReturns = this.calculateMonthlyReturns(equityCurve);
+    const { metrics } = report;
+    const annualizedReturn = Math.pow(1 + metrics.totalReturn, 365 / report.equityCurve.length) - 1;
 
     return {
-      totalReturn,
+      totalReturn: metrics.totalReturn,
       annualizedReturn,
-      maxDrawdown,
-      sharpeRatio,
-      winRate,
-      profitFactor,
-      totalTrades: trades.length,
-      avgTradeReturn,
-      bestTrade,
-      worstTrade,
-      calmarRatio,
-      recoveryFactor,
+      maxDrawdown: metrics.maxDrawdown,
+      sharpeRatio: metrics.sharpeRatio,
+      winRate: metrics.winRate,
+      profitFactor: metrics.profitFactor,
+      totalTrades: metrics.totalTrades,
+      avgTradeReturn: metrics.expectancy,
+      bestTrade: Math.max(...trades.map(t => t.pnl)),
+      worstTrade: Math.min(...trades.map(t => t.pnl)),
+      calmarRatio: metrics.maxDrawdown === 0 ? 0 : annualizedReturn / metrics.maxDrawdown,
+      recoveryFactor: metrics.maxDrawdown === 0 ? 0 : metrics.totalReturn / metrics.maxDrawdown,
       trades,
-      equityCurve,
-      monthlyReturns
+      equityCurve: report.equityCurve.map(point => ({
+        date: new Date(point.time),
+        equity: point.equity,
+        drawdown: point.drawdown
+      })),
+      monthlyReturns: report.monthlyReturns,
+      regimePerformance: config.regimeLabels ? summarizeByRegime(trades) : undefined,
+      report
     };
   }
 
@@ -431,45 +356,6 @@ export class BacktestingService {
     const rs = avgGain / avgLoss;
     return 100 - (100 / (1 + rs));
   }
-
-  private calculateSharpeRatio(returns: number[], riskFreeRate: number = 0.02): number {
-    if (returns.length === 0) return 0;
-
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const annualizedReturn = avgReturn * 252; // Торговые дни в году
-    
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
-    const volatility = Math.sqrt(variance * 252);
-
-    return volatility === 0 ? 0 : (annualizedReturn - riskFreeRate) / volatility;
-  }
-
-  private calculateMonthlyReturns(equityCurve: EquityPoint[]): MonthlyReturn[] {
-    const monthlyData = new Map<string, { start: number; end: number }>();
-
-    for (const point of equityCurve) {
-      const year = point.date.getFullYear();
-      const month = point.date.getMonth();
-      const key = `${year}-${month}`;
-
-      if (!monthlyData.has(key)) {
-        monthlyData.set(key, { start: point.equity, end: point.equity });
-      } else {
-        monthlyData.get(key)!.end = point.equity;
-      }
-    }
-
-    return Array.from(monthlyData.entries()).map(([key, data]) => {
-      const [year, month] = key.split('-').map(Number);
-      const returnValue = data.start === 0 ? 0 : (data.end - data.start) / data.start;
-      
-      return {
-        year,
-        month: month + 1, // JavaScript months are 0-indexed
-        return: returnValue
-      };
-    });
-  }
 }
 
 export const backtestingService = BacktestingService.getInstance();
\ No newline at end of file
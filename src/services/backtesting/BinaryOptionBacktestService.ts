@@ -0,0 +1,312 @@
+/**
+ * Binary Option Backtest Service
+ * Fixed-expiry, fixed-payout backtesting: every CALL/PUT prediction is settled
+ * at expiry against the close price, instead of stop-loss/take-profit exits.
+ */
+
+import { CandleData } from '@/types/session';
+import { PredictionResult } from '@/types/trading';
+import { Strategy } from './BacktestingService';
+
+export type BinaryOptionOutcome = 'won' | 'lost' | 'expired';
+
+export interface BinaryOptionSignal {
+  /** Position of the signal candle in the candle array; entry is at its close */
+  index: number;
+  /** UP = CALL, DOWN = PUT */
+  direction: PredictionResult['direction'];
+  /** Expiry in minutes, as in PredictionResult.interval */
+  interval: number;
+  probability?: number;
+  confidence?: number;
+}
+
+export interface BinaryOptionBacktestConfig {
+  initialCapital: number;
+  /** Profit of a winning option as a share of the stake, e.g. 0.8 pays 80% */
+  payoutRatio: number;
+  /** 'refund' returns the stake when expiry price equals entry price, 'loss' loses it */
+  tieRule: 'refund' | 'loss';
+  stakeMode: 'fixed' | 'percent';
+  /** Currency amount for 'fixed', share of current equity for 'percent' */
+  stake: number;
+  /** Signals below this confidence are not traded */
+  minConfidence: number;
+  maxConcurrentOptions: number;
+}
+
+export interface BinaryOptionTrade {
+  signalIndex: number;
+  expiryIndex: number;
+  entryTime: number;
+  expiryTime: number;
+  direction: PredictionResult['direction'];
+  entryPrice: number;
+  expiryPrice: number;
+  stake: number;
+  /** 'expired' means a tie that was refunded */
+  outcome: BinaryOptionOutcome;
+  pnl: number;
+  confidence?: number;
+}
+
+export interface BinaryOptionEquityPoint {
+  timestamp: number;
+  equity: number;
+  drawdown: number;
+}
+
+export interface BinaryOptionBacktestResult {
+  trades: BinaryOptionTrade[];
+  metrics: {
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    ties: number;
+    /** wins / (wins + losses); refunded ties are left out */
+    winRate: number;
+    /** Win rate at which expectancy is zero for the configured payout */
+    breakEvenWinRate: number;
+    /** Mean P&L per trade in currency */
+    expectancy: number;
+    /** Mean P&L per unit of stake */
+    expectancyPerStake: number;
+    callAccuracy: number;
+    putAccuracy: number;
+    totalPnl: number;
+    totalReturnPercent: number;
+    finalEquity: number;
+    maxDrawdown: number;
+    maxConsecutiveLosses: number;
+    /** Signals not traded: low confidence, no expiry candle, no capital or slots */
+    skippedSignals: number;
+  };
+  /** Equity after every settlement, starting with the initial capital */
+  equityCurve: BinaryOptionEquityPoint[];
+  config: BinaryOptionBacktestConfig;
+}
+
+const DEFAULT_CONFIG: BinaryOptionBacktestConfig = {
+  initialCapital: 10000,
+  payoutRatio: 0.8,
+  tieRule: 'refund',
+  stakeMode: 'percent',
+  stake: 0.01,
+  minConfidence: 0,
+  maxConcurrentOptions: 1
+};
+
+const candleTime = (candle: CandleData) => new Date(candle.candle_datetime).getTime();
+
+/**
+ * Win rate needed to break even: a win pays `payoutRatio` of the stake, a loss costs the stake
+ */
+export const breakEvenWinRate = (payoutRatio: number): number => 1 / (1 + payoutRatio);
+
+export class BinaryOptionBacktestService {
+  private readonly config: BinaryOptionBacktestConfig;
+
+  constructor(config: Partial<BinaryOptionBacktestConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Settle each signal at the first candle whose open time is at least
+   * `interval` minutes after the signal candle's open time
+   */
+  runBacktest(
+    candles: CandleData[],
+    signals: BinaryOptionSignal[],
+    config: Partial<BinaryOptionBacktestConfig> = {}
+  ): BinaryOptionBacktestResult {
+    const settings = { ...this.config, ...config };
+    const sorted = [...signals].sort((a, b) => a.index - b.index);
+    const trades: BinaryOptionTrade[] = [];
+    const equityCurve: BinaryOptionEquityPoint[] = [];
+    let open: BinaryOptionTrade[] = [];
+    let equity = settings.initialCapital;
+    let peak = equity;
+    let skippedSignals = 0;
+
+    const settle = (upTo: number) => {
+      const due = open.filter(trade => trade.expiryIndex <= upTo).sort((a, b) => a.expiryIndex - b.expiryIndex);
+      open = open.filter(trade => trade.expiryIndex > upTo);
+
+      due.forEach(trade => {
+        equity += trade.pnl;
+        peak = Math.max(peak, equity);
+        equityCurve.push({ timestamp: trade.expiryTime, equity, drawdown: peak > 0 ? (peak - equity) / peak : 0 });
+      });
+    };
+
+    if (candles.length > 0) {
+      equityCurve.push({ timestamp: candleTime(candles[0]), equity, drawdown: 0 });
+    }
+
+    for (const signal of sorted) {
+      // Опционы, истекшие к закрытию сигнальной свечи, уже рассчитаны
+      settle(signal.index);
+
+      const expiryIndex = this.findExpiryIndex(candles, signal);
+      const committed = open.reduce((sum, trade) => sum + trade.stake, 0);
+      const stake = settings.stakeMode === 'fixed' ? settings.stake : equity * settings.stake;
+
+      if (
+        expiryIndex === null ||
+        (signal.confidence ?? 100) < settings.minConfidence ||
+        open.length >= settings.maxConcurrentOptions ||
+        stake <= 0 ||
+        stake > equity - committed
+      ) {
+        skippedSignals++;
+        continue;
+      }
+
+      const trade = this.settleOption(candles, signal, expiryIndex, stake, settings);
+      trades.push(trade);
+      open.push(trade);
+    }
+
+    settle(Infinity);
+
+    return {
+      trades,
+      metrics: this.calculateMetrics(trades, equityCurve, equity, skippedSignals, settings),
+      equityCurve,
+      config: settings
+    };
+  }
+
+  /**
+   * Backtest PredictionResults made at the given candle positions
+   */
+  runPredictions(
+    candles: CandleData[],
+    predictions: Array<{ index: number; prediction: PredictionResult }>,
+    config: Partial<BinaryOptionBacktestConfig> = {}
+  ): BinaryOptionBacktestResult {
+    return this.runBacktest(candles, predictions.map(({ index, prediction }) => ({
+      index,
+      direction: prediction.direction,
+      interval: prediction.interval,
+      probability: prediction.probability,
+      confidence: prediction.confidence
+    })), config);
+  }
+
+  /**
+   * Backtest a spot strategy as binary options: buy signals become CALLs,
+   * sell signals PUTs, all with the same expiry
+   */
+  runStrategy(
+    strategy: Strategy,
+    candles: CandleData[],
+    interval: number,
+    config: Partial<BinaryOptionBacktestConfig> = {}
+  ): BinaryOptionBacktestResult {
+    const signals: BinaryOptionSignal[] = [];
+
+    for (let i = 1; i < candles.length; i++) {
+      const signal = strategy.generate(candles.slice(0, i + 1), i);
+      if (signal) {
+        signals.push({
+          index: i,
+          direction: signal.type === 'buy' ? 'UP' : 'DOWN',
+          interval,
+          confidence: signal.confidence * 100
+        });
+      }
+    }
+
+    return this.runBacktest(candles, signals, config);
+  }
+
+  private findExpiryIndex(candles: CandleData[], signal: BinaryOptionSignal): number | null {
+    if (!candles[signal.index] || signal.interval <= 0) return null;
+    const expiryTime = candleTime(candles[signal.index]) + signal.interval * 60 * 1000;
+
+    for (let i = signal.index + 1; i < candles.length; i++) {
+      if (candleTime(candles[i]) >= expiryTime) return i;
+    }
+    return null;
+  }
+
+  private settleOption(
+    candles: CandleData[],
+    signal: BinaryOptionSignal,
+    expiryIndex: number,
+    stake: number,
+    config: BinaryOptionBacktestConfig
+  ): BinaryOptionTrade {
+    const entryPrice = candles[signal.index].close;
+    const expiryPrice = candles[expiryIndex].close;
+    const move = expiryPrice - entryPrice;
+
+    let outcome: BinaryOptionOutcome;
+    if (move === 0) {
+      outcome = config.tieRule === 'refund' ? 'expired' : 'lost';
+    } else {
+      outcome = (move > 0) === (signal.direction === 'UP') ? 'won' : 'lost';
+    }
+
+    return {
+      signalIndex: signal.index,
+      expiryIndex,
+      entryTime: candleTime(candles[signal.index]),
+      expiryTime: candleTime(candles[expiryIndex]),
+      direction: signal.direction,
+      entryPrice,
+      expiryPrice,
+      stake,
+      outcome,
+      pnl: outcome === 'won' ? stake * config.payoutRatio : outcome === 'lost' ? -stake : 0,
+      confidence: signal.confidence
+    };
+  }
+
+  private calculateMetrics(
+    trades: BinaryOptionTrade[],
+    equityCurve: BinaryOptionEquityPoint[],
+    finalEquity: number,
+    skippedSignals: number,
+    config: BinaryOptionBacktestConfig
+  ): BinaryOptionBacktestResult['metrics'] {
+    const wins = trades.filter(t => t.outcome === 'won').length;
+    const losses = trades.filter(t => t.outcome === 'lost').length;
+    const totalPnl = trades.reduce((sum, t) => sum + t.pnl, 0);
+
+    const accuracy = (direction: PredictionResult['direction']) => {
+      const decided = trades.filter(t => t.direction === direction && t.outcome !== 'expired');
+      return decided.length > 0 ? decided.filter(t => t.outcome === 'won').length / decided.length : 0;
+    };
+
+    let streak = 0;
+    let maxConsecutiveLosses = 0;
+    trades.forEach(trade => {
+      if (trade.outcome === 'lost') streak++;
+      else if (trade.outcome === 'won') streak = 0;
+      maxConsecutiveLosses = Math.max(maxConsecutiveLosses, streak);
+    });
+
+    return {
+      totalTrades: trades.length,
+      wins,
+      losses,
+      ties: trades.length - wins - losses,
+      winRate: wins + losses > 0 ? wins / (wins + losses) : 0,
+      breakEvenWinRate: breakEvenWinRate(config.payoutRatio),
+      expectancy: trades.length > 0 ? totalPnl / trades.length : 0,
+      expectancyPerStake: trades.length > 0 ? trades.reduce((sum, t) => sum + t.pnl / t.stake, 0) / trades.length : 0,
+      callAccuracy: accuracy('UP'),
+      putAccuracy: accuracy('DOWN'),
+      totalPnl,
+      totalReturnPercent: (totalPnl / config.initialCapital) * 100,
+      finalEquity,
+      maxDrawdown: Math.max(0, ...equityCurve.map(point => point.drawdown)),
+      maxConsecutiveLosses,
+      skippedSignals
+    };
+  }
+}
+
+export const binaryOptionBacktestService = new BinaryOptionBacktestService();
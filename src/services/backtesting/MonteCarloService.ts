@@ -0,0 +1,280 @@
+/**
+ * Monte Carlo robustness analysis of a completed trade list.
+ * One backtest is one ordering of its trades; reshuffling, bootstrap
+ * resampling and random skipping show how much of the result is luck.
+ */
+
+import { createSeededRandom } from './core/random';
+
+export type MonteCarloMethod = 'reshuffle' | 'bootstrap' | 'skip';
+
+export interface MonteCarloTrade {
+  /** P&L in currency, used as is when no stake is set */
+  pnl: number;
+  /** Return on the position's stake or notional, as a fraction; needed for stake-based runs */
+  pnlPercent?: number;
+}
+
+export interface MonteCarloConfig {
+  simulations: number;
+  seed: number;
+  methods: MonteCarloMethod[];
+  /** Probability that the skip method drops a trade */
+  skipProbability: number;
+  /** Two-sided confidence of the reported bands, e.g. 0.9 gives the 5th-95th percentiles */
+  confidence: number;
+  initialCapital: number;
+  /**
+   * Share of equity put on each trade; the trade's pnlPercent is applied to it
+   * and equity compounds. Without a stake the trade P&L is added as is.
+   */
+  stake?: number;
+  /** Share of the initial capital lost that counts as ruin */
+  ruinDrawdown: number;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  median: number;
+  /** Lower and upper bounds of the confidence band */
+  lower: number;
+  upper: number;
+}
+
+export interface EquityBandPoint {
+  /** Trades taken so far */
+  trade: number;
+  lower: number;
+  lowerQuartile: number;
+  median: number;
+  upperQuartile: number;
+  upper: number;
+}
+
+export interface MonteCarloMethodResult {
+  method: MonteCarloMethod;
+  simulations: number;
+  finalEquity: DistributionSummary;
+  /** Peak-to-trough drawdown as a fraction */
+  maxDrawdown: DistributionSummary;
+  maxLosingStreak: DistributionSummary;
+  /** Share of paths that hit the ruin level */
+  riskOfRuin: number;
+  equityBands: EquityBandPoint[];
+}
+
+export interface MonteCarloPathStats {
+  finalEquity: number;
+  maxDrawdown: number;
+  maxLosingStreak: number;
+  ruined: boolean;
+}
+
+export interface MonteCarloResult {
+  /** The trades in their original order */
+  original: MonteCarloPathStats;
+  methods: MonteCarloMethodResult[];
+  config: MonteCarloConfig;
+}
+
+export class MonteCarloError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'MonteCarloError';
+  }
+}
+
+const DEFAULT_CONFIG: MonteCarloConfig = {
+  simulations: 1000,
+  seed: 42,
+  methods: ['reshuffle', 'bootstrap', 'skip'],
+  skipProbability: 0.1,
+  confidence: 0.9,
+  initialCapital: 10000,
+  ruinDrawdown: 0.5
+};
+
+/**
+ * Linear-interpolated percentile of sorted values, q in [0, 1]
+ */
+function percentile(sorted: ArrayLike<number>, q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function summarize(values: number[], confidence: number): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return {
+    mean: values.reduce((sum, v) => sum + v, 0) / (values.length || 1),
+    median: percentile(sorted, 0.5),
+    lower: percentile(sorted, tail),
+    upper: percentile(sorted, 1 - tail)
+  };
+}
+
+export class MonteCarloService {
+  private readonly config: MonteCarloConfig;
+
+  constructor(config: Partial<MonteCarloConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Runs every configured method over the trade list
+   */
+  analyze(trades: MonteCarloTrade[], config: Partial<MonteCarloConfig> = {}): MonteCarloResult {
+    const settings = { ...this.config, ...config };
+    this.validate(trades, settings);
+
+    const random = createSeededRandom(settings.seed);
+    const original = this.pathStats(this.equityPath(trades.map(t => ({ trade: t, taken: true })), settings), settings, trades);
+
+    return {
+      original,
+      methods: settings.methods.map(method => this.simulate(method, trades, settings, random)),
+      config: settings
+    };
+  }
+
+  /**
+   * Probability of ruin at each stake size, by bootstrap resampling
+   */
+  riskOfRuin(
+    trades: MonteCarloTrade[],
+    stakes: number[],
+    config: Partial<Omit<MonteCarloConfig, 'stake' | 'methods'>> = {}
+  ): Array<{ stake: number; riskOfRuin: number }> {
+    return stakes.map(stake => {
+      const settings = { ...this.config, ...config, stake };
+      this.validate(trades, settings);
+      // Один seed на все ставки: различия только от размера ставки
+      const random = createSeededRandom(settings.seed);
+      return { stake, riskOfRuin: this.simulate('bootstrap', trades, settings, random).riskOfRuin };
+    });
+  }
+
+  private validate(trades: MonteCarloTrade[], config: MonteCarloConfig): void {
+    if (trades.length === 0) {
+      throw new MonteCarloError('Monte Carlo analysis needs at least one trade', 'INSUFFICIENT_DATA');
+    }
+    if (config.stake !== undefined && trades.some(t => t.pnlPercent === undefined)) {
+      throw new MonteCarloError('Stake-based simulation needs pnlPercent on every trade', 'MISSING_RETURNS');
+    }
+    if (!(config.simulations > 0) || !(config.confidence > 0 && config.confidence < 1)) {
+      throw new MonteCarloError('simulations must be positive and confidence within (0, 1)', 'INVALID_CONFIG');
+    }
+  }
+
+  private simulate(
+    method: MonteCarloMethod,
+    trades: MonteCarloTrade[],
+    config: MonteCarloConfig,
+    random: () => number
+  ): MonteCarloMethodResult {
+    const n = trades.length;
+    const paths: Float64Array[] = [];
+    const stats: MonteCarloPathStats[] = [];
+
+    for (let s = 0; s < config.simulations; s++) {
+      const sequence = this.resample(method, trades, config, random);
+      const path = this.equityPath(sequence, config);
+      paths.push(path);
+      stats.push(this.pathStats(path, config, sequence.filter(step => step.taken).map(step => step.trade)));
+    }
+
+    const tail = (1 - config.confidence) / 2;
+    const equityBands: EquityBandPoint[] = [];
+    const column = new Float64Array(config.simulations);
+    for (let step = 0; step <= n; step++) {
+      paths.forEach((path, s) => { column[s] = path[step]; });
+      column.sort();
+      equityBands.push({
+        trade: step,
+        lower: percentile(column, tail),
+        lowerQuartile: percentile(column, 0.25),
+        median: percentile(column, 0.5),
+        upperQuartile: percentile(column, 0.75),
+        upper: percentile(column, 1 - tail)
+      });
+    }
+
+    return {
+      method,
+      simulations: config.simulations,
+      finalEquity: summarize(stats.map(s => s.finalEquity), config.confidence),
+      maxDrawdown: summarize(stats.map(s => s.maxDrawdown), config.confidence),
+      maxLosingStreak: summarize(stats.map(s => s.maxLosingStreak), config.confidence),
+      riskOfRuin: stats.filter(s => s.ruined).length / config.simulations,
+      equityBands
+    };
+  }
+
+  /**
+   * One simulated trade sequence; skipped trades keep their slot so all paths have equal length
+   */
+  private resample(
+    method: MonteCarloMethod,
+    trades: MonteCarloTrade[],
+    config: MonteCarloConfig,
+    random: () => number
+  ): Array<{ trade: MonteCarloTrade; taken: boolean }> {
+    switch (method) {
+      case 'reshuffle': {
+        const shuffled = [...trades];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+          const j = Math.floor(random() * (i + 1));
+          [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled.map(trade => ({ trade, taken: true }));
+      }
+      case 'bootstrap':
+        return trades.map(() => ({ trade: trades[Math.floor(random() * trades.length)], taken: true }));
+      case 'skip':
+        return trades.map(trade => ({ trade, taken: random() >= config.skipProbability }));
+    }
+  }
+
+  private equityPath(sequence: Array<{ trade: MonteCarloTrade; taken: boolean }>, config: MonteCarloConfig): Float64Array {
+    const path = new Float64Array(sequence.length + 1);
+    let equity = config.initialCapital;
+    path[0] = equity;
+
+    sequence.forEach(({ trade, taken }, i) => {
+      if (taken) {
+        equity = config.stake !== undefined
+          ? equity * (1 + config.stake * (trade.pnlPercent ?? 0))
+          : equity + trade.pnl;
+      }
+      path[i + 1] = equity;
+    });
+    return path;
+  }
+
+  private pathStats(path: Float64Array, config: MonteCarloConfig, taken: MonteCarloTrade[]): MonteCarloPathStats {
+    const ruinLevel = config.initialCapital * (1 - config.ruinDrawdown);
+    let peak = path[0];
+    let maxDrawdown = 0;
+    let ruined = false;
+
+    path.forEach(equity => {
+      peak = Math.max(peak, equity);
+      if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+      if (equity <= ruinLevel) ruined = true;
+    });
+
+    let streak = 0;
+    let maxLosingStreak = 0;
+    taken.forEach(trade => {
+      streak = trade.pnl < 0 ? streak + 1 : 0;
+      maxLosingStreak = Math.max(maxLosingStreak, streak);
+    });
+
+    return { finalEquity: path[path.length - 1], maxDrawdown: Math.min(1, maxDrawdown), maxLosingStreak, ruined };
+  }
+}
+
+export const monteCarloService = new MonteCarloService();
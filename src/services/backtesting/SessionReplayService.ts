@@ -0,0 +1,244 @@
+/**
+ * Session Replay Backtest
+ * Replays the predictions that were actually stored on a session's candles
+ * against the candles that followed them, so live performance can be audited
+ * instead of re-simulated.
+ */
+
+import { CandleData, TradingSession } from '@/types/session';
+import { parseTimeframe } from '@/utils/dateTimeUtils';
+import { BacktestEngine, BacktestEngineConfig } from './core/BacktestEngine';
+import { sessionCandleTime, toBacktestBars } from './core/bars';
+import { BacktestResult } from './core/types';
+
+export interface SessionReplayConfig {
+  /**
+   * Candles after the prediction candle at which it is judged and its trade
+   * closed, for predictions stored without their interval
+   */
+  horizon: number;
+  /** Confidence bucket edges, in the 0-100 scale of prediction_confidence */
+  confidenceBuckets: number[];
+  engine: Partial<BacktestEngineConfig>;
+}
+
+/**
+ * One stored prediction and what followed it
+ */
+export interface ReplayedPrediction {
+  candleIndex: number;
+  direction: 'UP' | 'DOWN';
+  probability?: number;
+  confidence?: number;
+  entryPrice: number;
+  exitPrice: number;
+  /** Relative close-to-close move in the predicted direction */
+  move: number;
+  correct: boolean;
+}
+
+export interface ConfidenceBucketStats {
+  /** Inclusive lower edge */
+  min: number;
+  /** Exclusive upper edge, inclusive for the last bucket */
+  max: number;
+  count: number;
+  correct: number;
+  accuracy: number;
+  averageMove: number;
+}
+
+export interface SessionReplayResult {
+  session: TradingSession;
+  predictions: ReplayedPrediction[];
+  accuracy: number;
+  confidenceBuckets: ConfidenceBucketStats[];
+  /** Stored predictions without a confidence, not counted in any bucket */
+  unbucketed: number;
+  /** Stored predictions too close to the end of the session to be judged */
+  pending: number;
+  report: BacktestResult;
+}
+
+/**
+ * Loads one stored session; sessionService satisfies this
+ */
+export interface SessionLoader {
+  loadSessionWithCandles(sessionId: string): Promise<{ session: TradingSession; candles: CandleData[] }>;
+}
+
+export class SessionReplayError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'SessionReplayError';
+  }
+}
+
+const DEFAULT_CONFIG: SessionReplayConfig = {
+  horizon: 1,
+  confidenceBuckets: [0, 50, 60, 70, 80, 90, 100],
+  engine: {}
+};
+
+const MINUTES_PER_YEAR = 365 * 24 * 60;
+
+const isDirection = (value: string | undefined): value is 'UP' | 'DOWN' => value === 'UP' || value === 'DOWN';
+
+export class SessionReplayService {
+  private readonly config: SessionReplayConfig;
+
+  constructor(config: Partial<SessionReplayConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Load a stored session and replay its predictions
+   */
+  async replaySession(
+    source: SessionLoader,
+    sessionId: string,
+    config: Partial<SessionReplayConfig> = {}
+  ): Promise<SessionReplayResult> {
+    const { session, candles } = await source.loadSessionWithCandles(sessionId);
+    return this.replay(session, candles, config);
+  }
+
+  /**
+   * Replay the predictions stored on the candles of a session
+   */
+  replay(session: TradingSession, candles: CandleData[], config: Partial<SessionReplayConfig> = {}): SessionReplayResult {
+    const settings = { ...this.config, ...config };
+    if (!Number.isInteger(settings.horizon) || settings.horizon < 1) {
+      throw new SessionReplayError('Replay horizon must be a positive number of candles', 'INVALID_CONFIG');
+    }
+
+    const sorted = [...candles].sort((a, b) => a.candle_index - b.candle_index);
+    const stored = sorted
+      .map((candle, position) => ({ candle, position }))
+      .filter(({ candle }) => isDirection(candle.prediction_direction));
+
+    if (stored.length === 0) {
+      throw new SessionReplayError(`Session ${session.id} has no stored predictions`, 'NO_PREDICTIONS');
+    }
+
+    // Прогноз судится на свече своей экспирации: интервал прогноза в свечах таймфрейма сессии
+    const candleMinutes = this.candleMinutes(session.timeframe);
+    const judged = stored
+      .map(entry => ({ ...entry, horizon: this.horizonOf(entry.candle, candleMinutes, settings.horizon) }))
+      .filter(({ position, horizon }) => position + horizon < sorted.length);
+    const predictions = judged.map(({ candle, position, horizon }) => {
+      const direction = candle.prediction_direction as 'UP' | 'DOWN';
+      const exitPrice = sorted[position + horizon].close;
+      const change = (exitPrice - candle.close) / candle.close;
+      const move = direction === 'UP' ? change : -change;
+      return {
+        candleIndex: candle.candle_index,
+        direction,
+        probability: candle.prediction_probability,
+        confidence: candle.prediction_confidence,
+        entryPrice: candle.close,
+        exitPrice,
+        move,
+        // Без движения цены прогноз не засчитывается
+        correct: move > 0
+      };
+    });
+
+    const { buckets, unbucketed } = this.bucketize(predictions, settings.confidenceBuckets);
+
+    return {
+      session,
+      predictions,
+      accuracy: predictions.length > 0 ? predictions.filter(p => p.correct).length / predictions.length : 0,
+      confidenceBuckets: buckets,
+      unbucketed,
+      pending: stored.length - judged.length,
+      report: this.runEngine(session, sorted, new Map(judged.map(({ position, horizon }) => [position, horizon])), settings)
+    };
+  }
+
+  /**
+   * Each judged prediction is a trade entered at its candle's close and
+   * closed at its expiry candle
+   * @param predicted - Horizon in candles by position of the prediction candle
+   */
+  private runEngine(
+    session: TradingSession,
+    candles: CandleData[],
+    predicted: Map<number, number>,
+    config: SessionReplayConfig
+  ): BacktestResult {
+    const engine = new BacktestEngine({
+      periodsPerYear: this.periodsPerYear(session.timeframe),
+      ...config.engine,
+      fillModel: 'close',
+      maxOpenPositions: Math.max(1, ...predicted.values())
+    });
+
+    return engine.run(toBacktestBars(candles, sessionCandleTime), {
+      name: `replay:${session.id}`,
+      onBar: context => {
+        context.positions
+          .filter(position => context.index - position.entryIndex >= predicted.get(position.entryIndex)!)
+          .forEach(position => context.exit(position.id));
+
+        if (predicted.has(context.index)) {
+          const candle = candles[context.index];
+          context.enter({
+            side: candle.prediction_direction === 'UP' ? 'long' : 'short',
+            tag: String(candle.candle_index)
+          });
+        }
+      }
+    });
+  }
+
+  private bucketize(
+    predictions: ReplayedPrediction[],
+    edges: number[]
+  ): { buckets: ConfidenceBucketStats[]; unbucketed: number } {
+    const buckets = edges.slice(0, -1).map((min, i) => {
+      const max = edges[i + 1];
+      const last = i === edges.length - 2;
+      const members = predictions.filter(p =>
+        p.confidence !== undefined && p.confidence >= min && (p.confidence < max || (last && p.confidence === max))
+      );
+      const correct = members.filter(p => p.correct).length;
+      return {
+        min,
+        max,
+        count: members.length,
+        correct,
+        accuracy: members.length > 0 ? correct / members.length : 0,
+        averageMove: members.length > 0 ? members.reduce((sum, p) => sum + p.move, 0) / members.length : 0
+      };
+    });
+
+    const bucketed = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+    return { buckets, unbucketed: predictions.length - bucketed };
+  }
+
+  /**
+   * Candles until the expiry of a stored prediction; `fallback` when the
+   * interval was not stored or the timeframe is unknown
+   */
+  private horizonOf(candle: CandleData, candleMinutes: number | null, fallback: number): number {
+    if (!candle.prediction_interval || candle.prediction_interval <= 0 || !candleMinutes) return fallback;
+    return Math.max(1, Math.ceil(candle.prediction_interval / candleMinutes));
+  }
+
+  private candleMinutes(timeframe: string): number | null {
+    try {
+      return parseTimeframe(timeframe);
+    } catch {
+      return null;
+    }
+  }
+
+  private periodsPerYear(timeframe: string): number {
+    const minutes = this.candleMinutes(timeframe);
+    return minutes ? MINUTES_PER_YEAR / minutes : 252;
+  }
+}
+
+export const sessionReplayService = new SessionReplayService();
@@ -0,0 +1,602 @@
+/**
+ * Walk-forward optimization of strategy parameters.
+ * Parameters are searched on each in-sample window and the winner is traded
+ * on the following out-of-sample window; the out-of-sample runs are stitched
+ * into one equity curve. Configs are plain data so sweeps can run in mlWorker.
+ */
+
+import { CandleData } from '@/types/session';
+import { backtestingService, BacktestingService, Strategy } from './BacktestingService';
+import {
+  AdvancedBacktestConfig,
+  AdvancedBacktestingService,
+  AdvancedStrategy,
+  Portfolio
+} from './AdvancedBacktestingService';
+import { BinaryOptionBacktestConfig, BinaryOptionBacktestService } from './BinaryOptionBacktestService';
+import { BacktestResult as EngineBacktestResult } from './core/types';
+import { sharpeRatio } from './core/metrics';
+import { createSeededRandom } from './core/random';
+
+export type OptimizableStrategyId = 'moving_average' | 'rsi' | 'mean_reversion' | 'momentum';
+export type OptimizationObjective = 'sharpe' | 'profit_factor' | 'binary_win_rate';
+export type SearchMethod = 'grid' | 'random';
+export type WindowMode = 'rolling' | 'anchored';
+
+export type ParameterRange =
+  | { type: 'int' | 'float'; min: number; max: number; step: number }
+  | { type: 'choice'; values: Array<number | boolean> };
+
+export type ParameterSpace = Record<string, ParameterRange>;
+export type ParameterSet = Record<string, number | boolean>;
+
+export interface WalkForwardConfig {
+  strategy: OptimizableStrategyId;
+  /** Defaults to the strategy's own space */
+  parameterSpace?: ParameterSpace;
+  search: SearchMethod;
+  /** Candidates drawn per window by random search */
+  randomSamples: number;
+  seed: number;
+  objective: OptimizationObjective;
+  /** rolling: fixed-length in-sample window; anchored: in-sample always starts at the first bar */
+  windowMode: WindowMode;
+  inSampleBars: number;
+  outOfSampleBars: number;
+  /** History before each out-of-sample window, used only to warm up indicators */
+  warmupBars: number;
+  /** Candidates with fewer in-sample trades are never selected */
+  minTrades: number;
+  /** Grid larger than this is rejected; use random search instead */
+  maxGridSize: number;
+  periodsPerYear: number;
+  backtest: {
+    initialCapital: number;
+    commission: number;
+    slippage: number;
+    riskPerTrade: number;
+  };
+  /** Expiry in minutes for the binary_win_rate objective */
+  binaryInterval: number;
+  binaryOptions?: Partial<BinaryOptionBacktestConfig>;
+}
+
+/** Run options: everything but the strategy falls back to defaults */
+export type WalkForwardOptions = Pick<WalkForwardConfig, 'strategy'> &
+  Partial<Omit<WalkForwardConfig, 'strategy' | 'backtest'>> & {
+    backtest?: Partial<WalkForwardConfig['backtest']>;
+  };
+
+export interface WalkForwardWindow {
+  index: number;
+  /** Bar ranges, end exclusive */
+  inSample: { start: number; end: number };
+  outOfSample: { start: number; end: number };
+  bestParameters: ParameterSet;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  outOfSampleTrades: number;
+  candidatesEvaluated: number;
+}
+
+export interface ParameterStability {
+  name: string;
+  /** Chosen value in each window; booleans as 0/1 */
+  values: number[];
+  mean: number;
+  std: number;
+  /** std relative to the searched range: 0 when every window picks the same value */
+  dispersion: number;
+}
+
+export interface WalkForwardResult {
+  strategy: OptimizableStrategyId;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  /** Out-of-sample equity of all windows chained together */
+  stitchedEquity: Array<{ time: number; equity: number }>;
+  outOfSample: {
+    score: number;
+    totalReturn: number;
+    maxDrawdown: number;
+    trades: number;
+  };
+  /** Mean out-of-sample score over mean in-sample score */
+  efficiency: number;
+  parameterStability: ParameterStability[];
+  /** 1 - mean dispersion: 1 when the same parameters win every window */
+  stabilityScore: number;
+}
+
+export type WalkForwardProgress = (progress: number, status: string) => void;
+
+export class WalkForwardError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WalkForwardError';
+  }
+}
+
+type BuiltStrategy =
+  | { kind: 'basic'; strategy: Strategy }
+  | { kind: 'advanced'; strategy: AdvancedStrategy };
+
+interface StrategyDefinition {
+  space: ParameterSpace;
+  /** Rejects parameter combinations that make no sense, e.g. fast MA >= slow MA */
+  isValid?: (params: ParameterSet) => boolean;
+  build: (params: ParameterSet) => BuiltStrategy;
+}
+
+/** Result of one strategy run over one slice of candles */
+interface Evaluation {
+  pnls: number[];
+  wins: number;
+  losses: number;
+  returns: Array<{ time: number; value: number }>;
+}
+
+const PROFIT_FACTOR_CAP = 10;
+
+const DEFAULT_CONFIG: Omit<WalkForwardConfig, 'strategy'> = {
+  search: 'grid',
+  randomSamples: 30,
+  seed: 42,
+  objective: 'sharpe',
+  windowMode: 'rolling',
+  inSampleBars: 500,
+  outOfSampleBars: 100,
+  warmupBars: 100,
+  minTrades: 3,
+  maxGridSize: 500,
+  periodsPerYear: 252,
+  backtest: {
+    initialCapital: 10000,
+    commission: 0.001,
+    slippage: 0.0005,
+    riskPerTrade: 0.02
+  },
+  binaryInterval: 5
+};
+
+const num = (value: number | boolean): number => (typeof value === 'boolean' ? Number(value) : value);
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+function rangeValues(range: ParameterRange): Array<number | boolean> {
+  if (range.type === 'choice') return range.values;
+  const values: number[] = [];
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let k = 0; k <= count; k++) {
+    const value = Number((range.min + k * range.step).toFixed(10));
+    values.push(range.type === 'int' ? Math.round(value) : value);
+  }
+  return values;
+}
+
+function rangeSpan(range: ParameterRange): number {
+  const values = rangeValues(range).map(num);
+  return values.length > 0 ? Math.max(...values) - Math.min(...values) : 0;
+}
+
+/**
+ * Candles before `start` only warm up indicators: no entries there
+ */
+function tradingFrom(built: BuiltStrategy, start: number): BuiltStrategy {
+  if (built.kind === 'basic') {
+    const { strategy } = built;
+    return { kind: 'basic', strategy: { ...strategy, generate: (candles, index) => (index < start ? null : strategy.generate(candles, index)) } };
+  }
+  const { strategy } = built;
+  return {
+    kind: 'advanced',
+    strategy: {
+      ...strategy,
+      generateSignal: (candles, index, portfolio) => (index < start ? null : strategy.generateSignal(candles, index, portfolio))
+    }
+  };
+}
+
+/**
+ * Signals of an advanced strategy as a plain Strategy, for binary-option runs
+ */
+function toBasicStrategy(strategy: AdvancedStrategy, initialCapital: number): Strategy {
+  const portfolio: Portfolio = {
+    cash: initialCapital,
+    equity: initialCapital,
+    positions: [],
+    totalValue: initialCapital,
+    leverage: 0,
+    marginUsed: 0,
+    freeMargin: initialCapital,
+    returns: [],
+    drawdowns: [],
+    trades: []
+  };
+  return {
+    name: strategy.name,
+    generate: (candles, index) => {
+      const signal = strategy.generateSignal(candles, index, portfolio);
+      if (!signal || signal.type === 'hold') return null;
+      return {
+        type: signal.type,
+        strength: signal.strength,
+        confidence: signal.confidence,
+        stopLoss: signal.stopLoss,
+        takeProfit: signal.takeProfit
+      };
+    }
+  };
+}
+
+export class WalkForwardOptimizer {
+  private readonly definitions: Record<OptimizableStrategyId, StrategyDefinition>;
+
+  constructor(
+    private readonly backtesting: BacktestingService = backtestingService,
+    private readonly advanced: AdvancedBacktestingService = AdvancedBacktestingService.getInstance()
+  ) {
+    this.definitions = {
+      moving_average: {
+        space: {
+          fastPeriod: { type: 'int', min: 5, max: 30, step: 5 },
+          slowPeriod: { type: 'int', min: 20, max: 100, step: 20 }
+        },
+        isValid: params => num(params.fastPeriod) < num(params.slowPeriod),
+        build: params => ({
+          kind: 'basic',
+          strategy: this.backtesting.createMovingAverageStrategy(num(params.fastPeriod), num(params.slowPeriod))
+        })
+      },
+      rsi: {
+        space: {
+          period: { type: 'int', min: 7, max: 21, step: 7 },
+          overbought: { type: 'int', min: 65, max: 80, step: 5 },
+          oversold: { type: 'int', min: 20, max: 35, step: 5 }
+        },
+        isValid: params => num(params.oversold) < num(params.overbought),
+        build: params => ({
+          kind: 'basic',
+          strategy: this.backtesting.createRSIStrategy(num(params.period), num(params.overbought), num(params.oversold))
+        })
+      },
+      mean_reversion: {
+        space: {
+          lookbackPeriod: { type: 'int', min: 10, max: 40, step: 10 },
+          entryThreshold: { type: 'float', min: 0.01, max: 0.03, step: 0.01 },
+          exitThreshold: { type: 'float', min: 0.01, max: 0.02, step: 0.005 },
+          rsiPeriod: { type: 'choice', values: [14] },
+          volatilityFilter: { type: 'choice', values: [true, false] }
+        },
+        build: params => ({
+          kind: 'advanced',
+          strategy: this.advanced.createMeanReversionStrategy({
+            lookbackPeriod: num(params.lookbackPeriod),
+            entryThreshold: num(params.entryThreshold),
+            exitThreshold: num(params.exitThreshold),
+            rsiPeriod: num(params.rsiPeriod),
+            volatilityFilter: Boolean(params.volatilityFilter)
+          })
+        })
+      },
+      momentum: {
+        space: {
+          fastMA: { type: 'int', min: 5, max: 20, step: 5 },
+          slowMA: { type: 'int', min: 20, max: 60, step: 20 },
+          momentumPeriod: { type: 'choice', values: [10, 20] },
+          volumeFilter: { type: 'choice', values: [false, true] },
+          minVolume: { type: 'choice', values: [1, 1.5] }
+        },
+        isValid: params => num(params.fastMA) < num(params.slowMA),
+        build: params => ({
+          kind: 'advanced',
+          strategy: this.advanced.createMomentumStrategy({
+            fastMA: num(params.fastMA),
+            slowMA: num(params.slowMA),
+            momentumPeriod: num(params.momentumPeriod),
+            volumeFilter: Boolean(params.volumeFilter),
+            minVolume: num(params.minVolume)
+          })
+        })
+      }
+    };
+  }
+
+  getParameterSpace(strategy: OptimizableStrategyId): ParameterSpace {
+    return { ...this.definitions[strategy].space };
+  }
+
+  /**
+   * Walk-forward run: windows, per-window search, stitched out-of-sample equity
+   */
+  async run(
+    candles: CandleData[],
+    config: WalkForwardOptions,
+    onProgress?: WalkForwardProgress
+  ): Promise<WalkForwardResult> {
+    const settings: WalkForwardConfig = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      backtest: { ...DEFAULT_CONFIG.backtest, ...config.backtest }
+    };
+    const definition = this.definitions[settings.strategy];
+    if (!definition) {
+      throw new WalkForwardError(`Unknown strategy: ${settings.strategy}`, 'INVALID_STRATEGY');
+    }
+    const space = settings.parameterSpace ?? definition.space;
+
+    const windows = this.buildWindows(candles.length, settings);
+    if (windows.length === 0) {
+      throw new WalkForwardError(
+        `Need at least ${settings.inSampleBars + settings.outOfSampleBars} candles, got ${candles.length}`,
+        'INSUFFICIENT_DATA'
+      );
+    }
+
+    const grid = settings.search === 'grid' ? this.gridCandidates(space, definition, settings.maxGridSize) : [];
+    const random = createSeededRandom(settings.seed);
+    const perWindow = settings.search === 'grid' ? grid.length : settings.randomSamples;
+    const totalSteps = windows.length * (perWindow + 1);
+    let step = 0;
+
+    const results: WalkForwardWindow[] = [];
+    const outOfSample: Evaluation[] = [];
+
+    for (let w = 0; w < windows.length; w++) {
+      const { inSample, outOfSample: oos } = windows[w];
+      const candidates = settings.search === 'grid'
+        ? grid
+        : this.randomCandidates(space, definition, settings.randomSamples, random);
+      const inSampleCandles = candles.slice(inSample.start, inSample.end);
+
+      let best: { params: ParameterSet; score: number } | null = null;
+      for (const params of candidates) {
+        const evaluation = await this.evaluate(definition.build(params), inSampleCandles, 0, settings);
+        const score = evaluation.pnls.length >= settings.minTrades
+          ? this.score(settings, evaluation)
+          : Number.NEGATIVE_INFINITY;
+        if (!best || score > best.score) best = { params, score };
+        onProgress?.((++step / totalSteps) * 100, `Window ${w + 1}/${windows.length}: in-sample search`);
+      }
+      if (!best) {
+        throw new WalkForwardError('Parameter space produced no valid candidates', 'INVALID_SPACE');
+      }
+
+      // Вне выборки торгуем с прогревом индикаторов на предыдущих свечах
+      const from = Math.max(0, oos.start - settings.warmupBars);
+      const evaluation = await this.evaluate(
+        definition.build(best.params),
+        candles.slice(from, oos.end),
+        oos.start - from,
+        settings
+      );
+      outOfSample.push(evaluation);
+      onProgress?.((++step / totalSteps) * 100, `Window ${w + 1}/${windows.length}: out-of-sample`);
+
+      results.push({
+        index: w,
+        inSample,
+        outOfSample: oos,
+        bestParameters: best.params,
+        inSampleScore: best.score,
+        outOfSampleScore: this.score(settings, evaluation),
+        outOfSampleTrades: evaluation.pnls.length,
+        candidatesEvaluated: candidates.length
+      });
+    }
+
+    return this.summarize(settings, space, results, outOfSample);
+  }
+
+  private buildWindows(length: number, config: WalkForwardConfig): Array<Pick<WalkForwardWindow, 'inSample' | 'outOfSample'>> {
+    const windows: Array<Pick<WalkForwardWindow, 'inSample' | 'outOfSample'>> = [];
+    const { inSampleBars, outOfSampleBars } = config;
+    if (inSampleBars <= 0 || outOfSampleBars <= 0) return windows;
+
+    for (let oosStart = inSampleBars; oosStart + outOfSampleBars <= length; oosStart += outOfSampleBars) {
+      windows.push({
+        inSample: { start: config.windowMode === 'anchored' ? 0 : oosStart - inSampleBars, end: oosStart },
+        outOfSample: { start: oosStart, end: oosStart + outOfSampleBars }
+      });
+    }
+    return windows;
+  }
+
+  private gridCandidates(space: ParameterSpace, definition: StrategyDefinition, maxGridSize: number): ParameterSet[] {
+    const names = Object.keys(space);
+    const size = names.reduce((product, name) => product * rangeValues(space[name]).length, 1);
+    if (size > maxGridSize) {
+      throw new WalkForwardError(`Grid has ${size} combinations (limit ${maxGridSize}); use random search`, 'INVALID_SPACE');
+    }
+
+    let combinations: ParameterSet[] = [{}];
+    names.forEach(name => {
+      const values = rangeValues(space[name]);
+      combinations = combinations.flatMap(params => values.map(value => ({ ...params, [name]: value })));
+    });
+    return combinations.filter(params => definition.isValid?.(params) ?? true);
+  }
+
+  private randomCandidates(
+    space: ParameterSpace,
+    definition: StrategyDefinition,
+    samples: number,
+    random: () => number
+  ): ParameterSet[] {
+    const candidates = new Map<string, ParameterSet>();
+    // Ограничение попыток: маленькое пространство может не вместить samples уникальных наборов
+    for (let attempt = 0; attempt < samples * 20 && candidates.size < samples; attempt++) {
+      const params: ParameterSet = {};
+      Object.entries(space).forEach(([name, range]) => {
+        const values = rangeValues(range);
+        params[name] = values[Math.floor(random() * values.length)];
+      });
+      if (definition.isValid?.(params) ?? true) {
+        candidates.set(JSON.stringify(params), params);
+      }
+    }
+    return Array.from(candidates.values());
+  }
+
+  private async evaluate(
+    built: BuiltStrategy,
+    candles: CandleData[],
+    tradeFrom: number,
+    config: WalkForwardConfig
+  ): Promise<Evaluation> {
+    const gated = tradingFrom(built, tradeFrom);
+
+    if (config.objective === 'binary_win_rate') {
+      const strategy = gated.kind === 'basic'
+        ? gated.strategy
+        : toBasicStrategy(gated.strategy, config.backtest.initialCapital);
+      const result = new BinaryOptionBacktestService({
+        initialCapital: config.backtest.initialCapital,
+        ...config.binaryOptions
+      }).runStrategy(strategy, candles, config.binaryInterval);
+
+      const returns = result.equityCurve.slice(1).map((point, i) => ({
+        time: point.timestamp,
+        value: (point.equity - result.equityCurve[i].equity) / result.equityCurve[i].equity
+      }));
+      return {
+        pnls: result.trades.map(t => t.pnl),
+        wins: result.metrics.wins,
+        losses: result.metrics.losses,
+        returns
+      };
+    }
+
+    const report = await this.runEngineBacktest(gated, candles, config);
+    if (!report) return { pnls: [], wins: 0, losses: 0, returns: [] };
+
+    const curve = report.equityCurve;
+    const returns: Evaluation['returns'] = [];
+    for (let i = Math.max(1, tradeFrom); i < curve.length; i++) {
+      returns.push({ time: curve[i].time, value: (curve[i].equity - curve[i - 1].equity) / curve[i - 1].equity });
+    }
+    const pnls = report.trades.map(t => t.pnl);
+    return {
+      pnls,
+      wins: pnls.filter(p => p > 0).length,
+      losses: pnls.filter(p => p <= 0).length,
+      returns
+    };
+  }
+
+  private async runEngineBacktest(
+    built: BuiltStrategy,
+    candles: CandleData[],
+    config: WalkForwardConfig
+  ): Promise<EngineBacktestResult | undefined> {
+    // Свечи уже нарезаны по окнам, фильтр дат не нужен
+    const startDate = new Date(-8.64e15);
+    const endDate = new Date(8.64e15);
+    const { initialCapital, commission, slippage, riskPerTrade } = config.backtest;
+
+    if (built.kind === 'basic') {
+      const result = await this.backtesting.runBacktest(built.strategy, candles, {
+        startDate,
+        endDate,
+        initialCapital,
+        commission,
+        slippage,
+        maxPositions: 1,
+        riskPerTrade
+      });
+      return result.report;
+    }
+
+    const advancedConfig: AdvancedBacktestConfig = {
+      startDate,
+      endDate,
+      initialCapital,
+      commission,
+      slippage,
+      maxPositions: 1,
+      riskPerTrade,
+      leverage: 1,
+      marginRequirement: 1,
+      reinvestProfits: true,
+      compoundReturns: true,
+      dynamicPositionSizing: false,
+      stopLossPercent: 0.02,
+      takeProfitPercent: 0.04,
+      trailingStop: false,
+      riskFreeRate: 0
+    };
+    const result = await this.advanced.runAdvancedBacktest(built.strategy, candles, advancedConfig);
+    return result.report;
+  }
+
+  private score(config: WalkForwardConfig, evaluation: Evaluation): number {
+    switch (config.objective) {
+      case 'sharpe':
+        return sharpeRatio(evaluation.returns.map(r => r.value), 0, config.periodsPerYear);
+      case 'profit_factor': {
+        const profit = evaluation.pnls.filter(p => p > 0).reduce((sum, p) => sum + p, 0);
+        const loss = Math.abs(evaluation.pnls.filter(p => p <= 0).reduce((sum, p) => sum + p, 0));
+        if (loss === 0) return profit > 0 ? PROFIT_FACTOR_CAP : 0;
+        return Math.min(PROFIT_FACTOR_CAP, profit / loss);
+      }
+      case 'binary_win_rate': {
+        const decided = evaluation.wins + evaluation.losses;
+        return decided > 0 ? evaluation.wins / decided : 0;
+      }
+    }
+  }
+
+  private summarize(
+    config: WalkForwardConfig,
+    space: ParameterSpace,
+    windows: WalkForwardWindow[],
+    outOfSample: Evaluation[]
+  ): WalkForwardResult {
+    const combined: Evaluation = {
+      pnls: outOfSample.flatMap(e => e.pnls),
+      wins: outOfSample.reduce((sum, e) => sum + e.wins, 0),
+      losses: outOfSample.reduce((sum, e) => sum + e.losses, 0),
+      returns: outOfSample.flatMap(e => e.returns)
+    };
+
+    let equity = config.backtest.initialCapital;
+    let peak = equity;
+    let maxDrawdown = 0;
+    const stitchedEquity = combined.returns.map(({ time, value }) => {
+      equity *= 1 + value;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+      return { time, equity };
+    });
+
+    const parameterStability = Object.keys(space).map(name => {
+      const values = windows.map(w => num(w.bestParameters[name]));
+      const average = mean(values);
+      const std = Math.sqrt(mean(values.map(v => (v - average) ** 2)));
+      const span = rangeSpan(space[name]);
+      return { name, values, mean: average, std, dispersion: span > 0 ? std / span : 0 };
+    });
+
+    // В выборку для эффективности идут только окна с найденными кандидатами
+    const scored = windows.filter(w => Number.isFinite(w.inSampleScore));
+    const inSampleMean = mean(scored.map(w => w.inSampleScore));
+
+    return {
+      strategy: config.strategy,
+      objective: config.objective,
+      windows,
+      stitchedEquity,
+      outOfSample: {
+        score: this.score(config, combined),
+        totalReturn: equity / config.backtest.initialCapital - 1,
+        maxDrawdown,
+        trades: combined.pnls.length
+      },
+      efficiency: inSampleMean !== 0 ? mean(scored.map(w => w.outOfSampleScore)) / inSampleMean : 0,
+      parameterStability,
+      stabilityScore: Math.max(0, Math.min(1, 1 - mean(parameterStability.map(p => p.dispersion))))
+    };
+  }
+}
+
+export const walkForwardOptimizer = new WalkForwardOptimizer();
@@ -0,0 +1,395 @@
+/**
+ * Event-driven backtest engine.
+ * Every bar goes through the same event sequence: pending fills, protective
+ * exits, strategy orders, then equity marking. Fills, costs and position
+ * sizes come from pluggable models, and every run produces one BacktestResult.
+ */
+
+import { applySlippage, commissionFor, CommissionModel, SlippageModel } from './costs';
+import { FILL_MODELS, FillModel, FillModelName } from './fill-models';
+import { calculateMetrics, equityReturns, monthlyReturns } from './metrics';
+import { positionQuantity, PositionSizing } from './sizing';
+import {
+  BacktestBar,
+  BacktestEquityPoint,
+  BacktestResult,
+  BacktestTrade,
+  EntryOrder,
+  ExitReason,
+  OpenPosition
+} from './types';
+
+export interface BacktestEngineConfig {
+  initialCapital: number;
+  fillModel: FillModelName | FillModel;
+  commission: CommissionModel;
+  slippage: SlippageModel;
+  /** Sizing of orders that set neither quantity nor notional */
+  sizing: PositionSizing;
+  maxOpenPositions: number;
+  /** Open notional allowed, as a multiple of equity */
+  leverage: number;
+  /** Close everything and stop trading once drawdown exceeds this fraction */
+  maxDrawdownHalt?: number;
+  /** Annual, for Sharpe and Sortino */
+  riskFreeRate: number;
+  periodsPerYear: number;
+}
+
+export interface StrategyContext {
+  readonly index: number;
+  readonly bar: BacktestBar;
+  readonly equity: number;
+  readonly cash: number;
+  readonly positions: readonly OpenPosition[];
+  readonly halted: boolean;
+  /** Queue a market entry; it fills where the fill model says */
+  enter(order: EntryOrder): void;
+  /** Queue a market exit of one position, or of all positions */
+  exit(positionId?: string): void;
+}
+
+export interface BacktestStrategy {
+  name: string;
+  onStart?(config: BacktestEngineConfig): void;
+  /** Called once per bar after fills and stops, before the bar's equity is recorded */
+  onBar(context: StrategyContext): void;
+  /** Called after the bar's equity is recorded */
+  onBarClose?(context: StrategyContext): void;
+  onTrade?(trade: BacktestTrade, context: StrategyContext): void;
+}
+
+export type BacktestEvent =
+  | { type: 'bar'; bar: BacktestBar }
+  | { type: 'order'; index: number; order: EntryOrder | { exit: string | 'all' } }
+  | { type: 'fill'; index: number; positionId: string; action: 'open' | 'close'; price: number; quantity: number }
+  | { type: 'trade'; trade: BacktestTrade }
+  | { type: 'equity'; point: BacktestEquityPoint }
+  | { type: 'halt'; index: number; drawdown: number };
+
+export type BacktestEventListener = (event: BacktestEvent) => void;
+
+const DEFAULT_CONFIG: BacktestEngineConfig = {
+  initialCapital: 10000,
+  fillModel: 'close',
+  commission: { type: 'none' },
+  slippage: { type: 'none' },
+  sizing: { type: 'percent_equity', fraction: 0.1 },
+  maxOpenPositions: 1,
+  leverage: 1,
+  riskFreeRate: 0,
+  periodsPerYear: 252
+};
+
+interface PendingOrder {
+  fillIndex: number;
+  price: number;
+  entry?: EntryOrder;
+  exit?: { positionId: string; reason: ExitReason };
+}
+
+/** State of one run */
+interface RunState {
+  bars: BacktestBar[];
+  cash: number;
+  peak: number;
+  positions: OpenPosition[];
+  /** Bar from which a position's stops are evaluated */
+  stopsFrom: Map<string, number>;
+  pending: PendingOrder[];
+  trades: BacktestTrade[];
+  curve: BacktestEquityPoint[];
+  nextId: number;
+  halted: boolean;
+  haltedAt?: number;
+}
+
+export class BacktestEngine {
+  private readonly config: BacktestEngineConfig;
+  private readonly fillModel: FillModel;
+
+  constructor(config: Partial<BacktestEngineConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.fillModel = typeof this.config.fillModel === 'string' ? FILL_MODELS[this.config.fillModel] : this.config.fillModel;
+  }
+
+  getConfig(): BacktestEngineConfig {
+    return { ...this.config };
+  }
+
+  run(bars: BacktestBar[], strategy: BacktestStrategy, onEvent?: BacktestEventListener): BacktestResult {
+    const emit = onEvent ?? (() => undefined);
+    const state: RunState = {
+      bars,
+      cash: this.config.initialCapital,
+      peak: this.config.initialCapital,
+      positions: [],
+      stopsFrom: new Map(),
+      pending: [],
+      trades: [],
+      curve: [],
+      nextId: 1,
+      halted: false
+    };
+
+    strategy.onStart?.(this.getConfig());
+
+    for (let i = 0; i < bars.length; i++) {
+      const bar = bars[i];
+      emit({ type: 'bar', bar });
+
+      this.executePending(state, i, strategy, emit);
+      this.checkProtectiveExits(state, i, strategy, emit);
+      this.markToMarket(state, bar.close);
+
+      if (!state.halted) {
+        const orders: Array<EntryOrder | { exit: string | 'all' }> = [];
+        strategy.onBar(this.createContext(state, i, {
+          enter: order => orders.push(order),
+          exit: positionId => orders.push({ exit: positionId ?? 'all' })
+        }));
+        // Выходы обрабатываются раньше входов того же бара
+        orders.sort((a, b) => Number('exit' in b) - Number('exit' in a));
+        orders.forEach(order => this.submit(state, i, order, strategy, emit));
+      }
+
+      this.markToMarket(state, bar.close);
+      const point = this.recordEquity(state, i);
+      emit({ type: 'equity', point });
+
+      const limit = this.config.maxDrawdownHalt;
+      if (!state.halted && limit !== undefined && point.drawdown > limit) {
+        state.halted = true;
+        state.haltedAt = i;
+        state.pending = [];
+        emit({ type: 'halt', index: i, drawdown: point.drawdown });
+        [...state.positions].forEach(position => this.closePosition(state, position, i, bar.close, 'max_drawdown', strategy, emit));
+        this.replaceLastEquity(state, i);
+      }
+
+      strategy.onBarClose?.(this.createContext(state, i));
+    }
+
+    if (bars.length > 0 && state.positions.length > 0) {
+      const last = bars.length - 1;
+      [...state.positions].forEach(position =>
+        this.closePosition(state, position, last, bars[last].close, 'end_of_data', strategy, emit)
+      );
+      this.replaceLastEquity(state, last);
+    }
+
+    const options = { riskFreeRate: this.config.riskFreeRate, periodsPerYear: this.config.periodsPerYear };
+    return {
+      strategy: strategy.name,
+      trades: state.trades,
+      equityCurve: state.curve,
+      returns: equityReturns(state.curve),
+      monthlyReturns: monthlyReturns(state.curve),
+      metrics: calculateMetrics(state.trades, state.curve, this.config.initialCapital, options),
+      haltedAt: state.haltedAt
+    };
+  }
+
+  private createContext(
+    state: RunState,
+    index: number,
+    actions: Pick<StrategyContext, 'enter' | 'exit'> = { enter: () => undefined, exit: () => undefined }
+  ): StrategyContext {
+    return {
+      index,
+      bar: state.bars[index],
+      equity: this.equity(state),
+      cash: state.cash,
+      positions: state.positions,
+      halted: state.halted,
+      ...actions
+    };
+  }
+
+  private submit(
+    state: RunState,
+    index: number,
+    order: EntryOrder | { exit: string | 'all' },
+    strategy: BacktestStrategy,
+    emit: BacktestEventListener
+  ): void {
+    emit({ type: 'order', index, order });
+    const fill = this.fillModel.marketFill(state.bars, index);
+    if (!fill) return;
+
+    if ('exit' in order) {
+      const targets = state.positions.filter(p => order.exit === 'all' || p.id === order.exit);
+      targets.forEach(position => {
+        if (fill.index === index) {
+          this.closePosition(state, position, index, fill.price, 'signal', strategy, emit);
+        } else if (!state.pending.some(p => p.exit?.positionId === position.id)) {
+          state.pending.push({ fillIndex: fill.index, price: fill.price, exit: { positionId: position.id, reason: 'signal' } });
+        }
+      });
+      return;
+    }
+
+    const pendingEntries = state.pending.filter(p => p.entry).length;
+    if (state.positions.length + pendingEntries >= this.config.maxOpenPositions) return;
+
+    if (fill.index === index) {
+      this.openPosition(state, index, fill.price, order, emit);
+    } else {
+      state.pending.push({ fillIndex: fill.index, price: fill.price, entry: order });
+    }
+  }
+
+  private executePending(state: RunState, index: number, strategy: BacktestStrategy, emit: BacktestEventListener): void {
+    const due = state.pending.filter(p => p.fillIndex === index);
+    state.pending = state.pending.filter(p => p.fillIndex !== index);
+
+    due.filter(p => p.exit).forEach(({ price, exit }) => {
+      const position = state.positions.find(p => p.id === exit!.positionId);
+      if (position) this.closePosition(state, position, index, price, exit!.reason, strategy, emit);
+    });
+    due.filter(p => p.entry).forEach(({ price, entry }) => this.openPosition(state, index, price, entry!, emit, true));
+  }
+
+  private checkProtectiveExits(state: RunState, index: number, strategy: BacktestStrategy, emit: BacktestEventListener): void {
+    [...state.positions].forEach(position => {
+      if ((state.stopsFrom.get(position.id) ?? Infinity) > index) return;
+      if (state.pending.some(p => p.exit?.positionId === position.id)) return;
+
+      const exit = this.fillModel.protectiveExit(position, state.bars, index);
+      if (!exit) return;
+
+      if (exit.index === index) {
+        this.closePosition(state, position, index, exit.price, exit.reason, strategy, emit);
+      } else {
+        state.pending.push({ fillIndex: exit.index, price: exit.price, exit: { positionId: position.id, reason: exit.reason } });
+      }
+    });
+  }
+
+  private openPosition(
+    state: RunState,
+    index: number,
+    rawPrice: number,
+    order: EntryOrder,
+    emit: BacktestEventListener,
+    atOpen = false
+  ): void {
+    const price = applySlippage(this.config.slippage, rawPrice, order.side === 'long' ? 'buy' : 'sell');
+    const equity = this.equity(state);
+    const quantity = order.quantity ??
+      (order.notional !== undefined ? order.notional / price : positionQuantity(this.config.sizing, { equity, price, stopLoss: order.stopLoss }));
+
+    const usedNotional = state.positions.reduce((sum, p) => sum + p.quantity * p.entryPrice, 0);
+    if (!(quantity > 0) || usedNotional + quantity * price > equity * this.config.leverage + 1e-9) return;
+
+    const commission = commissionFor(this.config.commission, price, quantity);
+    const position: OpenPosition = {
+      id: `pos-${state.nextId++}`,
+      side: order.side,
+      quantity,
+      entryIndex: index,
+      entryTime: state.bars[index].time,
+      entryPrice: price,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      tag: order.tag,
+      entryCommission: commission,
+      entrySlippage: Math.abs(price - rawPrice) * quantity,
+      maxFavorableExcursion: 0,
+      maxAdverseExcursion: 0,
+      unrealizedPnl: 0
+    };
+
+    state.cash -= commission;
+    state.positions.push(position);
+    // Позиция, открытая по цене закрытия, проверяет стопы со следующего бара
+    state.stopsFrom.set(position.id, atOpen ? index : index + 1);
+    emit({ type: 'fill', index, positionId: position.id, action: 'open', price, quantity });
+  }
+
+  private closePosition(
+    state: RunState,
+    position: OpenPosition,
+    index: number,
+    rawPrice: number,
+    reason: ExitReason,
+    strategy: BacktestStrategy,
+    emit: BacktestEventListener
+  ): void {
+    const direction = position.side === 'long' ? 1 : -1;
+    const price = applySlippage(this.config.slippage, rawPrice, position.side === 'long' ? 'sell' : 'buy');
+    const exitCommission = commissionFor(this.config.commission, price, position.quantity);
+    const grossPnl = (price - position.entryPrice) * position.quantity * direction;
+    const commission = position.entryCommission + exitCommission;
+    const pnl = grossPnl - commission;
+
+    state.cash += grossPnl - exitCommission;
+    state.positions = state.positions.filter(p => p.id !== position.id);
+    state.stopsFrom.delete(position.id);
+
+    const trade: BacktestTrade = {
+      id: position.id,
+      side: position.side,
+      quantity: position.quantity,
+      entryIndex: position.entryIndex,
+      exitIndex: index,
+      entryTime: position.entryTime,
+      exitTime: state.bars[index].time,
+      entryPrice: position.entryPrice,
+      exitPrice: price,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      grossPnl,
+      commission,
+      slippage: position.entrySlippage + Math.abs(price - rawPrice) * position.quantity,
+      pnl,
+      pnlPercent: pnl / (position.entryPrice * position.quantity),
+      exitReason: reason,
+      maxFavorableExcursion: position.maxFavorableExcursion,
+      maxAdverseExcursion: position.maxAdverseExcursion,
+      tag: position.tag
+    };
+
+    state.trades.push(trade);
+    emit({ type: 'fill', index, positionId: position.id, action: 'close', price, quantity: position.quantity });
+    emit({ type: 'trade', trade });
+    strategy.onTrade?.(trade, this.createContext(state, index));
+  }
+
+  private markToMarket(state: RunState, close: number): void {
+    state.positions.forEach(position => {
+      const direction = position.side === 'long' ? 1 : -1;
+      const move = ((close - position.entryPrice) / position.entryPrice) * direction;
+      position.unrealizedPnl = (close - position.entryPrice) * position.quantity * direction;
+      position.maxFavorableExcursion = Math.max(position.maxFavorableExcursion, move);
+      position.maxAdverseExcursion = Math.min(position.maxAdverseExcursion, move);
+    });
+  }
+
+  private equity(state: RunState): number {
+    return state.cash + state.positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+  }
+
+  private recordEquity(state: RunState, index: number): BacktestEquityPoint {
+    const equity = this.equity(state);
+    state.peak = Math.max(state.peak, equity);
+    const point: BacktestEquityPoint = {
+      index,
+      time: state.bars[index].time,
+      equity,
+      cash: state.cash,
+      drawdown: state.peak > 0 ? (state.peak - equity) / state.peak : 0,
+      openPositions: state.positions.length
+    };
+    state.curve.push(point);
+    return point;
+  }
+
+  /**
+   * Re-record the last point after positions were closed on that bar
+   */
+  private replaceLastEquity(state: RunState, index: number): void {
+    state.curve.pop();
+    this.recordEquity(state, index);
+  }
+}
@@ -0,0 +1,21 @@
+import { CandleData } from '@/types/session';
+import { BacktestBar } from './types';
+
+type PriceCandle = Pick<CandleData, 'open' | 'high' | 'low' | 'close' | 'volume'>;
+
+/**
+ * Engine bars from any candle type, with the bar time taken from `time`
+ */
+export function toBacktestBars<T extends PriceCandle>(candles: T[], time: (candle: T) => number): BacktestBar[] {
+  return candles.map((candle, index) => ({
+    index,
+    time: time(candle),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume
+  }));
+}
+
+export const sessionCandleTime = (candle: CandleData): number => new Date(candle.candle_datetime).getTime();
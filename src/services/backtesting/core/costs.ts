@@ -0,0 +1,47 @@
+/**
+ * Commission and slippage models.
+ * Plain descriptors, so backtest configs stay serializable for workers.
+ */
+
+export type CommissionModel =
+  | { type: 'none' }
+  /** Share of the fill notional */
+  | { type: 'percent'; rate: number }
+  | { type: 'per_unit'; amount: number }
+  /** Flat amount per fill */
+  | { type: 'fixed'; amount: number };
+
+export type SlippageModel =
+  | { type: 'none' }
+  /** Share of the price */
+  | { type: 'percent'; rate: number }
+  /** Price units */
+  | { type: 'fixed'; amount: number };
+
+export function commissionFor(model: CommissionModel, price: number, quantity: number): number {
+  switch (model.type) {
+    case 'percent':
+      return Math.abs(price * quantity) * model.rate;
+    case 'per_unit':
+      return Math.abs(quantity) * model.amount;
+    case 'fixed':
+      return model.amount;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Fill price after slippage; buys fill higher and sells lower
+ */
+export function applySlippage(model: SlippageModel, price: number, action: 'buy' | 'sell'): number {
+  const sign = action === 'buy' ? 1 : -1;
+  switch (model.type) {
+    case 'percent':
+      return price * (1 + sign * model.rate);
+    case 'fixed':
+      return price + sign * model.amount;
+    default:
+      return price;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Fill models: where market orders and protective stop/target exits execute.
+ * Prices returned here are raw; slippage is applied by the engine.
+ */
+
+import { BacktestBar, ExitReason, OpenPosition } from './types';
+
+export interface Fill {
+  index: number;
+  price: number;
+}
+
+export interface ProtectiveExit {
+  price: number;
+  reason: Extract<ExitReason, 'stop_loss' | 'take_profit'>;
+  /** Bar the exit executes on */
+  index: number;
+}
+
+export interface FillModel {
+  name: FillModelName;
+  /** Fill of a market order placed when `bars[signalIndex]` closes */
+  marketFill(bars: BacktestBar[], signalIndex: number): Fill | null;
+  /** Stop-loss or take-profit exit triggered by `bars[index]` */
+  protectiveExit(position: OpenPosition, bars: BacktestBar[], index: number): ProtectiveExit | null;
+}
+
+export type FillModelName = 'close' | 'next_open' | 'intrabar';
+
+const stopHitByClose = (position: OpenPosition, close: number): ProtectiveExit['reason'] | null => {
+  const long = position.side === 'long';
+  if (position.stopLoss !== undefined && (long ? close <= position.stopLoss : close >= position.stopLoss)) return 'stop_loss';
+  if (position.takeProfit !== undefined && (long ? close >= position.takeProfit : close <= position.takeProfit)) return 'take_profit';
+  return null;
+};
+
+/**
+ * Orders fill at the close of the signal bar; stops trigger and fill on closes
+ */
+export const closeFillModel: FillModel = {
+  name: 'close',
+  marketFill: (bars, signalIndex) => ({ index: signalIndex, price: bars[signalIndex].close }),
+  protectiveExit: (position, bars, index) => {
+    const reason = stopHitByClose(position, bars[index].close);
+    return reason ? { price: bars[index].close, reason, index } : null;
+  }
+};
+
+/**
+ * Orders fill at the open of the bar after the signal; stops trigger on a
+ * close and fill at the next open, or at the close on the last bar
+ */
+export const nextOpenFillModel: FillModel = {
+  name: 'next_open',
+  marketFill: (bars, signalIndex) =>
+    signalIndex + 1 < bars.length ? { index: signalIndex + 1, price: bars[signalIndex + 1].open } : null,
+  protectiveExit: (position, bars, index) => {
+    const reason = stopHitByClose(position, bars[index].close);
+    if (!reason) return null;
+    const next = bars[index + 1];
+    return next ? { price: next.open, reason, index: index + 1 } : { price: bars[index].close, reason, index };
+  }
+};
+
+/**
+ * Orders fill at the close of the signal bar; stops trigger on the bar's
+ * high/low and fill at the stop level, or at the open when the bar gaps
+ * through it. When one bar touches both levels the stop is assumed first.
+ */
+export const intrabarFillModel: FillModel = {
+  name: 'intrabar',
+  marketFill: (bars, signalIndex) => ({ index: signalIndex, price: bars[signalIndex].close }),
+  protectiveExit: (position, bars, index) => {
+    const bar = bars[index];
+    const long = position.side === 'long';
+    const { stopLoss, takeProfit } = position;
+
+    if (stopLoss !== undefined && (long ? bar.low <= stopLoss : bar.high >= stopLoss)) {
+      const gapped = long ? bar.open < stopLoss : bar.open > stopLoss;
+      return { price: gapped ? bar.open : stopLoss, reason: 'stop_loss', index };
+    }
+    if (takeProfit !== undefined && (long ? bar.high >= takeProfit : bar.low <= takeProfit)) {
+      const gapped = long ? bar.open > takeProfit : bar.open < takeProfit;
+      return { price: gapped ? bar.open : takeProfit, reason: 'take_profit', index };
+    }
+    return null;
+  }
+};
+
+export const FILL_MODELS: Record<FillModelName, FillModel> = {
+  close: closeFillModel,
+  next_open: nextOpenFillModel,
+  intrabar: intrabarFillModel
+};
@@ -0,0 +1,150 @@
+/**
+ * Performance metrics shared by every backtest: one implementation of
+ * Sharpe, Sortino, VaR, drawdown and trade statistics
+ */
+
+import { BacktestEquityPoint, BacktestMetrics, BacktestMonthlyReturn, BacktestTrade } from './types';
+
+export interface MetricsOptions {
+  /** Annual risk-free rate */
+  riskFreeRate: number;
+  /** Bars per year, used to annualize per-bar returns */
+  periodsPerYear: number;
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export function equityReturns(curve: Array<{ equity: number }>): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1].equity;
+    if (previous > 0) returns.push((curve[i].equity - previous) / previous);
+  }
+  return returns;
+}
+
+export function sharpeRatio(returns: number[], riskFreeRate: number, periodsPerYear: number): number {
+  if (returns.length === 0) return 0;
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear);
+  const average = mean(excess);
+  const deviation = Math.sqrt(mean(excess.map(r => (r - average) ** 2)));
+  return deviation > 0 ? (average / deviation) * Math.sqrt(periodsPerYear) : 0;
+}
+
+export function sortinoRatio(returns: number[], riskFreeRate: number, periodsPerYear: number): number {
+  if (returns.length === 0) return 0;
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear);
+  const downside = Math.sqrt(mean(excess.map(r => Math.min(r, 0) ** 2)));
+  return downside > 0 ? (mean(excess) / downside) * Math.sqrt(periodsPerYear) : 0;
+}
+
+/**
+ * Historical value at risk as a positive loss fraction
+ */
+export function valueAtRisk(returns: number[], level = 0.05): number {
+  if (returns.length === 0) return 0;
+  const sorted = [...returns].sort((a, b) => a - b);
+  return Math.max(0, -sorted[Math.floor(level * sorted.length)]);
+}
+
+/**
+ * Mean loss of the returns at or beyond the value at risk, as a positive fraction
+ */
+export function expectedShortfall(returns: number[], level = 0.05): number {
+  if (returns.length === 0) return 0;
+  const threshold = -valueAtRisk(returns, level);
+  const tail = returns.filter(r => r <= threshold);
+  return tail.length > 0 ? Math.max(0, -mean(tail)) : 0;
+}
+
+export function maxConsecutive(trades: Array<{ pnl: number }>, wins: boolean): number {
+  let longest = 0;
+  let current = 0;
+  trades.forEach(trade => {
+    current = (trade.pnl > 0) === wins ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+}
+
+export function monthlyReturns(curve: Array<{ time: number; equity: number }>): BacktestMonthlyReturn[] {
+  const months = new Map<string, { year: number; month: number; start: number; end: number }>();
+  let previousEnd = curve[0]?.equity ?? 0;
+
+  curve.forEach(point => {
+    const date = new Date(point.time);
+    const key = `${date.getFullYear()}-${date.getMonth()}`;
+    const entry = months.get(key);
+    if (entry) {
+      entry.end = point.equity;
+    } else {
+      // Месяц начинается с equity на конец предыдущего
+      months.set(key, { year: date.getFullYear(), month: date.getMonth() + 1, start: previousEnd, end: point.equity });
+    }
+    previousEnd = point.equity;
+  });
+
+  return Array.from(months.values()).map(({ year, month, start, end }) => ({
+    year,
+    month,
+    return: start !== 0 ? (end - start) / start : 0
+  }));
+}
+
+export function calculateMetrics(
+  trades: BacktestTrade[],
+  curve: BacktestEquityPoint[],
+  initialCapital: number,
+  options: MetricsOptions
+): BacktestMetrics {
+  const returns = equityReturns(curve);
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+
+  const finalEquity = curve.length > 0 ? curve[curve.length - 1].equity : initialCapital;
+  const totalPnl = finalEquity - initialCapital;
+  const totalReturn = initialCapital > 0 ? totalPnl / initialCapital : 0;
+
+  let peak = initialCapital;
+  let maxDrawdownAmount = 0;
+  curve.forEach(point => {
+    peak = Math.max(peak, point.equity);
+    maxDrawdownAmount = Math.max(maxDrawdownAmount, peak - point.equity);
+  });
+  const maxDrawdown = curve.reduce((max, point) => Math.max(max, point.drawdown), 0);
+
+  const annualizedReturn = curve.length > 0 && totalReturn > -1
+    ? Math.pow(1 + totalReturn, options.periodsPerYear / curve.length) - 1
+    : totalReturn;
+
+  return {
+    initialCapital,
+    finalEquity,
+    totalPnl,
+    totalReturn,
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : 0,
+    averageLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+    largestWin: wins.length > 0 ? Math.max(...wins.map(t => t.pnl)) : 0,
+    largestLoss: losses.length > 0 ? Math.min(...losses.map(t => t.pnl)) : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    expectancy: trades.length > 0 ? trades.reduce((sum, t) => sum + t.pnl, 0) / trades.length : 0,
+    maxDrawdown,
+    maxDrawdownAmount,
+    sharpeRatio: sharpeRatio(returns, options.riskFreeRate, options.periodsPerYear),
+    sortinoRatio: sortinoRatio(returns, options.riskFreeRate, options.periodsPerYear),
+    calmarRatio: maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0,
+    valueAtRisk95: valueAtRisk(returns),
+    expectedShortfall95: expectedShortfall(returns),
+    maxConsecutiveWins: maxConsecutive(trades, true),
+    maxConsecutiveLosses: maxConsecutive(trades, false),
+    totalCommission: trades.reduce((sum, t) => sum + t.commission, 0),
+    totalSlippage: trades.reduce((sum, t) => sum + t.slippage, 0),
+    exposure: curve.length > 0 ? curve.filter(point => point.openPositions > 0).length / curve.length : 0
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Position-sizing policies for orders that do not set their own size
+ */
+
+export type PositionSizing =
+  | { type: 'fixed_quantity'; quantity: number }
+  | { type: 'fixed_notional'; amount: number }
+  /** Position value as a share of equity */
+  | { type: 'percent_equity'; fraction: number }
+  /**
+   * Lose `fraction` of equity if the stop is hit; orders without a stop
+   * fall back to `fallbackFraction` of equity as position value
+   */
+  | { type: 'risk_percent'; fraction: number; fallbackFraction: number };
+
+export interface SizingContext {
+  equity: number;
+  price: number;
+  stopLoss?: number;
+}
+
+export function positionQuantity(sizing: PositionSizing, { equity, price, stopLoss }: SizingContext): number {
+  if (price <= 0) return 0;
+
+  switch (sizing.type) {
+    case 'fixed_quantity':
+      return sizing.quantity;
+    case 'fixed_notional':
+      return sizing.amount / price;
+    case 'percent_equity':
+      return (equity * sizing.fraction) / price;
+    case 'risk_percent': {
+      const stopDistance = stopLoss !== undefined ? Math.abs(price - stopLoss) : 0;
+      return stopDistance > 0
+        ? (equity * sizing.fraction) / stopDistance
+        : (equity * sizing.fallbackFraction) / price;
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Types of the event-driven backtest core shared by all backtesting APIs
+ */
+
+export type PositionSide = 'long' | 'short';
+
+export type ExitReason = 'signal' | 'stop_loss' | 'take_profit' | 'end_of_data' | 'max_drawdown';
+
+/** Price bar the engine runs on; adapters convert their candle types into it */
+export interface BacktestBar {
+  /** Position in the bar array */
+  index: number;
+  /** Bar open time, ms */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface EntryOrder {
+  side: PositionSide;
+  /** Units to trade; overrides `notional` and the sizing policy */
+  quantity?: number;
+  /** Position value in currency; overrides the sizing policy */
+  notional?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  /** Free-form label carried to the trade, e.g. the entry reason */
+  tag?: string;
+}
+
+export interface OpenPosition {
+  id: string;
+  side: PositionSide;
+  quantity: number;
+  entryIndex: number;
+  entryTime: number;
+  /** Fill price including slippage */
+  entryPrice: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  tag?: string;
+  entryCommission: number;
+  entrySlippage: number;
+  /** Best and worst close-to-entry moves seen so far, as fractions of the entry price */
+  maxFavorableExcursion: number;
+  maxAdverseExcursion: number;
+  unrealizedPnl: number;
+}
+
+export interface BacktestTrade {
+  id: string;
+  side: PositionSide;
+  quantity: number;
+  entryIndex: number;
+  exitIndex: number;
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  /** P&L before commissions; slippage is already in the fill prices */
+  grossPnl: number;
+  commission: number;
+  /** Currency lost to slippage on entry and exit */
+  slippage: number;
+  pnl: number;
+  /** pnl relative to the entry notional */
+  pnlPercent: number;
+  exitReason: ExitReason;
+  maxFavorableExcursion: number;
+  maxAdverseExcursion: number;
+  tag?: string;
+}
+
+export interface BacktestEquityPoint {
+  index: number;
+  time: number;
+  /** Cash plus unrealized P&L */
+  equity: number;
+  cash: number;
+  /** Drawdown from the running peak, as a fraction */
+  drawdown: number;
+  openPositions: number;
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalPnl: number;
+  /** Fraction of the initial capital */
+  totalReturn: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  averageWin: number;
+  /** Positive number */
+  averageLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  profitFactor: number;
+  /** Mean P&L per trade */
+  expectancy: number;
+  /** Fraction of the peak equity */
+  maxDrawdown: number;
+  maxDrawdownAmount: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  /** Per-bar loss not exceeded with 95% confidence, as a positive fraction */
+  valueAtRisk95: number;
+  /** Mean per-bar loss beyond the VaR, as a positive fraction */
+  expectedShortfall95: number;
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  totalCommission: number;
+  totalSlippage: number;
+  /** Share of bars with at least one open position */
+  exposure: number;
+}
+
+export interface BacktestMonthlyReturn {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** Fraction */
+  return: number;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+  /** Per-bar equity returns the ratios were computed from */
+  returns: number[];
+  monthlyReturns: BacktestMonthlyReturn[];
+  metrics: BacktestMetrics;
+  /** Bar index at which the max drawdown limit stopped trading */
+  haltedAt?: number;
+}
@@ -1,22 +1,12 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { CandleData } from '@/types/session';
+import { candleSyncService, EnqueueCandleOperation, isNetworkError, versionOf } from '@/services/offline/CandleSyncService';
 
 // Кэш для свечей по сессиям
 const candleCache = new Map<string, { data: CandleData[], timestamp: number, lastIndex: number }>();
 const CACHE_TTL = 3 * 60 * 1000; // 3 минуты для свечей
-
-// Batch операции
-interface BatchOperation {
-  type: 'insert' | 'update' | 'delete';
-  data: any;
-  sessionId: string;
-  candleIndex?: number;
-}
-
-let batchQueue: BatchOperation[] = [];
-let batchTimeout: NodeJS.Timeout | null = null;
-const BATCH_DELAY = 1000; // 1 секунда
+const BATCH_CHUNK_SIZE = 500;
 
 // Utility функции
 const isCacheValid = (timestamp: number): boolean => {
@@ -48,76 +38,79 @@ const retryOperation = async <T>(
   throw lastError!;
 };
 
-// Batch processing
-const processBatch = async () => {
-  if (batchQueue.length === 0) return;
-  
-  const operations = [...batchQueue];
-  batchQueue = [];
-  
-  // Группируем операции по сессиям для оптимизации
-  const sessionOperations = new Map<string, BatchOperation[]>();
-  
-  operations.forEach(op => {
-    if (!sessionOperations.has(op.sessionId)) {
-      sessionOperations.set(op.sessionId, []);
-    }
-    sessionOperations.get(op.sessionId)!.push(op);
-  });
-  
-  // Выполняем операции для каждой сессии
-  for (const [sessionId, ops] of sessionOperations) {
-    try {
-      await processSessionBatch(sessionId, ops);
-    } catch (error) {
-      console.error(`Batch processing failed for session ${sessionId}:`, error);
-    }
-  }
+// Офлайн-очередь: операции сохраняются в IndexedDB и отправляются при появлении сети
+const addToBatch = async (operation: EnqueueCandleOperation): Promise<void> => {
+  await candleSyncService.enqueue(operation);
 };
 
-const processSessionBatch = async (sessionId: string, operations: BatchOperation[]) => {
-  // Здесь можно добавить более сложную логику батчинга
-  // Пока выполняем операции последовательно
-  for (const op of operations) {
-    try {
-      switch (op.type) {
-        case 'insert':
-          await supabase.from('candle_data').upsert(op.data);
-          break;
-        case 'update':
-          await supabase
-            .from('candle_data')
-            .update(op.data)
-            .eq('session_id', sessionId)
-            .eq('candle_index', op.candleIndex!);
-          break;
-        case 'delete':
-          await supabase
-            .from('candle_data')
-            .delete()
-            .eq('session_id', sessionId)
-            .eq('candle_index', op.candleIndex!);
-          break;
-      }
-    } catch (error) {
-      console.error('Batch operation failed:', op, error);
-    }
-  }
-  
-  // Инвалидируем кэш для данной сессии
-  candleCache.delete(getCacheKey(sessionId));
+// Без сети или с неотправленными правками этой свечи пишем только в очередь, чтобы не нарушить порядок
+const shouldQueue = (sessionId: string, candleIndex: number): boolean =>
+  (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+  candleSyncService.hasPending(sessionId, candleIndex);
+
+const getCachedCandle = (sessionId: string, candleIndex: number) => {
+  const cached = candleCache.get(getCacheKey(sessionId));
+  if (!cached) return undefined;
+  return cached.data.find(c => c.candle_index === candleIndex) ?? null;
 };
 
-const addToBatch = (operation: BatchOperation) => {
-  batchQueue.push(operation);
-  
-  if (batchTimeout) {
-    clearTimeout(batchTimeout);
+// undefined — состояние сервера неизвестно, null — свечи на сервере не было
+const baseVersionOf = (sessionId: string, candleIndex: number): string | null | undefined => {
+  const candle = getCachedCandle(sessionId, candleIndex);
+  return candle === undefined ? undefined : versionOf(candle);
+};
+
+const cacheCandle = (candle: CandleData) => {
+  const cached = candleCache.get(getCacheKey(candle.session_id));
+  if (!cached) return;
+
+  const existingIndex = cached.data.findIndex(c => c.candle_index === candle.candle_index);
+  if (existingIndex >= 0) {
+    cached.data[existingIndex] = candle;
+  } else {
+    cached.data.push(candle);
+    cached.data.sort((a, b) => a.candle_index - b.candle_index);
   }
-  
-  batchTimeout = setTimeout(processBatch, BATCH_DELAY);
+  cached.lastIndex = Math.max(cached.lastIndex, candle.candle_index);
+};
+
+const queueSave = async (candleData: Omit<CandleData, 'id'>): Promise<CandleData> => {
+  await addToBatch({
+    type: 'insert',
+    sessionId: candleData.session_id,
+    candleIndex: candleData.candle_index,
+    data: candleData,
+    baseVersion: baseVersionOf(candleData.session_id, candleData.candle_index)
+  });
+  return candleData;
+};
+
+const queueUpdate = async (sessionId: string, candleIndex: number, updatedData: Partial<CandleData>): Promise<CandleData> => {
+  const existing = getCachedCandle(sessionId, candleIndex);
+  await addToBatch({
+    type: 'update',
+    sessionId,
+    candleIndex,
+    data: updatedData,
+    baseVersion: existing === undefined ? undefined : versionOf(existing)
+  });
+  return { ...existing, ...updatedData, session_id: sessionId, candle_index: candleIndex } as CandleData;
+};
+
+const queueDelete = async (sessionId: string, candleIndex: number): Promise<void> => {
+  await addToBatch({
+    type: 'delete',
+    sessionId,
+    candleIndex,
+    baseVersion: baseVersionOf(sessionId, candleIndex)
+  });
 };
 
+// После отправки очереди серверные данные сессии изменились
+candleSyncService.onSessionSynced(sessionId => {
+  candleCache.delete(getCacheKey(sessionId));
+});
+
 export const candleService = {
   async saveCandle(candleData: Omit<CandleData, 'id'>): Promise<CandleData> {
     // Проверяем обязательные поля
@@ -129,6 +122,12 @@ export const candleService = {
       throw new Error('Valid candle index is required');
     }
 
+    if (shouldQueue(candleData.session_id, candleData.candle_index)) {
+      const queued = await queueSave(candleData);
+      cacheCandle(queued);
+      return queued;
+    }
+
     return retryOperation(async () => {
       const { data, error } = await supabase
         .from('candle_data')
@@ -149,29 +148,26 @@ export const candleService = {
       }
       
       // Обновляем кэш
-      const cacheKey = getCacheKey(candleData.session_id);
-      const cached = candleCache.get(cacheKey);
-      
+      const cached = candleCache.get(getCacheKey(candleData.session_id));
       if (cached && isCacheValid(cached.timestamp)) {
-        // Обновляем или добавляем свечу в кэш
-        const existingIndex = cached.data.findIndex(c => c.candle_index === data.candle_index);
-        if (existingIndex >= 0) {
-          cached.data[existingIndex] = data;
-        } else {
-          cached.data.push(data);
-          cached.data.sort((a, b) => a.candle_index - b.candle_index);
-        }
-        cached.lastIndex = Math.max(cached.lastIndex, data.candle_index);
+        cacheCandle(data);
       }
       
       return data;
+    }).catch(async error => {
+      if (!isNetworkError(error)) throw error;
+
+      console.warn('Supabase unreachable, candle queued for sync:', candleData.candle_index);
+      const queued = await queueSave(candleData);
+      cacheCandle(queued);
+      return queued;
     });
   },
 
   async getCandlesFromCache(sessionId: string): Promise<CandleData[] | null> {
     const cached = candleCache.get(getCacheKey(sessionId));
     if (cached && isCacheValid(cached.timestamp)) {
-      return [...cached.data]; // Возвращаем копию
+      return candleSyncService.applyPending(sessionId, cached.data); // Возвращаем копию
     }
     return null;
   },
@@ -209,7 +205,12 @@ export const candleService = {
         lastIndex
       });
       
-      return candles;
+      return candleSyncService.applyPending(sessionId, candles);
+    }).catch(error => {
+      // Без сети отдаем устаревший кэш вместе с офлайн-правками
+      const stale = candleCache.get(getCacheKey(sessionId));
+      if (!stale || !isNetworkError(error)) throw error;
+      return candleSyncService.applyPending(sessionId, stale.data);
     });
   },
 
@@ -222,6 +223,20 @@ export const candleService = {
       throw new Error('Valid candle index is required');
     }
 
+    const removeFromCache = () => {
+      const cached = candleCache.get(getCacheKey(sessionId));
+      if (cached) {
+        cached.data = cached.data.filter(c => c.candle_index !== candleIndex);
+        cached.timestamp = Date.now();
+      }
+    };
+
+    if (shouldQueue(sessionId, candleIndex)) {
+      await queueDelete(sessionId, candleIndex);
+      removeFromCache();
+      return;
+    }
+
     return retryOperation(async () => {
       const { error } = await supabase
         .from('candle_data')
@@ -235,13 +250,13 @@ export const candleService = {
       }
       
       // Обновляем кэш
-      const cacheKey = getCacheKey(sessionId);
-      const cached = candleCache.get(cacheKey);
-      
-      if (cached) {
-        cached.data = cached.data.filter(c => c.candle_index !== candleIndex);
-        cached.timestamp = Date.now();
-      }
+      removeFromCache();
+    }).catch(async error => {
+      if (!isNetworkError(error)) throw error;
+
+      console.warn('Supabase unreachable, candle deletion queued for sync:', candleIndex);
+      await queueDelete(sessionId, candleIndex);
+      removeFromCache();
     });
   },
 
@@ -258,6 +273,16 @@ export const candleService = {
       throw new Error('Updated data is required');
     }
 
+    const queueAndCache = async () => {
+      const queued = await queueUpdate(sessionId, candleIndex, updatedData);
+      cacheCandle(queued);
+      return queued;
+    };
+
+    if (shouldQueue(sessionId, candleIndex)) {
+      return queueAndCache();
+    }
+
     return retryOperation(async () => {
       const { data, error } = await supabase
         .from('candle_data')
@@ -289,6 +314,11 @@ export const candleService = {
       }
       
       return data;
+    }).catch(async error => {
+      if (!isNetworkError(error)) throw error;
+
+      console.warn('Supabase unreachable, candle update queued for sync:', candleIndex);
+      return queueAndCache();
     });
   },
 
@@ -363,6 +393,15 @@ export const candleService = {
   async saveCandleBatch(candles: CandleData[]): Promise<CandleData[]> {
     if (candles.length === 0) return [];
     
+    // Большие импорты отправляем частями, чтобы не упереться в лимит размера запроса
+    if (candles.length > BATCH_CHUNK_SIZE) {
+      const saved: CandleData[] = [];
+      for (let i = 0; i < candles.length; i += BATCH_CHUNK_SIZE) {
+        saved.push(...await this.saveCandleBatch(candles.slice(i, i + BATCH_CHUNK_SIZE)));
+      }
+      return saved;
+    }
+    
     return retryOperation(async () => {
       const { data, error } = await supabase
         .from('candle_data')
@@ -413,13 +452,9 @@ export const candleService = {
     });
   },
 
-  // Принудительная обработка батча
+  // Принудительная отправка офлайн-очереди
   async flushBatch(): Promise<void> {
-    if (batchTimeout) {
-      clearTimeout(batchTimeout);
-      batchTimeout = null;
-    }
-    await processBatch();
+    await candleSyncService.sync();
   },
 
   // Управление кэшем
@@ -445,7 +480,7 @@ export const candleService = {
       totalSessions: candleCache.size,
       validSessions: stats.filter(s => s.isValid).length,
       totalCandles: stats.reduce((sum, s) => sum + s.candleCount, 0),
-      batchQueueSize: batchQueue.length,
+      batchQueueSize: candleSyncService.getState().pending,
       sessions: stats
     };
   }
@@ -1,4 +1,5 @@
 import { CandleData } from '@/types/session';
+import { supportResistanceService } from '@/services/patterns/SupportResistanceService';
 
 interface VolumeAnalysis {
   currentVolume: number;
@@ -215,12 +216,11 @@ export class SessionBasedDataService {
   }
 
   private calculateSupportResistance(candles: CandleData[]): { supportLevel: number; resistanceLevel: number } {
-    const lows = candles.map(c => c.low);
-    const highs = candles.map(c => c.high);
+    const { nearestSupport, nearestResistance } = supportResistanceService.analyze(candles);
     
-    // Простой алгоритм: находим минимумы и максимумы
-    const supportLevel = Math.min(...lows);
-    const resistanceLevel = Math.max(...highs);
+    // Без подтвержденного уровня берем экстремумы окна
+    const supportLevel = nearestSupport?.level ?? Math.min(...candles.map(c => c.low));
+    const resistanceLevel = nearestResistance?.level ?? Math.max(...candles.map(c => c.high));
     
     return { supportLevel, resistanceLevel };
   }
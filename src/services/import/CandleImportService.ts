@@ -0,0 +1,337 @@
+/**
+ * Candle Import Service
+ * Turns CSV, MetaTrader and TradingView exports into session candles: timestamps
+ * are normalized to UTC and snapped to the session grid, rows go through
+ * candleValidationRules, and duplicates, conflicts with stored candles and gaps
+ * are reported in a preview before anything is written.
+ */
+
+import { CandleData, TradingSession } from '@/types/session';
+import { calculateCandleDateTime, getTimeZoneOffsetMinutes, parseTimeframe, zonedDateTimeToUtc } from '@/utils/dateTimeUtils';
+import {
+  validateRequiredFields,
+  validateNumericValues,
+  validatePriceLogic,
+  validateVolumeLogic,
+  validateSpread
+} from '@/utils/validation/candleValidationRules';
+import { CandleImportFormat, CandleParseOptions, ColumnMapping, RawCandleRow, parseCandleFile } from './candleImportParsers';
+
+export type ImportRowStatus = 'new' | 'overwrite' | 'unchanged' | 'duplicate' | 'invalid';
+
+export interface ImportedCandleRow {
+  line: number;
+  /** null when the row has no usable timestamp */
+  candle: CandleData | null;
+  status: ImportRowStatus;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CandleImportGap {
+  /** Last candle before the gap and first candle after it */
+  fromIndex: number;
+  toIndex: number;
+  missing: number;
+  from: string;
+  to: string;
+}
+
+export interface CandleImportSummary {
+  total: number;
+  new: number;
+  overwrite: number;
+  unchanged: number;
+  duplicate: number;
+  invalid: number;
+  /** Importable rows that carry warnings */
+  withWarnings: number;
+}
+
+export interface CandleImportPreview {
+  sessionId: string;
+  format: CandleImportFormat;
+  headers: string[];
+  mapping: ColumnMapping;
+  timeZone: string;
+  rows: ImportedCandleRow[];
+  summary: CandleImportSummary;
+  gaps: CandleImportGap[];
+  /** Median spacing of the file, in minutes */
+  detectedTimeframe: number | null;
+  range: { from: string; to: string } | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CandleImportOptions extends CandleParseOptions {
+  /** Time zone of timestamps without an explicit offset: 'UTC', 'local', '+03:00' or an IANA name */
+  timeZone: string;
+  /** Rows beyond the limit are rejected with a file-level error */
+  maxRows: number;
+}
+
+const DEFAULT_OPTIONS: CandleImportOptions = {
+  timeZone: 'UTC',
+  maxRows: 50000
+};
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+/** Допуск при сравнении цен с сохраненной свечой */
+const PRICE_EPSILON = 1e-10;
+
+const EXPLICIT_OFFSET_REGEX = /(Z|[+-]\d{2}:?\d{2})$/i;
+const YMD_REGEX = /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/;
+const DMY_REGEX = /^(\d{1,2})[-./](\d{1,2})[-./](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const COMPACT_REGEX = /^(\d{4})(\d{2})(\d{2})(?:[ T](\d{2}):?(\d{2}):?(\d{2})?)?$/;
+
+/**
+ * Время строки выгрузки в UTC (мс). Unix-время и ISO со смещением не зависят от пояса,
+ * остальные форматы трактуются как время по часам `timeZone`
+ */
+export function parseImportDateTime(value: string, timeZone: string): number | null {
+  const text = value.trim();
+
+  if (/^\d{9,10}(\.\d+)?$/.test(text)) return Math.round(parseFloat(text) * 1000);
+  if (/^\d{12,13}$/.test(text)) return parseInt(text, 10);
+
+  if (EXPLICIT_OFFSET_REGEX.test(text) && /^\d{4}-\d{2}-\d{2}[ T]/.test(text)) {
+    const parsed = Date.parse(text.replace(' ', 'T'));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  const ymd = text.match(YMD_REGEX) ?? text.match(COMPACT_REGEX);
+  const dmy = ymd ? null : text.match(DMY_REGEX);
+  const parts = ymd
+    ? { year: ymd[1], month: ymd[2], day: ymd[3], hour: ymd[4], minute: ymd[5], second: ymd[6] }
+    : dmy
+      ? { year: dmy[3], month: dmy[2], day: dmy[1], hour: dmy[4], minute: dmy[5], second: dmy[6] }
+      : null;
+  if (!parts) return null;
+
+  const [year, month, day, hour, minute, second] = [
+    parts.year, parts.month, parts.day, parts.hour ?? '0', parts.minute ?? '0', parts.second ?? '0'
+  ].map(p => parseInt(p, 10));
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  return zonedDateTimeToUtc(year, month, day, hour, minute, second, timeZone);
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const samePrices = (a: CandleData, b: CandleData): boolean =>
+  PRICE_FIELDS.every(field => Math.abs(a[field] - b[field]) < PRICE_EPSILON);
+
+export class CandleImportService {
+  /**
+   * Разбирает выгрузку и сопоставляет ее со свечами сессии. Ничего не записывает
+   */
+  preview(
+    text: string,
+    session: TradingSession,
+    existing: CandleData[],
+    options: Partial<CandleImportOptions> = {}
+  ): CandleImportPreview {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const parsed = parseCandleFile(text, config);
+    const errors = parsed.errors.filter(e => e.line === 0).map(e => e.message);
+    const warnings: string[] = [];
+
+    const timeframeMs = parseTimeframe(session.timeframe) * 60000;
+    const sessionStart = new Date(calculateCandleDateTime(session.start_date, session.start_time, session.timeframe, 0)).getTime();
+
+    try {
+      getTimeZoneOffsetMinutes(config.timeZone, Date.now());
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (parsed.rows.length > config.maxRows) {
+      errors.push(`Слишком много строк: ${parsed.rows.length}, допустимо не больше ${config.maxRows}`);
+    }
+
+    const rows: ImportedCandleRow[] = parsed.errors
+      .filter(e => e.line > 0)
+      .map(e => ({ line: e.line, candle: null, status: 'invalid' as const, errors: [e.message], warnings: [] }));
+
+    const timestamps: number[] = [];
+    if (errors.length === 0) {
+      parsed.rows.forEach(raw => {
+        const row = this.buildRow(raw, session, sessionStart, timeframeMs, config.timeZone);
+        rows.push(row);
+        if (row.candle) timestamps.push(new Date(row.candle.candle_datetime).getTime());
+      });
+    }
+    rows.sort((a, b) => a.line - b.line);
+
+    const unique = [...new Set(timestamps)].sort((a, b) => a - b);
+    const spacing = median(unique.slice(1).map((t, i) => t - unique[i]));
+    const detectedTimeframe = spacing === null ? null : spacing / 60000;
+    if (detectedTimeframe !== null && spacing !== timeframeMs) {
+      warnings.push(`Интервал свечей в файле (${detectedTimeframe} мин) не совпадает с таймфреймом сессии (${session.timeframe})`);
+    }
+
+    this.markDuplicates(rows, existing);
+
+    const importable = rows.filter(r => r.status === 'new' || r.status === 'overwrite');
+    const dates = importable.map(r => r.candle!.candle_datetime).sort();
+
+    return {
+      sessionId: session.id,
+      format: parsed.format,
+      headers: parsed.headers,
+      mapping: parsed.mapping,
+      timeZone: config.timeZone,
+      rows,
+      summary: this.summarize(rows),
+      gaps: this.findGaps(importable.map(r => r.candle!), existing),
+      detectedTimeframe,
+      range: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Свечи к записи после подтверждения; расходящиеся с сохраненными — только при overwriteExisting
+   */
+  getCandlesToImport(preview: CandleImportPreview, overwriteExisting = false): CandleData[] {
+    if (preview.errors.length > 0) return [];
+
+    return preview.rows
+      .filter(r => r.status === 'new' || (overwriteExisting && r.status === 'overwrite'))
+      .map(r => r.candle!)
+      .sort((a, b) => a.candle_index - b.candle_index);
+  }
+
+  private buildRow(
+    raw: RawCandleRow,
+    session: TradingSession,
+    sessionStart: number,
+    timeframeMs: number,
+    timeZone: string
+  ): ImportedCandleRow {
+    const row: ImportedCandleRow = { line: raw.line, candle: null, status: 'invalid', errors: [], warnings: [] };
+
+    const timestamp = raw.datetime ? parseImportDateTime(raw.datetime, timeZone) : null;
+    if (timestamp === null) {
+      row.errors.push(`Не удалось разобрать дату: "${raw.datetime}"`);
+    }
+
+    const fieldErrors = validateRequiredFields(raw);
+    row.errors.push(...(fieldErrors.length > 0 ? fieldErrors : validateNumericValues(raw)));
+
+    const values = {
+      open: parseFloat(raw.open),
+      high: parseFloat(raw.high),
+      low: parseFloat(raw.low),
+      close: parseFloat(raw.close),
+      volume: parseFloat(raw.volume)
+    };
+    if (row.errors.length === 0) {
+      row.errors.push(...validatePriceLogic(values));
+      row.warnings.push(...validateVolumeLogic(values.volume), ...validateSpread(values));
+    }
+
+    if (timestamp === null) return row;
+
+    const offset = timestamp - sessionStart;
+    const candleIndex = Math.round(offset / timeframeMs);
+    if (offset < 0) {
+      row.errors.push('Свеча раньше начала сессии');
+    } else if (offset % timeframeMs !== 0) {
+      row.errors.push(`Время ${new Date(timestamp).toISOString()} не совпадает с сеткой таймфрейма ${session.timeframe}`);
+    }
+
+    row.candle = {
+      session_id: session.id,
+      candle_index: Math.max(0, candleIndex),
+      ...values,
+      candle_datetime: new Date(timestamp).toISOString(),
+      source: 'import'
+    };
+    if (row.errors.length === 0) row.status = 'new';
+    return row;
+  }
+
+  /**
+   * Повтор индекса внутри файла — дубликат (остается первая строка); совпадение с сохраненной
+   * свечой — unchanged, расхождение — overwrite
+   */
+  private markDuplicates(rows: ImportedCandleRow[], existing: CandleData[]): void {
+    const stored = new Map(existing.map(c => [c.candle_index, c]));
+    const seen = new Map<number, ImportedCandleRow>();
+
+    rows.forEach(row => {
+      if (row.status !== 'new' || !row.candle) return;
+      const index = row.candle.candle_index;
+
+      const first = seen.get(index);
+      if (first) {
+        row.status = 'duplicate';
+        if (!samePrices(first.candle!, row.candle)) {
+          row.warnings.push(`Повтор свечи из строки ${first.line} с другими ценами`);
+        }
+        return;
+      }
+      seen.set(index, row);
+
+      const current = stored.get(index);
+      if (current) {
+        row.status = samePrices(current, row.candle) ? 'unchanged' : 'overwrite';
+      }
+    });
+  }
+
+  /**
+   * Пропуски в индексах сессии вокруг импортируемых свечей
+   */
+  private findGaps(imported: CandleData[], existing: CandleData[]): CandleImportGap[] {
+    const importedIndexes = new Set(imported.map(c => c.candle_index));
+    const byIndex = new Map<number, CandleData>();
+    existing.forEach(c => byIndex.set(c.candle_index, c));
+    imported.forEach(c => byIndex.set(c.candle_index, c));
+
+    const sorted = Array.from(byIndex.values()).sort((a, b) => a.candle_index - b.candle_index);
+    const gaps: CandleImportGap[] = [];
+
+    for (let i = 1; i < sorted.length; i++) {
+      const before = sorted[i - 1];
+      const after = sorted[i];
+      const missing = after.candle_index - before.candle_index - 1;
+      if (missing > 0 && (importedIndexes.has(before.candle_index) || importedIndexes.has(after.candle_index))) {
+        gaps.push({
+          fromIndex: before.candle_index,
+          toIndex: after.candle_index,
+          missing,
+          from: before.candle_datetime,
+          to: after.candle_datetime
+        });
+      }
+    }
+
+    return gaps;
+  }
+
+  private summarize(rows: ImportedCandleRow[]): CandleImportSummary {
+    const count = (status: ImportRowStatus) => rows.filter(r => r.status === status).length;
+    return {
+      total: rows.length,
+      new: count('new'),
+      overwrite: count('overwrite'),
+      unchanged: count('unchanged'),
+      duplicate: count('duplicate'),
+      invalid: count('invalid'),
+      withWarnings: rows.filter(r => (r.status === 'new' || r.status === 'overwrite') && r.warnings.length > 0).length
+    };
+  }
+}
+
+export const candleImportService = new CandleImportService();
@@ -0,0 +1,308 @@
+/**
+ * Candle import parsers
+ * Splits generic CSV (with column mapping), MetaTrader 4/5 history exports and
+ * TradingView chart exports into raw OHLCV rows. Values stay strings here:
+ * timestamps and validation are handled by CandleImportService.
+ */
+
+export type CandleImportFormat = 'csv' | 'mt4' | 'mt5' | 'tradingview';
+
+/**
+ * Columns of a generic CSV, by header name. Files without a header use
+ * 1-based column numbers as names ('1', '2', ...)
+ */
+export interface ColumnMapping {
+  /** Date and time in one column: ISO, unix seconds/ms or "YYYY-MM-DD HH:mm" */
+  datetime?: string;
+  /** Separate date and time columns, as in MetaTrader exports */
+  date?: string;
+  time?: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  /** Missing volume is imported as 0 */
+  volume?: string;
+}
+
+export interface RawCandleRow {
+  /** 1-based line in the source file */
+  line: number;
+  /** Date and time as written in the file; separate columns are joined with a space */
+  datetime: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+}
+
+export interface CandleParseError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedCandleFile {
+  format: CandleImportFormat;
+  delimiter: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: RawCandleRow[];
+  /** File-level problems and lines that could not be split into the mapped columns */
+  errors: CandleParseError[];
+}
+
+export interface CandleParseOptions {
+  /** Detected from the first line when omitted */
+  format?: CandleImportFormat;
+  /** Generic CSV only; guessed from the header when omitted */
+  mapping?: ColumnMapping;
+  /** Generic CSV only; detected when omitted */
+  hasHeader?: boolean;
+  delimiter?: string;
+}
+
+const DELIMITERS = [',', ';', '\t'] as const;
+
+/** MT4 History Center: 2024.01.02,10:00,1.10000,1.10100,1.09900,1.10050,123 */
+const MT4_LINE_REGEX = /^\d{4}\.\d{2}\.\d{2}[,;\t]\d{1,2}:\d{2}(:\d{2})?[,;\t]/;
+
+const MT4_MAPPING: ColumnMapping = { date: '1', time: '2', open: '3', high: '4', low: '5', close: '6', volume: '7' };
+
+const HEADER_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  datetime: ['datetime', 'date_time', 'timestamp', 'time (utc)', 'date/time', 'дата и время', 'gmt time', 'local time'],
+  date: ['date', 'day', 'дата'],
+  time: ['time', 'hour', 'время'],
+  open: ['open', 'o', 'открытие', 'open price'],
+  high: ['high', 'h', 'максимум', 'high price'],
+  low: ['low', 'l', 'минимум', 'low price'],
+  close: ['close', 'c', 'закрытие', 'close price'],
+  volume: ['volume', 'vol', 'v', 'tickvol', 'tick volume', 'real volume', 'объем']
+};
+
+const normalizeHeader = (header: string): string =>
+  header.trim().replace(/^<(.*)>$/, '$1').replace(/^"(.*)"$/, '$1').toLowerCase();
+
+const splitLines = (text: string): string[] => text.replace(/^﻿/, '').split(/\r\n|\n|\r/);
+
+/**
+ * Разделитель, которого больше всего в строке вне кавычек
+ */
+export const detectDelimiter = (line: string): string => {
+  const counts = new Map<string, number>(DELIMITERS.map(d => [d, 0]));
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), DELIMITERS[0]);
+};
+
+/**
+ * Разбивает строку CSV с учетом кавычек и экранирования ""
+ */
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+};
+
+export const detectImportFormat = (text: string): CandleImportFormat => {
+  const firstLine = splitLines(text).find(line => line.trim()) ?? '';
+  const headers = splitCsvLine(firstLine, detectDelimiter(firstLine)).map(normalizeHeader);
+
+  if (firstLine.trim().startsWith('<DATE>')) return 'mt5';
+  if (MT4_LINE_REGEX.test(firstLine.trim())) return 'mt4';
+  if (headers[0] === 'time' && ['open', 'high', 'low', 'close'].every(h => headers.includes(h))) return 'tradingview';
+  return 'csv';
+};
+
+/**
+ * Сопоставление колонок по названиям заголовков; null, если OHLC или время не найдены
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping | null => {
+  const normalized = headers.map(normalizeHeader);
+  const find = (field: keyof ColumnMapping) => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    return index >= 0 ? headers[index] : undefined;
+  };
+
+  const open = find('open');
+  const high = find('high');
+  const low = find('low');
+  const close = find('close');
+  const datetime = find('datetime');
+  const date = find('date');
+  const time = find('time');
+
+  if (!open || !high || !low || !close || (!datetime && !date && !time)) {
+    return null;
+  }
+
+  return {
+    // Одна колонка "time" в выгрузках обычно содержит и дату
+    ...(datetime ? { datetime } : date ? { date, time } : { datetime: time }),
+    open,
+    high,
+    low,
+    close,
+    volume: find('volume')
+  };
+};
+
+// При разделителе ";" или табуляции десятичным разделителем бывает запятая
+const normalizeNumber = (value: string | undefined, delimiter: string): string => {
+  const trimmed = (value ?? '').trim().replace(/\s/g, '');
+  return delimiter === ',' ? trimmed : trimmed.replace(',', '.');
+};
+
+const extractRows = (
+  records: { line: number; cells: string[] }[],
+  headers: string[],
+  mapping: ColumnMapping,
+  delimiter: string,
+  pickVolume?: (cell: (name: string) => string | undefined) => string | undefined
+): { rows: RawCandleRow[]; errors: CandleParseError[] } => {
+  const rows: RawCandleRow[] = [];
+  const errors: CandleParseError[] = [];
+  const columnIndex = new Map(headers.map((header, index) => [header, index]));
+
+  const required = [mapping.datetime ?? mapping.date, mapping.open, mapping.high, mapping.low, mapping.close];
+  const missing = [...required, mapping.time, mapping.volume].filter(
+    (name): name is string => name !== undefined && !columnIndex.has(name)
+  );
+  if (required.includes(undefined) || missing.length > 0) {
+    errors.push({ line: 0, message: `Колонки не найдены: ${missing.join(', ') || 'дата/время'}` });
+    return { rows, errors };
+  }
+
+  const lastRequired = Math.max(...required.map(name => columnIndex.get(name!)!));
+
+  records.forEach(({ line, cells }) => {
+    const cell = (name: string) => cells[columnIndex.get(name)!];
+
+    if (cells.length <= lastRequired) {
+      errors.push({ line, message: `Ожидалось не меньше ${lastRequired + 1} колонок, получено ${cells.length}` });
+      return;
+    }
+
+    const datetime = mapping.datetime
+      ? cell(mapping.datetime)
+      : [cell(mapping.date!), mapping.time ? cell(mapping.time) : undefined].filter(Boolean).join(' ');
+
+    rows.push({
+      line,
+      datetime: datetime.trim(),
+      open: normalizeNumber(cell(mapping.open), delimiter),
+      high: normalizeNumber(cell(mapping.high), delimiter),
+      low: normalizeNumber(cell(mapping.low), delimiter),
+      close: normalizeNumber(cell(mapping.close), delimiter),
+      volume: normalizeNumber((pickVolume ? pickVolume(cell) : mapping.volume && cell(mapping.volume)) || '0', delimiter)
+    });
+  });
+
+  return { rows, errors };
+};
+
+/**
+ * Разбирает выгрузку в сырые строки OHLCV. Формат, разделитель и заголовок определяются автоматически
+ */
+export const parseCandleFile = (text: string, options: CandleParseOptions = {}): ParsedCandleFile => {
+  const format = options.format ?? detectImportFormat(text);
+  const records = splitLines(text)
+    .map((content, i) => ({ line: i + 1, content }))
+    .filter(({ content }) => content.trim());
+
+  const delimiter = options.delimiter ?? (records.length > 0 ? detectDelimiter(records[0].content) : ',');
+  const split = records.map(({ line, content }) => ({ line, cells: splitCsvLine(content, delimiter) }));
+  const empty = (mapping: ColumnMapping): ParsedCandleFile => ({ format, delimiter, headers: [], mapping, rows: [], errors: [] });
+
+  if (split.length === 0) {
+    return { ...empty(MT4_MAPPING), errors: [{ line: 0, message: 'Файл пуст' }] };
+  }
+
+  const numberedHeaders = (count: number) => Array.from({ length: count }, (_, i) => String(i + 1));
+
+  if (format === 'mt4') {
+    const headers = numberedHeaders(Math.max(...split.map(r => r.cells.length)));
+    const mapping = headers.length >= 7 ? MT4_MAPPING : { ...MT4_MAPPING, volume: undefined };
+    return { ...empty(mapping), headers, ...extractRows(split, headers, mapping, delimiter) };
+  }
+
+  const [headerRecord, ...dataRecords] = split;
+
+  if (format === 'mt5') {
+    // <DATE> <TIME> <OPEN> <HIGH> <LOW> <CLOSE> <TICKVOL> <VOL> <SPREAD>; в дневных выгрузках нет <TIME>
+    const headers = headerRecord.cells.map(normalizeHeader);
+    const mapping: ColumnMapping = {
+      date: 'date',
+      time: headers.includes('time') ? 'time' : undefined,
+      open: 'open',
+      high: 'high',
+      low: 'low',
+      close: 'close'
+    };
+    // Биржевой объем есть не у всех инструментов, для форекса используется тиковый
+    const pickVolume = (cell: (name: string) => string | undefined) => {
+      const real = headers.includes('vol') ? cell('vol') : undefined;
+      return real && parseFloat(real) > 0 ? real : headers.includes('tickvol') ? cell('tickvol') : real;
+    };
+    return { ...empty(mapping), headers, ...extractRows(dataRecords, headers, mapping, delimiter, pickVolume) };
+  }
+
+  if (format === 'tradingview') {
+    const headers = headerRecord.cells.map(normalizeHeader);
+    const mapping: ColumnMapping = {
+      datetime: 'time',
+      open: 'open',
+      high: 'high',
+      low: 'low',
+      close: 'close',
+      volume: headers.includes('volume') ? 'volume' : undefined
+    };
+    return { ...empty(mapping), headers, ...extractRows(dataRecords, headers, mapping, delimiter) };
+  }
+
+  // Заголовок есть, если в первой строке нет чисел
+  const hasHeader = options.hasHeader ?? !headerRecord.cells.some(cell => /^-?\d+([.,]\d+)?$/.test(cell));
+  const headers = hasHeader
+    ? headerRecord.cells.map(cell => cell.replace(/^"(.*)"$/, '$1'))
+    : numberedHeaders(headerRecord.cells.length);
+  const mapping = options.mapping ?? suggestColumnMapping(headers);
+
+  if (!mapping) {
+    return {
+      ...empty({ open: '', high: '', low: '', close: '' }),
+      headers,
+      errors: [{ line: 0, message: 'Не удалось определить колонки: укажите сопоставление вручную' }]
+    };
+  }
+
+  return { ...empty(mapping), headers, ...extractRows(hasHeader ? dataRecords : split, headers, mapping, delimiter) };
+};
@@ -0,0 +1,163 @@
+/**
+ * ADX (Average Directional Index) Indicator
+ * Wilder's directional movement system with +DI/-DI lines.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { ATRIndicator } from '../atr/atr-indicator';
+import { 
+  MarketDataPoint, 
+  ADXValue, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface ADXConfig extends BaseIndicatorConfig {
+  period: number;
+  /** ADX level above which a trend is considered established */
+  trendThreshold?: number;
+}
+
+export class ADXIndicator extends BaseIndicator<ADXValue, ADXConfig> {
+  protected getDefaultConfig(): ADXConfig {
+    return {
+      period: 14,
+      trendThreshold: 25,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.period * 2;
+  }
+
+  protected getIndicatorName(): string {
+    return 'ADX';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: ADXValue[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateADX(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'ADX_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { period: this.config.period },
+          suggestions: ['Check data sufficiency', 'Verify period setting']
+        }
+      };
+    }
+  }
+
+  private calculateADX(data: MarketDataPoint[]): ADXValue[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  /**
+   * Running state: previous bar, Wilder running sums and the DX seed
+   */
+  protected createStreamingState(): Record<string, any> {
+    return {
+      previous: null,
+      count: 0,
+      smoothTR: 0,
+      smoothPlusDM: 0,
+      smoothMinusDM: 0,
+      dxSeed: [],
+      dxCount: 0,
+      adx: NaN
+    };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): ADXValue {
+    const period = this.config.period;
+    const previous: MarketDataPoint | null = state.previous;
+    state.previous = { ...point };
+    const i = state.count++;
+
+    if (!previous) {
+      return { adx: NaN, plusDI: NaN, minusDI: NaN };
+    }
+
+    const upMove = point.high - previous.high;
+    const downMove = previous.low - point.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const tr = ATRIndicator.trueRange(point, previous);
+
+    // Wilder's running sums: seeded with a plain sum over the first period
+    if (i <= period) {
+      state.smoothTR += tr;
+      state.smoothPlusDM += plusDM;
+      state.smoothMinusDM += minusDM;
+    } else {
+      state.smoothTR = state.smoothTR - state.smoothTR / period + tr;
+      state.smoothPlusDM = state.smoothPlusDM - state.smoothPlusDM / period + plusDM;
+      state.smoothMinusDM = state.smoothMinusDM - state.smoothMinusDM / period + minusDM;
+    }
+
+    if (i < period) {
+      return { adx: NaN, plusDI: NaN, minusDI: NaN };
+    }
+
+    const plusDI = state.smoothTR === 0 ? 0 : (state.smoothPlusDM / state.smoothTR) * 100;
+    const minusDI = state.smoothTR === 0 ? 0 : (state.smoothMinusDM / state.smoothTR) * 100;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100;
+
+    state.dxCount++;
+    if (state.dxCount < period) {
+      state.dxSeed.push(dx);
+    } else if (state.dxCount === period) {
+      state.dxSeed.push(dx);
+      state.adx = state.dxSeed.reduce((sum: number, val: number) => sum + val, 0) / period;
+      state.dxSeed = [];
+    } else {
+      state.adx = (state.adx * (period - 1) + dx) / period;
+    }
+
+    return { adx: state.adx, plusDI, minusDI };
+  }
+
+  /**
+   * Whether the given ADX value indicates an established trend
+   */
+  isTrending(value: ADXValue): boolean {
+    return !isNaN(value.adx) && value.adx >= (this.config.trendThreshold || 25);
+  }
+
+  protected calculateValidity(values: ADXValue[], data: MarketDataPoint[]): boolean[] {
+    return values.map(v => !isNaN(v.adx));
+  }
+
+  protected calculateChange(newValue: ADXValue, previousValue: ADXValue): number {
+    if (isNaN(newValue.adx) || isNaN(previousValue.adx)) return 0;
+    return newValue.adx - previousValue.adx;
+  }
+
+  protected calculatePercentChange(newValue: ADXValue, previousValue: ADXValue): number {
+    if (isNaN(newValue.adx) || isNaN(previousValue.adx) || previousValue.adx === 0) return 0;
+    return ((newValue.adx - previousValue.adx) / previousValue.adx) * 100;
+  }
+
+  protected detectLevelCross(newValue: ADXValue, previousValue: ADXValue): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    const threshold = this.config.trendThreshold || 25;
+    if (previousValue.adx < threshold && newValue.adx >= threshold) {
+      return { level: threshold, direction: 'up' };
+    }
+    if (previousValue.adx >= threshold && newValue.adx < threshold) {
+      return { level: threshold, direction: 'down' };
+    }
+    return undefined;
+  }
+}
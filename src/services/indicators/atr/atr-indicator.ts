@@ -0,0 +1,110 @@
+/**
+ * ATR (Average True Range) Indicator
+ * Volatility measure based on Wilder-smoothed true range.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface ATRConfig extends BaseIndicatorConfig {
+  period: number;
+  smoothingMethod?: 'wilder' | 'sma' | 'ema';
+}
+
+export class ATRIndicator extends BaseIndicator<number, ATRConfig> {
+  protected getDefaultConfig(): ATRConfig {
+    return {
+      period: 14,
+      smoothingMethod: 'wilder',
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.period;
+  }
+
+  protected getIndicatorName(): string {
+    return 'ATR';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateATR(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'ATR_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { period: this.config.period },
+          suggestions: ['Check data quality', 'Verify period setting']
+        }
+      };
+    }
+  }
+
+  /**
+   * True range of a bar; the first bar has no previous close and uses its own range
+   */
+  static trueRange(current: MarketDataPoint, previous?: MarketDataPoint): number {
+    if (!previous) {
+      return current.high - current.low;
+    }
+
+    return Math.max(
+      current.high - current.low,
+      Math.abs(current.high - previous.close),
+      Math.abs(current.low - previous.close)
+    );
+  }
+
+  private calculateATR(data: MarketDataPoint[]): number[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  /**
+   * Running state: previous bar, recent true ranges and the smoothed ATR
+   */
+  protected createStreamingState(): Record<string, any> {
+    return { previous: null, trueRanges: [], count: 0, atr: NaN };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    const period = this.config.period;
+    const tr = ATRIndicator.trueRange(point, state.previous || undefined);
+    state.previous = { ...point };
+    state.count++;
+
+    state.trueRanges.push(tr);
+    if (state.trueRanges.length > period) {
+      state.trueRanges.shift();
+    }
+
+    if (state.count < period) {
+      return NaN;
+    }
+
+    if (state.count === period || this.config.smoothingMethod === 'sma') {
+      state.atr = state.trueRanges.reduce((sum: number, val: number) => sum + val, 0) / period;
+    } else if (this.config.smoothingMethod === 'ema') {
+      const alpha = 2 / (period + 1);
+      state.atr = alpha * tr + (1 - alpha) * state.atr;
+    } else {
+      state.atr = (state.atr * (period - 1) + tr) / period;
+    }
+
+    return state.atr;
+  }
+}
@@ -98,4 +98,67 @@ export class BollingerBandsIndicator extends BaseIndicator<BollingerBandsValue,
 
     return values;
   }
+
+  /**
+   * Running state: close window with running sum and sum of squares
+   */
+  protected createStreamingState(): Record<string, any> {
+    return { closes: [], sum: 0, sumSquares: 0 };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): BollingerBandsValue {
+    const period = this.config.period;
+
+    state.closes.push(point.close);
+    state.sum += point.close;
+    state.sumSquares += point.close * point.close;
+    if (state.closes.length > period) {
+      const dropped = state.closes.shift();
+      state.sum -= dropped;
+      state.sumSquares -= dropped * dropped;
+    }
+
+    if (state.closes.length < period) {
+      return { upper: NaN, middle: NaN, lower: NaN, bandwidth: NaN, percentB: NaN };
+    }
+
+    const sma = state.sum / period;
+    const variance = Math.max(0, state.sumSquares / period - sma * sma);
+    const standardDeviation = Math.sqrt(variance);
+
+    const upper = sma + (standardDeviation * this.config.standardDeviations);
+    const lower = sma - (standardDeviation * this.config.standardDeviations);
+
+    return {
+      upper,
+      middle: sma,
+      lower,
+      bandwidth: (upper - lower) / sma,
+      percentB: (point.close - lower) / (upper - lower)
+    };
+  }
+
+  protected calculateChange(newValue: BollingerBandsValue, previousValue: BollingerBandsValue): number {
+    if (isNaN(newValue.percentB) || isNaN(previousValue.percentB)) return 0;
+    return newValue.percentB - previousValue.percentB;
+  }
+
+  protected calculatePercentChange(newValue: BollingerBandsValue, previousValue: BollingerBandsValue): number {
+    if (isNaN(newValue.bandwidth) || isNaN(previousValue.bandwidth) || previousValue.bandwidth === 0) return 0;
+    return ((newValue.bandwidth - previousValue.bandwidth) / previousValue.bandwidth) * 100;
+  }
+
+  /**
+   * Band crossings expressed through %B (1 = upper band, 0 = lower band)
+   */
+  protected detectLevelCross(newValue: BollingerBandsValue, previousValue: BollingerBandsValue): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    if (previousValue.percentB <= 1 && newValue.percentB > 1) {
+      return { level: newValue.upper, direction: 'up' };
+    }
+    if (previousValue.percentB >= 0 && newValue.percentB < 0) {
+      return { level: newValue.lower, direction: 'down' };
+    }
+    return undefined;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * CCI (Commodity Channel Index) Indicator
+ * Typical price deviation from its SMA scaled by mean absolute deviation.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface CCIConfig extends BaseIndicatorConfig {
+  period: number;
+  /** Lambert's constant (default: 0.015) */
+  constant?: number;
+  overboughtLevel?: number;
+  oversoldLevel?: number;
+}
+
+export class CCIIndicator extends BaseIndicator<number, CCIConfig> {
+  protected getDefaultConfig(): CCIConfig {
+    return {
+      period: 20,
+      constant: 0.015,
+      overboughtLevel: 100,
+      oversoldLevel: -100,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.period;
+  }
+
+  protected getIndicatorName(): string {
+    return 'CCI';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateCCI(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'CCI_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { period: this.config.period },
+          suggestions: ['Check data quality', 'Verify period setting']
+        }
+      };
+    }
+  }
+
+  private calculateCCI(data: MarketDataPoint[]): number[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  protected createStreamingState(): Record<string, any> {
+    return { typicalPrices: [] };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    const period = this.config.period;
+    const constant = this.config.constant ?? 0.015;
+    const typicalPrice = (point.high + point.low + point.close) / 3;
+
+    state.typicalPrices.push(typicalPrice);
+    if (state.typicalPrices.length > period) {
+      state.typicalPrices.shift();
+    }
+
+    if (state.typicalPrices.length < period) {
+      return NaN;
+    }
+
+    const window: number[] = state.typicalPrices;
+    const sma = window.reduce((sum, val) => sum + val, 0) / period;
+    const meanDeviation = window.reduce((sum, val) => sum + Math.abs(val - sma), 0) / period;
+
+    return meanDeviation === 0 ? 0 : (typicalPrice - sma) / (constant * meanDeviation);
+  }
+
+  /**
+   * CCI oscillates around zero, so percentage change is relative to its magnitude
+   */
+  protected calculatePercentChange(newValue: number, previousValue: number): number {
+    return previousValue !== 0 ? ((newValue - previousValue) / Math.abs(previousValue)) * 100 : 0;
+  }
+
+  protected detectLevelCross(newValue: number, previousValue: number): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    const levels = [this.config.overboughtLevel ?? 100, 0, this.config.oversoldLevel ?? -100];
+
+    for (const level of levels) {
+      if (previousValue < level && newValue >= level) {
+        return { level, direction: 'up' };
+      }
+      if (previousValue > level && newValue <= level) {
+        return { level, direction: 'down' };
+      }
+    }
+    return undefined;
+  }
+}
@@ -18,7 +18,8 @@ import {
   StreamingUpdate,
   IndicatorValue,
   DataValidationResult,
-  BaseIndicatorConfig
+  BaseIndicatorConfig,
+  IndicatorStreamingState
 } from './types';
 import { CacheManager } from './cache-manager';
 import { DataValidator } from './data-validator';
@@ -33,6 +34,7 @@ export abstract class BaseIndicator<T = number, C extends BaseIndicatorConfig =
   protected performanceMetrics: PerformanceMetrics;
   private calculationCount: number = 0;
   private computationTimes: number[] = [];
+  private streaming?: IndicatorStreamingState<T>;
 
   /**
    * Creates a new indicator instance
@@ -148,43 +150,73 @@ export abstract class BaseIndicator<T = number, C extends BaseIndicatorConfig =
   }
 
   /**
-   * Update indicator with new data point (streaming)
-   * @param newDataPoint - New market data point
-   * @param existingData - Existing data points
+   * Update indicator with a new data point (streaming)
+   *
+   * Advances the incremental state by one point without touching the
+   * history, so each call costs O(1) in the length of the series
+   * (windowed indicators pay O(period)).
+   * @param point - New market data point
    * @returns Streaming update result
    */
-  async update(
-    newDataPoint: MarketDataPoint, 
-    existingData: MarketDataPoint[]
-  ): Promise<StreamingUpdate<T>> {
+  update(point: MarketDataPoint): StreamingUpdate<T> {
     if (!this.config.enableStreaming) {
       throw new Error('Streaming is not enabled for this indicator');
     }
 
-    const allData = [...existingData, newDataPoint];
-    const result = await this.calculate(allData);
-    
-    if (result.values.length === 0) {
-      throw new Error('Failed to calculate indicator value for streaming update');
+    const streaming = this.getOrCreateStreaming();
+    const check = this.validator.validateRealTimePoint(point, streaming.lastPoint);
+    if (!check.isValid) {
+      throw new Error(`Data validation failed: ${check.errors.join(', ')}`);
     }
 
-    const newValue = result.values[result.values.length - 1];
-    const previousValue = result.values.length > 1 ? result.values[result.values.length - 2] : newValue;
-    
-    const change = this.calculateChange(newValue, previousValue);
-    const percentChange = this.calculatePercentChange(newValue, previousValue);
+    return this.advanceStreaming(streaming, point, check.warnings);
+  }
 
-    return {
-      value: {
-        timestamp: newDataPoint.timestamp,
-        value: newValue,
-        isValid: result.validity[result.validity.length - 1],
-        confidence: this.calculateConfidence(result, allData)
-      },
-      change,
-      percentChange,
-      levelCross: this.detectLevelCross(newValue, previousValue)
-    };
+  /**
+   * Warm up the streaming state from historical data
+   * @param data - Historical market data, oldest first
+   * @returns Update for the last data point, if any
+   */
+  initializeStreaming(data: MarketDataPoint[]): StreamingUpdate<T> | undefined {
+    this.resetStreaming();
+    const streaming = this.getOrCreateStreaming();
+
+    let lastUpdate: StreamingUpdate<T> | undefined;
+    for (const point of data) {
+      lastUpdate = this.advanceStreaming(streaming, point, []);
+    }
+    return lastUpdate;
+  }
+
+  /**
+   * Get a snapshot of the streaming state that can later be restored
+   */
+  getStreamingState(): IndicatorStreamingState<T> {
+    return BaseIndicator.cloneState(this.getOrCreateStreaming());
+  }
+
+  /**
+   * Restore a streaming state previously taken with getStreamingState()
+   * @param snapshot - Streaming state snapshot
+   */
+  restoreStreamingState(snapshot: IndicatorStreamingState<T>): void {
+    if (snapshot.indicator !== this.getIndicatorName()) {
+      throw new Error(
+        `Cannot restore ${snapshot.indicator} streaming state into ${this.getIndicatorName()}`
+      );
+    }
+    if (this.hashConfig(snapshot.config as C) !== this.hashConfig(this.config)) {
+      throw new Error('Streaming state was created with a different configuration');
+    }
+
+    this.streaming = BaseIndicator.cloneState(snapshot);
+  }
+
+  /**
+   * Reset streaming state
+   */
+  resetStreaming(): void {
+    this.streaming = undefined;
   }
 
   /**
@@ -232,6 +264,7 @@ export abstract class BaseIndicator<T = number, C extends BaseIndicatorConfig =
   updateConfig(newConfig: Partial<C>): void {
     this.config = { ...this.config, ...newConfig };
     this.clearCache(); // Clear cache when config changes
+    this.resetStreaming();
   }
 
   // Abstract methods that must be implemented by concrete indicators
@@ -261,6 +294,18 @@ export abstract class BaseIndicator<T = number, C extends BaseIndicatorConfig =
    */
   protected abstract getIndicatorName(): string;
 
+  /**
+   * Create the indicator-specific running state for streaming updates
+   */
+  protected abstract createStreamingState(): Record<string, any>;
+
+  /**
+   * Advance the running state by one data point and return the new value
+   * @param point - New market data point
+   * @param state - Running state, mutated in place
+   */
+  protected abstract streamingStep(point: MarketDataPoint, state: Record<string, any>): T;
+
   // Protected helper methods
 
   /**
@@ -342,8 +387,94 @@ export abstract class BaseIndicator<T = number, C extends BaseIndicatorConfig =
     return undefined;
   }
 
+  /**
+   * Whether a streamed value is usable (override for complex types)
+   * @param value - Streamed indicator value
+   * @param count - Number of data points processed so far
+   */
+  protected isStreamingValueValid(value: T, count: number): boolean {
+    if (count < this.getMinDataPoints()) return false;
+    if (typeof value === 'number') return !isNaN(value);
+    return Object.values(value as Record<string, unknown>)
+      .every(field => typeof field !== 'number' || !isNaN(field));
+  }
+
+  /**
+   * Calculate confidence level for a streamed value
+   * @param value - Streamed indicator value
+   * @param isValid - Whether the value is valid
+   * @param warnings - Real-time validation warnings for the data point
+   */
+  protected calculateStreamingConfidence(value: T, isValid: boolean, warnings: string[]): number {
+    if (!isValid) return 0;
+    return Math.max(0, 1 - warnings.length * 0.25);
+  }
+
   // Private helper methods
 
+  /**
+   * Lazily create the streaming state
+   */
+  private getOrCreateStreaming(): IndicatorStreamingState<T> {
+    if (!this.streaming) {
+      this.streaming = {
+        indicator: this.getIndicatorName(),
+        config: { ...this.config },
+        count: 0,
+        state: this.createStreamingState()
+      };
+    }
+    return this.streaming;
+  }
+
+  /**
+   * Apply one data point to the streaming state
+   */
+  private advanceStreaming(
+    streaming: IndicatorStreamingState<T>,
+    point: MarketDataPoint,
+    warnings: string[]
+  ): StreamingUpdate<T> {
+    const previousValue = streaming.lastValue;
+    const value = this.streamingStep(point, streaming.state);
+
+    streaming.count++;
+    streaming.lastPoint = { ...point };
+    streaming.lastValue = value;
+
+    const isValid = this.isStreamingValueValid(value, streaming.count);
+    const hasPrevious = previousValue !== undefined;
+
+    return {
+      value: {
+        timestamp: point.timestamp,
+        value,
+        isValid,
+        confidence: this.calculateStreamingConfidence(value, isValid, warnings)
+      },
+      change: hasPrevious ? this.calculateChange(value, previousValue) : 0,
+      percentChange: hasPrevious ? this.calculatePercentChange(value, previousValue) : 0,
+      levelCross: hasPrevious ? this.detectLevelCross(value, previousValue) : undefined
+    };
+  }
+
+  /**
+   * Deep copy streaming state (keeps NaN, unlike a JSON round trip)
+   */
+  private static cloneState<S>(value: S): S {
+    if (Array.isArray(value)) {
+      return value.map(item => BaseIndicator.cloneState(item)) as unknown as S;
+    }
+    if (value !== null && typeof value === 'object') {
+      const copy: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(value)) {
+        copy[key] = BaseIndicator.cloneState(field);
+      }
+      return copy as S;
+    }
+    return value;
+  }
+
   /**
    * Update performance metrics with new computation time
    * @param computationTime - Time taken for calculation
@@ -0,0 +1,46 @@
+/**
+ * Market Data Adapters
+ * Conversion between session candles and indicator market data points.
+ */
+
+import { CandleData } from '@/types/session';
+import { BaseIndicator } from './base-indicator';
+import { BaseIndicatorConfig, MarketDataPoint } from './types';
+
+/**
+ * Convert a stored session candle to an indicator data point
+ * @param candle - Session candle
+ */
+export function candleToMarketDataPoint(candle: CandleData): MarketDataPoint {
+  return {
+    timestamp: new Date(candle.candle_datetime).getTime(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume
+  };
+}
+
+/**
+ * Convert session candles to indicator data points
+ * @param candles - Session candles, oldest first
+ */
+export function candlesToMarketData(candles: CandleData[]): MarketDataPoint[] {
+  return candles.map(candleToMarketDataPoint);
+}
+
+/**
+ * Run an indicator over session candles and take its value on the last candle
+ * @param indicator - Streaming-enabled indicator
+ * @param candles - Session candles, oldest first
+ * @param fallback - Value to use while the indicator is still warming up
+ */
+export function latestIndicatorValue<T, C extends BaseIndicatorConfig>(
+  indicator: BaseIndicator<T, C>,
+  candles: CandleData[],
+  fallback: T
+): T {
+  const update = indicator.initializeStreaming(candlesToMarketData(candles));
+  return update?.value.isValid ? update.value.value : fallback;
+}
@@ -101,6 +101,24 @@ export interface StreamingUpdate<T = number> {
   };
 }
 
+/**
+ * Serializable snapshot of an indicator's incremental (streaming) state
+ */
+export interface IndicatorStreamingState<T = number> {
+  /** Indicator name the snapshot was taken from */
+  indicator: string;
+  /** Configuration the state was built with */
+  config: IndicatorConfig;
+  /** Number of data points processed */
+  count: number;
+  /** Last processed data point */
+  lastPoint?: MarketDataPoint;
+  /** Last emitted indicator value */
+  lastValue?: T;
+  /** Indicator-specific running state (windows, smoothed averages, ...) */
+  state: Record<string, any>;
+}
+
 /**
  * Error information for indicator calculations
  */
@@ -247,10 +265,52 @@ export interface VWAPResult extends IndicatorResult<number> {
   }>;
 }
 
+/**
+ * ADX (Average Directional Index) specific value type
+ */
+export interface ADXValue {
+  /** Average directional index (trend strength, 0-100) */
+  adx: number;
+  /** Positive directional indicator (+DI) */
+  plusDI: number;
+  /** Negative directional indicator (-DI) */
+  minusDI: number;
+}
+
+/**
+ * Ichimoku Kinko Hyo specific value type
+ */
+export interface IchimokuValue {
+  /** Conversion line (Tenkan-sen) */
+  tenkanSen: number;
+  /** Base line (Kijun-sen) */
+  kijunSen: number;
+  /** Leading span A, already displaced forward onto the current bar */
+  senkouSpanA: number;
+  /** Leading span B, already displaced forward onto the current bar */
+  senkouSpanB: number;
+  /** Lagging span (current close, plotted `displacement` bars back) */
+  chikouSpan: number;
+}
+
 /**
  * Supported indicator types
  */
-export type IndicatorType = 'rsi' | 'macd' | 'bollinger' | 'stochastic' | 'vwap' | 'ema' | 'sma';
+export type IndicatorType =
+  | 'rsi'
+  | 'macd'
+  | 'bollinger'
+  | 'stochastic'
+  | 'vwap'
+  | 'ema'
+  | 'sma'
+  | 'atr'
+  | 'adx'
+  | 'ichimoku'
+  | 'obv'
+  | 'mfi'
+  | 'cci'
+  | 'williamsR';
 
 /**
  * Base configuration for all indicators
@@ -0,0 +1,390 @@
+/**
+ * Indicator Expression Evaluator
+ *
+ * Compiles a parsed expression into a bar-by-bar evaluator. Indicator
+ * references are backed by the streaming update path of the indicators
+ * created through IndicatorFactory, so each new bar costs O(1) in the
+ * length of the history.
+ */
+
+import { IndicatorFactory, indicatorFactory } from '../indicator-factory';
+import { BaseIndicator } from '../core/base-indicator';
+import { MarketDataPoint } from '../core/types';
+import { candlesToMarketData } from '../core/market-data';
+import { CandleData } from '@/types/session';
+import { parseExpression } from './expression-parser';
+import {
+  ExpressionNode,
+  IndicatorNode,
+  ExpressionValue,
+  ExpressionError
+} from './expression-types';
+
+/**
+ * How an expression function maps onto an indicator
+ */
+interface IndicatorDefinition {
+  /** Default values for the positional arguments */
+  defaults: number[];
+  /** Output fields for multi-value indicators */
+  fields?: string[];
+  /** Field used when none is given */
+  defaultField?: string;
+  create: (factory: IndicatorFactory, args: number[]) => BaseIndicator<any, any>;
+}
+
+const INDICATOR_DEFINITIONS: Record<string, IndicatorDefinition> = {
+  RSI: {
+    defaults: [14],
+    create: (factory, [period]) => factory.createRSI({ period })
+  },
+  MACD: {
+    defaults: [12, 26, 9],
+    fields: ['macd', 'signal', 'histogram'],
+    defaultField: 'macd',
+    create: (factory, [fastPeriod, slowPeriod, signalPeriod]) =>
+      factory.createMACD({ period: slowPeriod, fastPeriod, slowPeriod, signalPeriod })
+  },
+  BB: {
+    defaults: [20, 2],
+    fields: ['upper', 'middle', 'lower', 'bandwidth', 'percentB'],
+    defaultField: 'middle',
+    create: (factory, [period, standardDeviations]) =>
+      factory.createBollingerBands({ period, standardDeviations })
+  },
+  STOCH: {
+    defaults: [14, 3, 3],
+    fields: ['k', 'd'],
+    defaultField: 'k',
+    create: (factory, [period, kSmoothing, dSmoothing]) =>
+      factory.createStochastic({ period, kSmoothing, dSmoothing })
+  },
+  ATR: {
+    defaults: [14],
+    create: (factory, [period]) => factory.createATR({ period })
+  },
+  ADX: {
+    defaults: [14],
+    fields: ['adx', 'plusDI', 'minusDI'],
+    defaultField: 'adx',
+    create: (factory, [period]) => factory.createADX({ period })
+  },
+  ICHIMOKU: {
+    defaults: [9, 26, 52],
+    fields: ['tenkanSen', 'kijunSen', 'senkouSpanA', 'senkouSpanB', 'chikouSpan'],
+    defaultField: 'tenkanSen',
+    create: (factory, [tenkanPeriod, kijunPeriod, senkouBPeriod]) =>
+      factory.createIchimoku({ period: kijunPeriod, tenkanPeriod, kijunPeriod, senkouBPeriod, displacement: kijunPeriod })
+  },
+  VWAP: {
+    // VWAP() is cumulative, VWAP(n) is a rolling n-bar VWAP
+    defaults: [0],
+    create: (factory, [period]) =>
+      period > 0 ? factory.createVWAP({ anchor: 'rolling', period }) : factory.createVWAP({ anchor: 'cumulative' })
+  },
+  OBV: {
+    defaults: [],
+    create: factory => factory.createOBV()
+  },
+  MFI: {
+    defaults: [14],
+    create: (factory, [period]) => factory.createMFI({ period })
+  },
+  CCI: {
+    defaults: [20],
+    create: (factory, [period]) => factory.createCCI({ period })
+  },
+  WILLR: {
+    defaults: [14],
+    create: (factory, [period]) => factory.createWilliamsR({ period })
+  }
+};
+
+const INDICATOR_ALIASES: Record<string, string> = {
+  BOLLINGER: 'BB',
+  STOCHASTIC: 'STOCH',
+  WILLIAMSR: 'WILLR',
+  WILLIAMS: 'WILLR'
+};
+
+/**
+ * Names accepted as indicator functions in expressions
+ */
+export function getExpressionIndicatorNames(): string[] {
+  return [...Object.keys(INDICATOR_DEFINITIONS), ...Object.keys(INDICATOR_ALIASES)];
+}
+
+/**
+ * Per-bar evaluation context shared by all compiled nodes
+ */
+interface BarContext {
+  point: MarketDataPoint;
+  indicatorValues: Map<string, any>;
+}
+
+/**
+ * A compiled node advances once per bar; children are always stepped so that
+ * lookback and cross history stays aligned even when a branch is not needed.
+ */
+interface CompiledNode {
+  step(context: BarContext): ExpressionValue;
+}
+
+function toNumber(value: ExpressionValue): number {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+function toBoolean(value: ExpressionValue): boolean {
+  return typeof value === 'boolean' ? value : !isNaN(value) && value !== 0;
+}
+
+/**
+ * Incremental evaluator: feed bars one at a time with push()
+ */
+export class ExpressionStream {
+  private indicators = new Map<string, BaseIndicator<any, any>>();
+  private root: CompiledNode;
+  private barCount = 0;
+
+  constructor(private ast: ExpressionNode, private factory: IndicatorFactory) {
+    this.root = this.compileNode(ast);
+  }
+
+  /**
+   * Evaluate the expression on the next bar
+   * @param point - New market data point
+   */
+  push(point: MarketDataPoint): ExpressionValue {
+    const indicatorValues = new Map<string, any>();
+    this.indicators.forEach((indicator, key) => {
+      const update = indicator.update(point);
+      indicatorValues.set(key, update.value.isValid ? update.value.value : undefined);
+    });
+
+    this.barCount++;
+    return this.root.step({ point, indicatorValues });
+  }
+
+  /**
+   * Number of bars processed so far
+   */
+  getBarCount(): number {
+    return this.barCount;
+  }
+
+  /**
+   * Drop all indicator and lookback state
+   */
+  reset(): void {
+    this.indicators.clear();
+    this.barCount = 0;
+    this.root = this.compileNode(this.ast);
+  }
+
+  private compileNode(node: ExpressionNode): CompiledNode {
+    switch (node.kind) {
+      case 'number':
+        return { step: () => node.value };
+
+      case 'price':
+        return { step: context => context.point[node.field] };
+
+      case 'indicator':
+        return this.compileIndicator(node);
+
+      case 'lookback': {
+        const operand = this.compileNode(node.operand);
+        const history: ExpressionValue[] = [];
+        return {
+          step: context => {
+            history.push(operand.step(context));
+            if (history.length > node.bars + 1) {
+              history.shift();
+            }
+            return history.length > node.bars ? history[0] : NaN;
+          }
+        };
+      }
+
+      case 'unary': {
+        const operand = this.compileNode(node.operand);
+        return node.operator === 'NOT'
+          ? { step: context => !toBoolean(operand.step(context)) }
+          : { step: context => -toNumber(operand.step(context)) };
+      }
+
+      case 'binary': {
+        const left = this.compileNode(node.left);
+        const right = this.compileNode(node.right);
+        return {
+          step: context => {
+            const a = toNumber(left.step(context));
+            const b = toNumber(right.step(context));
+            switch (node.operator) {
+              case '+': return a + b;
+              case '-': return a - b;
+              case '*': return a * b;
+              case '/': return b === 0 ? NaN : a / b;
+            }
+          }
+        };
+      }
+
+      case 'comparison': {
+        const left = this.compileNode(node.left);
+        const right = this.compileNode(node.right);
+        let previousLeft = NaN;
+        let previousRight = NaN;
+
+        return {
+          step: context => {
+            const a = toNumber(left.step(context));
+            const b = toNumber(right.step(context));
+            const prevA = previousLeft;
+            const prevB = previousRight;
+            previousLeft = a;
+            previousRight = b;
+
+            if (isNaN(a) || isNaN(b)) return false;
+
+            switch (node.operator) {
+              case '<': return a < b;
+              case '<=': return a <= b;
+              case '>': return a > b;
+              case '>=': return a >= b;
+              case '==': return a === b;
+              case '!=': return a !== b;
+              case 'CROSSES_ABOVE':
+                return !isNaN(prevA) && !isNaN(prevB) && prevA <= prevB && a > b;
+              case 'CROSSES_BELOW':
+                return !isNaN(prevA) && !isNaN(prevB) && prevA >= prevB && a < b;
+            }
+          }
+        };
+      }
+
+      case 'logical': {
+        const left = this.compileNode(node.left);
+        const right = this.compileNode(node.right);
+        return {
+          step: context => {
+            const a = toBoolean(left.step(context));
+            const b = toBoolean(right.step(context));
+            return node.operator === 'AND' ? a && b : a || b;
+          }
+        };
+      }
+    }
+  }
+
+  private compileIndicator(node: IndicatorNode): CompiledNode {
+    const name = INDICATOR_ALIASES[node.name] || node.name;
+    const definition = INDICATOR_DEFINITIONS[name];
+
+    if (!definition) {
+      throw new ExpressionError(`Unknown indicator '${node.name}'`, 'UNKNOWN_INDICATOR');
+    }
+    if (node.args.length > definition.defaults.length) {
+      throw new ExpressionError(
+        `${node.name} takes at most ${definition.defaults.length} argument(s), got ${node.args.length}`,
+        'INVALID_ARGUMENTS'
+      );
+    }
+
+    const args = definition.defaults.map((value, i) => (i < node.args.length ? node.args[i] : value));
+    const field = this.resolveField(node, definition);
+    const key = `${name}(${args.join(',')})`;
+
+    // Identical indicator references share one streaming instance
+    if (!this.indicators.has(key)) {
+      this.indicators.set(key, definition.create(this.factory, args));
+    }
+
+    return {
+      step: context => {
+        const value = context.indicatorValues.get(key);
+        if (value === undefined) return NaN;
+        return field ? value[field] : value;
+      }
+    };
+  }
+
+  private resolveField(node: IndicatorNode, definition: IndicatorDefinition): string | undefined {
+    if (!definition.fields) {
+      if (node.field) {
+        throw new ExpressionError(`${node.name} has no field '${node.field.toLowerCase()}'`, 'UNKNOWN_FIELD');
+      }
+      return undefined;
+    }
+
+    if (!node.field) return definition.defaultField;
+
+    const field = definition.fields.find(f => f.toUpperCase() === node.field);
+    if (!field) {
+      throw new ExpressionError(
+        `${node.name} has no field '${node.field.toLowerCase()}' (available: ${definition.fields.join(', ')})`,
+        'UNKNOWN_FIELD'
+      );
+    }
+    return field;
+  }
+}
+
+/**
+ * A parsed and validated expression
+ */
+export class CompiledExpression {
+  constructor(
+    public readonly source: string,
+    public readonly ast: ExpressionNode,
+    private factory: IndicatorFactory
+  ) {
+    // Compile once up front so unknown indicators and fields fail early
+    this.createStream();
+  }
+
+  /**
+   * Whether the expression yields a condition rather than a number
+   */
+  isCondition(): boolean {
+    return this.ast.kind === 'comparison' ||
+      this.ast.kind === 'logical' ||
+      (this.ast.kind === 'unary' && this.ast.operator === 'NOT');
+  }
+
+  /**
+   * Create an independent incremental evaluator
+   */
+  createStream(): ExpressionStream {
+    return new ExpressionStream(this.ast, this.factory);
+  }
+
+  /**
+   * Evaluate the expression on every bar of a series
+   * @param data - Market data, oldest first
+   */
+  evaluate(data: MarketDataPoint[]): ExpressionValue[] {
+    const stream = this.createStream();
+    return data.map(point => stream.push(point));
+  }
+
+  /**
+   * Evaluate the expression on every candle of a session
+   * @param candles - Session candles, oldest first
+   */
+  evaluateCandles(candles: CandleData[]): ExpressionValue[] {
+    return this.evaluate(candlesToMarketData(candles));
+  }
+}
+
+/**
+ * Parse and compile an expression
+ * @param source - Expression source, e.g. "RSI(14) < 30 AND close > BB(20, 2).lower"
+ * @param factory - Indicator factory used to build referenced indicators
+ */
+export function compileExpression(
+  source: string,
+  factory: IndicatorFactory = indicatorFactory
+): CompiledExpression {
+  return new CompiledExpression(source, parseExpression(source), factory);
+}
@@ -0,0 +1,322 @@
+/**
+ * Indicator Expression Parser
+ *
+ * Recursive descent parser for the indicator expression language.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   expression := or
+ *   or         := and ( OR and )*
+ *   and        := not ( AND not )*
+ *   not        := NOT not | comparison
+ *   comparison := additive ( ( < | <= | > | >= | == | != | CROSSES ABOVE | CROSSES BELOW ) additive )?
+ *   additive   := term ( ( + | - ) term )*
+ *   term       := unary ( ( * | / ) unary )*
+ *   unary      := - unary | postfix
+ *   postfix    := primary ( [ integer ] )*
+ *   primary    := number | ( expression ) | OPEN | HIGH | LOW | CLOSE | VOLUME
+ *               | NAME ( ( number ( , number )* )? ) ( . field )?
+ */
+
+import {
+  Token,
+  ExpressionNode,
+  ComparisonOperator,
+  PriceNode,
+  ExpressionError
+} from './expression-types';
+
+const PRICE_FIELDS: Record<string, PriceNode['field']> = {
+  OPEN: 'open',
+  HIGH: 'high',
+  LOW: 'low',
+  CLOSE: 'close',
+  VOLUME: 'volume'
+};
+
+const COMPARISON_OPERATORS = new Set(['<', '<=', '>', '>=', '==', '!=']);
+
+/**
+ * Split an expression into tokens
+ * @param source - Expression source text
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i));
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_%]*/.exec(source.slice(i));
+      tokens.push({ type: 'identifier', value: match[0].toUpperCase(), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (['<=', '>=', '==', '!=', '&&', '||'].includes(twoChars)) {
+      const value = twoChars === '&&' ? 'AND' : twoChars === '||' ? 'OR' : twoChars;
+      tokens.push({ type: value === 'AND' || value === 'OR' ? 'identifier' : 'operator', value, position: i });
+      i += 2;
+      continue;
+    }
+
+    switch (char) {
+      case '<':
+      case '>':
+      case '+':
+      case '-':
+      case '*':
+      case '/':
+        tokens.push({ type: 'operator', value: char, position: i });
+        break;
+      case '!':
+        tokens.push({ type: 'identifier', value: 'NOT', position: i });
+        break;
+      case '(':
+        tokens.push({ type: 'lparen', value: char, position: i });
+        break;
+      case ')':
+        tokens.push({ type: 'rparen', value: char, position: i });
+        break;
+      case '[':
+        tokens.push({ type: 'lbracket', value: char, position: i });
+        break;
+      case ']':
+        tokens.push({ type: 'rbracket', value: char, position: i });
+        break;
+      case ',':
+        tokens.push({ type: 'comma', value: char, position: i });
+        break;
+      case '.':
+        tokens.push({ type: 'dot', value: char, position: i });
+        break;
+      default:
+        throw new ExpressionError(`Unexpected character '${char}'`, 'UNEXPECTED_CHARACTER', i);
+    }
+    i++;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Parse an expression into an AST
+ * @param source - Expression source text
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (!source || source.trim().length === 0) {
+    throw new ExpressionError('Expression cannot be empty', 'EMPTY_EXPRESSION');
+  }
+
+  return new ExpressionParser(tokenize(source)).parse();
+}
+
+/**
+ * Recursive descent parser over a token list
+ */
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected token '${next.value}'`, 'UNEXPECTED_TOKEN', next.position);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('OR')) {
+      left = { kind: 'logical', operator: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchKeyword('AND')) {
+      left = { kind: 'logical', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchKeyword('NOT')) {
+      return { kind: 'unary', operator: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+      this.index++;
+      return {
+        kind: 'comparison',
+        operator: token.value as ComparisonOperator,
+        left,
+        right: this.parseAdditive()
+      };
+    }
+
+    if (this.matchKeyword('CROSSES')) {
+      const direction = this.peek();
+      if (direction.type !== 'identifier' || (direction.value !== 'ABOVE' && direction.value !== 'BELOW')) {
+        throw new ExpressionError("Expected 'above' or 'below' after 'crosses'", 'EXPECTED_CROSS_DIRECTION', direction.position);
+      }
+      this.index++;
+      return {
+        kind: 'comparison',
+        operator: direction.value === 'ABOVE' ? 'CROSSES_ABOVE' : 'CROSSES_BELOW',
+        left,
+        right: this.parseAdditive()
+      };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    while (this.peek().type === 'operator' && (this.peek().value === '+' || this.peek().value === '-')) {
+      const operator = this.tokens[this.index++].value as '+' | '-';
+      left = { kind: 'binary', operator, left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && (this.peek().value === '*' || this.peek().value === '/')) {
+      const operator = this.tokens[this.index++].value as '*' | '/';
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === '-') {
+      this.index++;
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (this.peek().type === 'lbracket') {
+      this.index++;
+      const bars = this.expect('number', 'Expected bar count inside []');
+      if (!/^[0-9]+$/.test(bars.value)) {
+        throw new ExpressionError('Lookback must be a whole number of bars', 'INVALID_LOOKBACK', bars.position);
+      }
+      this.expect('rbracket', "Expected ']'");
+      node = { kind: 'lookback', operand: node, bars: parseInt(bars.value, 10) };
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'number', value: parseFloat(token.value) };
+    }
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      this.expect('rparen', "Expected ')'");
+      return node;
+    }
+
+    if (token.type === 'identifier') {
+      this.index++;
+
+      if (PRICE_FIELDS[token.value] && this.peek().type !== 'lparen') {
+        return { kind: 'price', field: PRICE_FIELDS[token.value] };
+      }
+
+      const args: number[] = [];
+      if (this.peek().type === 'lparen') {
+        this.index++;
+        if (this.peek().type !== 'rparen') {
+          args.push(this.parseNumericArgument());
+          while (this.peek().type === 'comma') {
+            this.index++;
+            args.push(this.parseNumericArgument());
+          }
+        }
+        this.expect('rparen', "Expected ')' after indicator arguments");
+      }
+
+      let field: string | undefined;
+      if (this.peek().type === 'dot') {
+        this.index++;
+        field = this.expect('identifier', 'Expected field name after \'.\'').value;
+      }
+
+      return { kind: 'indicator', name: token.value, args, field };
+    }
+
+    throw new ExpressionError(
+      token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected token '${token.value}'`,
+      'UNEXPECTED_TOKEN',
+      token.position
+    );
+  }
+
+  private parseNumericArgument(): number {
+    const negative = this.peek().type === 'operator' && this.peek().value === '-';
+    if (negative) this.index++;
+    const token = this.expect('number', 'Indicator arguments must be numbers');
+    const value = parseFloat(token.value);
+    return negative ? -value : value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], message: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new ExpressionError(message, 'UNEXPECTED_TOKEN', token.position);
+    }
+    this.index++;
+    return token;
+  }
+}
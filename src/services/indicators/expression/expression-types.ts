@@ -0,0 +1,128 @@
+/**
+ * Indicator Expression Language Types
+ *
+ * AST, token and error types for composite signal expressions such as
+ * `RSI(14) < 30 AND close > BB(20, 2).lower AND MACD().histogram crosses above 0`.
+ */
+
+/**
+ * Token kinds produced by the tokenizer
+ */
+export type TokenType =
+  | 'number'
+  | 'identifier'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+  | 'dot'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Raw token text (identifiers and keywords are upper-cased) */
+  value: string;
+  /** Character offset in the source expression */
+  position: number;
+}
+
+/**
+ * Comparison operators, including the two-bar cross operators
+ */
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=' | 'CROSSES_ABOVE' | 'CROSSES_BELOW';
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export type LogicalOperator = 'AND' | 'OR';
+
+/**
+ * Literal number
+ */
+export interface NumberNode {
+  kind: 'number';
+  value: number;
+}
+
+/**
+ * Raw price field of the current bar (OPEN, HIGH, LOW, CLOSE, VOLUME)
+ */
+export interface PriceNode {
+  kind: 'price';
+  field: 'open' | 'high' | 'low' | 'close' | 'volume';
+}
+
+/**
+ * Indicator reference with positional parameters and an optional output field
+ */
+export interface IndicatorNode {
+  kind: 'indicator';
+  /** Upper-cased function name as written (e.g. RSI, BB) */
+  name: string;
+  args: number[];
+  /** Output field for multi-value indicators (e.g. 'histogram') */
+  field?: string;
+}
+
+/**
+ * Value of an expression `bars` bars ago: `expr[bars]`
+ */
+export interface LookbackNode {
+  kind: 'lookback';
+  operand: ExpressionNode;
+  bars: number;
+}
+
+export interface UnaryNode {
+  kind: 'unary';
+  operator: '-' | 'NOT';
+  operand: ExpressionNode;
+}
+
+export interface BinaryNode {
+  kind: 'binary';
+  operator: ArithmeticOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface ComparisonNode {
+  kind: 'comparison';
+  operator: ComparisonOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface LogicalNode {
+  kind: 'logical';
+  operator: LogicalOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export type ExpressionNode =
+  | NumberNode
+  | PriceNode
+  | IndicatorNode
+  | LookbackNode
+  | UnaryNode
+  | BinaryNode
+  | ComparisonNode
+  | LogicalNode;
+
+/**
+ * Result of evaluating an expression on one bar.
+ * Numeric expressions yield numbers (NaN while warming up), conditions yield booleans.
+ */
+export type ExpressionValue = number | boolean;
+
+/**
+ * Errors raised while parsing or compiling an expression
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public code: string, public position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Expression Signal Source
+ *
+ * Live CALL/PUT signal source driven by expression rules. Candles are fed
+ * incrementally, so only bars not seen before are evaluated. Each bar is
+ * validated once before any rule sees it; invalid bars are skipped.
+ */
+
+import { CandleData } from '@/types/session';
+import { MarketDataPoint } from '../core/types';
+import { IndicatorFactory, indicatorFactory } from '../indicator-factory';
+import { candleToMarketDataPoint } from '../core/market-data';
+import { DataValidator } from '../core/data-validator';
+import { compileExpression, CompiledExpression, ExpressionStream } from './expression-evaluator';
+
+/**
+ * A named condition that emits a fixed-expiry signal when it is true
+ */
+export interface ExpressionSignalRule {
+  id: string;
+  name: string;
+  /** Condition expression, e.g. "RSI(14) crosses above 30" */
+  condition: string;
+  direction: 'CALL' | 'PUT';
+  /** Signal expiry in minutes */
+  expiry: number;
+  /** Signal strength reported to the UI (0-100, default: 70) */
+  strength?: number;
+  /** Probability reported to the UI (0-100, default: 65) */
+  probability?: number;
+}
+
+/**
+ * Rule that fired on the latest candle
+ */
+export interface ExpressionSignalMatch {
+  rule: ExpressionSignalRule;
+  candleIndex: number;
+  timestamp: number;
+  price: number;
+}
+
+interface RuleState {
+  rule: ExpressionSignalRule;
+  expression: CompiledExpression;
+  stream: ExpressionStream;
+  lastValue: boolean;
+}
+
+const samePoint = (a: MarketDataPoint, b: MarketDataPoint): boolean =>
+  a.timestamp === b.timestamp &&
+  a.open === b.open &&
+  a.high === b.high &&
+  a.low === b.low &&
+  a.close === b.close &&
+  a.volume === b.volume;
+
+export class ExpressionSignalSource {
+  private rules: RuleState[];
+  private readonly validator = new DataValidator();
+  private processedCount = 0;
+  /** Last candle fed, valid or not; an edit to it triggers a replay */
+  private lastSeen: MarketDataPoint | null = null;
+  /** Last candle the rules evaluated */
+  private lastAccepted: MarketDataPoint | null = null;
+  private lastCandleAccepted = false;
+
+  /**
+   * @param rules - Signal rules; invalid expressions throw ExpressionError here
+   * @param factory - Indicator factory used by the rule expressions
+   */
+  constructor(rules: ExpressionSignalRule[], factory: IndicatorFactory = indicatorFactory) {
+    this.rules = rules.map(rule => {
+      const expression = compileExpression(rule.condition, factory);
+      return { rule, expression, stream: expression.createStream(), lastValue: false };
+    });
+  }
+
+  /**
+   * Feed the session candles and return the rules that are true on the last candle
+   * @param candles - All session candles, oldest first
+   */
+  update(candles: CandleData[]): ExpressionSignalMatch[] {
+    if (candles.length === 0) return [];
+
+    // History was replaced or the last candle was edited: replay from scratch
+    if (
+      candles.length < this.processedCount ||
+      (this.lastSeen && !samePoint(candleToMarketDataPoint(candles[this.processedCount - 1]), this.lastSeen))
+    ) {
+      this.reset();
+    }
+
+    for (let i = this.processedCount; i < candles.length; i++) {
+      const point = candleToMarketDataPoint(candles[i]);
+      this.processedCount = i + 1;
+      this.lastSeen = point;
+
+      // Индикаторы правил отвергают такую свечу; проверяем один раз, до всех правил
+      const check = this.validator.validateRealTimePoint(point, this.lastAccepted ?? undefined);
+      this.lastCandleAccepted = check.isValid;
+      if (!check.isValid) continue;
+
+      this.rules.forEach(state => {
+        state.lastValue = state.stream.push(point) === true;
+      });
+      this.lastAccepted = point;
+    }
+
+    if (!this.lastCandleAccepted) return [];
+
+    const lastCandle = candles[candles.length - 1];
+    return this.rules
+      .filter(state => state.lastValue)
+      .map(state => ({
+        rule: state.rule,
+        candleIndex: lastCandle.candle_index,
+        timestamp: this.lastAccepted!.timestamp,
+        price: lastCandle.close
+      }));
+  }
+
+  /**
+   * Forget all processed candles
+   */
+  reset(): void {
+    this.rules.forEach(state => {
+      state.stream = state.expression.createStream();
+      state.lastValue = false;
+    });
+    this.processedCount = 0;
+    this.lastSeen = null;
+    this.lastAccepted = null;
+    this.lastCandleAccepted = false;
+  }
+}
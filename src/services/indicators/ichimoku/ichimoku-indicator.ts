@@ -0,0 +1,170 @@
+/**
+ * Ichimoku Kinko Hyo Indicator
+ * Conversion/base lines with forward-displaced cloud spans.
+ *
+ * The leading spans are returned already shifted onto the bar they are
+ * plotted against, so every value only uses data available at that bar.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  IchimokuValue, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface IchimokuConfig extends BaseIndicatorConfig {
+  period: number;
+  tenkanPeriod: number;
+  kijunPeriod: number;
+  senkouBPeriod: number;
+  displacement: number;
+}
+
+export class IchimokuIndicator extends BaseIndicator<IchimokuValue, IchimokuConfig> {
+  protected getDefaultConfig(): IchimokuConfig {
+    return {
+      period: 26, // Use kijun period as primary period
+      tenkanPeriod: 9,
+      kijunPeriod: 26,
+      senkouBPeriod: 52,
+      displacement: 26,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.senkouBPeriod + this.config.displacement;
+  }
+
+  protected getIndicatorName(): string {
+    return 'Ichimoku';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: IchimokuValue[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateIchimoku(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'ICHIMOKU_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: {
+            tenkanPeriod: this.config.tenkanPeriod,
+            kijunPeriod: this.config.kijunPeriod,
+            senkouBPeriod: this.config.senkouBPeriod
+          },
+          suggestions: ['Check data sufficiency', 'Verify period settings']
+        }
+      };
+    }
+  }
+
+  private calculateIchimoku(data: MarketDataPoint[]): IchimokuValue[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  /**
+   * Running state: high/low window for the longest period and the queue of
+   * cloud values waiting out the displacement
+   */
+  protected createStreamingState(): Record<string, any> {
+    return { highs: [], lows: [], pendingSpanA: [], pendingSpanB: [] };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): IchimokuValue {
+    const { tenkanPeriod, kijunPeriod, senkouBPeriod, displacement } = this.config;
+    const windowSize = Math.max(tenkanPeriod, kijunPeriod, senkouBPeriod);
+
+    state.highs.push(point.high);
+    state.lows.push(point.low);
+    if (state.highs.length > windowSize) {
+      state.highs.shift();
+      state.lows.shift();
+    }
+
+    const tenkanSen = this.midpoint(state.highs, state.lows, tenkanPeriod);
+    const kijunSen = this.midpoint(state.highs, state.lows, kijunPeriod);
+    const spanBSource = this.midpoint(state.highs, state.lows, senkouBPeriod);
+
+    // Values computed now are plotted `displacement` bars ahead
+    state.pendingSpanA.push(isNaN(tenkanSen) || isNaN(kijunSen) ? NaN : (tenkanSen + kijunSen) / 2);
+    state.pendingSpanB.push(spanBSource);
+
+    let senkouSpanA = NaN;
+    let senkouSpanB = NaN;
+    if (state.pendingSpanA.length > displacement) {
+      senkouSpanA = state.pendingSpanA.shift();
+      senkouSpanB = state.pendingSpanB.shift();
+    }
+
+    return {
+      tenkanSen,
+      kijunSen,
+      senkouSpanA,
+      senkouSpanB,
+      chikouSpan: point.close
+    };
+  }
+
+  /**
+   * (highest high + lowest low) / 2 over the trailing `period` entries of the window
+   */
+  private midpoint(highs: number[], lows: number[], period: number): number {
+    if (highs.length < period) return NaN;
+
+    const highest = Math.max(...highs.slice(-period));
+    const lowest = Math.min(...lows.slice(-period));
+    return (highest + lowest) / 2;
+  }
+
+  /**
+   * Position of price relative to the cloud at a given value
+   */
+  getCloudPosition(price: number, value: IchimokuValue): 'above' | 'inside' | 'below' | 'unknown' {
+    if (isNaN(value.senkouSpanA) || isNaN(value.senkouSpanB)) return 'unknown';
+
+    const top = Math.max(value.senkouSpanA, value.senkouSpanB);
+    const bottom = Math.min(value.senkouSpanA, value.senkouSpanB);
+    if (price > top) return 'above';
+    if (price < bottom) return 'below';
+    return 'inside';
+  }
+
+  protected calculateValidity(values: IchimokuValue[], data: MarketDataPoint[]): boolean[] {
+    return values.map(v => !isNaN(v.senkouSpanA) && !isNaN(v.senkouSpanB));
+  }
+
+  protected calculateChange(newValue: IchimokuValue, previousValue: IchimokuValue): number {
+    if (isNaN(newValue.tenkanSen) || isNaN(previousValue.tenkanSen)) return 0;
+    return newValue.tenkanSen - previousValue.tenkanSen;
+  }
+
+  protected calculatePercentChange(newValue: IchimokuValue, previousValue: IchimokuValue): number {
+    if (isNaN(newValue.tenkanSen) || isNaN(previousValue.tenkanSen) || previousValue.tenkanSen === 0) return 0;
+    return ((newValue.tenkanSen - previousValue.tenkanSen) / previousValue.tenkanSen) * 100;
+  }
+
+  /**
+   * Tenkan/Kijun cross reported at the Kijun level
+   */
+  protected detectLevelCross(newValue: IchimokuValue, previousValue: IchimokuValue): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    if (previousValue.tenkanSen <= previousValue.kijunSen && newValue.tenkanSen > newValue.kijunSen) {
+      return { level: newValue.kijunSen, direction: 'up' };
+    }
+    if (previousValue.tenkanSen >= previousValue.kijunSen && newValue.tenkanSen < newValue.kijunSen) {
+      return { level: newValue.kijunSen, direction: 'down' };
+    }
+    return undefined;
+  }
+}
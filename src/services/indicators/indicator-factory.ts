@@ -7,6 +7,14 @@ import { RSIIndicator, RSIConfig } from './rsi/rsi-indicator';
 import { MACDIndicator, MACDConfig } from './macd/macd-indicator';
 import { BollingerBandsIndicator, BollingerBandsConfig } from './bollinger/bollinger-indicator';
 import { StochasticIndicator, StochasticConfig } from './stochastic/stochastic-indicator';
+import { ATRIndicator, ATRConfig } from './atr/atr-indicator';
+import { ADXIndicator, ADXConfig } from './adx/adx-indicator';
+import { IchimokuIndicator, IchimokuConfig } from './ichimoku/ichimoku-indicator';
+import { VWAPIndicator, VWAPConfig } from './vwap/vwap-indicator';
+import { OBVIndicator, OBVConfig } from './obv/obv-indicator';
+import { MFIIndicator, MFIConfig } from './mfi/mfi-indicator';
+import { CCIIndicator, CCIConfig } from './cci/cci-indicator';
+import { WilliamsRIndicator, WilliamsRConfig } from './williams-r/williams-r-indicator';
 import { 
   IndicatorType, 
   FactoryConfig, 
@@ -41,6 +49,38 @@ export class IndicatorFactory {
     return new StochasticIndicator(config as StochasticConfig);
   }
 
+  createATR(config: Partial<ATRConfig> = {}): ATRIndicator {
+    return new ATRIndicator(config as ATRConfig);
+  }
+
+  createADX(config: Partial<ADXConfig> = {}): ADXIndicator {
+    return new ADXIndicator(config as ADXConfig);
+  }
+
+  createIchimoku(config: Partial<IchimokuConfig> = {}): IchimokuIndicator {
+    return new IchimokuIndicator(config as IchimokuConfig);
+  }
+
+  createVWAP(config: Partial<VWAPConfig> = {}): VWAPIndicator {
+    return new VWAPIndicator(config as VWAPConfig);
+  }
+
+  createOBV(config: Partial<OBVConfig> = {}): OBVIndicator {
+    return new OBVIndicator(config as OBVConfig);
+  }
+
+  createMFI(config: Partial<MFIConfig> = {}): MFIIndicator {
+    return new MFIIndicator(config as MFIConfig);
+  }
+
+  createCCI(config: Partial<CCIConfig> = {}): CCIIndicator {
+    return new CCIIndicator(config as CCIConfig);
+  }
+
+  createWilliamsR(config: Partial<WilliamsRConfig> = {}): WilliamsRIndicator {
+    return new WilliamsRIndicator(config as WilliamsRConfig);
+  }
+
   async calculateBatch(request: BatchCalculationRequest): Promise<BatchCalculationResult> {
     const startTime = performance.now();
     const results = new Map();
@@ -62,6 +102,30 @@ export class IndicatorFactory {
           case 'stochastic':
             indicator = this.createStochastic(indicatorRequest.config as StochasticConfig);
             break;
+          case 'atr':
+            indicator = this.createATR(indicatorRequest.config as ATRConfig);
+            break;
+          case 'adx':
+            indicator = this.createADX(indicatorRequest.config as ADXConfig);
+            break;
+          case 'ichimoku':
+            indicator = this.createIchimoku(indicatorRequest.config as IchimokuConfig);
+            break;
+          case 'vwap':
+            indicator = this.createVWAP(indicatorRequest.config as VWAPConfig);
+            break;
+          case 'obv':
+            indicator = this.createOBV(indicatorRequest.config as OBVConfig);
+            break;
+          case 'mfi':
+            indicator = this.createMFI(indicatorRequest.config as MFIConfig);
+            break;
+          case 'cci':
+            indicator = this.createCCI(indicatorRequest.config as CCIConfig);
+            break;
+          case 'williamsR':
+            indicator = this.createWilliamsR(indicatorRequest.config as WilliamsRConfig);
+            break;
           default:
             throw new Error(`Unsupported indicator type: ${indicatorRequest.type}`);
         }
@@ -14,8 +14,7 @@ import {
   MACDResult, 
   MACDValue, 
   BaseIndicatorConfig, 
-  IndicatorError,
-  StreamingUpdate
+  IndicatorError
 } from '../core/types';
 
 /**
@@ -36,29 +35,10 @@ export interface MACDConfig extends BaseIndicatorConfig {
   crossoverThreshold?: number;
 }
 
-/**
- * MACD calculation state for streaming
- */
-interface MACDState {
-  fastEMA: number;
-  slowEMA: number;
-  signalEMA: number;
-  isInitialized: boolean;
-  dataCount: number;
-}
-
 /**
  * Professional MACD indicator implementation
  */
 export class MACDIndicator extends BaseIndicator<MACDValue, MACDConfig> {
-  private streamingState: MACDState = {
-    fastEMA: 0,
-    slowEMA: 0,
-    signalEMA: 0,
-    isInitialized: false,
-    dataCount: 0
-  };
-
   /**
    * Get default MACD configuration
    */
@@ -234,44 +214,74 @@ export class MACDIndicator extends BaseIndicator<MACDValue, MACDConfig> {
   }
 
   /**
-   * Streaming update with MACD-specific optimizations
+   * Running state: fast/slow/signal EMAs and the number of prices seen
    */
-  async update(
-    newDataPoint: MarketDataPoint, 
-    existingData: MarketDataPoint[]
-  ): Promise<StreamingUpdate<MACDValue>> {
-    const newPrice = this.extractPrice(newDataPoint);
-    
-    if (!this.streamingState.isInitialized) {
-      // Initialize streaming state with existing data
-      await this.initializeStreaming(existingData);
+  protected createStreamingState(): Record<string, any> {
+    return {
+      fastEMA: NaN,
+      slowEMA: NaN,
+      signalEMA: NaN,
+      dataCount: 0
+    };
+  }
+
+  /**
+   * Incremental MACD step matching calculateMACD()
+   */
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): MACDValue {
+    const price = this.extractPrice(point);
+    const index = state.dataCount++;
+
+    if (index === 0) {
+      state.fastEMA = price;
+      state.slowEMA = price;
+    } else {
+      const fastMultiplier = 2 / (this.config.fastPeriod + 1);
+      const slowMultiplier = 2 / (this.config.slowPeriod + 1);
+      state.fastEMA = (price * fastMultiplier) + (state.fastEMA * (1 - fastMultiplier));
+      state.slowEMA = (price * slowMultiplier) + (state.slowEMA * (1 - slowMultiplier));
     }
 
-    // Calculate new MACD value using streaming EMAs
-    const newMACDValue = this.calculateStreamingMACD(newPrice);
-    
-    // Get previous value for comparison
-    const allData = [...existingData, newDataPoint];
-    const result = await this.calculate(allData);
-    const previousValue = result.values.length > 1 ? 
-      result.values[result.values.length - 2] : newMACDValue;
+    const validFrom = Math.max(this.config.fastPeriod, this.config.slowPeriod) - 1;
+    if (index < validFrom) {
+      return { macd: NaN, signal: NaN, histogram: NaN };
+    }
 
-    const change = this.calculateMACDChange(newMACDValue, previousValue);
-    const percentChange = this.calculateMACDPercentChange(newMACDValue, previousValue);
+    const macd = state.fastEMA - state.slowEMA;
+
+    // Signal line is seeded with the first valid MACD value
+    if (index === validFrom) {
+      state.signalEMA = macd;
+    } else {
+      const signalMultiplier = 2 / (this.config.signalPeriod + 1);
+      state.signalEMA = (macd * signalMultiplier) + (state.signalEMA * (1 - signalMultiplier));
+    }
 
     return {
-      value: {
-        timestamp: newDataPoint.timestamp,
-        value: newMACDValue,
-        isValid: !isNaN(newMACDValue.macd) && !isNaN(newMACDValue.signal),
-        confidence: this.calculateMACDConfidence(newMACDValue)
-      },
-      change,
-      percentChange,
-      levelCross: this.detectMACDCross(newMACDValue, previousValue)
+      macd,
+      signal: state.signalEMA,
+      histogram: macd - state.signalEMA
     };
   }
 
+  /**
+   * MACD-specific zero line and signal line crossover detection
+   */
+  protected detectLevelCross(newValue: MACDValue, previousValue: MACDValue): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    return this.detectMACDCross(newValue, previousValue);
+  }
+
+  /**
+   * Streaming confidence based on MACD/signal separation
+   */
+  protected calculateStreamingConfidence(value: MACDValue, isValid: boolean, warnings: string[]): number {
+    return Math.min(
+      super.calculateStreamingConfidence(value, isValid, warnings),
+      this.calculateMACDConfidence(value)
+    );
+  }
+
   /**
    * Detect MACD crossovers
    */
@@ -319,74 +329,6 @@ export class MACDIndicator extends BaseIndicator<MACDValue, MACDConfig> {
     return crossovers;
   }
 
-  /**
-   * Initialize streaming state
-   */
-  private async initializeStreaming(data: MarketDataPoint[]): Promise<void> {
-    if (data.length < this.getMinDataPoints()) {
-      throw new Error('Insufficient data to initialize MACD streaming');
-    }
-
-    const prices = this.extractPrices(data);
-    const fastEMA = this.calculateEMA(prices, this.config.fastPeriod);
-    const slowEMA = this.calculateEMA(prices, this.config.slowPeriod);
-    
-    // Calculate MACD line
-    const macdLine: number[] = [];
-    for (let i = 0; i < prices.length; i++) {
-      macdLine.push(fastEMA[i] - slowEMA[i]);
-    }
-    
-    // Calculate signal line
-    const signalEMA = this.calculateEMA(macdLine, this.config.signalPeriod);
-
-    this.streamingState = {
-      fastEMA: fastEMA[fastEMA.length - 1],
-      slowEMA: slowEMA[slowEMA.length - 1],
-      signalEMA: signalEMA[signalEMA.length - 1],
-      isInitialized: true,
-      dataCount: data.length
-    };
-  }
-
-  /**
-   * Calculate streaming MACD value
-   */
-  private calculateStreamingMACD(newPrice: number): MACDValue {
-    if (!this.streamingState.isInitialized) {
-      throw new Error('MACD streaming not initialized');
-    }
-
-    // Update EMAs
-    const fastMultiplier = 2 / (this.config.fastPeriod + 1);
-    const slowMultiplier = 2 / (this.config.slowPeriod + 1);
-    
-    this.streamingState.fastEMA = (newPrice * fastMultiplier) + 
-      (this.streamingState.fastEMA * (1 - fastMultiplier));
-    
-    this.streamingState.slowEMA = (newPrice * slowMultiplier) + 
-      (this.streamingState.slowEMA * (1 - slowMultiplier));
-
-    // Calculate MACD line
-    const macd = this.streamingState.fastEMA - this.streamingState.slowEMA;
-
-    // Update signal line
-    const signalMultiplier = 2 / (this.config.signalPeriod + 1);
-    this.streamingState.signalEMA = (macd * signalMultiplier) + 
-      (this.streamingState.signalEMA * (1 - signalMultiplier));
-
-    // Calculate histogram
-    const histogram = macd - this.streamingState.signalEMA;
-
-    this.streamingState.dataCount++;
-
-    return {
-      macd,
-      signal: this.streamingState.signalEMA,
-      histogram
-    };
-  }
-
   /**
    * Extract prices from market data based on price field configuration
    */
@@ -472,24 +414,4 @@ export class MACDIndicator extends BaseIndicator<MACDValue, MACDConfig> {
     
     return confidence;
   }
-
-  /**
-   * Reset streaming state
-   */
-  resetStreaming(): void {
-    this.streamingState = {
-      fastEMA: 0,
-      slowEMA: 0,
-      signalEMA: 0,
-      isInitialized: false,
-      dataCount: 0
-    };
-  }
-
-  /**
-   * Get current streaming state
-   */
-  getStreamingState(): MACDState {
-    return { ...this.streamingState };
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,132 @@
+/**
+ * MFI (Money Flow Index) Indicator
+ * Volume-weighted RSI built on typical price money flow.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface MFIConfig extends BaseIndicatorConfig {
+  period: number;
+  overboughtLevel?: number;
+  oversoldLevel?: number;
+}
+
+export class MFIIndicator extends BaseIndicator<number, MFIConfig> {
+  protected getDefaultConfig(): MFIConfig {
+    return {
+      period: 14,
+      overboughtLevel: 80,
+      oversoldLevel: 20,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.period + 1;
+  }
+
+  protected getIndicatorName(): string {
+    return 'MFI';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateMFI(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'MFI_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { period: this.config.period },
+          suggestions: ['Check volume data', 'Verify period setting']
+        }
+      };
+    }
+  }
+
+  private calculateMFI(data: MarketDataPoint[]): number[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  /**
+   * Running state: previous typical price and the money flow window with its sums
+   */
+  protected createStreamingState(): Record<string, any> {
+    return {
+      previousTypical: NaN,
+      positiveFlows: [],
+      negativeFlows: [],
+      positiveSum: 0,
+      negativeSum: 0
+    };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    const period = this.config.period;
+    const typicalPrice = (point.high + point.low + point.close) / 3;
+    const previousTypical = state.previousTypical;
+    state.previousTypical = typicalPrice;
+
+    if (isNaN(previousTypical)) {
+      return NaN;
+    }
+
+    const rawFlow = typicalPrice * point.volume;
+    const positive = typicalPrice > previousTypical ? rawFlow : 0;
+    const negative = typicalPrice < previousTypical ? rawFlow : 0;
+
+    state.positiveFlows.push(positive);
+    state.negativeFlows.push(negative);
+    state.positiveSum += positive;
+    state.negativeSum += negative;
+    if (state.positiveFlows.length > period) {
+      state.positiveSum -= state.positiveFlows.shift();
+      state.negativeSum -= state.negativeFlows.shift();
+    }
+
+    if (state.positiveFlows.length < period) {
+      return NaN;
+    }
+
+    // Running sums can drift slightly negative after subtraction
+    const positiveSum = Math.max(0, state.positiveSum);
+    const negativeSum = Math.max(0, state.negativeSum);
+
+    if (positiveSum + negativeSum === 0) return 50;
+    if (negativeSum === 0) return 100;
+    return 100 - 100 / (1 + positiveSum / negativeSum);
+  }
+
+  protected detectLevelCross(newValue: number, previousValue: number): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    const overbought = this.config.overboughtLevel || 80;
+    const oversold = this.config.oversoldLevel || 20;
+
+    if (previousValue < overbought && newValue >= overbought) {
+      return { level: overbought, direction: 'up' };
+    }
+    if (previousValue > overbought && newValue <= overbought) {
+      return { level: overbought, direction: 'down' };
+    }
+    if (previousValue > oversold && newValue <= oversold) {
+      return { level: oversold, direction: 'down' };
+    }
+    if (previousValue < oversold && newValue >= oversold) {
+      return { level: oversold, direction: 'up' };
+    }
+    return undefined;
+  }
+}
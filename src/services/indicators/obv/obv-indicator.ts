@@ -0,0 +1,94 @@
+/**
+ * OBV (On-Balance Volume) Indicator
+ * Cumulative volume flow with an optional signal-line smoothing.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface OBVConfig extends BaseIndicatorConfig {
+  /** Period of the OBV signal line used by `calculateSignalLine` */
+  period: number;
+}
+
+export class OBVIndicator extends BaseIndicator<number, OBVConfig> {
+  protected getDefaultConfig(): OBVConfig {
+    return {
+      period: 20,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return 2;
+  }
+
+  protected getIndicatorName(): string {
+    return 'OBV';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateOBV(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'OBV_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { dataLength: data.length },
+          suggestions: ['Check volume data']
+        }
+      };
+    }
+  }
+
+  private calculateOBV(data: MarketDataPoint[]): number[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  protected createStreamingState(): Record<string, any> {
+    return { previousClose: NaN, obv: 0 };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    if (point.close > state.previousClose) {
+      state.obv += point.volume;
+    } else if (point.close < state.previousClose) {
+      state.obv -= point.volume;
+    }
+    state.previousClose = point.close;
+
+    return state.obv;
+  }
+
+  /**
+   * Simple moving average of OBV values over the configured period
+   */
+  calculateSignalLine(obvValues: number[]): number[] {
+    const period = this.config.period;
+    return obvValues.map((_, i) => {
+      if (i < period - 1) return NaN;
+      const slice = obvValues.slice(i - period + 1, i + 1);
+      return slice.reduce((sum, val) => sum + val, 0) / period;
+    });
+  }
+
+  /**
+   * OBV is an unbounded running total, so percentage change is relative to its magnitude
+   */
+  protected calculatePercentChange(newValue: number, previousValue: number): number {
+    return previousValue !== 0 ? ((newValue - previousValue) / Math.abs(previousValue)) * 100 : 0;
+  }
+}
@@ -13,8 +13,7 @@ import {
   MarketDataPoint, 
   RSIResult, 
   BaseIndicatorConfig, 
-  IndicatorError,
-  StreamingUpdate
+  IndicatorError
 } from '../core/types';
 
 /**
@@ -49,10 +48,6 @@ interface RSICalculationResult {
  * Professional RSI indicator implementation
  */
 export class RSIIndicator extends BaseIndicator<number, RSIConfig> {
-  private previousGain: number = 0;
-  private previousLoss: number = 0;
-  private isInitialized: boolean = false;
-
   /**
    * Get default RSI configuration
    */
@@ -239,28 +234,78 @@ export class RSIIndicator extends BaseIndicator<number, RSIConfig> {
   }
 
   /**
-   * Streaming update with RSI-specific level crossing detection
+   * Running state: previous close, last `period` gains/losses and smoothed averages
    */
-  async update(
-    newDataPoint: MarketDataPoint, 
-    existingData: MarketDataPoint[]
-  ): Promise<StreamingUpdate<number>> {
-    const baseUpdate = await super.update(newDataPoint, existingData);
-    
-    // Add RSI-specific level crossing detection
-    const levelCross = this.detectRSILevelCross(
-      baseUpdate.value.value, 
-      existingData.length > 0 ? 
-        (await this.calculate(existingData)).values[existingData.length - 1] : 
-        baseUpdate.value.value
-    );
-
+  protected createStreamingState(): Record<string, any> {
     return {
-      ...baseUpdate,
-      levelCross
+      previousClose: NaN,
+      changeCount: 0,
+      gains: [],
+      losses: [],
+      avgGain: NaN,
+      avgLoss: NaN
     };
   }
 
+  /**
+   * Incremental RSI step matching calculateRSI() for every smoothing method
+   */
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    const period = this.config.period;
+    const previousClose = state.previousClose;
+    state.previousClose = point.close;
+
+    if (isNaN(previousClose)) {
+      return NaN;
+    }
+
+    const change = point.close - previousClose;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+
+    state.changeCount++;
+    state.gains.push(gain);
+    state.losses.push(loss);
+    if (state.gains.length > period) {
+      state.gains.shift();
+      state.losses.shift();
+    }
+
+    if (state.changeCount < period) {
+      return NaN;
+    }
+
+    if (state.changeCount === period) {
+      state.avgGain = state.gains.reduce((sum: number, val: number) => sum + val, 0) / period;
+      state.avgLoss = state.losses.reduce((sum: number, val: number) => sum + val, 0) / period;
+    } else {
+      switch (this.config.smoothingMethod) {
+        case 'ema':
+          state.avgGain = this.emaSmoothing(state.avgGain, gain, period);
+          state.avgLoss = this.emaSmoothing(state.avgLoss, loss, period);
+          break;
+        case 'sma':
+          state.avgGain = this.smaSmoothing(state.gains, state.gains.length - 1, period);
+          state.avgLoss = this.smaSmoothing(state.losses, state.losses.length - 1, period);
+          break;
+        default:
+          state.avgGain = this.wilderSmoothing(state.avgGain, gain, period);
+          state.avgLoss = this.wilderSmoothing(state.avgLoss, loss, period);
+      }
+    }
+
+    const rs = state.avgLoss === 0 ? 100 : state.avgGain / state.avgLoss;
+    return 100 - (100 / (1 + rs));
+  }
+
+  /**
+   * RSI-specific level crossing detection
+   */
+  protected detectLevelCross(newValue: number, previousValue: number): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    return this.detectRSILevelCross(newValue, previousValue);
+  }
+
   /**
    * Wilder's smoothing method (original RSI)
    */
@@ -390,45 +435,4 @@ export class RSIIndicator extends BaseIndicator<number, RSIConfig> {
   getCurrentLevel(rsi: number): 'oversold' | 'neutral' | 'overbought' {
     return this.classifyRSILevel(rsi);
   }
-
-  /**
-   * Calculate RSI for a single new value (optimized for streaming)
-   */
-  calculateStreamingRSI(newPrice: number, previousPrice: number): number {
-    if (!this.isInitialized) {
-      throw new Error('RSI not initialized for streaming. Call calculate() first.');
-    }
-
-    const change = newPrice - previousPrice;
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? -change : 0;
-
-    // Update averages using Wilder's smoothing
-    this.previousGain = this.wilderSmoothing(this.previousGain, gain, this.config.period);
-    this.previousLoss = this.wilderSmoothing(this.previousLoss, loss, this.config.period);
-
-    const rs = this.previousLoss === 0 ? 100 : this.previousGain / this.previousLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  /**
-   * Initialize streaming RSI with historical data
-   */
-  initializeStreaming(data: MarketDataPoint[]): void {
-    const result = this.calculateRSI(data);
-    if (result.avgGains.length > 0 && result.avgLosses.length > 0) {
-      this.previousGain = result.avgGains[result.avgGains.length - 1];
-      this.previousLoss = result.avgLosses[result.avgLosses.length - 1];
-      this.isInitialized = true;
-    }
-  }
-
-  /**
-   * Reset streaming state
-   */
-  resetStreaming(): void {
-    this.previousGain = 0;
-    this.previousLoss = 0;
-    this.isInitialized = false;
-  }
-}
\ No newline at end of file
+}
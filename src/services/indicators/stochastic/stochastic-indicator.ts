@@ -102,4 +102,78 @@ export class StochasticIndicator extends BaseIndicator<StochasticValue, Stochast
 
     return values;
   }
+
+  /**
+   * Running state: high/low window plus raw %K and smoothed %K windows
+   */
+  protected createStreamingState(): Record<string, any> {
+    return { highs: [], lows: [], rawK: [], smoothK: [] };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): StochasticValue {
+    const period = this.config.period;
+
+    state.highs.push(point.high);
+    state.lows.push(point.low);
+    if (state.highs.length > period) {
+      state.highs.shift();
+      state.lows.shift();
+    }
+
+    let rawK = NaN;
+    if (state.highs.length === period) {
+      const highest = Math.max(...state.highs);
+      const lowest = Math.min(...state.lows);
+      const k = ((point.close - lowest) / (highest - lowest)) * 100;
+      rawK = isNaN(k) ? 50 : k;
+    }
+
+    const k = this.pushAndAverage(state.rawK, rawK, this.config.kSmoothing);
+    const d = this.pushAndAverage(state.smoothK, k, this.config.dSmoothing);
+
+    return { k, d };
+  }
+
+  /**
+   * Append to a bounded window and average its non-NaN entries
+   */
+  private pushAndAverage(window: number[], value: number, size: number): number {
+    window.push(value);
+    if (window.length > size) {
+      window.shift();
+    }
+
+    const valid = window.filter(v => !isNaN(v));
+    return valid.length > 0 ? valid.reduce((sum, val) => sum + val, 0) / valid.length : NaN;
+  }
+
+  protected calculateChange(newValue: StochasticValue, previousValue: StochasticValue): number {
+    if (isNaN(newValue.k) || isNaN(previousValue.k)) return 0;
+    return newValue.k - previousValue.k;
+  }
+
+  protected calculatePercentChange(newValue: StochasticValue, previousValue: StochasticValue): number {
+    if (isNaN(newValue.k) || isNaN(previousValue.k) || previousValue.k === 0) return 0;
+    return ((newValue.k - previousValue.k) / previousValue.k) * 100;
+  }
+
+  protected detectLevelCross(newValue: StochasticValue, previousValue: StochasticValue): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    const overbought = this.config.overboughtLevel || 80;
+    const oversold = this.config.oversoldLevel || 20;
+
+    if (previousValue.k < overbought && newValue.k >= overbought) {
+      return { level: overbought, direction: 'up' };
+    }
+    if (previousValue.k > overbought && newValue.k <= overbought) {
+      return { level: overbought, direction: 'down' };
+    }
+    if (previousValue.k > oversold && newValue.k <= oversold) {
+      return { level: oversold, direction: 'down' };
+    }
+    if (previousValue.k < oversold && newValue.k >= oversold) {
+      return { level: oversold, direction: 'up' };
+    }
+    return undefined;
+  }
 }
\ No newline at end of file
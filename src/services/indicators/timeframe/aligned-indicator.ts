@@ -0,0 +1,110 @@
+/**
+ * Aligned Higher-Timeframe Indicators
+ *
+ * Computes an indicator on a resampled series and maps it back onto the base
+ * candles. Each base candle only sees higher-timeframe bars that had closed
+ * by the end of that candle, so there is no lookahead. Optionally the forming
+ * bar can be evaluated too, using the data available so far.
+ */
+
+import { CandleData } from '@/types/session';
+import { BaseIndicator } from '../core/base-indicator';
+import { candleToMarketDataPoint } from '../core/market-data';
+import { TimeframeResampler, TimeframeValue, ResampledCandle } from './timeframe-resampler';
+
+export interface AlignedIndicatorOptions {
+  baseTimeframe: TimeframeValue;
+  targetTimeframe: TimeframeValue;
+  /**
+   * Evaluate the still-forming higher-timeframe bar on every base candle
+   * instead of holding the last closed value (default: false)
+   */
+  includeFormingBar?: boolean;
+}
+
+/**
+ * Higher-timeframe indicator value as seen from one base candle
+ */
+export interface AlignedIndicatorValue<T> {
+  /** Indicator value, undefined until the first higher-timeframe bar is available */
+  value: T | undefined;
+  isValid: boolean;
+  /** Higher-timeframe bar the value was computed on */
+  bar: ResampledCandle | null;
+  /** True when the value comes from a bar that has not closed yet */
+  fromFormingBar: boolean;
+}
+
+/**
+ * Incremental alignment: push base candles as they arrive
+ */
+export class AlignedIndicatorStream<T> {
+  private resampler: TimeframeResampler;
+  private closed: AlignedIndicatorValue<T> = { value: undefined, isValid: false, bar: null, fromFormingBar: false };
+
+  /**
+   * @param indicator - Indicator evaluated on the higher timeframe; its streaming state is owned by the stream
+   * @param options - Base/target timeframes and forming-bar handling
+   */
+  constructor(private indicator: BaseIndicator<T, any>, private options: AlignedIndicatorOptions) {
+    this.resampler = new TimeframeResampler(options.baseTimeframe, options.targetTimeframe);
+    this.indicator.resetStreaming();
+  }
+
+  /**
+   * Add the next base candle and return the aligned value for it
+   * @param candle - Base candle, newer than every candle pushed before
+   */
+  push(candle: CandleData): AlignedIndicatorValue<T> {
+    for (const bar of this.resampler.push(candle)) {
+      const update = this.indicator.update(candleToMarketDataPoint(bar));
+      this.closed = {
+        value: update.value.value,
+        isValid: update.value.isValid,
+        bar,
+        fromFormingBar: false
+      };
+    }
+
+    const forming = this.options.includeFormingBar ? this.resampler.getFormingBar() : null;
+    if (!forming) {
+      return { ...this.closed };
+    }
+
+    // Evaluate the forming bar, then roll the indicator back to the last closed bar
+    const snapshot = this.indicator.getStreamingState();
+    const update = this.indicator.update(candleToMarketDataPoint(forming));
+    this.indicator.restoreStreamingState(snapshot);
+
+    return {
+      value: update.value.value,
+      isValid: update.value.isValid,
+      bar: forming,
+      fromFormingBar: true
+    };
+  }
+
+  /**
+   * Forget all pushed candles
+   */
+  reset(): void {
+    this.resampler.reset();
+    this.indicator.resetStreaming();
+    this.closed = { value: undefined, isValid: false, bar: null, fromFormingBar: false };
+  }
+}
+
+/**
+ * Compute a higher-timeframe indicator aligned to every base candle
+ * @param candles - Base candles, oldest first
+ * @param indicator - Indicator evaluated on the higher timeframe
+ * @param options - Base/target timeframes and forming-bar handling
+ */
+export function computeAlignedIndicator<T>(
+  candles: CandleData[],
+  indicator: BaseIndicator<T, any>,
+  options: AlignedIndicatorOptions
+): AlignedIndicatorValue<T>[] {
+  const stream = new AlignedIndicatorStream(indicator, options);
+  return candles.map(candle => stream.push(candle));
+}
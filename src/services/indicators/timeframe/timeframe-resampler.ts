@@ -0,0 +1,210 @@
+/**
+ * Timeframe Resampler
+ *
+ * Rolls a session candle series up into a higher timeframe (5m -> 15m -> 1h ...).
+ * Buckets are aligned to UTC boundaries (weeks start on Monday). A bucket is
+ * complete once the base candle that closes it has arrived, or once a candle
+ * from a later bucket shows up; until then it is reported as a forming bar.
+ */
+
+import { CandleData } from '@/types/session';
+import { SessionValueObjects, TimeFrame } from '@/domains/session/types';
+
+export type TimeframeValue = TimeFrame['value'];
+
+/**
+ * Higher-timeframe candle built from base candles
+ */
+export interface ResampledCandle extends CandleData {
+  timeframe: TimeframeValue;
+  /** Bucket start (ms since epoch) */
+  startTime: number;
+  /** Bucket end, exclusive (ms since epoch) */
+  endTime: number;
+  /** False while the bucket can still receive base candles */
+  isComplete: boolean;
+  /** Number of base candles aggregated into the bar */
+  sourceCount: number;
+  /** candle_index of the first and last aggregated base candle */
+  firstSourceIndex: number;
+  lastSourceIndex: number;
+}
+
+export interface ResampleOptions {
+  /** Keep the trailing forming bar in the output (default: true) */
+  includePartial?: boolean;
+}
+
+export class TimeframeError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'TimeframeError';
+  }
+}
+
+// 1970-01-01 was a Thursday; shift weekly buckets so they open on Monday
+const WEEK_ANCHOR_OFFSET = 4 * 86400000;
+
+/**
+ * Duration of a timeframe in milliseconds
+ * @param timeframe - Timeframe value, e.g. '5m'
+ */
+export function getTimeframeMilliseconds(timeframe: TimeframeValue): number {
+  return SessionValueObjects.timeFrame(timeframe).milliseconds;
+}
+
+/**
+ * Start of the bucket that contains a timestamp
+ * @param timestamp - Time in ms since epoch
+ * @param timeframe - Bucket timeframe
+ */
+export function getBucketStart(timestamp: number, timeframe: TimeframeValue): number {
+  const duration = getTimeframeMilliseconds(timeframe);
+  const offset = timeframe === '1w' ? WEEK_ANCHOR_OFFSET : 0;
+  return Math.floor((timestamp - offset) / duration) * duration + offset;
+}
+
+/**
+ * Check that a base timeframe can be rolled up into a target timeframe
+ */
+function assertResamplable(baseTimeframe: TimeframeValue, targetTimeframe: TimeframeValue): void {
+  const base = getTimeframeMilliseconds(baseTimeframe);
+  const target = getTimeframeMilliseconds(targetTimeframe);
+
+  if (target <= base) {
+    throw new TimeframeError(
+      `Target timeframe ${targetTimeframe} must be higher than base timeframe ${baseTimeframe}`,
+      'INVALID_TARGET_TIMEFRAME'
+    );
+  }
+  if (target % base !== 0) {
+    throw new TimeframeError(
+      `Timeframe ${targetTimeframe} is not a whole multiple of ${baseTimeframe}`,
+      'INCOMPATIBLE_TIMEFRAMES'
+    );
+  }
+}
+
+/**
+ * Incremental resampler: push base candles in chronological order
+ */
+export class TimeframeResampler {
+  private readonly baseDuration: number;
+  private forming: ResampledCandle | null = null;
+  private barCount = 0;
+  private lastTimestamp = -Infinity;
+
+  constructor(
+    public readonly baseTimeframe: TimeframeValue,
+    public readonly targetTimeframe: TimeframeValue
+  ) {
+    assertResamplable(baseTimeframe, targetTimeframe);
+    this.baseDuration = getTimeframeMilliseconds(baseTimeframe);
+  }
+
+  /**
+   * Add the next base candle
+   * @param candle - Base candle, newer than every candle pushed before
+   * @returns Higher-timeframe bars completed by this candle, oldest first
+   */
+  push(candle: CandleData): ResampledCandle[] {
+    const timestamp = new Date(candle.candle_datetime).getTime();
+    if (isNaN(timestamp)) {
+      throw new TimeframeError(`Invalid candle_datetime '${candle.candle_datetime}'`, 'INVALID_TIMESTAMP');
+    }
+    if (timestamp <= this.lastTimestamp) {
+      throw new TimeframeError('Candles must be pushed in chronological order', 'OUT_OF_ORDER');
+    }
+    this.lastTimestamp = timestamp;
+
+    const completed: ResampledCandle[] = [];
+    const bucketStart = getBucketStart(timestamp, this.targetTimeframe);
+
+    // A candle from a later bucket closes the previous one even if the
+    // closing base candle is missing (gap in the data)
+    if (this.forming && this.forming.startTime !== bucketStart) {
+      completed.push(this.completeForming());
+    }
+
+    if (!this.forming) {
+      this.forming = {
+        session_id: candle.session_id,
+        candle_index: this.barCount++,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+        candle_datetime: new Date(bucketStart).toISOString(),
+        timeframe: this.targetTimeframe,
+        startTime: bucketStart,
+        endTime: bucketStart + getTimeframeMilliseconds(this.targetTimeframe),
+        isComplete: false,
+        sourceCount: 1,
+        firstSourceIndex: candle.candle_index,
+        lastSourceIndex: candle.candle_index
+      };
+    } else {
+      this.forming.high = Math.max(this.forming.high, candle.high);
+      this.forming.low = Math.min(this.forming.low, candle.low);
+      this.forming.close = candle.close;
+      this.forming.volume += candle.volume;
+      this.forming.sourceCount++;
+      this.forming.lastSourceIndex = candle.candle_index;
+    }
+
+    if (timestamp + this.baseDuration >= this.forming.endTime) {
+      completed.push(this.completeForming());
+    }
+
+    return completed;
+  }
+
+  /**
+   * The bar currently being built, or null if the last bar is complete
+   */
+  getFormingBar(): ResampledCandle | null {
+    return this.forming ? { ...this.forming } : null;
+  }
+
+  /**
+   * Forget all pushed candles
+   */
+  reset(): void {
+    this.forming = null;
+    this.barCount = 0;
+    this.lastTimestamp = -Infinity;
+  }
+
+  private completeForming(): ResampledCandle {
+    const bar = { ...this.forming!, isComplete: true };
+    this.forming = null;
+    return bar;
+  }
+}
+
+/**
+ * Resample a candle series into a higher timeframe
+ * @param candles - Base candles, oldest first
+ * @param baseTimeframe - Timeframe of the input candles
+ * @param targetTimeframe - Timeframe to roll up into
+ * @param options - Partial-bar handling
+ */
+export function resampleCandles(
+  candles: CandleData[],
+  baseTimeframe: TimeframeValue,
+  targetTimeframe: TimeframeValue,
+  options: ResampleOptions = {}
+): ResampledCandle[] {
+  const resampler = new TimeframeResampler(baseTimeframe, targetTimeframe);
+  const bars: ResampledCandle[] = [];
+
+  candles.forEach(candle => bars.push(...resampler.push(candle)));
+
+  const forming = resampler.getFormingBar();
+  if (forming && options.includePartial !== false) {
+    bars.push(forming);
+  }
+
+  return bars;
+}
@@ -0,0 +1,156 @@
+/**
+ * VWAP (Volume Weighted Average Price) Indicator
+ * Cumulative or rolling VWAP with volume-weighted standard deviation bands.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  VWAPResult, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface VWAPConfig extends BaseIndicatorConfig {
+  /** Rolling window length; ignored when `anchor` is 'cumulative' */
+  period: number;
+  anchor: 'cumulative' | 'rolling';
+  /** Reset the cumulative VWAP every N milliseconds (e.g. daily sessions) */
+  resetInterval?: number;
+  bandDeviations?: number;
+}
+
+export class VWAPIndicator extends BaseIndicator<number, VWAPConfig> {
+  protected getDefaultConfig(): VWAPConfig {
+    return {
+      period: 20,
+      anchor: 'cumulative',
+      bandDeviations: 2,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.anchor === 'rolling' ? this.config.period : 1;
+  }
+
+  protected getIndicatorName(): string {
+    return 'VWAP';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const { values } = this.calculateVWAP(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'VWAP_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { anchor: this.config.anchor, period: this.config.period },
+          suggestions: ['Check volume data', 'Verify anchor setting']
+        }
+      };
+    }
+  }
+
+  /**
+   * Calculate VWAP together with its deviation bands
+   */
+  async calculate(data: MarketDataPoint[]): Promise<VWAPResult> {
+    const baseResult = await super.calculate(data);
+
+    if (baseResult.error || baseResult.values.length === 0) {
+      return { ...baseResult, bands: [] } as VWAPResult;
+    }
+
+    return {
+      ...baseResult,
+      bands: this.calculateVWAP(data).bands
+    };
+  }
+
+  private calculateVWAP(data: MarketDataPoint[]): { values: number[]; bands: VWAPResult['bands'] } {
+    const deviations = this.config.bandDeviations ?? 2;
+    const state = this.createStreamingState();
+    const values: number[] = [];
+    const bands: VWAPResult['bands'] = [];
+
+    for (const point of data) {
+      const vwap = this.streamingStep(point, state);
+      values.push(vwap);
+      bands.push({
+        upper: vwap + state.deviation * deviations,
+        lower: vwap - state.deviation * deviations,
+        deviation: state.deviation
+      });
+    }
+
+    return { values, bands };
+  }
+
+  /**
+   * Running state: volume-weighted sums, the rolling window and the current anchor
+   */
+  protected createStreamingState(): Record<string, any> {
+    return {
+      sumPV: 0,
+      sumV: 0,
+      sumP2V: 0,
+      window: [],
+      anchorTimestamp: NaN,
+      deviation: NaN
+    };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    const typicalPrice = (point.high + point.low + point.close) / 3;
+    const resetInterval = this.config.resetInterval;
+
+    if (
+      this.config.anchor === 'cumulative' &&
+      resetInterval &&
+      !isNaN(state.anchorTimestamp) &&
+      Math.floor(point.timestamp / resetInterval) !== Math.floor(state.anchorTimestamp / resetInterval)
+    ) {
+      state.sumPV = 0;
+      state.sumV = 0;
+      state.sumP2V = 0;
+      state.anchorTimestamp = point.timestamp;
+    }
+    if (isNaN(state.anchorTimestamp)) {
+      state.anchorTimestamp = point.timestamp;
+    }
+
+    state.sumPV += typicalPrice * point.volume;
+    state.sumV += point.volume;
+    state.sumP2V += typicalPrice * typicalPrice * point.volume;
+
+    if (this.config.anchor === 'rolling') {
+      state.window.push({ price: typicalPrice, volume: point.volume });
+      if (state.window.length > this.config.period) {
+        const dropped = state.window.shift();
+        state.sumPV -= dropped.price * dropped.volume;
+        state.sumV -= dropped.volume;
+        state.sumP2V -= dropped.price * dropped.price * dropped.volume;
+      }
+
+      if (state.window.length < this.config.period) {
+        state.deviation = NaN;
+        return NaN;
+      }
+    }
+
+    const vwap = state.sumV === 0 ? typicalPrice : state.sumPV / state.sumV;
+    const variance = state.sumV === 0 ? 0 : Math.max(0, state.sumP2V / state.sumV - vwap * vwap);
+    state.deviation = Math.sqrt(variance);
+
+    return vwap;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Williams %R Indicator
+ * Close position within the recent high/low range, scaled to -100..0.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { 
+  MarketDataPoint, 
+  BaseIndicatorConfig, 
+  IndicatorError
+} from '../core/types';
+
+export interface WilliamsRConfig extends BaseIndicatorConfig {
+  period: number;
+  overboughtLevel?: number;
+  oversoldLevel?: number;
+}
+
+export class WilliamsRIndicator extends BaseIndicator<number, WilliamsRConfig> {
+  protected getDefaultConfig(): WilliamsRConfig {
+    return {
+      period: 14,
+      overboughtLevel: -20,
+      oversoldLevel: -80,
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.period;
+  }
+
+  protected getIndicatorName(): string {
+    return 'WilliamsR';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const values = this.calculateWilliamsR(data);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'WILLIAMS_R_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { period: this.config.period },
+          suggestions: ['Check data sufficiency', 'Verify period setting']
+        }
+      };
+    }
+  }
+
+  private calculateWilliamsR(data: MarketDataPoint[]): number[] {
+    const state = this.createStreamingState();
+    return data.map(point => this.streamingStep(point, state));
+  }
+
+  protected createStreamingState(): Record<string, any> {
+    return { highs: [], lows: [] };
+  }
+
+  protected streamingStep(point: MarketDataPoint, state: Record<string, any>): number {
+    const period = this.config.period;
+
+    state.highs.push(point.high);
+    state.lows.push(point.low);
+    if (state.highs.length > period) {
+      state.highs.shift();
+      state.lows.shift();
+    }
+
+    if (state.highs.length < period) {
+      return NaN;
+    }
+
+    const highest = Math.max(...state.highs);
+    const lowest = Math.min(...state.lows);
+
+    return highest === lowest ? -50 : ((highest - point.close) / (highest - lowest)) * -100;
+  }
+
+  /**
+   * %R is negative by construction, so percentage change is relative to its magnitude
+   */
+  protected calculatePercentChange(newValue: number, previousValue: number): number {
+    return previousValue !== 0 ? ((newValue - previousValue) / Math.abs(previousValue)) * 100 : 0;
+  }
+
+  protected detectLevelCross(newValue: number, previousValue: number): 
+    { level: number; direction: 'up' | 'down' } | undefined {
+    const overbought = this.config.overboughtLevel ?? -20;
+    const oversold = this.config.oversoldLevel ?? -80;
+
+    if (previousValue < overbought && newValue >= overbought) {
+      return { level: overbought, direction: 'up' };
+    }
+    if (previousValue > overbought && newValue <= overbought) {
+      return { level: overbought, direction: 'down' };
+    }
+    if (previousValue > oversold && newValue <= oversold) {
+      return { level: oversold, direction: 'down' };
+    }
+    if (previousValue < oversold && newValue >= oversold) {
+      return { level: oversold, direction: 'up' };
+    }
+    return undefined;
+  }
+}
@@ -1,4 +1,11 @@
 import { CandleData } from '@/types/session';
+import {
+  crossValidate,
+  CrossValidationOptions,
+  CrossValidationResult,
+  forwardLabelSpans,
+  purgeTrainingSet
+} from './validation/time-series-cv';
 
 // Type for ML pipeline - using any to avoid complex type issues
 type MLPipeline = any;
@@ -38,6 +45,10 @@ export interface ModelConfig {
   epochs?: number;
   batchSize?: number;
   learningRate?: number;
+  /** Samples until a label is known: 1 for the next-candle direction */
+  labelHorizon?: number;
+  /** Samples after each test block kept out of training in crossValidate */
+  embargo?: number;
 }
 
 export interface FeatureVector {
@@ -266,20 +277,44 @@ export class AdvancedMLTrainingService {
   }
 
   /**
-   * Time-series aware train/validation split
+   * Time-series aware train/validation/test split.
+   * Samples whose labels resolve inside a later block are purged from the earlier one
    */
   splitTimeSeriesData(features: FeatureVector[], config: ModelConfig) {
     const totalSamples = features.length;
     const trainSize = Math.floor(totalSamples * config.trainingRatio);
     const validSize = Math.floor(totalSamples * config.validationRatio);
-    
+
+    const spans = forwardLabelSpans(features.map(f => f.timestamp), config.labelHorizon ?? 1);
+    const indices = features.map((_, i) => i);
+    const train = indices.slice(0, trainSize);
+    const validation = indices.slice(trainSize, trainSize + validSize);
+    const test = indices.slice(trainSize + validSize);
+
     return {
-      train: features.slice(0, trainSize),
-      validation: features.slice(trainSize, trainSize + validSize),
-      test: features.slice(trainSize + validSize)
+      train: purgeTrainingSet(train, [...validation, ...test], spans).train.map(i => features[i]),
+      validation: purgeTrainingSet(validation, test, spans).train.map(i => features[i]),
+      test: test.map(i => features[i])
     };
   }
 
+  /**
+   * Purged time-series cross-validation of the logistic baseline with per-fold metrics
+   */
+  async crossValidate(
+    features: FeatureVector[],
+    config: ModelConfig,
+    options: Partial<CrossValidationOptions> = {}
+  ): Promise<CrossValidationResult> {
+    const labeled = features.filter(sample => sample.label !== undefined);
+
+    return crossValidate(labeled, forwardLabelSpans(labeled.map(f => f.timestamp), config.labelHorizon ?? 1), {
+      fit: train => this.trainSimpleModel(train),
+      predict: (model, sample) => this.sigmoid(this.dotProduct(model.weights, sample.features)),
+      label: sample => sample.label!
+    }, { embargo: config.embargo ?? 0, ...options });
+  }
+
   /**
    * Walk-forward validation for time series
    */
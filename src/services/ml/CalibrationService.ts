@@ -0,0 +1,308 @@
+/**
+ * Prediction Calibration Service
+ * Checks whether predicted probabilities match observed hit rates (reliability
+ * diagram, Brier score, expected calibration error) and recalibrates them per
+ * model and pair with Platt scaling or isotonic regression.
+ */
+
+import { PredictionResult } from '@/types/trading';
+import {
+  applyCalibrator,
+  CalibrationMethod,
+  CalibrationSample,
+  Calibrator,
+  fitCalibrator
+} from './calibration/calibrators';
+
+/** Model ids the calibrators are keyed by, one per producer of PredictionResult */
+export const REAL_ML_MODEL = 'real_ml';
+export const HEURISTIC_MODEL = 'heuristic_factors';
+export const PREDICTION_ENGINE_MODEL = 'prediction_engine';
+
+/** Pair key of calibrators fitted on every pair of a model */
+export const ALL_PAIRS = '*';
+
+/**
+ * A prediction whose outcome is known
+ */
+export interface ResolvedPrediction {
+  /** Probability of the predicted direction, 0-100 as in PredictionResult */
+  probability: number;
+  correct: boolean;
+}
+
+/**
+ * A resolved prediction of a model on a pair
+ */
+export interface ModelPrediction extends ResolvedPrediction {
+  model: string;
+  pair: string;
+}
+
+export interface CalibrationSource {
+  /** Resolved predictions with the probability the model output before recalibration */
+  loadResolvedPredictions(): Promise<ModelPrediction[]>;
+}
+
+export interface ReliabilityBin {
+  /** Probability range of the bin, 0-1 */
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  /** Share of predictions in the bin that came true */
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  sampleSize: number;
+  brierScore: number;
+  /** Count-weighted mean gap between predicted and observed rates */
+  expectedCalibrationError: number;
+  /** Largest gap of any non-empty bin */
+  maxCalibrationError: number;
+  bins: ReliabilityBin[];
+}
+
+export interface FittedCalibration {
+  model: string;
+  pair: string;
+  calibrator: Calibrator;
+  /** In-sample reports before and after recalibration */
+  before: CalibrationReport;
+  after: CalibrationReport;
+  fittedAt: number;
+}
+
+/** Direction and probability after recalibration */
+export interface CalibratedCall {
+  direction: PredictionResult['direction'];
+  probability: number;
+  /** Uncalibrated probability of the returned direction */
+  rawProbability: number;
+}
+
+export interface CalibrationConfig {
+  method: CalibrationMethod;
+  /** Number of equal-width reliability bins over [0, 1] */
+  bins: number;
+  /** Resolved predictions needed before a calibrator is fitted */
+  minSamples: number;
+}
+
+export class CalibrationError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+const DEFAULT_CONFIG: CalibrationConfig = {
+  method: 'isotonic',
+  bins: 10,
+  minSamples: 50
+};
+
+const calibrationKey = (model: string, pair: string) => `${model}|${pair}`;
+
+const toSamples = (predictions: ResolvedPrediction[]): CalibrationSample[] =>
+  predictions.map(p => ({ probability: p.probability / 100, outcome: p.correct }));
+
+export class CalibrationService {
+  private readonly config: CalibrationConfig;
+  private readonly calibrations = new Map<string, FittedCalibration>();
+  private fitPromise: Promise<number> | null = null;
+
+  constructor(config: Partial<CalibrationConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Reliability diagram and scores of resolved predictions
+   */
+  evaluate(predictions: ResolvedPrediction[], bins = this.config.bins): CalibrationReport {
+    return this.report(toSamples(predictions), bins);
+  }
+
+  /**
+   * Fit and store the recalibration of one model and pair
+   */
+  fit(
+    model: string,
+    pair: string,
+    predictions: ResolvedPrediction[],
+    method: CalibrationMethod = this.config.method
+  ): FittedCalibration {
+    if (predictions.length < this.config.minSamples) {
+      throw new CalibrationError(
+        `Calibration of ${model} on ${pair} needs ${this.config.minSamples} resolved predictions, got ${predictions.length}`,
+        'INSUFFICIENT_DATA'
+      );
+    }
+
+    const samples = toSamples(predictions);
+    const calibrator = fitCalibrator(method, samples);
+    const fitted: FittedCalibration = {
+      model,
+      pair,
+      calibrator,
+      before: this.report(samples, this.config.bins),
+      after: this.report(samples.map(s => ({ ...s, probability: applyCalibrator(calibrator, s.probability) })), this.config.bins),
+      fittedAt: Date.now()
+    };
+
+    this.calibrations.set(calibrationKey(model, pair), fitted);
+    return fitted;
+  }
+
+  /**
+   * Fit a calibrator per model and pair, and one per model over all its pairs
+   * @returns Number of calibrators fitted; groups with too few predictions are skipped
+   */
+  fitResolved(predictions: ModelPrediction[], method: CalibrationMethod = this.config.method): number {
+    const groups = new Map<string, { model: string; pair: string; predictions: ResolvedPrediction[] }>();
+    const add = (model: string, pair: string, prediction: ResolvedPrediction) => {
+      const key = calibrationKey(model, pair);
+      const group = groups.get(key) ?? { model, pair, predictions: [] };
+      group.predictions.push(prediction);
+      groups.set(key, group);
+    };
+
+    predictions.forEach(({ model, pair, probability, correct }) => {
+      add(model, pair, { probability, correct });
+      add(model, ALL_PAIRS, { probability, correct });
+    });
+
+    let fitted = 0;
+    for (const group of groups.values()) {
+      if (group.predictions.length < this.config.minSamples) continue;
+      this.fit(group.model, group.pair, group.predictions, method);
+      fitted++;
+    }
+    return fitted;
+  }
+
+  /**
+   * Fit from the source once; concurrent and later callers share the first fit
+   */
+  ensureFitted(source: CalibrationSource): Promise<number> {
+    if (!this.fitPromise) {
+      this.fitPromise = source.loadResolvedPredictions()
+        .then(predictions => this.fitResolved(predictions))
+        .catch(error => {
+          this.fitPromise = null;
+          throw error;
+        });
+    }
+    return this.fitPromise;
+  }
+
+  /**
+   * Settles once a fit started by ensureFitted has finished, whether it succeeded or not
+   */
+  async whenFitted(): Promise<void> {
+    await this.fitPromise?.catch(() => undefined);
+  }
+
+  /**
+   * Calibration of a model on a pair, falling back to the model's all-pairs calibration
+   */
+  getCalibration(model: string, pair?: string): FittedCalibration | undefined {
+    return (pair ? this.calibrations.get(calibrationKey(model, pair)) : undefined)
+      ?? this.calibrations.get(calibrationKey(model, ALL_PAIRS));
+  }
+
+  getAllCalibrations(): FittedCalibration[] {
+    return [...this.calibrations.values()];
+  }
+
+  /**
+   * Recalibrated probability, 0-100; unchanged when the model has no calibration
+   */
+  calibrate(model: string, pair: string | undefined, probability: number): number {
+    const fitted = this.getCalibration(model, pair);
+    if (!fitted) return probability;
+    return Math.round(applyCalibrator(fitted.calibrator, probability / 100) * 1000) / 10;
+  }
+
+  /**
+   * Recalibrated call. Calibrators estimate the chance that the stated direction
+   * comes true, so below 50% the opposite direction is the better call: it is
+   * taken with the complementary probability. rawProbability is the uncalibrated
+   * probability of the returned direction, which keeps ledger refits consistent.
+   */
+  calibrateDirection(
+    model: string,
+    pair: string | undefined,
+    direction: PredictionResult['direction'],
+    probability: number
+  ): CalibratedCall {
+    const calibrated = this.calibrate(model, pair, probability);
+    if (calibrated >= 50) {
+      return { direction, probability: calibrated, rawProbability: probability };
+    }
+    return {
+      direction: direction === 'UP' ? 'DOWN' : 'UP',
+      probability: Math.round((100 - calibrated) * 10) / 10,
+      rawProbability: Math.round((100 - probability) * 10) / 10
+    };
+  }
+
+  /**
+   * Prediction with its probability recalibrated and its direction flipped when
+   * the calibrated probability falls below 50%; the raw probability is kept
+   */
+  calibratePrediction(model: string, pair: string | undefined, prediction: PredictionResult): PredictionResult {
+    const fitted = this.getCalibration(model, pair);
+    if (!fitted) return prediction;
+
+    const { direction, probability, rawProbability } =
+      this.calibrateDirection(model, pair, prediction.direction, prediction.probability);
+    return {
+      ...prediction,
+      direction,
+      probability,
+      calibration: { method: fitted.calibrator.method, rawProbability }
+    };
+  }
+
+  clear(): void {
+    this.calibrations.clear();
+    this.fitPromise = null;
+  }
+
+  private report(samples: CalibrationSample[], binCount: number): CalibrationReport {
+    const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+      lower: i / binCount,
+      upper: (i + 1) / binCount,
+      count: 0,
+      meanPredicted: 0,
+      observedRate: 0
+    }));
+
+    samples.forEach(({ probability, outcome }) => {
+      const bin = bins[Math.min(binCount - 1, Math.floor(probability * binCount))];
+      bin.count++;
+      bin.meanPredicted += probability;
+      bin.observedRate += outcome ? 1 : 0;
+    });
+    bins.forEach(bin => {
+      if (bin.count === 0) return;
+      bin.meanPredicted /= bin.count;
+      bin.observedRate /= bin.count;
+    });
+
+    const n = samples.length;
+    const gaps = bins.filter(bin => bin.count > 0).map(bin => ({ gap: Math.abs(bin.observedRate - bin.meanPredicted), count: bin.count }));
+
+    return {
+      sampleSize: n,
+      brierScore: n > 0 ? samples.reduce((sum, s) => sum + (s.probability - (s.outcome ? 1 : 0)) ** 2, 0) / n : 0,
+      expectedCalibrationError: n > 0 ? gaps.reduce((sum, g) => sum + (g.count / n) * g.gap, 0) : 0,
+      maxCalibrationError: gaps.reduce((max, g) => Math.max(max, g.gap), 0),
+      bins
+    };
+  }
+}
+
+export const calibrationService = new CalibrationService();
@@ -1,4 +1,9 @@
 import { CandleData } from '@/types/session';
+import { indicatorFactory } from '@/services/indicators/indicator-factory';
+import { latestIndicatorValue } from '@/services/indicators/core/market-data';
+import { candlestickPatternRegistry } from '../patterns/CandlestickPatternRegistry';
+import { supportResistanceService } from '../patterns/SupportResistanceService';
+import { marketRegimeService } from './MarketRegimeService';
 
 export interface TechnicalFeatures {
   // Базовые индикаторы
@@ -64,25 +69,22 @@ export class FeatureEngineeringService {
       
       // Моментум индикаторы
       stochastic: this.calculateStochastic(historicalCandles),
-      williamsR: this.calculateWilliamsR(historicalCandles),
-      cciIndicator: this.calculateCCI(historicalCandles),
+      williamsR: latestIndicatorValue(indicatorFactory.createWilliamsR({ period: 14 }), historicalCandles, -50),
+      cciIndicator: latestIndicatorValue(indicatorFactory.createCCI({ period: 20 }), historicalCandles, 0),
       
       // Волатильность
-      atr: this.calculateATR(historicalCandles),
+      atr: latestIndicatorValue(indicatorFactory.createATR({ period: 14 }), historicalCandles, 0),
       volatility: this.calculateVolatility(historicalCandles),
       
       // Объемные индикаторы
       volumeRatio: this.calculateVolumeRatio(historicalCandles),
-      obv: this.calculateOBV(historicalCandles),
+      obv: latestIndicatorValue(indicatorFactory.createOBV(), historicalCandles, 0),
       
       // Паттерны
-      doji: this.isDoji(historicalCandles[historicalCandles.length - 1]),
-      hammer: this.isHammer(historicalCandles[historicalCandles.length - 1]),
-      engulfing: this.isEngulfing(historicalCandles),
+      ...this.detectPatterns(historicalCandles),
       
       // Уровни поддержки/сопротивления
-      supportLevel: this.findSupportLevel(historicalCandles),
-      resistanceLevel: this.findResistanceLevel(historicalCandles),
+      ...this.findSupportResistance(historicalCandles),
       
       // Рыночная структура
       trendDirection: this.determineTrendDirection(historicalCandles),
@@ -218,48 +220,6 @@ export class FeatureEngineeringService {
     return ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100;
   }
 
-  private calculateWilliamsR(candles: CandleData[], period: number = 14): number {
-    const stochastic = this.calculateStochastic(candles, period);
-    return stochastic - 100;
-  }
-
-  private calculateCCI(candles: CandleData[], period: number = 20): number {
-    if (candles.length < period) return 0;
-
-    const recentCandles = candles.slice(-period);
-    const typicalPrices = recentCandles.map(c => (c.high + c.low + c.close) / 3);
-    const sma = typicalPrices.reduce((sum, tp) => sum + tp, 0) / period;
-    
-    const meanDeviation = typicalPrices.reduce((sum, tp) => sum + Math.abs(tp - sma), 0) / period;
-    const currentTypicalPrice = typicalPrices[typicalPrices.length - 1];
-    
-    if (meanDeviation === 0) return 0;
-    
-    return (currentTypicalPrice - sma) / (0.015 * meanDeviation);
-  }
-
-  private calculateATR(candles: CandleData[], period: number = 14): number {
-    if (candles.length < period + 1) return 0;
-
-    const trueRanges = [];
-    
-    for (let i = 1; i < candles.length; i++) {
-      const current = candles[i];
-      const previous = candles[i - 1];
-      
-      const tr = Math.max(
-        current.high - current.low,
-        Math.abs(current.high - previous.close),
-        Math.abs(current.low - previous.close)
-      );
-      
-      trueRanges.push(tr);
-    }
-    
-    const recentTR = trueRanges.slice(-period);
-    return recentTR.reduce((sum, tr) => sum + tr, 0) / period;
-  }
-
   private calculateVolatility(candles: CandleData[], period: number = 20): number {
     if (candles.length < period) return 0;
 
@@ -286,47 +246,27 @@ export class FeatureEngineeringService {
     return avgVolume === 0 ? 1 : currentVolume / avgVolume;
   }
 
-  private calculateOBV(candles: CandleData[]): number {
-    let obv = 0;
-    
-    for (let i = 1; i < candles.length; i++) {
-      if (candles[i].close > candles[i - 1].close) {
-        obv += candles[i].volume;
-      } else if (candles[i].close < candles[i - 1].close) {
-        obv -= candles[i].volume;
-      }
-    }
-    
-    return obv;
-  }
+  private detectPatterns(candles: CandleData[]): Pick<TechnicalFeatures, 'doji' | 'hammer' | 'engulfing'> {
+    const ids = candlestickPatternRegistry.detectAt(candles, candles.length - 1).map(match => match.id);
 
-  private isDoji(candle: CandleData): boolean {
-    const bodySize = Math.abs(candle.close - candle.open);
-    const totalRange = candle.high - candle.low;
-    
-    return totalRange > 0 && (bodySize / totalRange) < 0.1;
+    return {
+      doji: ids.includes('doji'),
+      hammer: ids.includes('hammer'),
+      engulfing: ids.includes('bullish_engulfing') || ids.includes('bearish_engulfing')
+    };
   }
 
-  private isHammer(candle: CandleData): boolean {
-    const bodySize = Math.abs(candle.close - candle.open);
-    const lowerShadow = Math.min(candle.open, candle.close) - candle.low;
-    const upperShadow = candle.high - Math.max(candle.open, candle.close);
-    
-    return lowerShadow > bodySize * 2 && upperShadow < bodySize * 0.5;
-  }
+  /**
+   * Ближайшие уровни из кластеров точек разворота; без подходящего уровня -
+   * квантили минимумов и максимумов окна
+   */
+  private findSupportResistance(candles: CandleData[]): Pick<TechnicalFeatures, 'supportLevel' | 'resistanceLevel'> {
+    const { nearestSupport, nearestResistance } = supportResistanceService.analyze(candles);
 
-  private isEngulfing(candles: CandleData[]): boolean {
-    if (candles.length < 2) return false;
-    
-    const prev = candles[candles.length - 2];
-    const current = candles[candles.length - 1];
-    
-    const prevBodySize = Math.abs(prev.close - prev.open);
-    const currentBodySize = Math.abs(current.close - current.open);
-    
-    return currentBodySize > prevBodySize * 1.5 &&
-           ((prev.close < prev.open && current.close > current.open) ||
-            (prev.close > prev.open && current.close < current.open));
+    return {
+      supportLevel: nearestSupport?.level ?? this.findSupportLevel(candles),
+      resistanceLevel: nearestResistance?.level ?? this.findResistanceLevel(candles)
+    };
   }
 
   private findSupportLevel(candles: CandleData[]): number {
@@ -373,6 +313,13 @@ export class FeatureEngineeringService {
   }
 
   private classifyMarketRegime(candles: CandleData[]): 'trending' | 'ranging' | 'volatile' {
+    // Обученная модель режимов точнее порогов; пороги остаются запасным вариантом
+    const label = marketRegimeService.isFitted() ? marketRegimeService.currentRegime(candles) : null;
+    if (label) {
+      if (label.regime === 'high_volatility') return 'volatile';
+      return label.regime === 'ranging' ? 'ranging' : 'trending';
+    }
+
     const volatility = this.calculateVolatility(candles);
     const trendStrength = this.calculateTrendStrength(candles);
     
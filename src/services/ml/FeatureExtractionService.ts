@@ -6,7 +6,12 @@
 
 import { CandleData } from '@/types/session';
 import { TechnicalIndicatorService } from '../indicators/TechnicalIndicators';
-import { PatternAnalysisService } from '../patterns/PatternAnalysis';
+import { PatternAnalysisService, PatternSignals } from '../patterns/PatternAnalysis';
+import { candlestickPatternRegistry } from '../patterns/CandlestickPatternRegistry';
+import { indicatorFactory } from '../indicators/indicator-factory';
+import { computeAlignedIndicator } from '../indicators/timeframe/aligned-indicator';
+import { TimeframeValue } from '../indicators/timeframe/timeframe-resampler';
+import { volumeProfileService } from '../analytics/VolumeProfileService';
 import { logger } from '@/utils/logger';
 import { errorHandler, ErrorCategory } from '@/utils/errorHandler';
 
@@ -16,6 +21,10 @@ export interface FeatureSet {
   volume: number[];
   price: number[];
   momentum: number[];
+  /** Features from higher timeframes, empty unless configured */
+  crossTimeframe?: number[];
+  /** Position relative to the rolling volume profile, empty unless configured */
+  volumeProfile?: number[];
   timestamp: number;
   candleIndex: number;
 }
@@ -26,8 +35,32 @@ export interface FeatureExtractionConfig {
   includeMomentum: boolean;
   includePatterns: boolean;
   normalizationMethod: 'minmax' | 'zscore' | 'robust';
+  /** Timeframe of the session candles, required for cross-timeframe features */
+  baseTimeframe?: TimeframeValue;
+  /** Higher timeframes to derive trend features from, e.g. ['1h'] on an M5 session */
+  higherTimeframes?: TimeframeValue[];
+  /** Candles in the rolling volume profile window; volume profile features are skipped when unset */
+  volumeProfileWindow?: number;
 }
 
+// Имена признаков в порядке extract*Features; по ним сверяется схема внешних моделей
+export const TECHNICAL_FEATURE_NAMES = [
+  'rsi', 'macd_line', 'macd_signal', 'macd_histogram', 'stoch_k', 'stoch_d', 'adx', 'bb_width', 'bb_position'
+];
+export const PATTERN_FEATURE_NAMES = [
+  'pattern_strength', 'pattern_reversal', 'pattern_continuation', 'candlestick_pattern', 'pattern_reliability', 'pattern_frequency'
+];
+export const VOLUME_FEATURE_NAMES = ['volume_ratio', 'volume_trend', 'volume_oscillator', 'obv'];
+export const PRICE_FEATURE_NAMES = [
+  'open_close_ratio', 'high_close_ratio', 'low_close_ratio', 'price_velocity', 'trend_strength', 'volatility'
+];
+export const MOMENTUM_FEATURE_NAMES = ['momentum_1', 'momentum_3', 'momentum_5', 'momentum_10', 'acceleration', 'mean_reversion'];
+/** Per higher timeframe, prefixed with htf1_, htf2_, ... in config.higherTimeframes order */
+export const CROSS_TIMEFRAME_FEATURE_NAMES = ['rsi', 'adx', 'di_spread', 'bar_position'];
+export const VOLUME_PROFILE_FEATURE_NAMES = [
+  'vp_value_area_position', 'vp_poc_distance', 'vp_value_area_width', 'vp_in_value_area'
+];
+
 export class FeatureExtractionService {
   private static instance: FeatureExtractionService;
   private featureCache: Map<string, FeatureSet> = new Map();
@@ -86,6 +119,10 @@ export class FeatureExtractionService {
 
       const price = this.extractPriceFeatures(historicalCandles);
       const momentum = config.includeMomentum ? this.extractMomentumFeatures(historicalCandles) : [];
+      const crossTimeframe = this.extractCrossTimeframeFeatures(candles.slice(0, currentIndex + 1), config);
+      const volumeProfile = config.volumeProfileWindow
+        ? volumeProfileService.getFeatures(candles, currentIndex, config.volumeProfileWindow)
+        : [];
 
       const featureSet: FeatureSet = {
         technical,
@@ -93,6 +130,8 @@ export class FeatureExtractionService {
         volume,
         price,
         momentum,
+        crossTimeframe,
+        volumeProfile,
         timestamp: typeof current.timestamp === 'number' ? current.timestamp : Date.now(),
         candleIndex: currentIndex
       };
@@ -205,6 +244,30 @@ export class FeatureExtractionService {
     ];
   }
 
+  /**
+   * Extract higher-timeframe trend features
+   * Only higher-timeframe bars that closed by the current candle are used
+   */
+  private extractCrossTimeframeFeatures(candles: CandleData[], config: FeatureExtractionConfig): number[] {
+    if (!config.baseTimeframe || !config.higherTimeframes?.length) return [];
+
+    const current = candles[candles.length - 1];
+
+    return config.higherTimeframes.flatMap(timeframe => {
+      const options = { baseTimeframe: config.baseTimeframe!, targetTimeframe: timeframe };
+      const rsi = computeAlignedIndicator(candles, indicatorFactory.createRSI({ period: 14 }), options).pop()!;
+      const adx = computeAlignedIndicator(candles, indicatorFactory.createADX({ period: 14 }), options).pop()!;
+      const bar = rsi.bar;
+
+      return [
+        rsi.isValid ? this.normalize(rsi.value!, 0, 100) : 0,
+        adx.isValid ? this.normalize(adx.value!.adx, 0, 100) : 0,
+        adx.isValid ? this.normalize(adx.value!.plusDI - adx.value!.minusDI, -50, 50) : 0,
+        bar ? this.normalize(this.calculateBBPosition(current.close, { upper: bar.high, lower: bar.low }), 0, 1) : 0
+      ];
+    });
+  }
+
   /**
    * Flatten features into a single vector for ML model
    */
@@ -214,7 +277,9 @@ export class FeatureExtractionService {
       ...features.pattern,
       ...features.volume,
       ...features.price,
-      ...features.momentum
+      ...features.momentum,
+      ...(features.crossTimeframe || []),
+      ...(features.volumeProfile || [])
     ];
 
     // Pad or truncate to target size
@@ -228,11 +293,44 @@ export class FeatureExtractionService {
     return flattened;
   }
 
+  /**
+   * Feature name for every slot of flattenFeatures(features, targetSize).
+   * Group sizes are taken from the feature set, so disabled groups shift the slots
+   */
+  flattenFeatureNames(features: FeatureSet, targetSize: number = 30): string[] {
+    const higherTimeframes = Math.ceil((features.crossTimeframe?.length ?? 0) / CROSS_TIMEFRAME_FEATURE_NAMES.length);
+    const crossTimeframeNames = Array.from({ length: higherTimeframes }, (_, i) =>
+      CROSS_TIMEFRAME_FEATURE_NAMES.map(name => `htf${i + 1}_${name}`)).flat();
+
+    const names = [
+      ...TECHNICAL_FEATURE_NAMES.slice(0, features.technical.length),
+      ...PATTERN_FEATURE_NAMES.slice(0, features.pattern.length),
+      ...VOLUME_FEATURE_NAMES.slice(0, features.volume.length),
+      ...PRICE_FEATURE_NAMES.slice(0, features.price.length),
+      ...MOMENTUM_FEATURE_NAMES.slice(0, features.momentum.length),
+      ...crossTimeframeNames.slice(0, features.crossTimeframe?.length ?? 0),
+      ...VOLUME_PROFILE_FEATURE_NAMES.slice(0, features.volumeProfile?.length ?? 0)
+    ];
+
+    if (names.length >= targetSize) {
+      return names.slice(0, targetSize);
+    }
+    return [...names, ...Array.from({ length: targetSize - names.length }, (_, i) => `padding_${i}`)];
+  }
+
   /**
    * Normalize features using different methods
    */
   private normalizeFeatures(features: FeatureSet, method: 'minmax' | 'zscore' | 'robust'): void {
-    const arrays = [features.technical, features.pattern, features.volume, features.price, features.momentum];
+    const arrays = [
+      features.technical,
+      features.pattern,
+      features.volume,
+      features.price,
+      features.momentum,
+      features.crossTimeframe || [],
+      features.volumeProfile || []
+    ];
     
     arrays.forEach(array => {
       if (array.length === 0) return;
@@ -297,22 +395,16 @@ export class FeatureExtractionService {
   }
 
   private encodePattern(pattern: string | null): number {
-    const patterns: { [key: string]: number } = {
-      'Doji': 0.1, 'Hammer': 0.2, 'Shooting Star': 0.3,
-      'Bullish Engulfing': 0.4, 'Bearish Engulfing': 0.5,
-      'Three White Soldiers': 0.6, 'Three Black Crows': 0.7
-    };
-    return pattern ? (patterns[pattern] || 0) : 0;
+    return candlestickPatternRegistry.encode(pattern);
   }
 
-  private calculatePatternReliability(patterns: any): number {
-    // Implementation for pattern reliability calculation
+  private calculatePatternReliability(patterns: PatternSignals): number {
     return patterns.strength * 0.8 + (patterns.isReversal ? 0.2 : 0);
   }
 
-  private calculatePatternFrequency(patterns: any): number {
-    // Implementation for pattern frequency calculation
-    return patterns.candlestickPattern ? 0.5 : 0;
+  private calculatePatternFrequency(patterns: PatternSignals): number {
+    // Several patterns on the same candle confirm each other
+    return Math.min(1, patterns.matches.length / 3);
   }
 
   private calculateVolumeTrend(volumes: number[]): number {
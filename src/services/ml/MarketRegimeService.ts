@@ -0,0 +1,354 @@
+/**
+ * Market Regime Service
+ * Four-state Gaussian HMM over rolling return drift and volatility, fitted on
+ * stored session history. Labels every candle with its most likely regime and
+ * the probabilities of the regime on the next candle.
+ */
+
+import { CandleData } from '@/types/session';
+import { SessionCandleSource } from '../patterns/PatternStatisticsService';
+import { GaussianHMM, GaussianHMMFitOptions, GaussianHMMParams } from './regime/gaussian-hmm';
+
+export type MarketRegime = 'trending_up' | 'trending_down' | 'ranging' | 'high_volatility';
+
+export const MARKET_REGIMES: MarketRegime[] = ['trending_up', 'trending_down', 'ranging', 'high_volatility'];
+
+export const MARKET_REGIME_NAMES: Record<MarketRegime, string> = {
+  trending_up: 'Восходящий тренд',
+  trending_down: 'Нисходящий тренд',
+  ranging: 'Боковое движение',
+  high_volatility: 'Высокая волатильность'
+};
+
+export type RegimeProbabilities = Record<MarketRegime, number>;
+
+export interface RegimeLabel {
+  /** Position in the classified array */
+  index: number;
+  candleIndex: number;
+  regime: MarketRegime;
+  /** Filtered probabilities given candles up to and including this one */
+  probabilities: RegimeProbabilities;
+  /** Probabilities of the regime on the next candle */
+  nextProbabilities: RegimeProbabilities;
+}
+
+export interface RegimeModel {
+  hmm: GaussianHMMParams;
+  /** Regime of each hidden state */
+  stateRegimes: MarketRegime[];
+  /** Observation standardization fitted on the training data */
+  featureMean: number[];
+  featureStd: number[];
+  window: number;
+  trainedOn: number;
+  logLikelihood: number;
+}
+
+export interface RegimePerformance {
+  regime: MarketRegime;
+  trades: number;
+  /** Share of winning trades, 0-1 */
+  winRate: number;
+  totalPnl: number;
+  /** Mean pnlPercent of the trades */
+  avgReturn: number;
+}
+
+export interface MarketRegimeConfig {
+  /** Candles in the rolling drift/volatility window */
+  window: number;
+  /** Candles needed in a session for it to be used in fitting */
+  minSessionCandles: number;
+  fit: Partial<GaussianHMMFitOptions>;
+}
+
+export class RegimeError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'RegimeError';
+  }
+}
+
+const DEFAULT_CONFIG: MarketRegimeConfig = {
+  window: 10,
+  minSessionCandles: 30,
+  fit: {}
+};
+
+const STATE_COUNT = 4;
+
+/** Стартовые центры состояний в стандартизированных признаках [дрейф, log-волатильность] */
+const INITIAL_CENTERS: Record<MarketRegime, number[]> = {
+  trending_up: [1, 0],
+  trending_down: [-1, 0],
+  ranging: [0, -0.5],
+  high_volatility: [0, 1.5]
+};
+
+const mapProbabilities = (probabilities: number[], stateRegimes: MarketRegime[]): RegimeProbabilities => {
+  const result = { trending_up: 0, trending_down: 0, ranging: 0, high_volatility: 0 };
+  probabilities.forEach((p, state) => {
+    result[stateRegimes[state]] += p;
+  });
+  return result;
+};
+
+const mostLikely = (probabilities: RegimeProbabilities): MarketRegime =>
+  MARKET_REGIMES.reduce((best, regime) => (probabilities[regime] > probabilities[best] ? regime : best));
+
+/**
+ * Win rate and P&L of trades grouped by the regime they were opened in.
+ * Trades without a regime are left out.
+ */
+export function summarizeByRegime(
+  trades: Array<{ regime?: MarketRegime; pnl: number; pnlPercent: number }>
+): RegimePerformance[] {
+  return MARKET_REGIMES.map(regime => {
+    const inRegime = trades.filter(t => t.regime === regime);
+    const wins = inRegime.filter(t => t.pnl > 0).length;
+    return {
+      regime,
+      trades: inRegime.length,
+      winRate: inRegime.length > 0 ? wins / inRegime.length : 0,
+      totalPnl: inRegime.reduce((sum, t) => sum + t.pnl, 0),
+      avgReturn: inRegime.length > 0 ? inRegime.reduce((sum, t) => sum + t.pnlPercent, 0) / inRegime.length : 0
+    };
+  }).filter(p => p.trades > 0);
+}
+
+export class MarketRegimeService {
+  private readonly config: MarketRegimeConfig;
+  private model: RegimeModel | null = null;
+  private hmm: GaussianHMM | null = null;
+  private fitPromise: Promise<number> | null = null;
+
+  constructor(config: Partial<MarketRegimeConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  isFitted(): boolean {
+    return this.model !== null;
+  }
+
+  /**
+   * Fit the model on candle sequences, one per session.
+   * Sequences shorter than `minSessionCandles` are skipped.
+   */
+  fit(sequences: CandleData[][]): RegimeModel {
+    const { window } = this.config;
+    const raw = sequences
+      .filter(candles => this.isUsable(candles))
+      .map(candles => this.rawFeatures(candles, window))
+      .filter(features => features.length > 1);
+
+    const all = raw.flat();
+    if (all.length < STATE_COUNT * 2) {
+      throw new RegimeError('Недостаточно свечей для обучения модели режимов', 'INSUFFICIENT_DATA');
+    }
+
+    const featureMean = [0, 1].map(d => all.reduce((sum, x) => sum + x[d], 0) / all.length);
+    const featureStd = [0, 1].map(d =>
+      Math.sqrt(all.reduce((sum, x) => sum + (x[d] - featureMean[d]) ** 2, 0) / all.length) || 1
+    );
+    const standardized = raw.map(features =>
+      features.map(x => x.map((value, d) => (value - featureMean[d]) / featureStd[d]))
+    );
+
+    const { params, logLikelihood } = GaussianHMM.fit(standardized, this.initialParams(standardized.flat()), this.config.fit);
+
+    this.setModel({
+      hmm: params,
+      stateRegimes: this.assignRegimes(params.means),
+      featureMean,
+      featureStd,
+      window,
+      trainedOn: all.length,
+      logLikelihood
+    });
+    return this.model!;
+  }
+
+  /**
+   * Fit on stored sessions, optionally only those of one pair and timeframe
+   * @returns Number of sessions used
+   */
+  async fitSessions(source: SessionCandleSource, filter: { pair?: string; timeframe?: string } = {}): Promise<number> {
+    const sessions = (await source.loadSessions()).filter(session =>
+      (!filter.pair || session.pair === filter.pair) && (!filter.timeframe || session.timeframe === filter.timeframe)
+    );
+
+    const sequences: CandleData[][] = [];
+    for (const session of sessions) {
+      try {
+        const { candles } = await source.loadSessionWithCandles(session.id);
+        sequences.push([...candles].sort((a, b) => a.candle_index - b.candle_index));
+      } catch (error) {
+        console.warn(`Market regime: failed to load session ${session.id}:`, error);
+      }
+    }
+
+    const usable = sequences.filter(candles => this.isUsable(candles));
+    this.fit(usable);
+    return usable.length;
+  }
+
+  /**
+   * Fit on stored sessions once; concurrent and later callers share the first fit
+   */
+  ensureFitted(source: SessionCandleSource): Promise<number> {
+    if (!this.fitPromise) {
+      this.fitPromise = this.fitSessions(source).catch(error => {
+        this.fitPromise = null;
+        throw error;
+      });
+    }
+    return this.fitPromise;
+  }
+
+  /**
+   * Regime of every candle after the warm-up window.
+   * Labels are filtered, so a label never depends on later candles.
+   */
+  classify(candles: CandleData[]): RegimeLabel[] {
+    const { model, hmm } = this.requireModel();
+    const features = this.rawFeatures(candles, model.window);
+    if (features.length === 0) return [];
+
+    const observations = features.map(x => x.map((value, d) => (value - model.featureMean[d]) / model.featureStd[d]));
+    const filtered = hmm.filter(observations);
+
+    return filtered.map((stateProbabilities, i) => {
+      const index = i + model.window;
+      const probabilities = mapProbabilities(stateProbabilities, model.stateRegimes);
+      return {
+        index,
+        candleIndex: candles[index].candle_index,
+        regime: mostLikely(probabilities),
+        probabilities,
+        nextProbabilities: mapProbabilities(hmm.predictNext(stateProbabilities), model.stateRegimes)
+      };
+    });
+  }
+
+  /**
+   * Label of the last candle, or null while the window is still warming up
+   */
+  currentRegime(candles: CandleData[]): RegimeLabel | null {
+    const labels = this.classify(candles);
+    return labels.length > 0 ? labels[labels.length - 1] : null;
+  }
+
+  /**
+   * P(next regime | current regime)
+   */
+  getTransitionMatrix(): Record<MarketRegime, RegimeProbabilities> {
+    const { model } = this.requireModel();
+    const matrix = {} as Record<MarketRegime, RegimeProbabilities>;
+    model.hmm.transition.forEach((row, state) => {
+      matrix[model.stateRegimes[state]] = mapProbabilities(row, model.stateRegimes);
+    });
+    return matrix;
+  }
+
+  getModel(): RegimeModel | null {
+    return this.model;
+  }
+
+  setModel(model: RegimeModel): void {
+    if (model.hmm.initial.length !== model.stateRegimes.length) {
+      throw new RegimeError('Число состояний модели не совпадает с числом режимов', 'INVALID_MODEL');
+    }
+    this.model = model;
+    this.hmm = new GaussianHMM(model.hmm);
+  }
+
+  reset(): void {
+    this.model = null;
+    this.hmm = null;
+    this.fitPromise = null;
+  }
+
+  private isUsable(candles: CandleData[]): boolean {
+    return candles.length >= Math.max(this.config.minSessionCandles, this.config.window + 2);
+  }
+
+  private requireModel(): { model: RegimeModel; hmm: GaussianHMM } {
+    if (!this.model || !this.hmm) {
+      throw new RegimeError('Модель режимов не обучена', 'NOT_FITTED');
+    }
+    return { model: this.model, hmm: this.hmm };
+  }
+
+  /**
+   * [mean log return, log of log-return volatility] over the trailing window,
+   * one row per candle from index `window` on
+   */
+  private rawFeatures(candles: CandleData[], window: number): number[][] {
+    const returns = candles.map((candle, i) =>
+      i > 0 && candles[i - 1].close > 0 && candle.close > 0 ? Math.log(candle.close / candles[i - 1].close) : 0
+    );
+    const features: number[][] = [];
+
+    for (let i = window; i < candles.length; i++) {
+      const slice = returns.slice(i - window + 1, i + 1);
+      const mean = slice.reduce((sum, r) => sum + r, 0) / window;
+      const variance = slice.reduce((sum, r) => sum + (r - mean) ** 2, 0) / window;
+      features.push([mean, Math.log(Math.sqrt(variance) + 1e-10)]);
+    }
+
+    return features;
+  }
+
+  /**
+   * Deterministic start: states begin at the means of threshold-labelled
+   * observations, or at fixed centers when a label group is empty
+   */
+  private initialParams(observations: number[][]): GaussianHMMParams {
+    const groups: Record<MarketRegime, number[][]> = { trending_up: [], trending_down: [], ranging: [], high_volatility: [] };
+    observations.forEach(([drift, volatility]) => {
+      if (volatility > 1) groups.high_volatility.push([drift, volatility]);
+      else if (drift > 0.5) groups.trending_up.push([drift, volatility]);
+      else if (drift < -0.5) groups.trending_down.push([drift, volatility]);
+      else groups.ranging.push([drift, volatility]);
+    });
+
+    const means = MARKET_REGIMES.map(regime => {
+      const group = groups[regime];
+      return group.length > 0
+        ? [0, 1].map(d => group.reduce((sum, x) => sum + x[d], 0) / group.length)
+        : [...INITIAL_CENTERS[regime]];
+    });
+    const stay = 0.9;
+
+    return {
+      initial: new Array(STATE_COUNT).fill(1 / STATE_COUNT),
+      transition: MARKET_REGIMES.map((_, i) =>
+        MARKET_REGIMES.map((__, j) => (i === j ? stay : (1 - stay) / (STATE_COUNT - 1)))
+      ),
+      means,
+      variances: MARKET_REGIMES.map(() => [1, 1])
+    };
+  }
+
+  /**
+   * Highest volatility state is high_volatility; of the rest the highest
+   * drift trends up, the lowest trends down and the remaining one ranges
+   */
+  private assignRegimes(means: number[][]): MarketRegime[] {
+    const states = means.map((_, state) => state);
+    const volatile = states.reduce((best, s) => (means[s][1] > means[best][1] ? s : best));
+    const rest = states.filter(s => s !== volatile).sort((a, b) => means[b][0] - means[a][0]);
+
+    const regimes = new Array<MarketRegime>(means.length);
+    regimes[volatile] = 'high_volatility';
+    regimes[rest[0]] = 'trending_up';
+    regimes[rest[rest.length - 1]] = 'trending_down';
+    rest.slice(1, -1).forEach(s => {
+      regimes[s] = 'ranging';
+    });
+    return regimes;
+  }
+}
+
+export const marketRegimeService = new MarketRegimeService();
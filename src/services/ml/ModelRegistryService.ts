@@ -0,0 +1,323 @@
+/**
+ * Model Registry Service
+ * Versioned store of trained model artifacts. Every model name has semver
+ * versions, at most one of them in production; promote and rollback move that
+ * pointer. Artifacts are kept in IndexedDB and mirrored to the model_registry
+ * table, so trained models survive reloads and can be loaded on any device.
+ */
+
+import { logger } from '@/utils/logger';
+import type { OnnxInferenceService } from './OnnxInferenceService';
+import { FEATURE_MANIFEST_VERSION, FeatureSchemaManifest } from './onnx/feature-manifest';
+import { exportNetworkToOnnx } from './onnx/onnx-export';
+import { PREDICTION_ENGINE_INPUT_SIZE, predictionEngineService, PredictionEngineService } from './PredictionEngineService';
+import {
+  artifactId,
+  bumpVersion,
+  compareVersions,
+  ModelArtifact,
+  ModelArtifactInput,
+  ModelRegistryError,
+  validateArtifact,
+  VersionBump
+} from './registry/ModelArtifact';
+import { createModelRegistryStore, ModelRegistryStore } from './registry/ModelRegistryStore';
+import { SupabaseModelRegistryStore } from './registry/SupabaseModelRegistryStore';
+
+type PredictionEngineTarget = Pick<PredictionEngineService, 'addModel'>;
+type OnnxTarget = Pick<OnnxInferenceService, 'loadModel'>;
+
+const byVersionDesc = (a: ModelArtifact, b: ModelArtifact) => compareVersions(b.version, a.version);
+
+const decodeBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const featureManifestOf = (artifact: ModelArtifact): FeatureSchemaManifest | undefined =>
+  artifact.featureSchema.names
+    ? {
+        version: FEATURE_MANIFEST_VERSION,
+        source: artifact.featureSchema.source,
+        features: artifact.featureSchema.names,
+        ...(artifact.scaler ? { scaler: artifact.scaler } : {})
+      }
+    : undefined;
+
+export class ModelRegistryService {
+  private readonly artifacts = new Map<string, ModelArtifact>();
+  private loadPromise: Promise<void> | null = null;
+  private lastTimestamp = 0;
+
+  /**
+   * @param local IndexedDB (in-memory outside the browser)
+   * @param remote server-side copy; failures there are logged and never block local writes
+   */
+  constructor(
+    private readonly local: ModelRegistryStore,
+    private readonly remote: ModelRegistryStore | null = null
+  ) {}
+
+  /**
+   * Reads both stores once; for the same id the more recently updated artifact wins
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadStores().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  async register(input: ModelArtifactInput, bump: VersionBump = 'minor'): Promise<ModelArtifact> {
+    await this.load();
+
+    const latest = this.versionsOf(input.name)[0]?.version ?? null;
+    const version = input.version ?? bumpVersion(latest, bump);
+    if (this.artifacts.has(artifactId(input.name, version))) {
+      throw new ModelRegistryError(`Версия ${version} модели ${input.name} уже зарегистрирована`, 'VERSION_EXISTS');
+    }
+
+    const now = this.timestamp();
+    const artifact: ModelArtifact = {
+      ...input,
+      id: artifactId(input.name, version),
+      version,
+      status: 'candidate',
+      createdAt: now,
+      updatedAt: now
+    };
+    validateArtifact(artifact);
+
+    await this.persist(artifact);
+    logger.info('Model registered', { modelId: artifact.id, format: artifact.format });
+    return artifact;
+  }
+
+  async list(name?: string): Promise<ModelArtifact[]> {
+    await this.load();
+    return name ? this.versionsOf(name) : Array.from(this.artifacts.values()).sort((a, b) =>
+      a.name.localeCompare(b.name) || byVersionDesc(a, b));
+  }
+
+  /**
+   * A specific version, or the production version, or the latest one
+   */
+  async get(name: string, version?: string): Promise<ModelArtifact | null> {
+    await this.load();
+    if (version) return this.artifacts.get(artifactId(name, version)) ?? null;
+
+    const versions = this.versionsOf(name);
+    return versions.find(artifact => artifact.status === 'production') ?? versions[0] ?? null;
+  }
+
+  async getProduction(name: string): Promise<ModelArtifact | null> {
+    await this.load();
+    return this.versionsOf(name).find(artifact => artifact.status === 'production') ?? null;
+  }
+
+  /**
+   * Makes a version the production one; the previous production version is archived
+   */
+  async promote(name: string, version: string): Promise<ModelArtifact> {
+    const artifact = await this.require(name, version);
+    const current = await this.getProduction(name);
+    if (current?.id === artifact.id) return artifact;
+
+    const now = this.timestamp();
+    if (current) {
+      await this.persist({ ...current, status: 'archived', updatedAt: now });
+    }
+    const promoted: ModelArtifact = { ...artifact, status: 'production', promotedAt: now, updatedAt: now };
+    await this.persist(promoted);
+
+    logger.info('Model promoted', { modelId: promoted.id, previous: current?.id });
+    return promoted;
+  }
+
+  /**
+   * Returns production to the version promoted before the current one.
+   * The previous version keeps its promotedAt, so repeated rollbacks walk further back
+   */
+  async rollback(name: string): Promise<ModelArtifact> {
+    const current = await this.getProduction(name);
+    if (!current?.promotedAt) {
+      throw new ModelRegistryError(`У модели ${name} нет версии в продакшене`, 'NO_PRODUCTION_VERSION');
+    }
+
+    const previous = this.versionsOf(name)
+      .filter(artifact => artifact.id !== current.id && artifact.promotedAt && artifact.promotedAt < current.promotedAt!)
+      .sort((a, b) => b.promotedAt!.localeCompare(a.promotedAt!))[0];
+    if (!previous) {
+      throw new ModelRegistryError(`Нет версии модели ${name} для отката`, 'NO_PREVIOUS_VERSION');
+    }
+
+    const now = this.timestamp();
+    await this.persist({ ...current, status: 'archived', promotedAt: undefined, updatedAt: now });
+    const restored: ModelArtifact = { ...previous, status: 'production', updatedAt: now };
+    await this.persist(restored);
+
+    logger.info('Model rolled back', { from: current.id, to: restored.id });
+    return restored;
+  }
+
+  async remove(name: string, version: string): Promise<void> {
+    const artifact = await this.require(name, version);
+    if (artifact.status === 'production') {
+      throw new ModelRegistryError('Нельзя удалить версию в продакшене — сначала продвиньте другую', 'VERSION_IN_PRODUCTION');
+    }
+
+    this.artifacts.delete(artifact.id);
+    await this.local.delete(artifact.id);
+    await this.mirror(remote => remote.delete(artifact.id));
+  }
+
+  /**
+   * Adds an MLP version to the PredictionEngineService ensemble under the artifact id
+   */
+  async loadIntoPredictionEngine(
+    name: string,
+    version?: string,
+    engine: PredictionEngineTarget = predictionEngineService
+  ): Promise<ModelArtifact> {
+    const artifact = await this.requireLoadable(name, version);
+    if (artifact.format !== 'network-weights' || !artifact.weights) {
+      throw new ModelRegistryError('В ансамбль загружаются только веса сетей NetworkTrainingService', 'UNSUPPORTED_FORMAT');
+    }
+    if (artifact.featureSchema.inputSize !== PREDICTION_ENGINE_INPUT_SIZE) {
+      throw new ModelRegistryError(
+        `Модель ожидает ${artifact.featureSchema.inputSize} признаков, ансамбль подает ${PREDICTION_ENGINE_INPUT_SIZE}`,
+        'SCHEMA_MISMATCH'
+      );
+    }
+
+    engine.addModel(artifact.id, artifact.weights, artifact.metrics.validationAccuracy ?? artifact.metrics.accuracy, {
+      version: artifact.version,
+      scaler: artifact.scaler
+    });
+    return artifact;
+  }
+
+  /**
+   * Creates an ONNX Runtime session for an ONNX version; onnxruntime-web is loaded on first use
+   */
+  async loadIntoOnnx(name: string, version?: string, target?: OnnxTarget): Promise<ModelArtifact> {
+    const artifact = await this.requireLoadable(name, version);
+    if (artifact.format !== 'onnx' || !artifact.onnx) {
+      throw new ModelRegistryError('Артефакт не содержит ONNX-модели', 'UNSUPPORTED_FORMAT');
+    }
+
+    const onnx = target ?? (await import('./OnnxInferenceService')).onnxInferenceService;
+    const scaler = artifact.scaler;
+    await onnx.loadModel({
+      name: artifact.id,
+      version: artifact.version,
+      modelPath: artifact.onnx.modelPath ?? '',
+      modelData: artifact.onnx.modelBase64 ? decodeBase64(artifact.onnx.modelBase64) : undefined,
+      inputShape: artifact.onnx.inputShape,
+      outputShape: artifact.onnx.outputShape,
+      scalerParams: scaler
+        ? scaler.method === 'zscore'
+          ? { mean: scaler.mean, std: scaler.std }
+          : { min: scaler.min, max: scaler.max }
+        : undefined,
+      featureManifest: featureManifestOf(artifact)
+    });
+    return artifact;
+  }
+
+  /**
+   * ONNX file of an MLP version with its feature names and scaler embedded,
+   * e.g. to serve it with onnxruntime outside the browser
+   */
+  async exportToOnnx(name: string, version?: string): Promise<Uint8Array> {
+    const artifact = await this.requireLoadable(name, version);
+    if (artifact.format !== 'network-weights' || !artifact.weights) {
+      throw new ModelRegistryError('В ONNX экспортируются только веса сетей NetworkTrainingService', 'UNSUPPORTED_FORMAT');
+    }
+    const manifest = featureManifestOf(artifact);
+    if (!manifest) {
+      throw new ModelRegistryError(`У модели ${artifact.id} нет имен признаков для манифеста`, 'SCHEMA_MISMATCH');
+    }
+
+    return exportNetworkToOnnx(artifact.weights, manifest, {
+      graphName: artifact.name,
+      docString: artifact.description,
+      metadata: { model_name: artifact.name, model_version: artifact.version }
+    });
+  }
+
+  private async loadStores(): Promise<void> {
+    const localArtifacts = await this.local.getAll();
+    let remoteArtifacts: ModelArtifact[] | null = null;
+    if (this.remote) {
+      try {
+        remoteArtifacts = await this.remote.getAll();
+      } catch (error) {
+        logger.warn('Remote model registry unavailable, using local copy', { error });
+      }
+    }
+
+    [...localArtifacts, ...(remoteArtifacts ?? [])].forEach(artifact => {
+      const known = this.artifacts.get(artifact.id);
+      if (!known || artifact.updatedAt > known.updatedAt) {
+        this.artifacts.set(artifact.id, artifact);
+      }
+    });
+
+    // Версии с сервера сохраняются локально, локальные без серверной копии — на сервер
+    const localVersions = new Map(localArtifacts.map(artifact => [artifact.id, artifact.updatedAt]));
+    const remoteVersions = new Map((remoteArtifacts ?? []).map(artifact => [artifact.id, artifact.updatedAt]));
+    for (const artifact of this.artifacts.values()) {
+      if (localVersions.get(artifact.id) !== artifact.updatedAt) await this.local.put(artifact);
+      if (remoteArtifacts && remoteVersions.get(artifact.id) !== artifact.updatedAt) {
+        await this.mirror(remote => remote.put(artifact));
+      }
+    }
+  }
+
+  /**
+   * Strictly increasing ISO time, so promotions in the same millisecond stay ordered
+   */
+  private timestamp(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+
+  private versionsOf(name: string): ModelArtifact[] {
+    return Array.from(this.artifacts.values()).filter(artifact => artifact.name === name).sort(byVersionDesc);
+  }
+
+  private async require(name: string, version: string): Promise<ModelArtifact> {
+    const artifact = await this.get(name, version);
+    if (!artifact) {
+      throw new ModelRegistryError(`Модель ${artifactId(name, version)} не найдена`, 'NOT_FOUND');
+    }
+    return artifact;
+  }
+
+  private async requireLoadable(name: string, version?: string): Promise<ModelArtifact> {
+    const artifact = version ? await this.require(name, version) : await this.get(name);
+    if (!artifact) {
+      throw new ModelRegistryError(`Модель ${name} не найдена`, 'NOT_FOUND');
+    }
+    return artifact;
+  }
+
+  private async persist(artifact: ModelArtifact): Promise<void> {
+    this.artifacts.set(artifact.id, artifact);
+    await this.local.put(artifact);
+    await this.mirror(remote => remote.put(artifact));
+  }
+
+  private async mirror(operation: (remote: ModelRegistryStore) => Promise<void>): Promise<void> {
+    if (!this.remote) return;
+    try {
+      await operation(this.remote);
+    } catch (error) {
+      logger.warn('Failed to mirror model registry change', { error });
+    }
+  }
+}
+
+export const modelRegistryService = new ModelRegistryService(createModelRegistryStore(), new SupabaseModelRegistryStore());
@@ -1,4 +1,11 @@
 import { CandleData } from '@/types/session';
+import {
+  createTimeSeriesFolds,
+  crossValidate,
+  CrossValidationOptions,
+  CrossValidationResult,
+  forwardLabelSpans
+} from './validation/time-series-cv';
 
 export interface TrainingData {
   features: number[][];
@@ -22,6 +29,27 @@ export interface TrainingConfig {
   earlyStoppingPatience: number;
 }
 
+/**
+ * Модель для кросс-валидации: обучается на признаках и метках фолда, возвращает P(рост)
+ */
+export interface TrainingDataLearner<M> {
+  fit(features: number[][], labels: number[], weights?: number[]): M | Promise<M>;
+  predict(model: M, features: number[]): number;
+}
+
+export interface TrainingDataFold {
+  fold: number;
+  train: TrainingData;
+  test: TrainingData;
+  purged: number;
+  embargoed: number;
+}
+
+export interface TrainingDataCrossValidationOptions extends Partial<CrossValidationOptions> {
+  /** Через сколько примеров становится известна метка; в prepareTrainingData — через один */
+  labelHorizon?: number;
+}
+
 export class ModelTrainingService {
   private defaultConfig: TrainingConfig = {
     epochs: 100,
@@ -199,6 +227,52 @@ export class ModelTrainingService {
     };
   }
 
+  /**
+   * Разбивает выборку на фолды временной кросс-валидации.
+   * Обучающие примеры, чьи метки пересекаются с тестовым блоком, вычищаются
+   */
+  createFolds(trainingData: TrainingData, options: TrainingDataCrossValidationOptions = {}): TrainingDataFold[] {
+    const { labelHorizon = 1, ...cvOptions } = options;
+    const spans = forwardLabelSpans(trainingData.labels.map((_, i) => i), labelHorizon);
+
+    return createTimeSeriesFolds(spans, cvOptions).map(fold => ({
+      fold: fold.index,
+      train: this.subset(trainingData, fold.train),
+      test: this.subset(trainingData, fold.test),
+      purged: fold.purged,
+      embargoed: fold.embargoed
+    }));
+  }
+
+  /**
+   * Кросс-валидация модели с метриками по каждому фолду
+   */
+  async crossValidate<M>(
+    trainingData: TrainingData,
+    learner: TrainingDataLearner<M>,
+    options: TrainingDataCrossValidationOptions = {}
+  ): Promise<CrossValidationResult> {
+    const { labelHorizon = 1, ...cvOptions } = options;
+    const indices = trainingData.labels.map((_, i) => i);
+
+    return crossValidate(indices, forwardLabelSpans(indices, labelHorizon), {
+      fit: train => {
+        const subset = this.subset(trainingData, train);
+        return learner.fit(subset.features, subset.labels, subset.weights);
+      },
+      predict: (model, i) => learner.predict(model, trainingData.features[i]),
+      label: i => trainingData.labels[i]
+    }, cvOptions);
+  }
+
+  private subset(trainingData: TrainingData, indices: number[]): TrainingData {
+    return {
+      features: indices.map(i => trainingData.features[i]),
+      labels: indices.map(i => trainingData.labels[i]),
+      ...(trainingData.weights ? { weights: indices.map(i => trainingData.weights![i]) } : {})
+    };
+  }
+
   /**
    * Валидирует модель на тестовых данных
    */
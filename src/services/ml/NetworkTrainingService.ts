@@ -7,6 +7,15 @@
 import { SecureRandom } from '@/utils/secureCrypto';
 import { logger } from '@/utils/logger';
 import { errorHandler, ErrorCategory } from '@/utils/errorHandler';
+import {
+  chronologicalHoldout,
+  crossValidate,
+  CrossValidationOptions,
+  CrossValidationResult,
+  FoldMetrics,
+  forwardLabelSpans,
+  LabelSpan
+} from './validation/time-series-cv';
 
 export interface NetworkWeights {
   input_hidden: number[][];
@@ -32,6 +41,13 @@ export interface TrainingConfig {
   earlyStoppingPatience: number;
   dropoutRate: number;
   l2Regularization: number;
+  /**
+   * Time in ms after example.timestamp when the target is known; overlapping examples are purged.
+   * Defaults to the next example's timestamp, one prediction interval ahead
+   */
+  labelHorizon?: number;
+  /** Examples after each test block kept out of training in crossValidateNetwork */
+  embargo?: number;
 }
 
 export interface TrainingMetrics {
@@ -112,7 +128,7 @@ export class NetworkTrainingService {
       }
 
       // Split data into training and validation sets
-      const { trainSet, validationSet } = this.splitData(trainingData, config.validationSplit);
+      const { trainSet, validationSet } = this.splitData(trainingData, config);
       
       let currentWeights = this.deepCopyWeights(weights);
       this.bestWeights = this.deepCopyWeights(weights);
@@ -463,17 +479,64 @@ export class NetworkTrainingService {
     return -(target * Math.log(clipped) + (1 - target) * Math.log(1 - clipped));
   }
 
+  /**
+   * Time-series cross-validation of a freshly initialized network per fold.
+   * Each fold is trained with trainNetwork (early stopping on its own holdout) and scored on the test block
+   */
+  async crossValidateNetwork(
+    trainingData: TrainingExample[],
+    hiddenSize: number,
+    config: TrainingConfig = this.getDefaultConfig(),
+    options: Partial<CrossValidationOptions> = {},
+    onFold?: (metrics: FoldMetrics, folds: number) => void
+  ): Promise<CrossValidationResult> {
+    const ordered = [...trainingData].sort((a, b) => a.timestamp - b.timestamp);
+    const inputSize = ordered[0]?.features.length ?? 0;
+
+    const result = await crossValidate(ordered, this.labelSpans(ordered, config), {
+      fit: async train => {
+        const initial = this.initializeNetwork(inputSize, hiddenSize);
+        const trained = await this.trainNetwork(initial, train, config);
+        return trained?.weights ?? initial;
+      },
+      predict: (weights, example) => this.sigmoid(this.feedForward(example.features, weights, 0).output),
+      label: example => example.target
+    }, { embargo: config.embargo ?? 0, ...options }, onFold);
+
+    logger.info('Network cross-validation completed', {
+      scheme: result.scheme,
+      folds: result.folds.length,
+      meanAccuracy: result.mean.accuracy.toFixed(3),
+      stdAccuracy: result.std.accuracy.toFixed(3)
+    });
+    return result;
+  }
+
   // Utility methods
-  private splitData(data: TrainingExample[], validationSplit: number): {
+  private labelSpans(data: TrainingExample[], config: TrainingConfig): LabelSpan[] {
+    if (config.labelHorizon === undefined) {
+      return forwardLabelSpans(data.map(example => example.timestamp), 1);
+    }
+    return data.map(example => ({ start: example.timestamp, end: example.timestamp + config.labelHorizon! }));
+  }
+
+  /**
+   * Chronological split: the latest examples validate, training examples whose
+   * targets resolve inside the validation period are purged
+   */
+  private splitData(data: TrainingExample[], config: TrainingConfig): {
     trainSet: TrainingExample[];
     validationSet: TrainingExample[];
   } {
-    const shuffled = SecureRandom.shuffle([...data]);
-    const splitIndex = Math.floor(shuffled.length * (1 - validationSplit));
-    
+    const ordered = [...data].sort((a, b) => a.timestamp - b.timestamp);
+    const { train, test, purged } = chronologicalHoldout(this.labelSpans(ordered, config), config.validationSplit);
+    if (purged > 0) {
+      logger.debug('Overlapping training examples removed', { purged });
+    }
+
     return {
-      trainSet: shuffled.slice(0, splitIndex),
-      validationSet: shuffled.slice(splitIndex)
+      trainSet: train.map(i => ordered[i]),
+      validationSet: test.map(i => ordered[i])
     };
   }
 
@@ -1,21 +1,48 @@
 import * as ort from 'onnxruntime-web';
 import { CandleData } from '@/types/session';
 import { PredictionResult } from '@/types/trading';
-
-interface ModelConfig {
+import { FeatureSet, featureExtractionService } from './FeatureExtractionService';
+import {
+  checkFeatureSchema,
+  checkManifestAgainstModel,
+  FeatureSchemaManifest,
+  readFeatureManifest,
+  validateFeatureManifest
+} from './onnx/feature-manifest';
+import { OnnxModelError, readOnnxModelInfo } from './onnx/onnx-model';
+import type { FeatureScaler } from './registry/ModelArtifact';
+
+export interface ModelConfig {
   modelPath: string;
+  /** Model file contents; used instead of modelPath when set */
+  modelData?: Uint8Array;
   name: string;
   version: string;
   inputShape: number[];
   outputShape: number[];
   scalerParams?: {
-    mean: number[];
-    std: number[];
+    mean?: number[];
+    std?: number[];
     min?: number[];
     max?: number[];
   };
+  /** Feature name per input slot; checked against flattenFeatures before inference */
+  featureManifest?: FeatureSchemaManifest;
+  /** Graph input and output names; the first ones of the session by default */
+  inputName?: string;
+  outputName?: string;
+}
+
+export interface OnnxImportOptions {
+  name: string;
+  version?: string;
+  /** Overrides the manifest embedded in the model metadata */
+  manifest?: FeatureSchemaManifest;
 }
 
+const toScalerParams = (scaler: FeatureScaler): ModelConfig['scalerParams'] =>
+  scaler.method === 'zscore' ? { mean: scaler.mean, std: scaler.std } : { min: scaler.min, max: scaler.max };
+
 interface PredictionRequest {
   symbol: string;
   features: number[];
@@ -90,11 +117,35 @@ export class OnnxInferenceService {
     }
   }
 
-  async loadModel(config: ModelConfig): Promise<void> {
+  async loadModel(modelConfig: ModelConfig): Promise<void> {
     const startTime = performance.now();
+    let config = modelConfig;
     
     try {
       console.log(`Loading ONNX model: ${config.name} v${config.version}`);
+
+      // Манифест из метаданных файла, если его не передали явно
+      const embedded = !config.featureManifest && config.modelData
+        ? readFeatureManifest(readOnnxModelInfo(config.modelData))
+        : null;
+      if (embedded) {
+        config = {
+          ...config,
+          featureManifest: embedded,
+          scalerParams: config.scalerParams ?? (embedded.scaler ? toScalerParams(embedded.scaler) : undefined)
+        };
+      }
+
+      if (config.featureManifest) {
+        const manifest = validateFeatureManifest(config.featureManifest);
+        const inputSize = config.inputShape[config.inputShape.length - 1];
+        if (inputSize !== manifest.features.length) {
+          throw new OnnxModelError(
+            `Манифест описывает ${manifest.features.length} признаков, вход модели — ${inputSize}`,
+            'SCHEMA_MISMATCH'
+          );
+        }
+      }
       
       // Create inference session with optimized options
       const sessionOptions: ort.InferenceSession.SessionOptions = {
@@ -106,7 +157,9 @@ export class OnnxInferenceService {
         intraOpNumThreads: 4
       };
 
-      const session = await ort.InferenceSession.create(config.modelPath, sessionOptions);
+      const session = config.modelData
+        ? await ort.InferenceSession.create(config.modelData, sessionOptions)
+        : await ort.InferenceSession.create(config.modelPath, sessionOptions);
       
       this.models.set(config.name, session);
       this.modelConfigs.set(config.name, config);
@@ -125,6 +178,44 @@ export class OnnxInferenceService {
     }
   }
 
+  /**
+   * Loads an ONNX file together with its feature-schema manifest.
+   * Models without a manifest are rejected: without it nothing tells which
+   * feature goes into which input slot
+   */
+  async importModel(modelData: Uint8Array, options: OnnxImportOptions): Promise<ModelConfig> {
+    const info = readOnnxModelInfo(modelData);
+    const manifest = options.manifest ? validateFeatureManifest(options.manifest) : readFeatureManifest(info);
+    if (!manifest) {
+      throw new OnnxModelError(
+        `В модели ${options.name} нет манифеста признаков (metadata_props feature_schema)`,
+        'MISSING_MANIFEST'
+      );
+    }
+
+    const input = checkManifestAgainstModel(manifest, info);
+    const output = info.outputs[0];
+    if (!output) {
+      throw new OnnxModelError(`У модели ${options.name} нет выходов`, 'UNSUPPORTED_MODEL');
+    }
+
+    const config: ModelConfig = {
+      name: options.name,
+      version: options.version ?? info.metadata.model_version ?? String(info.modelVersion ?? 1),
+      modelPath: '',
+      modelData,
+      inputShape: [1, manifest.features.length],
+      outputShape: output.shape.map((dim, i) => (typeof dim === 'number' ? dim : i === 0 ? 1 : -1)),
+      scalerParams: manifest.scaler ? toScalerParams(manifest.scaler) : undefined,
+      featureManifest: manifest,
+      inputName: input.name,
+      outputName: output.name
+    };
+
+    await this.loadModel(config);
+    return config;
+  }
+
   private async warmupModel(modelName: string): Promise<void> {
     try {
       const config = this.modelConfigs.get(modelName);
@@ -202,7 +293,7 @@ export class OnnxInferenceService {
 
     // Create input tensor
     const inputTensor = new ort.Tensor('float32', inputData, config.inputShape);
-    const feeds: Record<string, ort.Tensor> = { input: inputTensor };
+    const feeds: Record<string, ort.Tensor> = { [config.inputName ?? session.inputNames[0] ?? 'input']: inputTensor };
 
     // Run inference
     const results = await session.run(feeds);
@@ -210,21 +301,27 @@ export class OnnxInferenceService {
     return results;
   }
 
-  private calculateUncertainty(predictions: Float32Array): number {
+  /**
+   * [call_prob, put_prob] from the model output; a single probability is read as P(up)
+   */
+  private outputProbabilities(output: ort.InferenceSession.OnnxValueMapType, modelName: string): number[] {
+    const session = this.models.get(modelName);
+    const outputName = this.modelConfigs.get(modelName)?.outputName ?? session?.outputNames[0] ?? 'output';
+    const predictions = Array.from((output[outputName] as ort.Tensor).data as Float32Array);
+    return predictions.length === 1 ? [predictions[0], 1 - predictions[0]] : predictions;
+  }
+
+  private calculateUncertainty(probs: number[]): number {
     // Calculate prediction uncertainty using entropy
-    const probs = Array.from(predictions);
     const entropy = -probs.reduce((sum, p) => sum + (p > 0 ? p * Math.log(p) : 0), 0);
     return Math.min(entropy / Math.log(probs.length), 1.0);
   }
 
   private convertToPredictionResult(
-    output: ort.InferenceSession.OnnxValueMapType,
+    predictions: number[],
     symbol: string,
     modelVersion: string
   ): PredictionResult {
-    const outputTensor = output.output as ort.Tensor;
-    const predictions = outputTensor.data as Float32Array;
-
     // Assuming binary classification output [call_prob, put_prob]
     const callProb = predictions[0];
     const putProb = predictions[1];
@@ -279,6 +376,12 @@ export class OnnxInferenceService {
       if (!session || !config) {
         throw new Error(`Model ${modelName} not available`);
       }
+      if (config.featureManifest && features.length !== config.featureManifest.features.length) {
+        throw new OnnxModelError(
+          `Модель ${modelName} ожидает ${config.featureManifest.features.length} признаков, получено ${features.length}`,
+          'SCHEMA_MISMATCH'
+        );
+      }
 
       // Preprocess features
       const processedFeatures = this.preprocessFeatures(features, modelName);
@@ -287,11 +390,11 @@ export class OnnxInferenceService {
       const results = await this.runInference(modelName, processedFeatures);
 
       // Convert to prediction result
-      const prediction = this.convertToPredictionResult(results, symbol, config.version);
+      const probabilities = this.outputProbabilities(results, modelName);
+      const prediction = this.convertToPredictionResult(probabilities, symbol, config.version);
 
       // Calculate uncertainty
-      const outputTensor = results.output as ort.Tensor;
-      const uncertainty = this.calculateUncertainty(outputTensor.data as Float32Array);
+      const uncertainty = this.calculateUncertainty(probabilities);
 
       const latency = performance.now() - startTime;
       
@@ -318,6 +421,21 @@ export class OnnxInferenceService {
     }
   }
 
+  /**
+   * Prediction from a FeatureExtractionService feature set.
+   * The slot names of flattenFeatures are checked against the model manifest first
+   */
+  async predictFeatureSet(symbol: string, features: FeatureSet, modelName = 'default'): Promise<PredictionResponse> {
+    const manifest = this.modelConfigs.get(modelName)?.featureManifest;
+    if (!manifest) {
+      throw new OnnxModelError(`У модели ${modelName} нет манифеста признаков`, 'MISSING_MANIFEST');
+    }
+
+    const size = manifest.features.length;
+    checkFeatureSchema(manifest, featureExtractionService.flattenFeatureNames(features, size));
+    return this.predict(symbol, featureExtractionService.flattenFeatures(features, size), modelName);
+  }
+
   async batchPredict(
     requests: Array<{ symbol: string; features: number[] }>,
     modelName = 'default'
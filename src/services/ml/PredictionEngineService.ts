@@ -7,7 +7,19 @@
 import { CandleData } from '@/types/session';
 import { PredictionResult, PredictionConfig } from '@/types/trading';
 import { NetworkWeights } from './NetworkTrainingService';
-import { FeatureSet, featureExtractionService } from './FeatureExtractionService';
+import {
+  FeatureSet,
+  featureExtractionService,
+  MOMENTUM_FEATURE_NAMES,
+  PATTERN_FEATURE_NAMES,
+  PRICE_FEATURE_NAMES,
+  TECHNICAL_FEATURE_NAMES,
+  VOLUME_FEATURE_NAMES,
+  VOLUME_PROFILE_FEATURE_NAMES
+} from './FeatureExtractionService';
+import { MarketRegime, marketRegimeService } from './MarketRegimeService';
+import { calibrationService, PREDICTION_ENGINE_MODEL } from './CalibrationService';
+import { applyScaler, FeatureScaler } from './registry/ModelArtifact';
 import { logger } from '@/utils/logger';
 import { errorHandler, ErrorCategory } from '@/utils/errorHandler';
 
@@ -17,6 +29,7 @@ export interface PredictionContext {
   signalStrength: number;
   features: FeatureSet;
   processingTime: number;
+  regime?: MarketRegime;
 }
 
 export interface EnsembleModel {
@@ -24,6 +37,11 @@ export interface EnsembleModel {
   weights: NetworkWeights;
   accuracy: number;
   weight: number; // Ensemble weight based on performance
+  regimeWeights?: Partial<Record<MarketRegime, number>>; // Overrides weight in the given regimes
+  /** Registry version the weights were loaded from */
+  version?: string;
+  /** Scaler fitted at training time; without it the input vector is z-scored on its own */
+  scaler?: FeatureScaler;
   lastUpdated: number;
 }
 
@@ -35,6 +53,29 @@ export interface PredictionCache {
   candleIndex: number;
 }
 
+/** Candles in the rolling volume profile window of the ensemble features */
+const VOLUME_PROFILE_WINDOW = 50;
+
+/** Size of the input vector the ensemble builds with flattenFeatures */
+export const PREDICTION_ENGINE_INPUT_SIZE = [
+  TECHNICAL_FEATURE_NAMES,
+  PATTERN_FEATURE_NAMES,
+  VOLUME_FEATURE_NAMES,
+  PRICE_FEATURE_NAMES,
+  MOMENTUM_FEATURE_NAMES,
+  VOLUME_PROFILE_FEATURE_NAMES
+].reduce((size, names) => size + names.length, 0);
+
+/**
+ * Regime weights of the untrained fallback model: it keeps its share in
+ * trends and yields to trained registry models in ranging and volatile
+ * markets, where fixed placeholder weights are least reliable
+ */
+const DEFAULT_MODEL_REGIME_WEIGHTS: Partial<Record<MarketRegime, number>> = {
+  ranging: 0.25,
+  high_volatility: 0.1
+};
+
 export class PredictionEngineService {
   private static instance: PredictionEngineService;
   private ensembleModels: Map<string, EnsembleModel> = new Map();
@@ -70,8 +111,10 @@ export class PredictionEngineService {
         return null;
       }
 
+      const regime = this.detectRegime(candles, currentIndex);
+
       // Check cache first
-      const cacheKey = this.generateCacheKey(candles, currentIndex, config);
+      const cacheKey = `${this.generateCacheKey(candles, currentIndex, config)}_${regime ?? 'none'}`;
       const cached = this.getCachedPrediction(cacheKey);
       if (cached) {
         logger.debug('Prediction cache hit', { currentIndex, cacheKey });
@@ -87,7 +130,8 @@ export class PredictionEngineService {
           includeVolume: true,
           includeMomentum: true,
           includePatterns: true,
-          normalizationMethod: 'zscore'
+          normalizationMethod: 'zscore',
+          volumeProfileWindow: VOLUME_PROFILE_WINDOW
         }
       );
 
@@ -96,7 +140,7 @@ export class PredictionEngineService {
       }
 
       // Generate ensemble prediction
-      const ensemblePrediction = await this.generateEnsemblePrediction(features, config);
+      const ensemblePrediction = await this.generateEnsemblePrediction(features, config, regime);
       
       if (!ensemblePrediction) {
         return null;
@@ -110,22 +154,38 @@ export class PredictionEngineService {
         confidence: ensemblePrediction.confidence,
         signalStrength: ensemblePrediction.signalStrength,
         features,
-        processingTime
+        processingTime,
+        regime
       };
 
+      // Recalibrate before the recommendation thresholds are applied; below 50% this flips the direction
+      const calibration = calibrationService.getCalibration(PREDICTION_ENGINE_MODEL, config.pair);
+      const { direction, probability, rawProbability } = calibrationService.calibrateDirection(
+        PREDICTION_ENGINE_MODEL,
+        config.pair,
+        ensemblePrediction.direction,
+        ensemblePrediction.probability
+      );
+
       // Generate final prediction result
       const result: PredictionResult = {
-        direction: ensemblePrediction.direction,
-        probability: ensemblePrediction.probability,
+        direction,
+        probability,
         confidence: ensemblePrediction.confidence,
         interval: config.predictionInterval,
         factors: this.generateFactors(features, ensemblePrediction),
         recommendation: this.generateRecommendation(
-          ensemblePrediction.direction,
-          ensemblePrediction.probability,
+          direction,
+          probability,
           ensemblePrediction.confidence,
-          features
-        )
+          features,
+          regime
+        ),
+        modelId: PREDICTION_ENGINE_MODEL,
+        features: ensemblePrediction.inputVector,
+        ...(calibration && {
+          calibration: { method: calibration.calibrator.method, rawProbability }
+        })
       };
 
       // Cache the prediction
@@ -148,19 +208,36 @@ export class PredictionEngineService {
     });
   }
 
+  /**
+   * Regime of the candle at currentIndex, when a regime model has been fitted
+   */
+  private detectRegime(candles: CandleData[], currentIndex: number): MarketRegime | undefined {
+    if (!marketRegimeService.isFitted()) return undefined;
+
+    try {
+      return marketRegimeService.currentRegime(candles.slice(0, currentIndex + 1))?.regime;
+    } catch (error) {
+      logger.warn('Regime detection failed', { currentIndex, error });
+      return undefined;
+    }
+  }
+
   /**
    * Generate prediction using ensemble of models
    */
   private async generateEnsemblePrediction(
     features: FeatureSet,
-    config: PredictionConfig
+    config: PredictionConfig,
+    regime?: MarketRegime
   ): Promise<{
     direction: 'UP' | 'DOWN';
     probability: number;
     confidence: number;
     signalStrength: number;
+    /** Flattened feature vector every member scored, before its own scaling */
+    inputVector: number[];
   } | null> {
-    const inputVector = featureExtractionService.flattenFeatures(features, 30);
+    const inputVector = featureExtractionService.flattenFeatures(features, PREDICTION_ENGINE_INPUT_SIZE);
     const normalizedInput = this.normalizeVector(inputVector);
 
     if (this.ensembleModels.size === 0) {
@@ -175,19 +252,21 @@ export class PredictionEngineService {
     // Get predictions from all models
     for (const [modelId, model] of this.ensembleModels) {
       try {
-        const { output } = this.feedForward(normalizedInput, model.weights);
+        const input = model.scaler ? applyScaler(model.scaler, inputVector) : normalizedInput;
+        const { output } = this.feedForward(input, model.weights);
         const probability = this.sigmoid(output);
         const confidence = this.calculateModelConfidence(probability, features, model);
+        const weight = (regime && model.regimeWeights?.[regime]) ?? model.weight;
         
         predictions.push({
           output: probability,
-          weight: model.weight,
+          weight,
           confidence
         });
 
-        weightedSum += probability * model.weight;
-        totalWeight += model.weight;
-        confidenceSum += confidence * model.weight;
+        weightedSum += probability * weight;
+        totalWeight += weight;
+        confidenceSum += confidence * weight;
 
       } catch (error) {
         logger.warn('Model prediction failed', { modelId, error });
@@ -220,7 +299,8 @@ export class PredictionEngineService {
       direction,
       probability: Math.round(adjustedProbability * 10) / 10,
       confidence: Math.round(finalConfidence * 10) / 10,
-      signalStrength
+      signalStrength,
+      inputVector
     };
   }
 
@@ -372,7 +452,8 @@ export class PredictionEngineService {
     direction: 'UP' | 'DOWN',
     probability: number,
     confidence: number,
-    features: FeatureSet
+    features: FeatureSet,
+    regime?: MarketRegime
   ): string {
     const strength = probability > 75 ? 'strong' : probability > 65 ? 'moderate' : 'weak';
     const confidenceLevel = confidence > 80 ? 'high' : confidence > 70 ? 'medium' : 'low';
@@ -388,22 +469,34 @@ export class PredictionEngineService {
     if (features.volume.length > 2 && features.volume[2] !== 0) {
       recommendation += ` Volume ${features.volume[2] > 0 ? 'increasing' : 'decreasing'}.`;
     }
+
+    if (regime) {
+      recommendation += ` Market regime: ${regime.replace('_', ' ')}.`;
+    }
     
     return recommendation;
   }
 
   // Model management
-  addModel(id: string, weights: NetworkWeights, accuracy: number): void {
+  addModel(
+    id: string,
+    weights: NetworkWeights,
+    accuracy: number,
+    options: { version?: string; scaler?: FeatureScaler } = {}
+  ): void {
     const model: EnsembleModel = {
       id,
       weights: this.deepCopyWeights(weights),
       accuracy: Math.max(0.5, Math.min(1.0, accuracy)), // Clamp between 0.5 and 1.0
       weight: this.calculateModelWeight(accuracy),
+      version: options.version,
+      scaler: options.scaler,
       lastUpdated: Date.now()
     };
 
     this.ensembleModels.set(id, model);
     this.rebalanceEnsemble();
+    this.predictionCache.clear();
 
     logger.info('Model added to ensemble', {
       modelId: id,
@@ -417,6 +510,7 @@ export class PredictionEngineService {
     const removed = this.ensembleModels.delete(id);
     if (removed) {
       this.rebalanceEnsemble();
+      this.predictionCache.clear();
       logger.info('Model removed from ensemble', { modelId: id });
     }
     return removed;
@@ -434,6 +528,21 @@ export class PredictionEngineService {
     }
   }
 
+  /**
+   * Ensemble weights used instead of the accuracy-based weight while the
+   * market is in the given regimes; regimes left out keep the default weight
+   */
+  setRegimeWeights(id: string, regimeWeights: Partial<Record<MarketRegime, number>>): void {
+    const model = this.ensembleModels.get(id);
+    if (model) {
+      model.regimeWeights = { ...regimeWeights };
+      model.lastUpdated = Date.now();
+      this.predictionCache.clear();
+
+      logger.info('Model regime weights updated', { modelId: id, regimeWeights });
+    }
+  }
+
   private calculateModelWeight(accuracy: number): number {
     // Weight models based on their accuracy with exponential scaling
     return Math.pow(accuracy, 3);
@@ -453,8 +562,9 @@ export class PredictionEngineService {
 
   private initializeDefaultModel(): void {
     // This would be loaded from storage in a real implementation
-    const defaultWeights = this.createDefaultWeights(30, 64);
+    const defaultWeights = this.createDefaultWeights(PREDICTION_ENGINE_INPUT_SIZE, 64);
     this.addModel('default', defaultWeights, 0.6);
+    this.setRegimeWeights('default', DEFAULT_MODEL_REGIME_WEIGHTS);
   }
 
   private createDefaultWeights(inputSize: number, hiddenSize: number): NetworkWeights {
@@ -542,14 +652,16 @@ export class PredictionEngineService {
   // Public getters for monitoring
   getEnsembleInfo(): {
     modelCount: number;
-    models: Array<{ id: string; accuracy: number; weight: number }>;
+    models: Array<{ id: string; version?: string; accuracy: number; weight: number; regimeWeights?: Partial<Record<MarketRegime, number>> }>;
     cacheSize: number;
     cacheHitRate: number;
   } {
     const models = Array.from(this.ensembleModels.values()).map(model => ({
       id: model.id,
+      version: model.version,
       accuracy: model.accuracy,
-      weight: model.weight
+      weight: model.weight,
+      regimeWeights: model.regimeWeights
     }));
 
     return {
@@ -1,5 +1,22 @@
 import { CandleData } from '@/types/session';
 import { PredictionResult, PredictionConfig } from '@/types/trading';
+import { volumeProfileService } from '@/services/analytics/VolumeProfileService';
+import { indicatorFactory } from '@/services/indicators/indicator-factory';
+import { latestIndicatorValue } from '@/services/indicators/core/market-data';
+import { marketRegimeService, MARKET_REGIME_NAMES } from './MarketRegimeService';
+import { TreeModelError } from './trees/cart';
+import { RandomForestClassifier, RandomForestJSON, RandomForestOptions } from './trees/random-forest';
+import { GradientBoostingClassifier, GradientBoostingJSON, GradientBoostingOptions } from './trees/gradient-boosting';
+import {
+  buildSequenceWindows,
+  DEFAULT_RECURRENT_OPTIONS,
+  RecurrentEpochMetrics,
+  RecurrentModelError,
+  RecurrentNetwork,
+  RecurrentNetworkJSON,
+  RecurrentNetworkOptions,
+  SequenceWindow
+} from './recurrent/recurrent-network';
 
 interface AdvancedNeuralNetwork {
   layers: {
@@ -19,58 +36,78 @@ interface AdvancedNeuralNetwork {
 }
 
 interface EnsembleModel {
-  randomForest: RandomForestModel;
-  xgboost: XGBoostModel; 
-  lstm: LSTMModel;
+  /** null until trained; untrained tree models are left out of the ensemble */
+  randomForest: RandomForestClassifier | null;
+  xgboost: GradientBoostingClassifier | null; 
+  /** LSTM or GRU over feature sequences; null until trained */
+  lstm: RecurrentNetwork | null;
   neuralNetwork: AdvancedNeuralNetwork;
   weights: number[]; // Веса для ансамбля
 }
 
-interface RandomForestModel {
-  trees: DecisionTree[];
-  featureImportance: number[];
-  nTrees: number;
+export interface TreeModelTrainingOptions {
+  /** Target: close `horizon` candles ahead is above the current close */
+  horizon: number;
+  /** Chronological share of each series held out for validation */
+  validationSplit: number;
+  randomForest: Partial<RandomForestOptions>;
+  gradientBoosting: Partial<GradientBoostingOptions>;
 }
 
-interface XGBoostModel {
-  boosters: GradientBooster[];
-  learningRate: number;
-  maxDepth: number;
-  nEstimators: number;
+export interface TreeModelTrainingResult {
+  trainSamples: number;
+  validationSamples: number;
+  featureCount: number;
+  randomForest: { validationAccuracy: number | null; oobAccuracy: number | null };
+  gradientBoosting: { validationAccuracy: number | null; trainLoss: number | null };
 }
 
-interface LSTMModel {
-  weights: {
-    inputWeights: number[][];
-    hiddenWeights: number[][];
-    cellWeights: number[][];
-    outputWeights: number[][];
-  };
-  sequenceLength: number;
-  hiddenSize: number;
+export interface TreeModelsJSON {
+  version: 1;
+  trainedAt: string;
+  horizon: number;
+  randomForest: RandomForestJSON | null;
+  gradientBoosting: GradientBoostingJSON | null;
 }
 
-interface DecisionTree {
-  root: TreeNode;
-  maxDepth: number;
-  minSamplesSplit: number;
+const DEFAULT_TREE_TRAINING_OPTIONS: TreeModelTrainingOptions = {
+  horizon: 1,
+  validationSplit: 0.2,
+  randomForest: {},
+  gradientBoosting: {}
+};
+
+/** Fewer labelled rows than this give trees nothing to learn from */
+const MIN_TREE_TRAINING_SAMPLES = 30;
+
+export interface RecurrentTrainingOptions {
+  /** Target: close `horizon` candles ahead is above the close of the window's last candle */
+  horizon: number;
+  /** Chronological share of each series' windows held out for validation and calibration */
+  validationSplit: number;
+  network: Partial<RecurrentNetworkOptions>;
 }
 
-interface TreeNode {
-  feature?: number;
-  threshold?: number;
-  left?: TreeNode;
-  right?: TreeNode;
-  prediction?: number;
-  samples: number;
-  gini: number;
+export interface RecurrentTrainingResult {
+  trainWindows: number;
+  validationWindows: number;
+  featureCount: number;
+  cell: RecurrentNetworkOptions['cell'];
+  history: RecurrentEpochMetrics[];
+  /** Accuracy of the calibrated output on the validation windows */
+  validationAccuracy: number | null;
+  calibrated: boolean;
 }
 
-interface GradientBooster {
-  trees: DecisionTree[];
-  residuals: number[];
-  gamma: number;
-}
+const DEFAULT_RECURRENT_TRAINING_OPTIONS: RecurrentTrainingOptions = {
+  horizon: 1,
+  validationSplit: 0.2,
+  network: {}
+};
+
+const MIN_RECURRENT_TRAINING_WINDOWS = 30;
+
+const MODEL_NAMES = ['RandomForest', 'XGBoost', 'LSTM', 'NeuralNetwork'] as const;
 
 export class ProfessionalMLService {
   private static instance: ProfessionalMLService;
@@ -85,6 +122,9 @@ export class ProfessionalMLService {
     auc: number;
   } = { accuracy: 0, precision: 0, recall: 0, f1Score: 0, auc: 0 };
 
+  private treeModelsTrainedAt: string | null = null;
+  private treeModelsHorizon = DEFAULT_TREE_TRAINING_OPTIONS.horizon;
+
   private constructor() {
     this.initializeEnsembleModel();
   }
@@ -98,9 +138,9 @@ export class ProfessionalMLService {
 
   private initializeEnsembleModel(): void {
     this.ensembleModel = {
-      randomForest: this.initializeRandomForest(),
-      xgboost: this.initializeXGBoost(),
-      lstm: this.initializeLSTM(),
+      randomForest: null,
+      xgboost: null,
+      lstm: null,
       neuralNetwork: this.initializeAdvancedNN(),
       weights: [0.3, 0.25, 0.25, 0.2] // RF, XGB, LSTM, NN
     };
@@ -154,31 +194,40 @@ export class ProfessionalMLService {
 
     // Williams %R
     features.push(
-      this.calculateWilliamsR(recentCandles, 14),
-      this.calculateWilliamsR(recentCandles, 21)
+      latestIndicatorValue(indicatorFactory.createWilliamsR({ period: 14 }), recentCandles, -50),
+      latestIndicatorValue(indicatorFactory.createWilliamsR({ period: 21 }), recentCandles, -50)
     );
 
     // CCI (Commodity Channel Index)
     features.push(
-      this.calculateCCI(recentCandles, 14),
-      this.calculateCCI(recentCandles, 20)
+      latestIndicatorValue(indicatorFactory.createCCI({ period: 14 }), recentCandles, 0),
+      latestIndicatorValue(indicatorFactory.createCCI({ period: 20 }), recentCandles, 0)
     );
 
     // ATR (Average True Range)
     features.push(
-      this.calculateATR(recentCandles, 14),
-      this.calculateATR(recentCandles, 21)
+      latestIndicatorValue(indicatorFactory.createATR({ period: 14 }), recentCandles, 0),
+      latestIndicatorValue(indicatorFactory.createATR({ period: 21 }), recentCandles, 0)
     );
 
     // ADX (Average Directional Index)
-    const adx = this.calculateADX(recentCandles, 14);
-    features.push(adx.adx, adx.diPlus, adx.diMinus);
+    const adx = latestIndicatorValue(
+      indicatorFactory.createADX({ period: 14 }),
+      recentCandles,
+      {adx: 25, plusDI: 25, minusDI: 25}
+    );
+    features.push(adx.adx, adx.plusDI, adx.minusDI);
 
     // Parabolic SAR
     features.push(this.calculateParabolicSAR(recentCandles));
 
     // Ichimoku Cloud
-    const ichimoku = this.calculateIchimoku(recentCandles);
+    const lastClose = recentCandles[recentCandles.length - 1].close;
+    const ichimoku = latestIndicatorValue(
+      indicatorFactory.createIchimoku(),
+      recentCandles,
+      {tenkanSen: lastClose, kijunSen: lastClose, senkouSpanA: lastClose, senkouSpanB: lastClose, chikouSpan: lastClose}
+    );
     features.push(
       ichimoku.tenkanSen, ichimoku.kijunSen, 
       ichimoku.senkouSpanA, ichimoku.senkouSpanB
@@ -187,17 +236,17 @@ export class ProfessionalMLService {
     // === ОБЪЕМНЫЕ ИНДИКАТОРЫ ===
     
     // OBV (On Balance Volume)
-    features.push(this.calculateOBV(recentCandles));
+    features.push(latestIndicatorValue(indicatorFactory.createOBV(), recentCandles, 0));
 
     // Volume Profile
     const volumeProfile = this.calculateVolumeProfile(recentCandles);
     features.push(volumeProfile.pocPrice, volumeProfile.valueArea);
 
     // VWAP (Volume Weighted Average Price)
-    features.push(this.calculateVWAP(recentCandles));
+    features.push(latestIndicatorValue(indicatorFactory.createVWAP(), recentCandles, lastClose));
 
     // Money Flow Index
-    features.push(this.calculateMFI(recentCandles, 14));
+    features.push(latestIndicatorValue(indicatorFactory.createMFI({ period: 14 }), recentCandles, 50));
 
     // Accumulation/Distribution Line
     features.push(this.calculateADL(recentCandles));
@@ -243,22 +292,30 @@ export class ProfessionalMLService {
       if (features.length === 0) return null;
 
       // Нормализация признаков
-      const normalizedFeatures = this.normalizeFeatures(features);
+      const normalizedFeatures = this.normalizeFeatures(features.map(value => (Number.isFinite(value) ? value : 0)));
 
-      // Получаем предсказания от всех моделей
-      const predictions = await Promise.all([
-        this.predictRandomForest(normalizedFeatures),
-        this.predictXGBoost(normalizedFeatures),
-        this.predictLSTM(normalizedFeatures, candles, currentIndex),
+      // Получаем предсказания от всех моделей; деревья обучены на ненормализованных признаках
+      const modelPredictions = await Promise.all([
+        this.predictRandomForest(features),
+        this.predictXGBoost(features),
+        this.predictLSTM(candles, currentIndex),
         this.predictNeuralNetwork(normalizedFeatures)
       ]);
 
+      // Необученные модели не участвуют, веса остальных перенормируются
+      const activeModels = modelPredictions
+        .map((prediction, idx) => ({ name: MODEL_NAMES[idx], prediction, weight: this.ensembleModel.weights[idx] }))
+        .filter((model): model is { name: typeof MODEL_NAMES[number]; prediction: number; weight: number } =>
+          model.prediction !== null);
+      const totalWeight = activeModels.reduce((sum, model) => sum + model.weight, 0);
+      const predictions = activeModels.map(model => model.prediction);
+
       // Вычисляем взвешенное среднее
-      const ensemblePrediction = predictions.reduce((sum, pred, idx) => 
-        sum + pred * this.ensembleModel.weights[idx], 0);
+      const ensemblePrediction = activeModels.reduce((sum, model) => 
+        sum + model.prediction * model.weight / totalWeight, 0);
 
-      // Определяем направление и вероятность
-      const probability = this.sigmoid(ensemblePrediction) * 100;
+      // Каждая модель уже возвращает вероятность роста, повторный сигмоид не нужен
+      const probability = ensemblePrediction * 100;
       const direction = probability > 50 ? 'UP' : 'DOWN';
       const adjustedProbability = direction === 'UP' ? probability : 100 - probability;
 
@@ -275,11 +332,11 @@ export class ProfessionalMLService {
         metadata: {
           modelAgreement: confidence,
           riskScore: this.calculateRiskScore(features),
-          marketCondition: this.classifyMarketCondition(features),
-          modelBreakdown: predictions.map((pred, idx) => ({
-            model: ['RandomForest', 'XGBoost', 'LSTM', 'NeuralNetwork'][idx],
-            prediction: pred,
-            weight: this.ensembleModel.weights[idx]
+          marketCondition: this.classifyMarketCondition(features, candles.slice(0, currentIndex + 1)),
+          modelBreakdown: activeModels.map(model => ({
+            model: model.name,
+            prediction: model.prediction,
+            weight: model.weight / totalWeight
           }))
         }
       };
@@ -292,162 +349,264 @@ export class ProfessionalMLService {
 
   // === МОДЕЛИ МАШИННОГО ОБУЧЕНИЯ ===
 
-  private initializeRandomForest(): RandomForestModel {
+  /**
+   * Обучает случайный лес и градиентный бустинг на признаках extractAdvancedFeatures.
+   * Каждая серия (сессия) делится по времени: последние validationSplit примеров — валидация
+   */
+  async trainTreeModels(
+    series: CandleData[][],
+    options: Partial<TreeModelTrainingOptions> = {}
+  ): Promise<TreeModelTrainingResult> {
+    const settings = { ...DEFAULT_TREE_TRAINING_OPTIONS, ...options };
+    const train: Array<{features: number[], target: number}> = [];
+    const validation: Array<{features: number[], target: number}> = [];
+
+    series.forEach(candles => {
+      const samples = this.buildTreeDataset(candles, settings.horizon);
+      const splitIndex = Math.floor(samples.length * (1 - settings.validationSplit));
+      train.push(...samples.slice(0, splitIndex));
+      validation.push(...samples.slice(splitIndex));
+    });
+
+    if (train.length < MIN_TREE_TRAINING_SAMPLES) {
+      throw new TreeModelError(
+        `Недостаточно данных для обучения деревьев: ${train.length} примеров, нужно не меньше ${MIN_TREE_TRAINING_SAMPLES}`,
+        'INSUFFICIENT_DATA'
+      );
+    }
+
+    const X = train.map(sample => sample.features);
+    const y = train.map(sample => sample.target);
+    const randomForest = RandomForestClassifier.fit(X, y, settings.randomForest);
+    const xgboost = GradientBoostingClassifier.fit(X, y, settings.gradientBoosting);
+
+    this.ensembleModel.randomForest = randomForest;
+    this.ensembleModel.xgboost = xgboost;
+    this.trainingData = train;
+    this.validationData = validation;
+    this.treeModelsTrainedAt = new Date().toISOString();
+    this.treeModelsHorizon = settings.horizon;
+
+    const accuracyOf = (predict: (features: number[]) => number) => validation.length > 0
+      ? validation.filter(sample => (predict(sample.features) > 0.5 ? 1 : 0) === sample.target).length / validation.length
+      : null;
+
+    this.modelPerformance = this.evaluateTreeModels(validation);
+
     return {
-      trees: Array.from({ length: 100 }, () => this.createDecisionTree()),
-      featureImportance: Array(50).fill(0).map(() => Math.random()),
-      nTrees: 100
+      trainSamples: train.length,
+      validationSamples: validation.length,
+      featureCount: randomForest.featureCount,
+      randomForest: {
+        validationAccuracy: accuracyOf(features => randomForest.predictProba(features)),
+        oobAccuracy: randomForest.oobAccuracy
+      },
+      gradientBoosting: {
+        validationAccuracy: accuracyOf(features => xgboost.predictProba(features)),
+        trainLoss: xgboost.lossHistory[xgboost.lossHistory.length - 1] ?? null
+      }
     };
   }
 
-  private createDecisionTree(): DecisionTree {
+  /**
+   * Сериализация обученных деревьев для сохранения и повторной загрузки
+   */
+  exportTreeModels(): TreeModelsJSON {
     return {
-      root: this.createTreeNode(0, 1000, 0.5),
-      maxDepth: 10,
-      minSamplesSplit: 5
+      version: 1,
+      trainedAt: this.treeModelsTrainedAt ?? new Date().toISOString(),
+      horizon: this.treeModelsHorizon,
+      randomForest: this.ensembleModel.randomForest?.toJSON() ?? null,
+      gradientBoosting: this.ensembleModel.xgboost?.toJSON() ?? null
     };
   }
 
-  private createTreeNode(depth: number, samples: number, gini: number): TreeNode {
-    if (depth >= 10 || samples < 5) {
-      return {
-        prediction: Math.random() > 0.5 ? 1 : 0,
-        samples,
-        gini
-      };
+  importTreeModels(json: TreeModelsJSON): void {
+    if (json?.version !== 1) {
+      throw new TreeModelError('Неподдерживаемая версия сериализации деревьев', 'INVALID_MODEL');
     }
 
-    return {
-      feature: Math.floor(Math.random() * 50),
-      threshold: Math.random(),
-      left: this.createTreeNode(depth + 1, Math.floor(samples * 0.6), gini * 0.8),
-      right: this.createTreeNode(depth + 1, Math.floor(samples * 0.4), gini * 0.9),
-      samples,
-      gini
-    };
+    const randomForest = json.randomForest ? RandomForestClassifier.fromJSON(json.randomForest) : null;
+    const xgboost = json.gradientBoosting ? GradientBoostingClassifier.fromJSON(json.gradientBoosting) : null;
+    if (randomForest && xgboost && randomForest.featureCount !== xgboost.featureCount) {
+      throw new TreeModelError('Модели обучены на разном числе признаков', 'INVALID_MODEL');
+    }
+
+    this.ensembleModel.randomForest = randomForest;
+    this.ensembleModel.xgboost = xgboost;
+    this.treeModelsTrainedAt = json.trainedAt;
+    this.treeModelsHorizon = json.horizon;
   }
 
-  private async predictRandomForest(features: number[]): Promise<number> {
-    const predictions = this.ensembleModel.randomForest.trees.map(tree => 
-      this.predictTree(tree.root, features));
-    return predictions.reduce((sum, pred) => sum + pred, 0) / predictions.length;
+  isTreeModelsTrained(): boolean {
+    return this.ensembleModel.randomForest !== null || this.ensembleModel.xgboost !== null;
   }
 
-  private predictTree(node: TreeNode, features: number[]): number {
-    if (node.prediction !== undefined) {
-      return node.prediction;
-    }
-    
-    const featureValue = features[node.feature!] || 0;
-    return featureValue <= node.threshold! 
-      ? this.predictTree(node.left!, features)
-      : this.predictTree(node.right!, features);
+  getModelPerformance() {
+    return { ...this.modelPerformance };
   }
 
-  private initializeXGBoost(): XGBoostModel {
+  /**
+   * Обучает рекуррентную сеть (LSTM или GRU) на скользящих окнах признаков extractAdvancedFeatures.
+   * Последние validationSplit окон каждой серии идут на валидацию и калибровку выхода
+   */
+  async trainRecurrentModel(
+    series: CandleData[][],
+    options: Partial<RecurrentTrainingOptions> = {},
+    onEpoch?: (metrics: RecurrentEpochMetrics, epochs: number) => void
+  ): Promise<RecurrentTrainingResult> {
+    const settings = { ...DEFAULT_RECURRENT_TRAINING_OPTIONS, ...options };
+    const sequenceLength = settings.network.sequenceLength ?? DEFAULT_RECURRENT_OPTIONS.sequenceLength;
+    const train: SequenceWindow[] = [];
+    const validation: SequenceWindow[] = [];
+
+    series.forEach(candles => {
+      const windows = this.buildRecurrentWindows(candles, settings.horizon, sequenceLength);
+      const splitIndex = Math.floor(windows.length * (1 - settings.validationSplit));
+      train.push(...windows.slice(0, splitIndex));
+      validation.push(...windows.slice(splitIndex));
+    });
+
+    if (train.length < MIN_RECURRENT_TRAINING_WINDOWS) {
+      throw new RecurrentModelError(
+        `Недостаточно данных для обучения рекуррентной сети: ${train.length} окон, нужно не меньше ${MIN_RECURRENT_TRAINING_WINDOWS}`,
+        'INSUFFICIENT_DATA'
+      );
+    }
+
+    const network = RecurrentNetwork.fit(train, { ...settings.network, validation, onEpoch });
+    this.ensembleModel.lstm = network;
+
     return {
-      boosters: Array.from({ length: 100 }, () => ({
-        trees: Array.from({ length: 3 }, () => this.createDecisionTree()),
-        residuals: Array(1000).fill(0).map(() => Math.random() * 0.1),
-        gamma: 0.1
-      })),
-      learningRate: 0.1,
-      maxDepth: 6,
-      nEstimators: 100
+      trainWindows: train.length,
+      validationWindows: validation.length,
+      featureCount: network.inputSize,
+      cell: network.cell,
+      history: network.history,
+      validationAccuracy: validation.length > 0
+        ? validation.filter(window => (network.predictProba(window.sequence) > 0.5 ? 1 : 0) === window.target).length / validation.length
+        : null,
+      calibrated: network.isCalibrated
     };
   }
 
-  private async predictXGBoost(features: number[]): Promise<number> {
-    let prediction = 0;
-    for (const booster of this.ensembleModel.xgboost.boosters) {
-      const treePrediction = booster.trees
-        .map(tree => this.predictTree(tree.root, features))
-        .reduce((sum, pred) => sum + pred, 0) / booster.trees.length;
-      prediction += treePrediction * this.ensembleModel.xgboost.learningRate;
-    }
-    return this.sigmoid(prediction);
+  exportRecurrentModel(): RecurrentNetworkJSON | null {
+    return this.ensembleModel.lstm?.toJSON() ?? null;
   }
 
-  private initializeLSTM(): LSTMModel {
-    const hiddenSize = 128;
-    const inputSize = 50;
-    
-    return {
-      weights: {
-        inputWeights: this.initializeMatrix(inputSize, hiddenSize * 4),
-        hiddenWeights: this.initializeMatrix(hiddenSize, hiddenSize * 4),
-        cellWeights: this.initializeMatrix(hiddenSize, hiddenSize * 3),
-        outputWeights: this.initializeMatrix(hiddenSize, 1)
-      },
-      sequenceLength: 20,
-      hiddenSize
-    };
+  importRecurrentModel(json: RecurrentNetworkJSON | null): void {
+    this.ensembleModel.lstm = json ? RecurrentNetwork.fromJSON(json) : null;
   }
 
-  private async predictLSTM(features: number[], candles: CandleData[], currentIndex: number): Promise<number> {
-    // Создаем последовательность для LSTM
-    const sequenceLength = this.ensembleModel.lstm.sequenceLength;
-    const sequence: number[][] = [];
-    
-    for (let i = Math.max(0, currentIndex - sequenceLength + 1); i <= currentIndex; i++) {
-      const seqFeatures = this.extractAdvancedFeatures(candles, i);
-      if (seqFeatures.length > 0) {
-        sequence.push(this.normalizeFeatures(seqFeatures));
-      }
-    }
+  isRecurrentModelTrained(): boolean {
+    return this.ensembleModel.lstm !== null;
+  }
 
-    if (sequence.length === 0) return 0.5;
+  /**
+   * Пары (признаки, рост через horizon свечей); нечисловые признаки заменяются нулем
+   */
+  private buildTreeDataset(candles: CandleData[], horizon: number): Array<{features: number[], target: number}> {
+    const samples: Array<{features: number[], target: number}> = [];
 
-    // Упрощенная LSTM логика (в реальности использовать TensorFlow.js)
-    let hiddenState = Array(this.ensembleModel.lstm.hiddenSize).fill(0);
-    let cellState = Array(this.ensembleModel.lstm.hiddenSize).fill(0);
+    for (let i = 0; i + horizon < candles.length; i++) {
+      const features = this.extractAdvancedFeatures(candles, i);
+      if (features.length === 0) continue;
 
-    for (const input of sequence) {
-      const result = this.lstmCell(input, hiddenState, cellState);
-      hiddenState = result.hiddenState;
-      cellState = result.cellState;
+      samples.push({
+        features: features.map(value => (Number.isFinite(value) ? value : 0)),
+        target: candles[i + horizon].close > candles[i].close ? 1 : 0
+      });
     }
 
-    // Финальное предсказание
-    return this.sigmoid(this.dotProduct(hiddenState, this.ensembleModel.lstm.weights.outputWeights[0]));
+    return samples;
   }
 
-  private lstmCell(input: number[], hiddenState: number[], cellState: number[]): 
-    {hiddenState: number[], cellState: number[]} {
-    
-    const hiddenSize = hiddenState.length;
-    
-    // Forget gate
-    const forgetGate = input.map((x, i) => 
-      this.sigmoid(x * 0.5 + (hiddenState[i % hiddenSize] || 0) * 0.3));
-    
-    // Input gate
-    const inputGate = input.map((x, i) => 
-      this.sigmoid(x * 0.4 + (hiddenState[i % hiddenSize] || 0) * 0.4));
-    
-    // Candidate values
-    const candidates = input.map((x, i) => 
-      Math.tanh(x * 0.3 + (hiddenState[i % hiddenSize] || 0) * 0.2));
-    
-    // Update cell state
-    const newCellState = cellState.map((c, i) => 
-      c * (forgetGate[i % forgetGate.length] || 0) + 
-      (inputGate[i % inputGate.length] || 0) * (candidates[i % candidates.length] || 0));
-    
-    // Output gate
-    const outputGate = input.map((x, i) => 
-      this.sigmoid(x * 0.35 + (hiddenState[i % hiddenSize] || 0) * 0.35));
-    
-    // New hidden state
-    const newHiddenState = newCellState.map((c, i) => 
-      (outputGate[i % outputGate.length] || 0) * Math.tanh(c));
+  /**
+   * Окна признаков длиной sequenceLength; цель — рост через horizon свечей после последней свечи окна
+   */
+  private buildRecurrentWindows(candles: CandleData[], horizon: number, sequenceLength: number): SequenceWindow[] {
+    const rows: number[][] = [];
+    const targets: Array<number | null> = [];
+
+    candles.forEach((candle, i) => {
+      const features = this.extractAdvancedFeatures(candles, i);
+      if (features.length === 0) return;
+
+      rows.push(features.map(value => (Number.isFinite(value) ? value : 0)));
+      targets.push(i + horizon < candles.length ? (candles[i + horizon].close > candle.close ? 1 : 0) : null);
+    });
+
+    return buildSequenceWindows(rows, targets, sequenceLength);
+  }
+
+  /**
+   * Метрики усредненного прогноза леса и бустинга на валидации
+   */
+  private evaluateTreeModels(validation: Array<{features: number[], target: number}>) {
+    const { randomForest, xgboost } = this.ensembleModel;
+    if (validation.length === 0 || !randomForest || !xgboost) {
+      return { accuracy: 0, precision: 0, recall: 0, f1Score: 0, auc: 0 };
+    }
+
+    const scored = validation.map(sample => ({
+      score: (randomForest.predictProba(sample.features) + xgboost.predictProba(sample.features)) / 2,
+      target: sample.target
+    }));
+
+    const truePositive = scored.filter(s => s.score > 0.5 && s.target === 1).length;
+    const falsePositive = scored.filter(s => s.score > 0.5 && s.target === 0).length;
+    const falseNegative = scored.filter(s => s.score <= 0.5 && s.target === 1).length;
+    const correct = scored.filter(s => (s.score > 0.5 ? 1 : 0) === s.target).length;
+
+    const precision = truePositive + falsePositive > 0 ? truePositive / (truePositive + falsePositive) : 0;
+    const recall = truePositive + falseNegative > 0 ? truePositive / (truePositive + falseNegative) : 0;
+
+    // AUC как доля пар (положительный, отрицательный), упорядоченных верно
+    const positives = scored.filter(s => s.target === 1).map(s => s.score);
+    const negatives = scored.filter(s => s.target === 0).map(s => s.score);
+    let orderedPairs = 0;
+    positives.forEach(p => negatives.forEach(n => {
+      orderedPairs += p > n ? 1 : p === n ? 0.5 : 0;
+    }));
 
     return {
-      hiddenState: newHiddenState,
-      cellState: newCellState
+      accuracy: correct / scored.length,
+      precision,
+      recall,
+      f1Score: precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0,
+      auc: positives.length > 0 && negatives.length > 0 ? orderedPairs / (positives.length * negatives.length) : 0
     };
   }
 
+  private async predictRandomForest(features: number[]): Promise<number | null> {
+    const model = this.ensembleModel.randomForest;
+    if (!model || model.featureCount !== features.length) return null;
+    return model.predictProba(features.map(value => (Number.isFinite(value) ? value : 0)));
+  }
+
+  private async predictXGBoost(features: number[]): Promise<number | null> {
+    const model = this.ensembleModel.xgboost;
+    if (!model || model.featureCount !== features.length) return null;
+    return model.predictProba(features.map(value => (Number.isFinite(value) ? value : 0)));
+  }
+
+  /**
+   * Прогноз рекуррентной сети по окну из sequenceLength последних свечей; null без обученной сети или истории
+   */
+  private async predictLSTM(candles: CandleData[], currentIndex: number): Promise<number | null> {
+    const model = this.ensembleModel.lstm;
+    if (!model || currentIndex - model.sequenceLength + 1 < 0) return null;
+
+    const sequence: number[][] = [];
+    for (let i = currentIndex - model.sequenceLength + 1; i <= currentIndex; i++) {
+      const features = this.extractAdvancedFeatures(candles, i);
+      if (features.length !== model.inputSize) return null;
+      sequence.push(features.map(value => (Number.isFinite(value) ? value : 0)));
+    }
+
+    return model.predictProba(sequence);
+  }
+
   private initializeAdvancedNN(): AdvancedNeuralNetwork {
     return {
       layers: {
@@ -481,8 +640,9 @@ export class ProfessionalMLService {
   private async predictNeuralNetwork(features: number[]): Promise<number> {
     const nn = this.ensembleModel.neuralNetwork;
     
-    // Forward pass через все скрытые слои
-    let currentActivation = features.slice(0, 50);
+    // Forward pass через все скрытые слои; недостающие входы дополняются нулями
+    const inputSize = nn.layers.input.length;
+    let currentActivation = Array.from({ length: inputSize }, (_, i) => features[i] ?? 0);
     
     // Первый скрытый слой
     currentActivation = this.matrixMultiply([currentActivation], nn.weights.inputHidden)[0]
@@ -530,10 +690,6 @@ export class ProfessionalMLService {
     return result;
   }
 
-  private dotProduct(a: number[], b: number[]): number {
-    return a.reduce((sum, val, idx) => sum + val * (b[idx] || 0), 0);
-  }
-
   private sigmoid(x: number): number {
     return 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
   }
@@ -561,7 +717,10 @@ export class ProfessionalMLService {
     return Math.min(100, Math.max(0, (volatility + momentum) * 50));
   }
 
-  private classifyMarketCondition(features: number[]): string {
+  private classifyMarketCondition(features: number[], candles: CandleData[]): string {
+    const label = marketRegimeService.isFitted() ? marketRegimeService.currentRegime(candles) : null;
+    if (label) return MARKET_REGIME_NAMES[label.regime];
+
     const volatility = features[features.length - 1] || 0;
     const trend = features[features.length - 2] || 0;
     
@@ -706,111 +865,6 @@ export class ProfessionalMLService {
     return {k, d};
   }
 
-  private calculateWilliamsR(candles: CandleData[], period: number = 14): number {
-    const stoch = this.calculateStochastic(candles, period, 1);
-    return stoch.k - 100;
-  }
-
-  private calculateCCI(candles: CandleData[], period: number = 20): number {
-    if (candles.length < period) return 0;
-
-    const recentCandles = candles.slice(-period);
-    const typicalPrices = recentCandles.map(c => (c.high + c.low + c.close) / 3);
-    const sma = typicalPrices.reduce((sum, tp) => sum + tp, 0) / period;
-    
-    const meanDeviation = typicalPrices.reduce((sum, tp) => sum + Math.abs(tp - sma), 0) / period;
-    const currentTypicalPrice = typicalPrices[typicalPrices.length - 1];
-    
-    return meanDeviation === 0 ? 0 : (currentTypicalPrice - sma) / (0.015 * meanDeviation);
-  }
-
-  private calculateATR(candles: CandleData[], period: number = 14): number {
-    if (candles.length < 2) return 0;
-    
-    const trueRanges = [];
-    
-    for (let i = 1; i < candles.length; i++) {
-      const high = candles[i].high;
-      const low = candles[i].low;
-      const prevClose = candles[i - 1].close;
-      
-      const tr = Math.max(
-        high - low,
-        Math.abs(high - prevClose),
-        Math.abs(low - prevClose)
-      );
-      
-      trueRanges.push(tr);
-    }
-    
-    const recentTR = trueRanges.slice(-period);
-    return recentTR.reduce((sum, tr) => sum + tr, 0) / recentTR.length;
-  }
-
-  private calculateADX(candles: CandleData[], period: number = 14): 
-    {adx: number, diPlus: number, diMinus: number} {
-    
-    if (candles.length < period + 1) return {adx: 25, diPlus: 25, diMinus: 25};
-    
-    const dmPlus: number[] = [];
-    const dmMinus: number[] = [];
-    const tr: number[] = [];
-
-    // Расчет DM+ DM- и TR
-    for (let i = 1; i < candles.length; i++) {
-      const high = candles[i].high;
-      const low = candles[i].low;
-      const prevHigh = candles[i - 1].high;
-      const prevLow = candles[i - 1].low;
-      const prevClose = candles[i - 1].close;
-
-      const upMove = high - prevHigh;
-      const downMove = prevLow - low;
-
-      dmPlus.push(upMove > downMove && upMove > 0 ? upMove : 0);
-      dmMinus.push(downMove > upMove && downMove > 0 ? downMove : 0);
-
-      const trueRange = Math.max(
-        high - low,
-        Math.abs(high - prevClose),
-        Math.abs(low - prevClose)
-      );
-      tr.push(trueRange);
-    }
-
-    // Сглаженные значения
-    const smoothDMPlus = this.wilderSmooth(dmPlus, period);
-    const smoothDMMinus = this.wilderSmooth(dmMinus, period);
-    const smoothTR = this.wilderSmooth(tr, period);
-
-    if (smoothTR === 0) return {adx: 25, diPlus: 25, diMinus: 25};
-
-    const diPlus = (smoothDMPlus / smoothTR) * 100;
-    const diMinus = (smoothDMMinus / smoothTR) * 100;
-
-    const dx = Math.abs(diPlus - diMinus) / (diPlus + diMinus) * 100;
-    
-    return {
-      adx: isNaN(dx) ? 25 : Math.min(100, Math.max(0, dx)),
-      diPlus,
-      diMinus
-    };
-  }
-
-  private wilderSmooth(values: number[], period: number): number {
-    if (values.length === 0) return 0;
-    if (values.length < period) return values.reduce((sum, val) => sum + val, 0) / values.length;
-    
-    let sum = values.slice(0, period).reduce((s, v) => s + v, 0);
-    let smoothed = sum / period;
-    
-    for (let i = period; i < values.length; i++) {
-      smoothed = (smoothed * (period - 1) + values[i]) / period;
-    }
-    
-    return smoothed;
-  }
-
   private calculateParabolicSAR(candles: CandleData[]): number {
     // Упрощенная реализация Parabolic SAR
     if (candles.length < 2) return candles[candles.length - 1]?.close || 0;
@@ -825,131 +879,16 @@ export class ProfessionalMLService {
     return trend > 0 ? current.low * (1 - af) : current.high * (1 + af);
   }
 
-  private calculateIchimoku(candles: CandleData[]): 
-    {tenkanSen: number, kijunSen: number, senkouSpanA: number, senkouSpanB: number} {
-    
-    if (candles.length < 52) {
-      const price = candles[candles.length - 1]?.close || 0;
-      return {tenkanSen: price, kijunSen: price, senkouSpanA: price, senkouSpanB: price};
-    }
-    
-    // Tenkan-sen (9-period)
-    const tenkanPeriod = candles.slice(-9);
-    const tenkanHigh = Math.max(...tenkanPeriod.map(c => c.high));
-    const tenkanLow = Math.min(...tenkanPeriod.map(c => c.low));
-    const tenkanSen = (tenkanHigh + tenkanLow) / 2;
-    
-    // Kijun-sen (26-period)
-    const kijunPeriod = candles.slice(-26);
-    const kijunHigh = Math.max(...kijunPeriod.map(c => c.high));
-    const kijunLow = Math.min(...kijunPeriod.map(c => c.low));
-    const kijunSen = (kijunHigh + kijunLow) / 2;
-    
-    // Senkou Span A
-    const senkouSpanA = (tenkanSen + kijunSen) / 2;
-    
-    // Senkou Span B (52-period)
-    const senkouBPeriod = candles.slice(-52);
-    const senkouBHigh = Math.max(...senkouBPeriod.map(c => c.high));
-    const senkouBLow = Math.min(...senkouBPeriod.map(c => c.low));
-    const senkouSpanB = (senkouBHigh + senkouBLow) / 2;
-    
-    return {tenkanSen, kijunSen, senkouSpanA, senkouSpanB};
-  }
-
-  private calculateOBV(candles: CandleData[]): number {
-    let obv = 0;
-    
-    for (let i = 1; i < candles.length; i++) {
-      if (candles[i].close > candles[i - 1].close) {
-        obv += candles[i].volume;
-      } else if (candles[i].close < candles[i - 1].close) {
-        obv -= candles[i].volume;
-      }
-    }
-    
-    return obv;
-  }
-
   private calculateVolumeProfile(candles: CandleData[]): {pocPrice: number, valueArea: number} {
-    // Point of Control (POC) и Value Area
-    const priceVolume = new Map<number, number>();
-    
-    candles.forEach(candle => {
-      const price = Math.round(((candle.high + candle.low + candle.close) / 3) * 100) / 100;
-      priceVolume.set(price, (priceVolume.get(price) || 0) + candle.volume);
-    });
-    
-    let maxVolume = 0;
-    let pocPrice = 0;
-    
-    priceVolume.forEach((volume, price) => {
-      if (volume > maxVolume) {
-        maxVolume = volume;
-        pocPrice = price;
-      }
-    });
-    
-    // Value Area (70% объема)
-    const totalVolume = Array.from(priceVolume.values()).reduce((sum, vol) => sum + vol, 0);
-    const targetVolume = totalVolume * 0.7;
-    
-    let valueAreaVolume = 0;
-    let valueArea = 0;
-    
-    const sortedPrices = Array.from(priceVolume.entries())
-      .sort(([, volA], [, volB]) => volB - volA);
-    
-    for (const [price, volume] of sortedPrices) {
-      valueAreaVolume += volume;
-      valueArea = price;
-      if (valueAreaVolume >= targetVolume) break;
-    }
-    
-    return {pocPrice, valueArea};
-  }
-
-  private calculateVWAP(candles: CandleData[]): number {
-    const totalVolume = candles.reduce((sum, c) => sum + c.volume, 0);
-    
-    if (totalVolume === 0) return candles[candles.length - 1]?.close || 0;
-    
-    const vwap = candles.reduce((sum, c) => {
-      const typicalPrice = (c.high + c.low + c.close) / 3;
-      return sum + (typicalPrice * c.volume);
-    }, 0) / totalVolume;
-    
-    return vwap;
-  }
-
-  private calculateMFI(candles: CandleData[], period: number = 14): number {
-    if (candles.length < period + 1) return 50;
-    
-    const moneyFlows = [];
-    
-    for (let i = 1; i < candles.length; i++) {
-      const typicalPrice = (candles[i].high + candles[i].low + candles[i].close) / 3;
-      const prevTypicalPrice = (candles[i-1].high + candles[i-1].low + candles[i-1].close) / 3;
-      const moneyFlow = typicalPrice * candles[i].volume;
-      
-      moneyFlows.push({
-        moneyFlow,
-        isPositive: typicalPrice > prevTypicalPrice
-      });
-    }
-    
-    const recentFlows = moneyFlows.slice(-period);
-    const positiveFlow = recentFlows
-      .filter(mf => mf.isPositive)
-      .reduce((sum, mf) => sum + mf.moneyFlow, 0);
-    const negativeFlow = recentFlows
-      .filter(mf => !mf.isPositive)
-      .reduce((sum, mf) => sum + mf.moneyFlow, 0);
-    
-    if (negativeFlow === 0) return 100;
-    
-    const moneyRatio = positiveFlow / negativeFlow;
-    return 100 - (100 / (1 + moneyRatio));
+    // Point of Control (POC) и Value Area (70% объема)
+    const profile = volumeProfileService.buildProfile(candles);
+    if (!profile) return {pocPrice: 0, valueArea: 0};
+    
+    // valueArea - ценовой уровень, как и у обученных моделей: граница Value Area, дальняя от POC
+    const valueArea = profile.valueAreaHigh - profile.poc >= profile.poc - profile.valueAreaLow
+      ? profile.valueAreaHigh
+      : profile.valueAreaLow;
+    return {pocPrice: profile.poc, valueArea};
   }
 
   private calculateADL(candles: CandleData[]): number {
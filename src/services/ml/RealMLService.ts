@@ -2,6 +2,7 @@ import { CandleData } from '@/types/session';
 import { PredictionResult, PredictionConfig } from '@/types/trading';
 import { TechnicalIndicatorService } from '../indicators/TechnicalIndicators';
 import { PatternAnalysisService } from '../patterns/PatternAnalysis';
+import { candlestickPatternRegistry } from '../patterns/CandlestickPatternRegistry';
 import { SecureRandom } from '@/utils/secureCrypto';
 import { logger } from '@/utils/logger';
 
@@ -186,7 +187,8 @@ export class RealMLService {
         confidence: Math.round(confidence * 10) / 10,
         interval: config.predictionInterval,
         factors: this.generateFactors(features, output),
-        recommendation: this.generateRecommendation(direction, adjustedProbability, confidence, features)
+        recommendation: this.generateRecommendation(direction, adjustedProbability, confidence, features),
+        features: normalizedInput
       };
 
     } catch (error) {
@@ -311,12 +313,7 @@ export class RealMLService {
   }
 
   private encodePattern(pattern: string | null): number {
-    const patterns: { [key: string]: number } = {
-      'Doji': 0.1, 'Hammer': 0.2, 'Shooting Star': 0.3,
-      'Bullish Engulfing': 0.4, 'Bearish Engulfing': 0.5,
-      'Three White Soldiers': 0.6, 'Three Black Crows': 0.7
-    };
-    return pattern ? (patterns[pattern] || 0) : 0;
+    return candlestickPatternRegistry.encode(pattern);
   }
 
   private getMaxVolume(candles: CandleData[]): number {
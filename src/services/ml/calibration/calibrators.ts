@@ -0,0 +1,140 @@
+/**
+ * Probability recalibration maps.
+ * Both calibrators map a model's probability that its predicted direction is
+ * right to the empirical hit rate. They are plain data, so they can be stored
+ * and restored without refitting.
+ */
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+export type Calibrator =
+  /** P = sigmoid(a * logit(p) + b) */
+  | { method: 'platt'; a: number; b: number }
+  /** Pool-adjacent-violators blocks: non-decreasing values at increasing thresholds, interpolated between */
+  | { method: 'isotonic'; thresholds: number[]; values: number[] };
+
+/** One resolved prediction: probability in [0, 1] and whether it came true */
+export interface CalibrationSample {
+  probability: number;
+  outcome: boolean;
+}
+
+const EPSILON = 1e-6;
+
+const clamp = (p: number): number => Math.min(1 - EPSILON, Math.max(EPSILON, p));
+const logit = (p: number): number => Math.log(clamp(p) / (1 - clamp(p)));
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
+
+/**
+ * Platt scaling on the logit of the raw probability, fitted with Newton's
+ * method and a backtracking line search (Lin, Lin & Weng). Targets are
+ * smoothed as in Platt's paper, so separable samples do not drive the
+ * parameters to infinity.
+ */
+export function fitPlatt(samples: CalibrationSample[], maxIterations = 100): Calibrator {
+  const positives = samples.filter(s => s.outcome).length;
+  const negatives = samples.length - positives;
+  const hiTarget = (positives + 1) / (positives + 2);
+  const loTarget = 1 / (negatives + 2);
+  const xs = samples.map(s => logit(s.probability));
+  const ts = samples.map(s => (s.outcome ? hiTarget : loTarget));
+
+  // Кросс-энтропия в устойчивой к переполнению форме
+  const objective = (a: number, b: number): number => xs.reduce((sum, x, i) => {
+    const z = a * x + b;
+    return sum + (z >= 0 ? (1 - ts[i]) * z + Math.log1p(Math.exp(-z)) : -ts[i] * z + Math.log1p(Math.exp(z)));
+  }, 0);
+
+  // Старт с тождественного отображения
+  let a = 1;
+  let b = 0;
+  let value = objective(a, b);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let gA = 0, gB = 0, hAA = 1e-12, hAB = 0, hBB = 1e-12;
+    xs.forEach((x, i) => {
+      const p = sigmoid(a * x + b);
+      const d = p - ts[i];
+      const w = p * (1 - p);
+      gA += d * x;
+      gB += d;
+      hAA += w * x * x;
+      hAB += w * x;
+      hBB += w;
+    });
+
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-12) break;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+
+    // Полный шаг Ньютона на почти разделимых данных расходится — уменьшаем, пока функция не убывает
+    const decrease = gA * stepA + gB * stepB;
+    let scale = 1;
+    while (scale >= 1e-10) {
+      const candidate = objective(a - scale * stepA, b - scale * stepB);
+      if (candidate <= value - 1e-4 * scale * decrease) {
+        value = candidate;
+        break;
+      }
+      scale /= 2;
+    }
+    if (scale < 1e-10) break;
+
+    a -= scale * stepA;
+    b -= scale * stepB;
+    if (Math.abs(scale * stepA) < 1e-9 && Math.abs(scale * stepB) < 1e-9) break;
+  }
+
+  return { method: 'platt', a, b };
+}
+
+/**
+ * Isotonic regression by pool-adjacent-violators
+ */
+export function fitIsotonic(samples: CalibrationSample[]): Calibrator {
+  const sorted = [...samples].sort((x, y) => x.probability - y.probability);
+  const blocks: Array<{ sumP: number; sumY: number; count: number }> = [];
+
+  sorted.forEach(({ probability, outcome }) => {
+    blocks.push({ sumP: probability, sumY: outcome ? 1 : 0, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sumY / previous.count <= last.sumY / last.count) break;
+      blocks.pop();
+      previous.sumP += last.sumP;
+      previous.sumY += last.sumY;
+      previous.count += last.count;
+    }
+  });
+
+  return {
+    method: 'isotonic',
+    thresholds: blocks.map(block => block.sumP / block.count),
+    values: blocks.map(block => block.sumY / block.count)
+  };
+}
+
+export function fitCalibrator(method: CalibrationMethod, samples: CalibrationSample[]): Calibrator {
+  return method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples);
+}
+
+/**
+ * Recalibrated probability in [0, 1]
+ */
+export function applyCalibrator(calibrator: Calibrator, probability: number): number {
+  if (calibrator.method === 'platt') {
+    return sigmoid(calibrator.a * logit(probability) + calibrator.b);
+  }
+
+  const { thresholds, values } = calibrator;
+  if (thresholds.length === 0) return probability;
+  if (probability <= thresholds[0]) return values[0];
+  if (probability >= thresholds[thresholds.length - 1]) return values[values.length - 1];
+
+  const upper = thresholds.findIndex(t => t >= probability);
+  const lower = upper - 1;
+  const span = thresholds[upper] - thresholds[lower];
+  const weight = span > 0 ? (probability - thresholds[lower]) / span : 0;
+  return values[lower] + (values[upper] - values[lower]) * weight;
+}
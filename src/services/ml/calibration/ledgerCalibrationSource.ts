@@ -0,0 +1,33 @@
+/**
+ * Resolved predictions of the prediction ledger as calibration input.
+ * The ledger knows the session of every entry, the session knows the pair.
+ */
+
+import { predictionLedger } from '@/domains/prediction/infrastructure/PredictionLedger';
+import { sessionService } from '@/services/sessionService';
+import { calibrationService, CalibrationSource, ModelPrediction } from '../CalibrationService';
+
+export const ledgerCalibrationSource: CalibrationSource = {
+  async loadResolvedPredictions(): Promise<ModelPrediction[]> {
+    const [sessions, entries] = await Promise.all([sessionService.loadSessions(), predictionLedger.loadResolved()]);
+    const pairs = new Map(sessions.map(session => [session.id, session.pair]));
+
+    return entries
+      .filter(entry => pairs.has(entry.sessionId))
+      .map(entry => ({
+        model: entry.modelId,
+        pair: pairs.get(entry.sessionId)!,
+        probability: entry.rawProbability,
+        correct: entry.outcome!.correct
+      }));
+  }
+};
+
+/**
+ * Fit the calibrators at app start, so the first predictions are already recalibrated
+ */
+export const startPredictionCalibration = (): Promise<void> =>
+  calibrationService
+    .ensureFitted(ledgerCalibrationSource)
+    .then(fitted => console.log(`Calibration: fitted ${fitted} calibrators`))
+    .catch(error => console.warn('Calibration: failed to fit calibrators:', error));
@@ -0,0 +1,133 @@
+/**
+ * Feature-schema manifest of an ONNX model.
+ * The manifest names the feature in every input slot and, optionally, the
+ * scaler the model was trained with. It travels inside the model file as
+ * JSON under metadata_props['feature_schema'], so a model trained in Python
+ * only needs, e.g. with the onnx package:
+ *
+ *   entry = model.metadata_props.add()
+ *   entry.key = 'feature_schema'
+ *   entry.value = json.dumps({'version': 1, 'source': 'FeatureExtractionService.flattenFeatures',
+ *                             'features': ['rsi', 'macd_line', ...]})
+ *
+ * Before inference the names are compared slot by slot with
+ * FeatureExtractionService.flattenFeatureNames.
+ */
+
+import type { FeatureScaler } from '../registry/ModelArtifact';
+import { OnnxModelError, OnnxModelInfo } from './onnx-model';
+
+export const FEATURE_SCHEMA_METADATA_KEY = 'feature_schema';
+export const FEATURE_MANIFEST_VERSION = 1;
+
+export interface FeatureSchemaManifest {
+  version: number;
+  /** Extractor that produces the input vector, e.g. 'FeatureExtractionService.flattenFeatures' */
+  source: string;
+  /** Feature name per input slot */
+  features: string[];
+  /** Scaling applied to the raw vector before it is fed to the model */
+  scaler?: FeatureScaler;
+}
+
+const isFiniteArray = (values: unknown, length: number): boolean =>
+  Array.isArray(values) && values.length === length && values.every(Number.isFinite);
+
+/**
+ * Checks a manifest parsed from JSON and returns it typed
+ */
+export function validateFeatureManifest(value: unknown): FeatureSchemaManifest {
+  const manifest = value as Partial<FeatureSchemaManifest> | null;
+  if (!manifest || typeof manifest !== 'object') {
+    throw new OnnxModelError('Манифест признаков должен быть объектом', 'INVALID_MANIFEST');
+  }
+  if (manifest.version !== FEATURE_MANIFEST_VERSION) {
+    throw new OnnxModelError(`Неподдерживаемая версия манифеста признаков: ${manifest.version}`, 'INVALID_MANIFEST');
+  }
+  if (typeof manifest.source !== 'string' || !manifest.source) {
+    throw new OnnxModelError('В манифесте признаков не указан источник вектора', 'INVALID_MANIFEST');
+  }
+
+  const features = manifest.features;
+  if (!Array.isArray(features) || features.length === 0 || features.some(name => typeof name !== 'string' || !name)) {
+    throw new OnnxModelError('В манифесте признаков должен быть непустой список имен', 'INVALID_MANIFEST');
+  }
+  const duplicate = features.find((name, i) => features.indexOf(name) !== i);
+  if (duplicate) {
+    throw new OnnxModelError(`Признак ${duplicate} указан в манифесте дважды`, 'INVALID_MANIFEST');
+  }
+
+  const scaler = manifest.scaler;
+  if (scaler) {
+    const [first, second] = scaler.method === 'zscore' ? [scaler.mean, scaler.std]
+      : scaler.method === 'minmax' ? [scaler.min, scaler.max] : [undefined, undefined];
+    if (!isFiniteArray(first, features.length) || !isFiniteArray(second, features.length)) {
+      throw new OnnxModelError('Параметры нормализации в манифесте не соответствуют числу признаков', 'INVALID_MANIFEST');
+    }
+  }
+
+  return {
+    version: manifest.version,
+    source: manifest.source,
+    features: [...features],
+    ...(scaler ? { scaler } : {})
+  };
+}
+
+export const serializeFeatureManifest = (manifest: FeatureSchemaManifest): string =>
+  JSON.stringify(validateFeatureManifest(manifest));
+
+/**
+ * Manifest stored in the model metadata, or null when the model has none
+ */
+export function readFeatureManifest(info: OnnxModelInfo): FeatureSchemaManifest | null {
+  const raw = info.metadata[FEATURE_SCHEMA_METADATA_KEY];
+  if (raw === undefined) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new OnnxModelError('Манифест признаков в метаданных модели не является JSON', 'INVALID_MANIFEST');
+  }
+  return validateFeatureManifest(parsed);
+}
+
+/**
+ * Throws on the first slot where the model expects a different feature than the extractor provides
+ */
+export function checkFeatureSchema(manifest: FeatureSchemaManifest, names: string[]): void {
+  if (names.length !== manifest.features.length) {
+    throw new OnnxModelError(
+      `Модель ожидает ${manifest.features.length} признаков, получено ${names.length}`,
+      'SCHEMA_MISMATCH'
+    );
+  }
+
+  const slot = manifest.features.findIndex((name, i) => name !== names[i]);
+  if (slot !== -1) {
+    throw new OnnxModelError(
+      `Признак в позиции ${slot}: модель ожидает ${manifest.features[slot]}, получен ${names[slot]}`,
+      'SCHEMA_MISMATCH'
+    );
+  }
+}
+
+/**
+ * Checks that the manifest fits the model's single input of shape [batch, features]
+ */
+export function checkManifestAgainstModel(manifest: FeatureSchemaManifest, info: OnnxModelInfo): OnnxModelInfo['inputs'][number] {
+  if (info.inputs.length !== 1) {
+    throw new OnnxModelError(`Поддерживаются модели с одним входом, у модели их ${info.inputs.length}`, 'UNSUPPORTED_MODEL');
+  }
+
+  const [input] = info.inputs;
+  const featureDim = input.shape[input.shape.length - 1];
+  if (input.shape.length !== 2 || (typeof featureDim === 'number' && featureDim !== manifest.features.length)) {
+    throw new OnnxModelError(
+      `Вход ${input.name} формы [${input.shape.join(', ')}] не соответствует ${manifest.features.length} признакам манифеста`,
+      'SCHEMA_MISMATCH'
+    );
+  }
+  return input;
+}
@@ -0,0 +1,167 @@
+/**
+ * ONNX export of the MLPs trained by NetworkTrainingService.
+ * The graph repeats their forward pass — Gemm → Relu → Gemm → Sigmoid — and
+ * returns [P(up), P(down)] per row, the layout OnnxInferenceService reads.
+ * The feature manifest is embedded in the model metadata.
+ */
+
+import type { NetworkWeights } from '../NetworkTrainingService';
+import {
+  FEATURE_SCHEMA_METADATA_KEY,
+  FeatureSchemaManifest,
+  serializeFeatureManifest
+} from './feature-manifest';
+import {
+  ATTRIBUTE_FIELDS,
+  ATTRIBUTE_INT,
+  DIM_FIELDS,
+  GRAPH_FIELDS,
+  MODEL_FIELDS,
+  NODE_FIELDS,
+  ONNX_IR_VERSION,
+  ONNX_OPSET_VERSION,
+  OnnxModelError,
+  OPSET_FIELDS,
+  SHAPE_FIELDS,
+  STRING_ENTRY_FIELDS,
+  TENSOR_FIELDS,
+  TENSOR_FLOAT,
+  TENSOR_TYPE_FIELDS,
+  TYPE_FIELDS,
+  VALUE_INFO_FIELDS
+} from './onnx-model';
+import { ProtoWriter } from './protobuf';
+
+export const ONNX_INPUT_NAME = 'input';
+export const ONNX_OUTPUT_NAME = 'output';
+
+export interface OnnxExportOptions {
+  graphName: string;
+  producerName: string;
+  producerVersion: string;
+  /** Integer ModelProto.model_version */
+  modelVersion: number;
+  docString?: string;
+  /** Extra metadata_props next to the feature manifest */
+  metadata?: Record<string, string>;
+}
+
+const DEFAULT_EXPORT_OPTIONS: OnnxExportOptions = {
+  graphName: 'network_training_mlp',
+  producerName: 'NetworkTrainingService',
+  producerVersion: '1.0.0',
+  modelVersion: 1
+};
+
+interface NodeSpec {
+  opType: string;
+  inputs: string[];
+  outputs: string[];
+  intAttributes?: Record<string, number>;
+}
+
+const floatBytes = (values: number[]): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(values.length * 4));
+  values.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  return new Uint8Array(view.buffer);
+};
+
+const writeTensor = (writer: ProtoWriter, name: string, dims: number[], values: number[]) => {
+  dims.forEach(dim => writer.varint(TENSOR_FIELDS.dims, dim));
+  writer
+    .varint(TENSOR_FIELDS.dataType, TENSOR_FLOAT)
+    .string(TENSOR_FIELDS.name, name)
+    .bytes(TENSOR_FIELDS.rawData, floatBytes(values));
+};
+
+const writeValueInfo = (writer: ProtoWriter, name: string, shape: Array<number | string>) => {
+  writer.string(VALUE_INFO_FIELDS.name, name).message(VALUE_INFO_FIELDS.type, type =>
+    type.message(TYPE_FIELDS.tensorType, tensor =>
+      tensor.varint(TENSOR_TYPE_FIELDS.elemType, TENSOR_FLOAT).message(TENSOR_TYPE_FIELDS.shape, shapeWriter =>
+        shape.forEach(dim => shapeWriter.message(SHAPE_FIELDS.dim, dimWriter => {
+          if (typeof dim === 'number') dimWriter.varint(DIM_FIELDS.dimValue, dim);
+          else dimWriter.string(DIM_FIELDS.dimParam, dim);
+        }))
+      )
+    )
+  );
+};
+
+const writeNode = (writer: ProtoWriter, node: NodeSpec, index: number) => {
+  node.inputs.forEach(input => writer.string(NODE_FIELDS.input, input));
+  node.outputs.forEach(output => writer.string(NODE_FIELDS.output, output));
+  writer.string(NODE_FIELDS.name, `${node.opType.toLowerCase()}_${index}`).string(NODE_FIELDS.opType, node.opType);
+  Object.entries(node.intAttributes ?? {}).forEach(([name, value]) =>
+    writer.message(NODE_FIELDS.attribute, attribute =>
+      attribute.string(ATTRIBUTE_FIELDS.name, name).varint(ATTRIBUTE_FIELDS.i, value).varint(ATTRIBUTE_FIELDS.type, ATTRIBUTE_INT)
+    )
+  );
+};
+
+/**
+ * Serialized ONNX model computing the same probabilities as NetworkTrainingService.predict
+ */
+export function exportNetworkToOnnx(
+  weights: NetworkWeights,
+  manifest: FeatureSchemaManifest,
+  options: Partial<OnnxExportOptions> = {}
+): Uint8Array {
+  const config = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  const inputSize = weights.input_hidden.length;
+  const hiddenSize = weights.hidden_bias.length;
+
+  if (manifest.features.length !== inputSize) {
+    throw new OnnxModelError(
+      `Манифест описывает ${manifest.features.length} признаков, сеть принимает ${inputSize}`,
+      'SCHEMA_MISMATCH'
+    );
+  }
+  const shapesValid = hiddenSize > 0 &&
+    weights.input_hidden.every(row => row.length === hiddenSize) &&
+    weights.hidden_output.length === hiddenSize;
+  if (!shapesValid) {
+    throw new OnnxModelError('Размеры матриц весов сети не согласованы', 'INVALID_WEIGHTS');
+  }
+  const metadata = { ...config.metadata, [FEATURE_SCHEMA_METADATA_KEY]: serializeFeatureManifest(manifest) };
+
+  const initializers: Array<[string, number[], number[]]> = [
+    ['input_hidden', [inputSize, hiddenSize], weights.input_hidden.flat()],
+    ['hidden_bias', [hiddenSize], weights.hidden_bias],
+    ['hidden_output', [hiddenSize, 1], weights.hidden_output],
+    ['output_bias', [1], [weights.output_bias]],
+    ['one', [1], [1]]
+  ];
+
+  const nodes: NodeSpec[] = [
+    { opType: 'Gemm', inputs: [ONNX_INPUT_NAME, 'input_hidden', 'hidden_bias'], outputs: ['hidden_linear'] },
+    { opType: 'Relu', inputs: ['hidden_linear'], outputs: ['hidden'] },
+    { opType: 'Gemm', inputs: ['hidden', 'hidden_output', 'output_bias'], outputs: ['logit'] },
+    { opType: 'Sigmoid', inputs: ['logit'], outputs: ['probability_up'] },
+    { opType: 'Sub', inputs: ['one', 'probability_up'], outputs: ['probability_down'] },
+    { opType: 'Concat', inputs: ['probability_up', 'probability_down'], outputs: [ONNX_OUTPUT_NAME], intAttributes: { axis: 1 } }
+  ];
+
+  const writer = new ProtoWriter()
+    .varint(MODEL_FIELDS.irVersion, ONNX_IR_VERSION)
+    .string(MODEL_FIELDS.producerName, config.producerName)
+    .string(MODEL_FIELDS.producerVersion, config.producerVersion)
+    .varint(MODEL_FIELDS.modelVersion, config.modelVersion);
+  if (config.docString) writer.string(MODEL_FIELDS.docString, config.docString);
+
+  writer.message(MODEL_FIELDS.graph, graph => {
+    nodes.forEach((node, index) => graph.message(GRAPH_FIELDS.node, nodeWriter => writeNode(nodeWriter, node, index)));
+    graph.string(GRAPH_FIELDS.name, config.graphName);
+    initializers.forEach(([name, dims, values]) =>
+      graph.message(GRAPH_FIELDS.initializer, tensor => writeTensor(tensor, name, dims, values)));
+    graph.message(GRAPH_FIELDS.input, input => writeValueInfo(input, ONNX_INPUT_NAME, ['batch', inputSize]));
+    graph.message(GRAPH_FIELDS.output, output => writeValueInfo(output, ONNX_OUTPUT_NAME, ['batch', 2]));
+  });
+
+  writer.message(MODEL_FIELDS.opsetImport, opset =>
+    opset.string(OPSET_FIELDS.domain, '').varint(OPSET_FIELDS.version, ONNX_OPSET_VERSION));
+  Object.entries(metadata).forEach(([key, value]) =>
+    writer.message(MODEL_FIELDS.metadataProps, entry =>
+      entry.string(STRING_ENTRY_FIELDS.key, key).string(STRING_ENTRY_FIELDS.value, value)));
+
+  return writer.finish();
+}
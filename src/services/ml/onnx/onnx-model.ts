@@ -0,0 +1,192 @@
+/**
+ * Reading the parts of an ONNX ModelProto the app needs before creating a
+ * session: graph inputs and outputs with their shapes, metadata_props,
+ * nodes and float initializers. Field numbers follow onnx/onnx.proto.
+ */
+
+import { decodeProtoString, ProtoField, readProtoFields, readRepeatedVarints } from './protobuf';
+
+export const ONNX_IR_VERSION = 7;
+export const ONNX_OPSET_VERSION = 13;
+export const TENSOR_FLOAT = 1;
+export const ATTRIBUTE_INT = 2;
+
+export const MODEL_FIELDS = {
+  irVersion: 1,
+  producerName: 2,
+  producerVersion: 3,
+  domain: 4,
+  modelVersion: 5,
+  docString: 6,
+  graph: 7,
+  opsetImport: 8,
+  metadataProps: 14
+} as const;
+
+export const GRAPH_FIELDS = { node: 1, name: 2, initializer: 5, input: 11, output: 12 } as const;
+export const NODE_FIELDS = { input: 1, output: 2, name: 3, opType: 4, attribute: 5 } as const;
+export const ATTRIBUTE_FIELDS = { name: 1, i: 3, type: 20 } as const;
+export const TENSOR_FIELDS = { dims: 1, dataType: 2, floatData: 4, name: 8, rawData: 9 } as const;
+export const VALUE_INFO_FIELDS = { name: 1, type: 2 } as const;
+export const TYPE_FIELDS = { tensorType: 1 } as const;
+export const TENSOR_TYPE_FIELDS = { elemType: 1, shape: 2 } as const;
+export const SHAPE_FIELDS = { dim: 1 } as const;
+export const DIM_FIELDS = { dimValue: 1, dimParam: 2 } as const;
+export const OPSET_FIELDS = { domain: 1, version: 2 } as const;
+export const STRING_ENTRY_FIELDS = { key: 1, value: 2 } as const;
+
+export interface OnnxValueInfo {
+  name: string;
+  /** Fixed sizes as numbers, symbolic ones (e.g. 'batch') as strings */
+  shape: Array<number | string>;
+}
+
+export interface OnnxNodeInfo {
+  opType: string;
+  inputs: string[];
+  outputs: string[];
+  /** Integer attributes only */
+  attributes: Record<string, number>;
+}
+
+export interface OnnxInitializerInfo {
+  name: string;
+  dims: number[];
+  /** Float tensors only; null for other data types */
+  values: Float32Array | null;
+}
+
+export interface OnnxModelInfo {
+  irVersion: number;
+  opsetVersion: number | null;
+  producerName: string;
+  modelVersion: number | null;
+  metadata: Record<string, string>;
+  /** Graph inputs without initializers, i.e. what the caller has to feed */
+  inputs: OnnxValueInfo[];
+  outputs: OnnxValueInfo[];
+  nodes: OnnxNodeInfo[];
+  initializers: OnnxInitializerInfo[];
+}
+
+export class OnnxModelError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'OnnxModelError';
+  }
+}
+
+const messages = (fields: ProtoField[], field: number): Uint8Array[] =>
+  fields.filter(entry => entry.field === field && entry.value instanceof Uint8Array).map(entry => entry.value as Uint8Array);
+
+const strings = (fields: ProtoField[], field: number): string[] =>
+  fields.filter(entry => entry.field === field).map(entry => decodeProtoString(entry.value));
+
+const firstString = (fields: ProtoField[], field: number): string => strings(fields, field)[0] ?? '';
+
+const firstNumber = (fields: ProtoField[], field: number): number | null => {
+  const entry = fields.find(candidate => candidate.field === field && typeof candidate.value === 'number');
+  return entry ? (entry.value as number) : null;
+};
+
+function readValueInfo(bytes: Uint8Array): OnnxValueInfo {
+  const fields = readProtoFields(bytes);
+  const shape: Array<number | string> = [];
+
+  messages(fields, VALUE_INFO_FIELDS.type).forEach(type => {
+    messages(readProtoFields(type), TYPE_FIELDS.tensorType).forEach(tensorType => {
+      messages(readProtoFields(tensorType), TENSOR_TYPE_FIELDS.shape).forEach(shapeBytes => {
+        messages(readProtoFields(shapeBytes), SHAPE_FIELDS.dim).forEach(dim => {
+          const dimFields = readProtoFields(dim);
+          shape.push(firstNumber(dimFields, DIM_FIELDS.dimValue) ?? (firstString(dimFields, DIM_FIELDS.dimParam) || '?'));
+        });
+      });
+    });
+  });
+
+  return { name: firstString(fields, VALUE_INFO_FIELDS.name), shape };
+}
+
+function readNode(bytes: Uint8Array): OnnxNodeInfo {
+  const fields = readProtoFields(bytes);
+  const attributes: Record<string, number> = {};
+  messages(fields, NODE_FIELDS.attribute).forEach(attribute => {
+    const attributeFields = readProtoFields(attribute);
+    const value = firstNumber(attributeFields, ATTRIBUTE_FIELDS.i);
+    if (value !== null) attributes[firstString(attributeFields, ATTRIBUTE_FIELDS.name)] = value;
+  });
+
+  return {
+    opType: firstString(fields, NODE_FIELDS.opType),
+    inputs: strings(fields, NODE_FIELDS.input),
+    outputs: strings(fields, NODE_FIELDS.output),
+    attributes
+  };
+}
+
+function readInitializer(bytes: Uint8Array): OnnxInitializerInfo {
+  const fields = readProtoFields(bytes);
+  const dims = readRepeatedVarints(fields, TENSOR_FIELDS.dims);
+  let values: Float32Array | null = null;
+
+  if (firstNumber(fields, TENSOR_FIELDS.dataType) === TENSOR_FLOAT) {
+    // raw_data и float_data (упакованный или поэлементный) — little-endian float32
+    const floatData = messages(fields, TENSOR_FIELDS.floatData);
+    const data = messages(fields, TENSOR_FIELDS.rawData)[0] ??
+      (floatData.length > 0 ? Uint8Array.from(floatData.flatMap(chunk => Array.from(chunk))) : undefined);
+    if (data) {
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      values = Float32Array.from({ length: data.byteLength / 4 }, (_, i) => view.getFloat32(i * 4, true));
+    }
+  }
+
+  return { name: firstString(fields, TENSOR_FIELDS.name), dims, values };
+}
+
+/**
+ * Parses a serialized ModelProto; throws OnnxModelError on bytes that are not an ONNX model
+ */
+export function readOnnxModelInfo(bytes: Uint8Array): OnnxModelInfo {
+  let fields: ProtoField[];
+  try {
+    fields = readProtoFields(bytes);
+  } catch (error) {
+    throw new OnnxModelError(`Файл не является ONNX-моделью: ${(error as Error).message}`, 'INVALID_MODEL');
+  }
+
+  const graph = messages(fields, MODEL_FIELDS.graph)[0];
+  const irVersion = firstNumber(fields, MODEL_FIELDS.irVersion);
+  if (!graph || irVersion === null) {
+    throw new OnnxModelError('Файл не является ONNX-моделью: нет графа или версии IR', 'INVALID_MODEL');
+  }
+
+  try {
+    const graphFields = readProtoFields(graph);
+    const initializers = messages(graphFields, GRAPH_FIELDS.initializer).map(readInitializer);
+    const initializerNames = new Set(initializers.map(initializer => initializer.name));
+
+    const metadata: Record<string, string> = {};
+    messages(fields, MODEL_FIELDS.metadataProps).forEach(entry => {
+      const entryFields = readProtoFields(entry);
+      metadata[firstString(entryFields, STRING_ENTRY_FIELDS.key)] = firstString(entryFields, STRING_ENTRY_FIELDS.value);
+    });
+
+    const defaultOpset = messages(fields, MODEL_FIELDS.opsetImport)
+      .map(readProtoFields)
+      .find(opset => firstString(opset, OPSET_FIELDS.domain) === '');
+
+    return {
+      irVersion,
+      opsetVersion: defaultOpset ? firstNumber(defaultOpset, OPSET_FIELDS.version) : null,
+      producerName: firstString(fields, MODEL_FIELDS.producerName),
+      modelVersion: firstNumber(fields, MODEL_FIELDS.modelVersion),
+      metadata,
+      inputs: messages(graphFields, GRAPH_FIELDS.input).map(readValueInfo).filter(input => !initializerNames.has(input.name)),
+      outputs: messages(graphFields, GRAPH_FIELDS.output).map(readValueInfo),
+      nodes: messages(graphFields, GRAPH_FIELDS.node).map(readNode),
+      initializers
+    };
+  } catch (error) {
+    throw new OnnxModelError(`Поврежденный граф ONNX-модели: ${(error as Error).message}`, 'INVALID_MODEL');
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Minimal protobuf encoding for ONNX files.
+ * Only what ModelProto needs: varints, length-delimited fields (strings,
+ * bytes, nested messages) and skipping fixed-width fields on read.
+ * Written integers must be non-negative and below 2^53; read ones are int64.
+ */
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+export interface ProtoField {
+  field: number;
+  wireType: number;
+  /** Varint value, or the raw bytes of fixed and length-delimited fields */
+  value: number | Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export class ProtoWriter {
+  private chunks: number[] = [];
+
+  varint(field: number, value: number): this {
+    this.tag(field, WIRE_VARINT);
+    this.rawVarint(value);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, textEncoder.encode(value));
+  }
+
+  bytes(field: number, value: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.rawVarint(value.length);
+    for (let i = 0; i < value.length; i++) this.chunks.push(value[i]);
+    return this;
+  }
+
+  message(field: number, build: (writer: ProtoWriter) => void): this {
+    const nested = new ProtoWriter();
+    build(nested);
+    return this.bytes(field, nested.finish());
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.rawVarint(field * 8 + wireType);
+  }
+
+  private rawVarint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new RangeError(`Unsupported varint value: ${value}`);
+    }
+    let rest = value;
+    while (rest >= 0x80) {
+      this.chunks.push((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.chunks.push(rest);
+  }
+}
+
+/**
+ * Top-level fields of a message in file order; nested messages stay as bytes
+ */
+export function readProtoFields(bytes: Uint8Array): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    const start = offset;
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= bytes.length) throw new RangeError('Truncated varint');
+      const byte = bytes[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) break;
+      multiplier *= 0x80;
+    }
+    if (offset - start < 8) return result;
+
+    // int64 хранит отрицательные значения (например, axis=-1) в дополнительном коде
+    let wide = BigInt(0);
+    for (let i = offset - 1; i >= start; i--) {
+      wide = (wide << BigInt(7)) + BigInt(bytes[i] & 0x7f);
+    }
+    return Number(BigInt.asIntN(64, wide));
+  };
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) throw new RangeError('Truncated field');
+    const value = bytes.subarray(offset, offset + length);
+    offset += length;
+    return value;
+  };
+
+  while (offset < bytes.length) {
+    const tag = readVarint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+
+    switch (wireType) {
+      case WIRE_VARINT:
+        fields.push({ field, wireType, value: readVarint() });
+        break;
+      case WIRE_FIXED64:
+        fields.push({ field, wireType, value: take(8) });
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        fields.push({ field, wireType, value: take(readVarint()) });
+        break;
+      case WIRE_FIXED32:
+        fields.push({ field, wireType, value: take(4) });
+        break;
+      default:
+        throw new RangeError(`Unsupported wire type ${wireType} of field ${field}`);
+    }
+  }
+
+  return fields;
+}
+
+export const decodeProtoString = (value: ProtoField['value']): string =>
+  typeof value === 'number' ? String(value) : textDecoder.decode(value);
+
+/**
+ * Values of a repeated integer field, packed or not
+ */
+export function readRepeatedVarints(fields: ProtoField[], field: number): number[] {
+  return fields.filter(entry => entry.field === field).flatMap(entry => {
+    if (typeof entry.value === 'number') return [entry.value];
+    // Упакованное поле: последовательность varint без тегов
+    const values: number[] = [];
+    let result = 0;
+    let multiplier = 1;
+    entry.value.forEach(byte => {
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+      if (byte < 0x80) {
+        values.push(result);
+        result = 0;
+        multiplier = 1;
+      }
+    });
+    return values;
+  });
+}
@@ -0,0 +1,590 @@
+/**
+ * Recurrent binary classifier for candle feature sequences.
+ * An LSTM or GRU layer reads a window of feature rows and a logistic output
+ * reads its last hidden state. Training: minibatches of sliding windows,
+ * backpropagation through the last `bpttSteps` steps of each window, global
+ * gradient-norm clipping, Adam and dropout on the final hidden state. The raw
+ * output is recalibrated with Platt scaling on the held-out windows.
+ */
+
+import { createSeededRandom } from '@/services/backtesting/core/random';
+import { applyCalibrator, Calibrator, fitPlatt } from '../calibration/calibrators';
+
+export type RecurrentCellType = 'lstm' | 'gru';
+
+export interface RecurrentNetworkOptions {
+  cell: RecurrentCellType;
+  hiddenSize: number;
+  /** Feature rows per input window */
+  sequenceLength: number;
+  /** Steps the gradient flows back from the end of a window (truncated BPTT) */
+  bpttSteps: number;
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  /** Adam moment decay rates */
+  beta1: number;
+  beta2: number;
+  /** Largest global L2 norm of a batch gradient */
+  clipNorm: number;
+  /** Share of the final hidden units zeroed during training */
+  dropout: number;
+  seed: number;
+}
+
+/** One training example: feature rows in time order and the 0/1 target after the last row */
+export interface SequenceWindow {
+  sequence: number[][];
+  target: number;
+}
+
+export interface RecurrentEpochMetrics {
+  epoch: number;
+  trainLoss: number;
+  validationLoss: number | null;
+}
+
+export interface RecurrentFitOptions extends Partial<RecurrentNetworkOptions> {
+  /** Held-out windows for the loss history and the Platt calibrator */
+  validation?: SequenceWindow[];
+  onEpoch?: (metrics: RecurrentEpochMetrics, epochs: number) => void;
+}
+
+export interface RecurrentNetworkJSON {
+  type: 'recurrent-network';
+  version: 1;
+  options: RecurrentNetworkOptions;
+  inputSize: number;
+  /** Per-feature standardization fitted on the training rows */
+  featureMeans: number[];
+  featureStds: number[];
+  /** Input weights (gates x hidden by input), recurrent weights (gates x hidden by hidden), gate biases */
+  inputWeights: number[];
+  recurrentWeights: number[];
+  biases: number[];
+  outputWeights: number[];
+  outputBias: number;
+  /** Platt scaling fitted on the validation windows; null without enough of them */
+  calibrator: Calibrator | null;
+  history: RecurrentEpochMetrics[];
+}
+
+export class RecurrentModelError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'RecurrentModelError';
+  }
+}
+
+export const DEFAULT_RECURRENT_OPTIONS: RecurrentNetworkOptions = {
+  cell: 'lstm',
+  hiddenSize: 32,
+  sequenceLength: 20,
+  bpttSteps: 10,
+  epochs: 20,
+  batchSize: 32,
+  learningRate: 0.005,
+  beta1: 0.9,
+  beta2: 0.999,
+  clipNorm: 5,
+  dropout: 0.2,
+  seed: 42
+};
+
+/** Fewer held-out windows than this give Platt scaling nothing to fit */
+const MIN_CALIBRATION_WINDOWS = 10;
+
+const ADAM_EPSILON = 1e-8;
+const PROBABILITY_EPSILON = 1e-7;
+
+/** LSTM gates: input, forget, candidate, output; GRU gates: update, reset, candidate */
+const gateCount = (cell: RecurrentCellType): number => (cell === 'lstm' ? 4 : 3);
+
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
+
+const crossEntropy = (p: number, target: number): number => {
+  const clamped = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p));
+  return target === 1 ? -Math.log(clamped) : -Math.log(1 - clamped);
+};
+
+/**
+ * Windows of `sequenceLength` consecutive rows; the window ending at row i gets targets[i].
+ * Rows with a null target (no outcome yet) end no window
+ */
+export function buildSequenceWindows(
+  rows: number[][],
+  targets: Array<number | null>,
+  sequenceLength: number
+): SequenceWindow[] {
+  const windows: SequenceWindow[] = [];
+  for (let end = sequenceLength - 1; end < rows.length; end++) {
+    const target = targets[end];
+    if (target === null || target === undefined) continue;
+    windows.push({ sequence: rows.slice(end - sequenceLength + 1, end + 1), target });
+  }
+  return windows;
+}
+
+interface Parameters {
+  inputWeights: Float64Array;
+  recurrentWeights: Float64Array;
+  biases: Float64Array;
+  outputWeights: Float64Array;
+  outputBias: Float64Array;
+}
+
+/** Forward-pass values of one step kept for backpropagation */
+interface StepCache {
+  x: Float64Array;
+  hPrev: Float64Array;
+  cPrev: Float64Array;
+  /** Gate activations, laid out like the gate rows of the weights */
+  gates: Float64Array;
+  /** LSTM: tanh of the new cell state; GRU: recurrent candidate term U_n h_prev */
+  extra: Float64Array;
+  h: Float64Array;
+  c: Float64Array;
+}
+
+const PARAMETER_KEYS: Array<keyof Parameters> = ['inputWeights', 'recurrentWeights', 'biases', 'outputWeights', 'outputBias'];
+
+const zerosLike = (params: Parameters): Parameters => ({
+  inputWeights: new Float64Array(params.inputWeights.length),
+  recurrentWeights: new Float64Array(params.recurrentWeights.length),
+  biases: new Float64Array(params.biases.length),
+  outputWeights: new Float64Array(params.outputWeights.length),
+  outputBias: new Float64Array(1)
+});
+
+/**
+ * One recurrent step; fills gates/extra/h/c of the cache
+ */
+function stepForward(cell: RecurrentCellType, params: Parameters, hidden: number, inputSize: number, step: StepCache): void {
+  const { x, hPrev, cPrev, gates, extra, h, c } = step;
+  const G = gateCount(cell);
+  const W = params.inputWeights;
+  const U = params.recurrentWeights;
+
+  for (let row = 0; row < G * hidden; row++) {
+    let sum = params.biases[row];
+    const wOffset = row * inputSize;
+    for (let k = 0; k < inputSize; k++) sum += W[wOffset + k] * x[k];
+
+    const uOffset = row * hidden;
+    let recurrent = 0;
+    for (let k = 0; k < hidden; k++) recurrent += U[uOffset + k] * hPrev[k];
+
+    if (cell === 'gru' && row >= 2 * hidden) {
+      // Кандидат GRU: сброс применяется к рекуррентному вкладу, он нужен отдельно
+      extra[row - 2 * hidden] = recurrent;
+      gates[row] = sum;
+    } else {
+      gates[row] = sum + recurrent;
+    }
+  }
+
+  if (cell === 'lstm') {
+    for (let j = 0; j < hidden; j++) {
+      const i = sigmoid(gates[j]);
+      const f = sigmoid(gates[hidden + j]);
+      const g = Math.tanh(gates[2 * hidden + j]);
+      const o = sigmoid(gates[3 * hidden + j]);
+      gates[j] = i;
+      gates[hidden + j] = f;
+      gates[2 * hidden + j] = g;
+      gates[3 * hidden + j] = o;
+      c[j] = f * cPrev[j] + i * g;
+      extra[j] = Math.tanh(c[j]);
+      h[j] = o * extra[j];
+    }
+  } else {
+    for (let j = 0; j < hidden; j++) {
+      const z = sigmoid(gates[j]);
+      const r = sigmoid(gates[hidden + j]);
+      const n = Math.tanh(gates[2 * hidden + j] + r * extra[j]);
+      gates[j] = z;
+      gates[hidden + j] = r;
+      gates[2 * hidden + j] = n;
+      h[j] = (1 - z) * n + z * hPrev[j];
+    }
+  }
+}
+
+/**
+ * Gradient of one step. `dh`/`dc` arrive from the output and the next step and
+ * are replaced by the gradients for the previous step
+ */
+function stepBackward(
+  cell: RecurrentCellType,
+  params: Parameters,
+  grads: Parameters,
+  hidden: number,
+  inputSize: number,
+  step: StepCache,
+  dh: Float64Array,
+  dc: Float64Array
+): void {
+  const { x, hPrev, cPrev, gates, extra } = step;
+  const G = gateCount(cell);
+  const U = params.recurrentWeights;
+  const da = new Float64Array(G * hidden);
+  const dhPrev = new Float64Array(hidden);
+
+  if (cell === 'lstm') {
+    for (let j = 0; j < hidden; j++) {
+      const i = gates[j];
+      const f = gates[hidden + j];
+      const g = gates[2 * hidden + j];
+      const o = gates[3 * hidden + j];
+      const tanhC = extra[j];
+      const dCell = dc[j] + dh[j] * o * (1 - tanhC * tanhC);
+
+      da[j] = dCell * g * i * (1 - i);
+      da[hidden + j] = dCell * cPrev[j] * f * (1 - f);
+      da[2 * hidden + j] = dCell * i * (1 - g * g);
+      da[3 * hidden + j] = dh[j] * tanhC * o * (1 - o);
+      dc[j] = dCell * f;
+    }
+  } else {
+    for (let j = 0; j < hidden; j++) {
+      const z = gates[j];
+      const r = gates[hidden + j];
+      const n = gates[2 * hidden + j];
+      const dn = dh[j] * (1 - z) * (1 - n * n);
+
+      da[j] = dh[j] * (hPrev[j] - n) * z * (1 - z);
+      da[hidden + j] = dn * extra[j] * r * (1 - r);
+      da[2 * hidden + j] = dn;
+      dhPrev[j] = dh[j] * z;
+    }
+  }
+
+  for (let row = 0; row < G * hidden; row++) {
+    const value = da[row];
+    if (value === 0) continue;
+    grads.biases[row] += value;
+
+    const wOffset = row * inputSize;
+    for (let k = 0; k < inputSize; k++) grads.inputWeights[wOffset + k] += value * x[k];
+
+    // Рекуррентный вклад кандидата GRU умножен на вентиль сброса
+    const recurrentGrad = cell === 'gru' && row >= 2 * hidden ? value * gates[row - hidden] : value;
+    const uOffset = row * hidden;
+    for (let k = 0; k < hidden; k++) {
+      grads.recurrentWeights[uOffset + k] += recurrentGrad * hPrev[k];
+      dhPrev[k] += U[uOffset + k] * recurrentGrad;
+    }
+  }
+
+  dh.set(dhPrev);
+  if (cell === 'gru') dc.fill(0);
+}
+
+export class RecurrentNetwork {
+  private readonly params: Parameters;
+
+  constructor(private readonly model: RecurrentNetworkJSON) {
+    this.params = {
+      inputWeights: Float64Array.from(model.inputWeights),
+      recurrentWeights: Float64Array.from(model.recurrentWeights),
+      biases: Float64Array.from(model.biases),
+      outputWeights: Float64Array.from(model.outputWeights),
+      outputBias: Float64Array.of(model.outputBias)
+    };
+  }
+
+  static fit(windows: SequenceWindow[], options: RecurrentFitOptions = {}): RecurrentNetwork {
+    const { validation = [], onEpoch, ...overrides } = options;
+    const settings = { ...DEFAULT_RECURRENT_OPTIONS, ...overrides };
+    const inputSize = RecurrentNetwork.validateWindows(windows, settings.sequenceLength);
+    if (validation.length > 0 && RecurrentNetwork.validateWindows(validation, settings.sequenceLength) !== inputSize) {
+      throw new RecurrentModelError('Валидационные окна имеют другое число признаков', 'INVALID_TRAINING_SET');
+    }
+
+    const random = createSeededRandom(settings.seed);
+    const hidden = settings.hiddenSize;
+    const G = gateCount(settings.cell);
+
+    // Стандартизация по обучающим строкам
+    const rows = windows.flatMap(window => window.sequence);
+    const featureMeans = Array.from({ length: inputSize }, (_, k) => rows.reduce((sum, row) => sum + row[k], 0) / rows.length);
+    const featureStds = featureMeans.map((mean, k) => {
+      const variance = rows.reduce((sum, row) => sum + (row[k] - mean) ** 2, 0) / rows.length;
+      return variance > 0 ? Math.sqrt(variance) : 1;
+    });
+
+    // Инициализация Xavier; смещение забывания LSTM = 1, чтобы память не обнулялась с первых шагов
+    const uniform = (count: number, fanIn: number, fanOut: number) => {
+      const limit = Math.sqrt(6 / (fanIn + fanOut));
+      return Array.from({ length: count }, () => (random() * 2 - 1) * limit);
+    };
+    const biases = Array(G * hidden).fill(0);
+    if (settings.cell === 'lstm') biases.fill(1, hidden, 2 * hidden);
+
+    const network = new RecurrentNetwork({
+      type: 'recurrent-network',
+      version: 1,
+      options: settings,
+      inputSize,
+      featureMeans,
+      featureStds,
+      inputWeights: uniform(G * hidden * inputSize, inputSize, hidden),
+      recurrentWeights: uniform(G * hidden * hidden, hidden, hidden),
+      biases,
+      outputWeights: uniform(hidden, hidden, 1),
+      outputBias: 0,
+      calibrator: null,
+      history: []
+    });
+
+    const params = network.params;
+    const firstMoment = zerosLike(params);
+    const secondMoment = zerosLike(params);
+    const trainInputs = windows.map(window => network.standardize(window.sequence));
+    const validationInputs = validation.map(window => network.standardize(window.sequence));
+    const order = Array.from({ length: windows.length }, (_, i) => i);
+    let adamStep = 0;
+
+    for (let epoch = 1; epoch <= settings.epochs; epoch++) {
+      // Перемешивание окон Фишером-Йетсом
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+
+      let epochLoss = 0;
+      for (let start = 0; start < order.length; start += settings.batchSize) {
+        const batch = order.slice(start, start + settings.batchSize);
+        const grads = zerosLike(params);
+        batch.forEach(index => {
+          epochLoss += network.accumulateGradient(trainInputs[index], windows[index].target, grads, random);
+        });
+
+        // Среднее по батчу и отсечение по глобальной норме
+        let squaredNorm = 0;
+        PARAMETER_KEYS.forEach(key => grads[key].forEach((value, i) => {
+          const mean = value / batch.length;
+          grads[key][i] = mean;
+          squaredNorm += mean * mean;
+        }));
+        const norm = Math.sqrt(squaredNorm);
+        const scale = norm > settings.clipNorm ? settings.clipNorm / norm : 1;
+
+        adamStep++;
+        const correction1 = 1 - settings.beta1 ** adamStep;
+        const correction2 = 1 - settings.beta2 ** adamStep;
+        PARAMETER_KEYS.forEach(key => {
+          const values = params[key];
+          const m = firstMoment[key];
+          const v = secondMoment[key];
+          for (let i = 0; i < values.length; i++) {
+            const g = grads[key][i] * scale;
+            m[i] = settings.beta1 * m[i] + (1 - settings.beta1) * g;
+            v[i] = settings.beta2 * v[i] + (1 - settings.beta2) * g * g;
+            values[i] -= settings.learningRate * (m[i] / correction1) / (Math.sqrt(v[i] / correction2) + ADAM_EPSILON);
+          }
+        });
+      }
+
+      const metrics: RecurrentEpochMetrics = {
+        epoch,
+        trainLoss: epochLoss / windows.length,
+        validationLoss: validation.length > 0
+          ? validation.reduce((sum, window, i) => sum + crossEntropy(network.forwardStandardized(validationInputs[i]), window.target), 0) / validation.length
+          : null
+      };
+      network.model.history.push(metrics);
+      onEpoch?.(metrics, settings.epochs);
+    }
+
+    network.syncModel();
+
+    if (validation.length >= MIN_CALIBRATION_WINDOWS) {
+      network.model.calibrator = fitPlatt(validation.map((window, i) => ({
+        probability: network.forwardStandardized(validationInputs[i]),
+        outcome: window.target === 1
+      })));
+    }
+
+    return network;
+  }
+
+  static fromJSON(json: RecurrentNetworkJSON): RecurrentNetwork {
+    if (json?.type !== 'recurrent-network' || json.version !== 1 || !json.options) {
+      throw new RecurrentModelError('Некорректная сериализация рекуррентной сети', 'INVALID_MODEL');
+    }
+
+    const { cell, hiddenSize } = json.options;
+    const G = cell === 'lstm' || cell === 'gru' ? gateCount(cell) : 0;
+    const sizes: Array<[unknown, number]> = [
+      [json.inputWeights, G * hiddenSize * json.inputSize],
+      [json.recurrentWeights, G * hiddenSize * hiddenSize],
+      [json.biases, G * hiddenSize],
+      [json.outputWeights, hiddenSize],
+      [json.featureMeans, json.inputSize],
+      [json.featureStds, json.inputSize]
+    ];
+    const valid = G > 0 && Number.isInteger(hiddenSize) && hiddenSize > 0 && Number.isInteger(json.inputSize) && json.inputSize > 0 &&
+      Number.isFinite(json.outputBias) &&
+      sizes.every(([values, size]) => Array.isArray(values) && values.length === size && values.every(Number.isFinite));
+    if (!valid) {
+      throw new RecurrentModelError('Размеры весов не соответствуют архитектуре сети', 'INVALID_MODEL');
+    }
+
+    return new RecurrentNetwork(json);
+  }
+
+  get inputSize(): number {
+    return this.model.inputSize;
+  }
+
+  get sequenceLength(): number {
+    return this.model.options.sequenceLength;
+  }
+
+  get cell(): RecurrentCellType {
+    return this.model.options.cell;
+  }
+
+  get history(): RecurrentEpochMetrics[] {
+    return this.model.history;
+  }
+
+  get isCalibrated(): boolean {
+    return this.model.calibrator !== null;
+  }
+
+  /**
+   * Uncalibrated P(target = 1) after the last row of the sequence
+   */
+  predictRaw(sequence: number[][]): number {
+    if (sequence.length === 0) {
+      throw new RecurrentModelError('Пустая последовательность', 'INVALID_INPUT');
+    }
+    const mismatch = sequence.find(row => row.length !== this.model.inputSize);
+    if (mismatch) {
+      throw new RecurrentModelError(
+        `Ожидалось ${this.model.inputSize} признаков, получено ${mismatch.length}`,
+        'FEATURE_MISMATCH'
+      );
+    }
+    return this.forwardStandardized(this.standardize(sequence));
+  }
+
+  /**
+   * P(target = 1), recalibrated when a calibrator was fitted
+   */
+  predictProba(sequence: number[][]): number {
+    const raw = this.predictRaw(sequence);
+    return this.model.calibrator ? applyCalibrator(this.model.calibrator, raw) : raw;
+  }
+
+  toJSON(): RecurrentNetworkJSON {
+    return this.model;
+  }
+
+  private static validateWindows(windows: SequenceWindow[], sequenceLength: number): number {
+    if (windows.length === 0) {
+      throw new RecurrentModelError('Нет окон для обучения', 'INVALID_TRAINING_SET');
+    }
+    const inputSize = windows[0].sequence[0]?.length ?? 0;
+    const valid = inputSize > 0 && windows.every(window =>
+      window.sequence.length === sequenceLength &&
+      window.sequence.every(row => row.length === inputSize && row.every(Number.isFinite)));
+    if (!valid) {
+      throw new RecurrentModelError(
+        `Окна должны содержать ${sequenceLength} строк конечных признаков одинаковой длины`,
+        'INVALID_TRAINING_SET'
+      );
+    }
+    if (windows.some(window => window.target !== 0 && window.target !== 1)) {
+      throw new RecurrentModelError('Метки должны быть 0 или 1', 'INVALID_TRAINING_SET');
+    }
+    return inputSize;
+  }
+
+  private standardize(sequence: number[][]): Float64Array[] {
+    const { featureMeans, featureStds } = this.model;
+    return sequence.map(row => Float64Array.from(row, (value, k) => (value - featureMeans[k]) / featureStds[k]));
+  }
+
+  private runSequence(inputs: Float64Array[]): StepCache[] {
+    const hidden = this.model.options.hiddenSize;
+    const G = gateCount(this.model.options.cell);
+    const steps: StepCache[] = [];
+    let hPrev = new Float64Array(hidden);
+    let cPrev = new Float64Array(hidden);
+
+    inputs.forEach(x => {
+      const step: StepCache = {
+        x,
+        hPrev,
+        cPrev,
+        gates: new Float64Array(G * hidden),
+        extra: new Float64Array(hidden),
+        h: new Float64Array(hidden),
+        c: new Float64Array(hidden)
+      };
+      stepForward(this.model.options.cell, this.params, hidden, this.model.inputSize, step);
+      steps.push(step);
+      hPrev = step.h;
+      cPrev = step.c;
+    });
+
+    return steps;
+  }
+
+  private forwardStandardized(inputs: Float64Array[]): number {
+    const steps = this.runSequence(inputs);
+    const h = steps[steps.length - 1].h;
+    let logit = this.params.outputBias[0];
+    h.forEach((value, j) => {
+      logit += this.params.outputWeights[j] * value;
+    });
+    return sigmoid(logit);
+  }
+
+  /**
+   * Adds the cross-entropy gradient of one window to `grads`; returns its loss
+   */
+  private accumulateGradient(inputs: Float64Array[], target: number, grads: Parameters, random: () => number): number {
+    const { cell, hiddenSize: hidden, dropout, bpttSteps } = this.model.options;
+    const steps = this.runSequence(inputs);
+    const last = steps[steps.length - 1].h;
+
+    // Обратный dropout: сохраненные нейроны масштабируются, на инференсе ничего не меняется
+    const keep = 1 - dropout;
+    const mask = Float64Array.from(last, () => (dropout > 0 ? (random() < keep ? 1 / keep : 0) : 1));
+
+    let logit = this.params.outputBias[0];
+    for (let j = 0; j < hidden; j++) logit += this.params.outputWeights[j] * last[j] * mask[j];
+    const p = sigmoid(logit);
+    const dLogit = p - target;
+
+    grads.outputBias[0] += dLogit;
+    const dh = new Float64Array(hidden);
+    const dc = new Float64Array(hidden);
+    for (let j = 0; j < hidden; j++) {
+      grads.outputWeights[j] += dLogit * last[j] * mask[j];
+      dh[j] = dLogit * this.params.outputWeights[j] * mask[j];
+    }
+
+    const stop = Math.max(0, steps.length - bpttSteps);
+    for (let t = steps.length - 1; t >= stop; t--) {
+      stepBackward(cell, this.params, grads, hidden, this.model.inputSize, steps[t], dh, dc);
+    }
+
+    return crossEntropy(p, target);
+  }
+
+  /**
+   * Copies the trained parameters back into the serializable model
+   */
+  private syncModel(): void {
+    this.model.inputWeights = Array.from(this.params.inputWeights);
+    this.model.recurrentWeights = Array.from(this.params.recurrentWeights);
+    this.model.biases = Array.from(this.params.biases);
+    this.model.outputWeights = Array.from(this.params.outputWeights);
+    this.model.outputBias = this.params.outputBias[0];
+  }
+}
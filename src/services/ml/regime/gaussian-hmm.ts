@@ -0,0 +1,230 @@
+/**
+ * Hidden Markov model with diagonal Gaussian emissions.
+ * Fitted with Baum-Welch; emission likelihoods are rescaled per step so long
+ * sequences neither underflow nor overflow.
+ */
+
+export interface GaussianHMMParams {
+  /** Initial state distribution */
+  initial: number[];
+  /** transition[i][j] = P(state j at t+1 | state i at t) */
+  transition: number[][];
+  /** Per-state mean of each observation dimension */
+  means: number[][];
+  /** Per-state variance of each observation dimension */
+  variances: number[][];
+}
+
+export interface GaussianHMMFitOptions {
+  maxIterations: number;
+  /** Stop when the log-likelihood improves by less than this */
+  tolerance: number;
+  /** Variance floor, keeps states from collapsing onto single points */
+  minVariance: number;
+}
+
+export interface GaussianHMMFitResult {
+  params: GaussianHMMParams;
+  logLikelihood: number;
+  iterations: number;
+}
+
+const DEFAULT_FIT_OPTIONS: GaussianHMMFitOptions = {
+  maxIterations: 50,
+  tolerance: 1e-4,
+  minVariance: 1e-3
+};
+
+/** Added to every transition before normalizing, so no transition becomes impossible */
+const TRANSITION_SMOOTHING = 1e-6;
+
+interface ForwardBackward {
+  gamma: number[][];
+  /** Summed expected transitions over the sequence */
+  xiSum: number[][];
+  logLikelihood: number;
+}
+
+const logGaussian = (x: number[], mean: number[], variance: number[]): number =>
+  x.reduce((sum, value, d) =>
+    sum - 0.5 * (Math.log(2 * Math.PI * variance[d]) + (value - mean[d]) ** 2 / variance[d]), 0);
+
+const normalizeRow = (row: number[]): number[] => {
+  const total = row.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? row.map(v => v / total) : row.map(() => 1 / row.length);
+};
+
+export class GaussianHMM {
+  constructor(public readonly params: GaussianHMMParams) {}
+
+  get stateCount(): number {
+    return this.params.initial.length;
+  }
+
+  /**
+   * Fit by expectation-maximization over one or more observation sequences
+   */
+  static fit(
+    sequences: number[][][],
+    initialParams: GaussianHMMParams,
+    options: Partial<GaussianHMMFitOptions> = {}
+  ): GaussianHMMFitResult {
+    const { maxIterations, tolerance, minVariance } = { ...DEFAULT_FIT_OPTIONS, ...options };
+    const usable = sequences.filter(sequence => sequence.length > 1);
+    let model = new GaussianHMM(initialParams);
+    let previous = -Infinity;
+    let logLikelihood = -Infinity;
+    let iterations = 0;
+
+    while (iterations < maxIterations) {
+      iterations++;
+      const passes = usable.map(sequence => model.forwardBackward(sequence));
+      logLikelihood = passes.reduce((sum, pass) => sum + pass.logLikelihood, 0);
+      model = new GaussianHMM(model.maximize(usable, passes, minVariance));
+
+      if (Math.abs(logLikelihood - previous) < tolerance) break;
+      previous = logLikelihood;
+    }
+
+    return { params: model.params, logLikelihood, iterations };
+  }
+
+  /**
+   * Filtered state probabilities P(state_t | x_0..x_t).
+   * Each row only depends on observations up to its own step.
+   */
+  filter(sequence: number[][]): number[][] {
+    return this.forward(sequence).alpha;
+  }
+
+  /**
+   * One-step-ahead state distribution from a filtered distribution
+   */
+  predictNext(probabilities: number[]): number[] {
+    const { transition } = this.params;
+    return transition[0].map((_, j) => probabilities.reduce((sum, p, i) => sum + p * transition[i][j], 0));
+  }
+
+  logLikelihood(sequence: number[][]): number {
+    return this.forward(sequence).logLikelihood;
+  }
+
+  /**
+   * Emission likelihoods divided by their per-step maximum, plus that maximum in log space
+   */
+  private scaledEmissions(sequence: number[][]): { emissions: number[][]; logScale: number[] } {
+    const { means, variances } = this.params;
+    const emissions: number[][] = [];
+    const logScale: number[] = [];
+
+    sequence.forEach(x => {
+      const logs = means.map((mean, k) => logGaussian(x, mean, variances[k]));
+      const max = Math.max(...logs);
+      emissions.push(logs.map(value => Math.exp(value - max)));
+      logScale.push(max);
+    });
+
+    return { emissions, logScale };
+  }
+
+  private forward(sequence: number[][]): { alpha: number[][]; scale: number[]; emissions: number[][]; logLikelihood: number } {
+    const { initial } = this.params;
+    const { emissions, logScale } = this.scaledEmissions(sequence);
+    const alpha: number[][] = [];
+    const scale: number[] = [];
+    let logLikelihood = 0;
+
+    sequence.forEach((_, t) => {
+      const prior = t === 0 ? initial : this.predictNext(alpha[t - 1]);
+      const row = prior.map((p, k) => p * emissions[t][k]);
+      const total = row.reduce((sum, v) => sum + v, 0) || Number.MIN_VALUE;
+
+      alpha.push(row.map(v => v / total));
+      scale.push(total);
+      logLikelihood += Math.log(total) + logScale[t];
+    });
+
+    return { alpha, scale, emissions, logLikelihood };
+  }
+
+  private forwardBackward(sequence: number[][]): ForwardBackward {
+    const { transition } = this.params;
+    const n = this.stateCount;
+    const { alpha, scale, emissions, logLikelihood } = this.forward(sequence);
+    const T = sequence.length;
+
+    const beta: number[][] = new Array(T);
+    beta[T - 1] = new Array(n).fill(1);
+    for (let t = T - 2; t >= 0; t--) {
+      beta[t] = transition.map(row =>
+        row.reduce((sum, a, k) => sum + a * emissions[t + 1][k] * beta[t + 1][k], 0) / scale[t + 1]
+      );
+    }
+
+    const gamma = alpha.map((row, t) => normalizeRow(row.map((a, k) => a * beta[t][k])));
+    const xiSum = transition.map(row => row.map(() => 0));
+
+    for (let t = 0; t < T - 1; t++) {
+      const xi = transition.map((row, i) =>
+        row.map((a, j) => alpha[t][i] * a * emissions[t + 1][j] * beta[t + 1][j] / scale[t + 1])
+      );
+      const total = xi.reduce((sum, row) => sum + row.reduce((s, v) => s + v, 0), 0);
+      if (total <= 0) continue;
+      xi.forEach((row, i) => row.forEach((v, j) => {
+        xiSum[i][j] += v / total;
+      }));
+    }
+
+    return { gamma, xiSum, logLikelihood };
+  }
+
+  private maximize(sequences: number[][][], passes: ForwardBackward[], minVariance: number): GaussianHMMParams {
+    const n = this.stateCount;
+    const dims = this.params.means[0].length;
+
+    const initial = normalizeRow(
+      new Array(n).fill(0).map((_, k) => passes.reduce((sum, pass) => sum + pass.gamma[0][k], 0))
+    );
+
+    const transition = this.params.transition.map((row, i) => {
+      const counts = row.map((_, j) => passes.reduce((sum, pass) => sum + pass.xiSum[i][j], 0));
+      return normalizeRow(counts.map(count => count + TRANSITION_SMOOTHING));
+    });
+
+    const means: number[][] = [];
+    const variances: number[][] = [];
+
+    for (let k = 0; k < n; k++) {
+      let weight = 0;
+      const sum = new Array(dims).fill(0);
+      sequences.forEach((sequence, s) => sequence.forEach((x, t) => {
+        const g = passes[s].gamma[t][k];
+        weight += g;
+        x.forEach((value, d) => {
+          sum[d] += g * value;
+        });
+      }));
+
+      // Пустое состояние сохраняет прежние параметры
+      if (weight < 1e-10) {
+        means.push([...this.params.means[k]]);
+        variances.push([...this.params.variances[k]]);
+        continue;
+      }
+
+      const mean = sum.map(value => value / weight);
+      const squares = new Array(dims).fill(0);
+      sequences.forEach((sequence, s) => sequence.forEach((x, t) => {
+        const g = passes[s].gamma[t][k];
+        x.forEach((value, d) => {
+          squares[d] += g * (value - mean[d]) ** 2;
+        });
+      }));
+
+      means.push(mean);
+      variances.push(squares.map(value => Math.max(minVariance, value / weight)));
+    }
+
+    return { initial, transition, means, variances };
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Market regime model fitted on the stored sessions at app start,
+ * so the prediction engine and the feature pipelines see regimes from the first prediction.
+ */
+
+import { sessionService } from '@/services/sessionService';
+import { marketRegimeService } from '../MarketRegimeService';
+
+export const startMarketRegimeFit = (): Promise<void> =>
+  marketRegimeService
+    .ensureFitted(sessionService)
+    .then(sessions => console.log(`Market regime: fitted on ${sessions} sessions`))
+    .catch(error => console.warn('Market regime: failed to fit the regime model:', error));
@@ -0,0 +1,229 @@
+/**
+ * Serialized model artifacts.
+ * An artifact is everything needed to run a trained model after a reload:
+ * weights (or an ONNX graph), the feature scaler, the feature schema the
+ * weights expect, the range of data it was trained on and its metrics.
+ * Versions follow semver (MAJOR.MINOR.PATCH) per model name.
+ */
+
+import type { NetworkWeights, TrainingExample, TrainingMetrics } from '../NetworkTrainingService';
+
+export type ModelArtifactFormat = 'network-weights' | 'onnx';
+
+/** candidate — registered, not serving; production — the serving version of its name; archived — replaced or rolled back */
+export type ModelStatus = 'candidate' | 'production' | 'archived';
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export type FeatureScaler =
+  | { method: 'zscore'; mean: number[]; std: number[] }
+  | { method: 'minmax'; min: number[]; max: number[] };
+
+export interface FeatureSchema {
+  /** Extractor that produces the input vector, e.g. 'FeatureExtractionService.flattenFeatures' */
+  source: string;
+  inputSize: number;
+  /** Feature name per input slot, when known */
+  names?: string[];
+}
+
+export interface TrainingDataRange {
+  /** ISO timestamps of the first and last training example */
+  from: string;
+  to: string;
+  samples: number;
+  sessionIds?: string[];
+}
+
+export interface ModelArtifactMetrics {
+  accuracy: number;
+  loss?: number;
+  validationAccuracy?: number;
+  validationLoss?: number;
+  precision?: number;
+  recall?: number;
+  f1Score?: number;
+  auc?: number;
+}
+
+export interface OnnxModelPayload {
+  /** URL of the .onnx file, or the file itself as base64 */
+  modelPath?: string;
+  modelBase64?: string;
+  inputShape: number[];
+  outputShape: number[];
+}
+
+export interface ModelArtifact {
+  /** `${name}@${version}` */
+  id: string;
+  name: string;
+  version: string;
+  format: ModelArtifactFormat;
+  status: ModelStatus;
+  weights?: NetworkWeights;
+  onnx?: OnnxModelPayload;
+  scaler?: FeatureScaler;
+  featureSchema: FeatureSchema;
+  trainingRange: TrainingDataRange;
+  metrics: ModelArtifactMetrics;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Last time the version was promoted to production; rollbacks walk back by it */
+  promotedAt?: string;
+}
+
+/** What the caller supplies when registering; the registry assigns the rest */
+export type ModelArtifactInput = Omit<ModelArtifact, 'id' | 'version' | 'status' | 'createdAt' | 'updatedAt' | 'promotedAt'> & {
+  /** Explicit version; otherwise the latest version of the name is bumped */
+  version?: string;
+};
+
+export class ModelRegistryError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ModelRegistryError';
+  }
+}
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export const artifactId = (name: string, version: string): string => `${name}@${version}`;
+
+export function parseVersion(version: string): [number, number, number] {
+  const match = SEMVER.exec(version);
+  if (!match) {
+    throw new ModelRegistryError(`Версия должна быть в формате MAJOR.MINOR.PATCH: ${version}`, 'INVALID_VERSION');
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+}
+
+/**
+ * Next version after `version`; the first version of a name is 1.0.0
+ */
+export function bumpVersion(version: string | null, bump: VersionBump): string {
+  if (!version) return '1.0.0';
+  const [major, minor, patch] = parseVersion(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+const isFiniteArray = (values: unknown, length: number): boolean =>
+  Array.isArray(values) && values.length === length && values.every(Number.isFinite);
+
+/**
+ * Checks that weights, scaler and schema of an artifact agree with each other
+ */
+export function validateArtifact(artifact: ModelArtifact): void {
+  parseVersion(artifact.version);
+  const { inputSize } = artifact.featureSchema ?? {};
+  if (!artifact.name || !Number.isInteger(inputSize) || inputSize <= 0) {
+    throw new ModelRegistryError('У артефакта должно быть имя и размер входа', 'INVALID_ARTIFACT');
+  }
+  if (artifact.featureSchema.names && artifact.featureSchema.names.length !== inputSize) {
+    throw new ModelRegistryError('Число имен признаков не совпадает с размером входа', 'INVALID_ARTIFACT');
+  }
+
+  if (artifact.format === 'network-weights') {
+    const weights = artifact.weights;
+    const hiddenSize = weights?.hidden_bias?.length ?? 0;
+    const valid = weights !== undefined && hiddenSize > 0 &&
+      Array.isArray(weights.input_hidden) && weights.input_hidden.length === inputSize &&
+      weights.input_hidden.every(row => isFiniteArray(row, hiddenSize)) &&
+      isFiniteArray(weights.hidden_output, hiddenSize) &&
+      isFiniteArray(weights.hidden_bias, hiddenSize) &&
+      Number.isFinite(weights.output_bias);
+    if (!valid) {
+      throw new ModelRegistryError('Веса сети не соответствуют размеру входа', 'INVALID_ARTIFACT');
+    }
+  } else if (artifact.format === 'onnx') {
+    if (!artifact.onnx || (!artifact.onnx.modelPath && !artifact.onnx.modelBase64)) {
+      throw new ModelRegistryError('В ONNX-артефакте нет ни пути, ни содержимого модели', 'INVALID_ARTIFACT');
+    }
+  } else {
+    throw new ModelRegistryError(`Неизвестный формат артефакта: ${artifact.format}`, 'INVALID_ARTIFACT');
+  }
+
+  const scaler = artifact.scaler;
+  if (scaler) {
+    const [first, second] = scaler.method === 'zscore' ? [scaler.mean, scaler.std] : [scaler.min, scaler.max];
+    if (!isFiniteArray(first, inputSize) || !isFiniteArray(second, inputSize)) {
+      throw new ModelRegistryError('Параметры нормализации не соответствуют размеру входа', 'INVALID_ARTIFACT');
+    }
+  }
+}
+
+/**
+ * Scaled input vector; zero-width ranges map to 0
+ */
+export function applyScaler(scaler: FeatureScaler, features: number[]): number[] {
+  if (scaler.method === 'zscore') {
+    return features.map((value, i) => (scaler.std[i] > 0 ? (value - scaler.mean[i]) / scaler.std[i] : 0));
+  }
+  return features.map((value, i) => {
+    const span = scaler.max[i] - scaler.min[i];
+    return span > 0 ? (value - scaler.min[i]) / span : 0;
+  });
+}
+
+/**
+ * Z-score scaler fitted on the feature rows of a training set
+ */
+export function fitZScoreScaler(rows: number[][]): FeatureScaler {
+  const size = rows[0]?.length ?? 0;
+  const mean = Array.from({ length: size }, (_, k) => rows.reduce((sum, row) => sum + row[k], 0) / rows.length);
+  const std = mean.map((m, k) => Math.sqrt(rows.reduce((sum, row) => sum + (row[k] - m) ** 2, 0) / rows.length));
+  return { method: 'zscore', mean, std };
+}
+
+/**
+ * Registry input for an MLP trained by NetworkTrainingService
+ */
+export function createNetworkArtifactInput(
+  name: string,
+  weights: NetworkWeights,
+  trainingData: TrainingExample[],
+  metrics: TrainingMetrics,
+  options: { featureSchema?: Partial<FeatureSchema>; scaler?: FeatureScaler; sessionIds?: string[]; description?: string } = {}
+): ModelArtifactInput {
+  if (trainingData.length === 0) {
+    throw new ModelRegistryError('Нет обучающих примеров для описания артефакта', 'INVALID_ARTIFACT');
+  }
+
+  const timestamps = trainingData.map(example => example.timestamp);
+  return {
+    name,
+    format: 'network-weights',
+    weights,
+    scaler: options.scaler,
+    featureSchema: {
+      source: 'FeatureExtractionService.flattenFeatures',
+      inputSize: weights.input_hidden.length,
+      ...options.featureSchema
+    },
+    trainingRange: {
+      from: new Date(Math.min(...timestamps)).toISOString(),
+      to: new Date(Math.max(...timestamps)).toISOString(),
+      samples: trainingData.length,
+      sessionIds: options.sessionIds
+    },
+    metrics: {
+      accuracy: metrics.accuracy,
+      loss: metrics.loss,
+      validationAccuracy: metrics.validationAccuracy,
+      validationLoss: metrics.validationLoss,
+      precision: metrics.precision,
+      recall: metrics.recall,
+      f1Score: metrics.f1Score
+    },
+    description: options.description
+  };
+}
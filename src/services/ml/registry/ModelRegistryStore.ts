@@ -0,0 +1,84 @@
+/**
+ * Хранилище реестра моделей.
+ * IndexedDB переживает перезагрузку страницы; in-memory — для тестов и окружений без IndexedDB
+ */
+
+import type { ModelArtifact } from './ModelArtifact';
+
+export interface ModelRegistryStore {
+  getAll(): Promise<ModelArtifact[]>;
+  put(artifact: ModelArtifact): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export class InMemoryModelRegistryStore implements ModelRegistryStore {
+  private artifacts = new Map<string, ModelArtifact>();
+
+  async getAll(): Promise<ModelArtifact[]> {
+    return Array.from(this.artifacts.values()).map(artifact => structuredClone(artifact));
+  }
+
+  async put(artifact: ModelArtifact): Promise<void> {
+    this.artifacts.set(artifact.id, structuredClone(artifact));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.artifacts.delete(id);
+  }
+}
+
+const DB_NAME = 'trading-models';
+const DB_VERSION = 1;
+const STORE_NAME = 'model_artifacts';
+
+export class IndexedDBModelRegistryStore implements ModelRegistryStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async getAll(): Promise<ModelArtifact[]> {
+    return this.request('readonly', store => store.getAll() as IDBRequest<ModelArtifact[]>);
+  }
+
+  async put(artifact: ModelArtifact): Promise<void> {
+    await this.request('readwrite', store => store.put(artifact));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.database = null;
+          reject(request.error ?? new Error('Failed to open model registry'));
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Model registry transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Model registry transaction aborted'));
+    });
+  }
+}
+
+export const createModelRegistryStore = (): ModelRegistryStore =>
+  typeof indexedDB !== 'undefined' ? new IndexedDBModelRegistryStore() : new InMemoryModelRegistryStore();
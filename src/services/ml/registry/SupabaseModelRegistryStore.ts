@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ModelArtifact, ModelStatus } from './ModelArtifact';
+import type { ModelRegistryStore } from './ModelRegistryStore';
+
+interface ModelRegistryRow {
+  id: string;
+  name: string;
+  version: string;
+  format: ModelArtifact['format'];
+  status: ModelStatus;
+  artifact: ModelArtifact;
+  metrics: ModelArtifact['metrics'];
+  created_at: string;
+  updated_at: string;
+  promoted_at: string | null;
+}
+
+const TABLE = 'model_registry';
+
+const toRow = (artifact: ModelArtifact): ModelRegistryRow => ({
+  id: artifact.id,
+  name: artifact.name,
+  version: artifact.version,
+  format: artifact.format,
+  status: artifact.status,
+  artifact,
+  metrics: artifact.metrics,
+  created_at: artifact.createdAt,
+  updated_at: artifact.updatedAt,
+  promoted_at: artifact.promotedAt ?? null
+});
+
+// Статус и даты берутся из колонок: по ним сервер может менять запись без переписывания JSON
+const fromRow = (row: ModelRegistryRow): ModelArtifact => ({
+  ...row.artifact,
+  status: row.status,
+  updatedAt: row.updated_at,
+  promotedAt: row.promoted_at ?? undefined
+});
+
+/**
+ * Таблица model_registry в Supabase как серверная копия реестра моделей
+ */
+export class SupabaseModelRegistryStore implements ModelRegistryStore {
+  async getAll(): Promise<ModelArtifact[]> {
+    const { data, error } = await supabase.from(TABLE).select('*').order('created_at', { ascending: true });
+    if (error) {
+      throw new Error(`Failed to load model registry: ${error.message}`);
+    }
+    return (data || []).map(row => fromRow(row as ModelRegistryRow));
+  }
+
+  async put(artifact: ModelArtifact): Promise<void> {
+    const { error } = await supabase.from(TABLE).upsert(toRow(artifact), { onConflict: 'user_id,id' });
+    if (error) {
+      throw new Error(`Failed to save model ${artifact.id}: ${error.message}`);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from(TABLE).delete().eq('id', id);
+    if (error) {
+      throw new Error(`Failed to delete model ${id}: ${error.message}`);
+    }
+  }
+}
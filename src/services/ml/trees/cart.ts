@@ -0,0 +1,231 @@
+/**
+ * CART regression trees.
+ * Splits minimize the weighted variance of the target. For 0/1 targets that is
+ * the Gini criterion up to a constant factor, so the same learner grows random
+ * forest classifiers and the residual trees of gradient boosting.
+ */
+
+export interface TreeNode {
+  /** Split feature and threshold; absent on leaves. Rows with x[feature] <= threshold go left */
+  feature?: number;
+  threshold?: number;
+  left?: TreeNode;
+  right?: TreeNode;
+  /** Leaf output; on inner nodes the mean target of the node */
+  value: number;
+  samples: number;
+  /** Variance of the target in the node */
+  impurity: number;
+}
+
+export interface CartOptions {
+  maxDepth: number;
+  /** Nodes with fewer rows become leaves */
+  minSamplesSplit: number;
+  /** Smallest allowed child */
+  minSamplesLeaf: number;
+  /** Features tried at each split, sampled without replacement; all when undefined */
+  maxFeatures?: number;
+}
+
+export interface CartFitContext {
+  random: () => number;
+  /** Overrides the leaf output, e.g. with a Newton step in gradient boosting */
+  leafValue?: (indices: number[]) => number;
+  /** Receives the weighted variance decrease of every split, per feature */
+  importance?: number[];
+  /** Features the tree may split on (column subsampling); all when undefined */
+  features?: number[];
+}
+
+export class TreeModelError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'TreeModelError';
+  }
+}
+
+interface Split {
+  feature: number;
+  threshold: number;
+  gain: number;
+}
+
+/** Splits that reduce the variance less than this are treated as noise */
+const MIN_GAIN = 1e-12;
+
+/**
+ * Sum of squared deviations of a group, from its running sums
+ */
+const squaredError = (sum: number, sumSq: number, count: number): number =>
+  count > 0 ? Math.max(0, sumSq - (sum * sum) / count) : 0;
+
+const sampleFeatures = (features: number[], count: number, random: () => number): number[] => {
+  if (count >= features.length) return features;
+  const pool = [...features];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
+
+const findBestSplit = (
+  X: number[][],
+  y: number[],
+  indices: number[],
+  features: number[],
+  minSamplesLeaf: number
+): Split | null => {
+  const n = indices.length;
+  let totalSum = 0;
+  let totalSumSq = 0;
+  indices.forEach(i => {
+    totalSum += y[i];
+    totalSumSq += y[i] * y[i];
+  });
+  const parentError = squaredError(totalSum, totalSumSq, n);
+
+  let best: Split | null = null;
+
+  for (const feature of features) {
+    const sorted = [...indices].sort((a, b) => X[a][feature] - X[b][feature]);
+    let leftSum = 0;
+    let leftSumSq = 0;
+
+    for (let k = 0; k < n - 1; k++) {
+      const target = y[sorted[k]];
+      leftSum += target;
+      leftSumSq += target * target;
+
+      const leftCount = k + 1;
+      if (leftCount < minSamplesLeaf) continue;
+      if (n - leftCount < minSamplesLeaf) break;
+
+      const current = X[sorted[k]][feature];
+      const next = X[sorted[k + 1]][feature];
+      if (current === next) continue;
+
+      const gain = parentError
+        - squaredError(leftSum, leftSumSq, leftCount)
+        - squaredError(totalSum - leftSum, totalSumSq - leftSumSq, n - leftCount);
+
+      if (gain > MIN_GAIN && (!best || gain > best.gain)) {
+        best = { feature, threshold: (current + next) / 2, gain };
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Scales split gains so they sum to 1
+ */
+export const normalizeImportance = (importance: number[]): number[] => {
+  const total = importance.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? importance.map(v => v / total) : importance.map(() => 0);
+};
+
+/**
+ * Checks a binary training set and returns its feature count
+ */
+export const validateTrainingSet = (X: number[][], y: number[]): number => {
+  if (X.length === 0 || X.length !== y.length) {
+    throw new TreeModelError('Число примеров и меток не совпадает или данных нет', 'INVALID_TRAINING_SET');
+  }
+  const featureCount = X[0].length;
+  if (featureCount === 0 || X.some(row => row.length !== featureCount || row.some(v => !Number.isFinite(v)))) {
+    throw new TreeModelError('Признаки должны быть конечными числами одинаковой длины', 'INVALID_TRAINING_SET');
+  }
+  if (y.some(target => target !== 0 && target !== 1)) {
+    throw new TreeModelError('Метки должны быть 0 или 1', 'INVALID_TRAINING_SET');
+  }
+  return featureCount;
+};
+
+/**
+ * Grows a tree on the rows `indices` of X. Rows may repeat (bootstrap samples)
+ */
+export function fitCart(
+  X: number[][],
+  y: number[],
+  indices: number[],
+  options: CartOptions,
+  context: CartFitContext
+): TreeNode {
+  const featureCount = X[0]?.length ?? 0;
+  const allowed = context.features ?? Array.from({ length: featureCount }, (_, i) => i);
+
+  const grow = (rows: number[], depth: number): TreeNode => {
+    const n = rows.length;
+    const mean = rows.reduce((sum, i) => sum + y[i], 0) / n;
+    const impurity = rows.reduce((sum, i) => sum + (y[i] - mean) ** 2, 0) / n;
+    const leaf = (): TreeNode => ({ value: context.leafValue ? context.leafValue(rows) : mean, samples: n, impurity });
+
+    if (depth >= options.maxDepth || n < options.minSamplesSplit || n < 2 * options.minSamplesLeaf || impurity <= 0) {
+      return leaf();
+    }
+
+    const candidates = sampleFeatures(allowed, options.maxFeatures ?? allowed.length, context.random);
+    const split = findBestSplit(X, y, rows, candidates, options.minSamplesLeaf);
+    if (!split) return leaf();
+
+    if (context.importance) {
+      context.importance[split.feature] += split.gain;
+    }
+
+    const left: number[] = [];
+    const right: number[] = [];
+    rows.forEach(i => (X[i][split.feature] <= split.threshold ? left : right).push(i));
+
+    return {
+      feature: split.feature,
+      threshold: split.threshold,
+      left: grow(left, depth + 1),
+      right: grow(right, depth + 1),
+      value: mean,
+      samples: n,
+      impurity
+    };
+  };
+
+  if (indices.length === 0) {
+    throw new TreeModelError('Нет данных для обучения дерева', 'EMPTY_TRAINING_SET');
+  }
+  return grow(indices, 0);
+}
+
+export function predictCart(root: TreeNode, x: number[]): number {
+  let node = root;
+  while (node.left && node.right) {
+    node = (x[node.feature!] ?? 0) <= node.threshold! ? node.left : node.right;
+  }
+  return node.value;
+}
+
+/**
+ * Checks a deserialized tree before use; every split must reference an existing feature
+ */
+export function validateTree(node: unknown, featureCount: number): asserts node is TreeNode {
+  const stack: unknown[] = [node];
+
+  while (stack.length > 0) {
+    const current = stack.pop() as Partial<TreeNode> | null;
+    if (!current || typeof current !== 'object' || !Number.isFinite(current.value)) {
+      throw new TreeModelError('Некорректный узел дерева', 'INVALID_MODEL');
+    }
+
+    const isSplit = current.left !== undefined || current.right !== undefined;
+    if (!isSplit) continue;
+
+    if (
+      !current.left || !current.right ||
+      !Number.isInteger(current.feature) || current.feature! < 0 || current.feature! >= featureCount ||
+      !Number.isFinite(current.threshold)
+    ) {
+      throw new TreeModelError('Некорректное разбиение в дереве', 'INVALID_MODEL');
+    }
+    stack.push(current.left, current.right);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Gradient-boosted decision trees for binary targets.
+ * Logistic loss: every round fits a CART tree to the residuals y - p on a row
+ * subsample and replaces its leaf values with regularized Newton steps
+ * sum(g) / (sum(h) + lambda), as XGBoost does. The raw score is a log-odds.
+ */
+
+import { createSeededRandom } from '@/services/backtesting/core/random';
+import { TreeModelError, TreeNode, fitCart, normalizeImportance, predictCart, validateTrainingSet, validateTree } from './cart';
+
+export interface GradientBoostingOptions {
+  nEstimators: number;
+  learningRate: number;
+  maxDepth: number;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+  /** Share of rows drawn without replacement for each tree */
+  subsample: number;
+  /** Share of features each tree may split on */
+  colsampleByTree: number;
+  /** L2 penalty on leaf values (lambda) */
+  l2Regularization: number;
+  seed: number;
+}
+
+export interface GradientBoostingJSON {
+  type: 'gradient-boosting';
+  version: 1;
+  options: GradientBoostingOptions;
+  featureCount: number;
+  /** Log-odds of the training base rate */
+  baseScore: number;
+  trees: TreeNode[];
+  featureImportance: number[];
+  /** Training log loss after each round */
+  lossHistory: number[];
+}
+
+export const DEFAULT_GRADIENT_BOOSTING_OPTIONS: GradientBoostingOptions = {
+  nEstimators: 100,
+  learningRate: 0.1,
+  maxDepth: 3,
+  minSamplesSplit: 10,
+  minSamplesLeaf: 5,
+  subsample: 0.8,
+  colsampleByTree: 1,
+  l2Regularization: 1,
+  seed: 42
+};
+
+/** Keeps the base rate and log loss finite on single-class data */
+const PROBABILITY_EPSILON = 1e-6;
+
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
+
+const logLoss = (y: number[], scores: number[]): number =>
+  -y.reduce((sum, target, i) => {
+    const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, sigmoid(scores[i])));
+    return sum + (target === 1 ? Math.log(p) : Math.log(1 - p));
+  }, 0) / y.length;
+
+/**
+ * `count` distinct indices below `total`, in ascending order
+ */
+const sampleWithoutReplacement = (total: number, count: number, random: () => number): number[] => {
+  const pool = Array.from({ length: total }, (_, i) => i);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (total - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count).sort((a, b) => a - b);
+};
+
+export class GradientBoostingClassifier {
+  constructor(private readonly model: GradientBoostingJSON) {}
+
+  static fit(X: number[][], y: number[], options: Partial<GradientBoostingOptions> = {}): GradientBoostingClassifier {
+    const settings = { ...DEFAULT_GRADIENT_BOOSTING_OPTIONS, ...options };
+    const featureCount = validateTrainingSet(X, y);
+    const random = createSeededRandom(settings.seed);
+
+    const baseRate = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, y.reduce((s, v) => s + v, 0) / y.length));
+    const baseScore = Math.log(baseRate / (1 - baseRate));
+    const scores = Array(X.length).fill(baseScore);
+
+    const rowCount = Math.max(1, Math.round(X.length * settings.subsample));
+    const columnCount = Math.max(1, Math.round(featureCount * settings.colsampleByTree));
+    const importance: number[] = Array(featureCount).fill(0);
+    const trees: TreeNode[] = [];
+    const lossHistory: number[] = [];
+
+    for (let round = 0; round < settings.nEstimators; round++) {
+      const probabilities = scores.map(sigmoid);
+      const residuals = y.map((target, i) => target - probabilities[i]);
+
+      const leafValue = (rows: number[]) => {
+        let gradient = 0;
+        let hessian = 0;
+        rows.forEach(i => {
+          gradient += residuals[i];
+          hessian += probabilities[i] * (1 - probabilities[i]);
+        });
+        return gradient / (hessian + settings.l2Regularization);
+      };
+
+      const tree = fitCart(
+        X,
+        residuals,
+        sampleWithoutReplacement(X.length, rowCount, random),
+        settings,
+        {
+          random,
+          leafValue,
+          importance,
+          features: columnCount < featureCount ? sampleWithoutReplacement(featureCount, columnCount, random) : undefined
+        }
+      );
+      trees.push(tree);
+
+      X.forEach((row, i) => {
+        scores[i] += settings.learningRate * predictCart(tree, row);
+      });
+      lossHistory.push(logLoss(y, scores));
+    }
+
+    return new GradientBoostingClassifier({
+      type: 'gradient-boosting',
+      version: 1,
+      options: settings,
+      featureCount,
+      baseScore,
+      trees,
+      featureImportance: normalizeImportance(importance),
+      lossHistory
+    });
+  }
+
+  static fromJSON(json: GradientBoostingJSON): GradientBoostingClassifier {
+    if (json?.type !== 'gradient-boosting' || json.version !== 1 || !Array.isArray(json.trees) || !Number.isFinite(json.baseScore)) {
+      throw new TreeModelError('Некорректная сериализация градиентного бустинга', 'INVALID_MODEL');
+    }
+    json.trees.forEach(tree => validateTree(tree, json.featureCount));
+    return new GradientBoostingClassifier(json);
+  }
+
+  get featureCount(): number {
+    return this.model.featureCount;
+  }
+
+  get featureImportance(): number[] {
+    return this.model.featureImportance;
+  }
+
+  get lossHistory(): number[] {
+    return this.model.lossHistory;
+  }
+
+  /**
+   * Log-odds of target = 1
+   */
+  predictRaw(x: number[]): number {
+    if (x.length !== this.model.featureCount) {
+      throw new TreeModelError(
+        `Ожидалось ${this.model.featureCount} признаков, получено ${x.length}`,
+        'FEATURE_MISMATCH'
+      );
+    }
+    const { learningRate } = this.model.options;
+    return this.model.trees.reduce((score, tree) => score + learningRate * predictCart(tree, x), this.model.baseScore);
+  }
+
+  predictProba(x: number[]): number {
+    return sigmoid(this.predictRaw(x));
+  }
+
+  toJSON(): GradientBoostingJSON {
+    return this.model;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Random forest classifier for binary targets.
+ * Bagged CART trees with a random feature subset at every split; the predicted
+ * probability is the mean leaf value over the trees. Rows left out of a tree's
+ * bootstrap sample give an out-of-bag accuracy estimate for free.
+ */
+
+import { createSeededRandom } from '@/services/backtesting/core/random';
+import { TreeModelError, TreeNode, fitCart, normalizeImportance, predictCart, validateTrainingSet, validateTree } from './cart';
+
+export interface RandomForestOptions {
+  nTrees: number;
+  maxDepth: number;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+  /** Features tried per split: square root of the feature count, all of them, or a fixed number */
+  maxFeatures: 'sqrt' | 'all' | number;
+  /** Bootstrap sample size as a share of the training rows */
+  subsample: number;
+  seed: number;
+}
+
+export interface RandomForestJSON {
+  type: 'random-forest';
+  version: 1;
+  options: RandomForestOptions;
+  featureCount: number;
+  trees: TreeNode[];
+  /** Normalized variance decrease per feature, sums to 1 */
+  featureImportance: number[];
+  /** Accuracy on out-of-bag rows; null when every row was in every sample */
+  oobAccuracy: number | null;
+}
+
+export const DEFAULT_RANDOM_FOREST_OPTIONS: RandomForestOptions = {
+  nTrees: 100,
+  maxDepth: 8,
+  minSamplesSplit: 10,
+  minSamplesLeaf: 5,
+  maxFeatures: 'sqrt',
+  subsample: 1,
+  seed: 42
+};
+
+export class RandomForestClassifier {
+  constructor(private readonly model: RandomForestJSON) {}
+
+  static fit(X: number[][], y: number[], options: Partial<RandomForestOptions> = {}): RandomForestClassifier {
+    const settings = { ...DEFAULT_RANDOM_FOREST_OPTIONS, ...options };
+    const featureCount = validateTrainingSet(X, y);
+    const random = createSeededRandom(settings.seed);
+
+    const maxFeatures = settings.maxFeatures === 'sqrt'
+      ? Math.max(1, Math.round(Math.sqrt(featureCount)))
+      : settings.maxFeatures === 'all' ? featureCount : Math.min(featureCount, Math.max(1, settings.maxFeatures));
+    const sampleSize = Math.max(1, Math.round(X.length * settings.subsample));
+
+    const importance: number[] = Array(featureCount).fill(0);
+    const oobVotes = Array(X.length).fill(0);
+    const oobCounts = Array(X.length).fill(0);
+    const trees: TreeNode[] = [];
+
+    for (let t = 0; t < settings.nTrees; t++) {
+      const inBag = new Uint8Array(X.length);
+      const sample = Array.from({ length: sampleSize }, () => {
+        const row = Math.floor(random() * X.length);
+        inBag[row] = 1;
+        return row;
+      });
+
+      const tree = fitCart(X, y, sample, { ...settings, maxFeatures }, { random, importance });
+      trees.push(tree);
+
+      for (let row = 0; row < X.length; row++) {
+        if (inBag[row]) continue;
+        oobVotes[row] += predictCart(tree, X[row]);
+        oobCounts[row]++;
+      }
+    }
+
+    const oobRows = Array.from(oobCounts.keys()).filter(row => oobCounts[row] > 0);
+    const oobCorrect = oobRows.filter(row => (oobVotes[row] / oobCounts[row] > 0.5 ? 1 : 0) === y[row]).length;
+
+    return new RandomForestClassifier({
+      type: 'random-forest',
+      version: 1,
+      options: settings,
+      featureCount,
+      trees,
+      featureImportance: normalizeImportance(importance),
+      oobAccuracy: oobRows.length > 0 ? oobCorrect / oobRows.length : null
+    });
+  }
+
+  static fromJSON(json: RandomForestJSON): RandomForestClassifier {
+    if (json?.type !== 'random-forest' || json.version !== 1 || !Array.isArray(json.trees) || json.trees.length === 0) {
+      throw new TreeModelError('Некорректная сериализация случайного леса', 'INVALID_MODEL');
+    }
+    json.trees.forEach(tree => validateTree(tree, json.featureCount));
+    return new RandomForestClassifier(json);
+  }
+
+  get featureCount(): number {
+    return this.model.featureCount;
+  }
+
+  get featureImportance(): number[] {
+    return this.model.featureImportance;
+  }
+
+  get oobAccuracy(): number | null {
+    return this.model.oobAccuracy;
+  }
+
+  /**
+   * P(target = 1)
+   */
+  predictProba(x: number[]): number {
+    if (x.length !== this.model.featureCount) {
+      throw new TreeModelError(
+        `Ожидалось ${this.model.featureCount} признаков, получено ${x.length}`,
+        'FEATURE_MISMATCH'
+      );
+    }
+    return this.model.trees.reduce((sum, tree) => sum + predictCart(tree, x), 0) / this.model.trees.length;
+  }
+
+  toJSON(): RandomForestJSON {
+    return this.model;
+  }
+}
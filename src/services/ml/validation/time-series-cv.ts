@@ -0,0 +1,300 @@
+/**
+ * Time-series cross-validation.
+ * Samples are split into contiguous blocks in time order. Expanding and
+ * sliding windows train on the blocks before the test block; purged k-fold
+ * tests every block and trains on the others. Every sample carries a label
+ * span — when its features are known and when its label resolves. Training
+ * samples whose span overlaps the test span are purged, and in purged k-fold
+ * the samples right after the test block are embargoed as well, so a label
+ * never leaks across a fold boundary (López de Prado, AFML ch. 7).
+ */
+
+export type CrossValidationScheme = 'expanding' | 'sliding' | 'purged-kfold';
+
+/** Feature time and label resolution time of a sample, in one unit: ms or sample index */
+export interface LabelSpan {
+  start: number;
+  end: number;
+}
+
+export interface CrossValidationOptions {
+  scheme: CrossValidationScheme;
+  /** Test blocks; expanding and sliding windows also reserve one leading block for training */
+  folds: number;
+  /** Sliding window: training samples per fold, one block by default */
+  windowSize?: number;
+  /** Samples after each test block kept out of training */
+  embargo: number;
+  /** Folds left with fewer training samples after purging are skipped */
+  minTrainSize: number;
+}
+
+export interface CrossValidationFold {
+  index: number;
+  train: number[];
+  test: number[];
+  /** Training samples dropped because their label span overlaps the test block */
+  purged: number;
+  /** Training samples dropped by the embargo after the test block */
+  embargoed: number;
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  logLoss: number;
+  brierScore: number;
+}
+
+export interface FoldMetrics extends ClassificationMetrics {
+  fold: number;
+  trainSize: number;
+  testSize: number;
+  purged: number;
+  embargoed: number;
+}
+
+export interface CrossValidationResult {
+  scheme: CrossValidationScheme;
+  folds: FoldMetrics[];
+  /** Mean and standard deviation of every metric over the folds */
+  mean: ClassificationMetrics;
+  std: ClassificationMetrics;
+}
+
+/**
+ * Model under validation: fitted on a fold's training samples, returns P(label = 1) per sample
+ */
+export interface CrossValidationLearner<T, M> {
+  fit(train: T[]): M | Promise<M>;
+  predict(model: M, sample: T): number;
+  label(sample: T): number;
+}
+
+export class CrossValidationError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'CrossValidationError';
+  }
+}
+
+export const DEFAULT_CROSS_VALIDATION_OPTIONS: CrossValidationOptions = {
+  scheme: 'purged-kfold',
+  folds: 5,
+  embargo: 0,
+  minTrainSize: 10
+};
+
+const METRIC_KEYS: Array<keyof ClassificationMetrics> = ['accuracy', 'precision', 'recall', 'f1Score', 'logLoss', 'brierScore'];
+
+const range = (from: number, to: number): number[] => Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+
+function validateSpans(spans: LabelSpan[]): void {
+  spans.forEach((span, i) => {
+    if (!Number.isFinite(span.start) || !Number.isFinite(span.end) || span.end < span.start) {
+      throw new CrossValidationError(`Некорректный интервал метки у примера ${i}`, 'INVALID_SPAN');
+    }
+    if (i > 0 && span.start < spans[i - 1].start) {
+      throw new CrossValidationError('Примеры должны быть упорядочены по времени', 'UNSORTED_SAMPLES');
+    }
+  });
+}
+
+/**
+ * Spans for labels that resolve `horizon` samples after the features, e.g. next-candle
+ * direction for horizon 1. Past the last sample the median step is extrapolated
+ */
+export function forwardLabelSpans(times: number[], horizon = 1): LabelSpan[] {
+  const steps = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  const step = steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 0;
+  const last = times.length - 1;
+
+  return times.map((start, i) => ({
+    start,
+    end: i + horizon <= last ? times[i + horizon] : times[last] + (i + horizon - last) * step
+  }));
+}
+
+/**
+ * Drops training samples whose label span overlaps the test samples' time range,
+ * then the `embargo` samples that follow the test block
+ */
+export function purgeTrainingSet(
+  train: number[],
+  test: number[],
+  spans: LabelSpan[],
+  embargo = 0
+): { train: number[]; purged: number; embargoed: number } {
+  if (test.length === 0) return { train: [...train], purged: 0, embargoed: 0 };
+
+  const testStart = Math.min(...test.map(i => spans[i].start));
+  const testEnd = Math.max(...test.map(i => spans[i].end));
+  const lastTest = Math.max(...test);
+
+  let purged = 0;
+  let embargoed = 0;
+  const kept = train.filter(i => {
+    if (spans[i].start <= testEnd && spans[i].end >= testStart) {
+      purged++;
+      return false;
+    }
+    if (i > lastTest && i <= lastTest + embargo) {
+      embargoed++;
+      return false;
+    }
+    return true;
+  });
+
+  return { train: kept, purged, embargoed };
+}
+
+/**
+ * Train/test folds over samples in time order
+ */
+export function createTimeSeriesFolds(spans: LabelSpan[], options: Partial<CrossValidationOptions> = {}): CrossValidationFold[] {
+  const config = { ...DEFAULT_CROSS_VALIDATION_OPTIONS, ...options };
+  validateSpans(spans);
+  if (!Number.isInteger(config.folds) || config.folds < 2) {
+    throw new CrossValidationError('Нужно не меньше двух фолдов', 'INVALID_OPTIONS');
+  }
+  if (!Number.isInteger(config.embargo) || config.embargo < 0) {
+    throw new CrossValidationError('Эмбарго задается неотрицательным числом примеров', 'INVALID_OPTIONS');
+  }
+
+  const walkForward = config.scheme !== 'purged-kfold';
+  const blocks = config.folds + (walkForward ? 1 : 0);
+  if (spans.length < blocks * 2) {
+    throw new CrossValidationError(`Недостаточно примеров для ${config.folds} фолдов: ${spans.length}`, 'INSUFFICIENT_DATA');
+  }
+  const boundary = (block: number) => Math.floor((block * spans.length) / blocks);
+
+  const folds: CrossValidationFold[] = [];
+  for (let fold = 0; fold < config.folds; fold++) {
+    const testBlock = walkForward ? fold + 1 : fold;
+    const test = range(boundary(testBlock), boundary(testBlock + 1));
+
+    let candidates: number[];
+    if (config.scheme === 'purged-kfold') {
+      candidates = [...range(0, test[0]), ...range(test[test.length - 1] + 1, spans.length)];
+    } else if (config.scheme === 'sliding') {
+      const windowSize = config.windowSize ?? boundary(1);
+      candidates = range(Math.max(0, test[0] - windowSize), test[0]);
+    } else {
+      candidates = range(0, test[0]);
+    }
+
+    const { train, purged, embargoed } = purgeTrainingSet(candidates, test, spans, config.embargo);
+    if (train.length < config.minTrainSize) continue;
+    folds.push({ index: folds.length, train, test, purged, embargoed });
+  }
+
+  if (folds.length === 0) {
+    throw new CrossValidationError('После очистки ни в одном фолде не осталось обучающих примеров', 'INSUFFICIENT_DATA');
+  }
+  return folds;
+}
+
+/**
+ * Single chronological split: the last `holdoutShare` of samples is held out,
+ * overlapping training labels are purged. Nothing follows the holdout, so there is no embargo
+ */
+export function chronologicalHoldout(
+  spans: LabelSpan[],
+  holdoutShare: number
+): { train: number[]; test: number[]; purged: number } {
+  validateSpans(spans);
+  const split = Math.min(spans.length, Math.max(0, Math.floor(spans.length * (1 - holdoutShare))));
+  const test = range(split, spans.length);
+  const { train, purged } = purgeTrainingSet(range(0, split), test, spans);
+  return { train, test, purged };
+}
+
+/**
+ * Metrics of probability forecasts for 0/1 labels; the decision threshold is 0.5
+ */
+export function classificationMetrics(probabilities: number[], labels: number[]): ClassificationMetrics {
+  const epsilon = 1e-15;
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  let logLoss = 0;
+  let brierScore = 0;
+
+  probabilities.forEach((probability, i) => {
+    const label = labels[i] ? 1 : 0;
+    const predicted = probability > 0.5 ? 1 : 0;
+    if (predicted === 1 && label === 1) tp++;
+    else if (predicted === 1) fp++;
+    else if (label === 0) tn++;
+    else fn++;
+
+    const clipped = Math.min(1 - epsilon, Math.max(epsilon, probability));
+    logLoss -= label * Math.log(clipped) + (1 - label) * Math.log(1 - clipped);
+    brierScore += (probability - label) ** 2;
+  });
+
+  const n = probabilities.length;
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  return {
+    accuracy: n > 0 ? (tp + tn) / n : 0,
+    precision,
+    recall,
+    f1Score: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    logLoss: n > 0 ? logLoss / n : 0,
+    brierScore: n > 0 ? brierScore / n : 0
+  };
+}
+
+function summarize(folds: FoldMetrics[]): Pick<CrossValidationResult, 'mean' | 'std'> {
+  const mean = {} as ClassificationMetrics;
+  const std = {} as ClassificationMetrics;
+  METRIC_KEYS.forEach(key => {
+    const values = folds.map(fold => fold[key]);
+    mean[key] = values.reduce((sum, value) => sum + value, 0) / values.length;
+    std[key] = Math.sqrt(values.reduce((sum, value) => sum + (value - mean[key]) ** 2, 0) / values.length);
+  });
+  return { mean, std };
+}
+
+/**
+ * Fits the learner on every fold and scores it on the fold's test block
+ */
+export async function crossValidate<T, M>(
+  samples: T[],
+  spans: LabelSpan[],
+  learner: CrossValidationLearner<T, M>,
+  options: Partial<CrossValidationOptions> = {},
+  onFold?: (metrics: FoldMetrics, folds: number) => void
+): Promise<CrossValidationResult> {
+  if (spans.length !== samples.length) {
+    throw new CrossValidationError('Число интервалов меток не совпадает с числом примеров', 'INVALID_SPAN');
+  }
+
+  const folds = createTimeSeriesFolds(spans, options);
+  const results: FoldMetrics[] = [];
+
+  for (const fold of folds) {
+    const model = await learner.fit(fold.train.map(i => samples[i]));
+    const testSamples = fold.test.map(i => samples[i]);
+    const metrics: FoldMetrics = {
+      fold: fold.index,
+      trainSize: fold.train.length,
+      testSize: fold.test.length,
+      purged: fold.purged,
+      embargoed: fold.embargoed,
+      ...classificationMetrics(
+        testSamples.map(sample => learner.predict(model, sample)),
+        testSamples.map(sample => learner.label(sample))
+      )
+    };
+    results.push(metrics);
+    onFold?.(metrics, folds.length);
+  }
+
+  return {
+    scheme: options.scheme ?? DEFAULT_CROSS_VALIDATION_OPTIONS.scheme,
+    folds: results,
+    ...summarize(results)
+  };
+}
@@ -0,0 +1,477 @@
+/**
+ * Офлайн-синхронизация свечей: операции надежно ставятся в очередь (IndexedDB),
+ * воспроизводятся при появлении сети, конфликты разрешаются по (session_id, candle_index)
+ */
+
+import { CandleData } from '@/types/session';
+import {
+  CandleOperationType,
+  createQueueStore,
+  OfflineQueueStore,
+  QueuedCandleOperation
+} from './OfflineQueueStore';
+import { supabaseCandleRemote } from './supabaseCandleRemote';
+
+export type ConflictStrategy = 'last-write-wins' | 'server-wins' | 'client-wins';
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+export interface CandleSyncConfig {
+  conflictStrategy: ConflictStrategy;
+  /** Задержка перед синхронизацией после постановки операции, мс */
+  syncDelay: number;
+  /** Синхронизировать автоматически после постановки в очередь и при появлении сети */
+  autoSync: boolean;
+  /** Попыток для ошибок, не связанных с сетью; дальше операция ждет retryFailed */
+  maxAttempts: number;
+  /** Задержка перед повтором после первой неудачи, мс; удваивается с каждой попыткой */
+  retryDelay: number;
+}
+
+/**
+ * Server side of the sync, addressed by (session_id, candle_index)
+ */
+export interface CandleSyncRemote {
+  fetch(sessionId: string, candleIndex: number): Promise<CandleData | null>;
+  upsert(candle: Omit<CandleData, 'id'>): Promise<CandleData>;
+  update(sessionId: string, candleIndex: number, data: Partial<CandleData>): Promise<CandleData>;
+  remove(sessionId: string, candleIndex: number): Promise<void>;
+}
+
+export interface EnqueueCandleOperation {
+  type: CandleOperationType;
+  sessionId: string;
+  candleIndex: number;
+  data?: Partial<CandleData>;
+  /** updated_at серверной строки, которую видел пользователь; null — строки не было, undefined — неизвестно */
+  baseVersion?: string | null;
+}
+
+export interface SyncConflict {
+  sessionId: string;
+  candleIndex: number;
+  operation: CandleOperationType;
+  local?: Partial<CandleData>;
+  server: CandleData | null;
+  /** Чья версия осталась на сервере */
+  resolution: 'local' | 'server';
+  detectedAt: number;
+}
+
+export interface CandleSyncState {
+  status: SyncStatus;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+type SyncListener = (state: CandleSyncState) => void;
+type SessionSyncListener = (sessionId: string) => void;
+
+const DEFAULT_CONFIG: CandleSyncConfig = {
+  conflictStrategy: 'last-write-wins',
+  syncDelay: 1000,
+  autoSync: true,
+  maxAttempts: 5,
+  retryDelay: 2000
+};
+
+const MAX_CONFLICTS = 50;
+
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+const operationKey = (sessionId: string, candleIndex: number) => `${sessionId}:${candleIndex}`;
+
+export const versionOf = (candle: Partial<CandleData> | null | undefined): string | null =>
+  candle?.updated_at ?? candle?.created_at ?? null;
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const isNetworkError = (error: unknown): boolean => {
+  if (isOffline()) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|fetch failed|load failed|network|timed? ?out|ECONNREFUSED|ENOTFOUND/i.test(message);
+};
+
+/**
+ * Слияние новой операции с ожидающей операцией той же свечи
+ * @returns null, если операции взаимно уничтожились
+ */
+export function mergeOperations(
+  pending: QueuedCandleOperation | undefined,
+  next: QueuedCandleOperation
+): QueuedCandleOperation | null {
+  if (!pending) return next;
+
+  const merged: QueuedCandleOperation = {
+    ...next,
+    createdAt: pending.createdAt,
+    baseVersion: pending.baseVersion,
+    attempts: 0,
+    lastError: undefined,
+    nextAttemptAt: undefined
+  };
+
+  switch (next.type) {
+    case 'insert':
+      return merged;
+    case 'update':
+      // Свеча уже удалена локально
+      if (pending.type === 'delete') return pending;
+      return { ...merged, type: pending.type, data: { ...pending.data, ...next.data } };
+    case 'delete':
+      // Свеча создана офлайн и до сервера не дошла
+      if (pending.type === 'insert' && pending.baseVersion === null) return null;
+      return { ...merged, data: undefined };
+  }
+}
+
+export class CandleSyncService {
+  private config: CandleSyncConfig;
+  private operations = new Map<string, QueuedCandleOperation>();
+  private loading: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private listeners = new Set<SyncListener>();
+  private sessionListeners = new Set<SessionSyncListener>();
+  private state: CandleSyncState = {
+    status: 'synced',
+    pending: 0,
+    conflicts: [],
+    lastSyncedAt: null,
+    lastError: null
+  };
+
+  constructor(
+    private readonly store: OfflineQueueStore,
+    private readonly remote: CandleSyncRemote,
+    config: Partial<CandleSyncConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Загружает очередь и подписывается на события сети; повторные вызовы безопасны
+   */
+  async start(): Promise<void> {
+    if (!this.started && typeof window !== 'undefined' && this.config.autoSync) {
+      window.addEventListener('online', () => void this.sync());
+      window.addEventListener('offline', () => this.refreshStatus());
+      this.started = true;
+    }
+
+    await this.load();
+    if (this.operations.size > 0 && this.config.autoSync) {
+      this.scheduleSync(0);
+    }
+  }
+
+  async enqueue(input: EnqueueCandleOperation): Promise<QueuedCandleOperation | null> {
+    await this.load();
+
+    // createdAt задает порядок отправки, поэтому он строго возрастает даже в пределах одной миллисекунды
+    const latest = Math.max(0, ...Array.from(this.operations.values(), op => op.createdAt));
+    const now = Math.max(Date.now(), latest + 1);
+    const id = operationKey(input.sessionId, input.candleIndex);
+    const merged = mergeOperations(this.operations.get(id), {
+      id,
+      type: input.type,
+      sessionId: input.sessionId,
+      candleIndex: input.candleIndex,
+      data: input.data,
+      baseVersion: input.baseVersion,
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0
+    });
+
+    if (merged) {
+      this.operations.set(id, merged);
+      await this.store.put(merged);
+    } else {
+      this.operations.delete(id);
+      await this.store.delete(id);
+    }
+
+    this.refreshStatus();
+    if (this.config.autoSync) {
+      this.scheduleSync();
+    }
+    return merged;
+  }
+
+  hasPending(sessionId: string, candleIndex?: number): boolean {
+    if (candleIndex !== undefined) {
+      return this.operations.has(operationKey(sessionId, candleIndex));
+    }
+    return this.getPending(sessionId).length > 0;
+  }
+
+  getPending(sessionId?: string): QueuedCandleOperation[] {
+    return Array.from(this.operations.values())
+      .filter(op => !sessionId || op.sessionId === sessionId)
+      .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Накладывает ожидающие операции на свечи сессии, чтобы офлайн-правки были видны
+   */
+  applyPending(sessionId: string, candles: CandleData[]): CandleData[] {
+    const byIndex = new Map(candles.map(candle => [candle.candle_index, candle]));
+
+    for (const op of this.getPending(sessionId)) {
+      const current = byIndex.get(op.candleIndex);
+      if (op.type === 'delete') {
+        byIndex.delete(op.candleIndex);
+      } else if (op.type === 'insert') {
+        byIndex.set(op.candleIndex, { ...current, ...op.data } as CandleData);
+      } else if (current) {
+        byIndex.set(op.candleIndex, { ...current, ...op.data });
+      }
+    }
+
+    return Array.from(byIndex.values()).sort((a, b) => a.candle_index - b.candle_index);
+  }
+
+  /**
+   * Воспроизводит очередь на сервере; параллельные вызовы получают один и тот же прогон
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Снимает счетчик попыток с операций, исчерпавших повторы, и запускает синхронизацию
+   */
+  async retryFailed(): Promise<void> {
+    await this.load();
+    for (const op of this.operations.values()) {
+      if (op.attempts === 0) continue;
+      const reset = { ...op, attempts: 0, nextAttemptAt: undefined };
+      this.operations.set(op.id, reset);
+      await this.store.put(reset);
+    }
+    return this.sync();
+  }
+
+  getState(): CandleSyncState {
+    return this.state;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Вызывается для каждой сессии, чьи операции дошли до сервера
+   */
+  onSessionSynced(listener: SessionSyncListener): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  clearConflicts(): void {
+    this.setState({ conflicts: [] });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store
+        .getAll()
+        .then(operations => {
+          operations.forEach(op => this.operations.set(op.id, op));
+          this.refreshStatus();
+        })
+        .catch(error => {
+          console.warn('Offline queue unavailable, continuing in memory:', error);
+        });
+    }
+    return this.loading;
+  }
+
+  private scheduleSync(delay = this.config.syncDelay): void {
+    if (isOffline()) return;
+
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+    }
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.sync();
+    }, delay);
+  }
+
+  private async runSync(): Promise<void> {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    await this.load();
+    if (this.operations.size === 0) {
+      this.setState({ status: 'synced', lastError: null });
+      return;
+    }
+    if (isOffline()) {
+      this.setState({ status: 'offline' });
+      return;
+    }
+
+    this.setState({ status: 'syncing' });
+    const syncedSessions = new Set<string>();
+    let lastError: string | null = null;
+    const startedAt = Date.now();
+
+    for (const op of this.getPending()) {
+      if (op.attempts >= this.config.maxAttempts || (op.nextAttemptAt ?? 0) > startedAt) continue;
+
+      try {
+        const written = await this.replay(op);
+        // Операция могла быть заменена новой правкой во время запроса
+        const current = this.operations.get(op.id);
+        if (current === op) {
+          this.operations.delete(op.id);
+          await this.store.delete(op.id);
+        } else if (current && written !== undefined) {
+          // Новая правка отталкивается от только что записанной версии, а не от исходной
+          const rebased = { ...current, baseVersion: written };
+          this.operations.set(op.id, rebased);
+          await this.store.put(rebased);
+        }
+        syncedSessions.add(op.sessionId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (isNetworkError(error)) {
+          this.notifySessions(syncedSessions);
+          this.setState({ status: 'offline', pending: this.operations.size, lastError: message });
+          return;
+        }
+
+        if (this.operations.get(op.id) === op) {
+          const attempts = op.attempts + 1;
+          const failed = {
+            ...op,
+            attempts,
+            lastError: message,
+            nextAttemptAt: Date.now() + Math.min(MAX_RETRY_DELAY, this.config.retryDelay * 2 ** (attempts - 1))
+          };
+          this.operations.set(op.id, failed);
+          await this.store.put(failed);
+        }
+      }
+    }
+
+    this.notifySessions(syncedSessions);
+    const operations = this.getPending();
+    const exhausted = operations.find(op => op.attempts >= this.config.maxAttempts);
+    lastError = lastError ?? exhausted?.lastError ?? null;
+    this.setState({
+      status: lastError ? 'error' : operations.length > 0 ? 'pending' : 'synced',
+      pending: operations.length,
+      lastError,
+      lastSyncedAt: Date.now()
+    });
+
+    // Правки, сделанные во время прогона, и повторы после неудач
+    const retryable = operations.filter(op => op.attempts < this.config.maxAttempts);
+    if (retryable.length > 0 && this.config.autoSync) {
+      const nextAttemptAt = Math.min(...retryable.map(op => op.nextAttemptAt ?? 0));
+      this.scheduleSync(Math.max(this.config.syncDelay, nextAttemptAt - Date.now()));
+    }
+  }
+
+  /**
+   * @returns Версия строки, записанная на сервер (null — строки больше нет); undefined, если ничего не записано
+   */
+  private async replay(op: QueuedCandleOperation): Promise<string | null | undefined> {
+    const server = await this.remote.fetch(op.sessionId, op.candleIndex);
+
+    if (op.type === 'delete' && !server) return null;
+    if (op.type === 'update' && !server) {
+      // Свеча удалена на сервере — обновлять нечего
+      this.recordConflict(op, server, 'server');
+      return undefined;
+    }
+
+    const conflict = op.baseVersion !== undefined && versionOf(server) !== op.baseVersion;
+    if (conflict) {
+      const localWins = this.localWins(op, server);
+      this.recordConflict(op, server, localWins ? 'local' : 'server');
+      if (!localWins) return undefined;
+    }
+
+    switch (op.type) {
+      case 'insert':
+        return versionOf(await this.remote.upsert({
+          ...op.data,
+          session_id: op.sessionId,
+          candle_index: op.candleIndex
+        } as Omit<CandleData, 'id'>));
+      case 'update':
+        return versionOf(await this.remote.update(op.sessionId, op.candleIndex, op.data ?? {}));
+      case 'delete':
+        await this.remote.remove(op.sessionId, op.candleIndex);
+        return null;
+    }
+  }
+
+  private localWins(op: QueuedCandleOperation, server: CandleData | null): boolean {
+    switch (this.config.conflictStrategy) {
+      case 'client-wins':
+        return true;
+      case 'server-wins':
+        return false;
+      default: {
+        const serverVersion = versionOf(server);
+        return !serverVersion || op.updatedAt >= new Date(serverVersion).getTime();
+      }
+    }
+  }
+
+  private recordConflict(op: QueuedCandleOperation, server: CandleData | null, resolution: SyncConflict['resolution']): void {
+    const conflict: SyncConflict = {
+      sessionId: op.sessionId,
+      candleIndex: op.candleIndex,
+      operation: op.type,
+      local: op.data,
+      server,
+      resolution,
+      detectedAt: Date.now()
+    };
+    this.setState({ conflicts: [...this.state.conflicts, conflict].slice(-MAX_CONFLICTS) });
+  }
+
+  private notifySessions(sessionIds: Set<string>): void {
+    sessionIds.forEach(sessionId => this.sessionListeners.forEach(listener => listener(sessionId)));
+  }
+
+  private refreshStatus(): void {
+    const pending = this.operations.size;
+    let status: SyncStatus = this.state.status;
+    if (status !== 'syncing') {
+      if (isOffline()) status = 'offline';
+      else if (pending === 0) status = 'synced';
+      else if (status !== 'error') status = 'pending';
+    }
+    this.setState({ pending, status, ...(pending === 0 ? { lastError: null } : {}) });
+  }
+
+  private setState(patch: Partial<CandleSyncState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export const candleSyncService = new CandleSyncService(createQueueStore(), supabaseCandleRemote);
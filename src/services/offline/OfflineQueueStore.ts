@@ -0,0 +1,114 @@
+/**
+ * Хранилище офлайн-очереди операций со свечами.
+ * IndexedDB переживает перезагрузку страницы; in-memory — для тестов и окружений без IndexedDB
+ */
+
+import { CandleData } from '@/types/session';
+
+export type CandleOperationType = 'insert' | 'update' | 'delete';
+
+export interface QueuedCandleOperation {
+  /** `${sessionId}:${candleIndex}` — одна операция на свечу после слияния */
+  id: string;
+  type: CandleOperationType;
+  sessionId: string;
+  candleIndex: number;
+  data?: Partial<CandleData>;
+  /** updated_at серверной строки, от которой отталкивалась правка; null — строки не было */
+  baseVersion: string | null;
+  /** Время первой постановки в очередь, задает порядок воспроизведения */
+  createdAt: number;
+  /** Время последней локальной правки, используется при разрешении конфликтов */
+  updatedAt: number;
+  attempts: number;
+  lastError?: string;
+  /** Не воспроизводить раньше этого времени после неудачной попытки */
+  nextAttemptAt?: number;
+}
+
+export interface OfflineQueueStore {
+  getAll(): Promise<QueuedCandleOperation[]>;
+  put(operation: QueuedCandleOperation): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class InMemoryQueueStore implements OfflineQueueStore {
+  private operations = new Map<string, QueuedCandleOperation>();
+
+  async getAll(): Promise<QueuedCandleOperation[]> {
+    return Array.from(this.operations.values()).map(op => ({ ...op }));
+  }
+
+  async put(operation: QueuedCandleOperation): Promise<void> {
+    this.operations.set(operation.id, { ...operation });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.operations.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.operations.clear();
+  }
+}
+
+const DB_NAME = 'trading-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'candle_operations';
+
+export class IndexedDBQueueStore implements OfflineQueueStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async getAll(): Promise<QueuedCandleOperation[]> {
+    return this.request('readonly', store => store.getAll() as IDBRequest<QueuedCandleOperation[]>);
+  }
+
+  async put(operation: QueuedCandleOperation): Promise<void> {
+    await this.request('readwrite', store => store.put(operation));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.database = null;
+          reject(request.error ?? new Error('Failed to open offline queue'));
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Offline queue transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Offline queue transaction aborted'));
+    });
+  }
+}
+
+export const createQueueStore = (): OfflineQueueStore =>
+  typeof indexedDB !== 'undefined' ? new IndexedDBQueueStore() : new InMemoryQueueStore();
@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CandleData } from '@/types/session';
+import type { CandleSyncRemote } from './CandleSyncService';
+
+/**
+ * candle_data в Supabase как сервер для офлайн-синхронизации
+ */
+export const supabaseCandleRemote: CandleSyncRemote = {
+  async fetch(sessionId: string, candleIndex: number): Promise<CandleData | null> {
+    const { data, error } = await supabase
+      .from('candle_data')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('candle_index', candleIndex)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch candle: ${error.message}`);
+    }
+    return data;
+  },
+
+  async upsert(candle: Omit<CandleData, 'id'>): Promise<CandleData> {
+    const { data, error } = await supabase
+      .from('candle_data')
+      .upsert(candle, {
+        onConflict: 'session_id,candle_index',
+        ignoreDuplicates: false
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save candle: ${error.message}`);
+    }
+    return data;
+  },
+
+  async update(sessionId: string, candleIndex: number, updates: Partial<CandleData>): Promise<CandleData> {
+    const { data, error } = await supabase
+      .from('candle_data')
+      .update(updates)
+      .eq('session_id', sessionId)
+      .eq('candle_index', candleIndex)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update candle: ${error.message}`);
+    }
+    return data;
+  },
+
+  async remove(sessionId: string, candleIndex: number): Promise<void> {
+    const { error } = await supabase
+      .from('candle_data')
+      .delete()
+      .eq('session_id', sessionId)
+      .eq('candle_index', candleIndex);
+
+    if (error) {
+      throw new Error(`Failed to delete candle: ${error.message}`);
+    }
+  }
+};
@@ -0,0 +1,176 @@
+/**
+ * Candlestick Pattern Registry
+ * Single source of candlestick pattern detection for hooks, UI and ML features.
+ * Every registered pattern is checked on every candle, so all matches are returned.
+ */
+
+import { CandleData } from '@/types/session';
+import {
+  CandlestickPatternDefinition,
+  CandlestickPatternMatch,
+  PatternDetectionOptions,
+  PatternRangeOptions
+} from './candlestick/types';
+import { averageRange, averageVolume, candleRange, trendContext } from './candlestick/candleGeometry';
+import { SINGLE_CANDLE_PATTERNS } from './candlestick/singleCandlePatterns';
+import { TWO_CANDLE_PATTERNS } from './candlestick/twoCandlePatterns';
+import { THREE_CANDLE_PATTERNS } from './candlestick/threeCandlePatterns';
+
+export type {
+  CandlestickPatternDefinition,
+  CandlestickPatternMatch,
+  PatternDirection,
+  PatternSignalType,
+  PatternDetectionOptions,
+  PatternRangeOptions
+} from './candlestick/types';
+
+export const DEFAULT_CANDLESTICK_PATTERNS: CandlestickPatternDefinition[] = [
+  ...SINGLE_CANDLE_PATTERNS,
+  ...TWO_CANDLE_PATTERNS,
+  ...THREE_CANDLE_PATTERNS
+];
+
+export class CandlestickPatternRegistry {
+  private definitions = new Map<string, CandlestickPatternDefinition>();
+
+  constructor(definitions: CandlestickPatternDefinition[] = DEFAULT_CANDLESTICK_PATTERNS) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Add a pattern to the registry
+   */
+  register(definition: CandlestickPatternDefinition): void {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Pattern '${definition.id}' is already registered`);
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  /**
+   * Remove a pattern from the registry
+   */
+  unregister(id: string): boolean {
+    return this.definitions.delete(id);
+  }
+
+  getDefinition(id: string): CandlestickPatternDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  getDefinitions(): CandlestickPatternDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Find every pattern that completes on candles[index], strongest first
+   * CRITICAL: Only candles up to index are inspected (no look-ahead)
+   */
+  detectAt(
+    candles: CandleData[],
+    index: number,
+    options: PatternDetectionOptions = {}
+  ): CandlestickPatternMatch[] {
+    const current = candles[index];
+    if (!current) return [];
+
+    // Избегаем false positives на малых свечах
+    if (options.minRangeRatio && candleRange(current) < averageRange(candles, index) * options.minRangeRatio) {
+      return [];
+    }
+
+    const matches: CandlestickPatternMatch[] = [];
+
+    for (const definition of this.definitions.values()) {
+      if (options.patternIds && !options.patternIds.includes(definition.id)) continue;
+      if (index < definition.requiredCandles - 1) continue;
+
+      let matched = false;
+      try {
+        matched = definition.matches(candles, index);
+      } catch (error) {
+        console.warn(`Error detecting pattern ${definition.id}:`, error);
+      }
+      if (!matched) continue;
+
+      const strength = this.calculateStrength(definition, candles, index);
+      const confidence = Math.round(strength * 100);
+      if (options.minConfidence !== undefined && confidence < options.minConfidence) continue;
+
+      matches.push({
+        id: definition.id,
+        name: definition.name,
+        displayName: definition.displayName,
+        description: definition.description,
+        direction: definition.direction,
+        signal: definition.signal,
+        isReversal: definition.signal === 'reversal',
+        isContinuation: definition.signal === 'continuation',
+        index,
+        startIndex: index - definition.requiredCandles + 1,
+        candleIndex: current.candle_index,
+        requiredCandles: definition.requiredCandles,
+        strength,
+        confidence
+      });
+    }
+
+    // При равной силе приоритет у паттернов из большего числа свечей
+    return matches.sort((a, b) => b.strength - a.strength || b.requiredCandles - a.requiredCandles);
+  }
+
+  /**
+   * Find all patterns over a range of candles, oldest first
+   */
+  detectRange(candles: CandleData[], options: PatternRangeOptions = {}): CandlestickPatternMatch[] {
+    const startIndex = Math.max(0, options.startIndex ?? 0);
+    const endIndex = Math.min(candles.length - 1, options.endIndex ?? candles.length - 1);
+    const matches: CandlestickPatternMatch[] = [];
+
+    for (let i = startIndex; i <= endIndex; i++) {
+      matches.push(...this.detectAt(candles, i, options));
+    }
+
+    return matches;
+  }
+
+  /**
+   * Numeric ML feature for a pattern name or id; 0 when there is no pattern
+   */
+  encode(pattern: string | null): number {
+    if (!pattern) return 0;
+    const definition = this.definitions.get(pattern) ||
+      this.getDefinitions().find(d => d.name === pattern);
+    return definition ? definition.featureCode : 0;
+  }
+
+  /**
+   * Adjust the base strength by volume, prior trend and candle size
+   */
+  private calculateStrength(
+    definition: CandlestickPatternDefinition,
+    candles: CandleData[],
+    index: number
+  ): number {
+    const current = candles[index];
+    let strength = definition.baseStrength;
+
+    // Учитываем объем
+    if (current.volume > averageVolume(candles, index) * 1.5) strength += 0.1;
+
+    // Разворот сильнее против предшествующего тренда, продолжение — по тренду
+    const startIndex = index - definition.requiredCandles + 1;
+    const trend = startIndex > 0 ? trendContext(candles, startIndex - 1) : 0;
+    const sign = definition.direction === 'BULLISH' ? 1 : definition.direction === 'BEARISH' ? -1 : 0;
+    if (definition.signal === 'reversal') strength += Math.max(0, -trend * sign) * 0.1;
+    if (definition.signal === 'continuation') strength += Math.max(0, trend * sign) * 0.1;
+
+    // Учитываем размер свечи
+    if (candleRange(current) > averageRange(candles, index) * 1.2) strength += 0.05;
+
+    return Math.min(0.95, Math.max(0.5, strength));
+  }
+}
+
+export const candlestickPatternRegistry = new CandlestickPatternRegistry();
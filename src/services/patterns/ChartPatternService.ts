@@ -0,0 +1,113 @@
+/**
+ * Chart Pattern Service
+ * Geometric patterns built on zigzag swing points: double tops/bottoms,
+ * head-and-shoulders, triangles, wedges and flags, each with a breakout
+ * level and a measured-move target.
+ */
+
+import { CandleData } from '@/types/session';
+import { MarketStructure, SupportResistanceLevel } from '@/types/trading';
+import { ChartPattern, ChartPatternConfig, SwingPoint } from './chart/types';
+import { DEFAULT_ZIGZAG_CONFIG, extractSwingPoints } from './chart/zigzag';
+import { detectChartPatterns } from './chart/chartPatternDetectors';
+
+export type {
+  ChartPattern,
+  ChartPatternConfig,
+  ChartPatternId,
+  ChartPatternStatus,
+  SwingPoint,
+  ZigZagConfig
+} from './chart/types';
+export { extractSwingPoints } from './chart/zigzag';
+
+export interface ChartPatternAnalysis {
+  swings: SwingPoint[];
+  /** Extreme of the unfinished zigzag leg */
+  pending: SwingPoint | null;
+  /** All detected patterns, oldest first */
+  patterns: ChartPattern[];
+  marketStructure: MarketStructure;
+  /** Breakout levels of the forming patterns relative to the last close */
+  levels: SupportResistanceLevel[];
+}
+
+const DEFAULT_CONFIG: ChartPatternConfig = {
+  zigzag: DEFAULT_ZIGZAG_CONFIG,
+  equalityTolerance: 0.15,
+  flatTolerance: 0.2
+};
+
+/** Swings per side compared when judging market structure */
+const STRUCTURE_SWINGS = 4;
+
+export class ChartPatternService {
+  private readonly config: ChartPatternConfig;
+
+  constructor(config: Partial<Omit<ChartPatternConfig, 'zigzag'>> & { zigzag?: Partial<ChartPatternConfig['zigzag']> } = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      zigzag: { ...DEFAULT_CONFIG.zigzag, ...config.zigzag }
+    };
+  }
+
+  analyze(candles: CandleData[]): ChartPatternAnalysis {
+    const { swings, pending } = extractSwingPoints(candles, this.config.zigzag);
+    const patterns = detectChartPatterns(candles, swings, this.config);
+    const lastClose = candles[candles.length - 1]?.close ?? 0;
+
+    return {
+      swings,
+      pending,
+      patterns,
+      marketStructure: this.getMarketStructure(swings, patterns),
+      levels: this.getLevels(patterns, lastClose)
+    };
+  }
+
+  /**
+   * Trend from the swing sequence: higher highs and higher lows make an
+   * uptrend, lower highs and lower lows a downtrend. Strength is the share
+   * of recent swing comparisons that agree with the trend.
+   */
+  getMarketStructure(swings: SwingPoint[], patterns: ChartPattern[] = []): MarketStructure {
+    const compare = (points: SwingPoint[]) =>
+      points.slice(1).map((point, i) => Math.sign(point.price - points[i].price));
+
+    const highs = swings.filter(s => s.type === 'high').slice(-STRUCTURE_SWINGS);
+    const lows = swings.filter(s => s.type === 'low').slice(-STRUCTURE_SWINGS);
+    const comparisons = [...compare(highs), ...compare(lows)];
+    const score = comparisons.length > 0
+      ? comparisons.reduce((sum, value) => sum + value, 0) / comparisons.length
+      : 0;
+
+    const trend: MarketStructure['trend'] = score >= 0.5 ? 'UPTREND' : score <= -0.5 ? 'DOWNTREND' : 'SIDEWAYS';
+    // Самый свежий из формирующихся паттернов, при равенстве - самый уверенный
+    const active = patterns
+      .filter(p => p.status === 'forming')
+      .reduce<ChartPattern | undefined>((best, p) =>
+        !best || p.endIndex > best.endIndex || (p.endIndex === best.endIndex && p.confidence > best.confidence) ? p : best,
+      undefined);
+
+    return {
+      trend,
+      strength: trend === 'SIDEWAYS' ? 1 - Math.abs(score) : Math.abs(score),
+      breakoutLevel: active?.breakoutLevel,
+      target: active?.target
+    };
+  }
+
+  private getLevels(patterns: ChartPattern[], lastClose: number): SupportResistanceLevel[] {
+    return patterns
+      .filter(p => p.status === 'forming')
+      .map(p => ({
+        level: p.breakoutLevel,
+        strength: p.confidence,
+        type: p.breakoutLevel <= lastClose ? 'support' as const : 'resistance' as const
+      }))
+      .sort((a, b) => b.level - a.level);
+  }
+}
+
+export const chartPatternService = new ChartPatternService();
@@ -0,0 +1,259 @@
+/**
+ * Pattern Statistics Service
+ * Measures what actually happened after each candlestick pattern in stored
+ * sessions and turns it into empirical reliabilities per pair and timeframe.
+ */
+
+import { CandleData, TradingSession } from '@/types/session';
+import {
+  CandlestickPatternRegistry,
+  CandlestickPatternMatch,
+  candlestickPatternRegistry
+} from './CandlestickPatternRegistry';
+
+/**
+ * Result of one pattern occurrence, measured after `horizon` candles
+ */
+export interface PatternOutcome {
+  patternId: string;
+  pair: string;
+  timeframe: string;
+  sessionId: string;
+  candleIndex: number;
+  entryPrice: number;
+  exitPrice: number;
+  /** Relative close-to-close move in the pattern direction (absolute for neutral patterns) */
+  move: number;
+  /** Whether price moved in the pattern direction; null for neutral patterns */
+  hit: boolean | null;
+}
+
+export interface PatternReliabilityStats {
+  patternId: string;
+  name: string;
+  displayName: string;
+  pair: string;
+  timeframe: string;
+  horizon: number;
+  sampleSize: number;
+  hits: number;
+  /** Share of occurrences that moved in the pattern direction; null for neutral patterns */
+  hitRate: number | null;
+  /** Mean relative move in the pattern direction (absolute for neutral patterns) */
+  averageMove: number;
+  /** Whether the sample is large enough to be shown as reliable */
+  isSignificant: boolean;
+}
+
+export interface ReliabilityAdjustedMatch extends CandlestickPatternMatch {
+  /** Heuristic strength before the empirical adjustment */
+  heuristicStrength: number;
+  reliability?: PatternReliabilityStats;
+}
+
+export interface PatternStatisticsConfig {
+  /** Candles after the pattern at which the outcome is measured */
+  horizon: number;
+  /** Weight of the heuristic strength, in pseudo-samples, when blending with hit rate */
+  priorWeight: number;
+  /** Sample size from which statistics are considered significant */
+  minSampleSize: number;
+}
+
+/**
+ * Stored sessions to learn from; sessionService satisfies this
+ */
+export interface SessionCandleSource {
+  loadSessions(): Promise<TradingSession[]>;
+  loadSessionWithCandles(sessionId: string): Promise<{ session: TradingSession; candles: CandleData[] }>;
+}
+
+const DEFAULT_CONFIG: PatternStatisticsConfig = {
+  horizon: 5,
+  priorWeight: 20,
+  minSampleSize: 30
+};
+
+const statsKey = (pair: string, timeframe: string, patternId: string) => `${pair}|${timeframe}|${patternId}`;
+
+export class PatternStatisticsService {
+  private readonly config: PatternStatisticsConfig;
+  private outcomesBySession = new Map<string, PatternOutcome[]>();
+  private statsCache: Map<string, PatternReliabilityStats> | null = null;
+  private scanPromise: Promise<number> | null = null;
+
+  constructor(
+    private registry: CandlestickPatternRegistry = candlestickPatternRegistry,
+    config: Partial<PatternStatisticsConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Detect patterns over a candle series and measure their outcomes.
+   * Patterns in the last `horizon` candles have no outcome yet and are skipped.
+   */
+  evaluateOutcomes(candles: CandleData[], pair: string, timeframe: string, sessionId = ''): PatternOutcome[] {
+    const { horizon } = this.config;
+    const outcomes: PatternOutcome[] = [];
+
+    for (let i = 0; i + horizon < candles.length; i++) {
+      const entryPrice = candles[i].close;
+      const exitPrice = candles[i + horizon].close;
+      if (entryPrice <= 0) continue;
+
+      const change = (exitPrice - entryPrice) / entryPrice;
+
+      for (const match of this.registry.detectAt(candles, i)) {
+        const sign = match.direction === 'BULLISH' ? 1 : match.direction === 'BEARISH' ? -1 : 0;
+        outcomes.push({
+          patternId: match.id,
+          pair,
+          timeframe,
+          sessionId,
+          candleIndex: match.candleIndex,
+          entryPrice,
+          exitPrice,
+          move: sign === 0 ? Math.abs(change) : change * sign,
+          hit: sign === 0 ? null : change * sign > 0
+        });
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Record the outcomes of a session; recording the same session again replaces them
+   */
+  recordSession(session: TradingSession, candles: CandleData[]): PatternOutcome[] {
+    const sorted = [...candles].sort((a, b) => a.candle_index - b.candle_index);
+    const outcomes = this.evaluateOutcomes(sorted, session.pair, session.timeframe, session.id);
+
+    this.outcomesBySession.set(session.id, outcomes);
+    this.statsCache = null;
+    return outcomes;
+  }
+
+  /**
+   * Scan every stored session
+   * @returns Number of sessions recorded; sessions that fail to load are skipped
+   */
+  async scanSessions(source: SessionCandleSource): Promise<number> {
+    const sessions = await source.loadSessions();
+    let recorded = 0;
+
+    for (const session of sessions) {
+      try {
+        const { candles } = await source.loadSessionWithCandles(session.id);
+        this.recordSession(session, candles);
+        recorded++;
+      } catch (error) {
+        console.warn(`Pattern statistics: failed to scan session ${session.id}:`, error);
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Scan stored sessions once; concurrent and later callers share the first scan
+   */
+  ensureScanned(source: SessionCandleSource): Promise<number> {
+    if (!this.scanPromise) {
+      this.scanPromise = this.scanSessions(source).catch(error => {
+        this.scanPromise = null;
+        throw error;
+      });
+    }
+    return this.scanPromise;
+  }
+
+  getStats(pair: string, timeframe: string, patternId: string): PatternReliabilityStats | undefined {
+    return this.getStatsMap().get(statsKey(pair, timeframe, patternId));
+  }
+
+  getAllStats(filter: { pair?: string; timeframe?: string } = {}): PatternReliabilityStats[] {
+    return Array.from(this.getStatsMap().values()).filter(stats =>
+      (!filter.pair || stats.pair === filter.pair) &&
+      (!filter.timeframe || stats.timeframe === filter.timeframe)
+    );
+  }
+
+  /**
+   * Blend heuristic pattern strength with the empirical hit rate.
+   * The heuristic counts as `priorWeight` pseudo-samples, so small samples
+   * only nudge the strength and large samples dominate it.
+   */
+  applyReliability(
+    matches: CandlestickPatternMatch[],
+    pair: string,
+    timeframe: string
+  ): ReliabilityAdjustedMatch[] {
+    const { priorWeight } = this.config;
+
+    return matches
+      .map(match => {
+        const reliability = this.getStats(pair, timeframe, match.id);
+        if (!reliability || reliability.hitRate === null) {
+          return { ...match, heuristicStrength: match.strength, reliability };
+        }
+
+        const strength = (match.strength * priorWeight + reliability.hits) / (priorWeight + reliability.sampleSize);
+        return {
+          ...match,
+          strength,
+          confidence: Math.round(strength * 100),
+          heuristicStrength: match.strength,
+          reliability
+        };
+      })
+      .sort((a, b) => b.strength - a.strength || b.requiredCandles - a.requiredCandles);
+  }
+
+  clear(): void {
+    this.outcomesBySession.clear();
+    this.statsCache = null;
+    this.scanPromise = null;
+  }
+
+  private getStatsMap(): Map<string, PatternReliabilityStats> {
+    if (this.statsCache) return this.statsCache;
+
+    const groups = new Map<string, PatternOutcome[]>();
+    this.outcomesBySession.forEach(outcomes => {
+      outcomes.forEach(outcome => {
+        const key = statsKey(outcome.pair, outcome.timeframe, outcome.patternId);
+        const group = groups.get(key);
+        if (group) group.push(outcome);
+        else groups.set(key, [outcome]);
+      });
+    });
+
+    this.statsCache = new Map();
+    groups.forEach((outcomes, key) => {
+      const { patternId, pair, timeframe } = outcomes[0];
+      const definition = this.registry.getDefinition(patternId);
+      const directional = outcomes[0].hit !== null;
+      const hits = outcomes.filter(outcome => outcome.hit === true).length;
+
+      this.statsCache!.set(key, {
+        patternId,
+        name: definition?.name ?? patternId,
+        displayName: definition?.displayName ?? patternId,
+        pair,
+        timeframe,
+        horizon: this.config.horizon,
+        sampleSize: outcomes.length,
+        hits,
+        hitRate: directional ? hits / outcomes.length : null,
+        averageMove: outcomes.reduce((sum, outcome) => sum + outcome.move, 0) / outcomes.length,
+        isSignificant: outcomes.length >= this.config.minSampleSize
+      });
+    });
+
+    return this.statsCache;
+  }
+}
+
+export const patternStatisticsService = new PatternStatisticsService();
@@ -0,0 +1,277 @@
+/**
+ * Support/Resistance Service
+ * Clusters zigzag swing highs and lows into price levels, counts touches,
+ * weights them by recency and volume and tracks breaks, retests and
+ * support/resistance flips.
+ */
+
+import { CandleData } from '@/types/session';
+import { SupportResistanceLevel } from '@/types/trading';
+import { SwingPoint, ZigZagConfig } from './chart/types';
+import { DEFAULT_ZIGZAG_CONFIG, extractSwingPoints, rollingATR } from './chart/zigzag';
+
+export interface PriceLevel extends SupportResistanceLevel {
+  id: string;
+  /** Price band around the level that counts as a touch */
+  zoneLow: number;
+  zoneHigh: number;
+  /** Swing highs and lows that formed the level */
+  touches: number;
+  touchPoints: SwingPoint[];
+  firstTouchIndex: number;
+  lastTouchIndex: number;
+  /** Number of times price broke through and the level changed role */
+  flips: number;
+}
+
+export type LevelEventType = 'break' | 'retest';
+
+export interface LevelEvent {
+  type: LevelEventType;
+  levelId: string;
+  level: number;
+  /** Array index and candle_index of the candle that produced the event */
+  index: number;
+  candleIndex: number;
+  /** Direction of the break; a retest carries the direction of the break it follows */
+  direction: 'up' | 'down';
+  /** Role of the level after the event */
+  role: SupportResistanceLevel['type'];
+}
+
+export interface SupportResistanceAnalysis {
+  /** Levels sorted from the highest price down */
+  levels: PriceLevel[];
+  /** Break and retest events in chronological order */
+  events: LevelEvent[];
+  /** Closest support below and resistance above the last close */
+  nearestSupport: PriceLevel | null;
+  nearestResistance: PriceLevel | null;
+}
+
+export interface SupportResistanceConfig {
+  zigzag: ZigZagConfig;
+  /** Half-width of a level zone, in ATRs; swings within it merge into one level */
+  zoneAtr: number;
+  /** Touches needed before a cluster is reported as a level */
+  minTouches: number;
+  /** Candles after which a touch counts half as much */
+  recencyHalfLife: number;
+  maxLevels: number;
+}
+
+export type LevelEventListener = (event: LevelEvent, key: string) => void;
+
+const DEFAULT_CONFIG: SupportResistanceConfig = {
+  zigzag: DEFAULT_ZIGZAG_CONFIG,
+  zoneAtr: 0.5,
+  minTouches: 2,
+  recencyHalfLife: 100,
+  maxLevels: 8
+};
+
+/** Weighted touch score at which strength reaches ~63% */
+const STRENGTH_SCALE = 3;
+
+export class SupportResistanceService {
+  private readonly config: SupportResistanceConfig;
+  private listeners = new Set<LevelEventListener>();
+  private lastProcessed = new Map<string, number>();
+
+  constructor(config: Partial<Omit<SupportResistanceConfig, 'zigzag'>> & { zigzag?: Partial<ZigZagConfig> } = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      zigzag: { ...DEFAULT_CONFIG.zigzag, ...config.zigzag }
+    };
+  }
+
+  analyze(candles: CandleData[]): SupportResistanceAnalysis {
+    const zone = this.zoneWidth(candles);
+    const levels = this.clusterLevels(candles, zone);
+    const events = this.trackLevels(candles, levels, zone);
+    const lastClose = candles[candles.length - 1]?.close;
+
+    levels.forEach(level => {
+      level.type = lastClose !== undefined && level.level > lastClose ? 'resistance' : 'support';
+    });
+
+    return {
+      levels,
+      events,
+      nearestSupport: levels.find(level => level.type === 'support') ?? null,
+      nearestResistance: [...levels].reverse().find(level => level.type === 'resistance') ?? null
+    };
+  }
+
+  detectLevels(candles: CandleData[]): PriceLevel[] {
+    return this.analyze(candles).levels;
+  }
+
+  /**
+   * Receive break and retest events from process()
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: LevelEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Analyze a growing candle series and notify listeners about events on
+   * candles that were not processed for this key before
+   */
+  process(key: string, candles: CandleData[]): SupportResistanceAnalysis {
+    const analysis = this.analyze(candles);
+    const last = candles[candles.length - 1];
+    if (!last) return analysis;
+
+    const processedUpTo = this.lastProcessed.get(key);
+    this.lastProcessed.set(key, last.candle_index);
+
+    // Первый вызов только запоминает позицию, история не рассылается
+    if (processedUpTo === undefined) return analysis;
+
+    analysis.events
+      .filter(event => event.candleIndex > processedUpTo)
+      .forEach(event => {
+        this.listeners.forEach(listener => {
+          try {
+            listener(event, key);
+          } catch (error) {
+            console.error('Error in level event listener:', error);
+          }
+        });
+      });
+
+    return analysis;
+  }
+
+  reset(key?: string): void {
+    if (key) this.lastProcessed.delete(key);
+    else this.lastProcessed.clear();
+  }
+
+  private zoneWidth(candles: CandleData[]): number {
+    if (candles.length === 0) return 0;
+    const atr = rollingATR(candles, this.config.zigzag.atrPeriod);
+    return atr[atr.length - 1] * this.config.zoneAtr;
+  }
+
+  /**
+   * Group swings whose prices lie within one zone of the running cluster
+   * mean; the level price is the volume-weighted mean of its swings
+   */
+  private clusterLevels(candles: CandleData[], zone: number): PriceLevel[] {
+    const { swings } = extractSwingPoints(candles, this.config.zigzag);
+    const sorted = [...swings].sort((a, b) => a.price - b.price);
+    const clusters: SwingPoint[][] = [];
+
+    sorted.forEach(swing => {
+      const current = clusters[clusters.length - 1];
+      const mean = current ? current.reduce((sum, s) => sum + s.price, 0) / current.length : 0;
+      if (current && swing.price - mean <= zone) current.push(swing);
+      else clusters.push([swing]);
+    });
+
+    const lastIndex = candles.length - 1;
+    const averageVolume = candles.reduce((sum, c) => sum + c.volume, 0) / Math.max(candles.length, 1);
+
+    const levels = clusters
+      .filter(cluster => cluster.length >= this.config.minTouches)
+      .map(cluster => {
+        const touchPoints = [...cluster].sort((a, b) => a.index - b.index);
+        const volumes = touchPoints.map(s => candles[s.index].volume);
+        const totalVolume = volumes.reduce((sum, v) => sum + v, 0);
+        const level = totalVolume > 0
+          ? touchPoints.reduce((sum, s, i) => sum + s.price * volumes[i], 0) / totalVolume
+          : touchPoints.reduce((sum, s) => sum + s.price, 0) / touchPoints.length;
+
+        const score = touchPoints.reduce((sum, s, i) => {
+          const recency = Math.pow(0.5, (lastIndex - s.index) / this.config.recencyHalfLife);
+          const volumeWeight = averageVolume > 0 ? volumes[i] / averageVolume : 1;
+          return sum + recency * volumeWeight;
+        }, 0);
+
+        const prices = touchPoints.map(s => s.price);
+        const first = touchPoints[0];
+        const last = touchPoints[touchPoints.length - 1];
+
+        return {
+          id: `level-${first.candleIndex}`,
+          level,
+          strength: 1 - Math.exp(-score / STRENGTH_SCALE),
+          type: last.type === 'high' ? 'resistance' as const : 'support' as const,
+          zoneLow: Math.min(level - zone, ...prices),
+          zoneHigh: Math.max(level + zone, ...prices),
+          touches: touchPoints.length,
+          touchPoints,
+          firstTouchIndex: first.index,
+          lastTouchIndex: last.index,
+          flips: 0
+        };
+      });
+
+    return levels
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, this.config.maxLevels)
+      .sort((a, b) => b.level - a.level);
+  }
+
+  /**
+   * Walk the closes after a level is established (its minTouches-th touch).
+   * A close beyond the zone on the other side is a break and flips the
+   * level's role; the first later candle that tags the zone and closes on
+   * the breakout side is the retest.
+   */
+  private trackLevels(candles: CandleData[], levels: PriceLevel[], zone: number): LevelEvent[] {
+    const events: LevelEvent[] = [];
+
+    levels.forEach(level => {
+      const establishedIndex = level.touchPoints[this.config.minTouches - 1].index;
+      let side = 0;
+      let awaitingRetest = false;
+
+      for (let i = establishedIndex + 1; i < candles.length; i++) {
+        const candle = candles[i];
+        const offset = candle.close - level.level;
+
+        if (side === 0) {
+          if (Math.abs(offset) > zone) side = Math.sign(offset);
+          continue;
+        }
+
+        const event = (type: LevelEventType, direction: LevelEvent['direction']): LevelEvent => ({
+          type,
+          levelId: level.id,
+          level: level.level,
+          index: i,
+          candleIndex: candle.candle_index,
+          direction,
+          role: side > 0 ? 'support' : 'resistance'
+        });
+
+        if (offset * side < -zone) {
+          side = -side;
+          level.flips++;
+          awaitingRetest = true;
+          events.push(event('break', side > 0 ? 'up' : 'down'));
+          continue;
+        }
+
+        if (!awaitingRetest) continue;
+        const tagged = side > 0 ? candle.low <= level.level + zone : candle.high >= level.level - zone;
+        if (tagged && offset * side > 0) {
+          awaitingRetest = false;
+          events.push(event('retest', side > 0 ? 'up' : 'down'));
+        }
+      }
+    });
+
+    return events.sort((a, b) => a.index - b.index);
+  }
+}
+
+export const supportResistanceService = new SupportResistanceService();
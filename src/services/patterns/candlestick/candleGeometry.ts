@@ -0,0 +1,53 @@
+import { CandleData } from '@/types/session';
+
+export const bodySize = (candle: CandleData): number => Math.abs(candle.close - candle.open);
+
+export const candleRange = (candle: CandleData): number => candle.high - candle.low;
+
+export const upperShadow = (candle: CandleData): number => candle.high - Math.max(candle.open, candle.close);
+
+export const lowerShadow = (candle: CandleData): number => Math.min(candle.open, candle.close) - candle.low;
+
+export const isBullish = (candle: CandleData): boolean => candle.close > candle.open;
+
+export const isBearish = (candle: CandleData): boolean => candle.close < candle.open;
+
+const window = (candles: CandleData[], index: number, lookback: number): CandleData[] =>
+  candles.slice(Math.max(0, index - lookback + 1), index + 1);
+
+export const averageRange = (candles: CandleData[], index: number, lookback = 20): number => {
+  const recent = window(candles, index, lookback);
+  return recent.reduce((sum, c) => sum + candleRange(c), 0) / recent.length;
+};
+
+export const averageVolume = (candles: CandleData[], index: number, lookback = 10): number => {
+  const recent = window(candles, index, lookback);
+  return recent.reduce((sum, c) => sum + c.volume, 0) / recent.length;
+};
+
+// Low within 1% of the lowest low of the last candles
+export const isAtBottom = (candles: CandleData[], index: number, lookback = 5): boolean => {
+  const lowestLow = Math.min(...window(candles, index, lookback).map(c => c.low));
+  return candles[index].low <= lowestLow * 1.01;
+};
+
+// High within 1% of the highest high of the last candles
+export const isAtTop = (candles: CandleData[], index: number, lookback = 5): boolean => {
+  const highestHigh = Math.max(...window(candles, index, lookback).map(c => c.high));
+  return candles[index].high >= highestHigh * 0.99;
+};
+
+/**
+ * Direction of the move that ends at index, scaled by the average range
+ * so it is comparable across instruments. Returns a value in [-1, 1].
+ */
+export const trendContext = (candles: CandleData[], index: number, lookback = 10): number => {
+  const recent = window(candles, index, lookback);
+  if (recent.length < 3) return 0;
+
+  const avgRange = averageRange(candles, index, lookback);
+  if (avgRange === 0) return 0;
+
+  const change = recent[recent.length - 1].close - recent[0].close;
+  return Math.tanh(change / (avgRange * Math.sqrt(recent.length)));
+};
@@ -0,0 +1,59 @@
+import { CandlestickPatternDefinition } from './types';
+import { bodySize, candleRange, upperShadow, lowerShadow, isAtBottom, isAtTop } from './candleGeometry';
+
+export const SINGLE_CANDLE_PATTERNS: CandlestickPatternDefinition[] = [
+  {
+    id: 'doji',
+    name: 'Doji',
+    displayName: 'Дожи',
+    description: 'Свеча с очень маленьким телом, указывает на неопределенность рынка',
+    direction: 'NEUTRAL',
+    signal: 'indecision',
+    requiredCandles: 1,
+    baseStrength: 0.65,
+    featureCode: 0.1,
+    matches: (candles, index) => {
+      const candle = candles[index];
+      const range = candleRange(candle);
+      return range > 0 && bodySize(candle) / range < 0.1;
+    }
+  },
+  {
+    id: 'hammer',
+    name: 'Hammer',
+    displayName: 'Молот',
+    description: 'Разворотный паттерн с длинной нижней тенью у локального минимума',
+    direction: 'BULLISH',
+    signal: 'reversal',
+    requiredCandles: 1,
+    baseStrength: 0.75,
+    featureCode: 0.2,
+    matches: (candles, index) => {
+      const candle = candles[index];
+      const body = bodySize(candle);
+      return body > 0 &&
+        lowerShadow(candle) > body * 2 &&
+        upperShadow(candle) < body * 0.5 &&
+        isAtBottom(candles, index);
+    }
+  },
+  {
+    id: 'shooting_star',
+    name: 'Shooting Star',
+    displayName: 'Падающая звезда',
+    description: 'Разворотный паттерн с длинной верхней тенью у локального максимума',
+    direction: 'BEARISH',
+    signal: 'reversal',
+    requiredCandles: 1,
+    baseStrength: 0.75,
+    featureCode: 0.3,
+    matches: (candles, index) => {
+      const candle = candles[index];
+      const body = bodySize(candle);
+      return body > 0 &&
+        upperShadow(candle) > body * 2 &&
+        lowerShadow(candle) < body * 0.5 &&
+        isAtTop(candles, index);
+    }
+  }
+];
@@ -0,0 +1,75 @@
+import { CandlestickPatternDefinition } from './types';
+import { bodySize, isBullish, isBearish } from './candleGeometry';
+
+export const THREE_CANDLE_PATTERNS: CandlestickPatternDefinition[] = [
+  {
+    id: 'three_white_soldiers',
+    name: 'Three White Soldiers',
+    displayName: 'Три белых солдата',
+    description: 'Три подряд идущие бычьи свечи с возрастающими закрытиями и максимумами',
+    direction: 'BULLISH',
+    signal: 'continuation',
+    requiredCandles: 3,
+    baseStrength: 0.85,
+    featureCode: 0.6,
+    matches: (candles, index) => {
+      const [c1, c2, c3] = candles.slice(index - 2, index + 1);
+      return isBullish(c1) && isBullish(c2) && isBullish(c3) &&
+        c2.close > c1.close && c3.close > c2.close &&
+        c2.high > c1.high && c3.high > c2.high;
+    }
+  },
+  {
+    id: 'three_black_crows',
+    name: 'Three Black Crows',
+    displayName: 'Три черные вороны',
+    description: 'Три подряд идущие медвежьи свечи с убывающими закрытиями и минимумами',
+    direction: 'BEARISH',
+    signal: 'continuation',
+    requiredCandles: 3,
+    baseStrength: 0.85,
+    featureCode: 0.7,
+    matches: (candles, index) => {
+      const [c1, c2, c3] = candles.slice(index - 2, index + 1);
+      return isBearish(c1) && isBearish(c2) && isBearish(c3) &&
+        c2.close < c1.close && c3.close < c2.close &&
+        c2.low < c1.low && c3.low < c2.low;
+    }
+  },
+  {
+    id: 'morning_star',
+    name: 'Morning Star',
+    displayName: 'Утренняя звезда',
+    description: 'Трёхсвечной разворотный паттерн снизу вверх',
+    direction: 'BULLISH',
+    signal: 'reversal',
+    requiredCandles: 3,
+    baseStrength: 0.8,
+    featureCode: 0.75,
+    matches: (candles, index) => {
+      const [c1, c2, c3] = candles.slice(index - 2, index + 1);
+      return isBearish(c1) && // Первая свеча медвежья
+        bodySize(c2) < bodySize(c1) * 0.3 && // Вторая свеча маленькая
+        isBullish(c3) && // Третья свеча бычья
+        c3.close > (c1.open + c1.close) / 2; // Закрытие выше середины первой свечи
+    }
+  },
+  {
+    id: 'evening_star',
+    name: 'Evening Star',
+    displayName: 'Вечерняя звезда',
+    description: 'Трёхсвечной разворотный паттерн сверху вниз',
+    direction: 'BEARISH',
+    signal: 'reversal',
+    requiredCandles: 3,
+    baseStrength: 0.8,
+    featureCode: 0.8,
+    matches: (candles, index) => {
+      const [c1, c2, c3] = candles.slice(index - 2, index + 1);
+      return isBullish(c1) && // Первая свеча бычья
+        bodySize(c2) < bodySize(c1) * 0.3 && // Вторая свеча маленькая
+        isBearish(c3) && // Третья свеча медвежья
+        c3.close < (c1.open + c1.close) / 2; // Закрытие ниже середины первой свечи
+    }
+  }
+];
@@ -0,0 +1,43 @@
+import { CandlestickPatternDefinition } from './types';
+import { bodySize, isBullish, isBearish } from './candleGeometry';
+
+export const TWO_CANDLE_PATTERNS: CandlestickPatternDefinition[] = [
+  {
+    id: 'bullish_engulfing',
+    name: 'Bullish Engulfing',
+    displayName: 'Бычье поглощение',
+    description: 'Бычья свеча полностью поглощает тело предыдущей медвежьей',
+    direction: 'BULLISH',
+    signal: 'reversal',
+    requiredCandles: 2,
+    baseStrength: 0.8,
+    featureCode: 0.4,
+    matches: (candles, index) => {
+      const prev = candles[index - 1];
+      const curr = candles[index];
+      return isBearish(prev) && isBullish(curr) &&
+        curr.open <= prev.close &&
+        curr.close >= prev.open &&
+        bodySize(curr) > bodySize(prev) * 1.1; // Тело больше на 10%
+    }
+  },
+  {
+    id: 'bearish_engulfing',
+    name: 'Bearish Engulfing',
+    displayName: 'Медвежье поглощение',
+    description: 'Медвежья свеча полностью поглощает тело предыдущей бычьей',
+    direction: 'BEARISH',
+    signal: 'reversal',
+    requiredCandles: 2,
+    baseStrength: 0.8,
+    featureCode: 0.5,
+    matches: (candles, index) => {
+      const prev = candles[index - 1];
+      const curr = candles[index];
+      return isBullish(prev) && isBearish(curr) &&
+        curr.open >= prev.close &&
+        curr.close <= prev.open &&
+        bodySize(curr) > bodySize(prev) * 1.1; // Тело больше на 10%
+    }
+  }
+];
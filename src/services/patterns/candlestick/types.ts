@@ -0,0 +1,72 @@
+import { CandleData } from '@/types/session';
+
+export type PatternDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+export type PatternSignalType = 'reversal' | 'continuation' | 'indecision';
+
+/**
+ * A pattern known to the registry
+ */
+export interface CandlestickPatternDefinition {
+  /** Stable identifier, e.g. 'bullish_engulfing' */
+  id: string;
+  /** English name used by the ML feature encoders */
+  name: string;
+  /** Name shown in the UI */
+  displayName: string;
+  description: string;
+  direction: PatternDirection;
+  signal: PatternSignalType;
+  /** Number of candles the pattern spans, ending at the detected candle */
+  requiredCandles: number;
+  /** Strength before market context adjustments (0-1) */
+  baseStrength: number;
+  /** Stable numeric code used as an ML feature (0-1) */
+  featureCode: number;
+  /** Whether the pattern completes on candles[index] */
+  matches: (candles: CandleData[], index: number) => boolean;
+}
+
+/**
+ * A pattern found on a candle
+ */
+export interface CandlestickPatternMatch {
+  id: string;
+  name: string;
+  displayName: string;
+  description: string;
+  direction: PatternDirection;
+  signal: PatternSignalType;
+  isReversal: boolean;
+  isContinuation: boolean;
+  /** Array index of the candle that completes the pattern */
+  index: number;
+  /** Array index of the first candle of the pattern */
+  startIndex: number;
+  /** candle_index of the completing candle */
+  candleIndex: number;
+  requiredCandles: number;
+  /** Context-adjusted strength (0-1) */
+  strength: number;
+  /** Strength as a percentage (0-100) */
+  confidence: number;
+}
+
+export interface PatternDetectionOptions {
+  /** Drop matches below this confidence (0-100) */
+  minConfidence?: number;
+  /**
+   * Ignore candles whose range is below this share of the average range;
+   * small candles produce unreliable shapes (default: 0, no filter)
+   */
+  minRangeRatio?: number;
+  /** Only run these pattern ids */
+  patternIds?: string[];
+}
+
+export interface PatternRangeOptions extends PatternDetectionOptions {
+  /** First array index to scan (default: 0) */
+  startIndex?: number;
+  /** Last array index to scan, inclusive (default: last candle) */
+  endIndex?: number;
+}
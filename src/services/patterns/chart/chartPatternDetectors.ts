@@ -0,0 +1,353 @@
+import { CandleData } from '@/types/session';
+import { PatternDirection, PatternSignalType } from '../candlestick/types';
+import { ChartPattern, ChartPatternConfig, ChartPatternId, SwingPoint } from './types';
+
+/**
+ * Straight line in (array index, price) space
+ */
+interface Line {
+  slope: number;
+  intercept: number;
+}
+
+const lineAt = (line: Line, index: number) => line.slope * index + line.intercept;
+
+const fitLine = (points: SwingPoint[]): Line => {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.index, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.price, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach(p => {
+    numerator += (p.index - meanX) * (p.price - meanY);
+    denominator += (p.index - meanX) ** 2;
+  });
+  const slope = denominator === 0 ? 0 : numerator / denominator;
+  return { slope, intercept: meanY - slope * meanX };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Pattern geometry before the breakout check. Breakout and invalidation
+ * levels are functions of the candle index, so trendline patterns are
+ * checked against the line value at each candle.
+ */
+interface PatternShape {
+  direction: PatternDirection;
+  breakoutAt: (index: number) => number;
+  invalidationAt: (index: number) => number;
+  height: number;
+  /** Geometric quality (0-1) */
+  quality: number;
+}
+
+interface ChartPatternDetector {
+  id: ChartPatternId;
+  name: string;
+  displayName: string;
+  signal: PatternSignalType;
+  /** Number of consecutive swings the detector inspects */
+  swings: number;
+  detect(points: SwingPoint[], config: ChartPatternConfig): PatternShape | null;
+}
+
+const hasTypes = (points: SwingPoint[], first: SwingPoint['type']) =>
+  points.every((p, i) => p.type === (i % 2 === 0 ? first : first === 'high' ? 'low' : 'high'));
+
+const doubleExtreme = (points: SwingPoint[], config: ChartPatternConfig, top: boolean): PatternShape | null => {
+  if (!hasTypes(points, top ? 'high' : 'low')) return null;
+  const [first, middle, second] = points;
+  const extreme = top ? Math.max(first.price, second.price) : Math.min(first.price, second.price);
+  const height = Math.abs(extreme - middle.price);
+  const difference = Math.abs(first.price - second.price);
+  if (height <= 0 || difference > config.equalityTolerance * height) return null;
+
+  return {
+    direction: top ? 'BEARISH' : 'BULLISH',
+    breakoutAt: () => middle.price,
+    invalidationAt: () => extreme,
+    height,
+    quality: 1 - difference / (config.equalityTolerance * height)
+  };
+};
+
+const headAndShoulders = (points: SwingPoint[], config: ChartPatternConfig, top: boolean): PatternShape | null => {
+  if (!hasTypes(points, top ? 'high' : 'low')) return null;
+  const [leftShoulder, leftTrough, head, rightTrough, rightShoulder] = points;
+  const sign = top ? 1 : -1;
+  if ((head.price - leftShoulder.price) * sign <= 0 || (head.price - rightShoulder.price) * sign <= 0) return null;
+
+  const neckline = fitLine([leftTrough, rightTrough]);
+  const height = Math.abs(head.price - lineAt(neckline, head.index));
+  const shoulderDifference = Math.abs(leftShoulder.price - rightShoulder.price);
+  if (height <= 0 || shoulderDifference > config.equalityTolerance * height) return null;
+
+  // Плечи должны быть заметно ниже (выше) головы
+  const shoulderDepth = Math.min(
+    Math.abs(head.price - leftShoulder.price),
+    Math.abs(head.price - rightShoulder.price)
+  );
+  if (shoulderDepth < config.equalityTolerance * height) return null;
+
+  return {
+    direction: top ? 'BEARISH' : 'BULLISH',
+    breakoutAt: index => lineAt(neckline, index),
+    invalidationAt: () => head.price,
+    height,
+    quality: 1 - shoulderDifference / (config.equalityTolerance * height)
+  };
+};
+
+type Convergence =
+  | 'ascending_triangle'
+  | 'descending_triangle'
+  | 'symmetric_triangle'
+  | 'rising_wedge'
+  | 'falling_wedge';
+
+const classifyConvergence = (upperRise: number, lowerRise: number, flat: number): Convergence | null => {
+  const upperFlat = Math.abs(upperRise) <= flat;
+  const lowerFlat = Math.abs(lowerRise) <= flat;
+
+  if (upperFlat && lowerRise > flat) return 'ascending_triangle';
+  if (lowerFlat && upperRise < -flat) return 'descending_triangle';
+  if (upperRise < -flat && lowerRise > flat) return 'symmetric_triangle';
+  if (upperRise > flat && lowerRise > upperRise) return 'rising_wedge';
+  if (lowerRise < -flat && upperRise < lowerRise) return 'falling_wedge';
+  return null;
+};
+
+const convergingShape = (
+  kind: Convergence,
+  direction: (points: SwingPoint[]) => PatternDirection
+) => (points: SwingPoint[], config: ChartPatternConfig): PatternShape | null => {
+  const highs = points.filter(p => p.type === 'high');
+  const lows = points.filter(p => p.type === 'low');
+  if (highs.length < 2 || lows.length < 2) return null;
+
+  const upper = fitLine(highs);
+  const lower = fitLine(lows);
+  const start = points[0].index;
+  const end = points[points.length - 1].index;
+  const height = lineAt(upper, start) - lineAt(lower, start);
+  const endWidth = lineAt(upper, end) - lineAt(lower, end);
+  if (height <= 0 || endWidth <= 0 || endWidth >= height) return null;
+
+  // Все точки должны лежать на своих линиях
+  const fitError = Math.max(
+    ...highs.map(p => Math.abs(p.price - lineAt(upper, p.index))),
+    ...lows.map(p => Math.abs(p.price - lineAt(lower, p.index)))
+  );
+  if (fitError > config.equalityTolerance * height) return null;
+
+  const span = end - start;
+  const flat = config.flatTolerance * height;
+  if (classifyConvergence(upper.slope * span, lower.slope * span, flat) !== kind) return null;
+
+  const patternDirection = direction(points);
+  const breakoutLine = patternDirection === 'BULLISH' ? upper : lower;
+  const invalidationLine = patternDirection === 'BULLISH' ? lower : upper;
+
+  return {
+    direction: patternDirection,
+    breakoutAt: index => lineAt(breakoutLine, index),
+    invalidationAt: index => lineAt(invalidationLine, index),
+    height,
+    quality: 1 - fitError / (config.equalityTolerance * height)
+  };
+};
+
+const flag = (points: SwingPoint[], config: ChartPatternConfig, bullish: boolean): PatternShape | null => {
+  if (!hasTypes(points, bullish ? 'low' : 'high')) return null;
+  const [poleStart, poleEnd, pullback, retest] = points;
+  const sign = bullish ? 1 : -1;
+  const pole = (poleEnd.price - poleStart.price) * sign;
+  if (pole <= 0) return null;
+
+  // Консолидация: неглубокий откат и повторный экстремум не дальше вершины флагштока
+  const retracement = (poleEnd.price - pullback.price) * sign;
+  if (retracement <= 0 || retracement > pole * 0.5) return null;
+  if ((retest.price - poleEnd.price) * sign > 0) return null;
+
+  const edge = fitLine([poleEnd, retest]);
+  const counterEdge = pullback.price;
+
+  return {
+    direction: bullish ? 'BULLISH' : 'BEARISH',
+    breakoutAt: index => lineAt(edge, index),
+    invalidationAt: () => counterEdge,
+    height: pole,
+    quality: clamp(1 - retracement / (pole * 0.5), 0, 1)
+  };
+};
+
+// Симметричный треугольник продолжает движение, которое в него привело
+const priorTrend = (points: SwingPoint[]): PatternDirection => (points[0].type === 'high' ? 'BULLISH' : 'BEARISH');
+
+const CHART_PATTERN_DETECTORS: ChartPatternDetector[] = [
+  {
+    id: 'double_top',
+    name: 'Double Top',
+    displayName: 'Двойная вершина',
+    signal: 'reversal',
+    swings: 3,
+    detect: (points, config) => doubleExtreme(points, config, true)
+  },
+  {
+    id: 'double_bottom',
+    name: 'Double Bottom',
+    displayName: 'Двойное дно',
+    signal: 'reversal',
+    swings: 3,
+    detect: (points, config) => doubleExtreme(points, config, false)
+  },
+  {
+    id: 'head_and_shoulders',
+    name: 'Head and Shoulders',
+    displayName: 'Голова и плечи',
+    signal: 'reversal',
+    swings: 5,
+    detect: (points, config) => headAndShoulders(points, config, true)
+  },
+  {
+    id: 'inverse_head_and_shoulders',
+    name: 'Inverse Head and Shoulders',
+    displayName: 'Перевернутые голова и плечи',
+    signal: 'reversal',
+    swings: 5,
+    detect: (points, config) => headAndShoulders(points, config, false)
+  },
+  {
+    id: 'ascending_triangle',
+    name: 'Ascending Triangle',
+    displayName: 'Восходящий треугольник',
+    signal: 'continuation',
+    swings: 5,
+    detect: convergingShape('ascending_triangle', () => 'BULLISH')
+  },
+  {
+    id: 'descending_triangle',
+    name: 'Descending Triangle',
+    displayName: 'Нисходящий треугольник',
+    signal: 'continuation',
+    swings: 5,
+    detect: convergingShape('descending_triangle', () => 'BEARISH')
+  },
+  {
+    id: 'symmetric_triangle',
+    name: 'Symmetric Triangle',
+    displayName: 'Симметричный треугольник',
+    signal: 'continuation',
+    swings: 5,
+    detect: convergingShape('symmetric_triangle', priorTrend)
+  },
+  {
+    id: 'rising_wedge',
+    name: 'Rising Wedge',
+    displayName: 'Восходящий клин',
+    signal: 'reversal',
+    swings: 5,
+    detect: convergingShape('rising_wedge', () => 'BEARISH')
+  },
+  {
+    id: 'falling_wedge',
+    name: 'Falling Wedge',
+    displayName: 'Нисходящий клин',
+    signal: 'reversal',
+    swings: 5,
+    detect: convergingShape('falling_wedge', () => 'BULLISH')
+  },
+  {
+    id: 'bull_flag',
+    name: 'Bull Flag',
+    displayName: 'Бычий флаг',
+    signal: 'continuation',
+    swings: 4,
+    detect: (points, config) => flag(points, config, true)
+  },
+  {
+    id: 'bear_flag',
+    name: 'Bear Flag',
+    displayName: 'Медвежий флаг',
+    signal: 'continuation',
+    swings: 4,
+    detect: (points, config) => flag(points, config, false)
+  }
+];
+
+/**
+ * Walk the closes after the last defining swing until one crosses the
+ * breakout level (confirmed) or the invalidation level (invalidated)
+ */
+const resolveStatus = (
+  candles: CandleData[],
+  shape: PatternShape,
+  endIndex: number
+): Pick<ChartPattern, 'status' | 'statusIndex' | 'breakoutLevel'> => {
+  const sign = shape.direction === 'BEARISH' ? -1 : 1;
+
+  for (let i = endIndex + 1; i < candles.length; i++) {
+    const close = candles[i].close;
+    const breakoutLevel = shape.breakoutAt(i);
+    if ((close - breakoutLevel) * sign > 0) {
+      return { status: 'confirmed', statusIndex: i, breakoutLevel };
+    }
+    if ((close - shape.invalidationAt(i)) * sign < 0) {
+      return { status: 'invalidated', statusIndex: i, breakoutLevel };
+    }
+  }
+
+  return { status: 'forming', breakoutLevel: shape.breakoutAt(Math.max(endIndex, candles.length - 1)) };
+};
+
+/**
+ * Run every detector over each window of consecutive swings.
+ * When windows of the same pattern overlap, the latest one is kept.
+ */
+export function detectChartPatterns(
+  candles: CandleData[],
+  swings: SwingPoint[],
+  config: ChartPatternConfig
+): ChartPattern[] {
+  const patterns: ChartPattern[] = [];
+
+  for (const detector of CHART_PATTERN_DETECTORS) {
+    let previous: ChartPattern | null = null;
+
+    for (let end = detector.swings; end <= swings.length; end++) {
+      const points = swings.slice(end - detector.swings, end);
+      const shape = detector.detect(points, config);
+      if (!shape || shape.direction === 'NEUTRAL') continue;
+
+      const startIndex = points[0].index;
+      const endIndex = points[points.length - 1].index;
+      const resolved = resolveStatus(candles, shape, endIndex);
+      const sign = shape.direction === 'BULLISH' ? 1 : -1;
+
+      const pattern: ChartPattern = {
+        id: detector.id,
+        name: detector.name,
+        displayName: detector.displayName,
+        direction: shape.direction,
+        signal: detector.signal,
+        points,
+        startIndex,
+        endIndex,
+        ...resolved,
+        target: resolved.breakoutLevel + sign * shape.height,
+        height: shape.height,
+        confidence: clamp(0.5 + 0.4 * shape.quality, 0.5, 0.9)
+      };
+
+      if (previous && startIndex < previous.endIndex) {
+        patterns[patterns.lastIndexOf(previous)] = pattern;
+      } else {
+        patterns.push(pattern);
+      }
+      previous = pattern;
+    }
+  }
+
+  return patterns.sort((a, b) => a.endIndex - b.endIndex || b.confidence - a.confidence);
+}
@@ -0,0 +1,80 @@
+import { PatternDirection, PatternSignalType } from '../candlestick/types';
+
+export type SwingType = 'high' | 'low';
+
+/**
+ * Confirmed turning point of the zigzag
+ */
+export interface SwingPoint {
+  type: SwingType;
+  /** Array index of the candle that made the extreme */
+  index: number;
+  candleIndex: number;
+  price: number;
+}
+
+export interface ZigZagConfig {
+  /** Reversal needed to confirm a swing, in ATRs */
+  atrMultiplier: number;
+  atrPeriod: number;
+  /** Minimum reversal as a fraction of price, guards against flat markets */
+  minReversalPercent: number;
+}
+
+export interface ZigZagResult {
+  swings: SwingPoint[];
+  /** Extreme of the current leg, not yet confirmed by a reversal */
+  pending: SwingPoint | null;
+}
+
+export type ChartPatternId =
+  | 'double_top'
+  | 'double_bottom'
+  | 'head_and_shoulders'
+  | 'inverse_head_and_shoulders'
+  | 'ascending_triangle'
+  | 'descending_triangle'
+  | 'symmetric_triangle'
+  | 'rising_wedge'
+  | 'falling_wedge'
+  | 'bull_flag'
+  | 'bear_flag';
+
+/**
+ * forming - breakout level not crossed yet
+ * confirmed - a close beyond the breakout level
+ * invalidated - price broke the opposite side first
+ */
+export type ChartPatternStatus = 'forming' | 'confirmed' | 'invalidated';
+
+export interface ChartPattern {
+  id: ChartPatternId;
+  name: string;
+  displayName: string;
+  direction: PatternDirection;
+  signal: PatternSignalType;
+  /** Swing points that define the pattern, oldest first */
+  points: SwingPoint[];
+  startIndex: number;
+  /** Index of the last defining swing */
+  endIndex: number;
+  /** Price whose close-through completes the pattern (neckline, trendline, flag edge) */
+  breakoutLevel: number;
+  /** Breakout level plus the measured move in the pattern direction */
+  target: number;
+  /** Measured move used for the target */
+  height: number;
+  status: ChartPatternStatus;
+  /** Array index of the confirming or invalidating close */
+  statusIndex?: number;
+  /** Pattern quality (0-1) */
+  confidence: number;
+}
+
+export interface ChartPatternConfig {
+  zigzag: ZigZagConfig;
+  /** Allowed difference between "equal" swings, as a share of pattern height */
+  equalityTolerance: number;
+  /** Line slope treated as flat, as a share of pattern height over the pattern span */
+  flatTolerance: number;
+}
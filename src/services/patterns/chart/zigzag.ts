@@ -0,0 +1,100 @@
+import { CandleData } from '@/types/session';
+import { SwingPoint, ZigZagConfig, ZigZagResult } from './types';
+
+export const DEFAULT_ZIGZAG_CONFIG: ZigZagConfig = {
+  atrMultiplier: 2,
+  atrPeriod: 14,
+  minReversalPercent: 0.001
+};
+
+/**
+ * Rolling average true range; uses only candles up to each index
+ */
+export const rollingATR = (candles: CandleData[], period: number): number[] => {
+  const atr: number[] = [];
+  let sum = 0;
+  const trueRanges: number[] = [];
+
+  candles.forEach((candle, i) => {
+    const prevClose = i > 0 ? candles[i - 1].close : candle.close;
+    const tr = Math.max(candle.high - candle.low, Math.abs(candle.high - prevClose), Math.abs(candle.low - prevClose));
+    trueRanges.push(tr);
+    sum += tr;
+    if (trueRanges.length > period) sum -= trueRanges[trueRanges.length - period - 1];
+    atr.push(sum / Math.min(trueRanges.length, period));
+  });
+
+  return atr;
+};
+
+const swing = (candles: CandleData[], index: number, type: SwingPoint['type']): SwingPoint => ({
+  type,
+  index,
+  candleIndex: candles[index].candle_index,
+  price: type === 'high' ? candles[index].high : candles[index].low
+});
+
+/**
+ * Extract alternating swing highs and lows. A swing is confirmed once price
+ * reverses from it by the threshold, so no swing depends on later candles
+ * than the one that confirmed it.
+ */
+export function extractSwingPoints(
+  candles: CandleData[],
+  config: Partial<ZigZagConfig> = {}
+): ZigZagResult {
+  const { atrMultiplier, atrPeriod, minReversalPercent } = { ...DEFAULT_ZIGZAG_CONFIG, ...config };
+  const swings: SwingPoint[] = [];
+  if (candles.length === 0) return { swings, pending: null };
+
+  const atr = rollingATR(candles, atrPeriod);
+  const threshold = (i: number) => Math.max(atr[i] * atrMultiplier, candles[i].close * minReversalPercent);
+
+  let direction: 'up' | 'down' | null = null;
+  let highIndex = 0;
+  let lowIndex = 0;
+
+  for (let i = 1; i < candles.length; i++) {
+    const candle = candles[i];
+
+    if (direction === null) {
+      if (candle.high > candles[highIndex].high) highIndex = i;
+      if (candle.low < candles[lowIndex].low) lowIndex = i;
+
+      if (lowIndex < highIndex && candles[highIndex].high - candles[lowIndex].low >= threshold(i)) {
+        swings.push(swing(candles, lowIndex, 'low'));
+        direction = 'up';
+      } else if (highIndex < lowIndex && candles[highIndex].high - candles[lowIndex].low >= threshold(i)) {
+        swings.push(swing(candles, highIndex, 'high'));
+        direction = 'down';
+      }
+      continue;
+    }
+
+    if (direction === 'up') {
+      if (candle.high >= candles[highIndex].high) {
+        highIndex = i;
+      } else if (candles[highIndex].high - candle.low >= threshold(i)) {
+        swings.push(swing(candles, highIndex, 'high'));
+        direction = 'down';
+        lowIndex = i;
+      }
+    } else {
+      if (candle.low <= candles[lowIndex].low) {
+        lowIndex = i;
+      } else if (candle.high - candles[lowIndex].low >= threshold(i)) {
+        swings.push(swing(candles, lowIndex, 'low'));
+        direction = 'up';
+        highIndex = i;
+      }
+    }
+  }
+
+  const pending = direction === 'up'
+    ? swing(candles, highIndex, 'high')
+    : direction === 'down'
+      ? swing(candles, lowIndex, 'low')
+      : null;
+
+  return { swings, pending };
+}
@@ -5,10 +5,14 @@ import { TechnicalIndicatorService, TechnicalIndicators } from './indicators/Tec
 import { PatternAnalysisService, PatternSignals, VolumeAnalysis } from './patterns/PatternAnalysis';
 import { AdvancedFactorsService, ModelWeights } from './prediction/AdvancedFactors';
 import { RecommendationEngine } from './prediction/RecommendationEngine';
+import { calibrationService, HEURISTIC_MODEL, REAL_ML_MODEL } from './ml/CalibrationService';
 
 // Кэш для исторических данных и метрик
 const historicalCache = new Map<string, CandleData[]>();
 
+/** Version of the prediction pipeline recorded in the prediction ledger */
+export const PREDICTION_SERVICE_VERSION = '1.0.0';
+
 export const predictionService = {
 
   // Расчет технических индикаторов
@@ -33,11 +37,29 @@ export const predictionService = {
     config: PredictionConfig
   ): Promise<PredictionResult | null> {
     try {
+      // Калибраторы подгоняются при старте приложения; прогноз ждет окончания подгонки
+      await calibrationService.whenFitted();
+
       // Используем полноценную нейросеть для прогноза
       const mlPrediction = await realMLService.generatePrediction(candles, currentIndex, config);
       
       if (mlPrediction) {
-        return mlPrediction;
+        const calibrated = calibrationService.calibratePrediction(REAL_ML_MODEL, config.pair, mlPrediction);
+        const technical = await this.calculateTechnicalIndicators(candles, currentIndex);
+        const patterns = this.analyzePatterns(candles, currentIndex);
+
+        // Рекомендация строится по откалиброванной вероятности
+        return {
+          ...calibrated,
+          modelId: REAL_ML_MODEL,
+          recommendation: RecommendationEngine.generateRecommendation(
+            calibrated.direction,
+            calibrated.probability,
+            config.predictionInterval,
+            patterns.candlestickPattern,
+            technical
+          )
+        };
       }
       
       // CRITICAL FIX: Remove fallback that might return last direction
@@ -63,13 +85,22 @@ export const predictionService = {
       const weightedScore = AdvancedFactorsService.calculateWeightedScore(factors);
       
       // Определяем направление и вероятность
-      const direction = weightedScore > 50 ? 'UP' : 'DOWN';
+      const modelDirection = weightedScore > 50 ? 'UP' : 'DOWN';
       const rawProbability = Math.abs(weightedScore - 50) * 2; // Конвертируем в 0-100
       
       // Применяем confidence modifiers
       const confidenceModifiers = AdvancedFactorsService.calculateConfidenceModifiers(technical, patterns);
-      const probability = Math.min(95, Math.max(55, rawProbability * confidenceModifiers));
-      const confidence = Math.min(90, Math.max(60, probability - Math.random() * 5));
+      const uncalibratedProbability = Math.min(95, Math.max(55, rawProbability * confidenceModifiers));
+      const confidence = Math.min(90, Math.max(60, uncalibratedProbability - Math.random() * 5));
+
+      // Калибровка до порогов рекомендаций; ниже 50% калибровка разворачивает направление
+      const { direction, probability, rawProbability: rawCallProbability } = calibrationService.calibrateDirection(
+        HEURISTIC_MODEL,
+        config.pair,
+        modelDirection,
+        uncalibratedProbability
+      );
+      const calibration = calibrationService.getCalibration(HEURISTIC_MODEL, config.pair);
       
       // Генерируем рекомендацию
       const recommendation = RecommendationEngine.generateRecommendation(
@@ -86,7 +117,13 @@ export const predictionService = {
         confidence: Number(confidence.toFixed(1)),
         interval: config.predictionInterval,
         factors,
-        recommendation
+        recommendation,
+        modelId: HEURISTIC_MODEL,
+        // Эвристика взвешивает факторы, они и есть ее вход
+        features: [factors.technical, factors.volume, factors.momentum, factors.volatility, factors.pattern, factors.trend],
+        ...(calibration && {
+          calibration: { method: calibration.calibrator.method, rawProbability: Number(rawCallProbability.toFixed(1)) }
+        })
       };
       
     } catch (error) {
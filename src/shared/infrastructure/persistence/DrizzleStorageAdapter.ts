@@ -0,0 +1,92 @@
+/**
+ * INFRASTRUCTURE: libsql Storage Adapter
+ * Локальная SQLite/Turso база через drizzle (src/db)
+ */
+
+import { eq, getTableColumns } from 'drizzle-orm';
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { Database, getDb } from '@/db';
+import { Result } from '@/shared/types/common';
+import { InfrastructureError } from '@/shared/infrastructure/ErrorHandler';
+import { EntityMapper, RowValue, StorageAdapter } from './StorageAdapter';
+
+export class DrizzleStorageAdapter<T, Row extends object> implements StorageAdapter<T> {
+  constructor(
+    private readonly table: SQLiteTable,
+    private readonly mapper: EntityMapper<T, Row>,
+    private readonly database: () => Database = getDb
+  ) {}
+
+  async findById(id: string): Promise<T | null> {
+    const rows = await this.read(() =>
+      this.database().select().from(this.table).where(eq(this.column('id'), id)).limit(1)
+    );
+    return rows.length > 0 ? this.mapper.fromRow(rows[0] as Row) : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    const rows = await this.read(() => this.database().select().from(this.table));
+    return rows.map(row => this.mapper.fromRow(row as Row));
+  }
+
+  async findBy(column: string, value: RowValue): Promise<T[]> {
+    const rows = await this.read(() =>
+      this.database().select().from(this.table).where(eq(this.column(column), value))
+    );
+    return rows.map(row => this.mapper.fromRow(row as Row));
+  }
+
+  async save(entity: T): Promise<Result<T>> {
+    try {
+      const row = this.mapper.toRow(entity);
+      const [saved] = await this.database()
+        .insert(this.table)
+        .values(row)
+        .onConflictDoUpdate({ target: this.column('id'), set: row })
+        .returning();
+      return { success: true, data: this.mapper.fromRow(saved as Row) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async delete(id: string): Promise<Result<void>> {
+    return this.deleteBy('id', id);
+  }
+
+  async deleteBy(column: string, value: RowValue): Promise<Result<void>> {
+    try {
+      await this.database().delete(this.table).where(eq(this.column(column), value));
+      return { success: true, data: undefined };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  private column(name: string): SQLiteColumn {
+    const column = getTableColumns(this.table)[name];
+    if (!column) {
+      throw new InfrastructureError(
+        `Unknown column ${this.mapper.table}.${name}`,
+        'UNKNOWN_COLUMN',
+        'libsql',
+        { table: this.mapper.table, column: name }
+      );
+    }
+    return column;
+  }
+
+  private async read(query: () => Promise<unknown[]>): Promise<unknown[]> {
+    try {
+      return await query();
+    } catch (error) {
+      if (error instanceof InfrastructureError) throw error;
+      throw new InfrastructureError(
+        `Failed to read ${this.mapper.table}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'STORAGE_READ_FAILED',
+        'libsql',
+        { table: this.mapper.table }
+      );
+    }
+  }
+}
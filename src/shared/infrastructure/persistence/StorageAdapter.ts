@@ -0,0 +1,75 @@
+/**
+ * INFRASTRUCTURE: Storage Adapters
+ * Хранилище для доменных репозиториев; сущности сохраняются строками таблиц,
+ * одинаковыми для Supabase и libsql
+ */
+
+import { Repository, Result } from '@/shared/types/common';
+
+export type RowValue = string | number | boolean;
+
+/**
+ * Converts a domain entity to a table row and back
+ */
+export interface EntityMapper<T, Row extends object> {
+  /** Table name, identical in Supabase and libsql */
+  readonly table: string;
+  getId(entity: T): string;
+  toRow(entity: T): Row;
+  fromRow(row: Row): T;
+}
+
+export interface StorageAdapter<T> extends Repository<T, string> {
+  /** Entities whose row column equals the value */
+  findBy(column: string, value: RowValue): Promise<T[]>;
+  deleteBy(column: string, value: RowValue): Promise<Result<void>>;
+}
+
+/**
+ * Keeps rows in memory; default backend and the one used in tests
+ */
+export class InMemoryStorageAdapter<T, Row extends object> implements StorageAdapter<T> {
+  private rows = new Map<string, Row>();
+
+  constructor(private readonly mapper: EntityMapper<T, Row>) {}
+
+  async findById(id: string): Promise<T | null> {
+    const row = this.rows.get(id);
+    return row ? this.mapper.fromRow(row) : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    return Array.from(this.rows.values()).map(row => this.mapper.fromRow(row));
+  }
+
+  async findBy(column: string, value: RowValue): Promise<T[]> {
+    return Array.from(this.rows.values())
+      .filter(row => (row as Record<string, unknown>)[column] === value)
+      .map(row => this.mapper.fromRow(row));
+  }
+
+  async save(entity: T): Promise<Result<T>> {
+    try {
+      // Копия строки, чтобы внешние изменения сущности не попадали в хранилище
+      const row = structuredClone(this.mapper.toRow(entity));
+      this.rows.set(this.mapper.getId(entity), row);
+      return { success: true, data: this.mapper.fromRow(row) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async delete(id: string): Promise<Result<void>> {
+    this.rows.delete(id);
+    return { success: true, data: undefined };
+  }
+
+  async deleteBy(column: string, value: RowValue): Promise<Result<void>> {
+    for (const [id, row] of this.rows) {
+      if ((row as Record<string, unknown>)[column] === value) {
+        this.rows.delete(id);
+      }
+    }
+    return { success: true, data: undefined };
+  }
+}
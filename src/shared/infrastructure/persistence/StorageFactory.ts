@@ -0,0 +1,77 @@
+/**
+ * INFRASTRUCTURE: Storage Factory
+ * Выбор хранилища доменных репозиториев по конфигурации:
+ * VITE_PERSISTENCE_BACKEND в браузере, PERSISTENCE_BACKEND на сервере
+ */
+
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { secureLogger } from '@/utils/secureLogger';
+import { InfrastructureError } from '@/shared/infrastructure/ErrorHandler';
+import { EntityMapper, InMemoryStorageAdapter, StorageAdapter } from './StorageAdapter';
+import { SupabaseStorageAdapter } from './SupabaseStorageAdapter';
+import { DrizzleStorageAdapter } from './DrizzleStorageAdapter';
+
+export type PersistenceBackend = 'memory' | 'supabase' | 'libsql';
+
+export interface PersistenceConfig {
+  backend: PersistenceBackend;
+}
+
+const BACKENDS: readonly PersistenceBackend[] = ['memory', 'supabase', 'libsql'];
+
+const DEFAULT_CONFIG: PersistenceConfig = {
+  backend: 'memory'
+};
+
+/**
+ * @param browser - libsql is server-only: its write token would ship in the client bundle
+ */
+export const resolvePersistenceConfig = (
+  backend: string | undefined,
+  browser: boolean = typeof window !== 'undefined'
+): PersistenceConfig => {
+  if (!backend) return DEFAULT_CONFIG;
+
+  if (!BACKENDS.includes(backend as PersistenceBackend)) {
+    secureLogger.warn('Unknown persistence backend, falling back to memory', { backend });
+    return DEFAULT_CONFIG;
+  }
+  if (browser && backend === 'libsql') {
+    throw new InfrastructureError(
+      'libsql storage is server-only; set VITE_PERSISTENCE_BACKEND to memory or supabase',
+      'LIBSQL_IN_BROWSER',
+      'persistence'
+    );
+  }
+  return { backend: backend as PersistenceBackend };
+};
+
+export const persistenceConfig = resolvePersistenceConfig(
+  import.meta.env?.VITE_PERSISTENCE_BACKEND ??
+    (typeof process !== 'undefined' ? process.env.PERSISTENCE_BACKEND : undefined)
+);
+
+/**
+ * Конфигурация для данных, которые должны пережить перезагрузку:
+ * вместо памяти используется Supabase, явно выбранный backend сохраняется
+ */
+export const durablePersistenceConfig = (config: PersistenceConfig = persistenceConfig): PersistenceConfig =>
+  config.backend === 'memory' ? { backend: 'supabase' } : config;
+
+/**
+ * @param table drizzle table of the entity, used by the libsql backend
+ */
+export function createStorageAdapter<T, Row extends object>(
+  mapper: EntityMapper<T, Row>,
+  table: SQLiteTable,
+  config: PersistenceConfig = persistenceConfig
+): StorageAdapter<T> {
+  switch (config.backend) {
+    case 'supabase':
+      return new SupabaseStorageAdapter(mapper);
+    case 'libsql':
+      return new DrizzleStorageAdapter(table, mapper);
+    default:
+      return new InMemoryStorageAdapter(mapper);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * INFRASTRUCTURE: Supabase Storage Adapter
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Result } from '@/shared/types/common';
+import { InfrastructureError } from '@/shared/infrastructure/ErrorHandler';
+import { EntityMapper, RowValue, StorageAdapter } from './StorageAdapter';
+
+export class SupabaseStorageAdapter<T, Row extends object> implements StorageAdapter<T> {
+  constructor(private readonly mapper: EntityMapper<T, Row>) {}
+
+  async findById(id: string): Promise<T | null> {
+    const { data, error } = await supabase.from(this.mapper.table).select('*').eq('id', id).maybeSingle();
+    if (error) {
+      throw this.readError(error.message);
+    }
+    return data ? this.mapper.fromRow(data as Row) : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    const { data, error } = await supabase.from(this.mapper.table).select('*');
+    if (error) {
+      throw this.readError(error.message);
+    }
+    return (data || []).map(row => this.mapper.fromRow(row as Row));
+  }
+
+  async findBy(column: string, value: RowValue): Promise<T[]> {
+    const { data, error } = await supabase.from(this.mapper.table).select('*').eq(column, value);
+    if (error) {
+      throw this.readError(error.message);
+    }
+    return (data || []).map(row => this.mapper.fromRow(row as Row));
+  }
+
+  async save(entity: T): Promise<Result<T>> {
+    try {
+      const { data, error } = await supabase
+        .from(this.mapper.table)
+        .upsert(this.mapper.toRow(entity))
+        .select()
+        .single();
+      if (error) {
+        throw new Error(`Failed to save to ${this.mapper.table}: ${error.message}`);
+      }
+      return { success: true, data: this.mapper.fromRow(data as Row) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async delete(id: string): Promise<Result<void>> {
+    return this.deleteBy('id', id);
+  }
+
+  async deleteBy(column: string, value: RowValue): Promise<Result<void>> {
+    try {
+      const { error } = await supabase.from(this.mapper.table).delete().eq(column, value);
+      if (error) {
+        throw new Error(`Failed to delete from ${this.mapper.table}: ${error.message}`);
+      }
+      return { success: true, data: undefined };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  private readError(message: string): InfrastructureError {
+    return new InfrastructureError(
+      `Failed to read ${this.mapper.table}: ${message}`,
+      'STORAGE_READ_FAILED',
+      'supabase',
+      { table: this.mapper.table }
+    );
+  }
+}
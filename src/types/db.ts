@@ -26,6 +26,7 @@ export type Database = {
           open: number
           prediction_confidence: number | null
           prediction_direction: string | null
+          prediction_interval: number | null
           prediction_probability: number | null
           session_id: string | null
           volume: number
@@ -41,6 +42,7 @@ export type Database = {
           open: number
           prediction_confidence?: number | null
           prediction_direction?: string | null
+          prediction_interval?: number | null
           prediction_probability?: number | null
           session_id?: string | null
           volume: number
@@ -56,6 +58,7 @@ export type Database = {
           open?: number
           prediction_confidence?: number | null
           prediction_direction?: string | null
+          prediction_interval?: number | null
           prediction_probability?: number | null
           session_id?: string | null
           volume?: number
@@ -26,8 +26,12 @@ export interface CandleData {
   prediction_direction?: string;
   prediction_probability?: number;
   prediction_confidence?: number;
+  /** Прогноз сделан на столько минут вперед */
+  prediction_interval?: number;
   timestamp?: string;
+  source?: 'manual' | 'api' | 'import';
   created_at?: string;
+  updated_at?: string;
 }
 
 export interface SessionStats {
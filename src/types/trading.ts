@@ -12,6 +12,8 @@ export interface ManualDataInputs {
 export interface PredictionConfig {
   predictionInterval: number;
   analysisMode: 'session';
+  /** Pair being predicted; selects its probability calibration */
+  pair?: string;
 }
 
 export interface PredictionResult {
@@ -28,6 +30,10 @@ export interface PredictionResult {
     trend: number;
   };
   recommendation: string;
+  /** Model that produced the prediction; calibrators and the prediction ledger are keyed by it */
+  modelId?: string;
+  /** Input vector the model scored; the prediction ledger hashes it */
+  features?: number[];
   metadata?: {
     modelAgreement: number;
     riskScore: number;
@@ -37,6 +43,11 @@ export interface PredictionResult {
     volumeAnalysis?: string;
     riskLevel?: string;
   };
+  /** Set when the probability was recalibrated from resolved predictions */
+  calibration?: {
+    method: 'platt' | 'isotonic';
+    rawProbability: number;
+  };
 }
 
 export interface ModelStatistics {
@@ -107,6 +118,8 @@ export interface MarketStructure {
   trend: 'UPTREND' | 'DOWNTREND' | 'SIDEWAYS';
   strength: number;
   breakoutLevel?: number;
+  /** Measured-move target of the pattern that defines breakoutLevel */
+  target?: number;
 }
 
 export interface MarketData {
@@ -134,3 +134,65 @@ export const validateTimeParameters = (startDate: string, startTime: string, tim
     errors
   };
 };
+
+const FIXED_OFFSET_REGEX = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+/**
+ * Смещение часового пояса от UTC в минутах на момент `at`.
+ * Принимает 'UTC', 'local', фиксированное смещение ('+03:00', 'UTC+3') или имя IANA ('Europe/Moscow')
+ */
+export const getTimeZoneOffsetMinutes = (timeZone: string, at: number): number => {
+  const zone = timeZone?.trim() || 'UTC';
+
+  if (/^(UTC|GMT|Z)$/i.test(zone)) {
+    return 0;
+  }
+
+  if (zone.toLowerCase() === 'local') {
+    return -new Date(at).getTimezoneOffset();
+  }
+
+  const fixed = zone.match(FIXED_OFFSET_REGEX);
+  if (fixed) {
+    const minutes = parseInt(fixed[2], 10) * 60 + parseInt(fixed[3] ?? '0', 10);
+    return fixed[1] === '-' ? -minutes : minutes;
+  }
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(new Date(at));
+  } catch (error) {
+    throw new Error(`Неизвестный часовой пояс: ${timeZone}`);
+  }
+
+  const value = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((wallClock - Math.floor(at / 1000) * 1000) / 60000);
+};
+
+/**
+ * Переводит время по часам указанного пояса в UTC (мс). Смещение пересчитывается
+ * после первой оценки, чтобы переходы на летнее время давали верный результат
+ */
+export const zonedDateTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): number => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(timeZone, wallClock) * 60000;
+  return wallClock - getTimeZoneOffsetMinutes(timeZone, firstGuess) * 60000;
+};
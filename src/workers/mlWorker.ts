@@ -6,11 +6,13 @@
 import { FeatureExtractionService } from '../services/ml/FeatureExtractionService';
 import { PredictionEngineService } from '../services/ml/PredictionEngineService';
 import { NetworkTrainingService } from '../services/ml/NetworkTrainingService';
+import { walkForwardOptimizer } from '../services/backtesting/WalkForwardOptimizer';
+import { ProfessionalMLService } from '../services/ml/ProfessionalMLService';
 
 // Message types
 interface MLWorkerMessage {
   id: string;
-  type: 'FEATURE_EXTRACTION' | 'PREDICTION' | 'TRAINING' | 'CANCEL';
+  type: 'FEATURE_EXTRACTION' | 'PREDICTION' | 'TRAINING' | 'RECURRENT_TRAINING' | 'WALK_FORWARD' | 'CANCEL';
   payload: any;
 }
 
@@ -24,6 +26,7 @@ interface MLWorkerResponse {
 let featureService: FeatureExtractionService;
 let predictionService: PredictionEngineService;
 let trainingService: NetworkTrainingService;
+let professionalService: ProfessionalMLService;
 
 // Active computations tracking
 const activeComputations = new Map<string, AbortController>();
@@ -33,6 +36,7 @@ const initializeServices = () => {
   featureService = FeatureExtractionService.getInstance();
   predictionService = PredictionEngineService.getInstance();
   trainingService = NetworkTrainingService.getInstance();
+  professionalService = ProfessionalMLService.getInstance();
 };
 
 // Progress reporting utility
@@ -147,6 +151,66 @@ const handleTraining = async (id: string, payload: any) => {
   }
 };
 
+// Recurrent ensemble member training handler
+const handleRecurrentTraining = async (id: string, payload: any) => {
+  try {
+    const { series, options } = payload;
+
+    reportProgress(id, 0, 'Building sequence windows...');
+
+    const result = await professionalService.trainRecurrentModel(series, options, (metrics, epochs) => {
+      const validation = metrics.validationLoss !== null ? `, validation ${metrics.validationLoss.toFixed(4)}` : '';
+      reportProgress(id, (metrics.epoch / epochs) * 100, `Epoch ${metrics.epoch}/${epochs}: Loss ${metrics.trainLoss.toFixed(4)}${validation}`);
+    });
+
+    // Сеть обучена в контексте воркера; основной поток загружает ее из сериализации
+    const response: MLWorkerResponse = {
+      id,
+      type: 'SUCCESS',
+      payload: { result, model: professionalService.exportRecurrentModel() }
+    };
+
+    self.postMessage(response);
+  } catch (error) {
+    const response: MLWorkerResponse = {
+      id,
+      type: 'ERROR',
+      payload: { error: error instanceof Error ? error.message : 'Recurrent training failed' }
+    };
+
+    self.postMessage(response);
+  }
+};
+
+// Walk-forward optimization handler
+const handleWalkForward = async (id: string, payload: any) => {
+  try {
+    const { candleData, config } = payload;
+    
+    reportProgress(id, 0, 'Starting walk-forward optimization...');
+    
+    const result = await walkForwardOptimizer.run(candleData, config, (progress, status) =>
+      reportProgress(id, progress, status)
+    );
+    
+    const response: MLWorkerResponse = {
+      id,
+      type: 'SUCCESS',
+      payload: { result }
+    };
+    
+    self.postMessage(response);
+  } catch (error) {
+    const response: MLWorkerResponse = {
+      id,
+      type: 'ERROR',
+      payload: { error: error instanceof Error ? error.message : 'Walk-forward optimization failed' }
+    };
+    
+    self.postMessage(response);
+  }
+};
+
 // Cancel computation handler
 const handleCancel = (id: string) => {
   const controller = activeComputations.get(id);
@@ -186,6 +250,14 @@ self.onmessage = async (event: MessageEvent<MLWorkerMessage>) => {
         await handleTraining(id, payload);
         break;
       
+      case 'RECURRENT_TRAINING':
+        await handleRecurrentTraining(id, payload);
+        break;
+      
+      case 'WALK_FORWARD':
+        await handleWalkForward(id, payload);
+        break;
+      
       case 'CANCEL':
         handleCancel(id);
         return;
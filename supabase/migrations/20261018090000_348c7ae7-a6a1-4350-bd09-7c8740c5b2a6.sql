@@ -0,0 +1,74 @@
+-- Журнал прогнозов: каждый прогноз с моделью, признаками и исходом
+
+CREATE TABLE IF NOT EXISTS prediction_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES trading_sessions(id) ON DELETE CASCADE,
+  candle_index INTEGER NOT NULL,
+  model_id TEXT NOT NULL,
+  model_version TEXT NOT NULL,
+  feature_hash TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('UP', 'DOWN')),
+  probability NUMERIC NOT NULL CHECK (probability >= 0 AND probability <= 100),
+  confidence NUMERIC NOT NULL CHECK (confidence >= 0 AND confidence <= 100),
+  interval_minutes INTEGER NOT NULL CHECK (interval_minutes > 0),
+  entry_price NUMERIC NOT NULL,
+  inputs JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  -- Заполняется при появлении свечи экспирации
+  expiry_candle_index INTEGER,
+  actual_price NUMERIC,
+  actual_direction TEXT CHECK (actual_direction IN ('UP', 'DOWN', 'FLAT')),
+  correct BOOLEAN,
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_prediction_ledger_session ON prediction_ledger(session_id, candle_index);
+CREATE INDEX IF NOT EXISTS idx_prediction_ledger_pending ON prediction_ledger(session_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_prediction_ledger_model ON prediction_ledger(model_id, model_version);
+
+ALTER TABLE prediction_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view predictions for their sessions"
+ON prediction_ledger
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = prediction_ledger.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert predictions for their sessions"
+ON prediction_ledger
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = prediction_ledger.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update predictions for their sessions"
+ON prediction_ledger
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = prediction_ledger.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete predictions for their sessions"
+ON prediction_ledger
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = prediction_ledger.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
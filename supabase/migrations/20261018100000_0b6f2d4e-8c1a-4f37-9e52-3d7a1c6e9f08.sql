@@ -0,0 +1,90 @@
+-- Хранилище доменных репозиториев: недостающие поля сессий и свечей, таблица прогнозов
+
+-- 1. Сессии: статус, описание, теги и статистика доменной модели
+ALTER TABLE trading_sessions ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'paused', 'completed', 'archived'));
+ALTER TABLE trading_sessions ADD COLUMN IF NOT EXISTS end_date TIMESTAMPTZ;
+ALTER TABLE trading_sessions ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE trading_sessions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE trading_sessions ADD COLUMN IF NOT EXISTS stats JSONB;
+
+-- Репозиторий не передает user_id явно
+ALTER TABLE trading_sessions ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- 2. Свечи: метаданные качества и полный прогноз
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS prediction_interval INTEGER;
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS prediction_factors JSONB;
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS prediction_outcome BOOLEAN;
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS indicators JSONB;
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual'
+  CHECK (source IN ('manual', 'api', 'import'));
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS validated BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS quality TEXT NOT NULL DEFAULT 'medium'
+  CHECK (quality IN ('high', 'medium', 'low'));
+ALTER TABLE candle_data ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- 3. Прогнозы доменного слоя
+CREATE TABLE IF NOT EXISTS predictions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES trading_sessions(id) ON DELETE CASCADE,
+  candle_index INTEGER NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('UP', 'DOWN')),
+  probability NUMERIC NOT NULL CHECK (probability >= 0 AND probability <= 100),
+  confidence NUMERIC NOT NULL CHECK (confidence >= 0 AND confidence <= 100),
+  interval_minutes INTEGER NOT NULL CHECK (interval_minutes > 0),
+  factors JSONB NOT NULL,
+  outcome JSONB,
+  model_version TEXT NOT NULL,
+  algorithm TEXT NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  confidence_level TEXT NOT NULL CHECK (confidence_level IN ('high', 'medium', 'low')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_predictions_session_id ON predictions(session_id);
+
+ALTER TABLE predictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view domain predictions for their sessions"
+ON predictions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = predictions.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can insert domain predictions for their sessions"
+ON predictions
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = predictions.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update domain predictions for their sessions"
+ON predictions
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = predictions.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete domain predictions for their sessions"
+ON predictions
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM trading_sessions
+    WHERE trading_sessions.id = predictions.session_id
+    AND trading_sessions.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,8 @@
+-- updated_at свечей меняется при каждом обновлении: по нему офлайн-синхронизация находит конфликты
+
+DROP TRIGGER IF EXISTS update_candle_data_updated_at ON candle_data;
+
+CREATE TRIGGER update_candle_data_updated_at
+BEFORE UPDATE ON candle_data
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
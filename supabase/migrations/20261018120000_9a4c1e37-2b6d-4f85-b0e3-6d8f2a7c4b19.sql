@@ -0,0 +1,45 @@
+-- Реестр моделей: версии обученных моделей с весами, схемой признаков и метриками
+
+CREATE TABLE IF NOT EXISTS model_registry (
+  -- name@version, уникален в пределах пользователя
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  version TEXT NOT NULL CHECK (version ~ '^\d+\.\d+\.\d+$'),
+  format TEXT NOT NULL CHECK (format IN ('network-weights', 'onnx')),
+  status TEXT NOT NULL DEFAULT 'candidate' CHECK (status IN ('candidate', 'production', 'archived')),
+  -- Артефакт целиком: веса, нормализация, схема признаков, диапазон обучающих данных
+  artifact JSONB NOT NULL,
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  promoted_at TIMESTAMPTZ,
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_registry_name ON model_registry(user_id, name);
+-- Не больше одной версии в продакшене на имя модели
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_registry_production
+ON model_registry(user_id, name) WHERE status = 'production';
+
+ALTER TABLE model_registry ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own models"
+ON model_registry
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can register their own models"
+ON model_registry
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own models"
+ON model_registry
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own models"
+ON model_registry
+FOR DELETE
+USING (auth.uid() = user_id);
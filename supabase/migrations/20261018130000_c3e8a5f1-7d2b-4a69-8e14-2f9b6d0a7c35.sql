@@ -0,0 +1,4 @@
+-- Вероятность прогноза до калибровки: калибраторы подгоняются по ней, а не по уже откалиброванной
+
+ALTER TABLE prediction_ledger
+  ADD COLUMN IF NOT EXISTS raw_probability NUMERIC CHECK (raw_probability >= 0 AND raw_probability <= 100);